@@ -6,7 +6,8 @@ import tseslint from 'typescript-eslint'
 import { globalIgnores } from 'eslint/config'
 
 export default tseslint.config([
-  globalIgnores(['dist']),
+  // Analyzer fixtures include deliberately unparseable source
+  globalIgnores(['dist', 'functions/test/analysis']),
   {
     files: ['**/*.{ts,tsx}'],
     extends: [
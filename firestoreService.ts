@@ -32,6 +32,8 @@ export interface Project {
     User_Id: string; // Foreign key - references User's Firestore document ID
     Description: string;
     GitHubRepo?: string;
+    LLM_Provider?: string | null; // 'gemini' | 'openai-compatible' | 'mock'; null uses the server default
+    LLM_Model?: string | null;
     Created_Time: any; // Firestore Timestamp
     Updated_Time?: any; // Firestore Timestamp
 }
@@ -66,6 +68,10 @@ export interface Document {
     EditedBy?: string; // User ID who last edited
     IsDraft?: boolean;
     Hash?: string; // Content hash for change detection
+    Chunked?: boolean; // Content is stored in the Chunks subcollection (large documents)
+    Chunks?: Array<{ id: string; size: number; headings: Array<{ level: number; text: string }> }>; // Ordered chunk outline
+    Parent_Id?: string | null; // Parent page of a document imported from Confluence or Notion
+    Sort_Order?: number; // Position among the parent's child pages
 }
 
 export interface Template {
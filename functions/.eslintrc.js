@@ -20,6 +20,7 @@ module.exports = {
   ignorePatterns: [
     "/lib/**/*", // Ignore built files.
     "/generated/**/*", // Ignore generated files.
+    "/test/analysis/**/*", // Analyzer fixtures, some deliberately unparseable.
   ],
   plugins: [
     "@typescript-eslint",
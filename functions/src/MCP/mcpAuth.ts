@@ -0,0 +1,136 @@
+/**
+ * MCP Auth
+ * Personal access tokens for external MCP clients, and resolving the user
+ * behind an Authorization header (access token or Firebase ID token)
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as logger from 'firebase-functions/logger';
+
+export const MCP_TOKEN_COLLECTION = 'McpTokens';
+export const MCP_TOKEN_PREFIX = 'dtv_';
+
+export interface McpTokenInfo {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the token, so users can tell tokens apart
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+// Only the hash is stored; the token itself is shown once when created
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const toIso = (value?: admin.firestore.Timestamp | null): string | null => (value?.toDate ? value.toDate().toISOString() : null);
+
+const readBearer = (authorization: string | undefined): string | null => {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization || '');
+  return match ? match[1].trim() : null;
+};
+
+export const createMcpToken = async (
+  firestore: admin.firestore.Firestore,
+  userId: string,
+  name: string
+): Promise<{ token: string; info: McpTokenInfo }> => {
+  const token = `${MCP_TOKEN_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  const ref = firestore.collection(MCP_TOKEN_COLLECTION).doc();
+  const now = admin.firestore.Timestamp.now();
+
+  await ref.set({
+    User_Id: userId,
+    Name: name,
+    Token_Hash: hashToken(token),
+    Token_Prefix: token.slice(0, MCP_TOKEN_PREFIX.length + 6),
+    Created_Time: now,
+    Last_Used_Time: null
+  });
+
+  logger.info(`🔑 MCP token ${ref.id} created for user ${userId}`);
+  return {
+    token,
+    info: { id: ref.id, name, prefix: token.slice(0, MCP_TOKEN_PREFIX.length + 6), createdAt: now.toDate().toISOString(), lastUsedAt: null }
+  };
+};
+
+export const listMcpTokens = async (firestore: admin.firestore.Firestore, userId: string): Promise<McpTokenInfo[]> => {
+  const snapshot = await firestore.collection(MCP_TOKEN_COLLECTION).where('User_Id', '==', userId).get();
+  return snapshot.docs
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        name: data.Name || 'Unnamed token',
+        prefix: data.Token_Prefix || MCP_TOKEN_PREFIX,
+        createdAt: toIso(data.Created_Time),
+        lastUsedAt: toIso(data.Last_Used_Time)
+      };
+    })
+    .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+};
+
+// Returns false when the token does not exist or belongs to someone else
+export const revokeMcpToken = async (firestore: admin.firestore.Firestore, userId: string, tokenId: string): Promise<boolean> => {
+  const ref = firestore.collection(MCP_TOKEN_COLLECTION).doc(tokenId);
+  const snap = await ref.get();
+  if (!snap.exists || snap.data()?.User_Id !== userId) {
+    return false;
+  }
+  await ref.delete();
+  logger.info(`🔑 MCP token ${tokenId} revoked for user ${userId}`);
+  return true;
+};
+
+export const resolveMcpToken = async (firestore: admin.firestore.Firestore, token: string): Promise<string | null> => {
+  if (!token.startsWith(MCP_TOKEN_PREFIX)) {
+    return null;
+  }
+  const snapshot = await firestore.collection(MCP_TOKEN_COLLECTION)
+    .where('Token_Hash', '==', hashToken(token))
+    .limit(1)
+    .get();
+  if (snapshot.empty) {
+    return null;
+  }
+
+  const doc = snapshot.docs[0];
+  // Last-used time is informational; a failed write must not block the request
+  doc.ref.update({ Last_Used_Time: admin.firestore.Timestamp.now() }).catch((error) => {
+    logger.error('⚠️ Failed to update MCP token last-used time:', error);
+  });
+  return doc.data().User_Id || null;
+};
+
+// Firebase ID tokens only: used for managing access tokens from the web app
+export const verifyFirebaseUser = async (authorization: string | undefined): Promise<string | null> => {
+  const token = readBearer(authorization);
+  if (!token || token.startsWith(MCP_TOKEN_PREFIX)) {
+    return null;
+  }
+  try {
+    const decoded = await admin.auth().verifyIdToken(token);
+    return decoded.uid;
+  } catch (error) {
+    logger.warn('⚠️ Invalid Firebase ID token:', (error as Error).message);
+    return null;
+  }
+};
+
+/**
+ * Resolve the user for an MCP request. Accepts a personal access token
+ * (dtv_...) or a Firebase ID token as `Authorization: Bearer <token>`.
+ */
+export const authenticateMcpRequest = async (
+  firestore: admin.firestore.Firestore,
+  authorization: string | undefined
+): Promise<string | null> => {
+  const token = readBearer(authorization);
+  if (!token) {
+    return null;
+  }
+  if (token.startsWith(MCP_TOKEN_PREFIX)) {
+    return resolveMcpToken(firestore, token);
+  }
+  return verifyFirebaseUser(authorization);
+};
@@ -25,14 +25,14 @@ interface GenAITool {
   parameters: any;
 }
 
-// Create MCP server with 7 document tools
+// Create MCP server with 11 document tools
 export const createMcpServer = (): McpServer => {
   const server = new McpServer({
     name: 'dotivra-document-editor',
     version: '1.0.0'
   });
 
-  logger.info('🚀 Creating MCP Server with 7 document tools...');
+  logger.info('🚀 Creating MCP Server with 11 document tools...');
 
   // Tool 1: Get Document Content
 
@@ -44,7 +44,7 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().describe('Brief explanation of why you need this information (e.g., "need to understand document structure before editing")')
     },
     async ({ reason }: { reason: string }) => {
-      return await toolService.scan_document_content({ reason });
+      return await toolService.executeTool('scan_document_content', { reason });
     }
   );
 
@@ -57,7 +57,7 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().optional().describe('Brief explanation of why you need to search (e.g., "looking for section headings to insert new content")')
     },
     async ({ query, reason }: { query: string; reason?: string }) => {
-      return await toolService.search_document_content({ query, reason });
+      return await toolService.executeTool('search_document_content', { query, reason });
     }
   );
 
@@ -70,7 +70,7 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().describe('Brief explanation of what you are adding and why (e.g., "adding new conclusion section")')
     },
     async ({ content, reason }: { content: string; reason: string }) => {
-      return await toolService.append_document_content({ content, reason });
+      return await toolService.executeTool('append_document_content', { content, reason });
     }
   );
 
@@ -84,7 +84,7 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().describe('Brief explanation of what you are inserting and why (e.g., "inserting code example after introduction")')
     },
     async ({ position, content, reason }: { position: number; content: string; reason: string }) => {
-      return await toolService.insert_document_content({ position, content, reason });
+      return await toolService.executeTool('insert_document_content', { position, content, reason });
     }
   );
 
@@ -101,7 +101,7 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().describe('Brief explanation of what you are replacing and why (e.g., "updating outdated information in section 2")')
     },
     async ({ position, content, reason }: { position: { from: number; to: number }; content: string; reason: string }) => {
-      return await toolService.replace_document_content({ position, content, reason });
+      return await toolService.executeTool('replace_document_content', { position, content, reason });
     }
   );
 
@@ -117,19 +117,107 @@ export const createMcpServer = (): McpServer => {
       reason: z.string().describe('Brief explanation of what you are removing and why (e.g., "removing duplicate section")')
     },
     async ({ position, reason }: { position: { from: number; to: number }; reason: string }) => {
-      return await toolService.remove_document_content({ position, reason });
+      return await toolService.executeTool('remove_document_content', { position, reason });
+    }
+  );
+
+  // Block-addressed tools: target blocks by stable ID or heading path
+  const blockTargetShape = {
+    blockId: z.string().optional().describe('Block ID from get_document_outline or the last edit (e.g. "blk_3f2a9c01de"); it changes when the block is edited'),
+    path: z.string().optional().describe('Heading path to the block, e.g. "Installation > paragraph 3" or "Installation" for the heading itself')
+  };
+
+  // Tool 8: Get Document Outline
+  server.tool(
+    'get_document_outline',
+    'Get the document as a tree of heading sections and blocks, each with a block ID and heading path',
+    {
+      reason: z.string().describe('Brief explanation of why you need the outline (e.g., "finding the installation section before editing")')
+    },
+    async ({ reason }: { reason: string }) => {
+      return await toolService.executeTool('get_document_outline', { reason });
+    }
+  );
+
+  // Tool 9: Get Document Block
+  server.tool(
+    'get_document_block',
+    'Read the HTML of one block (or a whole heading section) addressed by block ID or heading path',
+    {
+      ...blockTargetShape,
+      scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to read the entire section'),
+      reason: z.string().optional().describe('Brief explanation of why you need this block')
+    },
+    async (args: { blockId?: string; path?: string; scope?: 'block' | 'section'; reason?: string }) => {
+      return await toolService.executeTool('get_document_block', args);
+    }
+  );
+
+  // Tool 10: Insert Document Block
+  server.tool(
+    'insert_document_block',
+    'Insert new content before or after a block, or at the start/end of a heading section',
+    {
+      ...blockTargetShape,
+      placement: z.enum(['before', 'after', 'section_start', 'section_end']).describe('Where to place the content relative to the target'),
+      content: z.string().describe('The HTML or Markdown content to insert'),
+      reason: z.string().describe('Brief explanation of what you are inserting and why')
+    },
+    async (args: { blockId?: string; path?: string; placement?: string; content?: string; reason?: string }) => {
+      return await toolService.executeTool('insert_document_block', args);
+    }
+  );
+
+  // Tool 11: Replace Document Block
+  server.tool(
+    'replace_document_block',
+    'Replace one block, or a whole heading section, addressed by block ID or heading path',
+    {
+      ...blockTargetShape,
+      scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to replace the heading and all of its content'),
+      content: z.string().describe('The new HTML or Markdown content'),
+      reason: z.string().describe('Brief explanation of what you are replacing and why')
+    },
+    async (args: { blockId?: string; path?: string; scope?: 'block' | 'section'; content?: string; reason?: string }) => {
+      return await toolService.executeTool('replace_document_block', args);
+    }
+  );
+
+  // Tool 12: Remove Document Block
+  server.tool(
+    'remove_document_block',
+    'Remove one block, or a whole heading section, addressed by block ID or heading path',
+    {
+      ...blockTargetShape,
+      scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to remove the heading and all of its content'),
+      reason: z.string().describe('Brief explanation of what you are removing and why')
+    },
+    async (args: { blockId?: string; path?: string; scope?: 'block' | 'section'; reason?: string }) => {
+      return await toolService.executeTool('remove_document_block', args);
     }
   );
 
   
 
-  logger.info('✅ MCP Server created with 7 tools');
+  logger.info('✅ MCP Server created with 11 tools');
   return server;
 };
 
 // Get MCP tools in Google GenAI format
 export const getMcpToolsForGemini = (server: McpServer): GenAITool[] => {
-  // Manually define the 7 tools in Google GenAI format
+  // Shared addressing properties for block-addressed tools
+  const blockTargetProperties = {
+    blockId: {
+      type: SchemaType.STRING,
+      description: 'Block ID from get_document_outline or the last edit (e.g. "blk_3f2a9c01de"); it changes when the block is edited'
+    },
+    path: {
+      type: SchemaType.STRING,
+      description: 'Heading path to the block, e.g. "Installation > paragraph 3" or "Installation" for the heading itself'
+    }
+  };
+
+  // Manually define the 11 tools in Google GenAI format
   const tools: GenAITool[] = [
     {
       name: 'scan_document_content',
@@ -264,6 +352,107 @@ export const getMcpToolsForGemini = (server: McpServer): GenAITool[] => {
         },
         required: ['position', 'reason']
       }
+    },
+    {
+      name: 'get_document_outline',
+      description: 'Get the document as a tree of heading sections and blocks, each with a block ID and heading path',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          reason: {
+            type: SchemaType.STRING,
+            description: 'Brief explanation of why you need the outline (e.g., "finding the installation section before editing")'
+          }
+        },
+        required: ['reason']
+      }
+    },
+    {
+      name: 'get_document_block',
+      description: 'Read the HTML of one block (or a whole heading section) addressed by block ID or heading path',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          ...blockTargetProperties,
+          scope: {
+            type: SchemaType.STRING,
+            enum: ['block', 'section'],
+            description: 'Use "section" with a heading target to read the entire section'
+          },
+          reason: {
+            type: SchemaType.STRING,
+            description: 'Brief explanation of why you need this block'
+          }
+        }
+      }
+    },
+    {
+      name: 'insert_document_block',
+      description: 'Insert new content before or after a block, or at the start/end of a heading section',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          ...blockTargetProperties,
+          placement: {
+            type: SchemaType.STRING,
+            enum: ['before', 'after', 'section_start', 'section_end'],
+            description: 'Where to place the content relative to the target'
+          },
+          content: {
+            type: SchemaType.STRING,
+            description: 'The HTML or Markdown content to insert'
+          },
+          reason: {
+            type: SchemaType.STRING,
+            description: 'Brief explanation of what you are inserting and why'
+          }
+        },
+        required: ['placement', 'content', 'reason']
+      }
+    },
+    {
+      name: 'replace_document_block',
+      description: 'Replace one block, or a whole heading section, addressed by block ID or heading path',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          ...blockTargetProperties,
+          scope: {
+            type: SchemaType.STRING,
+            enum: ['block', 'section'],
+            description: 'Use "section" with a heading target to replace the heading and all of its content'
+          },
+          content: {
+            type: SchemaType.STRING,
+            description: 'The new HTML or Markdown content'
+          },
+          reason: {
+            type: SchemaType.STRING,
+            description: 'Brief explanation of what you are replacing and why'
+          }
+        },
+        required: ['content', 'reason']
+      }
+    },
+    {
+      name: 'remove_document_block',
+      description: 'Remove one block, or a whole heading section, addressed by block ID or heading path',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          ...blockTargetProperties,
+          scope: {
+            type: SchemaType.STRING,
+            enum: ['block', 'section'],
+            description: 'Use "section" with a heading target to remove the heading and all of its content'
+          },
+          reason: {
+            type: SchemaType.STRING,
+            description: 'Brief explanation of what you are removing and why'
+          }
+        },
+        required: ['reason']
+      }
     }
   ];
 
@@ -271,30 +460,27 @@ export const getMcpToolsForGemini = (server: McpServer): GenAITool[] => {
   return tools;
 };
 
-// Execute MCP tool
+// Execute MCP tool through toolService so every call runs in a session and is audited
+const MCP_TOOL_NAMES = new Set([
+  'scan_document_content',
+  'search_document_content',
+  'append_document_content',
+  'insert_document_content',
+  'replace_document_content',
+  'remove_document_content',
+  'get_document_outline',
+  'get_document_block',
+  'insert_document_block',
+  'replace_document_block',
+  'remove_document_block'
+]);
+
 export const executeMcpTool = async (toolName: string, args: Record<string, any>): Promise<any> => {
   logger.info(`🔧 Executing MCP tool: ${toolName}`, args);
 
-  switch (toolName) {
-    case 'scan_document_content':
-      return await toolService.scan_document_content(args as { reason: string });
-
-    case 'search_document_content':
-      return await toolService.search_document_content(args as { query: string; reason?: string });
-
-    case 'append_document_content':
-      return await toolService.append_document_content(args as { content: string; reason: string });
-
-    case 'insert_document_content':
-      return await toolService.insert_document_content(args as { position: number; content: string; reason: string });
-
-    case 'replace_document_content':
-      return await toolService.replace_document_content(args as { position: { from: number; to: number }; content: string; reason: string });
-
-    case 'remove_document_content':
-      return await toolService.remove_document_content(args as { position: { from: number; to: number }; reason: string });
-
-    default:
-      throw new Error(`Unknown tool: ${toolName}`);
+  if (!MCP_TOOL_NAMES.has(toolName)) {
+    throw new Error(`Unknown tool: ${toolName}`);
   }
+
+  return await toolService.executeTool(toolName, args);
 };
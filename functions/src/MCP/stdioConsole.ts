@@ -0,0 +1,10 @@
+/**
+ * Stdio Console
+ * stdout carries MCP messages in stdio mode, so every log line goes to stderr.
+ * Must be imported before anything that captures console methods (firebase-functions/logger).
+ */
+
+console.log = console.error;
+console.info = console.error;
+console.debug = console.error;
+console.warn = console.error;
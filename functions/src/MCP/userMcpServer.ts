@@ -0,0 +1,432 @@
+/**
+ * User MCP Server
+ * The MCP server external clients (IDE assistants, CLI agents) connect to over
+ * Streamable HTTP or stdio. Everything is scoped to one authenticated user:
+ * their projects, the documents in them, and the shared templates.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import * as toolService from '../services/toolService';
+import { readDocumentContent } from '../services/documentChunks';
+
+export interface UserMcpContext {
+  firestore: admin.firestore.Firestore;
+  userId: string;
+}
+
+const DOCUMENT_URI_PREFIX = 'dotivra://documents/';
+const TEMPLATE_URI_PREFIX = 'dotivra://templates/';
+const MAX_SEARCH_RESULTS = 20;
+const SNIPPET_RADIUS = 80;
+
+// Firestore `in` queries accept a limited number of values per query
+const IN_QUERY_CHUNK = 10;
+
+interface ProjectSummary {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  githubRepo: string | null;
+}
+
+interface DocumentRecord {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+const textResult = (payload: unknown, isError = false) => ({
+  content: [{ type: 'text' as const, text: typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2) }],
+  ...(isError ? { isError: true } : {})
+});
+
+const stripHtml = (html: string): string => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Tool results carry user-facing HTML errors; MCP clients get the plain text
+const toolResult = (result: toolService.ToolResult | toolService.ToolBatchResult) => {
+  if (result?.success) {
+    const rest = { ...result };
+    delete rest.html;
+    return textResult(rest);
+  }
+  const message = result?.error || (result?.html ? stripHtml(result.html) : 'Tool failed');
+  return textResult({ success: false, error: message, conflict: !!result?.conflict }, true);
+};
+
+const toIso = (value?: admin.firestore.Timestamp | null): string | null => (value?.toDate ? value.toDate().toISOString() : null);
+
+const describeDocument = ({ id, data }: DocumentRecord) => ({
+  documentId: id,
+  name: data.DocumentName || 'Untitled',
+  projectId: data.Project_Id || null,
+  type: data.DocumentType || null,
+  category: data.DocumentCategory || null,
+  version: data.version || null,
+  updatedAt: toIso(data.Updated_Time),
+  uri: `${DOCUMENT_URI_PREFIX}${id}`
+});
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+const loadProjects = async ({ firestore, userId }: UserMcpContext): Promise<ProjectSummary[]> => {
+  const snapshot = await firestore.collection('Projects').where('User_Id', '==', userId).get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      projectId: data.Project_Id || doc.id,
+      name: data.ProjectName || 'Untitled project',
+      description: data.Description || '',
+      githubRepo: data.GitHubRepo || null
+    };
+  });
+};
+
+// Documents reference their project by Firestore ID, or by Project_Id on older projects
+const projectKeys = (projects: ProjectSummary[]): Set<string> => {
+  return new Set(projects.flatMap((project) => [project.id, project.projectId]));
+};
+
+const loadDocuments = async (context: UserMcpContext, projectId?: string): Promise<DocumentRecord[]> => {
+  const { firestore, userId } = context;
+  const projects = await loadProjects(context);
+  const keys = projectKeys(projects);
+
+  let scopedKeys = Array.from(keys);
+  if (projectId) {
+    const project = projects.find((p) => p.id === projectId || p.projectId === projectId);
+    if (!project) {
+      return [];
+    }
+    scopedKeys = Array.from(new Set([project.id, project.projectId]));
+  }
+
+  const byId = new Map<string, DocumentRecord>();
+  for (let i = 0; i < scopedKeys.length; i += IN_QUERY_CHUNK) {
+    const snapshot = await firestore.collection('Documents')
+      .where('Project_Id', 'in', scopedKeys.slice(i, i + IN_QUERY_CHUNK))
+      .get();
+    snapshot.docs.forEach((doc) => byId.set(doc.id, { id: doc.id, data: doc.data() }));
+  }
+
+  if (!projectId) {
+    const owned = await firestore.collection('Documents').where('User_Id', '==', userId).get();
+    owned.docs.forEach((doc) => byId.set(doc.id, { id: doc.id, data: doc.data() }));
+  }
+
+  return Array.from(byId.values());
+};
+
+// Returns the document only when the user owns it or the project it belongs to
+const loadAccessibleDocument = async (context: UserMcpContext, documentId: string): Promise<DocumentRecord | null> => {
+  const snap = await context.firestore.collection('Documents').doc(documentId).get();
+  if (!snap.exists) {
+    return null;
+  }
+  const data = snap.data() || {};
+  if (data.User_Id === context.userId) {
+    return { id: snap.id, data };
+  }
+  const keys = projectKeys(await loadProjects(context));
+  return data.Project_Id && keys.has(data.Project_Id) ? { id: snap.id, data } : null;
+};
+
+const documentNotFound = (documentId: string) => {
+  return textResult({ success: false, error: `Document ${documentId} not found or not accessible` }, true);
+};
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+export const createUserMcpServer = (context: UserMcpContext): McpServer => {
+  const { firestore, userId } = context;
+  const server = new McpServer({
+    name: 'dotivra',
+    version: '1.0.0'
+  });
+
+  // Read-only tools load the document into a fresh tool session
+  const readWithTool = async (documentId: string, tool: string, args: Record<string, unknown>) => {
+    if (!await loadAccessibleDocument(context, documentId)) {
+      return documentNotFound(documentId);
+    }
+    const session = await toolService.openToolSession({ documentId, userId });
+    return toolResult(await toolService.executeTool(tool, args, session));
+  };
+
+  // Edits go through a one-shot transaction: one DocumentHistory entry, rejected if the document changed meanwhile
+  const editWithTools = async (documentId: string, operations: Array<{ tool: string; args: Record<string, unknown> }>) => {
+    if (!await loadAccessibleDocument(context, documentId)) {
+      return documentNotFound(documentId);
+    }
+    const result = await toolService.executeToolBatch(documentId, operations, { editedBy: userId, userId });
+    return toolResult(result);
+  };
+
+  // --------------------------------------------------------------------------
+  // Resources
+  // --------------------------------------------------------------------------
+
+  server.registerResource(
+    'document',
+    new ResourceTemplate(`${DOCUMENT_URI_PREFIX}{documentId}`, {
+      list: async () => {
+        const documents = await loadDocuments(context);
+        return {
+          resources: documents.map((doc) => ({
+            uri: `${DOCUMENT_URI_PREFIX}${doc.id}`,
+            name: doc.data.DocumentName || 'Untitled',
+            description: [doc.data.DocumentType, doc.data.DocumentCategory].filter(Boolean).join(' · ') || undefined,
+            mimeType: 'text/html'
+          }))
+        };
+      }
+    }),
+    {
+      title: 'Dotivra document',
+      description: 'Current HTML content of a document in one of your projects',
+      mimeType: 'text/html'
+    },
+    async (uri, variables) => {
+      const documentId = String(variables.documentId);
+      const doc = await loadAccessibleDocument(context, documentId);
+      if (!doc) {
+        throw new Error(`Document ${documentId} not found or not accessible`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/html', text: await readDocumentContent(context.firestore, doc.id, doc.data) }]
+      };
+    }
+  );
+
+  server.registerResource(
+    'template',
+    new ResourceTemplate(`${TEMPLATE_URI_PREFIX}{templateId}`, {
+      list: async () => {
+        const snapshot = await firestore.collection('Templates').get();
+        return {
+          resources: snapshot.docs.map((doc) => ({
+            uri: `${TEMPLATE_URI_PREFIX}${doc.id}`,
+            name: doc.data().TemplateName || 'Untitled template',
+            description: doc.data().Description || undefined,
+            mimeType: 'text/markdown'
+          }))
+        };
+      }
+    }),
+    {
+      title: 'Dotivra template',
+      description: 'Prompt used to generate a document from a template',
+      mimeType: 'text/markdown'
+    },
+    async (uri, variables) => {
+      const templateId = String(variables.templateId);
+      const snap = await firestore.collection('Templates').doc(templateId).get();
+      if (!snap.exists) {
+        throw new Error(`Template ${templateId} not found`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: snap.data()?.TemplatePrompt || '' }]
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // Projects and documents
+  // --------------------------------------------------------------------------
+
+  server.registerTool(
+    'list_projects',
+    {
+      description: 'List your Dotivra projects',
+      inputSchema: {}
+    },
+    async () => textResult({ projects: await loadProjects(context) })
+  );
+
+  server.registerTool(
+    'list_documents',
+    {
+      description: 'List documents in your projects, optionally limited to one project',
+      inputSchema: {
+        projectId: z.string().optional().describe('Project ID from list_projects')
+      }
+    },
+    async ({ projectId }) => {
+      const documents = await loadDocuments(context, projectId);
+      return textResult({ documents: documents.map(describeDocument) });
+    }
+  );
+
+  server.registerTool(
+    'read_document',
+    {
+      description: 'Read the full HTML content of a document',
+      inputSchema: {
+        documentId: z.string().describe('Document ID from list_documents')
+      }
+    },
+    async ({ documentId }) => {
+      const doc = await loadAccessibleDocument(context, documentId);
+      if (!doc) {
+        return documentNotFound(documentId);
+      }
+      return textResult({ ...describeDocument(doc), content: await readDocumentContent(context.firestore, doc.id, doc.data) });
+    }
+  );
+
+  server.registerTool(
+    'search_documents',
+    {
+      description: 'Search the text of your documents and return matching snippets',
+      inputSchema: {
+        query: z.string().min(1).describe('Text to search for (case-insensitive)'),
+        projectId: z.string().optional().describe('Limit the search to one project')
+      }
+    },
+    async ({ query, projectId }) => {
+      const needle = query.toLowerCase();
+      const matches: Array<Record<string, unknown>> = [];
+
+      for (const doc of await loadDocuments(context, projectId)) {
+        const text = stripHtml(await readDocumentContent(context.firestore, doc.id, doc.data));
+        const haystack = text.toLowerCase();
+        const index = haystack.indexOf(needle);
+        const nameMatch = String(doc.data.DocumentName || '').toLowerCase().includes(needle);
+        if (index === -1 && !nameMatch) {
+          continue;
+        }
+
+        let count = 0;
+        for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+          count++;
+        }
+        matches.push({
+          ...describeDocument(doc),
+          matches: count,
+          snippet: index === -1
+            ? text.slice(0, SNIPPET_RADIUS * 2)
+            : text.slice(Math.max(0, index - SNIPPET_RADIUS), index + needle.length + SNIPPET_RADIUS)
+        });
+      }
+
+      matches.sort((a, b) => (b.matches as number) - (a.matches as number));
+      return textResult({ query, total: matches.length, results: matches.slice(0, MAX_SEARCH_RESULTS) });
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // Document tools (block-addressed, same behaviour as the in-app agent)
+  // --------------------------------------------------------------------------
+
+  const documentIdShape = {
+    documentId: z.string().describe('Document ID from list_documents')
+  };
+  const blockTargetShape = {
+    blockId: z.string().optional().describe('Block ID from get_document_outline or the last edit (e.g. "blk_3f2a9c01de"); it changes when the block is edited'),
+    path: z.string().optional().describe('Heading path to the block, e.g. "Installation > paragraph 3" or "Installation" for the heading itself')
+  };
+
+  server.registerTool(
+    'get_document_outline',
+    {
+      description: 'Get a document as a tree of heading sections and blocks, each with a block ID and heading path',
+      inputSchema: { ...documentIdShape }
+    },
+    async ({ documentId }) => readWithTool(documentId, 'get_document_outline', { reason: 'MCP client request' })
+  );
+
+  server.registerTool(
+    'get_document_block',
+    {
+      description: 'Read the HTML of one block (or a whole heading section) addressed by block ID or heading path',
+      inputSchema: {
+        ...documentIdShape,
+        ...blockTargetShape,
+        scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to read the entire section')
+      }
+    },
+    async ({ documentId, ...args }) => readWithTool(documentId, 'get_document_block', args)
+  );
+
+  server.registerTool(
+    'insert_document_block',
+    {
+      description: 'Insert new content before or after a block, or at the start/end of a heading section',
+      inputSchema: {
+        ...documentIdShape,
+        ...blockTargetShape,
+        placement: z.enum(['before', 'after', 'section_start', 'section_end']).describe('Where to place the content relative to the target'),
+        content: z.string().describe('The HTML or Markdown content to insert'),
+        reason: z.string().describe('Brief explanation of what you are inserting and why')
+      }
+    },
+    async ({ documentId, ...args }) => editWithTools(documentId, [{ tool: 'insert_document_block', args }])
+  );
+
+  server.registerTool(
+    'replace_document_block',
+    {
+      description: 'Replace one block, or a whole heading section, addressed by block ID or heading path',
+      inputSchema: {
+        ...documentIdShape,
+        ...blockTargetShape,
+        scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to replace the heading and all of its content'),
+        content: z.string().describe('The new HTML or Markdown content'),
+        reason: z.string().describe('Brief explanation of what you are replacing and why')
+      }
+    },
+    async ({ documentId, ...args }) => editWithTools(documentId, [{ tool: 'replace_document_block', args }])
+  );
+
+  server.registerTool(
+    'remove_document_block',
+    {
+      description: 'Remove one block, or a whole heading section, addressed by block ID or heading path',
+      inputSchema: {
+        ...documentIdShape,
+        ...blockTargetShape,
+        scope: z.enum(['block', 'section']).optional().describe('Use "section" with a heading target to remove the heading and all of its content'),
+        reason: z.string().describe('Brief explanation of what you are removing and why')
+      }
+    },
+    async ({ documentId, ...args }) => editWithTools(documentId, [{ tool: 'remove_document_block', args }])
+  );
+
+  server.registerTool(
+    'append_document_content',
+    {
+      description: 'Add new content to the end of a document',
+      inputSchema: {
+        ...documentIdShape,
+        content: z.string().describe('The HTML or Markdown content to append'),
+        reason: z.string().describe('Brief explanation of what you are adding and why')
+      }
+    },
+    async ({ documentId, ...args }) => editWithTools(documentId, [{ tool: 'append_document_content', args }])
+  );
+
+  server.registerTool(
+    'apply_document_edits',
+    {
+      description: 'Apply several block edits to one document as a single change. If any edit fails, none are saved.',
+      inputSchema: {
+        ...documentIdShape,
+        edits: z.array(z.object({
+          tool: z.enum(['insert_document_block', 'replace_document_block', 'remove_document_block', 'append_document_content']),
+          args: z.record(z.any()).describe('Arguments for the tool, without documentId')
+        })).min(1).describe('Edits to apply in order')
+      }
+    },
+    async ({ documentId, edits }) => editWithTools(documentId, edits.map((edit) => ({ tool: edit.tool, args: edit.args || {} })))
+  );
+
+  logger.info(`🔌 MCP server created for user ${userId}`);
+  return server;
+};
@@ -0,0 +1,83 @@
+/**
+ * Repository Analyzer
+ * Runs every language analyzer over a repository's files and merges what they
+ * find into one RepoModel. Python and Go analyzers implement LanguageAnalyzer
+ * and are added to `analyzers`; the model and its consumers stay the same.
+ */
+
+import { typescriptAnalyzer } from './typescriptAnalyzer';
+import { AnalysisLanguage, EnvVarUsage, LanguageAnalyzer, RepoModel } from './types';
+
+// Bump when an analyzer changes what it extracts, so cached models are rebuilt
+export const ANALYZER_VERSION = 1;
+
+const analyzers: LanguageAnalyzer[] = [typescriptAnalyzer];
+
+const MAX_FUNCTIONS = 400;
+const MAX_CLASSES = 150;
+const MAX_ROUTES = 400;
+const MAX_CLI_COMMANDS = 150;
+const MAX_ENV_VARS = 200;
+const MAX_ENV_LOCATIONS = 5;
+
+export const analyzeSourceFiles = (
+  repository: string,
+  revision: string,
+  files: Array<{ path: string; content: string }>
+): RepoModel => {
+  const model: RepoModel = {
+    repository,
+    revision,
+    languages: [],
+    fileCount: 0,
+    functions: [],
+    classes: [],
+    routes: [],
+    cliCommands: [],
+    envVars: [],
+    truncated: false,
+    analyzedAt: new Date().toISOString()
+  };
+  const languages = new Set<AnalysisLanguage>();
+  const envVars = new Map<string, EnvVarUsage>();
+
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    for (const analyzer of analyzers) {
+      const language = analyzer.languageOf(file.path);
+      if (!language) continue;
+
+      const facts = analyzer.analyze(file.path, file.content);
+      languages.add(language);
+      model.fileCount++;
+      model.functions.push(...facts.functions);
+      model.classes.push(...facts.classes);
+      model.routes.push(...facts.routes);
+      model.cliCommands.push(...facts.cliCommands);
+
+      for (const usage of facts.envVars) {
+        const entry = envVars.get(usage.name) || { name: usage.name, defaultValue: null, locations: [] };
+        entry.defaultValue = entry.defaultValue ?? usage.defaultValue;
+        if (entry.locations.length < MAX_ENV_LOCATIONS &&
+          !entry.locations.some((location) => location.path === file.path && location.line === usage.line)) {
+          entry.locations.push({ path: file.path, line: usage.line });
+        }
+        envVars.set(usage.name, entry);
+      }
+      break;
+    }
+  }
+
+  const cap = <T>(items: T[], limit: number): T[] => {
+    if (items.length <= limit) return items;
+    model.truncated = true;
+    return items.slice(0, limit);
+  };
+
+  model.languages = Array.from(languages);
+  model.functions = cap(model.functions, MAX_FUNCTIONS);
+  model.classes = cap(model.classes, MAX_CLASSES);
+  model.routes = cap(model.routes, MAX_ROUTES);
+  model.cliCommands = cap(model.cliCommands, MAX_CLI_COMMANDS);
+  model.envVars = cap(Array.from(envVars.values()).sort((a, b) => a.name.localeCompare(b.name)), MAX_ENV_VARS);
+  return model;
+};
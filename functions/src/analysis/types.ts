@@ -0,0 +1,74 @@
+/**
+ * Static Analysis Types
+ * The structured model of a repository that documentation treats as ground
+ * truth, and the interface each language analyzer implements to feed it
+ */
+
+export type AnalysisLanguage = 'typescript' | 'javascript' | 'python' | 'go';
+
+export interface SourceLocation {
+  path: string;
+  line: number; // 1-based
+}
+
+export interface ExportedFunction extends SourceLocation {
+  name: string;
+  signature: string; // As declared, e.g. "async function load(id: string): Promise<User>"
+  language: AnalysisLanguage;
+}
+
+export interface ExportedClass extends SourceLocation {
+  name: string;
+  extends: string | null;
+  implements: string[];
+  methods: string[]; // Public member signatures, constructor first
+  language: AnalysisLanguage;
+}
+
+export interface HttpRoute extends SourceLocation {
+  method: string; // GET, POST, ... ALL for catch-alls, USE for mounted routers
+  route: string;
+  handler: string | null; // Named handler, or null when it is written inline
+  framework: string; // express, fastify, ...
+}
+
+export interface CliCommand extends SourceLocation {
+  name: string; // "serve [port]", or the npm script / bin name
+  description: string | null;
+  options: string[]; // Flags as written, e.g. "-p, --port <number>"
+  source: string; // commander, yargs, bin, npm-script, ...
+}
+
+export interface EnvVarUsage {
+  name: string;
+  defaultValue: string | null; // Literal fallback, e.g. `process.env.PORT || 3000`
+  locations: SourceLocation[];
+}
+
+// What one file contributes; the repository model merges these
+export interface FileFacts {
+  functions: ExportedFunction[];
+  classes: ExportedClass[];
+  routes: HttpRoute[];
+  cliCommands: CliCommand[];
+  envVars: Array<{ name: string; defaultValue: string | null; line: number }>;
+}
+
+export interface LanguageAnalyzer {
+  languageOf: (path: string) => AnalysisLanguage | null; // null for files it does not read
+  analyze: (path: string, content: string) => FileFacts;
+}
+
+export interface RepoModel {
+  repository: string;
+  revision: string;
+  languages: AnalysisLanguage[]; // Languages an analyzer found files for
+  fileCount: number; // Files an analyzer read
+  functions: ExportedFunction[];
+  classes: ExportedClass[];
+  routes: HttpRoute[];
+  cliCommands: CliCommand[];
+  envVars: EnvVarUsage[];
+  truncated: boolean; // Some lists were capped
+  analyzedAt: string;
+}
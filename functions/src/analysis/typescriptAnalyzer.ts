@@ -0,0 +1,811 @@
+/**
+ * TypeScript / JavaScript Analyzer
+ * Exported functions and classes, Express/Fastify routes, commander/yargs/cac
+ * commands and environment variables, read from masked source text (see
+ * codeChunks) rather than a full parser. Constructs it cannot follow are left
+ * out instead of guessed. package.json contributes its bin entries and scripts.
+ */
+
+import { maskCode } from '../services/codeChunks';
+import {
+  AnalysisLanguage,
+  CliCommand,
+  ExportedClass,
+  ExportedFunction,
+  FileFacts,
+  HttpRoute,
+  LanguageAnalyzer
+} from './types';
+
+const MAX_SIGNATURE_CHARS = 300;
+const MAX_TYPE_SCAN = 1000;
+
+const IDENTIFIER = '[A-Za-z_$][\\w$]*';
+const TEST_FILE = /(?:^|\/)(?:__tests__|__mocks__|tests?|e2e|fixtures?)\/|\.(?:test|spec|stories)\.[cm]?[jt]sx?$/;
+
+const emptyFacts = (): FileFacts => ({ functions: [], classes: [], routes: [], cliCommands: [], envVars: [] });
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// ============================================================================
+// Source scanning
+// ============================================================================
+
+interface Source {
+  text: string; // The file with normalized line endings
+  code: string; // The same text with comments and string contents blanked
+  lineStarts: number[];
+  depth: Int32Array; // Brace depth before each offset
+}
+
+const prepare = (content: string): Source => {
+  const text = content.replace(/\r\n?/g, '\n');
+  const code = maskCode(text, false).lines.join('\n');
+  const lineStarts = [0];
+  const depth = new Int32Array(text.length + 1);
+  let current = 0;
+  for (let i = 0; i < text.length; i++) {
+    depth[i] = current;
+    if (code[i] === '{') current++;
+    else if (code[i] === '}') current = Math.max(0, current - 1);
+    else if (code[i] === '\n') lineStarts.push(i + 1);
+  }
+  depth[text.length] = current;
+  return { text, code, lineStarts, depth };
+};
+
+const lineAt = (source: Source, offset: number): number => {
+  let low = 0;
+  let high = source.lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (source.lineStarts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+};
+
+// A match found in the raw text counts only when it starts in code
+const inCode = (source: Source, offset: number): boolean => source.code[offset] === source.text[offset];
+
+const skipSpace = (code: string, offset: number): number => {
+  while (offset < code.length && /\s/.test(code[offset])) offset++;
+  return offset;
+};
+
+// Offset of the bracket closing the one at `open`, or -1 when it never closes
+const closingBracket = (code: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+// Offset of the `>` closing a type parameter list, or -1
+const closingAngle = (code: string, open: number): number => {
+  let depth = 0;
+  const limit = Math.min(code.length, open + MAX_TYPE_SCAN);
+  for (let i = open; i < limit; i++) {
+    const ch = code[i];
+    if (ch === '=' && code[i + 1] === '>') {
+      i++;
+    } else if (ch === '<') {
+      depth++;
+    } else if (ch === '>' && --depth === 0) {
+      return i;
+    } else if (ch === ';') {
+      return -1;
+    }
+  }
+  return -1;
+};
+
+// Tokens after which a `{` opens an object type rather than a function body
+const TYPE_CONTINUES = [':', '|', '&', '?', '=>'];
+
+/**
+ * End (exclusive) of the type annotation after the `:` at `colon`. It stops at
+ * a function body, `;`, `=`, or a list separator; with `arrowEnds`, also at
+ * the `=>` of an arrow function.
+ */
+const typeEnd = (code: string, colon: number, arrowEnds: boolean): number => {
+  let depth = 0;
+  let previous = ':';
+  const limit = Math.min(code.length, colon + MAX_TYPE_SCAN);
+  for (let i = colon + 1; i < limit; i++) {
+    const ch = code[i];
+    if (/\s/.test(ch)) continue;
+    if (ch === '=' && code[i + 1] === '>') {
+      if (depth === 0 && arrowEnds) return i;
+      previous = '=>';
+      i++;
+      continue;
+    }
+    if (depth === 0) {
+      if (ch === '{' && !TYPE_CONTINUES.includes(previous)) return i;
+      if (ch === ';' || ch === '=' || ch === ',' || ch === ')' || ch === ']' || ch === '}') return i;
+    }
+    if (ch === '(' || ch === '[' || ch === '{' || ch === '<') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}' || ch === '>') depth--;
+    previous = ch;
+  }
+  return limit;
+};
+
+/**
+ * Source text between two offsets on one line: comments dropped, strings kept,
+ * whitespace collapsed
+ */
+const cleanText = (source: Source, from: number, to: number): string => {
+  let out = '';
+  let quote: string | null = null;
+  for (let i = from; i < to; i++) {
+    const ch = source.code[i];
+    if (quote) {
+      out += source.text[i];
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === '\'' || ch === '`') {
+      out += ch;
+      quote = ch;
+    } else {
+      out += ch === source.text[i] ? ch : ' ';
+    }
+  }
+  const cleaned = out
+    .replace(/\s+/g, ' ')
+    .replace(/([(<[]) /g, '$1')
+    .replace(/ ([)>\],])/g, '$1')
+    .replace(/,([)>\]])/g, '$1')
+    .replace(/, \}/g, ' }')
+    .trim();
+  return cleaned.length > MAX_SIGNATURE_CHARS ? `${cleaned.substring(0, MAX_SIGNATURE_CHARS)}…` : cleaned;
+};
+
+// [from, to) ranges of the comma-separated arguments between two brackets
+const splitArguments = (code: string, from: number, to: number): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let depth = 0;
+  let start = from;
+  for (let i = from; i < to; i++) {
+    const ch = code[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === ',' && depth === 0) {
+      ranges.push([start, i]);
+      start = i + 1;
+    }
+  }
+  if (code.substring(start, to).trim()) {
+    ranges.push([start, to]);
+  }
+  return ranges;
+};
+
+/**
+ * End of the parameter list and return type of the function value starting at
+ * `offset` (a function expression or an arrow function), or -1 when the value
+ * is something else
+ */
+const functionValueEnd = (code: string, offset: number): number => {
+  let i = offset;
+  if (/^async\b/.test(code.substring(i, i + 6))) {
+    i = skipSpace(code, i + 5);
+  }
+
+  if (/^function\b/.test(code.substring(i, i + 9))) {
+    const open = code.indexOf('(', i);
+    const close = open === -1 ? -1 : closingBracket(code, open);
+    if (close === -1) return -1;
+    const after = skipSpace(code, close + 1);
+    return code[after] === ':' ? typeEnd(code, after, false) : close + 1;
+  }
+
+  if (code[i] === '<') {
+    const close = closingAngle(code, i);
+    if (close === -1) return -1;
+    i = skipSpace(code, close + 1);
+  }
+  if (code[i] === '(') {
+    const close = closingBracket(code, i);
+    if (close === -1) return -1;
+    const after = skipSpace(code, close + 1);
+    const end = code[after] === ':' ? typeEnd(code, after, true) : close + 1;
+    return code.startsWith('=>', skipSpace(code, end)) ? end : -1;
+  }
+
+  const parameter = new RegExp(`^${IDENTIFIER}`).exec(code.substring(i, i + 100));
+  if (parameter && code.startsWith('=>', skipSpace(code, i + parameter[0].length))) {
+    return i + parameter[0].length;
+  }
+  return -1;
+};
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+const FUNCTION_DECLARATION = new RegExp(
+  `^[ \\t]*(export[ \\t]+(?:default[ \\t]+)?)?(?:declare[ \\t]+)?((?:async[ \\t]+)?function\\b[ \\t]*\\*?[ \\t]*(${IDENTIFIER})?)`, 'gm');
+const VARIABLE_DECLARATION = new RegExp(`^[ \\t]*(export[ \\t]+)?((?:const|let|var)[ \\t]+(${IDENTIFIER}))[ \\t]*`, 'gm');
+const CLASS_DECLARATION = new RegExp(
+  `^[ \\t]*(export[ \\t]+(?:default[ \\t]+)?)?(?:declare[ \\t]+)?((?:abstract[ \\t]+)?class[ \\t]+(${IDENTIFIER}))`, 'gm');
+const EXPORT_LIST = /^[ \t]*export[ \t]*\{([^}]*)\}([ \t]*from\b)?/gm;
+const EXPORT_DEFAULT_NAME = new RegExp(`^[ \\t]*export[ \\t]+default[ \\t]+(${IDENTIFIER})[ \\t]*;?[ \\t]*$`, 'gm');
+const MODULE_EXPORTS_NAME = new RegExp(`^[ \\t]*module\\.exports[ \\t]*=[ \\t]*(${IDENTIFIER})[ \\t]*;?[ \\t]*$`, 'gm');
+const MODULE_EXPORTS_OBJECT = /^[ \t]*module\.exports[ \t]*=[ \t]*\{/gm;
+const EXPORTS_PROPERTY = new RegExp(`^[ \\t]*((?:module\\.)?exports\\.(${IDENTIFIER}))[ \\t]*=(?!=)[ \\t]*`, 'gm');
+const CLASS_MEMBER = new RegExp(
+  `^[ \\t]*((?:(?:public|private|protected|static|async|readonly|override|abstract|get|set|declare|accessor)[ \\t]+)*)(\\*[ \\t]*)?(#?${IDENTIFIER})[ \\t]*\\??[ \\t]*(?=[(<])`, 'gm');
+
+const NOT_MEMBERS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'super', 'await', 'new', 'typeof']);
+
+interface Declared {
+  name: string;
+  exported: boolean;
+  offset: number;
+}
+
+interface DeclaredFunction extends Declared {
+  signature: string;
+}
+
+interface DeclaredClass extends Declared {
+  extends: string | null;
+  implements: string[];
+  methods: string[];
+}
+
+// Names of top-level comma-separated entries, e.g. the types in an implements clause
+const splitTypeList = (text: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '<' || ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === '>' || ch === ')' || ch === '}' || ch === ']') depth--;
+    if (ch === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+const findFunctions = (source: Source): DeclaredFunction[] => {
+  const { code } = source;
+  const declared: DeclaredFunction[] = [];
+
+  for (const match of code.matchAll(FUNCTION_DECLARATION)) {
+    if (source.depth[match.index!] !== 0) continue;
+    const start = match.index! + match[0].length - match[2].length;
+    let i = skipSpace(code, match.index! + match[0].length);
+    if (code[i] === '<') {
+      const close = closingAngle(code, i);
+      if (close === -1) continue;
+      i = skipSpace(code, close + 1);
+    }
+    if (code[i] !== '(') continue;
+    const close = closingBracket(code, i);
+    if (close === -1) continue;
+    const after = skipSpace(code, close + 1);
+    const end = code[after] === ':' ? typeEnd(code, after, false) : close + 1;
+    declared.push({
+      name: match[3] || 'default',
+      exported: Boolean(match[1]),
+      signature: cleanText(source, start, end),
+      offset: start
+    });
+  }
+
+  for (const match of code.matchAll(VARIABLE_DECLARATION)) {
+    if (source.depth[match.index!] !== 0) continue;
+    const start = match.index! + match[0].indexOf(match[2]);
+    let i = match.index! + match[0].length;
+    if (code[i] === ':') {
+      i = typeEnd(code, i, false);
+    }
+    i = skipSpace(code, i);
+    if (code[i] !== '=' || code[i + 1] === '=' || code[i + 1] === '>') continue;
+    const end = functionValueEnd(code, skipSpace(code, i + 1));
+    if (end === -1) continue;
+    declared.push({
+      name: match[3],
+      exported: Boolean(match[1]),
+      signature: cleanText(source, start, end),
+      offset: start
+    });
+  }
+
+  // CommonJS: exports.name = function (...) / (...) => ...
+  for (const match of code.matchAll(EXPORTS_PROPERTY)) {
+    if (source.depth[match.index!] !== 0) continue;
+    const start = match.index! + match[0].indexOf(match[1]);
+    const end = functionValueEnd(code, match.index! + match[0].length);
+    if (end !== -1) {
+      declared.push({ name: match[2], exported: true, signature: cleanText(source, start, end), offset: start });
+    }
+  }
+
+  return declared;
+};
+
+const findClasses = (source: Source): DeclaredClass[] => {
+  const { code } = source;
+  const classes: DeclaredClass[] = [];
+
+  for (const match of code.matchAll(CLASS_DECLARATION)) {
+    if (source.depth[match.index!] !== 0) continue;
+    const headerEnd = match.index! + match[0].length;
+
+    // The body opens at the first `{` outside type arguments and calls
+    let brace = -1;
+    let depth = 0;
+    for (let i = headerEnd; i < Math.min(code.length, headerEnd + MAX_TYPE_SCAN); i++) {
+      const ch = code[i];
+      if (ch === '<' || ch === '(') depth++;
+      else if (ch === '>' || ch === ')') depth--;
+      else if (ch === '{' && depth <= 0) {
+        brace = i;
+        break;
+      }
+    }
+    const close = brace === -1 ? -1 : closingBracket(code, brace);
+    if (close === -1) continue;
+
+    const heritage = cleanText(source, headerEnd, brace);
+    const extendsMatch = heritage.match(/\bextends\s+(.+?)(?=\s+implements\b|$)/);
+    const implementsMatch = heritage.match(/\bimplements\s+(.+)$/);
+    const bodyDepth = source.depth[brace] + 1;
+    const methods: string[] = [];
+
+    const member = new RegExp(CLASS_MEMBER.source, 'gm');
+    member.lastIndex = brace + 1;
+    let found: RegExpExecArray | null;
+    while ((found = member.exec(code)) && found.index < close) {
+      const modifiers = found[1];
+      const name = found[3];
+      if (source.depth[found.index] !== bodyDepth || name.startsWith('#') || NOT_MEMBERS.has(name) ||
+        /\b(?:private|protected)\b/.test(modifiers)) {
+        continue;
+      }
+      let i = found.index + found[0].length;
+      if (code[i] === '<') {
+        const angle = closingAngle(code, i);
+        if (angle === -1) continue;
+        i = skipSpace(code, angle + 1);
+      }
+      const paren = code[i] === '(' ? closingBracket(code, i) : -1;
+      if (paren === -1) continue;
+      const after = skipSpace(code, paren + 1);
+      const end = code[after] === ':' ? typeEnd(code, after, false) : paren + 1;
+      methods.push(cleanText(source, found.index, end).replace(/^public\s+/, ''));
+      member.lastIndex = Math.max(member.lastIndex, end);
+    }
+
+    classes.push({
+      name: match[3],
+      exported: Boolean(match[1]),
+      offset: match.index!,
+      extends: extendsMatch ? extendsMatch[1].trim() : null,
+      implements: implementsMatch ? splitTypeList(implementsMatch[1]) : [],
+      methods: [
+        ...methods.filter((method) => method.startsWith('constructor')),
+        ...methods.filter((method) => !method.startsWith('constructor'))
+      ]
+    });
+  }
+  return classes;
+};
+
+// Local name -> the names it is exported under, from export lists and CommonJS assignments
+const findExportAliases = (source: Source): Map<string, string[]> => {
+  const { code } = source;
+  const aliases = new Map<string, string[]>();
+  const add = (local: string, exported: string) => {
+    aliases.set(local, [...(aliases.get(local) || []), exported]);
+  };
+
+  for (const match of code.matchAll(EXPORT_LIST)) {
+    if (match[2] || source.depth[match.index!] !== 0) continue; // Re-exports are found in their own file
+    for (const entry of match[1].split(',')) {
+      const parts = entry.trim().replace(/^type\s+/, '').split(/\s+as\s+/);
+      if (parts[0]) add(parts[0], parts[1] || parts[0]);
+    }
+  }
+  for (const pattern of [EXPORT_DEFAULT_NAME, MODULE_EXPORTS_NAME]) {
+    for (const match of code.matchAll(pattern)) {
+      if (source.depth[match.index!] === 0) add(match[1], match[1]);
+    }
+  }
+  for (const match of code.matchAll(MODULE_EXPORTS_OBJECT)) {
+    const open = match.index! + match[0].length - 1;
+    const close = closingBracket(code, open);
+    if (close === -1 || source.depth[match.index!] !== 0) continue;
+    for (const [from, to] of splitArguments(code, open + 1, close)) {
+      const entry = code.substring(from, to).trim();
+      const shorthand = new RegExp(`^(${IDENTIFIER})$`).exec(entry);
+      const renamed = new RegExp(`^(${IDENTIFIER})\\s*:\\s*(${IDENTIFIER})$`).exec(entry);
+      if (shorthand) add(shorthand[1], shorthand[1]);
+      else if (renamed) add(renamed[2], renamed[1]);
+    }
+  }
+  return aliases;
+};
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const ROUTE_METHODS = 'get|post|put|patch|delete|del|all|options|head';
+const ROUTE_CALL = new RegExp(`\\b(${IDENTIFIER})[ \\t]*\\.[ \\t]*(${ROUTE_METHODS}|use)[ \\t]*\\(\\s*(['"\`])([^'"\`\\n]*)\\3`, 'g');
+const ROUTE_CHAIN = new RegExp(`\\b(${IDENTIFIER})[ \\t]*\\.[ \\t]*route[ \\t]*\\(\\s*(['"\`])(\\/[^'"\`\\n]*)\\2\\s*\\)`, 'g');
+const CHAINED_METHOD = new RegExp(`^\\s*\\.\\s*(${ROUTE_METHODS})\\s*\\(`);
+const ROUTE_OBJECT = new RegExp(`\\b(${IDENTIFIER})[ \\t]*\\.[ \\t]*route[ \\t]*\\(\\s*\\{`, 'g');
+const SERVER_BINDING = new RegExp(
+  `\\b(?:const|let|var)[ \\t]+(${IDENTIFIER})[ \\t]*(?::[^=\\n]+)?=[ \\t]*(?:await[ \\t]+)?(?:new[ \\t]+)?` +
+  `(express(?:\\.Router)?|Router|fastify|Fastify|require\\(\\s*['"]express['"]\\s*\\))[ \\t]*\\(`, 'g');
+// Receivers taken to be servers or routers even when their creation is not in the file
+const CONVENTIONAL_SERVER = /^(?:app|server|fastify|instance|router|routes)$|(?:Router|Routes|App)$/;
+
+const importsModule = (source: Source, name: string): boolean => {
+  return new RegExp(`(?:from\\s*|require\\s*\\(\\s*|import\\s*\\(\\s*)['"]${escapeRegExp(name)}(?:\\/[^'"]*)?['"]`).test(source.text);
+};
+
+const routeMethod = (method: string): string => {
+  const upper = method.toUpperCase();
+  return upper === 'DEL' ? 'DELETE' : upper;
+};
+
+// The handler is the last argument when it is named, also through a wrapper like asyncHandler(fn)
+const handlerName = (text: string): string | null => {
+  const named = /^[A-Za-z_$][\w$.]*$/.exec(text);
+  if (named) return named[0];
+  const wrapped = /^[A-Za-z_$][\w$.]*\(\s*([A-Za-z_$][\w$.]*)\s*\)$/.exec(text);
+  return wrapped ? wrapped[1] : null;
+};
+
+const findRoutes = (source: Source, path: string): HttpRoute[] => {
+  const { code, text } = source;
+  const routes: HttpRoute[] = [];
+
+  const defaultFramework = importsModule(source, 'fastify')
+    ? 'fastify'
+    : importsModule(source, 'koa-router') || importsModule(source, '@koa/router') ? 'koa' : 'express';
+  const servers = new Map<string, string>();
+  for (const match of text.matchAll(SERVER_BINDING)) {
+    if (inCode(source, match.index!)) {
+      servers.set(match[1], /fastify/i.test(match[2]) ? 'fastify' : defaultFramework === 'koa' ? 'koa' : 'express');
+    }
+  }
+  const frameworkOf = (receiver: string): string | null => {
+    return servers.get(receiver) || (CONVENTIONAL_SERVER.test(receiver) ? defaultFramework : null);
+  };
+
+  // `withPath` calls take the path as their first argument; chained ones only take handlers
+  const addRoute = (method: string, route: string, receiver: string, offset: number, open: number, withPath: boolean) => {
+    const framework = frameworkOf(receiver);
+    const close = closingBracket(code, open);
+    if (!framework || close === -1) return;
+    const args = splitArguments(code, open + 1, close);
+    const handlers = withPath ? args.length - 1 : args.length;
+    if (handlers < 1 && method !== 'USE') return; // A lone path is a client call, not a route
+    const last = args[args.length - 1];
+    routes.push({
+      method,
+      route,
+      handler: handlers > 0 ? handlerName(cleanText(source, last[0], last[1])) : null,
+      framework,
+      path,
+      line: lineAt(source, offset)
+    });
+  };
+
+  for (const match of text.matchAll(ROUTE_CALL)) {
+    const route = match[4];
+    if (!inCode(source, match.index!) || !(route.startsWith('/') || route === '*')) continue;
+    const open = text.indexOf('(', match.index! + match[1].length);
+    addRoute(routeMethod(match[2]), route, match[1], match.index!, open, true);
+  }
+
+  // app.route('/books').get(list).post(create)
+  for (const match of text.matchAll(ROUTE_CHAIN)) {
+    if (!inCode(source, match.index!)) continue;
+    let i = match.index! + match[0].length;
+    let chained: RegExpExecArray | null;
+    while ((chained = CHAINED_METHOD.exec(code.substring(i, i + 200)))) {
+      const open = i + chained[0].length - 1;
+      addRoute(routeMethod(chained[1]), match[3], match[1], match.index!, open, false);
+      const close = closingBracket(code, open);
+      if (close === -1) break;
+      i = close + 1;
+    }
+  }
+
+  // fastify.route({ method: ['GET', 'HEAD'], url: '/items', handler })
+  for (const match of code.matchAll(ROUTE_OBJECT)) {
+    const open = code.indexOf('(', match.index! + match[1].length);
+    const close = closingBracket(code, open);
+    if (close === -1 || !frameworkOf(match[1])) continue;
+    const body = text.substring(open, close);
+    const url = body.match(/\b(?:url|path)\s*:\s*(['"`])(\/[^'"`\n]*)\1/);
+    const methods = body.match(/\bmethod\s*:\s*(\[[^\]]*\]|(['"`])\w+\2)/);
+    if (!url) continue;
+    const handler = body.match(/\bhandler\s*:\s*([A-Za-z_$][\w$.]*)\s*[,}\n]/);
+    const names = methods ? Array.from(methods[1].matchAll(/['"`](\w+)['"`]/g), (method) => method[1]) : ['ALL'];
+    for (const method of names) {
+      routes.push({
+        method: routeMethod(method),
+        route: url[2],
+        handler: handler ? handler[1] : null,
+        framework: 'fastify',
+        path,
+        line: lineAt(source, match.index!)
+      });
+    }
+  }
+
+  return routes.sort((a, b) => a.line - b.line);
+};
+
+// ============================================================================
+// CLI commands
+// ============================================================================
+
+const CLI_LIBRARIES: Array<[string, string]> = [
+  ['commander', 'commander'],
+  ['@commander-js/extra-typings', 'commander'],
+  ['yargs', 'yargs'],
+  ['cac', 'cac']
+];
+const COMMAND_CALL = /\.command\s*\(\s*(['"`])([^'"`\n]+)\1/g;
+const OPTION_CALL = /\.(?:option|requiredOption)\s*\(\s*(['"`])([^'"`\n]+)\1/g;
+const DESCRIPTION_CALL = /\.description\s*\(\s*(['"`])([^'"`\n]*)\1/;
+const PROGRAM_NAME_CALL = /\.(?:name|scriptName)\s*\(\s*(['"`])([^'"`\n]+)\1/;
+
+/**
+ * End of the chained expression containing `from`: a top-level `;`, a bracket
+ * closing one opened before it, or a line break not continued by a `.` call
+ */
+const chainEnd = (code: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      if (depth === 0) return i;
+      depth--;
+    } else if (depth === 0 && (ch === ';' || (ch === '\n' && !/^\s*\./.test(code.substring(i + 1, i + 200))))) {
+      return i;
+    }
+  }
+  return code.length;
+};
+
+const findCliCommands = (source: Source, path: string): CliCommand[] => {
+  const { code, text } = source;
+  const library = CLI_LIBRARIES.find(([name]) => importsModule(source, name));
+  if (!library) return [];
+  const framework = library[1];
+
+  const inCodeMatches = (pattern: RegExp, from: number, to: number) => {
+    return Array.from(text.substring(from, to).matchAll(pattern))
+      .filter((match) => inCode(source, from + match.index!))
+      .map((match) => ({ match, offset: from + match.index! }));
+  };
+  const optionName = (flag: string) => (flag.startsWith('-') || framework === 'commander' ? flag : `--${flag}`);
+
+  const commands: CliCommand[] = [];
+  const covered: Array<[number, number]> = [];
+  const calls = inCodeMatches(COMMAND_CALL, 0, text.length);
+
+  calls.forEach(({ match, offset }, index) => {
+    const next = index + 1 < calls.length ? calls[index + 1].offset : text.length;
+    const end = Math.min(next, chainEnd(code, offset));
+    covered.push([offset, end]);
+
+    // yargs and cac take the description as the second argument; commander chains .description()
+    const inline = /^\s*,\s*(['"`])([^'"`\n]*)\1/.exec(text.substring(offset + match[0].length, end));
+    const chained = DESCRIPTION_CALL.exec(text.substring(offset, end));
+    commands.push({
+      name: match[2].trim(),
+      description: inline ? inline[2] : chained ? chained[2] : null,
+      options: inCodeMatches(OPTION_CALL, offset, end).map(({ match: option }) => optionName(option[2])),
+      source: framework,
+      path,
+      line: lineAt(source, offset)
+    });
+  });
+
+  // Options outside every command belong to the program itself
+  const isCovered = (offset: number) => covered.some(([from, to]) => offset >= from && offset < to);
+  const rootOptions = inCodeMatches(OPTION_CALL, 0, text.length).filter(({ offset }) => !isCovered(offset));
+  if (rootOptions.length > 0) {
+    const name = PROGRAM_NAME_CALL.exec(text);
+    const description = inCodeMatches(new RegExp(DESCRIPTION_CALL.source, 'g'), 0, text.length)
+      .find(({ offset }) => !isCovered(offset));
+    commands.unshift({
+      name: name ? name[2] : (path.split('/').pop() || path).replace(/\.[^.]+$/, ''),
+      description: description ? description.match[2] : null,
+      options: rootOptions.map(({ match }) => optionName(match[2])),
+      source: framework,
+      path,
+      line: lineAt(source, rootOptions[0].offset)
+    });
+  }
+  return commands;
+};
+
+const analyzePackageJson = (path: string, content: string): FileFacts => {
+  const facts = emptyFacts();
+  let manifest: { name?: unknown; bin?: unknown; scripts?: unknown } | null;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return facts;
+  }
+
+  const lineOf = (key: string, after: string): number => {
+    const start = Math.max(0, content.indexOf(`"${after}"`));
+    const index = content.substring(start).search(new RegExp(`"${escapeRegExp(key)}"\\s*:`));
+    return index === -1 ? 1 : content.substring(0, start + index).split('\n').length;
+  };
+
+  const packageName = typeof manifest?.name === 'string' ? manifest.name.replace(/^@[^/]+\//, '') : null;
+  const bin = typeof manifest?.bin === 'string' && packageName ? { [packageName]: manifest.bin } : manifest?.bin;
+  if (bin && typeof bin === 'object') {
+    for (const [name, target] of Object.entries(bin)) {
+      if (typeof target !== 'string') continue;
+      facts.cliCommands.push({
+        name,
+        description: `Runs ${target.replace(/^\.\//, '')}`,
+        options: [],
+        source: 'bin',
+        path,
+        line: lineOf(typeof manifest?.bin === 'string' ? 'bin' : name, 'bin')
+      });
+    }
+  }
+
+  if (manifest?.scripts && typeof manifest.scripts === 'object') {
+    for (const [name, command] of Object.entries(manifest.scripts)) {
+      if (typeof command !== 'string') continue;
+      facts.cliCommands.push({
+        name: `npm run ${name}`,
+        description: command,
+        options: [],
+        source: 'npm-script',
+        path,
+        line: lineOf(name, 'scripts')
+      });
+    }
+  }
+  return facts;
+};
+
+// ============================================================================
+// Environment variables
+// ============================================================================
+
+const ENV_PROPERTY = /\bprocess\s*\.\s*env\s*\.\s*([A-Za-z_]\w*)/g;
+const ENV_INDEX = /\bprocess\s*\.\s*env\s*\[\s*(['"`])([A-Za-z_]\w*)\1\s*\]/g;
+const IMPORT_META_ENV = /\bimport\s*\.\s*meta\s*\.\s*env\s*\.\s*([A-Za-z_]\w*)/g;
+const ENV_DESTRUCTURING = /\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*process\s*\.\s*env\b/g;
+// A literal fallback counts only when the expression ends with it (not `|| 5 * 60`)
+const ENV_FALLBACK = /^\s*(?:\|\||\?\?)\s*('[^'\n]*'|"[^"\n]*"|`[^`$\n]*`|-?\d+(?:\.\d+)?|true|false)(?=[ \t]*(?:[),;\]}\n]|$))/;
+// Set by Vite itself, not by whoever deploys the app
+const VITE_BUILTINS = new Set(['MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL']);
+
+const findEnvVars = (source: Source): FileFacts['envVars'] => {
+  const { code, text } = source;
+  const found: FileFacts['envVars'] = [];
+  const fallbackAt = (offset: number): string | null => {
+    const fallback = ENV_FALLBACK.exec(text.substring(offset, offset + 200));
+    return fallback ? fallback[1] : null;
+  };
+
+  for (const pattern of [ENV_PROPERTY, IMPORT_META_ENV]) {
+    for (const match of code.matchAll(pattern)) {
+      if (pattern === IMPORT_META_ENV && VITE_BUILTINS.has(match[1])) continue;
+      found.push({
+        name: match[1],
+        defaultValue: fallbackAt(match.index! + match[0].length),
+        line: lineAt(source, match.index!)
+      });
+    }
+  }
+
+  for (const match of text.matchAll(ENV_INDEX)) {
+    if (!inCode(source, match.index!)) continue;
+    found.push({
+      name: match[2],
+      defaultValue: fallbackAt(match.index! + match[0].length),
+      line: lineAt(source, match.index!)
+    });
+  }
+
+  // const { PORT = '3000', API_KEY: apiKey } = process.env
+  for (const match of code.matchAll(ENV_DESTRUCTURING)) {
+    const open = code.indexOf('{', match.index!);
+    for (const [from, to] of splitArguments(code, open + 1, open + 1 + match[1].length)) {
+      const entry = /^\s*([A-Za-z_]\w*)/.exec(code.substring(from, to));
+      if (!entry) continue;
+      const fallback = /=\s*(.+)$/.exec(cleanText(source, from, to));
+      found.push({
+        name: entry[1],
+        defaultValue: fallback ? fallback[1] : null,
+        line: lineAt(source, from + entry[0].length - entry[1].length)
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.line - b.line);
+};
+
+// ============================================================================
+// Analyzer
+// ============================================================================
+
+const languageOf = (path: string): AnalysisLanguage | null => {
+  const name = path.split('/').pop() || '';
+  if (TEST_FILE.test(path) || name.endsWith('.d.ts')) return null;
+  if (name === 'package.json') return 'javascript';
+  if (/\.[cm]?tsx?$/.test(name)) return 'typescript';
+  if (/\.[cm]?jsx?$/.test(name)) return 'javascript';
+  return null;
+};
+
+const analyze = (path: string, content: string): FileFacts => {
+  if ((path.split('/').pop() || '') === 'package.json') {
+    return analyzePackageJson(path, content);
+  }
+
+  const language = languageOf(path) || 'javascript';
+  const source = prepare(content);
+  const aliases = findExportAliases(source);
+  const exportNames = (declared: Declared): string[] => {
+    return [...(declared.exported ? [declared.name] : []), ...(aliases.get(declared.name) || [])]
+      .filter((name, index, names) => names.indexOf(name) === index);
+  };
+
+  const functions: ExportedFunction[] = findFunctions(source).flatMap((declared) => {
+    return exportNames(declared).map((name) => ({
+      name,
+      signature: declared.signature,
+      path,
+      line: lineAt(source, declared.offset),
+      language
+    }));
+  });
+
+  const classes: ExportedClass[] = findClasses(source).flatMap((declared) => {
+    return exportNames(declared).map((name) => ({
+      name,
+      extends: declared.extends,
+      implements: declared.implements,
+      methods: declared.methods,
+      path,
+      line: lineAt(source, declared.offset),
+      language
+    }));
+  });
+
+  return {
+    functions: functions.sort((a, b) => a.line - b.line),
+    classes,
+    routes: findRoutes(source, path),
+    cliCommands: findCliCommands(source, path),
+    envVars: findEnvVars(source)
+  };
+};
+
+export const typescriptAnalyzer: LanguageAnalyzer = { languageOf, analyze };
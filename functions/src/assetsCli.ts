@@ -0,0 +1,38 @@
+/**
+ * Asset store maintenance
+ * One-shot migration of inline data URI images into Cloud Storage, and the
+ * orphaned asset GC that otherwise runs on a schedule:
+ *
+ *   node lib/assetsCli.js migrate [--dry-run]
+ *   node lib/assetsCli.js gc [--dry-run]
+ *
+ * Uses Application Default Credentials and the bucket in ASSETS_BUCKET (or the
+ * project's default bucket). Set FIRESTORE_EMULATOR_HOST and
+ * FIREBASE_STORAGE_EMULATOR_HOST to run against the emulators.
+ */
+
+import * as admin from 'firebase-admin';
+import { migrateInlineImages, collectOrphanedAssets } from './services/assetService';
+
+const main = async (): Promise<void> => {
+  const [command, ...flags] = process.argv.slice(2);
+  const dryRun = flags.includes('--dry-run');
+  if (command !== 'migrate' && command !== 'gc') {
+    console.error('Usage: node lib/assetsCli.js <migrate|gc> [--dry-run]');
+    process.exit(1);
+  }
+
+  admin.initializeApp();
+  const db = admin.firestore();
+  const bucket = admin.storage().bucket(process.env.ASSETS_BUCKET || undefined);
+
+  const report = command === 'migrate'
+    ? await migrateInlineImages(db, bucket, { dryRun })
+    : await collectOrphanedAssets(db, bucket, { dryRun });
+  console.log(JSON.stringify(report, null, 2));
+};
+
+main().catch((error) => {
+  console.error('❌ Asset maintenance failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Code index maintenance
+ * Builds and queries repository code indexes outside the API, including for
+ * git remotes and local checkouts the API does not accept:
+ *
+ *   node lib/codeIndexCli.js index <owner/repo | git URL | local path> [--ref <ref>] [--force]
+ *   node lib/codeIndexCli.js search <owner/repo | git URL | local path> <query> [--limit <n>]
+ *
+ * GitHub repositories are read with GITHUB_TOKEN when it is set. Embeddings use
+ * LLM_EMBEDDING_PROVIDER / LLM_EMBEDDING_MODEL (mock works offline). Set
+ * FIRESTORE_EMULATOR_HOST to run against the emulator.
+ */
+
+import * as admin from 'firebase-admin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeIndexSource, codeIndexId, indexRepository, parseGitHubRepository, searchCodeIndex } from './services/codeIndex';
+
+const USAGE = 'Usage: node lib/codeIndexCli.js <index|search> <owner/repo | git URL | local path> [query] [--ref <ref>] [--force] [--limit <n>]';
+
+const readFlag = (args: string[], name: string): string | null => {
+  const index = args.indexOf(name);
+  return index !== -1 && index + 1 < args.length ? args[index + 1] : null;
+};
+
+// Existing paths and URLs are git sources; anything else must be a GitHub "owner/repo"
+const toSource = (target: string, ref: string | null): CodeIndexSource => {
+  if (fs.existsSync(target)) {
+    return { type: 'git', url: path.resolve(target), ref };
+  }
+  const github = /^[\w.-]+\/[\w.-]+$/.test(target) || /github\.com\//.test(target) ? parseGitHubRepository(target) : null;
+  if (github) {
+    return { type: 'github', ...github, ref, token: process.env.GITHUB_TOKEN || null };
+  }
+  return { type: 'git', url: target, ref };
+};
+
+const main = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const [command, target] = args;
+  if ((command !== 'index' && command !== 'search') || !target) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const source = toSource(target, readFlag(args, '--ref'));
+  admin.initializeApp();
+  const db = admin.firestore();
+
+  if (command === 'index') {
+    const index = await indexRepository(db, source, {
+      force: args.includes('--force'),
+      report: (message) => console.error(message)
+    });
+    console.log(JSON.stringify(index, null, 2));
+    return;
+  }
+
+  const query = args[2];
+  if (!query || query.startsWith('--')) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const results = await searchCodeIndex(db, codeIndexId(source), query, {
+    limit: Number(readFlag(args, '--limit')) || undefined
+  });
+  console.log(JSON.stringify(results, null, 2));
+};
+
+main().catch((error) => {
+  console.error('❌ Code index command failed:', error);
+  process.exit(1);
+});
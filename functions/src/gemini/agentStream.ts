@@ -0,0 +1,263 @@
+/**
+ * AI Agent Stream
+ * Runs the tool-calling agent loop on the server and reports reasoning,
+ * tool calls, tool results and the final answer as they happen
+ */
+
+import * as logger from 'firebase-functions/logger';
+import * as mcpServer from '../MCP/mcpServer';
+import * as toolService from '../services/toolService';
+import { runInToolSession, ToolSession } from '../services/toolSession';
+import { streamLLM } from '../llm/llmClient';
+import { LLMMessage, LLMSelection, LLMToolCall, LLMToolDeclaration, LLMUsage } from '../llm/types';
+
+// Events written to the client, one SSE event per entry (event name = type)
+export type AgentStreamEvent =
+  | { type: 'start'; transactionId: string | null; provider: string; model: string }
+  | { type: 'reasoning'; text: string } // Thought summary delta
+  | { type: 'text'; text: string } // Visible model text delta
+  | { type: 'tool_call'; id: string; tool: string; args: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; tool: string; success: boolean; result: unknown; error?: string }
+  | { type: 'answer'; text: string }
+  | { type: 'done'; toolsUsed: number; changed: boolean; version?: number }
+  | { type: 'stopped'; message: string }
+  | { type: 'error'; message: string; conflict?: boolean };
+
+interface HistoryMessage {
+  role: string;
+  content: string;
+}
+
+interface ToolOutcome {
+  success: boolean;
+  result: unknown;
+  error?: string;
+}
+
+export interface AgentStreamOptions {
+  selection: LLMSelection;
+  prompt: string;
+  history?: HistoryMessage[];
+  selectedText?: string;
+  documentId?: string;
+  userId?: string;
+  signal: AbortSignal;
+  emit: (event: AgentStreamEvent) => void;
+  // Called once with the tokens used across every model turn, including stopped runs
+  onUsage?: (usage: LLMUsage & { requests: number }) => Promise<void> | void;
+}
+
+const MAX_ITERATIONS = 15;
+const MAX_HISTORY_MESSAGES = 6;
+
+const buildSystemInstruction = (documentId?: string): string => `You are a helpful, friendly AI assistant that edits documentation with the user.
+
+- The active document ID is ${documentId || 'NOT_SET'}.
+- Look before you edit: use get_document_outline or scan_document_content to understand the document first.
+- Prefer the block tools (get_document_block, insert_document_block, replace_document_block, remove_document_block) and address blocks by blockId. An edited block gets a new ID; use the one the edit returns.
+- Write content as clean HTML that matches the surrounding document (headings, paragraphs, lists).
+- If a tool fails, read its error and retry with corrected arguments or a different tool.
+- When the work is done, reply with a short, plain-language summary of what you changed. Do not call any more tools after that.`;
+
+// Tool declarations never change, so they are built once per instance
+let cachedToolDeclarations: LLMToolDeclaration[] | null = null;
+const getToolDeclarations = (): LLMToolDeclaration[] => {
+  if (!cachedToolDeclarations) {
+    cachedToolDeclarations = mcpServer.getMcpToolsForGemini(mcpServer.createMcpServer());
+  }
+  return cachedToolDeclarations;
+};
+
+const toMessages = (prompt: string, history: HistoryMessage[] = [], selectedText?: string): LLMMessage[] => {
+  const messages: LLMMessage[] = history
+    .filter((msg) => typeof msg?.content === 'string' && msg.content.trim().length)
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((msg) => ({
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: msg.content
+    }));
+
+  const text = selectedText
+    ? `Selected text from document: "${selectedText}"\n\nUser request: ${prompt}`
+    : prompt;
+  messages.push({ role: 'user', content: text });
+  return messages;
+};
+
+const isAbortError = (error: unknown, signal: AbortSignal): boolean => {
+  return signal.aborted || (error instanceof Error && error.name === 'AbortError');
+};
+
+/**
+ * Run the agent until the model answers without calling a tool.
+ * Edits go through a tool transaction that is committed once at the end,
+ * and rolled back if the run fails or the client disconnects.
+ */
+export const runAgentStream = async (options: AgentStreamOptions): Promise<void> => {
+  const {
+    selection,
+    prompt,
+    history = [],
+    selectedText,
+    documentId,
+    userId,
+    signal,
+    emit,
+    onUsage
+  } = options;
+
+  const declarations = getToolDeclarations();
+  const toolNames = new Set(declarations.map((tool) => tool.name));
+
+  let transactionId: string | null = null;
+  let toolSession: ToolSession | null = null;
+
+  if (documentId) {
+    const begun = await toolService.beginToolTransaction(documentId, userId || null);
+    if (!begun.success) {
+      emit({ type: 'error', message: 'Could not open the document for editing.' });
+      return;
+    }
+    transactionId = begun.transactionId;
+  } else {
+    toolSession = await toolService.openToolSession({ userId });
+  }
+
+  emit({ type: 'start', transactionId, provider: selection.provider, model: selection.model });
+
+  const runTool = async (tool: string, args: Record<string, unknown>): Promise<ToolOutcome> => {
+    if (!toolNames.has(tool)) {
+      return { success: false, result: null, error: `Unknown tool: ${tool}` };
+    }
+
+    if (transactionId) {
+      const applied = await toolService.applyToolTransaction(transactionId, [{ tool, args }]);
+      const result = applied.results?.[0]?.result ?? applied;
+      return { success: !!applied.success, result, error: applied.success ? undefined : (result?.error || 'Tool failed') };
+    }
+
+    const result: toolService.ToolResult = await runInToolSession(toolSession as ToolSession, () => mcpServer.executeMcpTool(tool, args));
+    return { success: !!result?.success, result, error: result?.success ? undefined : (result?.error || 'Tool failed') };
+  };
+
+  const messages = toMessages(prompt, history, selectedText);
+  let toolsUsed = 0;
+  let finished = false;
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, requests: 0 };
+
+  try {
+    for (let iteration = 1; iteration <= MAX_ITERATIONS && !signal.aborted; iteration++) {
+      logger.info(`🔄 Agent stream iteration ${iteration}/${MAX_ITERATIONS}`);
+
+      const stream = streamLLM(selection, {
+        messages,
+        systemInstruction: buildSystemInstruction(documentId),
+        tools: declarations,
+        temperature: 0.3,
+        includeThoughts: true,
+        signal
+      });
+
+      const functionCalls: LLMToolCall[] = [];
+      let turnText = '';
+      // Provider-native turn (e.g. Gemini thought signatures) so the next request replays it exactly
+      let rawTurn: unknown = undefined;
+
+      for await (const chunk of stream) {
+        if (chunk.type === 'tool_call') {
+          functionCalls.push(chunk.call);
+        } else if (chunk.type === 'reasoning') {
+          emit({ type: 'reasoning', text: chunk.text });
+        } else if (chunk.type === 'text') {
+          turnText += chunk.text;
+          emit({ type: 'text', text: chunk.text });
+        } else if (chunk.type === 'done') {
+          rawTurn = chunk.raw;
+          usage.promptTokens += chunk.usage.promptTokens || 0;
+          usage.completionTokens += chunk.usage.completionTokens || 0;
+          usage.totalTokens += chunk.usage.totalTokens || 0;
+          usage.requests++;
+        }
+      }
+
+      if (functionCalls.length === 0) {
+        emit({ type: 'answer', text: turnText });
+        finished = true;
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: turnText, toolCalls: functionCalls, raw: rawTurn });
+
+      for (const call of functionCalls) {
+        if (signal.aborted) {
+          break;
+        }
+
+        toolsUsed++;
+        const id = call.id || `call_${toolsUsed}`;
+        const args = call.args || {};
+        emit({ type: 'tool_call', id, tool: call.name, args });
+
+        let outcome: ToolOutcome;
+        try {
+          outcome = await runTool(call.name, args);
+        } catch (error) {
+          logger.error(`❌ Agent stream tool error for ${call.name}:`, error);
+          outcome = { success: false, result: null, error: (error as Error).message };
+        }
+
+        emit({ type: 'tool_result', id, tool: call.name, ...outcome });
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          result: outcome.success ? outcome.result : { success: false, error: outcome.error, result: outcome.result }
+        });
+      }
+    }
+
+    if (signal.aborted) {
+      emit({ type: 'stopped', message: 'Generation stopped by user.' });
+      return;
+    }
+
+    if (!finished) {
+      emit({ type: 'error', message: `Stopped after ${MAX_ITERATIONS} rounds of tool calls without finishing.` });
+      return;
+    }
+
+    if (!transactionId) {
+      emit({ type: 'done', toolsUsed, changed: false });
+      return;
+    }
+
+    const committed = await toolService.commitToolTransaction(transactionId, { editedBy: userId });
+    if (!committed.success) {
+      emit({
+        type: 'error',
+        conflict: !!committed.conflict,
+        message: committed.conflict
+          ? 'The document was changed while the assistant was editing it, so its changes were not saved. Please try again.'
+          : 'Failed to save the document changes. Please try again.'
+      });
+      return;
+    }
+
+    // Committed transactions are removed, so there is nothing left to roll back
+    transactionId = null;
+    emit({ type: 'done', toolsUsed, changed: !!committed.changed, version: committed.version });
+  } catch (error) {
+    if (isAbortError(error, signal)) {
+      emit({ type: 'stopped', message: 'Generation stopped by user.' });
+      return;
+    }
+    throw error;
+  } finally {
+    if (transactionId) {
+      await toolService.rollbackToolTransaction(transactionId);
+    }
+    if (onUsage && usage.requests > 0) {
+      await onUsage(usage);
+    }
+  }
+};
@@ -1,6 +1,6 @@
 /**
  * Gemini MCP Integration
- * Wraps Gemini API with MCP tool calling capabilities
+ * Wraps the project's LLM provider with MCP tool calling capabilities
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
@@ -8,6 +8,10 @@ import * as logger from 'firebase-functions/logger';
 import * as admin from 'firebase-admin';
 import * as mcpServer from '../MCP/mcpServer';
 import * as toolService from '../services/toolService';
+import { runInToolSession, createToolSession, ToolSession } from '../services/toolSession';
+import { generateLLM, resolveLLMSelection } from '../llm/llmClient';
+import { fromGeminiContents } from '../llm/geminiProvider';
+import { LLMMessage, LLMToolCall } from '../llm/types';
 // Types
 interface GenerationConfig {
   temperature?: number;
@@ -28,6 +32,8 @@ interface GenerateOptions {
   systemInstruction?: string;
   generationConfig?: GenerationConfig;
   documentId?: string;
+  userId?: string;
+  projectId?: string;
 }
 
 interface StreamOptions extends GenerateOptions {
@@ -35,6 +41,7 @@ interface StreamOptions extends GenerateOptions {
 }
 
 interface ToolResult {
+  id: string;
   name: string;
   args: Record<string, any>;
   result: any;
@@ -44,54 +51,24 @@ interface GeminiWithMcp {
   generateWithTools: (options: GenerateOptions) => Promise<string>;
   streamWithTools: (options: StreamOptions) => Promise<string>;
   getAvailableTools: () => any[];
-  setDocument: (documentId: string) => Promise<any>;
-}
-
-// GeminiBalancer interface (from index.ts)
-interface GeminiBalancer {
-  generate: (params: {
-    model: string;
-    contents: any[];
-    systemInstruction?: any;
-    generationConfig?: any;
-    tools?: any[];
-    safetySettings?: any;
-    toolConfig?: any;
-  }) => Promise<any>;
+  loadDocument: (documentId: string) => Promise<toolService.ToolResult>;
 }
 
 /**
- * Convert prompt + history to contents format
+ * Convert prompt + history to provider-neutral messages
  */
-const convertToContents = (prompt: string, history?: Message[]): any[] => {
-  const contents: any[] = [];
-
-  // Add history messages
-  if (history && history.length > 0) {
-    for (const msg of history) {
-      contents.push({
-        role: msg.role === 'model' ? 'model' : 'user',
-        parts: msg.parts
-      });
-    }
-  }
-
-  // Add current prompt
+const convertToMessages = (prompt: string, history?: Message[]): LLMMessage[] => {
+  const messages = fromGeminiContents(history || []);
   if (prompt) {
-    contents.push({
-      role: 'user',
-      parts: [{ text: prompt }]
-    });
+    messages.push({ role: 'user', content: prompt });
   }
-
-  return contents;
+  return messages;
 };
 
 /**
  * Create Gemini client with MCP tool calling
  */
 export const createGeminiWithMcp = (
-  balancer: GeminiBalancer,
   firestore: admin.firestore.Firestore
 ): GeminiWithMcp => {
   
@@ -104,6 +81,42 @@ export const createGeminiWithMcp = (
 
   logger.info(`🔧 Gemini MCP Integration initialized with ${mcpTools.length} tools`);
 
+  /**
+   * Execute the model's tool calls in the request's tool session
+   */
+  const executeToolCalls = async (toolSession: ToolSession, toolCalls: LLMToolCall[]): Promise<ToolResult[]> => {
+    const toolResults: ToolResult[] = [];
+
+    for (const call of toolCalls) {
+      try {
+        logger.info(`🔧 Calling tool: ${call.name}`, call.args);
+        const toolResult = await runInToolSession(toolSession, () => mcpServer.executeMcpTool(call.name, call.args));
+
+        toolResults.push({
+          id: call.id,
+          name: call.name,
+          args: call.args,
+          result: toolResult
+        });
+
+        logger.info(`✅ Tool result:`, toolResult);
+      } catch (error) {
+        logger.error(`❌ Tool execution error for ${call.name}:`, error);
+        toolResults.push({
+          id: call.id,
+          name: call.name,
+          args: call.args,
+          result: {
+            success: false,
+            error: (error as Error).message
+          }
+        });
+      }
+    }
+
+    return toolResults;
+  };
+
   /**
    * Generate response with automatic tool calling loop
    */
@@ -113,113 +126,52 @@ export const createGeminiWithMcp = (
       history = [],
       systemInstruction,
       generationConfig = {},
-      documentId
+      documentId,
+      userId,
+      projectId
     } = options;
 
-    // Set document context if provided
+    // Every tool call in this generation shares one session
     if (documentId) {
-      logger.info(`📄 Setting document context: ${documentId}`);
-      await toolService.setCurrentDocument(documentId);
+      logger.info(`📄 Opening tool session for document: ${documentId}`);
     }
+    const toolSession = await toolService.openToolSession({ documentId, userId });
+    const selection = await resolveLLMSelection(firestore, { projectId, documentId });
 
-    let conversationHistory = [...history];
-    let currentPrompt = prompt;
+    const messages = convertToMessages(prompt, history);
     let maxIterations = 10;
     let iteration = 0;
 
     while (iteration < maxIterations) {
       iteration++;
-      logger.info(`🔄 Tool calling iteration ${iteration}/${maxIterations}`);
+      logger.info(`🔄 Tool calling iteration ${iteration}/${maxIterations} (${selection.provider}/${selection.model})`);
 
       // Generate with tools
-      const result = await balancer.generate({
-        model: 'gemini-2.5-pro',
-        contents: convertToContents(currentPrompt, conversationHistory),
+      const result = await generateLLM(selection, {
+        messages,
         systemInstruction,
-        generationConfig,
-        tools: mcpTools
+        tools: mcpTools,
+        temperature: generationConfig.temperature,
+        topP: generationConfig.topP,
+        maxOutputTokens: generationConfig.maxOutputTokens,
+        responseMimeType: generationConfig.responseMimeType
       });
 
-      // Check if response contains function calls
-      const response = result.response || result;
-      if (!response) {
-        return result.text || '';
-      }
-
-      const candidates = response.candidates || [];
-      if (candidates.length === 0) {
-        return result.text;
-      }
-
-      const firstCandidate = candidates[0];
-      const content = firstCandidate.content;
-
-      if (!content || !content.parts) {
-        return result.text;
-      }
-
-      // Check for function calls
-      const functionCalls = content.parts.filter((part: any) => part.functionCall);
-
-      if (functionCalls.length === 0) {
+      if (result.toolCalls.length === 0) {
         // No function calls, return final text
         logger.info('✅ No function calls, returning final response');
         return result.text;
       }
 
       // Execute function calls
-      logger.info(`🔧 Executing ${functionCalls.length} function call(s)`);
-
-      const toolResults: ToolResult[] = [];
-
-      for (const part of functionCalls) {
-        const functionCall = part.functionCall;
-        const toolName = functionCall.name;
-        const toolArgs = functionCall.args || {};
-
-        try {
-          logger.info(`🔧 Calling tool: ${toolName}`, toolArgs);
-          const toolResult = await mcpServer.executeMcpTool(toolName, toolArgs);
-
-          toolResults.push({
-            name: toolName,
-            args: toolArgs,
-            result: toolResult
-          });
-
-          logger.info(`✅ Tool result:`, toolResult);
-        } catch (error) {
-          logger.error(`❌ Tool execution error for ${toolName}:`, error);
-          toolResults.push({
-            name: toolName,
-            args: toolArgs,
-            result: {
-              success: false,
-              error: (error as Error).message
-            }
-          });
-        }
-      }
+      logger.info(`🔧 Executing ${result.toolCalls.length} function call(s)`);
+      const toolResults = await executeToolCalls(toolSession, result.toolCalls);
 
-      // Add AI's function call to history
-      conversationHistory.push({
-        role: 'model',
-        parts: functionCalls.map((fc: any) => ({ functionCall: fc.functionCall }))
-      });
-
-      // Add function responses to history
-      conversationHistory.push({
-        role: 'user',
-        parts: toolResults.map(tr => ({
-          functionResponse: {
-            name: tr.name,
-            response: tr.result
-          }
-        }))
-      });
-
-      // Continue with empty prompt to let AI process tool results
-      currentPrompt = '';
+      // Add AI's function calls and their results to history
+      messages.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls, raw: result.raw });
+      for (const tr of toolResults) {
+        messages.push({ role: 'tool', toolCallId: tr.id, name: tr.name, result: tr.result });
+      }
     }
 
     throw new Error(`Maximum tool calling iterations (${maxIterations}) reached`);
@@ -235,62 +187,39 @@ export const createGeminiWithMcp = (
       systemInstruction,
       generationConfig = {},
       documentId,
+      userId,
+      projectId,
       onChunk
     } = options;
 
-    // Set document context if provided
+    // Every tool call in this generation shares one session
     if (documentId) {
-      logger.info(`📄 Setting document context: ${documentId}`);
-      await toolService.setCurrentDocument(documentId);
+      logger.info(`📄 Opening tool session for document: ${documentId}`);
     }
+    const toolSession = await toolService.openToolSession({ documentId, userId });
+    const selection = await resolveLLMSelection(firestore, { projectId, documentId });
 
-    let conversationHistory = [...history];
-    let currentPrompt = prompt;
+    const messages = convertToMessages(prompt, history);
     let maxIterations = 10;
     let iteration = 0;
     let fullResponse = '';
 
     while (iteration < maxIterations) {
       iteration++;
-      logger.info(`🔄 Streaming tool calling iteration ${iteration}/${maxIterations}`);
+      logger.info(`🔄 Streaming tool calling iteration ${iteration}/${maxIterations} (${selection.provider}/${selection.model})`);
 
       // For streaming, we'll use regular generate and manually send chunks
-      const result = await balancer.generate({
-        model: 'gemini-2.5-pro',
-        contents: convertToContents(currentPrompt, conversationHistory),
+      const result = await generateLLM(selection, {
+        messages,
         systemInstruction,
-        generationConfig,
-        tools: mcpTools
+        tools: mcpTools,
+        temperature: generationConfig.temperature,
+        topP: generationConfig.topP,
+        maxOutputTokens: generationConfig.maxOutputTokens,
+        responseMimeType: generationConfig.responseMimeType
       });
 
-      // Check if response contains function calls
-      const response = result.response || result;
-      if (!response) {
-        onChunk(result.text || '');
-        fullResponse += result.text || '';
-        return fullResponse;
-      }
-
-      const candidates = response.candidates || [];
-      if (candidates.length === 0) {
-        onChunk(result.text);
-        fullResponse += result.text;
-        return fullResponse;
-      }
-
-      const firstCandidate = candidates[0];
-      const content = firstCandidate.content;
-
-      if (!content || !content.parts) {
-        onChunk(result.text);
-        fullResponse += result.text;
-        return fullResponse;
-      }
-
-      // Check for function calls
-      const functionCalls = content.parts.filter((part: any) => part.functionCall);
-
-      if (functionCalls.length === 0) {
+      if (result.toolCalls.length === 0) {
         // No function calls, return final text
         logger.info('✅ No function calls, returning final response');
         onChunk(result.text);
@@ -299,62 +228,19 @@ export const createGeminiWithMcp = (
       }
 
       // Execute function calls (same as generateWithTools)
-      logger.info(`🔧 Executing ${functionCalls.length} function call(s)`);
-
-      const toolResults: ToolResult[] = [];
-
-      for (const part of functionCalls) {
-        const functionCall = part.functionCall;
-        const toolName = functionCall.name;
-        const toolArgs = functionCall.args || {};
-
-        try {
-          logger.info(`🔧 Calling tool: ${toolName}`, toolArgs);
-          const toolResult = await mcpServer.executeMcpTool(toolName, toolArgs);
-
-          toolResults.push({
-            name: toolName,
-            args: toolArgs,
-            result: toolResult
-          });
-
-          // Send tool execution status as chunk
-          onChunk(`\n[🔧 Executed: ${toolName}]\n`);
-
-          logger.info(`✅ Tool result:`, toolResult);
-        } catch (error) {
-          logger.error(`❌ Tool execution error for ${toolName}:`, error);
-          toolResults.push({
-            name: toolName,
-            args: toolArgs,
-            result: {
-              success: false,
-              error: (error as Error).message
-            }
-          });
-          onChunk(`\n[❌ Tool error: ${toolName}]\n`);
-        }
-      }
+      logger.info(`🔧 Executing ${result.toolCalls.length} function call(s)`);
+      const toolResults = await executeToolCalls(toolSession, result.toolCalls);
 
-      // Add AI's function call to history
-      conversationHistory.push({
-        role: 'model',
-        parts: functionCalls.map((fc: any) => ({ functionCall: fc.functionCall }))
-      });
-
-      // Add function responses to history
-      conversationHistory.push({
-        role: 'user',
-        parts: toolResults.map(tr => ({
-          functionResponse: {
-            name: tr.name,
-            response: tr.result
-          }
-        }))
-      });
+      // Send tool execution status as chunks
+      for (const tr of toolResults) {
+        onChunk(tr.result?.success === false ? `\n[❌ Tool error: ${tr.name}]\n` : `\n[🔧 Executed: ${tr.name}]\n`);
+      }
 
-      // Continue with empty prompt
-      currentPrompt = '';
+      // Add AI's function calls and their results to history
+      messages.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls, raw: result.raw });
+      for (const tr of toolResults) {
+        messages.push({ role: 'tool', toolCallId: tr.id, name: tr.name, result: tr.result });
+      }
     }
 
     throw new Error(`Maximum tool calling iterations (${maxIterations}) reached`);
@@ -368,16 +254,16 @@ export const createGeminiWithMcp = (
   };
 
   /**
-   * Set document for tool operations
+   * Load a document without binding it to later requests
    */
-  const setDocument = async (documentId: string): Promise<any> => {
-    return await toolService.setCurrentDocument(documentId);
+  const loadDocument = async (documentId: string): Promise<toolService.ToolResult> => {
+    return await runInToolSession(createToolSession(), () => toolService.setCurrentDocument(documentId));
   };
 
   return {
     generateWithTools,
     streamWithTools,
     getAvailableTools,
-    setDocument
+    loadDocument
   };
 };
@@ -1,8 +1,11 @@
 import {setGlobalOptions} from "firebase-functions";
 import {onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
 import express from "express";
+import type {IncomingMessage} from "http";
 import cors from "cors";
 import helmet from "helmet";
 import {createAppAuth} from "@octokit/auth-app";
@@ -17,8 +20,6 @@ const db = admin.firestore();
 import * as toolService from "./services/toolService";
 toolService.initFirestore(db);
 
-// MCP integration removed
-
 setGlobalOptions({
   maxInstances: 10,
   secrets: [
@@ -31,8 +32,39 @@ setGlobalOptions({
 // Session storage for dashboard authentication
 const dashboardSessions = new Map(); // sessionId -> { createdAt, expiresAt }
 
-// Import Gemini SDK
-import {GoogleGenAI} from "@google/genai";
+// LLM provider layer (Gemini, OpenAI-compatible, mock)
+import {
+  generateLLM,
+  getKeyRingConfig,
+  getKeyRingSnapshots,
+  isLLMProviderName,
+  isProviderConfigured,
+  clearProjectLLMSettings,
+  resolveLLMSelection,
+  LLM_PROVIDER_NAMES,
+} from "./llm/llmClient";
+import {fromGeminiContents} from "./llm/geminiProvider";
+import {errorStatus, providerError, LLMToolDeclaration} from "./llm/types";
+import type {Content} from "@google/genai";
+import {
+  checkUsageQuota,
+  recordUsage,
+  resolveUsageProjectId,
+  UsageFeature,
+} from "./services/usageService";
+import {
+  readWriteBase,
+  isStaleWrite,
+  buildConflictResponse,
+} from "./services/documentVersioning";
+import {
+  isChunkedDocument,
+  readDocumentContent,
+  buildContentWrite,
+  addHistoryEntry,
+  readHistoryContent,
+  deleteDocumentChunks,
+} from "./services/documentChunks";
 
 // Simple retry helper for transient upstream errors (e.g., 503)
 async function fetchWithRetry(
@@ -124,87 +156,109 @@ const countKeyList = (value: unknown): number | null => {
   return cleaned.split(",").filter(Boolean).length;
 };
 
-// Gemini single-key helper utilities
-// Uses a single Gemini API key provided via Vite configuration.
-let cachedGeminiClient: GoogleGenAI | null = null;
-let cachedGeminiKeySignature = "";
-
-function resolveGeminiApiKey(): string | null {
-  const raw = process.env.VITE_GEMINI_API_KEY;
-  if (!raw) {
-    return null;
-  }
-
-  const trimmed = raw.trim();
-  return trimmed.length ? trimmed : null;
+// LLM helper utilities
+// Requests go through the provider layer, which picks the provider/model
+// configured for the project and rotates API keys per provider.
+// Clients send Gemini-shaped requests: a systemInstruction string or Content, tools as declaration groups
+type GeminiSystemInstruction = string | {parts?: Array<{text?: string}>};
+
+interface GeminiGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  responseMimeType?: string;
 }
 
-function ensureGeminiClient(): GoogleGenAI | null {
-  const apiKey = resolveGeminiApiKey();
-  if (!apiKey) {
-    logger.error("⚠️ No Gemini API key configured");
-    return null;
+function systemInstructionText(systemInstruction: GeminiSystemInstruction | undefined): string | undefined {
+  if (!systemInstruction) {
+    return undefined;
   }
-
-  if (!cachedGeminiClient || cachedGeminiKeySignature !== apiKey) {
-    cachedGeminiClient = new GoogleGenAI({apiKey});
-    cachedGeminiKeySignature = apiKey;
+  if (typeof systemInstruction === "string") {
+    return systemInstruction;
   }
-
-  return cachedGeminiClient;
+  const parts = systemInstruction.parts || [];
+  return parts.map((part) => part?.text).filter(Boolean).join("\n") || undefined;
 }
 
-async function generateWithGemini(options: {
-  model: string;
-  contents: any[];
-  tools?: any;
-  systemInstruction?: any;
-  generationConfig?: any;
-  safetySettings?: any;
-  toolConfig?: any;
+async function generateWithLLM(options: {
+  model?: string;
+  contents: Content[];
+  tools?: Array<{functionDeclarations?: LLMToolDeclaration[]}>;
+  systemInstruction?: GeminiSystemInstruction;
+  generationConfig?: GeminiGenerationConfig;
+  projectId?: string;
+  documentId?: string;
+  provider?: string;
+  userId?: string;
+  feature?: UsageFeature;
 }) {
-  const client = ensureGeminiClient();
-  if (!client) {
-    const error: any = new Error("Gemini API key not configured");
-    error.status = 503;
-    throw error;
-  }
-
-  const generateParams = {
+  const selection = await resolveLLMSelection(db, {
+    projectId: options.projectId,
+    documentId: options.documentId,
+    provider: options.provider,
     model: options.model,
-    contents: options.contents,
-    generationConfig: options.generationConfig,
-    tools: options.tools,
-    toolConfig: options.toolConfig,
-    safetySettings: options.safetySettings,
-    systemInstruction: options.systemInstruction,
-  };
-
-  const resp = await client.models.generateContent(generateParams as any);
-  const usageMetadata = (resp as any)?.usageMetadata || {};
-  const responseObj: any = (resp as any)?.response ?? resp;
+  });
 
-  let text: string | null = null;
-  try {
-    if (typeof responseObj?.text === "function") {
-      text = responseObj.text();
-    }
-  } catch (error) {
-    logger.debug("Gemini response text() extraction failed", error);
+  if (!isProviderConfigured(selection.provider)) {
+    throw providerError(`${selection.provider} API key not configured`, 503);
   }
 
-  if (!text) {
-    const candidates = responseObj?.candidates || [];
-    const parts = candidates?.[0]?.content?.parts || [];
-    text = (parts.map((part: any) => part?.text).filter(Boolean).join(" ")) || null;
-  }
+  // Callers send Gemini-shaped contents/tools; the provider layer converts them as needed
+  const generationConfig = options.generationConfig || {};
+  const result = await generateLLM(selection, {
+    messages: fromGeminiContents(options.contents),
+    systemInstruction: systemInstructionText(options.systemInstruction),
+    tools: Array.isArray(options.tools)
+      ? options.tools.flatMap((tool) => tool?.functionDeclarations || [])
+      : undefined,
+    temperature: generationConfig.temperature,
+    topP: generationConfig.topP,
+    maxOutputTokens: generationConfig.maxOutputTokens,
+    responseMimeType: generationConfig.responseMimeType,
+  });
+
+  await recordUsage(db, {
+    userId: options.userId || null,
+    projectId: await resolveUsageProjectId(db, options),
+    documentId: options.documentId || null,
+    feature: options.feature || "generate",
+    provider: result.provider,
+    model: result.model,
+    inputTokens: result.usage.promptTokens || 0,
+    outputTokens: result.usage.completionTokens || 0,
+  });
 
   return {
-    text,
-    usage: usageMetadata,
+    text: result.text || null,
+    toolCalls: result.toolCalls,
+    usage: result.usage,
+    provider: result.provider,
+    model: result.model,
+    keyId: result.keyId,
   };
 }
 
+// Rejects the request with 429 when the user or project is over its monthly quota.
+// Returns true when the caller should stop.
+async function rejectOverQuota(
+  res: express.Response,
+  scope: { userId?: string; projectId?: string; documentId?: string }
+): Promise<boolean> {
+  const projectId = await resolveUsageProjectId(db, scope);
+  const quota = await checkUsageQuota(db, { userId: scope.userId, projectId });
+  if (quota.allowed) {
+    return false;
+  }
+  logger.warn(`🚫 Usage quota exceeded (${quota.scope} ${quota.metric})`);
+  res.status(429).json({
+    ok: false,
+    code: "QUOTA_EXCEEDED",
+    error: quota.message,
+    quota,
+  });
+  return true;
+}
+
 // Create Express app
 const app = express();
 
@@ -220,7 +274,16 @@ app.use(cors({
   credentials: true,
 }));
 
-app.use(express.json());
+// Keeps the raw body for webhook signatures (Cloud Functions sets rawBody itself)
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+app.use(express.json({
+  verify: (req: RawBodyRequest, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 
 // Helper functions
 function generateProjectId(): string {
@@ -239,6 +302,25 @@ const getGitHubAuth = () => {
   });
 };
 
+// The uid of a valid Bearer token (Dotivra access token or Firebase ID token), else null
+const requestUserId = async (req: express.Request): Promise<string | null> => {
+  const { authenticateMcpRequest } = await import('./MCP/mcpAuth.js');
+  return authenticateMcpRequest(db, req.headers.authorization);
+};
+
+// The caller's uid from the Bearer token, or null after sending a 401
+const authenticateRequest = async (req: express.Request, res: express.Response): Promise<string | null> => {
+  const userId = await requestUserId(req);
+  if (!userId) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized: send a Dotivra access token or Firebase ID token as a Bearer token'
+    });
+  }
+  return userId;
+};
+
 // Health check endpoint
 app.get("/api/health", (req, res) => {
   res.json({status: "ok", timestamp: new Date().toISOString()});
@@ -317,7 +399,7 @@ app.post('/api/gemini/reasoning', async (req, res) => {
       toolConfig,
     } = req.body || {};
 
-    if (!ensureGeminiClient()) {
+    if (!isProviderConfigured('gemini')) {
       logger.error("❌ Gemini client not configured");
       return res.status(503).json({ error: "Gemini API key not configured" });
     }
@@ -353,12 +435,15 @@ app.post('/api/gemini/reasoning', async (req, res) => {
   }
 });
 
-// Generate via Gemini API (using balancer)
+// Generate via the project's LLM provider (route name kept for existing clients)
 app.post('/api/gemini/generate', async (req, res) => {
   try {
     logger.info('🔵 Gemini API Request received');
     logger.info('  Request body keys:', Object.keys(req.body || {}));
-    
+
+    const userId = await authenticateRequest(req, res);
+    if (!userId) return;
+
     const {
       prompt,
       contents,
@@ -366,8 +451,10 @@ app.post('/api/gemini/generate', async (req, res) => {
       tools,
       systemInstruction,
       generationConfig,
-      safetySettings,
-      toolConfig,
+      projectId,
+      documentId,
+      provider,
+      feature,
     } = req.body || {};
 
     let effectiveContents = contents;
@@ -380,38 +467,40 @@ app.post('/api/gemini/generate', async (req, res) => {
       return res.status(400).json({ error: 'Missing prompt or contents' });
     }
 
-    const client = ensureGeminiClient();
-    if (!client) {
-      logger.error('❌ Gemini client not configured');
-      return res.status(503).json({ error: 'Gemini API key not configured' });
+    if (await rejectOverQuota(res, { userId, projectId, documentId })) {
+      return;
     }
 
-    logger.info('  Calling Gemini generate with model:', model);
-    const result = await generateWithGemini({
+    const result = await generateWithLLM({
       model,
       contents: effectiveContents,
       tools,
       systemInstruction,
       generationConfig,
-      safetySettings,
-      toolConfig,
+      projectId,
+      documentId,
+      provider,
+      userId,
+      // Template generation runs client-side through this route and tags itself
+      feature: feature === 'template' ? 'template' : 'generate',
     });
 
-    logger.info('✅ Gemini generation successful, response length:', result.text?.length || 0);
+    logger.info(`✅ ${result.provider}/${result.model} generation successful, response length:`, result.text?.length || 0);
     res.json({
       ok: true,
       text: result.text,
+      toolCalls: result.toolCalls,
       usage: result.usage,
-      key: { idShort: 'single-key' },
-      model,
+      key: { idShort: result.keyId },
+      provider: result.provider,
+      model: result.model,
     });
   } catch (error) {
     logger.error('❌ Gemini generate error:', error);
     logger.error('   Error details:', {
       message: error instanceof Error ? error.message : 'Unknown error',
     });
-    const status = (error as any)?.status || 500;
-    res.status(status).json({ 
+    res.status(errorStatus(error) || 500).json({ 
       ok: false, 
       error: error instanceof Error ? error.message : 'Failed to generate' 
     });
@@ -422,12 +511,18 @@ app.post('/api/gemini/generate', async (req, res) => {
 // Generate document recommendations
 app.post('/api/gemini/recommendations', async (req, res) => {
   try {
+    const userId = await authenticateRequest(req, res);
+    if (!userId) return;
     const { documentId, content } = req.body;
 
     if (!documentId || !content) {
       return res.status(400).json({ error: 'Missing documentId or content' });
     }
 
+    if (await rejectOverQuota(res, { userId, documentId })) {
+      return;
+    }
+
     logger.info('🎯 Generating recommendations for document:', documentId);
 
     // Generate recommendations using Gemini
@@ -451,14 +546,11 @@ Format your response as JSON:
   ]
 }`;
 
-    const client = ensureGeminiClient();
-    if (!client) {
-      logger.error('❌ Gemini client not configured');
-      return res.status(503).json({ error: 'Gemini API key not configured' });
-    }
-
-    const result = await generateWithGemini({
+    const result = await generateWithLLM({
       model: 'gemini-2.5-pro',
+      documentId,
+      userId,
+      feature: 'recommendations',
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
       generationConfig: {
         temperature: 0.7,
@@ -486,7 +578,7 @@ Format your response as JSON:
 
   } catch (error) {
     logger.error('❌ Recommendations generation error:', error);
-    res.status(500).json({ error: 'Failed to generate recommendations' });
+    res.status(errorStatus(error) === 503 ? 503 : 500).json({ error: 'Failed to generate recommendations' });
   }
 });
 
@@ -495,25 +587,31 @@ app.post('/api/gemini/generate-with-tools', async (req, res) => {
   try {
     logger.info('🔧 Gemini API with Tools Request received');
 
+    const userId = await authenticateRequest(req, res);
+    if (!userId) return;
+
     const {
       prompt,
       model = 'gemini-2.5-pro',
       generationConfig = {},
+      projectId,
+      documentId,
     } = req.body || {};
 
     if (!prompt) {
       return res.status(400).json({ error: 'Missing prompt' });
     }
 
-    // Fallback to regular generation (MCP removed)
-    const client = ensureGeminiClient();
-    if (!client) {
-      logger.error('❌ Gemini client not configured');
-      return res.status(503).json({ error: 'Gemini API key not configured' });
+    if (await rejectOverQuota(res, { userId, projectId, documentId })) {
+      return;
     }
 
-    const result = await generateWithGemini({
+    // Fallback to regular generation (MCP removed)
+    const result = await generateWithLLM({
       model,
+      projectId,
+      documentId,
+      userId,
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
       generationConfig
     });
@@ -523,13 +621,14 @@ app.post('/api/gemini/generate-with-tools', async (req, res) => {
       text: result.text,
       toolCalls: [],
       toolsUsed: 0,
-      model
+      provider: result.provider,
+      model: result.model
     });
-  } catch (error: any) {
+  } catch (error) {
     logger.error('❌ Gemini generate with tools error:', error);
-    res.status(500).json({
+    res.status(errorStatus(error) === 503 ? 503 : 500).json({
       success: false,
-      error: error?.message || 'Failed to generate with tools'
+      error: error instanceof Error ? error.message : 'Failed to generate with tools'
     });
   }
 });
@@ -542,21 +641,160 @@ app.post('/api/ai-agent/execute', async (req, res) => {
   try {
     logger.info('🤖 AI Agent Execute - Request received');
 
+    const userId = await authenticateRequest(req, res);
+    if (!userId) return;
+
+    const { projectId, documentId } = req.body || {};
+    if (await rejectOverQuota(res, { userId, projectId, documentId })) {
+      return;
+    }
+
     // AI Agent not available in Firebase Functions deployment
     return res.status(503).json({ 
       error: 'AI Agent not available in production. Please use local development server.' 
     });
 
-  } catch (error: any) {
+  } catch (error) {
     logger.error('❌ AI Agent execute error:', error);
     res.status(500).json({
       stage: 'error',
-      content: error?.message || 'AI Agent execution failed',
+      content: error instanceof Error ? error.message : 'AI Agent execution failed',
       sessionId: null
     });
   }
 });
 
+// AI Agent - Server-Sent Events stream of reasoning, tool calls, tool results and the final answer.
+// Closing the connection aborts the loop and discards any uncommitted edits.
+// The agent edits the document and reads its project, so both must belong to the caller.
+// Documents are open to the owner of their project and to their author.
+const authorizeAgentTarget = async (
+  res: express.Response,
+  userId: string,
+  target: { documentId?: unknown; projectId?: unknown }
+): Promise<boolean> => {
+  if (typeof target.documentId === 'string' && target.documentId) {
+    const data = (await db.collection('Documents').doc(target.documentId).get()).data();
+    if (!data) {
+      res.status(404).json({ error: 'Document not found' });
+      return false;
+    }
+    const project = data.Project_Id ? (await db.collection('Projects').doc(data.Project_Id).get()).data() : undefined;
+    if (project?.User_Id !== userId && data.User_Id !== userId) {
+      res.status(403).json({ error: "You don't have permission to edit this document" });
+      return false;
+    }
+  }
+  if (typeof target.projectId === 'string' && target.projectId) {
+    const project = await db.collection('Projects').doc(target.projectId).get();
+    if (!project.exists) {
+      res.status(404).json({ error: 'Project not found' });
+      return false;
+    }
+    if (project.data()?.User_Id !== userId) {
+      res.status(403).json({ error: "You don't have permission to use this project" });
+      return false;
+    }
+  }
+  return true;
+};
+
+app.post('/api/ai-agent/stream', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  const {
+    prompt,
+    history,
+    selectedText,
+    documentId,
+    projectId,
+    provider,
+    model,
+  } = req.body || {};
+
+  if (!prompt || typeof prompt !== 'string') {
+    return res.status(400).json({ error: 'Missing prompt' });
+  }
+
+  if (!await authorizeAgentTarget(res, userId, { documentId, projectId })) {
+    return;
+  }
+
+  if (await rejectOverQuota(res, { userId, projectId, documentId })) {
+    return;
+  }
+
+  logger.info(`🤖 AI Agent stream started${documentId ? ` for document ${documentId}` : ''}`);
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      logger.info('🛑 AI Agent stream closed by client, aborting');
+      abortController.abort();
+    }
+  });
+
+  const send = (event: { type: string; [key: string]: unknown }) => {
+    if (!res.writableEnded && !abortController.signal.aborted) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  };
+
+  // Comment lines keep proxies from closing the connection during long tool calls
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(': keep-alive\n\n');
+    }
+  }, 15000);
+
+  try {
+    const selection = await resolveLLMSelection(db, { projectId, documentId, provider, model });
+    if (!isProviderConfigured(selection.provider)) {
+      logger.error(`❌ ${selection.provider} provider not configured`);
+      send({ type: 'error', message: `${selection.provider} API key not configured` });
+      return;
+    }
+
+    const { runAgentStream } = await import('./gemini/agentStream.js');
+    await runAgentStream({
+      selection,
+      prompt,
+      history: Array.isArray(history) ? history : [],
+      selectedText,
+      documentId,
+      userId,
+      signal: abortController.signal,
+      emit: send,
+      onUsage: async (usage) => recordUsage(db, {
+        userId: userId || null,
+        projectId: await resolveUsageProjectId(db, { projectId, documentId }),
+        documentId: documentId || null,
+        feature: 'agent',
+        provider: selection.provider,
+        model: selection.model,
+        inputTokens: usage.promptTokens || 0,
+        outputTokens: usage.completionTokens || 0,
+        requests: usage.requests,
+      }),
+    });
+  } catch (error) {
+    logger.error('❌ AI Agent stream error:', error);
+    send({ type: 'error', message: error instanceof Error ? error.message : 'AI Agent execution failed' });
+  } finally {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+});
+
 // Authenticate with passkey
 app.post('/api/gemini/auth', (req, res) => {
   try {
@@ -608,23 +846,16 @@ app.get('/api/gemini/dashboard', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized. Please authenticate.' });
     }
 
-    const client = ensureGeminiClient();
-    if (!client) {
-      return res.status(503).json({ error: 'Gemini API key not configured' });
-    }
-
-    logger.info('📊 Dashboard requested in single-key mode');
+    logger.info('📊 Dashboard requested');
 
+    // One row per API key across every configured provider
+    const { breaker, modelLimits } = getKeyRingConfig('gemini');
     res.json({
-      mode: 'single-key',
-      keys: [
-        {
-          id: 'single-key',
-          idShort: 'single-key',
-          status: 'untracked',
-          note: 'Usage metrics are unavailable when the balancer is disabled.',
-        },
-      ],
+      mode: 'key-ring',
+      providers: LLM_PROVIDER_NAMES.filter((name) => isProviderConfigured(name)),
+      keys: getKeyRingSnapshots(),
+      breaker,
+      modelLimits,
       limits: {
         RPM: Number(process.env.GEMINI_LIMIT_RPM ?? 5),
         RPD: Number(process.env.GEMINI_LIMIT_RPD ?? 100),
@@ -969,6 +1200,98 @@ app.get("/api/github/repository/:owner/:repo/file", async (req, res) => {
   }
 });
 
+// Every repository an installation can reach, in the shape webhooks record
+const listInstallationRepositories = async (installationId: number) => {
+  const githubAuth = getGitHubAuth();
+  const auth = await githubAuth({type: "installation", installationId});
+  const octokit = new Octokit({auth: auth.token});
+
+  const repositories = await octokit.paginate(octokit.rest.apps.listReposAccessibleToInstallation, {per_page: 100});
+  return repositories.map((repo) => ({
+    Id: repo.id,
+    Name: repo.name,
+    Full_Name: repo.full_name,
+    Private: repo.private,
+    Description: repo.description,
+    Default_Branch: repo.default_branch,
+    Html_Url: repo.html_url,
+  }));
+};
+
+// GitHub App webhook: push, pull_request and installation events, signed with GITHUB_WEBHOOK_SECRET
+app.post("/api/github/webhook", async (req, res) => {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error("❌ GitHub webhook received but GITHUB_WEBHOOK_SECRET is not set");
+    return res.status(503).json({error: "Webhook secret not configured"});
+  }
+
+  const event = req.headers["x-github-event"];
+  const delivery = req.headers["x-github-delivery"];
+  const rawBody = (req as RawBodyRequest).rawBody;
+  try {
+    const {verifyWebhookSignature, handleWebhookEvent} = await import("./services/githubWebhooks.js");
+    if (!rawBody || !verifyWebhookSignature(rawBody, req.headers["x-hub-signature-256"], secret)) {
+      logger.warn(`⚠️ Rejected GitHub webhook delivery ${delivery} with a bad signature`);
+      return res.status(401).json({error: "Invalid signature"});
+    }
+    if (typeof event !== "string") {
+      return res.status(400).json({error: "X-GitHub-Event header is required"});
+    }
+
+    const result = await handleWebhookEvent(db, event, req.body, listInstallationRepositories);
+    logger.info(`🪝 GitHub ${event} delivery ${delivery}: ${result}`);
+    res.json({result});
+  } catch (error) {
+    // A 5xx lets the delivery be redelivered from the app settings
+    logger.error(`❌ GitHub ${event} delivery ${delivery} failed:`, error);
+    res.status(500).json({
+      error: "Failed to handle webhook",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Repositories the caller can reach through the app's installations, as recorded by webhooks
+app.get("/api/github/repos", async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const {listInstallationRepositories: listRecorded} = await import("./services/githubWebhooks.js");
+    const {readGitHubLogin} = await import("./services/githubAccess.js");
+    const recorded = await listRecorded(db, await readGitHubLogin(db, userId));
+
+    const repositories = recorded.flatMap((installation) => installation.repositories.map((repo) => ({
+      id: repo.Id,
+      full_name: repo.Full_Name,
+      name: repo.Name,
+      owner: repo.Full_Name.split("/")[0],
+      default_branch: repo.Default_Branch,
+      private: repo.Private,
+      description: repo.Description,
+      html_url: repo.Html_Url,
+      installation_id: installation.installationId,
+    })));
+
+    res.json({
+      repositories,
+      installations: recorded.map((installation) => ({
+        id: installation.installationId,
+        repo_count: installation.repositories.length,
+        created_at: installation.createdAt,
+      })),
+      total: repositories.length,
+    });
+  } catch (error) {
+    logger.error("Error fetching installation repositories:", error);
+    res.status(500).json({
+      error: "Failed to fetch repositories",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 // ============================================================================
 // PROJECT MANAGEMENT ENDPOINTS (Firebase Admin)
 // ============================================================================
@@ -1147,6 +1470,13 @@ app.put("/api/projects/:id", async (req, res) => {
     const updates = req.body;
     const requestingUserId = req.query.userId as string; // Get userId from query params
 
+    // Per-project model selection; an empty value falls back to the default provider
+    if (updates?.LLM_Provider !== undefined && updates.LLM_Provider !== null && !isLLMProviderName(updates.LLM_Provider)) {
+      return res.status(400).json({
+        error: `Unknown LLM provider. Use one of: ${LLM_PROVIDER_NAMES.join(', ')}`,
+      });
+    }
+
     // Find document by Project_Id
     const querySnapshot = await db.collection("Projects")
       .where("Project_Id", "==", projectId)
@@ -1171,6 +1501,7 @@ app.put("/api/projects/:id", async (req, res) => {
       ...updates,
       Updated_Time: admin.firestore.Timestamp.now(),
     });
+    clearProjectLLMSettings(projectId);
 
     res.json({
       success: true,
@@ -1226,6 +1557,61 @@ app.delete("/api/projects/:id", async (req, res) => {
   }
 });
 
+// GET /api/projects/:projectId/export/site - Static documentation site of all project documents as a zip.
+// Accepts a Dotivra access token as well as a Firebase ID token, so CI can publish the site.
+app.get("/api/projects/:projectId/export/site", async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { loadExportProject } = await import('./services/documentRendering.js');
+    const { buildDocsSite } = await import('./services/docsSiteExport.js');
+    const project = await loadExportProject(db, req.params.projectId);
+    if (!project) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+    if (project.userId !== userId) {
+      return res.status(403).json({ success: false, error: "You don't have permission to export this project" });
+    }
+
+    const site = await buildDocsSite(db, project);
+    logger.info(`📦 Exported docs site for project ${project.id} (${site.pageCount} pages)`);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${site.fileName}"`);
+    res.send(site.zip);
+  } catch (error) {
+    logger.error('❌ Docs site export error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to export documentation site' });
+  }
+});
+
+// Create a project from a Confluence or Notion export converted on the client
+app.post("/api/projects/import", async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { parseWorkspaceImport, importWorkspace } = await import('./services/workspaceImport.js');
+    const workspace = parseWorkspaceImport(req.body);
+    if (typeof workspace === 'string') {
+      return res.status(400).json({ success: false, error: workspace });
+    }
+
+    const { projectId, documentIds } = await importWorkspace(db, userId, generateProjectId(), workspace);
+    logger.info(`📥 Imported ${documentIds.size} ${workspace.source} pages into project ${projectId}`);
+
+    res.status(201).json({
+      success: true,
+      projectId,
+      documentIds: Object.fromEntries(documentIds)
+    });
+  } catch (error) {
+    logger.error('❌ Workspace import error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to import workspace' });
+  }
+});
+
 // ============================================================================
 // USER MANAGEMENT ENDPOINTS
 // ============================================================================
@@ -1313,9 +1699,12 @@ app.get("/api/users/email/:email", async (req, res) => {
 // ============================================================================
 
 // Get document by ID
+// Chunked documents are returned assembled unless ?chunks=lazy, in which case
+// Content is empty and the client loads sections from the Chunks outline
 app.get('/api/documents/:documentId', async (req, res) => {
   try {
     const { documentId } = req.params;
+    const lazyChunks = req.query.chunks === 'lazy';
     
     const docRef = db.collection('Documents').doc(documentId);
     const doc = await docRef.get();
@@ -1325,9 +1714,13 @@ app.get('/api/documents/:documentId', async (req, res) => {
     }
     
     const data = doc.data();
+    const content = isChunkedDocument(data) && !lazyChunks
+      ? await readDocumentContent(db, documentId, data)
+      : data?.Content;
     res.json({
       id: doc.id,
       ...data,
+      Content: content,
       CreatedAt: data?.CreatedAt?.toDate?.()?.toISOString() || new Date().toISOString(),
       UpdatedAt: data?.UpdatedAt?.toDate?.()?.toISOString() || new Date().toISOString()
     });
@@ -1337,40 +1730,98 @@ app.get('/api/documents/:documentId', async (req, res) => {
   }
 });
 
+// GET /api/documents/:documentId/export/pdf - Document rendered to PDF in headless Chromium,
+// with a project cover page, table of contents and page-numbered headers and footers
+app.get('/api/documents/:documentId/export/pdf', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { documentId } = req.params;
+    const doc = await db.collection('Documents').doc(documentId).get();
+    if (!doc.exists) {
+      return res.status(404).json({ success: false, error: 'Document not found' });
+    }
+
+    const data = doc.data() || {};
+    const { loadExportProject } = await import('./services/documentRendering.js');
+    const project = data.Project_Id ? await loadExportProject(db, data.Project_Id) : null;
+    if (!project) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+    if (project.userId !== userId && data.User_Id !== userId) {
+      return res.status(403).json({ success: false, error: "You don't have permission to export this document" });
+    }
+
+    const { buildDocumentPdf } = await import('./services/documentPdfExport.js');
+    const result = await buildDocumentPdf(db, project, { id: documentId, data });
+    logger.info(`📄 Exported PDF for document ${documentId} (${result.pageCount} pages)`);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    res.send(result.pdf);
+  } catch (error) {
+    logger.error('❌ PDF export error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to export PDF' });
+  }
+});
+
 // Update document
 app.put('/api/documents/:documentId', async (req, res) => {
   try {
     const { documentId } = req.params;
     const { content, title, EditedBy } = req.body;
-    
+    const writeBase = readWriteBase(req.body);
+
     const docRef = db.collection('Documents').doc(documentId);
-    const doc = await docRef.get();
-    
-    if (!doc.exists) {
+    let docData: admin.firestore.DocumentData | undefined;
+    let found = true;
+    let conflict = false;
+    let newVersion = 0;
+
+    // Version check and write happen atomically so two stale saves can't both pass
+    await db.runTransaction(async (t) => {
+      const doc = await t.get(docRef);
+      if (!doc.exists) {
+        found = false;
+        return;
+      }
+
+      docData = doc.data();
+      if (content !== undefined && isStaleWrite(docData, writeBase)) {
+        conflict = true;
+        return;
+      }
+
+      newVersion = (docData?.version || 0) + 1;
+      const updateData: admin.firestore.DocumentData = {
+        Updated_Time: admin.firestore.Timestamp.now(),
+        version: newVersion
+      };
+
+      if (content !== undefined) {
+        Object.assign(updateData, buildContentWrite(t, db, documentId, content, docData));
+        updateData.Hash = hashJSON(content);
+      }
+      if (title !== undefined) updateData.Title = title;
+      if (EditedBy !== undefined) updateData.EditedBy = EditedBy;
+
+      t.update(docRef, updateData);
+    });
+
+    if (!found) {
       return res.status(404).json({ error: 'Document not found' });
     }
-    
-    const docData = doc.data();
-    const currentVersion = docData?.version || 0;
-    const newVersion = currentVersion + 1;
-    
-    const updateData: any = {
-      Updated_Time: admin.firestore.Timestamp.now(),
-      version: newVersion
-    };
-    
-    if (content !== undefined) updateData.Content = content;
-    if (title !== undefined) updateData.Title = title;
-    if (EditedBy !== undefined) updateData.EditedBy = EditedBy;
-    
-    await docRef.update(updateData);
-    
+    if (conflict) {
+      logger.info(`⚠️ Rejected stale save for document ${documentId}`);
+      const currentContent = await readDocumentContent(db, documentId, docData);
+      return res.status(409).json(buildConflictResponse(documentId, docData, currentContent));
+    }
+
     // ✅ Save version to DocumentHistory if content changed
     if (content !== undefined) {
       try {
-        await db.collection('DocumentHistory').add({
-          Document_Id: documentId,
-          Content: content,
+        await addHistoryEntry(db, documentId, content, {
           Version: newVersion,
           CreatedAt: admin.firestore.Timestamp.now(),
           EditedBy: EditedBy || docData?.EditedBy || 'anonymous',
@@ -1411,6 +1862,9 @@ app.delete('/api/documents/:documentId', async (req, res) => {
     }
     
     await docRef.delete();
+    await deleteDocumentChunks(db, documentId);
+    await db.collection('DocumentDrift').doc(documentId).delete();
+    await db.collection('DocumentSync').doc(documentId).delete();
     
     logger.info('✅ Document deleted successfully:', documentId);
     
@@ -1569,6 +2023,7 @@ When creating developer documentation, you MUST follow this exact HTML format:
 ## **Instructions**
 Based on the repository code and structure provided, create comprehensive developer documentation that:
 - Documents all major APIs, classes, and functions
+- Takes routes, function signatures, CLI commands and environment variables from the STATIC ANALYSIS block when one is provided, rather than inferring them from file text
 - Explains the architecture and design patterns used
 - Provides code examples and usage patterns
 - Includes setup and installation instructions
@@ -1709,6 +2164,7 @@ When creating developer documentation, you MUST follow this exact HTML format:
 ## **Instructions**
 Based on the repository code and structure provided, create comprehensive developer documentation that:
 - Documents all major APIs, classes, and functions
+- Takes routes, function signatures, CLI commands and environment variables from the STATIC ANALYSIS block when one is provided, rather than inferring them from file text
 - Explains the architecture and design patterns used
 - Provides code examples and usage patterns
 - Includes setup and installation instructions
@@ -1791,6 +2247,8 @@ app.post('/api/documents', async (req, res) => {
     }
 
     
+    const docRef = db.collection('Documents').doc();
+    const batch = db.batch();
     const docData = {
       DocumentName: documentName,
       DocumentType: documentType,
@@ -1798,7 +2256,7 @@ app.post('/api/documents', async (req, res) => {
       Project_Id: projectIdValue,
       Template_Id: templateIdValue,
       User_Id: userIdValue,
-      Content: contentValue,
+      ...buildContentWrite(batch, db, docRef.id, contentValue, undefined),
       IsDraft: isDraft,
       EditedBy: userIdValue,
       Created_Time: admin.firestore.Timestamp.now(),
@@ -1807,15 +2265,13 @@ app.post('/api/documents', async (req, res) => {
       version: 1 // Initialize version to 1
     };
     
-    
-    const docRef = await db.collection('Documents').add(docData);
+    batch.set(docRef, docData);
+    await batch.commit();
     
     
     // ✅ Save initial version (version 1) to DocumentHistory
     try {
-      await db.collection('DocumentHistory').add({
-        Document_Id: docRef.id,
-        Content: contentValue,
+      await addHistoryEntry(db, docRef.id, contentValue, {
         Version: 1,
         Edited_Time: admin.firestore.Timestamp.now(),
         EditedBy: userIdValue,
@@ -1830,6 +2286,7 @@ app.post('/api/documents', async (req, res) => {
     const responseData = {
       id: docRef.id,
       ...docData,
+      Content: contentValue,
       Created_Time: docData.Created_Time.toDate().toISOString(),
       Updated_Time: docData.Updated_Time.toDate().toISOString()
     };
@@ -1848,52 +2305,633 @@ app.post('/api/documents', async (req, res) => {
 });
 
 // ============================================================================
-// DOCUMENT HISTORY & CHAT ENDPOINTS
-// PROFILE MANAGEMENT ENDPOINTS
+// GENERATION JOB ENDPOINTS
 // ============================================================================
 
-// Update user profile
-app.put('/api/profile/edit', async (req, res) => {
-  try {
-    logger.info('✏️ PUT /api/profile/edit received:', req.body);
-    const { userId, UserName, UserEmail, currentPassword, newPassword } = req.body;
-
-    // Validate required fields
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
-    }
+// Template generation runs as a GenerationJobs record worked by generationJobRunner.
+// These routes start, watch and resume jobs; the client polls the status route.
 
-    // Find the user by User_Id
-    const querySnapshot = await db.collection('Users')
-      .where('User_Id', '==', userId)
-      .get();
+// Start generating a document from a template and repository
+app.post('/api/generation-jobs', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
 
-    if (querySnapshot.empty) {
-      return res.status(404).json({ error: 'User not found' });
+  try {
+    const { parseGenerationJobRequest, createGenerationJob } = await import('./services/generationJobs.js');
+    const request = parseGenerationJobRequest(req.body);
+    if (typeof request === 'string') {
+      return res.status(400).json({ success: false, error: request });
     }
 
-    const userDoc = querySnapshot.docs[0];
-    const userData = userDoc.data();
-
-    // If password is being changed, verify current password
-    if (newPassword && currentPassword) {
-      if (userData.UserPw !== currentPassword) {
-        return res.status(401).json({ error: 'Current password is incorrect' });
-      }
+    const project = await db.collection('Projects').doc(request.projectId).get();
+    if (!project.exists) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+    if (project.data()?.User_Id !== userId) {
+      return res.status(403).json({ success: false, error: "You don't have permission to add documents to this project" });
+    }
+    if (await rejectOverQuota(res, { userId, projectId: request.projectId })) {
+      return;
     }
 
-    // Prepare update data
-    const updateData: any = {};
-    if (UserName) updateData.UserName = UserName;
-    if (UserEmail) updateData.UserEmail = UserEmail;
-    if (newPassword) updateData.UserPw = newPassword; // In production, hash this!
+    const job = await createGenerationJob(db, userId, request);
+    logger.info(`🧾 Queued ${request.mode} generation job ${job.id} for ${job.repository}`);
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    logger.error('❌ Generation job create error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to start generation' });
+  }
+});
 
-    // Update the user document
-    await userDoc.ref.update(updateData);
+// Recent jobs for a project, so a reopened tab can pick up where it left off
+app.get('/api/generation-jobs', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
 
-    // Return updated user data (without password)
-    const updatedUser = { ...userData, ...updateData };
-    const { UserPw: _, ...userResponse } = updatedUser;
+  const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : '';
+  if (!projectId) {
+    return res.status(400).json({ success: false, error: 'projectId is required' });
+  }
+
+  try {
+    const { listGenerationJobs } = await import('./services/generationJobs.js');
+    const jobs = await listGenerationJobs(db, userId, projectId);
+    res.json({ success: true, jobs });
+  } catch (error) {
+    logger.error('❌ Generation job list error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to list generation jobs' });
+  }
+});
+
+// Job status: stage, per-section progress, partial output and the last error
+app.get('/api/generation-jobs/:jobId', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { getGenerationJob } = await import('./services/generationJobs.js');
+    const job = await getGenerationJob(db, userId, req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Generation job not found' });
+    }
+    res.json({ success: true, job });
+  } catch (error) {
+    logger.error('❌ Generation job status error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to read generation job' });
+  }
+});
+
+// Requeue a failed job; it continues at the first section that is not done
+app.post('/api/generation-jobs/:jobId/resume', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { getGenerationJob, resumeGenerationJob } = await import('./services/generationJobs.js');
+    const current = await getGenerationJob(db, userId, req.params.jobId);
+    if (!current) {
+      return res.status(404).json({ success: false, error: 'Generation job not found' });
+    }
+    if (await rejectOverQuota(res, { userId, projectId: current.projectId })) {
+      return;
+    }
+
+    const job = await resumeGenerationJob(db, userId, current.id);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Generation job not found' });
+    }
+    if (typeof job === 'string') {
+      return res.status(409).json({ success: false, error: job });
+    }
+    logger.info(`🔁 Resumed generation job ${job.id}`);
+    res.json({ success: true, job });
+  } catch (error) {
+    logger.error('❌ Generation job resume error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to resume generation' });
+  }
+});
+
+// ============================================================================
+// CODE INDEX ENDPOINTS
+// ============================================================================
+
+// Semantic code search over GitHub repositories, read with the caller's GitHub token.
+// Other git remotes and local checkouts are only indexed through codeIndexCli.
+
+// Indexes are shared between users, so each read first checks that the caller's token
+// can open the repository; private repositories answer 404 to everyone else.
+const authorizeCodeIndexRepository = async (
+  res: express.Response,
+  userId: string,
+  repository: { owner: string; repo: string }
+): Promise<boolean> => {
+  const { resolveRevision } = await import('./services/codeIndex.js');
+  const { readGitHubToken } = await import('./services/githubAccess.js');
+  try {
+    await resolveRevision({ type: 'github', ...repository, token: await readGitHubToken(db, userId) });
+    return true;
+  } catch {
+    res.status(404).json({ success: false, error: 'Repository not found or not accessible' });
+    return false;
+  }
+};
+
+// Index a repository at its latest commit (or ref); a current index returns at once
+app.post('/api/code-index', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { parseGitHubRepository, indexRepository } = await import('./services/codeIndex.js');
+    const { readGitHubToken } = await import('./services/githubAccess.js');
+    const repository = parseGitHubRepository(req.body?.repository);
+    if (!repository) {
+      return res.status(400).json({ success: false, error: 'repository must be "owner/repo" or a GitHub URL' });
+    }
+    if (await rejectOverQuota(res, { userId })) {
+      return;
+    }
+
+    const index = await indexRepository(db, {
+      type: 'github',
+      ...repository,
+      ref: typeof req.body?.ref === 'string' && req.body.ref.trim() ? req.body.ref.trim() : null,
+      token: await readGitHubToken(db, userId)
+    }, { force: req.body?.force === true });
+    res.json({ success: true, index });
+  } catch (error) {
+    logger.error('❌ Code index error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to index repository' });
+  }
+});
+
+app.get('/api/code-index/:owner/:repo', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { codeIndexId, getCodeIndex } = await import('./services/codeIndex.js');
+    const repository = { owner: req.params.owner, repo: req.params.repo };
+    if (!await authorizeCodeIndexRepository(res, userId, repository)) {
+      return;
+    }
+    const index = await getCodeIndex(db, codeIndexId({ type: 'github', ...repository }));
+    if (!index) {
+      return res.status(404).json({ success: false, error: 'This repository has not been indexed' });
+    }
+    res.json({ success: true, index });
+  } catch (error) {
+    logger.error('❌ Code index status error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to read code index' });
+  }
+});
+
+app.post('/api/code-index/search', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { parseGitHubRepository, codeIndexId, getCodeIndex, searchCodeIndex } = await import('./services/codeIndex.js');
+    const repository = parseGitHubRepository(req.body?.repository);
+    const query = typeof req.body?.query === 'string' ? req.body.query.trim() : '';
+    if (!repository || !query) {
+      return res.status(400).json({ success: false, error: 'repository and query are required' });
+    }
+    if (await rejectOverQuota(res, { userId })) {
+      return;
+    }
+    if (!await authorizeCodeIndexRepository(res, userId, repository)) {
+      return;
+    }
+
+    const indexId = codeIndexId({ type: 'github', ...repository });
+    const index = await getCodeIndex(db, indexId);
+    if (!index?.revision) {
+      return res.status(404).json({ success: false, error: 'This repository has not been indexed' });
+    }
+    const results = await searchCodeIndex(db, indexId, query, {
+      limit: Number(req.body?.limit) || undefined,
+      pathPrefix: typeof req.body?.path === 'string' ? req.body.path : undefined
+    });
+    res.json({ success: true, revision: index.revision, results });
+  } catch (error) {
+    logger.error('❌ Code search error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to search code' });
+  }
+});
+
+// ============================================================================
+// CODE ANALYSIS ENDPOINTS
+// ============================================================================
+
+// Static model of a GitHub repository's functions, classes, routes, CLI commands and
+// environment variables at its latest commit (or ref), with the prompt block built from it
+app.post('/api/code-analysis', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    const { parseGitHubRepository } = await import('./services/codeIndex.js');
+    const { analyzeRepository, formatRepoModel } = await import('./services/codeAnalysis.js');
+    const { readGitHubToken } = await import('./services/githubAccess.js');
+    const repository = parseGitHubRepository(req.body?.repository);
+    if (!repository) {
+      return res.status(400).json({ success: false, error: 'repository must be "owner/repo" or a GitHub URL' });
+    }
+
+    const analysis = await analyzeRepository(db, {
+      type: 'github',
+      ...repository,
+      ref: typeof req.body?.ref === 'string' && req.body.ref.trim() ? req.body.ref.trim() : null,
+      token: await readGitHubToken(db, userId)
+    }, { force: req.body?.force === true });
+    res.json({ success: true, analysis, summary: formatRepoModel(analysis) });
+  } catch (error) {
+    logger.error('❌ Code analysis error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to analyze repository' });
+  }
+});
+
+// ============================================================================
+// DOCS DRIFT ENDPOINTS
+// ============================================================================
+
+// Which sections of a document commits made since it was generated or verified may
+// have made wrong, and AI patches for them that the editor shows for review.
+// Documents are open to the owner of their project and to their author.
+const authorizeDriftDocument = async (
+  res: express.Response,
+  userId: string,
+  documentId: string
+): Promise<admin.firestore.DocumentData | null> => {
+  const data = (await db.collection('Documents').doc(documentId).get()).data();
+  if (!data) {
+    res.status(404).json({ success: false, error: 'Document not found' });
+    return null;
+  }
+  const project = data.Project_Id ? (await db.collection('Projects').doc(data.Project_Id).get()).data() : undefined;
+  if (project?.User_Id !== userId && data.User_Id !== userId) {
+    res.status(403).json({ success: false, error: "You don't have permission to check this document" });
+    return null;
+  }
+  return data;
+};
+
+const authorizeDriftProject = async (res: express.Response, userId: string, projectId: string): Promise<boolean> => {
+  const project = await db.collection('Projects').doc(projectId).get();
+  if (!project.exists) {
+    res.status(404).json({ success: false, error: 'Project not found' });
+    return false;
+  }
+  if (project.data()?.User_Id !== userId) {
+    res.status(403).json({ success: false, error: "You don't have permission to check this project" });
+    return false;
+  }
+  return true;
+};
+
+// Stored reports for a project's documents, without asking GitHub
+app.get('/api/docs-drift/projects/:projectId', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeDriftProject(res, userId, req.params.projectId)) return;
+    const { listProjectDrift } = await import('./services/docsDrift.js');
+    res.json({ success: true, reports: await listProjectDrift(db, req.params.projectId) });
+  } catch (error) {
+    logger.error('❌ Docs drift list error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to read drift reports' });
+  }
+});
+
+// Check every document of a project against the head of its repository
+app.post('/api/docs-drift/projects/:projectId/check', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeDriftProject(res, userId, req.params.projectId)) return;
+    const { checkProjectDrift } = await import('./services/docsDrift.js');
+    const reports = await checkProjectDrift(db, req.params.projectId, { force: req.body?.force === true });
+    res.json({ success: true, reports });
+  } catch (error) {
+    logger.error('❌ Docs drift project check error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to check documents for drift' });
+  }
+});
+
+app.post('/api/docs-drift/documents/:documentId/check', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeDriftDocument(res, userId, req.params.documentId)) return;
+    const { checkDocumentDrift } = await import('./services/docsDrift.js');
+    const report = await checkDocumentDrift(db, req.params.documentId, { force: req.body?.force === true });
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('❌ Docs drift check error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to check the document for drift' });
+  }
+});
+
+// Record that the document matches the repository at a commit (the last checked head by default)
+app.post('/api/docs-drift/documents/:documentId/verify', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeDriftDocument(res, userId, req.params.documentId)) return;
+    const { verifyDocument } = await import('./services/docsDrift.js');
+    const revision = typeof req.body?.revision === 'string' && /^[0-9a-f]{40}$/.test(req.body.revision) ? req.body.revision : null;
+    const report = await verifyDocument(db, req.params.documentId, revision);
+    logger.info(`✅ Document ${req.params.documentId} verified at ${report?.headRevision?.substring(0, 7)}`);
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('❌ Docs drift verify error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to verify the document' });
+  }
+});
+
+// Clear one flagged section after it was reviewed or patched
+app.post('/api/docs-drift/documents/:documentId/resolve', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  if (typeof req.body?.path !== 'string') {
+    return res.status(400).json({ success: false, error: 'path is required' });
+  }
+
+  try {
+    if (!await authorizeDriftDocument(res, userId, req.params.documentId)) return;
+    const { resolveDriftSection } = await import('./services/docsDrift.js');
+    const report = await resolveDriftSection(db, req.params.documentId, req.body.path);
+    if (!report) {
+      return res.status(404).json({ success: false, error: 'This document has not been checked for drift' });
+    }
+    res.json({ success: true, report });
+  } catch (error) {
+    logger.error('❌ Docs drift resolve error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to resolve the section' });
+  }
+});
+
+// AI rewrite of one flagged section; the client previews it before anything is applied
+app.post('/api/docs-drift/documents/:documentId/patch', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  const { documentId } = req.params;
+  const sectionId = typeof req.body?.sectionId === 'string' && req.body.sectionId ? req.body.sectionId : null;
+  const content = typeof req.body?.content === 'string' ? req.body.content : null;
+
+  try {
+    const data = await authorizeDriftDocument(res, userId, documentId);
+    if (!data) return;
+    if (await rejectOverQuota(res, { userId, projectId: data.Project_Id, documentId })) {
+      return;
+    }
+
+    const { proposeSectionPatch } = await import('./services/docsDrift.js');
+    const patch = await proposeSectionPatch(db, documentId, sectionId, content, async (prompt, maxOutputTokens) => {
+      const result = await generateWithLLM({
+        model: 'gemini-2.5-pro',
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: { maxOutputTokens },
+        projectId: data.Project_Id,
+        documentId,
+        userId,
+        feature: 'generate',
+      });
+      return result.text || '';
+    });
+    if (typeof patch === 'string') {
+      return res.status(409).json({ success: false, error: patch });
+    }
+    res.json({ success: true, patch });
+  } catch (error) {
+    logger.error('❌ Docs drift patch error:', error);
+    res.status(errorStatus(error) || 500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to propose a patch' });
+  }
+});
+
+// ============================================================================
+// GITHUB SYNC ENDPOINTS
+// ============================================================================
+
+// Documents mapped to Markdown files in the project's repository: publishing opens a
+// pull request through the GitHub App, and upstream edits come back for the editor
+// to preview. The client converts between editor HTML and Markdown.
+
+// The app's installation token reaches a repository only when it is in one of the caller's own
+// installations, checked against their verified GitHub login; otherwise sync uses the caller's token.
+const repositoryTokensFor = (userId: string) => async (owner: string, repo: string): Promise<string | null> => {
+  const {installationForRepository} = await import("./services/githubWebhooks.js");
+  const {readGitHubLogin, readGitHubToken} = await import("./services/githubAccess.js");
+  const installationId = await installationForRepository(db, await readGitHubLogin(db, userId), owner, repo);
+  if (installationId === null) {
+    return readGitHubToken(db, userId);
+  }
+  const auth = await getGitHubAuth()({type: "installation", installationId});
+  return auth.token;
+};
+
+const authorizeSyncProject = async (res: express.Response, userId: string, projectId: string): Promise<boolean> => {
+  const project = await db.collection('Projects').doc(projectId).get();
+  if (!project.exists) {
+    res.status(404).json({ success: false, error: 'Project not found' });
+    return false;
+  }
+  if (project.data()?.User_Id !== userId) {
+    res.status(403).json({ success: false, error: "You don't have permission to sync this project" });
+    return false;
+  }
+  return true;
+};
+
+// Documents are open to the owner of their project and to their author
+const authorizeSyncDocument = async (res: express.Response, userId: string, documentId: string): Promise<boolean> => {
+  const data = (await db.collection('Documents').doc(documentId).get()).data();
+  if (!data) {
+    res.status(404).json({ success: false, error: 'Document not found' });
+    return false;
+  }
+  const project = data.Project_Id ? (await db.collection('Projects').doc(data.Project_Id).get()).data() : undefined;
+  if (project?.User_Id !== userId && data.User_Id !== userId) {
+    res.status(403).json({ success: false, error: "You don't have permission to sync this document" });
+    return false;
+  }
+  return true;
+};
+
+app.get('/api/github-sync/projects/:projectId', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeSyncProject(res, userId, req.params.projectId)) return;
+    const { listProjectSync } = await import('./services/githubSync.js');
+    const sync = await listProjectSync(db, req.params.projectId, repositoryTokensFor(userId));
+    res.json({ success: true, ...sync });
+  } catch (error) {
+    logger.error('❌ GitHub sync status error:', error);
+    res.status(errorStatus(error) || 500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to read the sync status' });
+  }
+});
+
+// Map documents to Markdown paths; a null or empty path removes the mapping
+app.put('/api/github-sync/projects/:projectId/mappings', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  if (!Array.isArray(req.body?.mappings)) {
+    return res.status(400).json({ success: false, error: 'mappings must be an array' });
+  }
+
+  try {
+    const { normalizeSyncPath, setProjectMappings } = await import('./services/githubSync.js');
+    const mappings: Array<{ documentId: string; path: string | null }> = [];
+    for (const mapping of req.body.mappings) {
+      if (typeof mapping?.documentId !== 'string' || !mapping.documentId) {
+        return res.status(400).json({ success: false, error: 'Each mapping needs a documentId' });
+      }
+      const path = mapping.path ? normalizeSyncPath(mapping.path) : null;
+      if (mapping.path && !path) {
+        return res.status(400).json({ success: false, error: `${mapping.path} is not a relative path to a .md file` });
+      }
+      mappings.push({ documentId: mapping.documentId, path });
+    }
+
+    if (!await authorizeSyncProject(res, userId, req.params.projectId)) return;
+    const error = await setProjectMappings(db, req.params.projectId, mappings);
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('❌ GitHub sync mapping error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to save the mappings' });
+  }
+});
+
+// Commit the documents' Markdown to a branch and open a pull request
+app.post('/api/github-sync/projects/:projectId/publish', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  const documents: unknown = req.body?.documents;
+  const isPublishedDocument = (document: unknown): document is { documentId: string; markdown: string } =>
+    typeof (document as { documentId?: unknown } | null)?.documentId === 'string'
+    && typeof (document as { markdown?: unknown } | null)?.markdown === 'string';
+  if (!Array.isArray(documents) || !documents.every(isPublishedDocument)) {
+    return res.status(400).json({ success: false, error: 'documents must list { documentId, markdown }' });
+  }
+
+  try {
+    if (!await authorizeSyncProject(res, userId, req.params.projectId)) return;
+    const { publishDocuments } = await import('./services/githubSync.js');
+    const result = await publishDocuments(
+      db,
+      req.params.projectId,
+      documents.map((document) => ({ documentId: document.documentId, markdown: document.markdown })),
+      repositoryTokensFor(userId),
+      { title: typeof req.body?.title === 'string' ? req.body.title.substring(0, 200) : null }
+    );
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('❌ GitHub sync publish error:', error);
+    res.status(errorStatus(error) || 500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to publish the documents' });
+  }
+});
+
+// A document's sync state, with the upstream Markdown when the file changed
+app.get('/api/github-sync/documents/:documentId', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  try {
+    if (!await authorizeSyncDocument(res, userId, req.params.documentId)) return;
+    const { getDocumentSync } = await import('./services/githubSync.js');
+    const result = await getDocumentSync(db, req.params.documentId, repositoryTokensFor(userId));
+    res.json({ success: true, sync: result?.sync || null, upstream: result?.upstream || null });
+  } catch (error) {
+    logger.error('❌ GitHub sync document error:', error);
+    res.status(errorStatus(error) || 500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to read the sync status' });
+  }
+});
+
+// Record that the editor applied the upstream file
+app.post('/api/github-sync/documents/:documentId/pulled', async (req, res) => {
+  const userId = await authenticateRequest(req, res);
+  if (!userId) return;
+
+  const isSha = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{40}$/.test(value);
+  if (!isSha(req.body?.sha)) {
+    return res.status(400).json({ success: false, error: 'sha is required' });
+  }
+
+  try {
+    if (!await authorizeSyncDocument(res, userId, req.params.documentId)) return;
+    const { markDocumentPulled } = await import('./services/githubSync.js');
+    const sync = await markDocumentPulled(db, req.params.documentId, req.body.sha, isSha(req.body.revision) ? req.body.revision : null);
+    if (!sync) {
+      return res.status(404).json({ success: false, error: 'This document is not synced with GitHub' });
+    }
+    res.json({ success: true, sync });
+  } catch (error) {
+    logger.error('❌ GitHub sync pull error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to record the pull' });
+  }
+});
+
+// ============================================================================
+// DOCUMENT HISTORY & CHAT ENDPOINTS
+// PROFILE MANAGEMENT ENDPOINTS
+// ============================================================================
+
+// Update user profile
+app.put('/api/profile/edit', async (req, res) => {
+  try {
+    logger.info('✏️ PUT /api/profile/edit received:', req.body);
+    const { userId, UserName, UserEmail, currentPassword, newPassword } = req.body;
+
+    // Validate required fields
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+
+    // Find the user by User_Id
+    const querySnapshot = await db.collection('Users')
+      .where('User_Id', '==', userId)
+      .get();
+
+    if (querySnapshot.empty) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const userDoc = querySnapshot.docs[0];
+    const userData = userDoc.data();
+
+    // If password is being changed, verify current password
+    if (newPassword && currentPassword) {
+      if (userData.UserPw !== currentPassword) {
+        return res.status(401).json({ error: 'Current password is incorrect' });
+      }
+    }
+
+    // Prepare update data
+    const updateData: any = {};
+    if (UserName) updateData.UserName = UserName;
+    if (UserEmail) updateData.UserEmail = UserEmail;
+    if (newPassword) updateData.UserPw = newPassword; // In production, hash this!
+
+    // Update the user document
+    await userDoc.ref.update(updateData);
+
+    // Return updated user data (without password)
+    const updatedUser = { ...userData, ...updateData };
+    const { UserPw: _, ...userResponse } = updatedUser;
 
     logger.info('✅ Profile updated successfully for user:', userId);
     res.json({
@@ -1982,7 +3020,8 @@ app.get("/api/document/editor/content/:docId", async (req, res) => {
     const docSnap = await db.collection("Documents").doc(docId).get();
 
     if (!docSnap.exists) return res.status(404).json({ error: "NOT_FOUND" });
-    res.json({ id: docSnap.id, ...docSnap.data() });
+    const data = docSnap.data();
+    res.json({ id: docSnap.id, ...data, Content: await readDocumentContent(db, docId, data) });
   } catch (err) {
     logger.error("Error fetching document content:", err);
     res.status(500).json({ error: "SERVER_ERROR" });
@@ -1993,22 +3032,58 @@ app.get("/api/document/editor/content/:docId", async (req, res) => {
 app.put("/api/document/editor/content/:docId", async (req, res) => {
   try {
     const { docId } = req.params;
-    const { content, isDraft } = req.body;
-
-    const updateData: any = {
-      Content: content,
-      IsDraft: isDraft,
-      Updated_Time: admin.firestore.Timestamp.now(),
-    };
+    const { content, isDraft, EditedBy } = req.body || {};
+    if (typeof content !== "string") {
+      return res.status(400).json({ error: "content must be a string" });
+    }
+    const writeBase = readWriteBase(req.body);
+    const docRef = db.collection("Documents").doc(docId);
+
+    let docData: admin.firestore.DocumentData | undefined;
+    let found = true;
+    let conflict = false;
+    let newVersion = 0;
+    await db.runTransaction(async (t) => {
+      const docSnap = await t.get(docRef);
+      if (!docSnap.exists) {
+        found = false;
+        return;
+      }
+      docData = docSnap.data();
+      if (isStaleWrite(docData, writeBase)) {
+        conflict = true;
+        return;
+      }
+      newVersion = (docData?.version || 0) + 1;
+      t.update(docRef, {
+        ...buildContentWrite(t, db, docId, content, docData),
+        ...(typeof isDraft === "boolean" ? { IsDraft: isDraft } : {}),
+        Updated_Time: admin.firestore.Timestamp.now(),
+        Hash: hashJSON(content),
+        version: newVersion,
+      });
+    });
 
-    // Add hash if crypto is available
-    if (content) {
-      updateData.Hash = "sha256:" + crypto.createHash("sha256").update(JSON.stringify(content)).digest("hex");
+    if (!found) {
+      return res.status(404).json({ error: "NOT_FOUND" });
+    }
+    if (conflict) {
+      const currentContent = await readDocumentContent(db, docId, docData);
+      return res.status(409).json(buildConflictResponse(docId, docData, currentContent));
     }
 
-    await db.collection("Documents").doc(docId).update(updateData);
+    try {
+      await addHistoryEntry(db, docId, content, {
+        Version: newVersion,
+        CreatedAt: admin.firestore.Timestamp.now(),
+        EditedBy: EditedBy || docData?.EditedBy || "anonymous",
+        Channel: "content",
+      });
+    } catch (historyError) {
+      logger.error("❌ Failed to save version history:", historyError);
+    }
 
-    res.json({ status: "ok" });
+    res.json({ status: "ok", version: newVersion });
   } catch (err) {
     logger.error("Error updating document content:", err);
     res.status(500).json({ error: "SERVER_ERROR" });
@@ -2022,6 +3097,7 @@ app.delete("/api/document/:docId", async (req, res) => {
 
     // Delete the document
     await db.collection("Documents").doc(docId).delete();
+    await deleteDocumentChunks(db, docId);
 
     // Cleanup related records
     const batch = db.batch();
@@ -2032,6 +3108,9 @@ app.delete("/api/document/:docId", async (req, res) => {
     const histSnap = await db.collection("DocumentHistory").where("Document_Id", "==", docId).get();
     histSnap.forEach((d) => batch.delete(d.ref));
 
+    batch.delete(db.collection("DocumentDrift").doc(docId));
+    batch.delete(db.collection("DocumentSync").doc(docId));
+
     await batch.commit();
 
     res.json({ status: "deleted", docId });
@@ -2053,7 +3132,11 @@ app.get("/api/document/editor/history/:docId", async (req, res) => {
       .get();
 
     logger.info('📊 Found', historySnapshot.docs.length, 'versions matching docId:', docId);
-    const versions = historySnapshot.docs.map((d) => ({ id: d.id, ...d.data() }));
+    const versions = await Promise.all(historySnapshot.docs.map(async (d) => ({
+      id: d.id,
+      ...d.data(),
+      Content: await readHistoryContent(db, d.data()),
+    })));
     res.json({ versions });
   } catch (err) {
     logger.error('❌ Error fetching version history:', err);
@@ -2079,7 +3162,10 @@ app.post("/api/document/history", async (req, res) => {
       Edited_Time: Edited_Time || new Date().toISOString()
     };
 
-    const historyRef = await db.collection("DocumentHistory").add(historyData);
+    const historyRef = await addHistoryEntry(db, Document_Id, Content, {
+      Version,
+      Edited_Time: historyData.Edited_Time
+    });
 
     logger.info('✅ Document history saved with ID:', historyRef.id);
     res.status(201).json({
@@ -2339,68 +3425,112 @@ app.get('/api/link-preview', async (req, res) => {
 });
 
 // ============================================================================
-// MCP TEST ENDPOINTS
+// MCP SERVER (STREAMABLE HTTP)
 // ============================================================================
 
-// POST /api/mcp/document - Load a document by ID
-app.post('/api/mcp/document', async (_req, res) => {
-  res.status(410).json({ success: false, error: 'MCP disabled' });
-});
-
-// GET /api/mcp/tools - Get all available MCP tools
-app.get('/api/mcp/tools', async (_req, res) => {
-  res.status(410).json({ success: false, error: 'MCP disabled' });
-});
-
-// POST /api/mcp/generate - Test generation with MCP tools
-app.post('/api/mcp/generate', async (_req, res) => {
-  res.status(410).json({ success: false, error: 'MCP disabled' });
-});
+// POST /api/mcp - MCP endpoint for external clients, scoped to the authenticated user.
+// Stateless: every request gets its own server and transport, so any instance can serve it.
+app.post('/api/mcp', async (req, res) => {
+  const { authenticateMcpRequest } = await import('./MCP/mcpAuth.js');
+  const userId = await authenticateMcpRequest(db, req.headers.authorization);
+  if (!userId) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({
+      jsonrpc: '2.0',
+      error: { code: -32001, message: 'Unauthorized: send a Dotivra access token or Firebase ID token as a Bearer token' },
+      id: null
+    });
+  }
 
-// POST /api/mcp/set-document - Set current document context
-/* MCP removed
-app.post('/api/mcp/set-document', async (req, res) => {
   try {
-    const { documentId } = req.body;
+    const { StreamableHTTPServerTransport } = await import('@modelcontextprotocol/sdk/server/streamableHttp.js');
+    const { createUserMcpServer } = await import('./MCP/userMcpServer.js');
+    const server = createUserMcpServer({ firestore: db, userId });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
 
-    if (!documentId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Document ID is required'
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    logger.error('❌ MCP request error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: error?.message || 'Internal server error' },
+        id: null
       });
     }
+  }
+});
 
-    if (!geminiWithMcp) {
-      return res.status(503).json({
-        success: false,
-        error: 'MCP not initialized'
-      });
-    }
+// Sessions and server-initiated streams need sticky state, which this endpoint does not keep
+const mcpMethodNotAllowed = (_req: express.Request, res: express.Response) => {
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed' },
+    id: null
+  });
+};
+app.get('/api/mcp', mcpMethodNotAllowed);
+app.delete('/api/mcp', mcpMethodNotAllowed);
 
-    logger.info(`📄 Setting document context: ${documentId}`);
-    const result = await geminiWithMcp.setDocument(documentId);
+// MCP access tokens are managed from the web app with the user's Firebase ID token
+// GET /api/mcp/tokens - List the user's access tokens (never the token values)
+app.get('/api/mcp/tokens', async (req, res) => {
+  try {
+    const { verifyFirebaseUser, listMcpTokens } = await import('./MCP/mcpAuth.js');
+    const userId = await verifyFirebaseUser(req.headers.authorization);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Sign in required' });
+    }
+    res.json({ success: true, tokens: await listMcpTokens(db, userId) });
+  } catch (error) {
+    logger.error('❌ MCP token list error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to load access tokens' });
+  }
+});
 
-    res.json({
-      success: true,
-      documentId,
-      documentName: result.documentName || '',
-      contentLength: result.content?.length || 0
-    });
+// POST /api/mcp/tokens - Create an access token; the value is only returned here
+app.post('/api/mcp/tokens', async (req, res) => {
+  try {
+    const { verifyFirebaseUser, createMcpToken } = await import('./MCP/mcpAuth.js');
+    const userId = await verifyFirebaseUser(req.headers.authorization);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Sign in required' });
+    }
+    const name = typeof req.body?.name === 'string' && req.body.name.trim()
+      ? req.body.name.trim().slice(0, 80)
+      : 'MCP client';
+    const { token, info } = await createMcpToken(db, userId, name);
+    res.status(201).json({ success: true, token, info });
   } catch (error) {
-    logger.error('❌ Error setting document:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to set document',
-      details: (error as Error).message
-    });
+    logger.error('❌ MCP token create error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to create access token' });
   }
 });
 
-// GET /api/mcp/health - System health check
-app.get('/api/mcp/health', (req, res) => {
-  res.json({ success: false, error: 'MCP disabled' });
+// DELETE /api/mcp/tokens/:tokenId - Revoke an access token
+app.delete('/api/mcp/tokens/:tokenId', async (req, res) => {
+  try {
+    const { verifyFirebaseUser, revokeMcpToken } = await import('./MCP/mcpAuth.js');
+    const userId = await verifyFirebaseUser(req.headers.authorization);
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Sign in required' });
+    }
+    const revoked = await revokeMcpToken(db, userId, req.params.tokenId);
+    if (!revoked) {
+      return res.status(404).json({ success: false, error: 'Access token not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('❌ MCP token revoke error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to revoke access token' });
+  }
 });
-*/
 
 // ============================================================================
 // DOCUMENT TOOLS EXECUTION API
@@ -2412,6 +3542,8 @@ app.post('/api/tools/execute', async (req, res) => {
     logger.info('🔧 Tool execution request received');
 
     const { tool, args, documentId } = req.body;
+    // Recorded in the tool audit log, so only a verified caller counts
+    const userId = await requestUserId(req);
 
     if (!tool) {
       return res.status(400).json({
@@ -2450,6 +3582,17 @@ app.post('/api/tools/execute', async (req, res) => {
       }
     }
 
+    // Block-addressed tools need either a block ID or a heading path
+    const needsBlockTarget = tool === 'get_document_block' || tool === 'insert_document_block' || tool === 'replace_document_block' || tool === 'remove_document_block';
+    if (needsBlockTarget) {
+      const hasBlockId = typeof args?.blockId === 'string' && args.blockId.trim().length > 0;
+      const hasPath = typeof args?.path === 'string' && args.path.trim().length > 0;
+      if (!hasBlockId && !hasPath) {
+        const errorHtml = `<div class="error-message">Missing block target. Provide { blockId } from get_document_outline or a heading { path } such as "Installation > paragraph 3".</div>`;
+        return res.status(400).json({ success: false, html: errorHtml, tool });
+      }
+    }
+
     logger.info(`🔧 Executing tool: ${tool}`);
     logger.info(`📄 Document ID: ${documentId || 'NOT_SET'}`);
     logger.info(`📋 Args:`, JSON.stringify(args, null, 2));
@@ -2457,25 +3600,26 @@ app.post('/api/tools/execute', async (req, res) => {
     // Import toolService
     const toolService = await import('./services/toolService.js');
 
-    // Set document context if documentId provided
-    if (documentId && documentId !== 'NOT_SET') {
-      try {
-        logger.info(`📂 Setting current document context: ${documentId}`);
-        await toolService.setCurrentDocument(documentId);
-        logger.info(`✅ Document context set successfully`);
-      } catch (error: any) {
-        logger.error(`❌ Failed to set document context:`, error);
-        return res.status(500).json({
-          success: false,
-          html: `<div class="error-message">Sorry, we couldn't load your document. Please try again.</div>`
-        });
+    // Each request gets its own session so concurrent agents never share a document
+    let toolSession;
+    try {
+      const sessionDocumentId = documentId && documentId !== 'NOT_SET' ? documentId : null;
+      if (sessionDocumentId) {
+        logger.info(`📂 Opening tool session for document: ${sessionDocumentId}`);
       }
+      toolSession = await toolService.openToolSession({ documentId: sessionDocumentId, userId });
+    } catch (error) {
+      logger.error(`❌ Failed to load document for tool session:`, error);
+      return res.status(500).json({
+        success: false,
+        html: `<div class="error-message">Sorry, we couldn't load your document. Please try again.</div>`
+      });
     }
 
     // Execute the tool
     let result;
     try {
-      result = await toolService.executeTool(tool, args);
+      result = await toolService.executeTool(tool, args, toolSession);
       logger.info(`✅ Tool executed successfully: ${tool}`);
       logger.info(`📊 Result:`, JSON.stringify(result, null, 2));
     } catch (toolError: any) {
@@ -2527,6 +3671,167 @@ app.post('/api/tools/execute', async (req, res) => {
   }
 });
 
+// POST /api/tools/batch - Run several tools as one transaction
+// action: 'begin' | 'apply' | 'commit' | 'rollback'; omit it to begin, apply and commit in one call
+app.post('/api/tools/batch', async (req, res) => {
+  try {
+    const { action, documentId, transactionId, operations, editedBy } = req.body;
+    const userId = await requestUserId(req);
+
+    const needsOperations = !action || action === 'apply';
+    if (needsOperations) {
+      const validOperations = Array.isArray(operations) && operations.length > 0 &&
+        operations.every((op: { tool?: unknown; args?: unknown } | null) => op && typeof op.tool === 'string' && (op.args === undefined || typeof op.args === 'object'));
+      if (!validOperations) {
+        return res.status(400).json({
+          success: false,
+          html: `<div class="error-message">Sorry, the batch needs a list of operations like [{ tool, args }]. Please try again.</div>`
+        });
+      }
+    }
+
+    const needsTransaction = action === 'apply' || action === 'commit' || action === 'rollback';
+    if (needsTransaction && !transactionId) {
+      return res.status(400).json({
+        success: false,
+        html: `<div class="error-message">Sorry, no transaction was specified. Please try again.</div>`
+      });
+    }
+
+    if ((!action || action === 'begin') && (!documentId || documentId === 'NOT_SET')) {
+      return res.status(400).json({
+        success: false,
+        html: `<div class="error-message">Sorry, a document is required to start a batch of edits.</div>`
+      });
+    }
+
+    logger.info(`🧾 Tool batch request: ${action || 'execute'} ${transactionId || documentId}`);
+
+    const toolService = await import('./services/toolService.js');
+
+    let result;
+    switch (action) {
+      case 'begin':
+        result = await toolService.beginToolTransaction(documentId, userId || null);
+        break;
+      case 'apply':
+        result = await toolService.applyToolTransaction(transactionId, operations);
+        break;
+      case 'commit':
+        result = await toolService.commitToolTransaction(transactionId, { editedBy });
+        break;
+      case 'rollback':
+        result = await toolService.rollbackToolTransaction(transactionId);
+        break;
+      case undefined:
+        result = await toolService.executeToolBatch(documentId, operations, { editedBy, userId });
+        break;
+      default:
+        return res.status(400).json({
+          success: false,
+          html: `<div class="error-message">Unknown batch action "${action}". Use begin, apply, commit or rollback.</div>`
+        });
+    }
+
+    if (result?.conflict) {
+      return res.status(409).json(result);
+    }
+    if (result?.notFound) {
+      return res.status(404).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error('❌ Tool batch endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Tool batch failed',
+      html: `<div class="error-message">Sorry, something went wrong while saving your edits. Please try again.</div>`
+    });
+  }
+});
+
+// GET /api/tools/audit - Query the persistent tool audit log
+// Filters: documentId, userId, tool, from/to (ISO timestamps), limit
+// A document's log is open to its author and the owner of its project; without
+// a documentId only the caller's own tool calls are returned.
+app.get('/api/tools/audit', async (req, res) => {
+  const callerId = await authenticateRequest(req, res);
+  if (!callerId) return;
+
+  try {
+    const readParam = (name: string): string | undefined => {
+      const value = Array.isArray(req.query[name]) ? req.query[name][0] : req.query[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+
+    const documentId = readParam('documentId');
+    const userId = readParam('userId') || (documentId ? undefined : callerId);
+    if (!documentId && userId !== callerId) {
+      return res.status(403).json({ success: false, error: "You can only read your own tool activity" });
+    }
+    if (documentId) {
+      const data = (await db.collection('Documents').doc(documentId).get()).data();
+      if (!data) {
+        return res.status(404).json({ success: false, error: 'Document not found' });
+      }
+      const project = data.Project_Id ? (await db.collection('Projects').doc(data.Project_Id).get()).data() : undefined;
+      if (project?.User_Id !== callerId && data.User_Id !== callerId) {
+        return res.status(403).json({ success: false, error: "You don't have permission to read this document's tool activity" });
+      }
+    }
+
+    const from = readParam('from');
+    const to = readParam('to');
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ success: false, error: 'from and to must be valid ISO timestamps' });
+    }
+
+    const limit = readParam('limit');
+    const { queryToolAudit } = await import('./services/toolAudit.js');
+    const records = await queryToolAudit(db, {
+      documentId,
+      userId,
+      tool: readParam('tool'),
+      from: fromDate,
+      to: toDate,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined
+    });
+
+    res.json({ success: true, count: records.length, records });
+  } catch (error) {
+    logger.error('❌ Tool audit query error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to load tool audit log' });
+  }
+});
+
+// GET /api/usage - Monthly token usage, estimated cost and quota for the caller
+// Query: month (YYYY-MM, defaults to the current UTC month)
+app.get('/api/usage', async (req, res) => {
+  try {
+    const userId = await authenticateRequest(req, res);
+    if (!userId) return;
+
+    const requested = typeof req.query.userId === 'string' ? req.query.userId.trim() : '';
+    if (requested && requested !== userId) {
+      return res.status(403).json({ success: false, error: 'Usage can only be read for your own account' });
+    }
+    const month = typeof req.query.month === 'string' ? req.query.month.trim() : undefined;
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      return res.status(400).json({ success: false, error: 'month must be in YYYY-MM format' });
+    }
+
+    const { getUserUsageSummary } = await import('./services/usageService.js');
+    const usage = await getUserUsageSummary(db, userId, month);
+    res.json({ success: true, usage });
+  } catch (error) {
+    logger.error('❌ Usage summary error:', error);
+    res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Failed to load usage' });
+  }
+});
+
 
 // ============================================================================
 // WEBSOCKET SERVER FOR REAL-TIME DOCUMENT COLLABORATION
@@ -2564,14 +3869,15 @@ app.get('/api/document/editor/history/:docId', async (req, res) => {
 
     logger.info('📊 Found', snapshot.size, 'versions matching docId:', docId);
     
-    const versions = snapshot.docs.map(doc => {
+    const versions = await Promise.all(snapshot.docs.map(async doc => {
       const data = doc.data();
       return {
         id: doc.id,
         ...data,
+        Content: await readHistoryContent(db, data),
         CreatedAt: data.CreatedAt?.toDate?.()?.toISOString() || new Date().toISOString()
       };
-    });
+    }));
     
     res.json({ versions });
   } catch (error) {
@@ -2771,6 +4077,7 @@ app.get('/api/document/editor/content/:docId', async (req, res) => {
     res.json({ 
       id: docSnap.id, 
       ...data,
+      Content: await readDocumentContent(db, docId, data),
       Created_Time: data?.Created_Time?.toDate?.()?.toISOString() || new Date().toISOString(),
       Updated_Time: data?.Updated_Time?.toDate?.()?.toISOString() || new Date().toISOString()
     });
@@ -2780,53 +4087,6 @@ app.get('/api/document/editor/content/:docId', async (req, res) => {
   }
 });
 
-// Update document content
-app.put('/api/document/editor/content/:docId', async (req, res) => {
-  try {
-    const { docId } = req.params;
-    const { content, isDraft, EditedBy } = req.body;
-
-    const docRef = db.collection('Documents').doc(docId);
-    const doc = await docRef.get();
-    
-    if (!doc.exists) {
-      return res.status(404).json({ error: 'Document not found' });
-    }
-    
-    const docData = doc.data();
-    const currentVersion = docData?.version || 0;
-    const newVersion = currentVersion + 1;
-
-    await docRef.update({
-      Content: content,
-      IsDraft: isDraft,
-      Updated_Time: admin.firestore.Timestamp.now(),
-      Hash: hashJSON(content),
-      version: newVersion,
-    });
-
-    // ✅ Save version to DocumentHistory
-    try {
-      await db.collection('DocumentHistory').add({
-        Document_Id: docId,
-        Content: content,
-        Version: newVersion,
-        CreatedAt: admin.firestore.Timestamp.now(),
-        EditedBy: EditedBy || docData?.EditedBy || 'anonymous',
-        Channel: 'content',
-      });
-      logger.info(`📚 Version ${newVersion} saved to DocumentHistory for document ${docId}`);
-    } catch (historyError) {
-      logger.error('❌ Failed to save version history:', historyError);
-    }
-
-    res.json({ status: 'ok', version: newVersion });
-  } catch (error) {
-    logger.error('Error updating document content:', error);
-    res.status(500).json({ error: 'SERVER_ERROR' });
-  }
-});
-
 // Get all documents for a project
 app.get('/api/project/:projectId/documents', async (req, res) => {
   try {
@@ -3085,9 +4345,7 @@ app.post('/api/document/save-version/:documentId', async (req, res) => {
     logger.info(`📊 Current document version: ${version}`);
 
     // Save to DocumentHistory with Edited_Time (not CreatedAt!)
-    await db.collection('DocumentHistory').add({
-      Document_Id: documentId,
-      Content: content,
+    await addHistoryEntry(db, documentId, content, {
       Version: version,
       Edited_Time: admin.firestore.Timestamp.now(), // ✅ Use Edited_Time to match frontend
       EditedBy: editedBy || docData?.EditedBy || docData?.Created_by || 'anonymous',
@@ -3134,3 +4392,93 @@ export const api = onRequest(
   },
   app
 );
+
+// Deletes images no document, history entry or template references any more
+export const assetGc = onSchedule(
+  {
+    schedule: 'every 24 hours',
+    memory: '512MiB',
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const { collectOrphanedAssets } = await import('./services/assetService.js');
+    await collectOrphanedAssets(db, admin.storage().bucket(process.env.ASSETS_BUCKET || undefined));
+  }
+);
+
+// Works a template generation job whenever it becomes queued: on creation, on resume,
+// after an automatic retry, and when a run hands over before its timeout
+export const generationJobRunner = onDocumentWritten(
+  {
+    document: 'GenerationJobs/{jobId}',
+    secrets: [
+      'VITE_GEMINI_API_KEY',
+      'GEMINI_API_KEYS',
+      'GEMINI_LIMIT_RPM',
+      'GEMINI_LIMIT_RPD',
+      'GEMINI_LIMIT_TPM'
+    ],
+    memory: '1GiB',
+    timeoutSeconds: 540,
+  },
+  async (event) => {
+    const job = event.data?.after.data();
+    if (!job || job.Status !== 'queued') {
+      return;
+    }
+
+    const { runGenerationJob, quotaExceededError } = await import('./services/generationJobs.js');
+    await runGenerationJob(db, event.params.jobId, {
+      generate: async (prompt, maxOutputTokens) => {
+        const quota = await checkUsageQuota(db, { userId: job.User_Id, projectId: job.Project_Id });
+        if (!quota.allowed) {
+          throw quotaExceededError(quota.message || 'Usage quota exceeded');
+        }
+        const result = await generateWithLLM({
+          model: 'gemini-2.5-pro',
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          generationConfig: { maxOutputTokens },
+          projectId: job.Project_Id,
+          userId: job.User_Id,
+          feature: 'template',
+        });
+        return result.text || '';
+      },
+    });
+  }
+);
+
+// Checks the projects linked to a repository for drift when a webhook records a new head
+export const repositoryPushRunner = onDocumentWritten(
+  {
+    document: 'GitHubRepositories/{repositoryId}',
+    memory: '1GiB',
+    timeoutSeconds: 540,
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!after || before?.Head_Revision === after.Head_Revision) {
+      return;
+    }
+
+    const { checkLinkedProjects } = await import('./services/githubWebhooks.js');
+    const checked = await checkLinkedProjects(db, after.Repository);
+    logger.info(`🔁 ${after.Repository} moved to ${String(after.Head_Revision).substring(0, 7)}; checked ${checked} linked projects`);
+  }
+);
+
+// Requeues generation jobs whose instance died mid-run
+export const generationJobSweep = onSchedule(
+  {
+    schedule: 'every 10 minutes',
+    memory: '256MiB',
+  },
+  async () => {
+    const { recoverStalledJobs } = await import('./services/generationJobs.js');
+    const recovered = await recoverStalledJobs(db);
+    if (recovered > 0) {
+      logger.info(`🔁 Recovered ${recovered} stalled generation jobs`);
+    }
+  }
+);
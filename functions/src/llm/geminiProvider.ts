@@ -0,0 +1,206 @@
+/**
+ * Gemini Provider
+ * Google Gemini through @google/genai, one client per API key and endpoint
+ */
+
+import {
+  Content,
+  FunctionCall,
+  FunctionDeclaration,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  GoogleGenAI,
+  Part
+} from '@google/genai';
+import { LLMMessage, LLMProvider, LLMRequest, LLMToolCall, LLMUsage, emptyUsage } from './types';
+
+const clients = new Map<string, GoogleGenAI>();
+
+// The Gemini API usually omits call ids; generated ones are stripped before they go back
+const SYNTHETIC_ID_PREFIX = 'gemini-call-';
+const syntheticId = (index: number): string => `${SYNTHETIC_ID_PREFIX}${index + 1}`;
+const nativeId = (id: string | undefined): string | undefined => (id && !id.startsWith(SYNTHETIC_ID_PREFIX) ? id : undefined);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// GEMINI_API_BASE_URL points the clients at another endpoint, e.g. a local fake server in tests
+const getClient = (apiKey: string): GoogleGenAI => {
+  const baseUrl = process.env.GEMINI_API_BASE_URL || undefined;
+  const cacheKey = `${baseUrl || ''}\n${apiKey}`;
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+    clients.set(cacheKey, client);
+  }
+  return client;
+};
+
+/**
+ * Convert Gemini `contents` (as sent by the frontend) into provider-neutral messages.
+ * Function calls and responses are kept so tool transcripts survive the round trip.
+ */
+export const fromGeminiContents = (contents: Content[]): LLMMessage[] => {
+  const messages: LLMMessage[] = [];
+  for (const entry of contents || []) {
+    const parts: Part[] = entry?.parts || [];
+    const text = parts.map((part) => part?.text).filter(Boolean).join('');
+    const calls = parts.filter((part) => part?.functionCall);
+    const responses = parts.filter((part) => part?.functionResponse);
+
+    if (responses.length) {
+      for (const part of responses) {
+        messages.push({
+          role: 'tool',
+          toolCallId: part.functionResponse.id || part.functionResponse.name,
+          name: part.functionResponse.name,
+          result: part.functionResponse.response
+        });
+      }
+    } else if (entry?.role === 'model') {
+      messages.push({
+        role: 'assistant',
+        content: text,
+        toolCalls: calls.map((part, index) => ({
+          id: part.functionCall.id || syntheticId(index),
+          name: part.functionCall.name,
+          args: part.functionCall.args || {}
+        })),
+        raw: parts
+      });
+    } else {
+      messages.push({ role: 'user', content: text });
+    }
+  }
+  return messages;
+};
+
+const toContents = (messages: LLMMessage[]): Content[] => {
+  const contents: Content[] = [];
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const part: Part = {
+        functionResponse: {
+          id: nativeId(message.toolCallId),
+          name: message.name,
+          // Gemini takes an object; other results are wrapped the way plain text is
+          response: isObject(message.result) ? message.result : { output: message.result ?? message.content ?? '' }
+        }
+      };
+      // Consecutive tool results go back to Gemini as one user turn
+      const previous = contents[contents.length - 1];
+      if (previous?.role === 'user' && previous.parts.every((p) => p.functionResponse)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const parts: Part[] = Array.isArray(message.raw) ? message.raw as Part[] : [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...(message.toolCalls || []).map((call) => ({ functionCall: { id: nativeId(call.id), name: call.name, args: call.args } }))
+      ];
+      contents.push({ role: 'model', parts });
+      continue;
+    }
+
+    contents.push({ role: 'user', parts: [{ text: message.content || '' }] });
+  }
+  return contents;
+};
+
+const toConfig = (request: LLMRequest): GenerateContentConfig => ({
+  systemInstruction: request.systemInstruction,
+  // Declarations are already in Gemini's format; only the schema type names are looser
+  tools: request.tools?.length ? [{ functionDeclarations: request.tools as FunctionDeclaration[] }] : undefined,
+  temperature: request.temperature,
+  topP: request.topP,
+  maxOutputTokens: request.maxOutputTokens,
+  responseMimeType: request.responseMimeType,
+  thinkingConfig: request.includeThoughts ? { includeThoughts: true } : undefined,
+  abortSignal: request.signal
+});
+
+const toUsage = (usageMetadata: GenerateContentResponseUsageMetadata | null | undefined): LLMUsage => {
+  if (!usageMetadata) {
+    return emptyUsage();
+  }
+  return {
+    promptTokens: usageMetadata.promptTokenCount ?? null,
+    completionTokens: usageMetadata.candidatesTokenCount ?? null,
+    totalTokens: usageMetadata.totalTokenCount ?? null
+  };
+};
+
+const toToolCall = (functionCall: FunctionCall, index: number): LLMToolCall => ({
+  id: functionCall.id || syntheticId(index),
+  name: functionCall.name,
+  args: functionCall.args || {}
+});
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  requiresKey: true,
+
+  generate: async (request, apiKey) => {
+    const response = await getClient(apiKey).models.generateContent({
+      model: request.model,
+      contents: toContents(request.messages),
+      config: toConfig(request)
+    });
+
+    const parts: Part[] = response?.candidates?.[0]?.content?.parts || [];
+    const text = parts.filter((part) => part.text && !part.thought).map((part) => part.text).join('');
+    const toolCalls = parts.filter((part) => part.functionCall).map((part, index) => toToolCall(part.functionCall, index));
+
+    return { text, toolCalls, usage: toUsage(response?.usageMetadata), raw: parts };
+  },
+
+  stream: async function* (request, apiKey) {
+    const stream = await getClient(apiKey).models.generateContentStream({
+      model: request.model,
+      contents: toContents(request.messages),
+      config: toConfig(request)
+    });
+
+    // Every part is kept (including thought signatures) so the turn can be replayed exactly
+    const parts: Part[] = [];
+    let usageMetadata: GenerateContentResponseUsageMetadata | null = null;
+    let callCount = 0;
+
+    for await (const chunk of stream) {
+      usageMetadata = chunk.usageMetadata || usageMetadata;
+      for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+        parts.push(part);
+        if (part.functionCall) {
+          yield { type: 'tool_call', call: toToolCall(part.functionCall, callCount++) };
+        } else if (part.text && part.thought) {
+          yield { type: 'reasoning', text: part.text };
+        } else if (part.text) {
+          yield { type: 'text', text: part.text };
+        }
+      }
+    }
+
+    yield { type: 'done', usage: toUsage(usageMetadata), raw: parts };
+  },
+
+  countTokens: async (request, apiKey) => {
+    const result = await getClient(apiKey).models.countTokens({
+      model: request.model,
+      contents: toContents(request.messages)
+    });
+    return result.totalTokens ?? 0;
+  },
+
+  embed: async (request, apiKey) => {
+    const result = await getClient(apiKey).models.embedContent({
+      model: request.model,
+      contents: request.texts,
+      config: { taskType: request.purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' }
+    });
+    return (result?.embeddings || []).map((embedding) => embedding.values || []);
+  }
+};
@@ -0,0 +1,323 @@
+/**
+ * Key Ring
+ * Spreads requests over one provider's API keys by weight, keeps per-model
+ * minute windows, and trips a circuit breaker on keys that keep failing.
+ *
+ * A breaker opens after `failureThreshold` consecutive 429/5xx errors (auth
+ * errors open it at once) and cools down exponentially, base * 2^(opens - 1)
+ * capped at `maxCooldownMs`. Once the cool-down has passed the key is
+ * half-open: a single probe request goes through, and its outcome closes the
+ * breaker or opens it again for longer.
+ */
+
+import * as crypto from 'crypto';
+import { LLMProviderName, errorStatus } from './types';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerConfig {
+  failureThreshold: number;
+  baseCooldownMs: number;
+  maxCooldownMs: number;
+}
+
+export interface ModelLimit {
+  RPM?: number;
+  TPM?: number;
+}
+
+export interface KeyRingOptions {
+  weights?: number[]; // same order as the keys; missing or non-positive weights count as 1
+  modelLimits?: Record<string, ModelLimit>;
+  breaker?: Partial<BreakerConfig>;
+  now?: () => number;
+}
+
+interface ModelWindow {
+  windowStart: number;
+  rpmUsed: number;
+  tpmUsed: number;
+}
+
+export interface KeyState {
+  id: string;
+  idShort: string;
+  key: string;
+  weight: number;
+  currentWeight: number;
+  cooldownUntil: number;
+  cooldownReason: string | null;
+  models: Record<string, ModelWindow>;
+  totalRequests: number;
+  totalTokens: number;
+  failures: number;
+  lastError: string | null;
+  breakerState: BreakerState;
+  consecutiveFailures: number;
+  openCount: number;
+  openUntil: number;
+  probeInFlight: boolean;
+}
+
+export interface KeyRing {
+  provider: LLMProviderName;
+  size: number;
+  breaker: BreakerConfig;
+  modelLimits: Record<string, ModelLimit>;
+  pick: (model?: string, estimatedTokens?: number) => KeyState | null;
+  markSuccess: (state: KeyState, tokens: number, model?: string) => void;
+  markFailure: (state: KeyState, error: unknown) => boolean; // true when another key may succeed
+  release: (state: KeyState) => void; // the request ended without saying anything about the key
+  snapshot: () => Array<Record<string, unknown>>;
+}
+
+export const DEFAULT_BREAKER: BreakerConfig = {
+  failureThreshold: 3,
+  baseCooldownMs: 30 * 1000,
+  maxCooldownMs: 15 * 60 * 1000
+};
+
+const AUTH_PATTERN = /api key not valid|permission denied/i;
+const RATE_LIMIT_PATTERN = /rate|quota|exhausted/i;
+const OVERLOADED_PATTERN = /overloaded|unavailable|internal error/i;
+
+const AUTH_COOLDOWN_MS = 10 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+type FailureKind = 'auth' | 'rate-limit' | 'server' | 'other';
+
+// 429 and 5xx responses (or SDK errors that describe them) count against a key's breaker
+const classifyFailure = (status: number | undefined, message: string): FailureKind => {
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return 'auth';
+  if (status === 429 || RATE_LIMIT_PATTERN.test(message)) return 'rate-limit';
+  if ((status !== undefined && status >= 500) || OVERLOADED_PATTERN.test(message)) return 'server';
+  return 'other';
+};
+
+// Split a comma or newline separated key list from the environment
+export const parseKeyList = (raw: string | undefined): string[] => {
+  return (raw || '')
+    .split(/[,\n]/)
+    .map((key) => key.trim())
+    .filter(Boolean);
+};
+
+const keyId = (provider: LLMProviderName, key: string, index: number): string => {
+  // Keyless slots (local servers, mock) still need a stable id for the dashboard
+  const digest = key ? crypto.createHash('sha256').update(key).digest('hex').slice(0, 12) : `keyless-${index}`;
+  return `${provider}-${digest}`;
+};
+
+export const createKeyRing = (provider: LLMProviderName, keys: string[], options: KeyRingOptions = {}): KeyRing => {
+  const breaker: BreakerConfig = { ...DEFAULT_BREAKER, ...options.breaker };
+  const modelLimits = options.modelLimits || {};
+  const now = options.now || Date.now;
+
+  const states: KeyState[] = keys.map((key, index) => {
+    const id = keyId(provider, key, index);
+    const weight = options.weights?.[index];
+    return {
+      id,
+      idShort: key ? id.slice(0, provider.length + 9) : id,
+      key,
+      weight: weight && weight > 0 ? weight : 1,
+      currentWeight: 0,
+      cooldownUntil: 0,
+      cooldownReason: null,
+      models: {},
+      totalRequests: 0,
+      totalTokens: 0,
+      failures: 0,
+      lastError: null,
+      breakerState: 'closed',
+      consecutiveFailures: 0,
+      openCount: 0,
+      openUntil: 0,
+      probeInFlight: false
+    };
+  });
+
+  // An open breaker turns half-open once its cool-down has passed
+  const breakerState = (state: KeyState): BreakerState => {
+    if (state.breakerState === 'open' && now() >= state.openUntil) {
+      state.breakerState = 'half-open';
+      state.probeInFlight = false;
+    }
+    return state.breakerState;
+  };
+
+  // Windows start on the minute boundary, like the providers' per-minute limits
+  const modelWindow = (state: KeyState, model: string): ModelWindow => {
+    const windowStart = Math.floor(now() / MINUTE_MS) * MINUTE_MS;
+    const window = state.models[model];
+    if (!window || window.windowStart !== windowStart) {
+      state.models[model] = { windowStart, rpmUsed: 0, tpmUsed: 0 };
+    }
+    return state.models[model];
+  };
+
+  // Why a key can or cannot take a request for this model right now
+  const keyStatus = (state: KeyState, model?: string, estimatedTokens = 0): { status: string; reason: string | null } => {
+    const current = breakerState(state);
+    const time = now();
+    if (current === 'open') {
+      return {
+        status: 'circuit-open',
+        reason: `Circuit open after ${state.consecutiveFailures} consecutive errors (${state.lastError || 'unknown error'}); probing in ${Math.ceil((state.openUntil - time) / 1000)}s`
+      };
+    }
+    if (current === 'half-open' && state.probeInFlight) {
+      return { status: 'probing', reason: 'Half-open: waiting for the probe request to finish' };
+    }
+    if (state.cooldownUntil > time) {
+      return {
+        status: 'cooldown',
+        reason: `${state.cooldownReason || 'Cooling down'} for ${Math.ceil((state.cooldownUntil - time) / 1000)}s after: ${state.lastError || 'an error'}`
+      };
+    }
+
+    const limit = model ? modelLimits[model] : undefined;
+    if (model && limit) {
+      const window = modelWindow(state, model);
+      if (limit.RPM && window.rpmUsed + 1 > limit.RPM) {
+        return { status: 'model-rpm-exhausted', reason: `RPM limit reached for ${model} (${window.rpmUsed}/${limit.RPM})` };
+      }
+      if (limit.TPM && window.tpmUsed + estimatedTokens > limit.TPM) {
+        return { status: 'model-tpm-exhausted', reason: `TPM limit reached for ${model} (${window.tpmUsed}/${limit.TPM})` };
+      }
+    }
+
+    if (current === 'half-open') {
+      return { status: 'half-open', reason: 'Half-open: next request is a probe' };
+    }
+    return { status: 'available', reason: null };
+  };
+
+  // Smooth weighted round-robin over the keys that can take this request
+  const pick = (model?: string, estimatedTokens = 0): KeyState | null => {
+    const eligible = states.filter((state) => {
+      const { status } = keyStatus(state, model, estimatedTokens);
+      return status === 'available' || status === 'half-open';
+    });
+    if (eligible.length === 0) {
+      return null;
+    }
+
+    let totalWeight = 0;
+    let best: KeyState | null = null;
+    for (const state of eligible) {
+      state.currentWeight += state.weight;
+      totalWeight += state.weight;
+      if (!best || state.currentWeight > best.currentWeight) {
+        best = state;
+      }
+    }
+    best.currentWeight -= totalWeight;
+
+    if (breakerState(best) === 'half-open') {
+      best.probeInFlight = true;
+    }
+    return best;
+  };
+
+  const release = (state: KeyState): void => {
+    state.probeInFlight = false;
+  };
+
+  // Any success (including a half-open probe) closes the breaker
+  const markSuccess = (state: KeyState, tokens: number, model?: string): void => {
+    state.totalRequests++;
+    state.totalTokens += tokens;
+    if (model) {
+      const window = modelWindow(state, model);
+      window.rpmUsed++;
+      window.tpmUsed += tokens;
+    }
+    state.lastError = null;
+    state.breakerState = 'closed';
+    state.consecutiveFailures = 0;
+    state.openCount = 0;
+    state.openUntil = 0;
+    state.probeInFlight = false;
+  };
+
+  const openBreaker = (state: KeyState, cooldownMs: number): void => {
+    state.openCount++;
+    state.breakerState = 'open';
+    state.probeInFlight = false;
+    state.openUntil = now() + cooldownMs;
+  };
+
+  const markFailure = (state: KeyState, error: unknown): boolean => {
+    const status = errorStatus(error);
+    const message = error instanceof Error ? error.message : String(error ?? '');
+    const kind = classifyFailure(status, message);
+    const wasProbe = breakerState(state) === 'half-open';
+    state.totalRequests++;
+    state.failures++;
+    state.lastError = message.slice(0, 200);
+    state.probeInFlight = false;
+
+    // Bad requests say nothing about the key's health
+    if (kind === 'other') {
+      return false;
+    }
+
+    state.consecutiveFailures++;
+    if (kind === 'auth') {
+      openBreaker(state, AUTH_COOLDOWN_MS);
+    } else if (wasProbe || state.consecutiveFailures >= breaker.failureThreshold) {
+      openBreaker(state, Math.min(breaker.baseCooldownMs * 2 ** state.openCount, breaker.maxCooldownMs));
+    } else if (kind === 'rate-limit') {
+      // Per-minute limits reset on the minute boundary
+      state.cooldownUntil = Math.ceil((now() + 1) / MINUTE_MS) * MINUTE_MS;
+      state.cooldownReason = 'Rate limited';
+    }
+    return true;
+  };
+
+  const snapshot = () => {
+    const time = now();
+    return states.map((state) => {
+      const { status, reason } = keyStatus(state);
+      return {
+        id: state.id,
+        idShort: state.idShort,
+        provider,
+        weight: state.weight,
+        status,
+        statusReason: reason,
+        cooldownRemainingMs: Math.max(0, state.cooldownUntil - time),
+        models: Object.fromEntries(Object.keys(state.models).map((model) => {
+          const window = modelWindow(state, model);
+          return [model, { rpmUsed: window.rpmUsed, tpmUsed: window.tpmUsed }];
+        })),
+        totalRequests: state.totalRequests,
+        totalTokens: state.totalTokens,
+        failures: state.failures,
+        lastError: state.lastError,
+        breaker: {
+          state: breakerState(state),
+          consecutiveFailures: state.consecutiveFailures,
+          openCount: state.openCount,
+          openUntil: state.openUntil,
+          retryInMs: Math.max(0, state.openUntil - time),
+          probeInFlight: state.probeInFlight,
+          lastError: state.lastError
+        }
+      };
+    });
+  };
+
+  return {
+    provider,
+    size: states.length,
+    breaker,
+    modelLimits,
+    pick,
+    markSuccess,
+    markFailure,
+    release,
+    snapshot
+  };
+};
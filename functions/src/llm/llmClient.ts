@@ -0,0 +1,384 @@
+/**
+ * LLM Client
+ * Resolves the provider/model for a project and runs requests through the
+ * provider's key ring, retrying on another key when one is rate-limited
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { createKeyRing, KeyRing, KeyRingOptions, ModelLimit, parseKeyList } from './keyRing';
+import { geminiProvider } from './geminiProvider';
+import { openaiCompatibleProvider } from './openaiCompatibleProvider';
+import { mockProvider } from './mockProvider';
+import {
+  LLMEmbedRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMSelection,
+  LLMStreamChunk,
+  estimateTokens,
+  providerError
+} from './types';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openaiCompatibleProvider,
+  'mock': mockProvider
+};
+
+const PROJECT_SETTINGS_TTL_MS = 60 * 1000;
+
+export const isLLMProviderName = (value: unknown): value is LLMProviderName => {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+};
+
+export const getDefaultModel = (provider: LLMProviderName): string => {
+  switch (provider) {
+    case 'openai-compatible':
+      return process.env.LLM_OPENAI_DEFAULT_MODEL || 'llama3.1';
+    case 'mock':
+      return 'mock-1';
+    default:
+      return 'gemini-2.5-pro';
+  }
+};
+
+const getDefaultProvider = (): LLMProviderName => {
+  const configured = process.env.LLM_DEFAULT_PROVIDER;
+  return isLLMProviderName(configured) ? configured : 'gemini';
+};
+
+const getDefaultEmbeddingModel = (provider: LLMProviderName): string => {
+  switch (provider) {
+    case 'openai-compatible':
+      return process.env.LLM_OPENAI_EMBEDDING_MODEL || 'nomic-embed-text';
+    case 'mock':
+      return 'mock-embedding-1';
+    default:
+      return 'text-embedding-004';
+  }
+};
+
+/**
+ * Embeddings are deployment-wide rather than per project, so every project
+ * searching the same repository index shares one vector space.
+ * LLM_EMBEDDING_PROVIDER / LLM_EMBEDDING_MODEL override the default provider.
+ */
+export const resolveEmbeddingSelection = (): LLMSelection => {
+  const configured = process.env.LLM_EMBEDDING_PROVIDER;
+  const provider = isLLMProviderName(configured) ? configured : getDefaultProvider();
+  const model = process.env.LLM_EMBEDDING_MODEL?.trim() || getDefaultEmbeddingModel(provider);
+  return { provider, model };
+};
+
+// ============================================================================
+// KEY RINGS
+// ============================================================================
+
+const readProviderKeys = (provider: LLMProviderName): string[] => {
+  switch (provider) {
+    case 'gemini':
+      return parseKeyList(process.env.VITE_GEMINI_API_KEY);
+    case 'openai-compatible': {
+      const keys = parseKeyList(process.env.LLM_OPENAI_API_KEYS);
+      return keys.length ? keys : [''];
+    }
+    default:
+      return [''];
+  }
+};
+
+// GEMINI_* for Gemini (the names the local balancer reads), LLM_OPENAI_* for OpenAI-compatible servers:
+//   <PREFIX>_KEY_WEIGHTS=3,1                                  (same order as the keys)
+//   <PREFIX>_MODEL_LIMITS={"gemini-2.5-pro":{"RPM":5,"TPM":250000}}
+//   <PREFIX>_BREAKER_THRESHOLD / _BREAKER_BASE_MS / _BREAKER_MAX_MS
+const readRingOptions = (provider: LLMProviderName): KeyRingOptions => {
+  const prefix = provider === 'gemini' ? 'GEMINI' : provider === 'openai-compatible' ? 'LLM_OPENAI' : null;
+  if (!prefix) {
+    return {};
+  }
+
+  let modelLimits: Record<string, ModelLimit> = {};
+  const rawLimits = process.env[`${prefix}_MODEL_LIMITS`];
+  if (rawLimits) {
+    try {
+      modelLimits = JSON.parse(rawLimits);
+    } catch {
+      logger.error(`❌ ${prefix}_MODEL_LIMITS is not valid JSON, ignoring per-model limits`);
+    }
+  }
+
+  const readNumber = (name: string): number | undefined => {
+    const value = Number(process.env[`${prefix}_${name}`]);
+    return value > 0 ? value : undefined;
+  };
+  const breaker = {
+    failureThreshold: readNumber('BREAKER_THRESHOLD'),
+    baseCooldownMs: readNumber('BREAKER_BASE_MS'),
+    maxCooldownMs: readNumber('BREAKER_MAX_MS')
+  };
+
+  return {
+    weights: (process.env[`${prefix}_KEY_WEIGHTS`] || '').split(',').map((weight) => Number(weight.trim()) || 1),
+    modelLimits,
+    breaker: Object.fromEntries(Object.entries(breaker).filter(([, value]) => value !== undefined))
+  };
+};
+
+const keyRings = new Map<LLMProviderName, { signature: string; ring: KeyRing }>();
+
+// Rings are rebuilt when the configured keys or limits change, like the single Gemini client
+const getKeyRing = (provider: LLMProviderName): KeyRing => {
+  const keys = readProviderKeys(provider);
+  const options = readRingOptions(provider);
+  const signature = `${keys.join('\n')}\n${JSON.stringify(options)}`;
+  const cached = keyRings.get(provider);
+  if (cached && cached.signature === signature) {
+    return cached.ring;
+  }
+  const ring = createKeyRing(provider, keys, options);
+  keyRings.set(provider, { signature, ring });
+  return ring;
+};
+
+export const isProviderConfigured = (provider: LLMProviderName): boolean => {
+  return !providers[provider].requiresKey || readProviderKeys(provider).length > 0;
+};
+
+export const getKeyRingSnapshots = (): Array<Record<string, unknown>> => {
+  return LLM_PROVIDER_NAMES
+    .filter((provider) => isProviderConfigured(provider) && provider !== 'mock')
+    .flatMap((provider) => getKeyRing(provider).snapshot());
+};
+
+// Breaker settings and per-model limits of a provider's ring, for the dashboard
+export const getKeyRingConfig = (provider: LLMProviderName): Pick<KeyRing, 'breaker' | 'modelLimits'> => {
+  const { breaker, modelLimits } = getKeyRing(provider);
+  return { breaker, modelLimits };
+};
+
+// ============================================================================
+// PER-PROJECT SELECTION
+// ============================================================================
+
+const projectSettingsCache = new Map<string, { provider: LLMProviderName | null; model: string | null; expiresAt: number }>();
+
+const loadProjectSettings = async (
+  firestore: admin.firestore.Firestore,
+  projectId: string
+): Promise<{ provider: LLMProviderName | null; model: string | null }> => {
+  const cached = projectSettingsCache.get(projectId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const snapshot = await firestore.collection('Projects').where('Project_Id', '==', projectId).limit(1).get();
+  const data = snapshot.empty ? {} : snapshot.docs[0].data();
+  const settings = {
+    provider: isLLMProviderName(data.LLM_Provider) ? data.LLM_Provider : null,
+    model: typeof data.LLM_Model === 'string' && data.LLM_Model.trim() ? data.LLM_Model.trim() : null,
+    expiresAt: Date.now() + PROJECT_SETTINGS_TTL_MS
+  };
+  projectSettingsCache.set(projectId, settings);
+  return settings;
+};
+
+// Called after a project's LLM settings change so the next request sees them
+export const clearProjectLLMSettings = (projectId: string): void => {
+  projectSettingsCache.delete(projectId);
+};
+
+/**
+ * Resolve which provider and model a request runs on.
+ * An explicit provider wins, then the project's LLM_Provider/LLM_Model, then the
+ * LLM_DEFAULT_PROVIDER default. A requested model is only honoured for an explicit
+ * provider or for Gemini, since existing clients always send Gemini model names.
+ */
+export const resolveLLMSelection = async (
+  firestore: admin.firestore.Firestore | null,
+  options: { projectId?: string; documentId?: string; provider?: unknown; model?: string } = {}
+): Promise<LLMSelection> => {
+  const explicitProvider = isLLMProviderName(options.provider) ? options.provider : null;
+  let projectSettings: { provider: LLMProviderName | null; model: string | null } = { provider: null, model: null };
+
+  if (firestore && !explicitProvider) {
+    try {
+      let projectId = options.projectId;
+      if (!projectId && options.documentId) {
+        const documentSnap = await firestore.collection('Documents').doc(options.documentId).get();
+        projectId = documentSnap.data()?.Project_Id;
+      }
+      if (projectId) {
+        projectSettings = await loadProjectSettings(firestore, projectId);
+      }
+    } catch (error) {
+      logger.error('⚠️ Failed to load project LLM settings, using defaults:', error);
+    }
+  }
+
+  const provider = explicitProvider || projectSettings.provider || getDefaultProvider();
+  const model = (explicitProvider && options.model)
+    || (projectSettings.provider === provider ? projectSettings.model : null)
+    || (provider === 'gemini' ? options.model : null)
+    || getDefaultModel(provider);
+
+  return { provider, model };
+};
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+const noKeyAvailable = (provider: LLMProviderName) =>
+  providerError(`All ${provider} API keys are rate-limited, failing or not configured.`, isProviderConfigured(provider) ? 429 : 503);
+
+const isAbort = (error: unknown, request: Omit<LLMRequest, 'model'>): boolean => {
+  return !!request.signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+};
+
+export const generateLLM = async (
+  selection: LLMSelection,
+  request: Omit<LLMRequest, 'model'>
+): Promise<LLMResponse & LLMSelection & { keyId: string }> => {
+  const provider = providers[selection.provider];
+  const ring = getKeyRing(selection.provider);
+  let lastError: unknown = null;
+
+  const estimatedTokens = estimateTokens({ ...request, model: selection.model });
+
+  for (let attempt = 0; attempt < Math.max(ring.size, 1); attempt++) {
+    const keyState = ring.pick(selection.model, estimatedTokens);
+    if (!keyState) {
+      break;
+    }
+
+    try {
+      const response = await provider.generate({ ...request, model: selection.model }, keyState.key);
+      ring.markSuccess(keyState, response.usage.totalTokens || 0, selection.model);
+      return { ...response, ...selection, keyId: keyState.idShort };
+    } catch (error) {
+      if (isAbort(error, request)) {
+        ring.release(keyState);
+        throw error;
+      }
+      lastError = error;
+      logger.warn(`⚠️ ${selection.provider} key ${keyState.idShort} failed:`, (error as Error).message);
+      if (!ring.markFailure(keyState, error)) {
+        throw error;
+      }
+    }
+  }
+
+  throw lastError || noKeyAvailable(selection.provider);
+};
+
+const EMBED_BATCH_SIZE = 96; // Gemini accepts at most 100 texts per call
+
+export const embedLLM = async (
+  selection: LLMSelection,
+  texts: string[],
+  purpose: LLMEmbedRequest['purpose']
+): Promise<number[][]> => {
+  const provider = providers[selection.provider];
+  const ring = getKeyRing(selection.provider);
+  const vectors: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+    let lastError: unknown = null;
+    let embedded: number[][] | null = null;
+
+    for (let attempt = 0; attempt < Math.max(ring.size, 1) && !embedded; attempt++) {
+      const keyState = ring.pick(selection.model);
+      if (!keyState) {
+        break;
+      }
+
+      try {
+        embedded = await provider.embed({ model: selection.model, texts: batch, purpose }, keyState.key);
+        ring.markSuccess(keyState, 0, selection.model);
+      } catch (error) {
+        lastError = error;
+        logger.warn(`⚠️ ${selection.provider} key ${keyState.idShort} failed to embed:`, (error as Error).message);
+        if (!ring.markFailure(keyState, error)) {
+          throw error;
+        }
+      }
+    }
+
+    if (!embedded) {
+      throw lastError || noKeyAvailable(selection.provider);
+    }
+    if (embedded.length !== batch.length) {
+      throw new Error(`${selection.provider} returned ${embedded.length} embeddings for ${batch.length} texts`);
+    }
+    vectors.push(...embedded);
+  }
+
+  return vectors;
+};
+
+/**
+ * Stream a response. A key is only swapped before the first chunk arrives;
+ * after that a failure is passed to the caller.
+ */
+export async function* streamLLM(
+  selection: LLMSelection,
+  request: Omit<LLMRequest, 'model'>
+): AsyncGenerator<LLMStreamChunk> {
+  const provider = providers[selection.provider];
+  const ring = getKeyRing(selection.provider);
+  let lastError: unknown = null;
+
+  const estimatedTokens = estimateTokens({ ...request, model: selection.model });
+
+  for (let attempt = 0; attempt < Math.max(ring.size, 1); attempt++) {
+    const keyState = ring.pick(selection.model, estimatedTokens);
+    if (!keyState) {
+      break;
+    }
+
+    let started = false;
+    try {
+      for await (const chunk of provider.stream({ ...request, model: selection.model }, keyState.key)) {
+        started = true;
+        if (chunk.type === 'done') {
+          ring.markSuccess(keyState, chunk.usage.totalTokens || 0, selection.model);
+        }
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      if (started || isAbort(error, request)) {
+        throw error;
+      }
+      lastError = error;
+      logger.warn(`⚠️ ${selection.provider} key ${keyState.idShort} failed to stream:`, (error as Error).message);
+      if (!ring.markFailure(keyState, error)) {
+        throw error;
+      }
+    } finally {
+      // A stream abandoned by its consumer must not hold the half-open probe
+      ring.release(keyState);
+    }
+  }
+
+  throw lastError || noKeyAvailable(selection.provider);
+}
+
+export const countLLMTokens = async (selection: LLMSelection, request: Omit<LLMRequest, 'model'>): Promise<number> => {
+  const ring = getKeyRing(selection.provider);
+  const keyState = ring.pick();
+  if (!keyState) {
+    throw noKeyAvailable(selection.provider);
+  }
+  try {
+    return await providers[selection.provider].countTokens({ ...request, model: selection.model }, keyState.key);
+  } finally {
+    ring.release(keyState);
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * Mock Provider
+ * Deterministic offline model for tests and local development.
+ *
+ * - Replies echo the last user message, so the same input always gives the same output.
+ * - A user message containing `mock:call <tool> {json args}` makes the mock request that
+ *   tool (when it was offered); once the tool result comes back it reports it and stops.
+ * - Embeddings are hashed bags of words, so texts sharing identifiers score as similar.
+ */
+
+import { LLMProvider, LLMRequest, LLMResponse, LLMToolCall, estimateTokens } from './types';
+
+const TOOL_DIRECTIVE = /mock:call\s+([\w-]+)\s*(\{[\s\S]*\})?/;
+const EMBEDDING_DIMENSIONS = 256;
+
+// camelCase and snake_case identifiers are split so `getUser` matches "get user"
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) || [];
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+};
+
+const respond = (request: LLMRequest): LLMResponse => {
+  const messages = request.messages;
+  const last = messages[messages.length - 1];
+  const promptTokens = estimateTokens(request);
+
+  let text: string;
+  let toolCalls: LLMToolCall[] = [];
+
+  if (last?.role === 'tool') {
+    text = `[mock:${request.model}] Tool ${last.name} returned ${JSON.stringify(last.result ?? last.content ?? null)}`;
+  } else {
+    const prompt = last?.content || '';
+    const directive = prompt.match(TOOL_DIRECTIVE);
+    const offered = new Set((request.tools || []).map((tool) => tool.name));
+
+    if (directive && offered.has(directive[1])) {
+      let args: Record<string, unknown> = {};
+      try {
+        args = directive[2] ? JSON.parse(directive[2]) : {};
+      } catch {
+        args = {};
+      }
+      toolCalls = [{ id: 'call_1', name: directive[1], args }];
+      text = '';
+    } else if (request.responseMimeType === 'application/json') {
+      text = JSON.stringify({ mock: true, model: request.model, echo: prompt });
+    } else {
+      text = `[mock:${request.model}] ${prompt}`;
+    }
+  }
+
+  const completionTokens = Math.ceil(text.length / 4);
+  return {
+    text,
+    toolCalls,
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+  };
+};
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  requiresKey: false,
+
+  generate: async (request) => respond(request),
+
+  stream: async function* (request) {
+    const response = respond(request);
+    // Word-sized chunks exercise incremental rendering the same way every time
+    for (const word of response.text.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) {
+        const error = new Error('The operation was aborted');
+        error.name = 'AbortError';
+        throw error;
+      }
+      yield { type: 'text', text: word };
+    }
+    for (const call of response.toolCalls) {
+      yield { type: 'tool_call', call };
+    }
+    yield { type: 'done', usage: response.usage };
+  },
+
+  countTokens: async (request) => estimateTokens(request),
+
+  embed: async (request) => request.texts.map(embedText)
+};
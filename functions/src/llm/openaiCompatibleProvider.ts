@@ -0,0 +1,279 @@
+/**
+ * OpenAI-Compatible Provider
+ * Chat Completions over plain HTTP, for OpenAI itself and self-hosted servers
+ * such as Ollama or vLLM (set LLM_OPENAI_BASE_URL)
+ */
+
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMUsage,
+  emptyUsage,
+  estimateTokens,
+  providerError
+} from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Chat Completions wire format, limited to the fields used here
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_call_id?: string;
+  tool_calls?: ChatToolCall[];
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: Array<Partial<ChatToolCall>> } }>;
+  usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      reasoning_content?: string;
+      reasoning?: string;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+  usage?: ChatUsage;
+}
+
+interface EmbeddingList {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+const getBaseUrl = (): string => (process.env.LLM_OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+// Gemini declarations use uppercase type names; JSON Schema wants lowercase
+const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toJsonSchema(property)])
+      );
+    } else {
+      converted[key] = toJsonSchema(value);
+    }
+  }
+  return converted;
+};
+
+const toMessages = (request: LLMRequest): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  if (request.systemInstruction) {
+    messages.push({ role: 'system', content: request.systemInstruction });
+  }
+  for (const message of request.messages as LLMMessage[]) {
+    if (message.role === 'tool') {
+      messages.push({
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        content: message.content ?? JSON.stringify(message.result ?? null)
+      });
+    } else if (message.role === 'assistant') {
+      messages.push({
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls?.length
+          ? message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.args || {}) }
+          }))
+          : undefined
+      });
+    } else {
+      messages.push({ role: 'user', content: message.content || '' });
+    }
+  }
+  return messages;
+};
+
+const toBody = (request: LLMRequest, stream: boolean): Record<string, unknown> => ({
+  model: request.model,
+  messages: toMessages(request),
+  tools: request.tools?.length
+    ? request.tools.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) }
+    }))
+    : undefined,
+  temperature: request.temperature,
+  top_p: request.topP,
+  max_tokens: request.maxOutputTokens,
+  response_format: request.responseMimeType === 'application/json' ? { type: 'json_object' } : undefined,
+  stream,
+  stream_options: stream ? { include_usage: true } : undefined
+});
+
+const toUsage = (usage: ChatUsage | undefined): LLMUsage => {
+  if (!usage) {
+    return emptyUsage();
+  }
+  return {
+    promptTokens: usage.prompt_tokens ?? null,
+    completionTokens: usage.completion_tokens ?? null,
+    totalTokens: usage.total_tokens ?? null
+  };
+};
+
+const parseArgs = (raw: string | undefined): Record<string, unknown> => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { _raw: raw };
+  }
+};
+
+const post = async (request: LLMRequest, apiKey: string, stream: boolean): Promise<Response> => {
+  const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify(toBody(request, stream)),
+    signal: request.signal
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw providerError(`OpenAI-compatible request failed (${response.status}): ${details.slice(0, 300)}`, response.status);
+  }
+  return response;
+};
+
+export const openaiCompatibleProvider: LLMProvider = {
+  name: 'openai-compatible',
+  requiresKey: false, // Local servers usually run without a key
+
+  generate: async (request, apiKey) => {
+    const response = await post(request, apiKey, false);
+    const data = await response.json() as ChatCompletion;
+    const message = data?.choices?.[0]?.message || {};
+    const toolCalls: LLMToolCall[] = (message.tool_calls || []).map((call, index) => ({
+      id: call.id || `call_${index + 1}`,
+      name: call.function?.name,
+      args: parseArgs(call.function?.arguments)
+    }));
+
+    return { text: message.content || '', toolCalls, usage: toUsage(data?.usage) };
+  },
+
+  stream: async function* (request, apiKey): AsyncGenerator<LLMStreamChunk> {
+    const response = await post(request, apiKey, true);
+    if (!response.body) {
+      throw new Error('OpenAI-compatible stream returned no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    // Tool call arguments arrive in fragments keyed by index
+    const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    let usage: LLMUsage = emptyUsage();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') continue;
+
+        let data: ChatCompletionChunk;
+        try {
+          data = JSON.parse(payload);
+        } catch {
+          continue;
+        }
+
+        if (data.usage) {
+          usage = toUsage(data.usage);
+        }
+
+        const delta = data.choices?.[0]?.delta || {};
+        const reasoning = delta.reasoning_content || delta.reasoning;
+        if (reasoning) {
+          yield { type: 'reasoning', text: reasoning };
+        }
+        if (delta.content) {
+          yield { type: 'text', text: delta.content };
+        }
+        for (const fragment of delta.tool_calls || []) {
+          const index = fragment.index ?? 0;
+          const call = pendingCalls.get(index) || { id: '', name: '', arguments: '' };
+          call.id = fragment.id || call.id;
+          call.name = fragment.function?.name || call.name;
+          call.arguments += fragment.function?.arguments || '';
+          pendingCalls.set(index, call);
+        }
+      }
+    }
+
+    for (const [index, call] of [...pendingCalls.entries()].sort(([a], [b]) => a - b)) {
+      yield { type: 'tool_call', call: { id: call.id || `call_${index + 1}`, name: call.name, args: parseArgs(call.arguments) } };
+    }
+
+    yield { type: 'done', usage };
+  },
+
+  // Chat Completions has no tokenizer endpoint
+  countTokens: async (request) => estimateTokens(request),
+
+  embed: async (request, apiKey) => {
+    const response = await fetch(`${getBaseUrl()}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: request.model, input: request.texts })
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw providerError(`OpenAI-compatible embedding failed (${response.status}): ${details.slice(0, 300)}`, response.status);
+    }
+
+    const data = await response.json() as EmbeddingList;
+    return [...(data?.data || [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding || []);
+  }
+};
@@ -0,0 +1,123 @@
+/**
+ * LLM Provider Types
+ * Provider-neutral request/response shapes shared by every model backend
+ */
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+// Parameter schema in the Gemini declaration format (uppercase types); other providers convert it
+export interface LLMSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, LLMSchema>;
+  items?: LLMSchema;
+  required?: string[];
+  enum?: string[];
+  [keyword: string]: unknown;
+}
+
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: LLMSchema;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content?: string;
+  toolCalls?: LLMToolCall[]; // assistant turns that requested tools
+  toolCallId?: string; // tool turns: the call this result answers
+  name?: string; // tool turns: the tool that produced the result
+  result?: unknown; // tool turns: structured tool result
+  raw?: unknown; // Provider-native assistant turn, replayed as-is to the same provider
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  tools?: LLMToolDeclaration[];
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  responseMimeType?: string;
+  includeThoughts?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+}
+
+export interface LLMResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage;
+  raw?: unknown; // Provider-native assistant turn for LLMMessage.raw
+}
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'done'; usage: LLMUsage; raw?: unknown };
+
+// Retrieval embeddings: documents are embedded when indexed, queries when searched
+export interface LLMEmbedRequest {
+  model: string;
+  texts: string[];
+  purpose: 'document' | 'query';
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  requiresKey: boolean;
+  generate: (request: LLMRequest, apiKey: string) => Promise<LLMResponse>;
+  stream: (request: LLMRequest, apiKey: string) => AsyncGenerator<LLMStreamChunk>;
+  countTokens: (request: LLMRequest, apiKey: string) => Promise<number>;
+  embed: (request: LLMEmbedRequest, apiKey: string) => Promise<number[][]>;
+}
+
+// Which provider and model a request runs on, resolved per project
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// What providers throw for a failed request; status is the backend's HTTP status, if it sent one
+export interface LLMProviderError extends Error {
+  status?: number;
+}
+
+export const providerError = (message: string, status?: number): LLMProviderError =>
+  Object.assign(new Error(message), { status });
+
+export const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as LLMProviderError | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const emptyUsage = (): LLMUsage => ({ promptTokens: null, completionTokens: null, totalTokens: null });
+
+// Rough count used where a provider has no tokenizer endpoint (~4 chars per token)
+export const estimateTokens = (request: LLMRequest): number => {
+  let chars = (request.systemInstruction || '').length;
+  for (const message of request.messages) {
+    chars += (message.content || '').length;
+    if (message.result !== undefined) {
+      chars += JSON.stringify(message.result).length;
+    }
+    for (const call of message.toolCalls || []) {
+      chars += call.name.length + JSON.stringify(call.args || {}).length;
+    }
+  }
+  return Math.ceil(chars / 4);
+};
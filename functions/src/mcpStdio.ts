@@ -0,0 +1,43 @@
+/**
+ * MCP stdio entrypoint
+ * Runs the user-scoped Dotivra MCP server over stdin/stdout for local clients:
+ *
+ *   DOTIVRA_MCP_TOKEN=dtv_... node lib/mcpStdio.js
+ *
+ * Firestore is reached with Application Default Credentials
+ * (e.g. GOOGLE_APPLICATION_CREDENTIALS pointing at a service account key).
+ */
+
+import './MCP/stdioConsole';
+import * as admin from 'firebase-admin';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import * as toolService from './services/toolService';
+import { resolveMcpToken } from './MCP/mcpAuth';
+import { createUserMcpServer } from './MCP/userMcpServer';
+
+const main = async (): Promise<void> => {
+  const token = process.env.DOTIVRA_MCP_TOKEN;
+  if (!token) {
+    console.error('DOTIVRA_MCP_TOKEN is required. Create an access token on your Dotivra profile page.');
+    process.exit(1);
+  }
+
+  admin.initializeApp();
+  const db = admin.firestore();
+  toolService.initFirestore(db);
+
+  const userId = await resolveMcpToken(db, token);
+  if (!userId) {
+    console.error('DOTIVRA_MCP_TOKEN is invalid or has been revoked.');
+    process.exit(1);
+  }
+
+  const server = createUserMcpServer({ firestore: db, userId });
+  await server.connect(new StdioServerTransport());
+  console.error('Dotivra MCP server running on stdio');
+};
+
+main().catch((error) => {
+  console.error('❌ Dotivra MCP server failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,395 @@
+/**
+ * Asset Store
+ * Images live in Cloud Storage under assets/{assetId} with metadata in the
+ * Assets collection; document HTML references them by data-asset-id. Asset ids
+ * are content hashes, so the same image is stored once however often it is used.
+ * Also holds the one-shot data URI migration and the orphaned asset GC.
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as logger from 'firebase-functions/logger';
+import { hashContent } from './toolAudit';
+import {
+  CHUNKS_SUBCOLLECTION,
+  buildContentWrite,
+  buildHistoryContent,
+  readDocumentContent,
+  readHistoryContent
+} from './documentChunks';
+
+export const ASSETS_COLLECTION = 'Assets';
+
+// Freshly uploaded images may not be saved into a document yet; GC leaves them alone this long
+export const ASSET_GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Collections whose HTML can reference assets; history keeps old versions restorable.
+// Chunks holds the content of large documents and their history (see documentChunks).
+const ASSET_REFERENCE_SOURCES: Array<{ collection: string; fields: string[]; group?: boolean }> = [
+  { collection: 'Documents', fields: ['Content', 'Summary'] },
+  { collection: 'DocumentHistory', fields: ['Content'] },
+  { collection: 'Templates', fields: ['Content'] },
+  { collection: 'Chunks', fields: ['Html'], group: true }
+];
+
+const PAGE_SIZE = 200;
+
+const dataUriImageRegex = /<img\b[^>]*?\bsrc\s*=\s*(["'])(data:(image\/[a-z0-9.+-]+);base64,([^"']+))\1[^>]*>/gi;
+const assetIdAttributeRegex = /data-asset-id\s*=\s*["'](img_[a-f0-9]+)["']/gi;
+// Exported or pasted HTML may lose the attribute but keep the storage URL
+const assetUrlRegex = /assets%2F(img_[a-f0-9]+)/gi;
+
+export interface StoredAsset {
+  assetId: string;
+  url: string;
+  contentType: string;
+  size: number;
+  created: boolean;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  documentsScanned: number;
+  documentsMigrated: number;
+  documentsSkipped: string[]; // changed while being migrated
+  historyEntriesScanned: number;
+  historyEntriesMigrated: number;
+  historyEntriesSkipped: string[];
+  chunksDeleted: number; // chunks with inline images that nothing references any more
+  imagesExtracted: number;
+  bytesRemoved: number;
+}
+
+export interface GcReport {
+  dryRun: boolean;
+  assetsScanned: number;
+  referenced: number;
+  deleted: string[];
+  keptRecent: number;
+}
+
+export const assetIdFor = (buffer: Buffer): string =>
+  'img_' + crypto.createHash('sha256').update(buffer).digest('hex').slice(0, 32);
+
+export const assetStoragePath = (assetId: string): string => `assets/${assetId}`;
+
+// Same URL shape the Firebase Storage client SDK returns from getDownloadURL
+const buildDownloadUrl = (bucketName: string, path: string, token: string): string => {
+  const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+  const origin = emulatorHost ? `http://${emulatorHost.replace(/^https?:\/\//, '')}` : 'https://firebasestorage.googleapis.com';
+  return `${origin}/v0/b/${bucketName}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+};
+
+/**
+ * Store an image, reusing the existing asset when the same bytes were uploaded before
+ */
+export const storeAsset = async (
+  db: admin.firestore.Firestore,
+  bucket: ReturnType<admin.storage.Storage['bucket']>,
+  { buffer, contentType, userId = null, source = 'upload' }: { buffer: Buffer; contentType: string; userId?: string | null; source?: string }
+): Promise<StoredAsset> => {
+  const assetId = assetIdFor(buffer);
+  const assetRef = db.collection(ASSETS_COLLECTION).doc(assetId);
+  const existing = await assetRef.get();
+  if (existing.exists && existing.data()?.Url) {
+    return { assetId, url: existing.data()!.Url, contentType, size: buffer.length, created: false };
+  }
+
+  const path = assetStoragePath(assetId);
+  const token = crypto.randomUUID();
+  await bucket.file(path).save(buffer, {
+    resumable: false,
+    metadata: {
+      contentType,
+      cacheControl: 'public, max-age=31536000, immutable',
+      metadata: { firebaseStorageDownloadTokens: token }
+    }
+  });
+
+  const url = buildDownloadUrl(bucket.name, path, token);
+  await assetRef.set({
+    Storage_Path: path,
+    Url: url,
+    Content_Type: contentType,
+    Size: buffer.length,
+    Created_By: userId,
+    Source: source,
+    Created_Time: admin.firestore.FieldValue.serverTimestamp()
+  });
+
+  return { assetId, url, contentType, size: buffer.length, created: true };
+};
+
+type AssetStore = ((buffer: Buffer, contentType: string) => Promise<StoredAsset>) | null;
+
+/**
+ * Replace inline data URI images with asset references. The store callback is
+ * skipped in dry runs, where the HTML is only scanned.
+ */
+export const extractDataUriImages = async (
+  html: string,
+  store: AssetStore
+): Promise<{ html: string; images: number; bytesRemoved: number }> => {
+  const matches = Array.from(html.matchAll(dataUriImageRegex));
+  if (matches.length === 0) {
+    return { html, images: 0, bytesRemoved: 0 };
+  }
+
+  let result = '';
+  let cursor = 0;
+  let bytesRemoved = 0;
+  for (const match of matches) {
+    const [tag, , dataUri, contentType, base64] = match;
+    const index = match.index || 0;
+    result += html.slice(cursor, index);
+    cursor = index + tag.length;
+    bytesRemoved += dataUri.length;
+
+    if (!store) {
+      result += tag;
+      continue;
+    }
+
+    const asset = await store(Buffer.from(base64, 'base64'), contentType);
+    const withoutAssetId = tag.replace(/\sdata-asset-id\s*=\s*(["'])[^"']*\1/i, '');
+    result += withoutAssetId
+      .replace(dataUri, asset.url)
+      .replace(/^<img\b/i, `<img data-asset-id="${asset.assetId}"`);
+  }
+  result += html.slice(cursor);
+
+  return { html: result, images: matches.length, bytesRemoved };
+};
+
+export const collectAssetIds = (html: string | null | undefined, into: Set<string> = new Set()): Set<string> => {
+  if (!html) return into;
+  for (const match of html.matchAll(assetIdAttributeRegex)) into.add(match[1]);
+  for (const match of html.matchAll(assetUrlRegex)) into.add(match[1]);
+  return into;
+};
+
+// Page through a whole collection by document id so large collections never load at once
+const forEachDocumentPage = async (
+  query: admin.firestore.Query,
+  handle: (docs: admin.firestore.QueryDocumentSnapshot[]) => Promise<void>
+): Promise<void> => {
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+  while (true) {
+    let page = query.orderBy(admin.firestore.FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+    const snapshot = await page.get();
+    if (snapshot.empty) return;
+    await handle(snapshot.docs);
+    last = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < PAGE_SIZE) return;
+  }
+};
+
+const hasInlineImages = (html: string | null | undefined): boolean => !!html && html.includes('data:image/');
+
+/**
+ * Delete a document's chunks that still hold inline images once neither the
+ * document, its history nor an open tool transaction references them
+ */
+const pruneInlineImageChunks = async (db: admin.firestore.Firestore, documentId: string): Promise<number> => {
+  const docRef = db.collection('Documents').doc(documentId);
+  const chunks = await docRef.collection(CHUNKS_SUBCOLLECTION).get();
+  const stale = chunks.docs.filter((chunk) => hasInlineImages(chunk.data().Html));
+  if (stale.length === 0) return 0;
+
+  const referenced = new Set<string>();
+  const docData = (await docRef.get()).data();
+  (docData?.Chunks || []).forEach((chunk: { id: string }) => referenced.add(chunk.id));
+  for (const collection of ['DocumentHistory', 'ToolTransactions']) {
+    const entries = await db.collection(collection).where('Document_Id', '==', documentId).get();
+    entries.docs.forEach((entry) => (entry.data().Chunk_Ids || []).forEach((id: string) => referenced.add(id)));
+  }
+
+  const orphaned = stale.filter((chunk) => !referenced.has(chunk.id));
+  const batch = db.batch();
+  orphaned.forEach((chunk) => batch.delete(chunk.ref));
+  await batch.commit();
+  return orphaned.length;
+};
+
+/**
+ * One-shot migration: move every inline data URI image in document content
+ * and summaries (inline or chunked) and in their history into the asset store.
+ * Chunks are content-addressed, so chunked content is written again as new
+ * chunks and the old ones are deleted once nothing references them. Anything
+ * edited while being migrated is skipped and picked up by the next run.
+ */
+export const migrateInlineImages = async (
+  db: admin.firestore.Firestore,
+  bucket: ReturnType<admin.storage.Storage['bucket']>,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<MigrationReport> => {
+  const report: MigrationReport = {
+    dryRun,
+    documentsScanned: 0,
+    documentsMigrated: 0,
+    documentsSkipped: [],
+    historyEntriesScanned: 0,
+    historyEntriesMigrated: 0,
+    historyEntriesSkipped: [],
+    chunksDeleted: 0,
+    imagesExtracted: 0,
+    bytesRemoved: 0
+  };
+
+  const store: AssetStore = dryRun
+    ? null
+    : (buffer: Buffer, contentType: string) => storeAsset(db, bucket, { buffer, contentType, source: 'migration' });
+  // Documents whose chunks may now hold images nothing references
+  const rechunked = new Set<string>();
+
+  const extract = async (html: string) => {
+    const extracted = await extractDataUriImages(html, store);
+    report.imagesExtracted += extracted.images;
+    report.bytesRemoved += extracted.bytesRemoved;
+    return extracted;
+  };
+
+  await forEachDocumentPage(db.collection('Documents'), async (docs) => {
+    for (const docSnap of docs) {
+      report.documentsScanned++;
+      const data = docSnap.data();
+      const content = await readDocumentContent(db, docSnap.id, data);
+      const summary: string = data.Summary || '';
+      if (!hasInlineImages(content) && !hasInlineImages(summary)) continue;
+
+      const migratedContent = await extract(content);
+      const migratedSummary = await extract(summary);
+      if (migratedContent.images + migratedSummary.images === 0) continue;
+      if (dryRun) {
+        report.documentsMigrated++;
+        continue;
+      }
+
+      let changed = false;
+      await db.runTransaction(async (t) => {
+        const current = await t.get(docSnap.ref);
+        if (!current.exists || !current.updateTime?.isEqual(docSnap.updateTime)) {
+          changed = true;
+          return;
+        }
+        const update: admin.firestore.DocumentData = {
+          version: (current.data()?.version || 0) + 1,
+          Updated_Time: admin.firestore.FieldValue.serverTimestamp()
+        };
+        if (migratedContent.images > 0) {
+          Object.assign(update, buildContentWrite(t, db, docSnap.id, migratedContent.html, current.data()));
+          update.Hash = hashContent(migratedContent.html);
+        }
+        if (migratedSummary.images > 0) {
+          update.Summary = migratedSummary.html;
+        }
+        t.update(docSnap.ref, update);
+      });
+
+      if (changed) {
+        report.documentsSkipped.push(docSnap.id);
+      } else {
+        report.documentsMigrated++;
+        if (data.Chunked) rechunked.add(docSnap.id);
+        logger.info(`🖼️ Moved ${migratedContent.images + migratedSummary.images} inline images out of document ${docSnap.id}`);
+      }
+    }
+  });
+
+  await forEachDocumentPage(db.collection('DocumentHistory'), async (entries) => {
+    for (const entrySnap of entries) {
+      report.historyEntriesScanned++;
+      const entry = entrySnap.data();
+      const content = await readHistoryContent(db, entry);
+      if (!hasInlineImages(content)) continue;
+
+      const migrated = await extract(content);
+      if (migrated.images === 0) continue;
+      if (dryRun) {
+        report.historyEntriesMigrated++;
+        continue;
+      }
+
+      let changed = false;
+      const docRef = db.collection('Documents').doc(entry.Document_Id);
+      await db.runTransaction(async (t) => {
+        const [current, docSnap] = await t.getAll(entrySnap.ref, docRef);
+        if (!current.exists || !current.updateTime?.isEqual(entrySnap.updateTime)) {
+          changed = true;
+          return;
+        }
+        const update: admin.firestore.DocumentData = buildHistoryContent(t, db, entry.Document_Id, migrated.html, docSnap.data());
+        if (entry.Chunked && !update.Chunked) {
+          Object.assign(update, {
+            Chunked: admin.firestore.FieldValue.delete(),
+            Chunk_Ids: admin.firestore.FieldValue.delete(),
+            Content_Length: admin.firestore.FieldValue.delete()
+          });
+        }
+        t.update(entrySnap.ref, update);
+      });
+
+      if (changed) {
+        report.historyEntriesSkipped.push(entrySnap.id);
+      } else {
+        report.historyEntriesMigrated++;
+        if (entry.Chunked) rechunked.add(entry.Document_Id);
+      }
+    }
+  });
+
+  for (const documentId of rechunked) {
+    report.chunksDeleted += await pruneInlineImageChunks(db, documentId);
+  }
+
+  return report;
+};
+
+/**
+ * Delete assets no document, history entry or template references any more
+ */
+export const collectOrphanedAssets = async (
+  db: admin.firestore.Firestore,
+  bucket: ReturnType<admin.storage.Storage['bucket']>,
+  { dryRun = false, graceMs = ASSET_GC_GRACE_MS }: { dryRun?: boolean; graceMs?: number } = {}
+): Promise<GcReport> => {
+  const referenced = new Set<string>();
+  for (const source of ASSET_REFERENCE_SOURCES) {
+    const collection = source.group ? db.collectionGroup(source.collection) : db.collection(source.collection);
+    await forEachDocumentPage(collection.select(...source.fields), async (docs) => {
+      docs.forEach((docSnap) => {
+        const data = docSnap.data();
+        source.fields.forEach((field) => collectAssetIds(data[field], referenced));
+      });
+    });
+  }
+
+  const report: GcReport = { dryRun, assetsScanned: 0, referenced: 0, deleted: [], keptRecent: 0 };
+  const cutoff = Date.now() - graceMs;
+
+  await forEachDocumentPage(db.collection(ASSETS_COLLECTION), async (docs) => {
+    for (const assetSnap of docs) {
+      report.assetsScanned++;
+      if (referenced.has(assetSnap.id)) {
+        report.referenced++;
+        continue;
+      }
+
+      const createdAt = assetSnap.data().Created_Time?.toMillis?.() ?? 0;
+      if (createdAt > cutoff) {
+        report.keptRecent++;
+        continue;
+      }
+
+      report.deleted.push(assetSnap.id);
+      if (dryRun) continue;
+
+      await bucket.file(assetSnap.data().Storage_Path || assetStoragePath(assetSnap.id)).delete({ ignoreNotFound: true });
+      await assetSnap.ref.delete();
+    }
+  });
+
+  logger.info(`🧹 Asset GC${dryRun ? ' (dry run)' : ''}: ${report.deleted.length} orphaned of ${report.assetsScanned} assets`);
+  return report;
+};
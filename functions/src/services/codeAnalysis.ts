@@ -0,0 +1,149 @@
+/**
+ * Code Analysis
+ * The static model of a repository's exported functions, classes, routes, CLI
+ * commands and environment variables (see ../analysis). Models are cached per
+ * commit in CodeAnalyses and handed to the model as ground truth, so generated
+ * docs name the APIs the code really has instead of ones inferred from file text.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { ANALYZER_VERSION, analyzeSourceFiles } from '../analysis/repoAnalyzer';
+import { RepoModel } from '../analysis/types';
+import { CodeIndexSource, codeIndexId, codeIndexRepositoryName, fetchSourceFiles, resolveRevision } from './codeIndex';
+
+interface CodeAnalysisRecord {
+  Repository: string;
+  Revision: string;
+  Analyzer_Version: number;
+  Model: string; // RepoModel as JSON; one field keeps Firestore from indexing every entry
+  Analyzed_Time: admin.firestore.Timestamp;
+}
+
+// Firestore documents top out at 1 MiB
+const MAX_CACHED_MODEL_CHARS = 900 * 1024;
+const DEFAULT_SUMMARY_CHARS = 12000;
+
+const analyses = (db: admin.firestore.Firestore) => db.collection('CodeAnalyses');
+
+/**
+ * The model of a repository at its latest commit (or the requested ref),
+ * analyzed on first use and served from the cache afterwards
+ */
+export const analyzeRepository = async (
+  db: admin.firestore.Firestore,
+  source: CodeIndexSource,
+  options: { force?: boolean } = {}
+): Promise<RepoModel> => {
+  const ref = analyses(db).doc(codeIndexId(source));
+  const latest = await resolveRevision(source);
+
+  if (!options.force) {
+    const cached = (await ref.get()).data() as CodeAnalysisRecord | undefined;
+    if (cached?.Revision === latest && cached.Analyzer_Version === ANALYZER_VERSION) {
+      return JSON.parse(cached.Model) as RepoModel;
+    }
+  }
+
+  const fetched = await fetchSourceFiles(source, latest);
+  const model = analyzeSourceFiles(codeIndexRepositoryName(source), fetched.revision, fetched.files);
+  logger.info(`🔬 Analyzed ${model.repository}@${model.revision.substring(0, 7)}: ${model.fileCount} files, ` +
+    `${model.functions.length} functions, ${model.routes.length} routes`);
+
+  const serialized = JSON.stringify(model);
+  if (serialized.length <= MAX_CACHED_MODEL_CHARS) {
+    const record: CodeAnalysisRecord = {
+      Repository: model.repository,
+      Revision: model.revision,
+      Analyzer_Version: ANALYZER_VERSION,
+      Model: serialized,
+      Analyzed_Time: admin.firestore.Timestamp.now()
+    };
+    await ref.set(record);
+  } else {
+    logger.warn(`⚠️ Analysis of ${model.repository} is too large to cache (${serialized.length} chars)`);
+  }
+  return model;
+};
+
+const location = (item: { path: string; line: number }): string => `${item.path}:${item.line}`;
+
+/**
+ * The model as a prompt block, most useful sections first, or '' when no file
+ * was analyzed. Sections that do not fit in `maxChars` say how many entries
+ * were left out.
+ */
+export const formatRepoModel = (model: RepoModel, maxChars: number = DEFAULT_SUMMARY_CHARS): string => {
+  // Nothing was analyzed (no supported language), so there is nothing to hold the docs to
+  if (model.fileCount === 0) {
+    return '';
+  }
+
+  const sections: Array<{ title: string; lines: string[] }> = [
+    {
+      title: 'HTTP routes',
+      lines: model.routes.map((route) => `- ${route.method} ${route.route}` +
+        `${route.handler ? ` → ${route.handler}` : ''} (${route.framework}, ${location(route)})`)
+    },
+    {
+      title: 'CLI commands',
+      lines: model.cliCommands.map((command) => `- \`${command.name}\`` +
+        `${command.description ? ` — ${command.description}` : ''}` +
+        `${command.options.length > 0 ? ` [options: ${command.options.join('; ')}]` : ''} (${command.source}, ${location(command)})`)
+    },
+    {
+      title: 'Environment variables',
+      lines: model.envVars.map((envVar) => `- ${envVar.name}` +
+        `${envVar.defaultValue !== null ? ` (default ${envVar.defaultValue})` : ''} — read in ${envVar.locations.map(location).join(', ')}`)
+    },
+    {
+      title: 'Exported functions',
+      lines: model.functions.map((fn) => `- \`${fn.signature}\`${fn.name !== 'default' && !fn.signature.includes(fn.name)
+        ? ` exported as ${fn.name}` : ''} (${location(fn)})`)
+    },
+    {
+      title: 'Exported classes',
+      lines: model.classes.map((cls) => `- \`${cls.name}\`` +
+        `${cls.extends ? ` extends ${cls.extends}` : ''}` +
+        `${cls.implements.length > 0 ? ` implements ${cls.implements.join(', ')}` : ''} (${location(cls)})` +
+        `${cls.methods.length > 0 ? `: ${cls.methods.map((method) => `\`${method}\``).join(', ')}` : ''}`)
+    }
+  ];
+
+  const output = [
+    `**STATIC ANALYSIS (ground truth extracted from the code of ${model.repository} at ${model.revision.substring(0, 7)}):**`,
+    'Use these routes, commands, environment variables and signatures exactly as listed. ' +
+    `In the ${model.languages.join('/')} code, do not document ones missing from these lists` +
+    `${model.truncated ? ' unless the files shown confirm them, since some lists were capped' : ''}.`
+  ];
+  let length = output.join('\n').length;
+
+  for (const section of sections) {
+    if (section.lines.length === 0) continue;
+    const header = `${section.title}:`;
+    if (length + header.length + section.lines[0].length + 2 > maxChars) {
+      const note = `(${section.title}: ${section.lines.length} not shown)`;
+      output.push(note);
+      length += note.length + 1;
+      continue;
+    }
+    output.push(header);
+    length += header.length + 1;
+
+    let shown = 0;
+    for (const line of section.lines) {
+      if (length + line.length + 1 > maxChars) break;
+      output.push(line);
+      length += line.length + 1;
+      shown++;
+    }
+    if (shown < section.lines.length) {
+      output.push(`- … ${section.lines.length - shown} more not shown`);
+    }
+  }
+
+  if (output.length === 2) {
+    output.push('No exported functions, classes, routes, CLI commands or environment variables were found.');
+  }
+  return output.join('\n');
+};
@@ -0,0 +1,613 @@
+/**
+ * Code Chunks
+ * Splits source files into retrieval chunks along symbol boundaries: functions,
+ * classes, exported types and HTTP routes for TypeScript/JavaScript, Python and Go.
+ * Other text files are cut into line windows. Chunking is heuristic (no parser),
+ * so code it cannot follow ends up in line windows instead of being dropped.
+ * maskCode is shared with the static analyzers in ../analysis.
+ */
+
+export type CodeChunkKind = 'function' | 'class' | 'type' | 'route' | 'module';
+
+export interface CodeChunk {
+  path: string;
+  symbol: string;
+  kind: CodeChunkKind;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  text: string;
+}
+
+interface Span {
+  symbol: string;
+  kind: CodeChunkKind;
+  start: number; // 0-based line indexes, inclusive
+  end: number;
+}
+
+const MAX_CHUNK_LINES = 120;
+const MAX_CHUNK_CHARS = 4000;
+const WINDOW_LINES = 60;
+const MIN_MODULE_CHARS = 40;
+
+const JS_EXTENSIONS = new Set(['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs']);
+
+const extensionOf = (path: string): string => {
+  const name = path.split('/').pop() || '';
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+};
+
+const baseName = (path: string): string => path.split('/').pop() || path;
+
+// ============================================================================
+// Masking
+// ============================================================================
+
+export interface MaskedSource {
+  lines: string[]; // Code with comment and string contents blanked; quotes are kept
+  openAtEnd: boolean[]; // The line ends inside a multi-line string or comment
+}
+
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+
+/**
+ * Blank out comments, strings and regex literals without moving anything, so
+ * brackets can be counted on the result and positions still match the source.
+ * Quote characters stay in place to tell string starts apart from code.
+ * Go backtick strings are raw; JavaScript template literals take escapes.
+ */
+export const maskCode = (source: string, rawBackticks: boolean): MaskedSource => {
+  const out = source.split('');
+  const openNewlines = new Set<number>();
+  const length = source.length;
+
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) {
+      if (out[k] === '\n') {
+        openNewlines.add(k);
+      } else {
+        out[k] = ' ';
+      }
+    }
+  };
+
+  let lastSignificant = '';
+  let i = 0;
+  while (i < length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '"' || ch === '\'' || ch === '`') {
+      // Only template literals (and Go raw strings) may span lines
+      let j = i + 1;
+      while (j < length && source[j] !== ch) {
+        if (source[j] === '\\' && !(ch === '`' && rawBackticks)) {
+          j++;
+        } else if (source[j] === '\n' && ch !== '`') {
+          break;
+        }
+        j++;
+      }
+      blank(i + 1, Math.min(j, length));
+      i = Math.min(j + 1, length);
+      lastSignificant = ch;
+      continue;
+    }
+    if (ch === '/' && (lastSignificant === '' || REGEX_PRECEDERS.includes(lastSignificant))) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < length && source[j] !== '\n') {
+        const c = source[j];
+        if (c === '\\') {
+          j += 2;
+          continue;
+        }
+        if (c === '[') {
+          inClass = true;
+        } else if (c === ']') {
+          inClass = false;
+        } else if (c === '/' && !inClass) {
+          break;
+        }
+        j++;
+      }
+      if (source[j] === '/') {
+        blank(i + 1, j);
+        i = j + 1;
+        lastSignificant = '/';
+        continue;
+      }
+    }
+
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch;
+    }
+    i++;
+  }
+
+  const masked = out.join('');
+  const lines = masked.split('\n');
+  const openAtEnd: boolean[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    openAtEnd.push(openNewlines.has(offset + line.length));
+    offset += line.length + 1;
+  }
+  return { lines, openAtEnd };
+};
+
+const bracketDelta = (line: string): number => {
+  let delta = 0;
+  for (const ch of line) {
+    if (ch === '{' || ch === '(' || ch === '[') delta++;
+    else if (ch === '}' || ch === ')' || ch === ']') delta--;
+  }
+  return delta;
+};
+
+const CONTINUED_LINE_END = /(?:[,=([{+\-*/&|?:.<]|=>)$/;
+const CONTINUING_LINE_START = /^(?:[.?:)\]{]|&&|\|\||=>|extends\b|implements\b)/;
+
+/**
+ * Last line of the statement that starts on line `start`: brackets are balanced
+ * and neither this line nor the next one says the statement goes on.
+ */
+const statementEnd = (masked: MaskedSource, start: number, limit: number): number => {
+  const { lines, openAtEnd } = masked;
+  let depth = 0;
+  for (let i = start; i <= limit; i++) {
+    depth += bracketDelta(lines[i]);
+    const trimmed = lines[i].trim();
+    if (depth < 0) {
+      return i;
+    }
+    if (depth > 0 || openAtEnd[i] || !trimmed || CONTINUED_LINE_END.test(trimmed)) {
+      continue;
+    }
+
+    let nextIndex = i + 1;
+    while (nextIndex < lines.length && !lines[nextIndex].trim()) nextIndex++;
+    if (nextIndex < lines.length && CONTINUING_LINE_START.test(lines[nextIndex].trim())) {
+      continue;
+    }
+    return i;
+  }
+  return limit;
+};
+
+// Line of the bracket closing the one at `line`/`column`, or the last line when it never closes
+const matchingBracket = (masked: MaskedSource, line: number, column: number): number => {
+  let depth = 0;
+  for (let i = line; i < masked.lines.length; i++) {
+    const text = masked.lines[i];
+    for (let c = i === line ? column : 0; c < text.length; c++) {
+      const ch = text[c];
+      if (ch === '{' || ch === '(' || ch === '[') depth++;
+      else if (ch === '}' || ch === ')' || ch === ']') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+  }
+  return masked.lines.length - 1;
+};
+
+// ============================================================================
+// TypeScript / JavaScript and Go
+// ============================================================================
+
+interface Declaration {
+  pattern: RegExp;
+  kind: CodeChunkKind;
+  name: (match: RegExpMatchArray) => string | null;
+}
+
+const JS_DECLARATIONS: Declaration[] = [
+  { pattern: /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, kind: 'function', name: (m) => m[1] },
+  { pattern: /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, kind: 'class', name: (m) => m[1] },
+  { pattern: /^export\s+(?:declare\s+)?(?:const\s+)?(?:interface|type|enum)\s+([A-Za-z_$][\w$]*)/, kind: 'type', name: (m) => m[1] },
+  {
+    pattern: /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\(\s*$)/,
+    kind: 'function',
+    name: (m) => m[1]
+  },
+  { pattern: /^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\()/, kind: 'function', name: (m) => m[1] },
+  // Other exported values (config objects, provider tables) keep their name as the symbol
+  { pattern: /^export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, kind: 'module', name: (m) => m[1] }
+];
+
+const GO_DECLARATIONS: Declaration[] = [
+  { pattern: /^func\s+\(\s*\w*\s*\*?([\w.]+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/, kind: 'function', name: (m) => `${m[1]}.${m[2]}` },
+  { pattern: /^func\s+(\w+)/, kind: 'function', name: (m) => m[1] },
+  // Only exported types, like the exported TypeScript types
+  { pattern: /^type\s+([A-Z]\w*)\b/, kind: 'type', name: (m) => m[1] }
+];
+
+const isCommentLine = (trimmed: string): boolean => {
+  return trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*');
+};
+
+// Walk the statements between two lines, attaching the comments and decorators right above a declaration
+const findDeclarations = (
+  lines: string[],
+  masked: MaskedSource,
+  declarations: Declaration[],
+  from = 0,
+  to = lines.length - 1
+): Span[] => {
+  const spans: Span[] = [];
+  let leading = -1;
+  let i = from;
+
+  while (i <= to) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) {
+      leading = -1;
+      i++;
+      continue;
+    }
+
+    if (isCommentLine(trimmed)) {
+      if (leading === -1) leading = i;
+      if (trimmed.startsWith('/*')) {
+        while (i < to && !lines[i].includes('*/')) i++;
+      }
+      i++;
+      continue;
+    }
+
+    const end = statementEnd(masked, i, to);
+    if (trimmed.startsWith('@')) {
+      if (leading === -1) leading = i;
+      i = end + 1;
+      continue;
+    }
+
+    for (const declaration of declarations) {
+      const match = trimmed.match(declaration.pattern);
+      const name = match && declaration.name(match);
+      if (name) {
+        spans.push({ symbol: name, kind: declaration.kind, start: leading === -1 ? i : leading, end });
+        break;
+      }
+    }
+    leading = -1;
+    i = end + 1;
+  }
+  return spans;
+};
+
+const CLASS_MEMBER_MODIFIERS = '(?:(?:public|private|protected|static|async|readonly|override|abstract|declare|get|set)\\s+)*';
+
+const JS_CLASS_MEMBERS: Declaration[] = [
+  {
+    pattern: new RegExp(`^${CLASS_MEMBER_MODIFIERS}\\*?\\s*(#?[A-Za-z_$][\\w$]*)\\s*(?:<[^>]*>)?\\s*\\(`),
+    kind: 'function',
+    name: (m) => m[1]
+  },
+  {
+    pattern: new RegExp(`^${CLASS_MEMBER_MODIFIERS}(#?[A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:\\([^)]*\\)|[A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=>`),
+    kind: 'function',
+    name: (m) => m[1]
+  }
+];
+
+// Methods declared directly in a class body
+const findClassMembers = (lines: string[], masked: MaskedSource, span: Span): Span[] => {
+  for (let i = span.start; i <= span.end; i++) {
+    if (!/^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\b/.test(lines[i].trim())) continue;
+    for (let j = i; j <= span.end; j++) {
+      const column = masked.lines[j].indexOf('{');
+      if (column !== -1) {
+        const close = matchingBracket(masked, j, column);
+        return findDeclarations(lines, masked, JS_CLASS_MEMBERS, j + 1, Math.min(close, span.end) - 1);
+      }
+    }
+  }
+  return [];
+};
+
+const JS_ROUTE = /\b([A-Za-z_$][\w$]*)\.(get|post|put|patch|delete|del|all|options|head)\s*\(\s*(['"`])(\/[^'"`]*|\*)\3/g;
+const FASTIFY_ROUTE = /\b([A-Za-z_$][\w$]*)\.route\s*\(\s*\{/g;
+const GO_ROUTE = /\.(HandleFunc|Handle|GET|POST|PUT|PATCH|DELETE|Get|Post|Put|Patch|Delete|Any)\s*\(\s*"([^"]*\/[^"]*)"/g;
+
+const routeMethod = (method: string): string => {
+  const upper = method.toUpperCase();
+  return upper === 'DEL' ? 'DELETE' : upper;
+};
+
+// Route registrations anywhere in the file, from the call to its closing parenthesis
+const findRoutes = (lines: string[], masked: MaskedSource, language: 'js' | 'go'): Span[] => {
+  const spans: Span[] = [];
+  let coveredUntil = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (i <= coveredUntil) continue;
+    const patterns = language === 'js' ? [JS_ROUTE, FASTIFY_ROUTE] : [GO_ROUTE];
+
+    for (const pattern of patterns) {
+      pattern.lastIndex = 0;
+      const match = pattern.exec(lines[i]);
+      // The match must start in code, not inside a comment or string
+      if (!match || masked.lines[i][match.index] !== lines[i][match.index]) continue;
+
+      const open = lines[i].indexOf('(', match.index);
+      const end = matchingBracket(masked, i, open);
+      let symbol: string | null = null;
+
+      if (pattern === JS_ROUTE) {
+        symbol = `${routeMethod(match[2])} ${match[4]}`;
+      } else if (pattern === FASTIFY_ROUTE) {
+        const body = lines.slice(i, end + 1).join('\n');
+        const method = body.match(/method\s*:\s*\[?\s*['"](\w+)['"]/);
+        const url = body.match(/(?:url|path)\s*:\s*['"]([^'"]+)['"]/);
+        symbol = url ? `${method ? routeMethod(method[1]) : 'ALL'} ${url[1]}` : null;
+      } else {
+        const pathMatch = match[2].match(/^([A-Z]+)\s+(\/.*)$/);
+        symbol = pathMatch
+          ? `${pathMatch[1]} ${pathMatch[2]}`
+          : `${match[1].startsWith('Handle') ? 'ANY' : routeMethod(match[1])} ${match[2]}`;
+      }
+
+      if (symbol) {
+        spans.push({ symbol, kind: 'route', start: i, end });
+        coveredUntil = end;
+        break;
+      }
+    }
+  }
+  return spans;
+};
+
+// ============================================================================
+// Python
+// ============================================================================
+
+const PY_ROUTE_DECORATOR = /^@\w+(?:\.\w+)*\.(get|post|put|patch|delete|route|api_route|websocket)\(\s*(?:path\s*=\s*)?(['"])([^'"]*)\2(.*)$/;
+
+const findPythonSpans = (lines: string[]): Span[] => {
+  // Lines that begin a new top-level statement, ignoring docstrings and closing brackets
+  const topLevel: boolean[] = [];
+  let inString: string | null = null;
+  for (const line of lines) {
+    const startsInString = inString !== null;
+    for (const quote of line.match(/"""|'''/g) || []) {
+      if (inString === null) inString = quote;
+      else if (inString === quote) inString = null;
+    }
+    topLevel.push(!startsInString && /^[^\s#)\]}]/.test(line));
+  }
+
+  const spans: Span[] = [];
+  let leading = -1;
+  let route: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!topLevel[i]) {
+      if (!lines[i].trim()) {
+        leading = -1;
+        route = null;
+      } else if (lines[i].startsWith('#') && leading === -1) {
+        leading = i;
+      }
+      continue;
+    }
+
+    const line = lines[i];
+    if (line.startsWith('@')) {
+      if (leading === -1) leading = i;
+      const decorator = line.match(PY_ROUTE_DECORATOR);
+      if (decorator) {
+        const methods = decorator[4].match(/methods\s*=\s*\[\s*['"](\w+)['"]/);
+        const method = decorator[1] === 'route' || decorator[1] === 'api_route'
+          ? (methods ? methods[1].toUpperCase() : 'GET')
+          : decorator[1].toUpperCase();
+        route = `${method} ${decorator[3]}`;
+      }
+      continue;
+    }
+
+    const declaration = line.match(/^(?:async\s+)?def\s+(\w+)/) || line.match(/^class\s+(\w+)/);
+    if (declaration) {
+      let end = i;
+      for (let j = i + 1; j < lines.length && !topLevel[j]; j++) {
+        if (lines[j].trim()) end = j;
+      }
+      // A comment right above the next statement belongs to it
+      while (end > i && lines[end].startsWith('#')) end--;
+      spans.push({
+        symbol: route || declaration[1],
+        kind: route ? 'route' : line.startsWith('class') ? 'class' : 'function',
+        start: leading === -1 ? i : leading,
+        end
+      });
+    }
+    leading = -1;
+    route = null;
+  }
+  return spans;
+};
+
+// Methods one indent level into a class, with their decorators and comments
+const findPythonClassMembers = (lines: string[], span: Span): Span[] => {
+  const definitions: Array<{ line: number; indent: number; name: string }> = [];
+  for (let i = span.start + 1; i <= span.end; i++) {
+    const match = lines[i].match(/^(\s+)(?:async\s+)?def\s+(\w+)/);
+    if (match) definitions.push({ line: i, indent: match[1].length, name: match[2] });
+  }
+  const indent = Math.min(...definitions.map((definition) => definition.indent));
+  const methods = definitions.filter((definition) => definition.indent === indent);
+
+  const starts = methods.map(({ line }) => {
+    let start = line;
+    while (start - 1 > span.start && /^\s+[@#]/.test(lines[start - 1]) && lines[start - 1].search(/\S/) === indent) start--;
+    return start;
+  });
+  return methods.map((method, index) => {
+    let end = index + 1 < starts.length ? starts[index + 1] - 1 : span.end;
+    while (end > method.line && !lines[end].trim()) end--;
+    return { symbol: method.name, kind: 'function' as const, start: starts[index], end };
+  });
+};
+
+// ============================================================================
+// Chunks
+// ============================================================================
+
+const isOversized = (lines: string[], span: Span): boolean => {
+  return span.end - span.start + 1 > MAX_CHUNK_LINES
+    || lines.slice(span.start, span.end + 1).join('\n').length > MAX_CHUNK_CHARS;
+};
+
+// An oversized class becomes one chunk per method plus the outline around them
+const splitClass = (lines: string[], span: Span, members: Span[]): Span[] => {
+  if (members.length === 0) {
+    return [span];
+  }
+  const covered = lines.map((_, i) => i < span.start || i > span.end);
+  for (const member of members) {
+    for (let i = member.start; i <= member.end; i++) covered[i] = true;
+  }
+  return [
+    ...moduleSpans(lines, covered, span.symbol, 'class'),
+    ...members.map((member) => ({ ...member, symbol: `${span.symbol}.${member.symbol}` }))
+  ];
+};
+
+// Cut a span that is too large to embed into parts, preferring blank lines as cut points
+const splitSpan = (lines: string[], span: Span): Span[] => {
+  const parts: Span[] = [];
+  let start = span.start;
+
+  while (start <= span.end) {
+    let end = start;
+    let chars = 0;
+    while (end <= span.end && end - start < MAX_CHUNK_LINES && chars + lines[end].length <= MAX_CHUNK_CHARS) {
+      chars += lines[end].length + 1;
+      end++;
+    }
+    end = Math.max(end - 1, start);
+
+    if (end < span.end) {
+      const minimum = start + Math.floor((end - start) * 2 / 3);
+      for (let cut = end; cut > minimum; cut--) {
+        if (!lines[cut].trim()) {
+          end = cut;
+          break;
+        }
+      }
+    }
+    parts.push({ ...span, start, end });
+    start = end + 1;
+  }
+
+  if (parts.length === 1) {
+    return parts;
+  }
+  return parts.map((part, index) => ({ ...part, symbol: `${span.symbol} (part ${index + 1})` }));
+};
+
+// Everything not covered by a symbol, grouped into runs of neighbouring lines
+const moduleSpans = (lines: string[], covered: boolean[], symbol: string, kind: CodeChunkKind = 'module'): Span[] => {
+  const spans: Span[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (covered[i] || !lines[i].trim()) {
+      i++;
+      continue;
+    }
+    let end = i;
+    let j = i;
+    while (j < lines.length && !covered[j]) {
+      if (lines[j].trim()) end = j;
+      j++;
+    }
+    const text = lines.slice(i, end + 1).join('\n');
+    if (text.trim().length >= MIN_MODULE_CHARS) {
+      spans.push({ symbol, kind, start: i, end });
+    }
+    i = j;
+  }
+  return spans;
+};
+
+const windowSpans = (lines: string[], symbol: string): Span[] => {
+  const spans: Span[] = [];
+  for (let start = 0; start < lines.length; start += WINDOW_LINES) {
+    const end = Math.min(start + WINDOW_LINES, lines.length) - 1;
+    if (lines.slice(start, end + 1).join('\n').trim().length >= MIN_MODULE_CHARS) {
+      spans.push({ symbol, kind: 'module', start, end });
+    }
+  }
+  return spans;
+};
+
+export const isChunkedLanguage = (path: string): boolean => {
+  const extension = extensionOf(path);
+  return JS_EXTENSIONS.has(extension) || extension === 'py' || extension === 'go';
+};
+
+/**
+ * Split one file into chunks. Symbols come first in file order, followed by the
+ * module-level code around them; every chunk fits within the embedding limits.
+ */
+export const chunkSource = (path: string, content: string): CodeChunk[] => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n').map((line) => line.length > MAX_CHUNK_CHARS
+    ? line.substring(0, MAX_CHUNK_CHARS)
+    : line);
+  const extension = extensionOf(path);
+  const fileSymbol = baseName(path);
+
+  let spans: Span[];
+  if (JS_EXTENSIONS.has(extension) || extension === 'go') {
+    const language = extension === 'go' ? 'go' : 'js';
+    const masked = maskCode(lines.join('\n'), language === 'go');
+    const declarations = findDeclarations(lines, masked, language === 'go' ? GO_DECLARATIONS : JS_DECLARATIONS)
+      .flatMap((span) => span.kind === 'class' && isOversized(lines, span)
+        ? splitClass(lines, span, findClassMembers(lines, masked, span))
+        : [span]);
+    spans = [...declarations, ...findRoutes(lines, masked, language)];
+  } else if (extension === 'py') {
+    spans = findPythonSpans(lines).flatMap((span) => span.kind === 'class' && isOversized(lines, span)
+      ? splitClass(lines, span, findPythonClassMembers(lines, span))
+      : [span]);
+  } else {
+    spans = [];
+  }
+
+  if (spans.length > 0 || isChunkedLanguage(path)) {
+    const covered = new Array<boolean>(lines.length).fill(false);
+    for (const span of spans) {
+      for (let i = span.start; i <= span.end; i++) covered[i] = true;
+    }
+    spans = [...spans.sort((a, b) => a.start - b.start), ...moduleSpans(lines, covered, fileSymbol)];
+  } else {
+    spans = windowSpans(lines, fileSymbol);
+  }
+
+  return spans
+    .flatMap((span) => splitSpan(lines, span))
+    .map((span) => ({
+      path,
+      symbol: span.symbol,
+      kind: span.kind,
+      startLine: span.start + 1,
+      endLine: span.end + 1,
+      text: lines.slice(span.start, span.end + 1).join('\n')
+    }))
+    .filter((chunk) => chunk.text.trim().length > 0);
+};
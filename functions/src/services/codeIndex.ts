@@ -0,0 +1,561 @@
+/**
+ * Code Index
+ * Semantic search over a repository's source code. A repository is fetched at
+ * one commit (a GitHub tarball, or a git clone for other remotes and local
+ * checkouts), split into symbol chunks by codeChunks and embedded.
+ * Each index is a CodeIndexes record with a Chunks subcollection. Chunk IDs hash
+ * their content, so indexing a new commit only embeds the chunks that changed.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { chunkSource, CodeChunk, CodeChunkKind } from './codeChunks';
+import { githubHeaders } from './githubAccess';
+import { embedLLM, resolveEmbeddingSelection } from '../llm/llmClient';
+
+const execFileAsync = promisify(execFile);
+
+export type CodeIndexSource =
+  | { type: 'github'; owner: string; repo: string; ref?: string | null; token?: string | null }
+  | { type: 'git'; url: string; ref?: string | null }; // Any git remote, or a local repository path
+
+export type CodeIndexStatus = 'indexing' | 'ready' | 'failed';
+
+interface CodeIndexRecord {
+  Repository: string;
+  Source: CodeIndexSource['type'];
+  Revision: string | null; // Commit of the last completed index
+  Embedding_Provider: string;
+  Embedding_Model: string;
+  Status: CodeIndexStatus;
+  File_Count: number;
+  Chunk_Count: number;
+  Error: string | null;
+  Indexed_Time: admin.firestore.Timestamp | null;
+  Updated_Time: admin.firestore.Timestamp;
+}
+
+interface ChunkRecord {
+  Path: string;
+  Symbol: string;
+  Kind: CodeChunkKind;
+  Start_Line: number;
+  End_Line: number;
+  Content: string;
+  Embedding: number[];
+}
+
+export interface CodeIndexView {
+  id: string;
+  repository: string;
+  source: CodeIndexSource['type'];
+  revision: string | null;
+  status: CodeIndexStatus;
+  fileCount: number;
+  chunkCount: number;
+  embeddingModel: string;
+  error: string | null;
+  indexedAt: string | null;
+}
+
+export interface CodeSearchResult {
+  path: string;
+  symbol: string;
+  kind: CodeChunkKind;
+  startLine: number;
+  endLine: number;
+  content: string;
+  score: number;
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+// An index that has not saved progress for this long lost its instance
+const INDEXING_LEASE_MS = 10 * 60 * 1000;
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+const MAX_UNPACKED_BYTES = 400 * 1024 * 1024;
+const MAX_FILE_BYTES = 200 * 1024;
+const MAX_INDEXED_FILES = 2000;
+const MAX_CHUNKS = 6000;
+const EMBED_WRITE_BATCH = 200;
+const FIRESTORE_BATCH_LIMIT = 400;
+const DEFAULT_SEARCH_LIMIT = 8;
+const MAX_SEARCH_LIMIT = 25;
+const GIT_TIMEOUT_MS = 120 * 1000;
+
+const INDEXED_EXTENSIONS = new Set([
+  'ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'py', 'go', 'rb', 'java', 'kt', 'rs', 'php',
+  'cs', 'swift', 'scala', 'c', 'h', 'cc', 'cpp', 'hpp', 'vue', 'svelte', 'sql', 'graphql', 'gql',
+  'prisma', 'proto', 'sh', 'md', 'mdx', 'json', 'yml', 'yaml', 'toml'
+]);
+const INDEXED_NAMES = new Set(['Dockerfile', 'Makefile', 'Procfile']);
+const SKIPPED_DIRECTORIES = new Set([
+  'node_modules', 'vendor', 'dist', 'build', 'out', 'coverage', '.git', '.next', '.nuxt',
+  '__pycache__', '.venv', 'venv', 'target', 'bin', 'obj', '.turbo', '.cache'
+]);
+const SKIPPED_FILES = new Set([
+  'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'composer.lock',
+  'Gemfile.lock', 'Cargo.lock', 'poetry.lock', 'go.sum'
+]);
+
+const indexes = (db: admin.firestore.Firestore) => db.collection('CodeIndexes');
+
+export const isIndexedPath = (filePath: string): boolean => {
+  const segments = filePath.split('/');
+  const name = segments[segments.length - 1];
+  if (segments.slice(0, -1).some((segment) => SKIPPED_DIRECTORIES.has(segment)) || SKIPPED_FILES.has(name)) {
+    return false;
+  }
+  if (/\.min\.(js|css)$/.test(name) || name.endsWith('.map') || name.endsWith('.d.ts')) {
+    return false;
+  }
+  return INDEXED_NAMES.has(name) || INDEXED_EXTENSIONS.has(name.includes('.') ? name.split('.').pop()!.toLowerCase() : '');
+};
+
+const decodeText = (data: Buffer): string | null => {
+  if (data.length > MAX_FILE_BYTES || data.subarray(0, 8000).includes(0)) {
+    return null;
+  }
+  return data.toString('utf-8');
+};
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+// Local paths are cloned through file:// so shallow clones are honoured
+const gitUrl = (url: string): string => (path.isAbsolute(url) ? `file://${url}` : url);
+
+// Credentials in a remote URL never end up in a record or a log line
+const displayUrl = (url: string): string => url.replace(/\/\/[^/@]+@/, '//');
+
+// "owner/repo" or a github.com URL
+export const parseGitHubRepository = (value: unknown): { owner: string; repo: string } | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().match(/^(?:https?:\/\/(?:www\.)?github\.com\/)?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+  if (!match || [match[1], match[2]].some((name) => /^\.+$/.test(name))) {
+    return null;
+  }
+  return { owner: match[1], repo: match[2] };
+};
+
+export const codeIndexId = (source: CodeIndexSource): string => {
+  if (source.type === 'github') {
+    return `${source.owner}__${source.repo}`.toLowerCase().replace(/[^a-z0-9_.-]/g, '_');
+  }
+  return `git_${crypto.createHash('sha1').update(displayUrl(source.url)).digest('hex').slice(0, 16)}`;
+};
+
+export const codeIndexRepositoryName = (source: CodeIndexSource): string => {
+  return source.type === 'github' ? `${source.owner}/${source.repo}` : displayUrl(source.url);
+};
+
+const git = async (args: string[], cwd?: string): Promise<string> => {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    timeout: GIT_TIMEOUT_MS,
+    maxBuffer: 64 * 1024 * 1024,
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+  });
+  return stdout;
+};
+
+// The commit a ref points at, without downloading the repository
+export const resolveRevision = async (source: CodeIndexSource): Promise<string> => {
+  if (source.type === 'git') {
+    const output = await git(['ls-remote', gitUrl(source.url), source.ref || 'HEAD']);
+    const sha = output.split(/\s/)[0];
+    if (!/^[0-9a-f]{40}$/.test(sha)) {
+      throw new Error(`Could not find ${source.ref || 'HEAD'} in ${displayUrl(source.url)}`);
+    }
+    return sha;
+  }
+
+  const base = `https://api.github.com/repos/${source.owner}/${source.repo}`;
+  let ref = source.ref;
+  if (!ref) {
+    const repoResponse = await fetch(base, { headers: githubHeaders(source.token) });
+    if (!repoResponse.ok) {
+      throw new Error(`Could not open repository ${source.owner}/${source.repo}: GitHub answered ${repoResponse.status}`);
+    }
+    ref = ((await repoResponse.json()) as { default_branch: string }).default_branch;
+  }
+
+  const response = await fetch(`${base}/commits/${encodeURIComponent(ref)}`, {
+    headers: { ...githubHeaders(source.token), Accept: 'application/vnd.github.sha' }
+  });
+  if (!response.ok) {
+    throw new Error(`Could not resolve ${ref} in ${source.owner}/${source.repo}: GitHub answered ${response.status}`);
+  }
+  return (await response.text()).trim();
+};
+
+// Reads plain files out of a tar archive (ustar with pax and GNU long names)
+const readTar = (archive: Buffer): Array<{ path: string; data: Buffer }> => {
+  const entries: Array<{ path: string; data: Buffer }> = [];
+  const text = (buffer: Buffer) => buffer.toString('utf-8').replace(/\0[\s\S]*$/, '');
+  let offset = 0;
+  let longPath: string | null = null;
+
+  while (offset + 512 <= archive.length) {
+    const header = archive.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(text(header.subarray(124, 136)).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = text(header.subarray(257, 263)).startsWith('ustar') ? text(header.subarray(345, 500)) : '';
+    const name = prefix ? `${prefix}/${text(header.subarray(0, 100))}` : text(header.subarray(0, 100));
+    const data = archive.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'x') {
+      // Pax records: "<length> <key>=<value>\n"
+      const record = text(data).split('\n').find((line) => / path=/.test(line));
+      longPath = record ? record.slice(record.indexOf('=') + 1) : longPath;
+      continue;
+    }
+    if (type === 'L') {
+      longPath = text(data);
+      continue;
+    }
+    if (type === '0' || type === '\0') {
+      entries.push({ path: longPath || name, data });
+    }
+    longPath = null;
+  }
+  return entries;
+};
+
+const fetchGitHubFiles = async (source: Extract<CodeIndexSource, { type: 'github' }>, revision: string): Promise<SourceFile[]> => {
+  const response = await fetch(`https://api.github.com/repos/${source.owner}/${source.repo}/tarball/${revision}`, {
+    headers: githubHeaders(source.token)
+  });
+  if (!response.ok) {
+    throw new Error(`Could not download ${source.owner}/${source.repo}: GitHub answered ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length') || 0) > MAX_ARCHIVE_BYTES) {
+    throw new Error(`${source.owner}/${source.repo} is too large to index`);
+  }
+
+  const archive = Buffer.from(await response.arrayBuffer());
+  if (archive.length > MAX_ARCHIVE_BYTES) {
+    throw new Error(`${source.owner}/${source.repo} is too large to index`);
+  }
+
+  const files: SourceFile[] = [];
+  for (const entry of readTar(zlib.gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BYTES }))) {
+    // Entries sit under an "<owner>-<repo>-<sha>/" directory
+    const filePath = entry.path.split('/').slice(1).join('/');
+    const content = filePath && isIndexedPath(filePath) ? decodeText(entry.data) : null;
+    if (content !== null) {
+      files.push({ path: filePath, content });
+    }
+  }
+  return files;
+};
+
+const fetchGitFiles = async (source: Extract<CodeIndexSource, { type: 'git' }>): Promise<{ revision: string; files: SourceFile[] }> => {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'code-index-'));
+  try {
+    await git(['clone', '--quiet', '--depth', '1', ...(source.ref ? ['--branch', source.ref] : []), gitUrl(source.url), directory]);
+    const revision = (await git(['rev-parse', 'HEAD'], directory)).trim();
+    const paths = (await git(['ls-files', '-z'], directory)).split('\0').filter(isIndexedPath);
+
+    const files: SourceFile[] = [];
+    for (const filePath of paths) {
+      const content = decodeText(await fs.promises.readFile(path.join(directory, filePath)).catch(() => Buffer.alloc(0)));
+      if (content) {
+        files.push({ path: filePath, content });
+      }
+    }
+    return { revision, files };
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+};
+
+// The repository's text files at `revision`; git sources are cloned at their ref
+export const fetchSourceFiles = async (source: CodeIndexSource, revision: string): Promise<{ revision: string; files: SourceFile[] }> => {
+  return source.type === 'github'
+    ? { revision, files: await fetchGitHubFiles(source, revision) }
+    : fetchGitFiles(source);
+};
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+const toView = (id: string, record: CodeIndexRecord): CodeIndexView => ({
+  id,
+  repository: record.Repository,
+  source: record.Source,
+  revision: record.Revision,
+  status: record.Status,
+  fileCount: record.File_Count || 0,
+  chunkCount: record.Chunk_Count || 0,
+  embeddingModel: record.Embedding_Model,
+  error: record.Error || null,
+  indexedAt: record.Indexed_Time ? record.Indexed_Time.toDate().toISOString() : null
+});
+
+export const getCodeIndex = async (db: admin.firestore.Firestore, indexId: string): Promise<CodeIndexView | null> => {
+  const snapshot = await indexes(db).doc(indexId).get();
+  return snapshot.exists ? toView(indexId, snapshot.data() as CodeIndexRecord) : null;
+};
+
+const chunkId = (chunk: CodeChunk, model: string): string => {
+  return crypto
+    .createHash('sha1')
+    .update([model, chunk.path, chunk.kind, chunk.symbol, chunk.text].join('\n'))
+    .digest('hex')
+    .slice(0, 32);
+};
+
+const embeddingText = (chunk: CodeChunk): string => `${chunk.path} (${chunk.kind} ${chunk.symbol})\n\n${chunk.text}`;
+
+const commitInBatches = async (
+  db: admin.firestore.Firestore,
+  operations: Array<(batch: admin.firestore.WriteBatch) => void>
+): Promise<void> => {
+  for (let start = 0; start < operations.length; start += FIRESTORE_BATCH_LIMIT) {
+    const batch = db.batch();
+    operations.slice(start, start + FIRESTORE_BATCH_LIMIT).forEach((operation) => operation(batch));
+    await batch.commit();
+  }
+};
+
+/**
+ * Bring the index for a repository up to date with its latest commit (or the
+ * requested ref). Returns at once when the index already covers that commit, or
+ * when another run is indexing it; check the returned status.
+ */
+export const indexRepository = async (
+  db: admin.firestore.Firestore,
+  source: CodeIndexSource,
+  options: { force?: boolean; report?: (message: string) => void } = {}
+): Promise<CodeIndexView> => {
+  const id = codeIndexId(source);
+  const ref = indexes(db).doc(id);
+  const selection = resolveEmbeddingSelection();
+  const embeddingModel = `${selection.provider}:${selection.model}`;
+  const report = options.report || (() => undefined);
+
+  const latest = await resolveRevision(source);
+
+  const claimed = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const existing = snapshot.data() as CodeIndexRecord | undefined;
+    const upToDate = existing?.Status === 'ready'
+      && existing.Revision === latest
+      && `${existing.Embedding_Provider}:${existing.Embedding_Model}` === embeddingModel;
+    const busy = existing?.Status === 'indexing'
+      && Date.now() - existing.Updated_Time.toMillis() < INDEXING_LEASE_MS;
+    if (existing && ((upToDate && !options.force) || busy)) {
+      return { claimed: false, record: existing };
+    }
+
+    const record: CodeIndexRecord = {
+      Repository: codeIndexRepositoryName(source),
+      Source: source.type,
+      Revision: existing?.Revision || null,
+      Embedding_Provider: existing?.Embedding_Provider || selection.provider,
+      Embedding_Model: existing?.Embedding_Model || selection.model,
+      Status: 'indexing',
+      File_Count: existing?.File_Count || 0,
+      Chunk_Count: existing?.Chunk_Count || 0,
+      Error: null,
+      Indexed_Time: existing?.Indexed_Time || null,
+      Updated_Time: admin.firestore.Timestamp.now()
+    };
+    transaction.set(ref, record);
+    return { claimed: true, record };
+  });
+
+  if (!claimed.claimed) {
+    return toView(id, claimed.record);
+  }
+
+  try {
+    report(`Downloading ${codeIndexRepositoryName(source)}...`);
+    const fetched = await fetchSourceFiles(source, latest);
+    const files = fetched.files.slice(0, MAX_INDEXED_FILES);
+
+    const chunks = new Map<string, CodeChunk>();
+    for (const file of files) {
+      for (const chunk of chunkSource(file.path, file.content)) {
+        if (chunks.size >= MAX_CHUNKS) break;
+        chunks.set(chunkId(chunk, embeddingModel), chunk);
+      }
+    }
+
+    const existing = await ref.collection('Chunks').select('Start_Line', 'End_Line').get();
+    const stored = new Map(existing.docs.map((doc) => [doc.id, doc.data()]));
+    const added = [...chunks.entries()].filter(([chunkKey]) => !stored.has(chunkKey));
+    report(`Chunked ${files.length} files into ${chunks.size} chunks, ${added.length} to embed`);
+
+    for (let start = 0; start < added.length; start += EMBED_WRITE_BATCH) {
+      const slice = added.slice(start, start + EMBED_WRITE_BATCH);
+      const vectors = await embedLLM(selection, slice.map(([, chunk]) => embeddingText(chunk)), 'document');
+      await commitInBatches(db, slice.map(([chunkKey, chunk], index) => (batch) => {
+        const record: ChunkRecord = {
+          Path: chunk.path,
+          Symbol: chunk.symbol,
+          Kind: chunk.kind,
+          Start_Line: chunk.startLine,
+          End_Line: chunk.endLine,
+          Content: chunk.text,
+          Embedding: vectors[index]
+        };
+        batch.set(ref.collection('Chunks').doc(chunkKey), record);
+      }));
+      // Keeps the lease alive while a large repository is embedded
+      await ref.update({ Updated_Time: admin.firestore.Timestamp.now() });
+      report(`Embedded ${Math.min(start + EMBED_WRITE_BATCH, added.length)}/${added.length} chunks`);
+    }
+
+    // Unchanged code that moved only needs its line numbers updated
+    const moved = [...chunks.entries()].filter(([chunkKey, chunk]) => {
+      const previous = stored.get(chunkKey);
+      return previous && (previous.Start_Line !== chunk.startLine || previous.End_Line !== chunk.endLine);
+    });
+    const removed = [...stored.keys()].filter((chunkKey) => !chunks.has(chunkKey));
+    await commitInBatches(db, [
+      ...moved.map(([chunkKey, chunk]) => (batch: admin.firestore.WriteBatch) => {
+        batch.update(ref.collection('Chunks').doc(chunkKey), { Start_Line: chunk.startLine, End_Line: chunk.endLine });
+      }),
+      ...removed.map((chunkKey) => (batch: admin.firestore.WriteBatch) => {
+        batch.delete(ref.collection('Chunks').doc(chunkKey));
+      })
+    ]);
+
+    const now = admin.firestore.Timestamp.now();
+    const record: CodeIndexRecord = {
+      ...claimed.record,
+      Revision: fetched.revision,
+      Embedding_Provider: selection.provider,
+      Embedding_Model: selection.model,
+      Status: 'ready',
+      File_Count: files.length,
+      Chunk_Count: chunks.size,
+      Error: null,
+      Indexed_Time: now,
+      Updated_Time: now
+    };
+    await ref.set(record);
+    searchCache.delete(id);
+    logger.info(`✅ Indexed ${record.Repository} at ${fetched.revision}: ${chunks.size} chunks (${added.length} embedded, ${removed.length} removed)`);
+    return toView(id, record);
+  } catch (error) {
+    logger.error(`❌ Failed to index ${codeIndexRepositoryName(source)}:`, error);
+    await ref.update({
+      Status: 'failed',
+      Error: error instanceof Error ? error.message : 'Indexing failed',
+      Updated_Time: admin.firestore.Timestamp.now()
+    });
+    throw error;
+  }
+};
+
+// ============================================================================
+// Search
+// ============================================================================
+
+interface LoadedChunk extends Omit<ChunkRecord, 'Embedding'> {
+  vector: number[];
+  norm: number;
+  terms: Set<string>;
+}
+
+// Chunks stay in memory per instance until the index is rebuilt
+const searchCache = new Map<string, { indexedAt: number; chunks: LoadedChunk[] }>();
+
+const termsOf = (text: string): string[] => {
+  return (text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((term) => term.length >= 3);
+};
+
+const loadChunks = async (db: admin.firestore.Firestore, indexId: string, record: CodeIndexRecord): Promise<LoadedChunk[]> => {
+  const indexedAt = record.Indexed_Time ? record.Indexed_Time.toMillis() : 0;
+  const cached = searchCache.get(indexId);
+  if (cached && cached.indexedAt === indexedAt) {
+    return cached.chunks;
+  }
+
+  const snapshot = await indexes(db).doc(indexId).collection('Chunks').get();
+  const chunks = snapshot.docs.map((doc) => {
+    const { Embedding, ...chunk } = doc.data() as ChunkRecord;
+    const vector = Embedding || [];
+    return {
+      ...chunk,
+      vector,
+      norm: Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1,
+      terms: new Set(termsOf(`${chunk.Symbol} ${chunk.Path}`))
+    };
+  });
+  searchCache.set(indexId, { indexedAt, chunks });
+  return chunks;
+};
+
+/**
+ * The chunks closest to a natural-language query. Scores are cosine similarity
+ * plus a small boost for query words that appear in the symbol name or path.
+ */
+export const searchCodeIndex = async (
+  db: admin.firestore.Firestore,
+  indexId: string,
+  query: string,
+  options: { limit?: number; pathPrefix?: string } = {}
+): Promise<CodeSearchResult[]> => {
+  const snapshot = await indexes(db).doc(indexId).get();
+  const record = snapshot.data() as CodeIndexRecord | undefined;
+  if (!record?.Revision) {
+    throw new Error('This repository has not been indexed yet');
+  }
+
+  const selection = resolveEmbeddingSelection();
+  if (record.Embedding_Provider !== selection.provider || record.Embedding_Model !== selection.model) {
+    throw new Error(`The index for ${record.Repository} was built with ${record.Embedding_Model}; re-index it to search with ${selection.model}`);
+  }
+
+  const chunks = await loadChunks(db, indexId, record);
+  const [queryVector] = await embedLLM(selection, [query], 'query');
+  const queryNorm = Math.sqrt(queryVector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  const queryTerms = [...new Set(termsOf(query))];
+  const limit = Math.min(Math.max(Math.floor(options.limit || DEFAULT_SEARCH_LIMIT), 1), MAX_SEARCH_LIMIT);
+
+  return chunks
+    .filter((chunk) => !options.pathPrefix || chunk.Path.startsWith(options.pathPrefix))
+    .map((chunk) => {
+      let dot = 0;
+      for (let i = 0; i < Math.min(chunk.vector.length, queryVector.length); i++) {
+        dot += chunk.vector[i] * queryVector[i];
+      }
+      const matches = queryTerms.filter((term) => chunk.terms.has(term)).length;
+      return { chunk, score: dot / (chunk.norm * queryNorm) + Math.min(matches * 0.05, 0.15) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk, score }) => ({
+      path: chunk.Path,
+      symbol: chunk.Symbol,
+      kind: chunk.Kind,
+      startLine: chunk.Start_Line,
+      endLine: chunk.End_Line,
+      content: chunk.Content,
+      score: Math.round(score * 1000) / 1000
+    }));
+};
@@ -0,0 +1,710 @@
+/**
+ * Docs Drift
+ * Finds the sections of a document that commits since it was generated or last
+ * verified may have made wrong. Documents record the commit they were written
+ * against (Source_Revision); a check compares it with the head of the project's
+ * repository, diffs the static analysis of the changed files (see ../analysis)
+ * and flags every section that mentions a changed file, function, class, route,
+ * CLI command or environment variable.
+ * Reports are DocumentDrift records. The code changes behind a report are kept
+ * with it, so edits to the document are matched again without asking GitHub.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import * as crypto from 'crypto';
+import { typescriptAnalyzer } from '../analysis/typescriptAnalyzer';
+import { FileFacts } from '../analysis/types';
+import { DocumentBlock, DocumentSection, buildSectionTree, parseDocumentBlocks } from './documentBlocks';
+import { readDocumentContent } from './documentChunks';
+import { parseGitHubRepository, resolveRevision } from './codeIndex';
+import { githubHeaders, readGitHubToken } from './githubAccess';
+import { cleanHtml } from './generationJobs';
+
+export type DriftStatus = 'current' | 'drifted' | 'unknown';
+export type CodeChangeKind = 'file' | 'function' | 'class' | 'route' | 'cli' | 'env';
+export type CodeChangeType = 'added' | 'removed' | 'changed' | 'renamed';
+
+export interface CodeChange {
+  kind: CodeChangeKind;
+  change: CodeChangeType;
+  name: string; // File path, symbol, "GET /users/:id", command or variable name
+  previousName: string | null; // Old path of a renamed file
+  path: string | null; // File the change was made in
+  detail: string | null; // What changed, e.g. the old and new signature
+}
+
+export interface DriftSection {
+  id: string | null; // Heading block ID; null for the text above the first heading
+  title: string | null;
+  path: string;
+  level: number;
+  changes: CodeChange[];
+}
+
+export interface DriftReport {
+  documentId: string;
+  repository: string | null;
+  status: DriftStatus;
+  baseRevision: string | null;
+  headRevision: string | null;
+  baseEstimated: boolean; // No recorded revision; the base is the last commit before the document was created
+  changedFiles: number;
+  sections: DriftSection[];
+  error: string | null;
+  checkedAt: string;
+}
+
+export interface SectionPatch {
+  sectionId: string | null;
+  path: string;
+  from: number; // Range of the section in the content the patch was written for
+  to: number;
+  originalHtml: string;
+  proposedHtml: string;
+  changes: CodeChange[];
+}
+
+/** Sends one prompt to the configured model and returns its text */
+export type DriftPatchGenerator = (prompt: string, maxOutputTokens: number) => Promise<string>;
+
+interface ChangedFile {
+  path: string;
+  previousPath: string | null;
+  status: CodeChangeType;
+  patch: string | null;
+}
+
+interface DocumentDriftRecord {
+  Project_Id: string;
+  Repository: string | null;
+  Status: DriftStatus;
+  Base_Revision: string | null;
+  Head_Revision: string | null;
+  Base_Estimated: boolean;
+  Detector_Version: number;
+  Files: string; // ChangedFile[] as JSON
+  Changes: string; // CodeChange[] as JSON
+  Content_Hash: string | null;
+  Sections: DriftSection[];
+  Resolved_Sections: string[]; // Section paths reviewed at Head_Revision
+  Error: string | null;
+  Checked_Time: admin.firestore.Timestamp;
+}
+
+interface RepositoryRef {
+  owner: string;
+  repo: string;
+  token: string | null;
+}
+
+// A file entry of GitHub's compare response
+interface GitHubComparisonFile {
+  filename: string;
+  previous_filename?: string;
+  status: string;
+  patch?: string;
+}
+
+// Bump when matching or diffing changes, so stored reports are rebuilt
+const DETECTOR_VERSION = 1;
+
+const COLLECTION = 'DocumentDrift';
+const MAX_ANALYZED_FILES = 60;
+const MAX_PATCH_CHARS = 4000;
+const MAX_SECTION_CHANGES = 12;
+const MAX_PROMPT_DIFF_CHARS = 12000;
+const MIN_SYMBOL_LENGTH = 4;
+const LOCK_FILES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb']);
+
+const drifts = (db: admin.firestore.Firestore) => db.collection(COLLECTION);
+
+const shortSha = (revision: string | null): string => (revision ? revision.substring(0, 7) : 'unknown');
+
+const hashContent = (content: string): string => crypto.createHash('sha1').update(content).digest('hex');
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toView = (documentId: string, record: DocumentDriftRecord): DriftReport => ({
+  documentId,
+  repository: record.Repository,
+  status: record.Status,
+  baseRevision: record.Base_Revision,
+  headRevision: record.Head_Revision,
+  baseEstimated: record.Base_Estimated,
+  changedFiles: (JSON.parse(record.Files || '[]') as ChangedFile[]).length,
+  sections: record.Sections || [],
+  error: record.Error,
+  checkedAt: record.Checked_Time.toDate().toISOString()
+});
+
+// ============================================================================
+// Code changes between two commits
+// ============================================================================
+
+const githubApi = (repository: RepositoryRef): string => `https://api.github.com/repos/${repository.owner}/${repository.repo}`;
+
+const compareRevisions = async (repository: RepositoryRef, base: string, head: string): Promise<ChangedFile[]> => {
+  const response = await fetch(`${githubApi(repository)}/compare/${base}...${head}`, { headers: githubHeaders(repository.token) });
+  if (response.status === 404) {
+    throw new Error(`Commit ${shortSha(base)} is no longer in ${repository.owner}/${repository.repo}; verify the document to start from the current head`);
+  }
+  if (!response.ok) {
+    throw new Error(`Could not compare ${shortSha(base)}...${shortSha(head)}: GitHub answered ${response.status}`);
+  }
+
+  const comparison = await response.json() as { files?: GitHubComparisonFile[] };
+  return (comparison.files || []).map((file) => ({
+    path: file.filename,
+    previousPath: file.previous_filename || null,
+    status: file.status === 'added' || file.status === 'removed' || file.status === 'renamed' ? file.status : 'changed',
+    patch: typeof file.patch === 'string' ? file.patch.substring(0, MAX_PATCH_CHARS) : null
+  }));
+};
+
+// Raw file content at a commit, or null when the file does not exist there
+const readFileAt = async (repository: RepositoryRef, path: string, revision: string): Promise<string | null> => {
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  const response = await fetch(`${githubApi(repository)}/contents/${encodedPath}?ref=${revision}`, {
+    headers: { ...githubHeaders(repository.token), Accept: 'application/vnd.github.raw' }
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Could not read ${path}@${shortSha(revision)}: GitHub answered ${response.status}`);
+  }
+  return response.text();
+};
+
+// The last commit on the default branch before `time`, for documents that predate Source_Revision
+const findRevisionAt = async (repository: RepositoryRef, time: Date): Promise<string | null> => {
+  const response = await fetch(`${githubApi(repository)}/commits?per_page=1&until=${encodeURIComponent(time.toISOString())}`, {
+    headers: githubHeaders(repository.token)
+  });
+  if (!response.ok) {
+    throw new Error(`Could not list commits of ${repository.owner}/${repository.repo}: GitHub answered ${response.status}`);
+  }
+  const commits = await response.json() as Array<{ sha: string }>;
+  return commits[0]?.sha || null;
+};
+
+interface FactIndex {
+  functions: Map<string, { signature: string; path: string }>;
+  classes: Map<string, { shape: string; path: string }>;
+  routes: Map<string, { handler: string | null; path: string }>;
+  cliCommands: Map<string, { shape: string; path: string }>;
+  envVars: Map<string, { defaultValue: string | null; path: string }>;
+}
+
+const emptyFactIndex = (): FactIndex => ({
+  functions: new Map(),
+  classes: new Map(),
+  routes: new Map(),
+  cliCommands: new Map(),
+  envVars: new Map()
+});
+
+const addFacts = (index: FactIndex, path: string, facts: FileFacts) => {
+  facts.functions.forEach((fn) => index.functions.set(fn.name, { signature: fn.signature, path }));
+  facts.classes.forEach((cls) => index.classes.set(cls.name, {
+    shape: [cls.extends ? `extends ${cls.extends}` : '', ...cls.implements, ...cls.methods].join('; '),
+    path
+  }));
+  facts.routes.forEach((route) => index.routes.set(`${route.method} ${route.route}`, { handler: route.handler, path }));
+  facts.cliCommands.forEach((command) => index.cliCommands.set(
+    command.source === 'npm-script' ? `npm run ${command.name}` : command.name,
+    { shape: [command.description || '', ...command.options].join('; '), path }
+  ));
+  facts.envVars.forEach((envVar) => {
+    const known = index.envVars.get(envVar.name);
+    index.envVars.set(envVar.name, { defaultValue: known?.defaultValue ?? envVar.defaultValue, path: known?.path || path });
+  });
+};
+
+// Facts are compared by name across all changed files, so a symbol that moved files is not reported
+const diffFactIndexes = (before: FactIndex, after: FactIndex): CodeChange[] => {
+  const changes: CodeChange[] = [];
+  const diff = <T extends { path: string }>(
+    kind: CodeChangeKind,
+    previous: Map<string, T>,
+    next: Map<string, T>,
+    describe: (value: T) => string,
+    skip: (name: string) => boolean = () => false
+  ) => {
+    for (const [name, value] of next) {
+      if (skip(name)) continue;
+      const old = previous.get(name);
+      if (!old) {
+        changes.push({ kind, change: 'added', name, previousName: null, path: value.path, detail: describe(value) || null });
+      } else if (describe(old) !== describe(value)) {
+        changes.push({ kind, change: 'changed', name, previousName: null, path: value.path, detail: `was ${describe(old) || 'empty'}, now ${describe(value) || 'empty'}` });
+      }
+    }
+    for (const [name, value] of previous) {
+      if (!skip(name) && !next.has(name)) {
+        changes.push({ kind, change: 'removed', name, previousName: null, path: value.path, detail: describe(value) || null });
+      }
+    }
+  };
+
+  diff('route', before.routes, after.routes, (route) => (route.handler ? `handler ${route.handler}` : ''));
+  diff('cli', before.cliCommands, after.cliCommands, (command) => command.shape);
+  diff('env', before.envVars, after.envVars, (envVar) => (envVar.defaultValue !== null ? `default ${envVar.defaultValue}` : ''));
+  diff('function', before.functions, after.functions, (fn) => `\`${fn.signature}\``, (name) => name === 'default');
+  diff('class', before.classes, after.classes, (cls) => cls.shape);
+  return changes;
+};
+
+/**
+ * Files changed between two commits and the routes, commands, environment
+ * variables and exported symbols those changes added, removed or altered
+ */
+const collectCodeChanges = async (
+  repository: RepositoryRef,
+  base: string,
+  head: string
+): Promise<{ files: ChangedFile[]; changes: CodeChange[] }> => {
+  const files = await compareRevisions(repository, base, head);
+  const before = emptyFactIndex();
+  const after = emptyFactIndex();
+
+  const analyzable = files
+    .filter((file) => typescriptAnalyzer.languageOf(file.path) || (file.previousPath && typescriptAnalyzer.languageOf(file.previousPath)))
+    .slice(0, MAX_ANALYZED_FILES);
+  for (const file of analyzable) {
+    const oldPath = file.previousPath || file.path;
+    const [oldContent, newContent] = await Promise.all([
+      file.status === 'added' ? null : readFileAt(repository, oldPath, base),
+      file.status === 'removed' ? null : readFileAt(repository, file.path, head)
+    ]);
+    if (oldContent !== null && typescriptAnalyzer.languageOf(oldPath)) {
+      addFacts(before, oldPath, typescriptAnalyzer.analyze(oldPath, oldContent));
+    }
+    if (newContent !== null && typescriptAnalyzer.languageOf(file.path)) {
+      addFacts(after, file.path, typescriptAnalyzer.analyze(file.path, newContent));
+    }
+  }
+  if (analyzable.length < files.filter((file) => typescriptAnalyzer.languageOf(file.path)).length) {
+    logger.warn(`⚠️ Drift between ${shortSha(base)} and ${shortSha(head)} analyzed the first ${MAX_ANALYZED_FILES} changed source files only`);
+  }
+
+  const fileChanges: CodeChange[] = files
+    .filter((file) => !LOCK_FILES.has(file.path.split('/').pop() || ''))
+    .map((file) => ({
+      kind: 'file',
+      change: file.status,
+      name: file.path,
+      previousName: file.previousPath,
+      path: file.path,
+      detail: file.previousPath ? `renamed from ${file.previousPath}` : null
+    }));
+  return { files, changes: [...diffFactIndexes(before, after), ...fileChanges] };
+};
+
+// ============================================================================
+// Matching changes to sections
+// ============================================================================
+
+const wordPattern = (name: string): RegExp => new RegExp(`(^|[^\\w$])${escapeRegExp(name)}(?![\\w$])`);
+
+// Route parameters are written in many styles (:id, {id}, <id>), so any of them matches
+const routePattern = (route: string): RegExp => {
+  const segments = route.split('/').map((segment) => (/^(?::\w+\??|\{\w+\}|<\w+>|\*)$/.test(segment)
+    ? '(?::\\w+|\\{\\w+\\}|<\\w+>|\\*|[\\w.-]+)'
+    : escapeRegExp(segment)));
+  return new RegExp(`(^|[^\\w/])${segments.join('/')}(?![\\w/:{<-])`);
+};
+
+// Whether a section mentions what a change is about. CLI commands other than npm scripts
+// only count inside code blocks, since their names tend to be ordinary words.
+const mentions = (change: CodeChange, prose: string, code: string): boolean => {
+  const text = `${prose}\n${code}`;
+  switch (change.kind) {
+    case 'file':
+      return [change.name, change.previousName].some((filePath) => {
+        if (!filePath) return false;
+        const baseName = filePath.split('/').pop() || filePath;
+        return text.includes(filePath) || new RegExp(`(^|[^\\w.-])${escapeRegExp(baseName)}(?![\\w])`).test(text);
+      });
+    case 'route': {
+      const route = change.name.substring(change.name.indexOf(' ') + 1);
+      return route.length > 1 && route !== '*' && routePattern(route).test(text);
+    }
+    case 'cli':
+      if (change.name.startsWith('npm run ')) {
+        const script = escapeRegExp(change.name.substring('npm run '.length));
+        return new RegExp(`(?:npm|yarn|pnpm|bun)\\s+(?:run\\s+)?${script}(?![\\w:-])`).test(text);
+      }
+      return change.name.split(' ')[0].length >= 3 && wordPattern(change.name.split(' ')[0]).test(code);
+    default:
+      return change.name.length >= MIN_SYMBOL_LENGTH && wordPattern(change.name).test(text);
+  }
+};
+
+const flattenSections = (section: DocumentSection): DocumentSection[] => [section, ...section.children.flatMap(flattenSections)];
+
+const sectionPath = (section: DocumentSection): string => section.path.join(' > ');
+
+/**
+ * Sections whose own text (up to the first nested heading) mentions one of the changes
+ */
+export const matchDriftSections = (html: string, changes: CodeChange[]): DriftSection[] => {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const sections: DriftSection[] = [];
+  for (const section of flattenSections(buildSectionTree(parseDocumentBlocks(html)))) {
+    const blocks = section.heading ? [section.heading, ...section.blocks] : section.blocks;
+    const prose = blocks.filter((block) => block.type !== 'code').map((block) => block.text).join('\n');
+    const code = blocks.filter((block) => block.type === 'code').map((block) => block.text).join('\n');
+    if (!prose.trim() && !code.trim()) continue;
+
+    const matched = changes.filter((change) => mentions(change, prose, code));
+    if (matched.length > 0) {
+      sections.push({
+        id: section.id,
+        title: section.title,
+        path: sectionPath(section),
+        level: section.level,
+        changes: matched.slice(0, MAX_SECTION_CHANGES)
+      });
+    }
+  }
+  return sections;
+};
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+interface DriftContext {
+  projectId: string;
+  repository: RepositoryRef | null;
+  repositoryName: string | null;
+  head: Promise<string> | null;
+  comparisons: Map<string, Promise<{ files: ChangedFile[]; changes: CodeChange[] }>>;
+}
+
+const openDriftContext = async (db: admin.firestore.Firestore, projectId: string): Promise<DriftContext> => {
+  const project = (await db.collection('Projects').doc(projectId).get()).data();
+  const parsed = parseGitHubRepository(project?.GitHubRepo);
+  const repository = parsed ? { ...parsed, token: project?.User_Id ? await readGitHubToken(db, project.User_Id) : null } : null;
+  const head = repository ? resolveRevision({ type: 'github', ...repository }) : null;
+  // Callers await it later; a failure is reported per document
+  head?.catch(() => undefined);
+  return {
+    projectId,
+    repository,
+    repositoryName: parsed ? `${parsed.owner}/${parsed.repo}` : null,
+    head,
+    comparisons: new Map()
+  };
+};
+
+const saveReport = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  record: Omit<DocumentDriftRecord, 'Checked_Time' | 'Detector_Version'>
+): Promise<DriftReport> => {
+  const saved: DocumentDriftRecord = { ...record, Detector_Version: DETECTOR_VERSION, Checked_Time: admin.firestore.Timestamp.now() };
+  await drifts(db).doc(documentId).set(saved);
+  return toView(documentId, saved);
+};
+
+const checkWithContext = async (
+  db: admin.firestore.Firestore,
+  context: DriftContext,
+  documentId: string,
+  data: admin.firestore.DocumentData,
+  force: boolean
+): Promise<DriftReport> => {
+  const stored = (await drifts(db).doc(documentId).get()).data() as DocumentDriftRecord | undefined;
+  const unknown = (error: string, revisions: Partial<Pick<DocumentDriftRecord, 'Base_Revision' | 'Head_Revision'>> = {}) => saveReport(db, documentId, {
+    Project_Id: context.projectId,
+    Repository: context.repositoryName,
+    Status: 'unknown',
+    Base_Revision: revisions.Base_Revision ?? null,
+    Head_Revision: revisions.Head_Revision ?? null,
+    Base_Estimated: false,
+    Files: '[]',
+    Changes: '[]',
+    Content_Hash: null,
+    Sections: [],
+    Resolved_Sections: [],
+    Error: error
+  });
+
+  if (!context.repository || !context.head) {
+    return unknown('The project is not linked to a GitHub repository');
+  }
+
+  let head: string | null = null;
+  let base: string | null = null;
+  try {
+    head = await context.head;
+
+    // A revision recorded for another repository says nothing about this one
+    const recorded = data.Source_Revision && (!data.Source_Repository || data.Source_Repository === context.repositoryName)
+      ? data.Source_Revision as string
+      : null;
+    const estimated = !recorded;
+    if (recorded) {
+      base = recorded;
+    } else if (stored?.Base_Estimated && stored.Repository === context.repositoryName && stored.Base_Revision) {
+      base = stored.Base_Revision;
+    } else {
+      const createdAt = data.Created_Time?.toDate?.() as Date | undefined;
+      base = createdAt ? await findRevisionAt(context.repository, createdAt) : null;
+    }
+    if (!base) {
+      return unknown('No commit of the repository predates this document; verify it to start tracking drift', { Head_Revision: head });
+    }
+
+    const content = await readDocumentContent(db, documentId, data);
+    const contentHash = hashContent(content);
+    const reusable = !force && stored && stored.Status !== 'unknown' && stored.Detector_Version === DETECTOR_VERSION &&
+      stored.Base_Revision === base && stored.Head_Revision === head;
+    if (reusable && stored.Content_Hash === contentHash) {
+      return toView(documentId, stored);
+    }
+
+    let files: ChangedFile[] = [];
+    let changes: CodeChange[] = [];
+    if (reusable) {
+      files = JSON.parse(stored.Files);
+      changes = JSON.parse(stored.Changes);
+    } else if (base !== head) {
+      const key = `${base}...${head}`;
+      if (!context.comparisons.has(key)) {
+        context.comparisons.set(key, collectCodeChanges(context.repository, base, head));
+      }
+      ({ files, changes } = await (context.comparisons.get(key) as Promise<{ files: ChangedFile[]; changes: CodeChange[] }>));
+    }
+
+    // Sections reviewed at this head stay cleared until a newer commit comes in
+    const resolved = stored?.Head_Revision === head ? stored.Resolved_Sections || [] : [];
+    const sections = matchDriftSections(content, changes).filter((section) => !resolved.includes(section.path));
+    return await saveReport(db, documentId, {
+      Project_Id: context.projectId,
+      Repository: context.repositoryName,
+      Status: sections.length > 0 ? 'drifted' : 'current',
+      Base_Revision: base,
+      Head_Revision: head,
+      Base_Estimated: estimated,
+      Files: JSON.stringify(files),
+      Changes: JSON.stringify(changes),
+      Content_Hash: contentHash,
+      Sections: sections,
+      Resolved_Sections: resolved,
+      Error: null
+    });
+  } catch (error) {
+    logger.warn(`⚠️ Drift check failed for document ${documentId}:`, error instanceof Error ? error.message : error);
+    return unknown(error instanceof Error ? error.message : 'Drift check failed', { Base_Revision: base, Head_Revision: head });
+  }
+};
+
+/**
+ * Check one document against the head of its project's repository. Reports are
+ * reused while neither the commits nor the document changed, unless forced.
+ */
+export const checkDocumentDrift = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  options: { force?: boolean } = {}
+): Promise<DriftReport | null> => {
+  const doc = await db.collection('Documents').doc(documentId).get();
+  const data = doc.data();
+  if (!doc.exists || !data) {
+    return null;
+  }
+  const context = await openDriftContext(db, data.Project_Id);
+  return checkWithContext(db, context, documentId, data, options.force === true);
+};
+
+/**
+ * Check every document of a project; the head commit is resolved once and
+ * documents written against the same commit share one comparison
+ */
+export const checkProjectDrift = async (
+  db: admin.firestore.Firestore,
+  projectId: string,
+  options: { force?: boolean } = {}
+): Promise<DriftReport[]> => {
+  const context = await openDriftContext(db, projectId);
+  const snapshot = await db.collection('Documents').where('Project_Id', '==', projectId).get();
+
+  const reports: DriftReport[] = [];
+  for (const doc of snapshot.docs) {
+    reports.push(await checkWithContext(db, context, doc.id, doc.data(), options.force === true));
+  }
+  const drifted = reports.filter((report) => report.status === 'drifted').length;
+  logger.info(`🧭 Drift check for project ${projectId}: ${drifted}/${reports.length} documents out of date`);
+  return reports;
+};
+
+/**
+ * Record that a document matches its repository at `revision` (the head of the
+ * last check when omitted), which clears its report
+ */
+export const verifyDocument = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  revision?: string | null
+): Promise<DriftReport | null> => {
+  const docRef = db.collection('Documents').doc(documentId);
+  const data = (await docRef.get()).data();
+  if (!data) {
+    return null;
+  }
+  const stored = (await drifts(db).doc(documentId).get()).data() as DocumentDriftRecord | undefined;
+  const context = await openDriftContext(db, data.Project_Id);
+  if (!context.head) {
+    throw new Error('The project is not linked to a GitHub repository');
+  }
+  const verified = revision || stored?.Head_Revision || await context.head;
+
+  await docRef.update({
+    Source_Revision: verified,
+    Source_Repository: context.repositoryName,
+    Verified_Time: admin.firestore.Timestamp.now()
+  });
+  return saveReport(db, documentId, {
+    Project_Id: context.projectId,
+    Repository: context.repositoryName,
+    Status: 'current',
+    Base_Revision: verified,
+    Head_Revision: verified,
+    Base_Estimated: false,
+    Files: '[]',
+    Changes: '[]',
+    Content_Hash: null,
+    Sections: [],
+    Resolved_Sections: [],
+    Error: null
+  });
+};
+
+/**
+ * Clear one flagged section after it was reviewed or patched. Clearing the last
+ * one verifies the document at the head of the report.
+ */
+export const resolveDriftSection = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  path: string
+): Promise<DriftReport | null> => {
+  const ref = drifts(db).doc(documentId);
+  const stored = (await ref.get()).data() as DocumentDriftRecord | undefined;
+  if (!stored) {
+    return null;
+  }
+
+  const sections = stored.Sections.filter((section) => section.path !== path);
+  if (sections.length === 0 && stored.Head_Revision) {
+    return verifyDocument(db, documentId, stored.Head_Revision);
+  }
+  return saveReport(db, documentId, {
+    ...stored,
+    Status: sections.length > 0 ? 'drifted' : stored.Status,
+    Sections: sections,
+    Resolved_Sections: Array.from(new Set([...(stored.Resolved_Sections || []), path]))
+  });
+};
+
+/** Stored reports of a project's documents, without checking GitHub */
+export const listProjectDrift = async (db: admin.firestore.Firestore, projectId: string): Promise<DriftReport[]> => {
+  const snapshot = await drifts(db).where('Project_Id', '==', projectId).get();
+  return snapshot.docs.map((doc) => toView(doc.id, doc.data() as DocumentDriftRecord));
+};
+
+// ============================================================================
+// Patches
+// ============================================================================
+
+// A section's own blocks: from its heading to the next heading of any level
+const sectionRange = (blocks: DocumentBlock[], sectionId: string | null): { from: number; to: number } | null => {
+  const start = sectionId ? blocks.findIndex((block) => block.id === sectionId && block.type === 'heading') : 0;
+  if (start === -1 || blocks.length === 0) {
+    return null;
+  }
+  const next = blocks.findIndex((block, index) => index > start && block.type === 'heading');
+  const end = next === -1 ? blocks.length : next;
+  if (end === start || (!sectionId && blocks[0].type === 'heading')) {
+    return null;
+  }
+  return { from: blocks[start].start, to: blocks[end - 1].end };
+};
+
+const describeChange = (change: CodeChange): string => {
+  const label = change.kind === 'file' ? 'File' : change.kind === 'cli' ? 'CLI command' : change.kind === 'env'
+    ? 'Environment variable' : `${change.kind.charAt(0).toUpperCase()}${change.kind.substring(1)}`;
+  return `- ${label} \`${change.name}\` ${change.change}${change.path && change.path !== change.name ? ` in ${change.path}` : ''}` +
+    `${change.detail ? `: ${change.detail}` : ''}`;
+};
+
+const patchPrompt = (record: DocumentDriftRecord, section: DriftSection, files: ChangedFile[], html: string): string => {
+  const paths = new Set(section.changes.map((change) => change.path).filter(Boolean));
+  const diffs: string[] = [];
+  let chars = 0;
+  for (const file of files) {
+    if (!paths.has(file.path) || !file.patch || chars + file.patch.length > MAX_PROMPT_DIFF_CHARS) continue;
+    diffs.push(`**${file.path}** (${file.status}):\n\`\`\`diff\n${file.patch}\n\`\`\``);
+    chars += file.patch.length;
+  }
+
+  return `You are updating one section of a technical document after code changes in ${record.Repository} ` +
+    `(commits ${shortSha(record.Base_Revision)}...${shortSha(record.Head_Revision)}).
+
+**CODE CHANGES THIS SECTION REFERS TO:**
+${section.changes.map(describeChange).join('\n')}
+${diffs.length > 0 ? `\n**DIFFS:**\n${diffs.join('\n\n')}\n` : ''}
+**SECTION "${section.path || 'Introduction'}" (HTML):**
+${html}
+
+Rewrite the section so that it is accurate for the code after these changes:
+- Update names, signatures, routes, commands, settings and examples that the changes made wrong; drop ones that were removed.
+- Keep everything the changes do not affect word for word, including the heading.
+- Keep the same HTML conventions: <h1>-<h5> headings, lists, tables and <pre><code class="language-x" data-language="x"> code blocks.
+- If nothing needs to change, return the section unchanged.
+
+Return only the HTML of the section, without explanations or Markdown fences.`;
+};
+
+/**
+ * An AI rewrite of one flagged section for the reviewer to accept or reject.
+ * `content` is the document as the editor has it, so the returned range matches
+ * unsaved edits; the stored content is used when it is omitted.
+ */
+export const proposeSectionPatch = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  sectionId: string | null,
+  content: string | null,
+  generate: DriftPatchGenerator
+): Promise<SectionPatch | string> => {
+  const stored = (await drifts(db).doc(documentId).get()).data() as DocumentDriftRecord | undefined;
+  const section = stored?.Sections.find((candidate) => candidate.id === sectionId);
+  if (!stored || !section) {
+    return 'This section is not flagged as out of date; check the document for drift again';
+  }
+
+  let html = content;
+  if (html === null) {
+    const data = (await db.collection('Documents').doc(documentId).get()).data();
+    html = await readDocumentContent(db, documentId, data);
+  }
+  const range = sectionRange(parseDocumentBlocks(html), sectionId);
+  if (!range) {
+    return `Section "${section.path || 'Introduction'}" is no longer in the document`;
+  }
+
+  const originalHtml = html.slice(range.from, range.to);
+  const proposedHtml = cleanHtml(await generate(patchPrompt(stored, section, JSON.parse(stored.Files), originalHtml), 8192));
+  if (!proposedHtml) {
+    throw new Error('The model returned an empty section');
+  }
+  return { sectionId, path: section.path, ...range, originalHtml, proposedHtml, changes: section.changes };
+};
@@ -0,0 +1,386 @@
+/**
+ * Docs Site Export
+ * Turns every document of a project into a static HTML documentation site,
+ * packaged as a zip: one page per document grouped by DocumentCategory, a
+ * sidebar outline built from each document's headings (the same headings the
+ * editor's NavigationPane lists), full-text search over a prebuilt index,
+ * highlighted code blocks, Mermaid diagrams rendered in the browser and links
+ * between documents pointing at the exported pages.
+ */
+
+import * as admin from 'firebase-admin';
+import JSZip from 'jszip';
+import { extractText } from './documentBlocks';
+import { readDocumentContent } from './documentChunks';
+import {
+  ExportProject,
+  HIGHLIGHT_CSS,
+  MERMAID_SCRIPT_URL,
+  RenderedHeading,
+  escapeHtml,
+  renderDocumentHtml,
+  slugify,
+  uniqueSlug
+} from './documentRendering';
+
+const SEARCH_TEXT_LIMIT = 4000; // Per section, keeps the index small for large documents
+const IN_QUERY_CHUNK = 10;
+
+// Same order and titles as the project page
+const CATEGORY_SECTIONS: Array<{ category: string; title: string }> = [
+  { category: 'User', title: 'Users' },
+  { category: 'Developer', title: 'Developers' },
+  { category: 'General', title: 'General' }
+];
+
+export interface DocsSiteResult {
+  fileName: string;
+  zip: Buffer;
+  pageCount: number;
+}
+
+interface SitePage {
+  id: string;
+  title: string;
+  category: string;
+  fileName: string;
+  body: string;
+  headings: RenderedHeading[];
+  hasMermaid: boolean;
+}
+
+interface SearchEntry {
+  page: string;
+  heading: string;
+  url: string;
+  text: string;
+}
+
+const toIsoTime = (value?: admin.firestore.Timestamp | null): number => (value?.toDate ? value.toDate().getTime() : 0);
+
+// One entry per heading section, so results can link straight to the section
+const buildSearchEntries = (page: SitePage): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  const headingRegex = /<h[1-6]\b[^>]*\bid="([^"]*)"[^>]*>([\s\S]*?)<\/h[1-6]>/gi;
+  // Spans are inline (highlighted code, text styles), so dropping them keeps words together
+  const body = page.body
+    .replace(/<pre class="mermaid">[\s\S]*?<\/pre>/gi, '')
+    .replace(/<\/?span\b[^>]*>/gi, '');
+
+  let sectionStart = 0;
+  let anchor = '';
+  let heading = '';
+  const pushSection = (end: number) => {
+    const text = extractText(body.slice(sectionStart, end)).slice(0, SEARCH_TEXT_LIMIT);
+    if (text || heading) {
+      entries.push({ page: page.title, heading, url: anchor ? `${page.fileName}#${anchor}` : page.fileName, text });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = headingRegex.exec(body)) !== null) {
+    pushSection(match.index);
+    sectionStart = headingRegex.lastIndex;
+    anchor = match[1];
+    heading = extractText(match[2]);
+  }
+  pushSection(body.length);
+  return entries;
+};
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+const categorySections = (pages: SitePage[]) => {
+  const extraCategories = Array.from(new Set(pages.map((page) => page.category)))
+    .filter((category) => !CATEGORY_SECTIONS.some((section) => section.category === category))
+    .sort()
+    .map((category) => ({ category, title: category }));
+  return [...CATEGORY_SECTIONS, ...extraCategories]
+    .map((section) => ({ ...section, pages: pages.filter((page) => page.category === section.category) }))
+    .filter((section) => section.pages.length > 0);
+};
+
+const renderNavigation = (pages: SitePage[], currentId: string | null): string => categorySections(pages)
+  .map((section) => {
+    const items = section.pages.map((page) => {
+      const active = page.id === currentId;
+      const link = `<a href="${page.fileName}"${active ? ' class="active"' : ''}>${escapeHtml(page.title)}</a>`;
+      if (page.headings.length === 0) {
+        return `<div class="nav-doc">${link}</div>`;
+      }
+      const headings = page.headings
+        .map((heading) => `<li class="level-${heading.level}"><a href="${page.fileName}#${heading.anchor}">${escapeHtml(heading.text)}</a></li>`)
+        .join('');
+      return `<details class="nav-doc"${active ? ' open' : ''}><summary>${link}</summary><ul class="nav-headings">${headings}</ul></details>`;
+    }).join('');
+    return `<div class="nav-group"><div class="nav-group-title">${escapeHtml(section.title)}</div>${items}</div>`;
+  })
+  .join('');
+
+const renderLayout = (
+  project: ExportProject,
+  pages: SitePage[],
+  options: { title: string; currentId: string | null; body: string; hasMermaid: boolean; exportedAt: string }
+): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title === project.name ? project.name : `${options.title} · ${project.name}`)}</title>
+<link rel="stylesheet" href="assets/site.css">
+</head>
+<body>
+<div class="layout">
+<aside class="sidebar">
+<a class="site-title" href="index.html">${escapeHtml(project.name)}</a>
+<input id="docs-search" class="search-input" type="search" placeholder="Search documentation..." autocomplete="off">
+<div id="docs-search-results" class="search-results" hidden></div>
+<nav>${renderNavigation(pages, options.currentId)}</nav>
+</aside>
+<main class="content">
+<article>${options.body}</article>
+<footer>Exported from Dotivra on ${escapeHtml(options.exportedAt)}</footer>
+</main>
+</div>
+${options.hasMermaid ? `<script src="${MERMAID_SCRIPT_URL}" defer></script>\n` : ''}<script src="search-index.js" defer></script>
+<script src="assets/site.js" defer></script>
+</body>
+</html>
+`;
+
+const renderIndex = (project: ExportProject, pages: SitePage[]): string => {
+  const sections = categorySections(pages).map((section) => {
+    const cards = section.pages.map((page) => {
+      const outline = page.headings.filter((heading) => heading.level <= 2).slice(0, 5)
+        .map((heading) => `<li><a href="${page.fileName}#${heading.anchor}">${escapeHtml(heading.text)}</a></li>`)
+        .join('');
+      return `<div class="doc-card"><a class="doc-card-title" href="${page.fileName}">${escapeHtml(page.title)}</a>${outline ? `<ul>${outline}</ul>` : ''}</div>`;
+    }).join('');
+    return `<section><h2>${escapeHtml(section.title)}</h2><div class="doc-cards">${cards}</div></section>`;
+  }).join('');
+
+  const description = project.description ? `<p class="lead">${escapeHtml(project.description)}</p>` : '';
+  return `<h1>${escapeHtml(project.name)}</h1>${description}${sections || '<p>This project has no documents yet.</p>'}`;
+};
+
+// ============================================================================
+// SITE
+// ============================================================================
+
+/**
+ * Build the static site for a project as a zip
+ */
+export const buildDocsSite = async (
+  db: admin.firestore.Firestore,
+  project: ExportProject
+): Promise<DocsSiteResult> => {
+  // Documents reference their project by Firestore ID, or by Project_Id on older projects
+  const keys = Array.from(new Set([project.id, project.projectId]));
+  const byId = new Map<string, admin.firestore.DocumentData>();
+  for (let i = 0; i < keys.length; i += IN_QUERY_CHUNK) {
+    const snapshot = await db.collection('Documents').where('Project_Id', 'in', keys.slice(i, i + IN_QUERY_CHUNK)).get();
+    snapshot.docs.forEach((doc) => byId.set(doc.id, doc.data()));
+  }
+
+  const documents = Array.from(byId.entries())
+    .map(([id, data]) => ({ id, data }))
+    .sort((a, b) => toIsoTime(a.data.Created_Time) - toIsoTime(b.data.Created_Time)
+      || String(a.data.DocumentName || '').localeCompare(String(b.data.DocumentName || '')));
+
+  // File names first, so links between documents can be rewritten in any order
+  const fileNames = new Set<string>(['index']);
+  const pagesById = new Map<string, string>();
+  documents.forEach(({ id, data }) => {
+    pagesById.set(id, `${uniqueSlug(slugify(data.DocumentName || data.Title || '', 'document'), fileNames)}.html`);
+  });
+
+  const pages: SitePage[] = [];
+  for (const { id, data } of documents) {
+    const content = await readDocumentContent(db, id, data);
+    const { body, headings, hasMermaid } = renderDocumentHtml(content, pagesById);
+    pages.push({
+      id,
+      title: data.DocumentName || data.Title || 'Untitled Document',
+      category: data.DocumentCategory || 'General',
+      fileName: pagesById.get(id)!,
+      body,
+      headings,
+      hasMermaid
+    });
+  }
+
+  const exportedAt = new Date().toISOString().slice(0, 10);
+  const zip = new JSZip();
+  zip.file('index.html', renderLayout(project, pages, {
+    title: project.name,
+    currentId: null,
+    body: renderIndex(project, pages),
+    hasMermaid: false,
+    exportedAt
+  }));
+  pages.forEach((page) => {
+    zip.file(page.fileName, renderLayout(project, pages, {
+      title: page.title,
+      currentId: page.id,
+      body: page.body,
+      hasMermaid: page.hasMermaid,
+      exportedAt
+    }));
+  });
+
+  // Loaded as a script rather than fetched, so search also works when the site is opened from disk
+  const searchIndex = pages.flatMap(buildSearchEntries);
+  zip.file('search-index.js', `window.DOCS_SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n`);
+  zip.file('assets/site.css', SITE_CSS);
+  zip.file('assets/site.js', SITE_JS);
+
+  return {
+    fileName: `${slugify(project.name, 'project')}-docs.zip`,
+    zip: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+    pageCount: pages.length
+  };
+};
+
+// ============================================================================
+// ASSETS
+// ============================================================================
+
+const SITE_CSS = `*{box-sizing:border-box}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;color:#1f2937;background:#fff;line-height:1.65}
+a{color:#2563eb;text-decoration:none}
+a:hover{text-decoration:underline}
+.layout{display:flex;min-height:100vh}
+.sidebar{position:sticky;top:0;width:290px;height:100vh;overflow-y:auto;flex-shrink:0;padding:20px 16px;border-right:1px solid #e5e7eb;background:#f9fafb;font-size:14px}
+.site-title{display:block;margin-bottom:14px;font-size:17px;font-weight:600;color:#111827}
+.search-input{width:100%;padding:7px 10px;border:1px solid #d1d5db;border-radius:6px;font:inherit;background:#fff}
+.search-results{margin-top:8px;border:1px solid #e5e7eb;border-radius:6px;background:#fff;max-height:60vh;overflow-y:auto}
+.search-results a{display:block;padding:8px 10px;border-bottom:1px solid #f3f4f6;color:#111827}
+.search-results a:hover{background:#eff6ff;text-decoration:none}
+.search-results .result-title{font-weight:500}
+.search-results .result-snippet{display:block;margin-top:2px;font-size:12px;color:#6b7280}
+.search-results .empty{padding:8px 10px;color:#6b7280}
+.search-results mark{background:#fef08a;color:inherit}
+.nav-group{margin-top:20px}
+.nav-group-title{margin-bottom:6px;font-size:11px;font-weight:600;letter-spacing:.05em;text-transform:uppercase;color:#6b7280}
+.nav-doc{margin:2px 0}
+.nav-doc>a,.nav-doc summary a{color:#374151;font-weight:500}
+.nav-doc a.active{color:#2563eb}
+.nav-doc summary{cursor:pointer;padding:2px 0}
+.nav-headings{list-style:none;margin:4px 0 8px;padding:0}
+.nav-headings li{padding:2px 0}
+.nav-headings a{color:#4b5563;font-size:13px}
+.nav-headings .level-1{padding-left:8px}.nav-headings .level-2{padding-left:20px}.nav-headings .level-3{padding-left:32px}
+.nav-headings .level-4,.nav-headings .level-5,.nav-headings .level-6{padding-left:44px}
+.content{flex:1;min-width:0;padding:40px 48px}
+article{max-width:820px}
+article h1,article h2,article h3,article h4{line-height:1.3;color:#111827;scroll-margin-top:16px}
+article h1{font-size:2em;margin:0 0 .6em}
+article h2{font-size:1.5em;margin:1.6em 0 .6em;padding-bottom:.3em;border-bottom:1px solid #e5e7eb}
+article h3{font-size:1.25em;margin:1.4em 0 .5em}
+article img{max-width:100%;height:auto}
+article blockquote{margin:1em 0;padding:.2em 1em;border-left:4px solid #d1d5db;color:#4b5563}
+article table{border-collapse:collapse;margin:1em 0;width:100%;display:block;overflow-x:auto}
+article th,article td{border:1px solid #d1d5db;padding:6px 10px;text-align:left;vertical-align:top}
+article th{background:#f3f4f6}
+article th p,article td p{margin:0}
+article hr{border:0;border-top:1px solid #e5e7eb;margin:2em 0}
+article code{font-family:ui-monospace,SFMono-Regular,Menlo,Consolas,monospace;font-size:.9em;background:#f3f4f6;padding:.1em .3em;border-radius:4px}
+article ul[data-type="taskList"]{list-style:none;padding-left:4px}
+article ul[data-type="taskList"] li{display:flex;gap:8px}
+article ul[data-type="taskList"] li>div>p{margin:0}
+pre.code-block{position:relative;background:#f6f8fa;border:1px solid #e5e7eb;border-radius:8px;padding:14px 16px;overflow-x:auto;line-height:1.5}
+pre.code-block[data-language]::before{content:attr(data-language);position:absolute;top:6px;right:10px;font-size:11px;color:#9ca3af;text-transform:uppercase}
+pre.code-block code{background:none;padding:0;font-size:13px}
+pre.mermaid{background:#fff;border:1px solid #e5e7eb;border-radius:8px;padding:16px;text-align:center;overflow-x:auto}
+.lead{font-size:1.1em;color:#4b5563}
+.doc-cards{display:grid;grid-template-columns:repeat(auto-fill,minmax(240px,1fr));gap:16px}
+.doc-card{border:1px solid #e5e7eb;border-radius:8px;padding:14px 16px}
+.doc-card-title{font-weight:600}
+.doc-card ul{margin:8px 0 0;padding-left:18px;font-size:14px}
+footer{max-width:820px;margin-top:48px;padding-top:16px;border-top:1px solid #e5e7eb;font-size:12px;color:#9ca3af}
+${HIGHLIGHT_CSS}@media (max-width:800px){.layout{display:block}.sidebar{position:static;width:auto;height:auto;border-right:0;border-bottom:1px solid #e5e7eb}.content{padding:24px 20px}}
+`;
+
+const SITE_JS = `(function () {
+  var index = window.DOCS_SEARCH_INDEX || [];
+  var input = document.getElementById('docs-search');
+  var results = document.getElementById('docs-search-results');
+
+  function escapeHtml(value) {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  function highlight(text, terms) {
+    var html = escapeHtml(text);
+    terms.forEach(function (term) {
+      var escaped = escapeHtml(term).replace(/[.*+?^$()|[\\]\\\\{}]/g, '\\\\$&');
+      html = html.replace(new RegExp('(' + escaped + ')', 'gi'), '<mark>$1</mark>');
+    });
+    return html;
+  }
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    var start = Math.max(0, at - 60);
+    var piece = text.slice(start, start + 160);
+    return (start > 0 ? '\\u2026' : '') + piece + (start + 160 < text.length ? '\\u2026' : '');
+  }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (!terms.length) return { terms: terms, matches: [] };
+    var matches = [];
+    index.forEach(function (entry) {
+      var title = (entry.page + ' ' + entry.heading).toLowerCase();
+      var body = entry.text.toLowerCase();
+      var score = 0;
+      for (var i = 0; i < terms.length; i++) {
+        var inTitle = title.indexOf(terms[i]) !== -1;
+        var inBody = body.indexOf(terms[i]) !== -1;
+        if (!inTitle && !inBody) return;
+        score += (inTitle ? 5 : 0) + (inBody ? 1 : 0);
+      }
+      matches.push({ entry: entry, score: score });
+    });
+    matches.sort(function (a, b) { return b.score - a.score; });
+    return { terms: terms, matches: matches.slice(0, 20) };
+  }
+
+  function render(query) {
+    if (!query.trim()) {
+      results.hidden = true;
+      results.innerHTML = '';
+      return;
+    }
+    var found = search(query);
+    results.hidden = false;
+    if (!found.matches.length) {
+      results.innerHTML = '<div class="empty">No results</div>';
+      return;
+    }
+    results.innerHTML = found.matches.map(function (match) {
+      var entry = match.entry;
+      var title = entry.heading && entry.heading !== entry.page ? entry.page + ' \\u203a ' + entry.heading : entry.page;
+      return '<a href="' + escapeHtml(entry.url) + '"><span class="result-title">' + highlight(title, found.terms) + '</span>'
+        + '<span class="result-snippet">' + highlight(snippet(entry.text, found.terms[0]), found.terms) + '</span></a>';
+    }).join('');
+  }
+
+  if (input && results) {
+    input.addEventListener('input', function () { render(input.value); });
+    input.addEventListener('keydown', function (event) {
+      if (event.key === 'Escape') {
+        input.value = '';
+        render('');
+      }
+    });
+  }
+
+  if (window.mermaid && document.querySelector('pre.mermaid')) {
+    window.mermaid.initialize({ startOnLoad: false, securityLevel: 'strict' });
+    window.mermaid.run({ querySelector: 'pre.mermaid' });
+  }
+})();
+`;
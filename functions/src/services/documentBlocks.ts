@@ -0,0 +1,498 @@
+/**
+ * Document Block Tree
+ * Parses stored document HTML into addressable top-level blocks and heading sections
+ * so tools can edit by block ID or heading path instead of raw character offsets.
+ */
+
+import * as crypto from 'crypto';
+
+export type BlockType =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'table'
+  | 'code'
+  | 'blockquote'
+  | 'divider'
+  | 'image'
+  | 'mermaid'
+  | 'text'
+  | 'other';
+
+export interface DocumentBlock {
+  id: string;
+  type: BlockType;
+  tag: string;
+  level?: number; // Heading level (1-6) when type === 'heading'
+  start: number; // Inclusive offset in the source HTML
+  end: number; // Exclusive offset in the source HTML
+  html: string;
+  text: string;
+  sectionPath: string[]; // Heading titles enclosing this block
+  index: number; // 1-based position among blocks of the same type in the section body
+  path: string; // Human-readable address, e.g. "Installation > paragraph 3"
+}
+
+export interface DocumentSection {
+  id: string | null;
+  title: string | null;
+  level: number;
+  path: string[];
+  heading: DocumentBlock | null;
+  blocks: DocumentBlock[]; // Body blocks before the first child heading
+  children: DocumentSection[];
+}
+
+export interface SectionOutline {
+  id: string | null;
+  title: string | null;
+  level: number;
+  path: string;
+  blocks: Array<{ id: string; type: BlockType; path: string; preview: string }>;
+  sections: SectionOutline[];
+}
+
+export interface BlockTarget {
+  blockId?: string;
+  path?: string;
+}
+
+export interface BlockResolution {
+  success: boolean;
+  block?: DocumentBlock;
+  error?: string;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const TOKEN_REGEX = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>/g;
+const DIVIDER_CLASS_REGEX = /class\s*=\s*["'][^"']*tiptap-divider/i;
+
+const PATH_SEPARATOR = ' > ';
+
+// Friendly names accepted in block paths, mapped to block types
+const TYPE_ALIASES: Record<string, BlockType> = {
+  heading: 'heading',
+  paragraph: 'paragraph',
+  p: 'paragraph',
+  list: 'list',
+  table: 'table',
+  code: 'code',
+  codeblock: 'code',
+  'code block': 'code',
+  blockquote: 'blockquote',
+  quote: 'blockquote',
+  divider: 'divider',
+  hr: 'divider',
+  image: 'image',
+  mermaid: 'mermaid',
+  diagram: 'mermaid',
+  text: 'text',
+  block: 'other',
+  other: 'other'
+};
+
+export const decodeEntities = (value: string): string => value
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, '\'')
+  .replace(/&amp;/g, '&');
+
+export const extractText = (html: string): string => {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+};
+
+const classifyBlock = (tag: string, html: string): { type: BlockType; level?: number } => {
+  const headingMatch = tag.match(/^h([1-6])$/);
+  if (headingMatch) {
+    return { type: 'heading', level: parseInt(headingMatch[1], 10) };
+  }
+
+  switch (tag) {
+    case 'p':
+      return { type: 'paragraph' };
+    case 'ul':
+    case 'ol':
+      return { type: 'list' };
+    case 'table':
+      return { type: 'table' };
+    case 'pre':
+      return { type: 'code' };
+    case 'blockquote':
+      return { type: 'blockquote' };
+    case 'hr':
+      return { type: 'divider' };
+    case 'img':
+    case 'figure':
+      return { type: 'image' };
+    case 'div':
+      if (/data-type\s*=\s*["']mermaid["']/i.test(html)) {
+        return { type: 'mermaid' };
+      }
+      return { type: 'other' };
+    default:
+      return { type: 'other' };
+  }
+};
+
+const normalizeHeadingTitle = (title: string): string => title.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Allow "Installation" to match headings numbered like "2. Installation" or "2.1 Installation"
+const stripHeadingNumbering = (title: string): string => title.replace(/^\d+(?:\.\d+)*\.?\s+/, '');
+
+const headingMatches = (headingText: string, segment: string): boolean => {
+  const heading = normalizeHeadingTitle(headingText);
+  const wanted = normalizeHeadingTitle(segment);
+  return heading === wanted || stripHeadingNumbering(heading) === stripHeadingNumbering(wanted);
+};
+
+interface RawBlock {
+  tag: string;
+  start: number;
+  end: number;
+}
+
+// Split HTML into top-level element ranges; loose text between elements becomes a 'text' block
+const scanTopLevelRanges = (html: string): RawBlock[] => {
+  const ranges: RawBlock[] = [];
+  const stack: string[] = [];
+  let blockStart = -1;
+  let blockTag = '';
+  let textStart = 0;
+  let match: RegExpExecArray | null;
+
+  const flushText = (until: number) => {
+    if (until > textStart && html.slice(textStart, until).trim().length) {
+      const raw = html.slice(textStart, until);
+      const leading = raw.length - raw.trimStart().length;
+      const trailing = raw.length - raw.trimEnd().length;
+      ranges.push({ tag: '#text', start: textStart + leading, end: until - trailing });
+    }
+  };
+
+  TOKEN_REGEX.lastIndex = 0;
+  while ((match = TOKEN_REGEX.exec(html)) !== null) {
+    if (match[0].startsWith('<!--')) {
+      continue;
+    }
+
+    const isClosing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    const selfClosing = match[3] === '/' || VOID_TAGS.has(tag);
+
+    if (stack.length === 0 && !isClosing) {
+      flushText(match.index);
+      if (selfClosing) {
+        ranges.push({ tag, start: match.index, end: TOKEN_REGEX.lastIndex });
+        textStart = TOKEN_REGEX.lastIndex;
+        continue;
+      }
+      blockStart = match.index;
+      blockTag = tag;
+      stack.push(tag);
+      continue;
+    }
+
+    if (selfClosing && !isClosing) {
+      continue;
+    }
+
+    if (!isClosing) {
+      stack.push(tag);
+      continue;
+    }
+
+    // Pop to the matching opening tag; tolerate unbalanced markup from older documents
+    const openIndex = stack.lastIndexOf(tag);
+    if (openIndex === -1) {
+      continue;
+    }
+    stack.length = openIndex;
+
+    if (stack.length === 0 && blockStart !== -1) {
+      ranges.push({ tag: blockTag, start: blockStart, end: TOKEN_REGEX.lastIndex });
+      blockStart = -1;
+      textStart = TOKEN_REGEX.lastIndex;
+    }
+  }
+
+  if (blockStart !== -1) {
+    // Unclosed trailing element: treat the remainder of the document as one block
+    ranges.push({ tag: blockTag, start: blockStart, end: html.length });
+  } else {
+    flushText(html.length);
+  }
+
+  return ranges;
+};
+
+const createBlockId = (type: BlockType, text: string, html: string, seen: Map<string, number>): string => {
+  const fingerprint = `${type}|${text || html}`;
+  const hash = crypto.createHash('sha1').update(fingerprint).digest('hex').slice(0, 10);
+  const occurrence = (seen.get(hash) || 0) + 1;
+  seen.set(hash, occurrence);
+  return occurrence === 1 ? `blk_${hash}` : `blk_${hash}_${occurrence}`;
+};
+
+/**
+ * Parse HTML into an ordered list of top-level blocks.
+ * IDs are derived from block type and text: they survive edits elsewhere in the document,
+ * but an edited block gets a new ID, and repeated blocks are numbered in document order.
+ * Edit tools return the ID of the block they wrote so callers can keep addressing it.
+ */
+export const parseDocumentBlocks = (html: string): DocumentBlock[] => {
+  const source = typeof html === 'string' ? html : '';
+  const seenIds = new Map<string, number>();
+  const headingStack: Array<{ level: number; title: string }> = [];
+  const typeCounters = new Map<string, number>();
+
+  return scanTopLevelRanges(source).map((range) => {
+    const blockHtml = source.slice(range.start, range.end);
+    const text = extractText(blockHtml);
+    const { type, level } = range.tag === '#text'
+      ? { type: 'text' as BlockType, level: undefined }
+      : classifyBlock(range.tag, blockHtml);
+
+    if (type === 'heading' && level) {
+      while (headingStack.length && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+    }
+
+    const sectionPath = headingStack.map((h) => h.title);
+    const counterKey = `${sectionPath.join('\u0000')}|${type}`;
+    const index = type === 'heading' ? 0 : (typeCounters.get(counterKey) || 0) + 1;
+    if (type !== 'heading') {
+      typeCounters.set(counterKey, index);
+    }
+
+    const path = type === 'heading'
+      ? [...sectionPath, text].join(PATH_SEPARATOR)
+      : [...sectionPath, `${type} ${index}`].join(PATH_SEPARATOR);
+
+    const block: DocumentBlock = {
+      id: createBlockId(type, text, blockHtml, seenIds),
+      type,
+      tag: range.tag,
+      level,
+      start: range.start,
+      end: range.end,
+      html: blockHtml,
+      text,
+      sectionPath,
+      index,
+      path
+    };
+
+    if (type === 'heading' && level) {
+      headingStack.push({ level, title: text });
+    }
+
+    return block;
+  });
+};
+
+/**
+ * Group blocks into a nested section tree keyed by headings.
+ */
+export const buildSectionTree = (blocks: DocumentBlock[]): DocumentSection => {
+  const root: DocumentSection = { id: null, title: null, level: 0, path: [], heading: null, blocks: [], children: [] };
+  const stack: DocumentSection[] = [root];
+
+  for (const block of blocks) {
+    if (block.type === 'heading' && block.level) {
+      while (stack.length > 1 && stack[stack.length - 1].level >= block.level) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      const section: DocumentSection = {
+        id: block.id,
+        title: block.text,
+        level: block.level,
+        path: [...parent.path, block.text],
+        heading: block,
+        blocks: [],
+        children: []
+      };
+      parent.children.push(section);
+      stack.push(section);
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    // Blocks that follow a child section still belong to that child until a new heading appears
+    current.blocks.push(block);
+  }
+
+  return root;
+};
+
+const parsePathSegment = (segment: string): { type: BlockType; index: number } | null => {
+  const match = segment.trim().match(/^([a-z][a-z ]*?)\s*(?:#\s*)?(\d+)$/i);
+  if (!match) {
+    return null;
+  }
+  const type = TYPE_ALIASES[match[1].toLowerCase().trim()];
+  if (!type) {
+    return null;
+  }
+  return { type, index: parseInt(match[2], 10) };
+};
+
+/**
+ * Resolve a block by ID or by heading path such as "Installation > Setup > paragraph 2".
+ * A path ending in a heading title resolves to that heading block.
+ */
+export const resolveBlockTarget = (blocks: DocumentBlock[], target: BlockTarget): BlockResolution => {
+  if (target.blockId) {
+    const block = blocks.find((b) => b.id === target.blockId);
+    return block
+      ? { success: true, block }
+      : { success: false, error: `No block with ID "${target.blockId}" exists. Call get_document_outline to refresh block IDs.` };
+  }
+
+  const rawPath = typeof target.path === 'string' ? target.path.trim() : '';
+  if (!rawPath) {
+    return { success: false, error: 'Provide either blockId or path to address a block.' };
+  }
+
+  const segments = rawPath.split('>').map((s) => s.trim()).filter(Boolean);
+  const last = segments[segments.length - 1];
+  const selector = parsePathSegment(last);
+  const headingSegments = selector ? segments.slice(0, -1) : segments;
+
+  // Walk the heading segments in order, each one must appear inside the previous section
+  let scopeStart = 0;
+  let scopeEnd = blocks.length;
+  let currentHeading: DocumentBlock | null = null;
+
+  for (const segment of headingSegments) {
+    let found = -1;
+    for (let i = scopeStart; i < scopeEnd; i++) {
+      const candidate = blocks[i];
+      if (candidate.type === 'heading' && headingMatches(candidate.text, segment)) {
+        found = i;
+        break;
+      }
+    }
+    if (found === -1) {
+      return { success: false, error: `Heading "${segment}" was not found${currentHeading ? ` under "${currentHeading.text}"` : ''}.` };
+    }
+    currentHeading = blocks[found];
+    scopeStart = found + 1;
+    scopeEnd = findSectionEndIndex(blocks, found);
+  }
+
+  if (!selector) {
+    return currentHeading
+      ? { success: true, block: currentHeading }
+      : { success: false, error: `Path "${rawPath}" does not reference a heading or block.` };
+  }
+
+  // Only count blocks in the section body, i.e. before the first nested heading
+  const bodyCandidates: DocumentBlock[] = [];
+  for (let i = scopeStart; i < scopeEnd; i++) {
+    if (blocks[i].type === 'heading') {
+      if (selector.type !== 'heading') {
+        break;
+      }
+      bodyCandidates.push(blocks[i]);
+      continue;
+    }
+    if (blocks[i].type === selector.type) {
+      bodyCandidates.push(blocks[i]);
+    }
+  }
+
+  const block = bodyCandidates[selector.index - 1];
+  if (!block) {
+    return {
+      success: false,
+      error: `Path "${rawPath}" is out of range: found ${bodyCandidates.length} ${selector.type} block(s) in that section.`
+    };
+  }
+
+  return { success: true, block };
+};
+
+/**
+ * Index (exclusive) of the block that ends the section opened by the heading at headingIndex.
+ */
+export const findSectionEndIndex = (blocks: DocumentBlock[], headingIndex: number): number => {
+  const heading = blocks[headingIndex];
+  if (!heading || heading.type !== 'heading' || !heading.level) {
+    return headingIndex + 1;
+  }
+  for (let i = headingIndex + 1; i < blocks.length; i++) {
+    const candidate = blocks[i];
+    if (candidate.type === 'heading' && candidate.level && candidate.level <= heading.level) {
+      return i;
+    }
+  }
+  return blocks.length;
+};
+
+/**
+ * Character range covered by a block. For headings, 'section' scope spans the heading and
+ * everything up to the next heading of the same or higher level; 'block' scope spans the
+ * heading plus the divider that follows H1/H2 headings.
+ */
+export const getBlockRange = (
+  blocks: DocumentBlock[],
+  block: DocumentBlock,
+  scope: 'block' | 'section' = 'block'
+): { from: number; to: number } => {
+  const index = blocks.findIndex((b) => b.id === block.id);
+  if (index === -1) {
+    return { from: block.start, to: block.end };
+  }
+
+  if (block.type === 'heading' && scope === 'section') {
+    const endIndex = findSectionEndIndex(blocks, index);
+    const to = endIndex < blocks.length ? blocks[endIndex].start : blocks[blocks.length - 1].end;
+    return { from: block.start, to };
+  }
+
+  if (block.type === 'heading') {
+    const next = blocks[index + 1];
+    if (next && next.type === 'divider' && DIVIDER_CLASS_REGEX.test(next.html)) {
+      return { from: block.start, to: next.end };
+    }
+  }
+
+  return { from: block.start, to: block.end };
+};
+
+/**
+ * Compact outline suitable for returning to the agent.
+ */
+export const summarizeSection = (section: DocumentSection, previewLength = 80): SectionOutline => ({
+  id: section.id,
+  title: section.title,
+  level: section.level,
+  path: section.path.join(PATH_SEPARATOR),
+  blocks: section.blocks
+    .filter((b) => b.type !== 'divider')
+    .map((b) => ({
+      id: b.id,
+      type: b.type,
+      path: b.path,
+      preview: b.text.length > previewLength ? `${b.text.slice(0, previewLength)}...` : b.text
+    })),
+  sections: section.children.map((child) => summarizeSection(child, previewLength))
+});
+
+/**
+ * Splice new HTML into the document, keeping a newline between adjacent blocks.
+ */
+export const spliceBlocks = (html: string, from: number, to: number, insert: string): string => {
+  const before = html.slice(0, from);
+  const after = html.slice(to);
+  if (!insert.length) {
+    return before.replace(/\s+$/, '') + (before.trim().length && after.trim().length ? '\n' : '') + after.replace(/^\s+/, '');
+  }
+  const lead = before.length && !/\n\s*$/.test(before) ? '\n' : '';
+  const trail = after.length && !/^\s*\n/.test(after) ? '\n' : '';
+  return `${before}${lead}${insert}${trail}${after}`;
+};
@@ -0,0 +1,205 @@
+/**
+ * Chunked Document Storage
+ * Documents larger than CHUNKED_STORAGE_THRESHOLD keep their HTML in ordered
+ * section chunks under Documents/{id}/Chunks instead of the Content field, so
+ * they stay clear of Firestore's 1 MB document limit and the editor can load
+ * them section by section. Chunk ids are content hashes and chunks are never
+ * modified, which lets DocumentHistory entries reference unchanged chunks
+ * instead of storing full copies.
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import { parseDocumentBlocks } from './documentBlocks';
+
+export const CHUNKS_SUBCOLLECTION = 'Chunks';
+
+// Keep in sync with src/services/documentChunkService.ts so both writers produce the same chunks
+export const CHUNKED_STORAGE_THRESHOLD = 200_000;
+const CHUNK_MIN_CHARS = 8_000; // Small sections share a chunk
+const CHUNK_TARGET_CHARS = 64_000; // Long sections are split at block boundaries
+
+export interface ChunkHeading {
+  level: number;
+  text: string;
+}
+
+// Stored in order on Documents.Chunks; the outline lets the editor list sections before loading them
+export interface ChunkSummary {
+  id: string;
+  size: number;
+  headings: ChunkHeading[];
+}
+
+export interface DocumentChunk extends ChunkSummary {
+  html: string;
+}
+
+// Transactions and batches both accept chunk writes
+interface ChunkWriter {
+  set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
+
+export const chunkIdFor = (html: string): string =>
+  'c_' + crypto.createHash('sha256').update(html).digest('hex').slice(0, 24);
+
+export const isChunkedDocument = (data: admin.firestore.DocumentData | undefined): boolean =>
+  !!data?.Chunked && Array.isArray(data?.Chunks);
+
+const chunkRef = (db: admin.firestore.Firestore, documentId: string, chunkId: string) =>
+  db.collection('Documents').doc(documentId).collection(CHUNKS_SUBCOLLECTION).doc(chunkId);
+
+/**
+ * Split HTML at top-level h1/h2 sections, merging small sections and splitting
+ * long ones. Joining the chunks' html gives back the input exactly.
+ */
+export const splitIntoChunks = (html: string): DocumentChunk[] => {
+  const blocks = parseDocumentBlocks(html);
+  const boundaries = [0];
+  blocks.forEach((block, index) => {
+    if (index === 0) return;
+    const length = block.start - boundaries[boundaries.length - 1];
+    const startsSection = block.tag === 'h1' || block.tag === 'h2';
+    if ((startsSection && length >= CHUNK_MIN_CHARS) || length >= CHUNK_TARGET_CHARS) {
+      boundaries.push(block.start);
+    }
+  });
+
+  return boundaries.map((start, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1] : html.length;
+    const chunkHtml = html.slice(start, end);
+    const headings = blocks
+      .filter((block) => block.start >= start && block.start < end && block.type === 'heading' && (block.level || 0) <= 3)
+      .map((block) => ({ level: block.level || 1, text: block.text }));
+    return { id: chunkIdFor(chunkHtml), size: chunkHtml.length, headings, html: chunkHtml };
+  });
+};
+
+const writeChunks = (
+  writer: ChunkWriter,
+  db: admin.firestore.Firestore,
+  documentId: string,
+  chunks: DocumentChunk[],
+  existingIds: Set<string>
+) => {
+  chunks.forEach((chunk) => {
+    if (existingIds.has(chunk.id)) return;
+    existingIds.add(chunk.id);
+    writer.set(chunkRef(db, documentId, chunk.id), {
+      Html: chunk.html,
+      Size: chunk.size,
+      Created_Time: admin.firestore.FieldValue.serverTimestamp()
+    });
+  });
+};
+
+/**
+ * Fields to write to Documents for new content. Large content is stored as
+ * chunks (only chunks the document doesn't already have are written); small
+ * content stays inline in Content. Call after all transaction reads.
+ */
+export const buildContentWrite = (
+  writer: ChunkWriter,
+  db: admin.firestore.Firestore,
+  documentId: string,
+  html: string,
+  currentData: admin.firestore.DocumentData | undefined
+): admin.firestore.DocumentData => {
+  if (html.length <= CHUNKED_STORAGE_THRESHOLD) {
+    // Chunks stay behind for history entries that reference them
+    return isChunkedDocument(currentData)
+      ? { Content: html, Chunked: admin.firestore.FieldValue.delete(), Chunks: admin.firestore.FieldValue.delete() }
+      : { Content: html };
+  }
+
+  const chunks = splitIntoChunks(html);
+  const existingIds = new Set<string>(isChunkedDocument(currentData) ? currentData!.Chunks.map((chunk: ChunkSummary) => chunk.id) : []);
+  writeChunks(writer, db, documentId, chunks, existingIds);
+  return {
+    Content: '',
+    Chunked: true,
+    Chunks: chunks.map(({ id, size, headings }) => ({ id, size, headings }))
+  };
+};
+
+const assembleChunks = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  chunkIds: string[],
+  t?: admin.firestore.Transaction
+): Promise<string> => {
+  if (chunkIds.length === 0) return '';
+  const refs = chunkIds.map((id) => chunkRef(db, documentId, id));
+  const snaps = t ? await t.getAll(...refs) : await db.getAll(...refs);
+  return snaps.map((snap) => snap.data()?.Html || '').join('');
+};
+
+/**
+ * Full HTML of a document whether it is stored inline or chunked
+ */
+export const readDocumentContent = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  data: admin.firestore.DocumentData | undefined,
+  t?: admin.firestore.Transaction
+): Promise<string> => {
+  if (!isChunkedDocument(data)) {
+    return data?.Content || '';
+  }
+  return assembleChunks(db, documentId, data!.Chunks.map((chunk: ChunkSummary) => chunk.id), t);
+};
+
+/**
+ * Content fields for a DocumentHistory entry. Large versions reference the
+ * document's chunks, so sections unchanged since earlier versions aren't copied.
+ */
+export const buildHistoryContent = (
+  writer: ChunkWriter,
+  db: admin.firestore.Firestore,
+  documentId: string,
+  html: string,
+  currentData?: admin.firestore.DocumentData
+): admin.firestore.DocumentData => {
+  if (html.length <= CHUNKED_STORAGE_THRESHOLD) {
+    return { Content: html };
+  }
+
+  const chunks = splitIntoChunks(html);
+  const existingIds = new Set<string>(isChunkedDocument(currentData) ? currentData!.Chunks.map((chunk: ChunkSummary) => chunk.id) : []);
+  writeChunks(writer, db, documentId, chunks, existingIds);
+  return { Content: '', Chunked: true, Chunk_Ids: chunks.map((chunk) => chunk.id), Content_Length: html.length };
+};
+
+export const readHistoryContent = async (
+  db: admin.firestore.Firestore,
+  entry: admin.firestore.DocumentData | undefined
+): Promise<string> => {
+  if (!entry?.Chunked || !Array.isArray(entry.Chunk_Ids)) {
+    return entry?.Content || '';
+  }
+  return assembleChunks(db, entry.Document_Id, entry.Chunk_Ids);
+};
+
+/**
+ * Add a DocumentHistory entry, storing large content as chunk references.
+ * Chunks the document already lists are referenced without being rewritten.
+ */
+export const addHistoryEntry = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  content: string,
+  fields: admin.firestore.DocumentData
+): Promise<admin.firestore.DocumentReference> => {
+  const currentData = content.length > CHUNKED_STORAGE_THRESHOLD
+    ? (await db.collection('Documents').doc(documentId).get()).data()
+    : undefined;
+  const batch = db.batch();
+  const historyRef = db.collection('DocumentHistory').doc();
+  batch.set(historyRef, { ...fields, Document_Id: documentId, ...buildHistoryContent(batch, db, documentId, content, currentData) });
+  await batch.commit();
+  return historyRef;
+};
+
+export const deleteDocumentChunks = async (db: admin.firestore.Firestore, documentId: string): Promise<void> => {
+  await db.recursiveDelete(db.collection('Documents').doc(documentId).collection(CHUNKS_SUBCOLLECTION));
+};
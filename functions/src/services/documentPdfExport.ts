@@ -0,0 +1,269 @@
+/**
+ * Document PDF Export
+ * Renders a document to PDF in headless Chromium, so the result no longer
+ * depends on the user's browser: a project cover page, a table of contents
+ * with page numbers, running headers and page-numbered footers, and page
+ * breaks that keep tables rows, code blocks and Mermaid diagrams together.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import chromium from '@sparticuz/chromium';
+import puppeteer, { Browser, Page, PDFOptions } from 'puppeteer-core';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef } from 'pdf-lib';
+import { readDocumentContent } from './documentChunks';
+import {
+  ExportProject,
+  HIGHLIGHT_CSS,
+  MERMAID_SCRIPT_URL,
+  RenderedHeading,
+  escapeHtml,
+  renderDocumentHtml,
+  slugify
+} from './documentRendering';
+
+const TOC_MAX_LEVEL = 3;
+const CONTENT_TIMEOUT_MS = 30000; // Images and the Mermaid script
+const PAGE_MARGIN = { top: '22mm', bottom: '20mm', left: '18mm', right: '18mm' };
+
+const CATEGORY_LABELS: Record<string, string> = {
+  User: 'User Documentation',
+  Developer: 'Developer Documentation',
+  General: 'Documentation'
+};
+
+export interface PdfDocumentSource {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+export interface DocumentPdfResult {
+  fileName: string;
+  pdf: Buffer;
+  pageCount: number;
+}
+
+// Local development can point at an installed Chrome instead of the bundled Chromium
+const launchBrowser = async (): Promise<Browser> => puppeteer.launch({
+  args: chromium.args,
+  executablePath: process.env.CHROMIUM_EXECUTABLE_PATH || await chromium.executablePath(),
+  headless: true
+});
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const PDF_CSS = `*{box-sizing:border-box}
+html{-webkit-print-color-adjust:exact;print-color-adjust:exact}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Arial,sans-serif;font-size:11pt;line-height:1.55;color:#1f2937}
+a{color:#2563eb;text-decoration:none}
+h1,h2,h3,h4,h5,h6{color:#111827;line-height:1.3;break-after:avoid;page-break-after:avoid}
+h1{font-size:22pt;margin:0 0 12pt;padding-bottom:6pt;border-bottom:2px solid #e5e7eb}
+h2{font-size:16pt;margin:20pt 0 8pt;padding-bottom:4pt;border-bottom:1px solid #e5e7eb}
+h3{font-size:13pt;margin:16pt 0 6pt}
+h4,h5,h6{font-size:11pt;margin:12pt 0 4pt}
+p{margin:6pt 0;orphans:3;widows:3}
+img{max-width:100%;height:auto;break-inside:avoid;page-break-inside:avoid}
+blockquote{margin:8pt 0;padding:2pt 12pt;border-left:3px solid #d1d5db;color:#4b5563;break-inside:avoid;page-break-inside:avoid}
+hr{border:0;border-top:1px solid #e5e7eb;margin:16pt 0}
+ul,ol{padding-left:20pt}
+li{break-inside:avoid;page-break-inside:avoid}
+ul[data-type="taskList"]{list-style:none;padding-left:2pt}
+ul[data-type="taskList"] li{display:flex;gap:6pt}
+ul[data-type="taskList"] li>div>p{margin:0}
+table{width:100%;border-collapse:collapse;margin:10pt 0;font-size:10pt}
+thead{display:table-header-group}
+tr{break-inside:avoid;page-break-inside:avoid}
+th,td{border:1px solid #d1d5db;padding:4pt 7pt;text-align:left;vertical-align:top}
+th{background:#f3f4f6;font-weight:600}
+th p,td p{margin:0}
+code{font-family:"SFMono-Regular",Menlo,Consolas,"Liberation Mono",monospace;font-size:9.5pt;background:#f3f4f6;padding:1pt 3pt;border-radius:3px}
+pre.code-block{position:relative;margin:10pt 0;padding:10pt 12pt;background:#f6f8fa;border:1px solid #e5e7eb;border-radius:6px;white-space:pre-wrap;word-break:break-word;line-height:1.45;break-inside:avoid;page-break-inside:avoid}
+pre.code-block[data-language]::before{content:attr(data-language);position:absolute;top:4pt;right:8pt;font-size:7pt;color:#9ca3af;text-transform:uppercase}
+pre.code-block code{background:none;padding:0;font-size:9pt}
+pre.mermaid{margin:12pt 0;padding:8pt;text-align:center;white-space:pre-wrap;border:1px solid #e5e7eb;border-radius:6px;break-inside:avoid;page-break-inside:avoid}
+pre.mermaid svg{max-width:100%;height:auto}
+.toc{break-after:page;page-break-after:always}
+.toc h1{border:0}
+.toc ol{list-style:none;margin:0;padding:0}
+.toc li{margin:3pt 0}
+.toc a{display:flex;align-items:baseline;color:#1f2937}
+.toc .toc-level-1{font-weight:600;margin-top:8pt}
+.toc .toc-level-2{padding-left:14pt}
+.toc .toc-level-3{padding-left:28pt;font-size:10pt;color:#4b5563}
+.toc-leader{flex:1;margin:0 6pt;border-bottom:1px dotted #9ca3af}
+.toc-page{width:3em;text-align:right;font-variant-numeric:tabular-nums}
+${HIGHLIGHT_CSS}`;
+
+const COVER_CSS = `*{box-sizing:border-box}
+html{-webkit-print-color-adjust:exact;print-color-adjust:exact}
+body{margin:0;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Arial,sans-serif;color:#111827}
+.cover{height:297mm;padding:40mm 24mm 24mm;display:flex;flex-direction:column;border-top:12mm solid #2563eb}
+.cover-category{font-size:11pt;font-weight:600;letter-spacing:.08em;text-transform:uppercase;color:#2563eb}
+.cover-title{margin:10mm 0 6mm;font-size:32pt;line-height:1.2}
+.cover-project{font-size:16pt;color:#374151}
+.cover-description{margin-top:8mm;max-width:140mm;font-size:11pt;line-height:1.6;color:#4b5563}
+.cover-meta{margin-top:auto;padding-top:6mm;border-top:1px solid #e5e7eb;font-size:9.5pt;color:#6b7280;line-height:1.7}
+`;
+
+const renderCover = (project: ExportProject, title: string, category: string, exportedAt: string): string => `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><style>${COVER_CSS}</style></head>
+<body><div class="cover">
+<div class="cover-category">${escapeHtml(CATEGORY_LABELS[category] || CATEGORY_LABELS.General)}</div>
+<h1 class="cover-title">${escapeHtml(title)}</h1>
+<div class="cover-project">${escapeHtml(project.name)}</div>
+${project.description ? `<p class="cover-description">${escapeHtml(project.description)}</p>` : ''}
+<div class="cover-meta">${project.repository ? `<div>Repository: ${escapeHtml(project.repository)}</div>` : ''}<div>Exported ${escapeHtml(exportedAt)}</div></div>
+</div></body></html>`;
+
+// Page numbers start as blanks of fixed width, so filling them in never moves anything
+const renderToc = (headings: RenderedHeading[]): string => {
+  const entries = headings.filter((heading) => heading.level <= TOC_MAX_LEVEL);
+  if (entries.length === 0) {
+    return '';
+  }
+  const items = entries
+    .map((heading) => `<li class="toc-level-${heading.level}"><a href="#${heading.anchor}"><span class="toc-text">${escapeHtml(heading.text)}</span><span class="toc-leader"></span><span class="toc-page" data-anchor="${heading.anchor}"></span></a></li>`)
+    .join('');
+  return `<nav class="toc"><h1>Contents</h1><ol>${items}</ol></nav>`;
+};
+
+const renderBody = (title: string, toc: string, body: string): string => `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${PDF_CSS}</style></head>
+<body>${toc}<main>${body}</main></body></html>`;
+
+// Chrome's header and footer templates are rendered separately and get no page styles
+const headerTemplate = (project: ExportProject, title: string): string => `<div style="width:100%;box-sizing:border-box;padding:0 18mm;display:flex;justify-content:space-between;font-family:Arial,sans-serif;font-size:8px;color:#9ca3af">
+<span>${escapeHtml(project.name)}</span><span>${escapeHtml(title)}</span></div>`;
+
+const FOOTER_TEMPLATE = `<div style="width:100%;box-sizing:border-box;padding:0 18mm;text-align:center;font-family:Arial,sans-serif;font-size:8px;color:#9ca3af">
+Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>`;
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+// Leading header rows move into a thead, which Chrome repeats on every page a table spans
+const repeatTableHeaders = (page: Page): Promise<void> => page.evaluate(() => {
+  document.querySelectorAll('table').forEach((table) => {
+    const body = table.tBodies[0];
+    if (table.tHead || !body) return;
+    const head = table.createTHead();
+    while (body.rows.length > 1 && Array.from(body.rows[0].cells).every((cell) => cell.tagName === 'TH')) {
+      head.appendChild(body.rows[0]);
+    }
+    if (!head.rows.length) table.deleteTHead();
+  });
+});
+
+// The part of the Mermaid script the page uses once it has loaded
+interface MermaidGlobal {
+  initialize: (config: { startOnLoad: boolean; securityLevel: string }) => void;
+  run: (options: { querySelector: string; suppressErrors: boolean }) => Promise<void>;
+}
+
+const renderMermaid = async (page: Page): Promise<void> => {
+  try {
+    await page.addScriptTag({ url: MERMAID_SCRIPT_URL });
+    await page.evaluate(async () => {
+      const { mermaid } = window as unknown as { mermaid: MermaidGlobal };
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict' });
+      await mermaid.run({ querySelector: 'pre.mermaid', suppressErrors: true });
+    });
+  } catch (error) {
+    // The diagram sources stay in the PDF as text
+    logger.warn('⚠️ Mermaid rendering failed for PDF export:', error instanceof Error ? error.message : error);
+  }
+};
+
+/**
+ * Page number (1-based) of every named destination in a PDF.
+ * Chrome writes one to the catalog's Dests for each element an internal link points at.
+ */
+const readDestinationPages = async (pdf: Uint8Array): Promise<Record<string, number>> => {
+  const pdfDocument = await PDFDocument.load(pdf);
+  const pageNumbers = new Map(pdfDocument.getPages().map((page, index): [string, number] => [page.ref.toString(), index + 1]));
+  const pages: Record<string, number> = {};
+
+  const dests = pdfDocument.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  dests?.entries().forEach(([name, value]) => {
+    const destination = pdfDocument.context.lookup(value);
+    const pageRef = destination instanceof PDFArray ? destination.get(0) : null;
+    const pageNumber = pageRef instanceof PDFRef ? pageNumbers.get(pageRef.toString()) : undefined;
+    if (pageNumber) {
+      pages[name.decodeText()] = pageNumber;
+    }
+  });
+  return pages;
+};
+
+/**
+ * Render a document of the project to PDF
+ */
+export const buildDocumentPdf = async (
+  db: admin.firestore.Firestore,
+  project: ExportProject,
+  source: PdfDocumentSource
+): Promise<DocumentPdfResult> => {
+  const title: string = source.data.DocumentName || source.data.Title || 'Untitled Document';
+  const content = await readDocumentContent(db, source.id, source.data);
+  const { body, headings, hasMermaid } = renderDocumentHtml(content);
+  const toc = renderToc(headings);
+  const exportedAt = new Date().toISOString().slice(0, 10);
+
+  const options: PDFOptions = {
+    format: 'A4',
+    printBackground: true,
+    displayHeaderFooter: true,
+    headerTemplate: headerTemplate(project, title),
+    footerTemplate: FOOTER_TEMPLATE,
+    margin: PAGE_MARGIN,
+    outline: true,
+    tagged: true,
+    timeout: CONTENT_TIMEOUT_MS
+  };
+
+  const browser = await launchBrowser();
+  try {
+    const page = await browser.newPage();
+    await page.setContent(renderBody(title, toc, body), { waitUntil: 'load', timeout: CONTENT_TIMEOUT_MS });
+    await repeatTableHeaders(page);
+    if (hasMermaid) {
+      await renderMermaid(page);
+    }
+
+    // First pass finds the page of every heading, the second prints them in the contents
+    let bodyPdf = await page.pdf(options);
+    if (toc) {
+      const destinationPages = await readDestinationPages(bodyPdf);
+      await page.evaluate((pages: Record<string, number>) => {
+        document.querySelectorAll<HTMLElement>('.toc-page').forEach((element) => {
+          element.textContent = pages[element.dataset.anchor] ? String(pages[element.dataset.anchor]) : '';
+        });
+      }, destinationPages);
+      bodyPdf = await page.pdf(options);
+    }
+
+    // The cover is printed on its own, without the running header and footer
+    const coverPage = await browser.newPage();
+    await coverPage.setContent(renderCover(project, title, source.data.DocumentCategory || 'General', exportedAt));
+    const coverPdf = await coverPage.pdf({ format: 'A4', printBackground: true, margin: { top: 0, bottom: 0, left: 0, right: 0 }, pageRanges: '1' });
+
+    // Added to the body document rather than merging both, which would drop its bookmarks and links
+    const pdfDocument = await PDFDocument.load(bodyPdf);
+    const [cover] = await pdfDocument.copyPages(await PDFDocument.load(coverPdf), [0]);
+    pdfDocument.insertPage(0, cover);
+    pdfDocument.setTitle(title);
+    pdfDocument.setSubject(project.name);
+    pdfDocument.setCreator('Dotivra');
+
+    return {
+      fileName: `${slugify(title, 'document')}.pdf`,
+      pdf: Buffer.from(await pdfDocument.save()),
+      pageCount: pdfDocument.getPageCount()
+    };
+  } finally {
+    await browser.close();
+  }
+};
@@ -0,0 +1,165 @@
+/**
+ * Document Rendering
+ * Shared HTML rendering for exports (docs site, PDF): heading anchors in the
+ * order the editor's NavigationPane lists them, server-side code highlighting
+ * and Mermaid sources ready for the browser renderer.
+ */
+
+import * as admin from 'firebase-admin';
+import hljs from 'highlight.js';
+import { decodeEntities, extractText } from './documentBlocks';
+
+// Pinned to the major version the editor renders with
+export const MERMAID_SCRIPT_URL = 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.min.js';
+
+export interface ExportProject {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  repository: string;
+  userId: string | null;
+}
+
+export interface RenderedHeading {
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+export const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const slugify = (value: string, fallback: string): string => {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || fallback;
+};
+
+// Appends -2, -3, ... to slugs already taken
+export const uniqueSlug = (slug: string, taken: Set<string>): string => {
+  let candidate = slug;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${slug}-${suffix}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+const readAttribute = (attributes: string, name: string): string | null => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i').exec(attributes);
+  return match ? decodeEntities(match[1]) : null;
+};
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+const mermaidBlock = (source: string): string => `<pre class="mermaid">${escapeHtml(source)}</pre>`;
+
+const highlightCode = (code: string, language: string | null): string => {
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+};
+
+/**
+ * Rewrite editor HTML for export: anchors on headings, highlighted code,
+ * Mermaid sources for the browser renderer and, when pagesById is given,
+ * links to other documents pointing at their exported pages
+ */
+export const renderDocumentHtml = (
+  html: string,
+  pagesById: Map<string, string> = new Map()
+): { body: string; headings: RenderedHeading[]; hasMermaid: boolean } => {
+  const headings: RenderedHeading[] = [];
+  const anchors = new Set<string>();
+  let hasMermaid = false;
+
+  let body = html.replace(/<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/gi, (_match, levelText: string, attributes: string, inner: string) => {
+    const level = parseInt(levelText, 10);
+    const text = extractText(inner) || `Heading ${level}`;
+    const anchor = uniqueSlug(slugify(text, `heading-${headings.length + 1}`), anchors);
+    headings.push({ level, text, anchor });
+    const otherAttributes = attributes.replace(/\s+id\s*=\s*"[^"]*"/i, '');
+    return `<h${level}${otherAttributes} id="${anchor}">${inner}</h${level}>`;
+  });
+
+  body = body.replace(/<div\b([^>]*\bdata-type="mermaid"[^>]*)>[\s\S]*?<\/div>/gi, (_match, attributes: string) => {
+    hasMermaid = true;
+    return mermaidBlock(readAttribute(attributes, 'data-chart') || '');
+  });
+
+  body = body.replace(/<pre\b([^>]*)>\s*<code\b([^>]*)>([\s\S]*?)<\/code>\s*<\/pre>/gi, (_match, preAttributes: string, codeAttributes: string, inner: string) => {
+    const classLanguage = /\blanguage-([\w+#-]+)/.exec(`${preAttributes} ${codeAttributes}`)?.[1] || null;
+    const language = (readAttribute(preAttributes, 'data-language') || classLanguage || '').toLowerCase() || null;
+    const code = decodeEntities(inner.replace(/<[^>]*>/g, ''));
+    if (language === 'mermaid') {
+      hasMermaid = true;
+      return mermaidBlock(code);
+    }
+    const label = language && language !== 'plaintext' ? ` data-language="${escapeHtml(language)}"` : '';
+    return `<pre class="code-block"${label}><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlightCode(code, language)}</code></pre>`;
+  });
+
+  // Editor links to other documents of the project open the exported page instead
+  body = body.replace(/(<a\b[^>]*?\bhref=")([^"]*)(")/gi, (match, before: string, href: string, after: string) => {
+    const target = /^(?:https?:\/\/[^/]+)?\/document\/(?:project\/|history\/|audit\/)?([\w-]+)\/?(#[^"]*)?$/.exec(decodeEntities(href));
+    const fileName = target ? pagesById.get(target[1]) : undefined;
+    return fileName ? `${before}${escapeHtml(`${fileName}${target![2] || ''}`)}${after}` : match;
+  });
+
+  return { body, headings, hasMermaid };
+};
+
+// Light theme for highlight.js output
+export const HIGHLIGHT_CSS = `.hljs-comment,.hljs-quote{color:#6a737d;font-style:italic}
+.hljs-keyword,.hljs-selector-tag,.hljs-type,.hljs-doctag{color:#d73a49}
+.hljs-string,.hljs-regexp,.hljs-addition,.hljs-attribute,.hljs-meta .hljs-string{color:#032f62}
+.hljs-number,.hljs-literal,.hljs-variable,.hljs-template-variable,.hljs-attr,.hljs-selector-attr,.hljs-selector-class,.hljs-selector-id{color:#005cc5}
+.hljs-title,.hljs-section,.hljs-title.function_,.hljs-title.class_{color:#6f42c1}
+.hljs-built_in,.hljs-symbol,.hljs-bullet,.hljs-name,.hljs-tag{color:#22863a}
+.hljs-meta{color:#735c0f}
+.hljs-deletion{color:#b31d28;background:#ffeef0}
+.hljs-emphasis{font-style:italic}.hljs-strong{font-weight:600}
+`;
+
+// ============================================================================
+// PROJECT
+// ============================================================================
+
+/**
+ * Project by Firestore ID or Project_Id
+ */
+export const loadExportProject = async (
+  db: admin.firestore.Firestore,
+  projectId: string
+): Promise<ExportProject | null> => {
+  let snapshot: admin.firestore.DocumentSnapshot = await db.collection('Projects').doc(projectId).get();
+  if (!snapshot.exists) {
+    const query = await db.collection('Projects').where('Project_Id', '==', projectId).limit(1).get();
+    if (query.empty) {
+      return null;
+    }
+    snapshot = query.docs[0];
+  }
+
+  const data = snapshot.data() || {};
+  return {
+    id: snapshot.id,
+    projectId: data.Project_Id || snapshot.id,
+    name: data.ProjectName || 'Untitled project',
+    description: data.Description || '',
+    repository: data.GitHubRepo || '',
+    userId: data.User_Id || null
+  };
+};
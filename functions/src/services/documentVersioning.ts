@@ -0,0 +1,61 @@
+/**
+ * Document Versioning
+ * Optimistic concurrency for Documents.Content writes. Writers send the version
+ * and/or Hash their edit was based on; a write made against an older document
+ * is rejected with 409 so the client can merge instead of overwriting
+ */
+
+import * as admin from 'firebase-admin';
+import { hashContent } from './toolAudit';
+import { isChunkedDocument } from './documentChunks';
+
+export interface WriteBase {
+  baseVersion?: number;
+  baseHash?: string;
+}
+
+// Both fields are optional so existing clients that send neither keep working
+export const readWriteBase = (body: unknown): WriteBase => {
+  const { baseVersion, baseHash } = (body || {}) as { baseVersion?: unknown; baseHash?: unknown };
+  const base: WriteBase = {};
+  const version = Number(baseVersion);
+  if (baseVersion !== undefined && baseVersion !== null && Number.isFinite(version)) {
+    base.baseVersion = version;
+  }
+  if (typeof baseHash === 'string' && baseHash.length > 0) {
+    base.baseHash = baseHash;
+  }
+  return base;
+};
+
+// The hash is recomputed from Content because browser saves don't always refresh Documents.Hash;
+// chunked documents have no inline Content, but every chunked write sets Hash
+export const isStaleWrite = (docData: admin.firestore.DocumentData | undefined, base: WriteBase): boolean => {
+  if (base.baseVersion !== undefined && (docData?.version || 0) !== base.baseVersion) {
+    return true;
+  }
+  if (base.baseHash !== undefined) {
+    const currentHash = isChunkedDocument(docData) ? docData?.Hash : hashContent(docData?.Content || '');
+    if (currentHash !== base.baseHash) return true;
+  }
+  return false;
+};
+
+// Body of a 409 response: everything the client needs for a three-way merge.
+// Pass the assembled content for chunked documents.
+export const buildConflictResponse = (
+  documentId: string,
+  docData: admin.firestore.DocumentData | undefined,
+  content: string = docData?.Content || ''
+) => ({
+  error: 'CONFLICT',
+  message: 'The document was changed since this edit started',
+  current: {
+    id: documentId,
+    version: docData?.version || 0,
+    Hash: hashContent(content),
+    Content: content,
+    EditedBy: docData?.EditedBy || null,
+    Updated_Time: docData?.Updated_Time?.toDate?.()?.toISOString() || null
+  }
+});
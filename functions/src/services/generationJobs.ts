@@ -0,0 +1,915 @@
+/**
+ * Generation Jobs
+ * Template-based document generation runs here instead of in the browser.
+ * Each job is a GenerationJobs record holding its status, the repository files
+ * the AI picked, the planned sections with their output, and the last error.
+ * Every phase is saved as soon as it finishes, so a run that fails, times out
+ * or dies with its instance picks up at the first section that is not done.
+ * The finished document is created here too, so closing the tab loses nothing.
+ * When the repository's code index is available, each section prompt also gets
+ * the code most relevant to that section. The static analysis of the repository
+ * goes into every prompt as the ground truth for APIs, routes and settings,
+ * and its commit is recorded on the document for drift checks (see docsDrift).
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import { addHistoryEntry, buildContentWrite } from './documentChunks';
+import { githubHeaders, readGitHubToken } from './githubAccess';
+import { indexRepository, searchCodeIndex } from './codeIndex';
+import { analyzeRepository, formatRepoModel } from './codeAnalysis';
+
+export type GenerationJobMode = 'sections' | 'iterative';
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type GenerationJobStage = 'queued' | 'structure' | 'files' | 'planning' | 'generate' | 'finalize' | 'done' | 'error';
+export type GenerationSectionStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface GenerationJobRequest {
+  mode: GenerationJobMode;
+  projectId: string;
+  templateId: string | null;
+  templatePrompt: string;
+  repository: { owner: string; repo: string };
+  documentName: string;
+  documentRole: string;
+  documentType: string;
+  documentCategory: string;
+}
+
+interface JobFile {
+  path: string;
+  content: string;
+  language: string;
+}
+
+interface JobSection {
+  Title: string;
+  Status: GenerationSectionStatus;
+  Content: string;
+  Error: string | null;
+}
+
+interface GenerationJobRecord {
+  User_Id: string;
+  Project_Id: string;
+  Template_Id: string | null;
+  Mode: GenerationJobMode;
+  Status: GenerationJobStatus;
+  Stage: GenerationJobStage;
+  Message: string;
+  Repository: string;
+  TemplatePrompt: string;
+  DocumentName: string;
+  DocumentRole: string;
+  DocumentType: string;
+  DocumentCategory: string;
+  Files: JobFile[] | null;
+  Sections: JobSection[] | null;
+  Output: string;
+  Error: string | null;
+  ErrorCode: string | null;
+  Attempts: number;
+  Document_Id: string | null;
+  Code_Index_Id?: string | null; // Absent until indexing was tried; null when it failed
+  Analysis?: string | null; // Static analysis prompt block; absent until tried, null when it failed
+  Source_Revision?: string | null; // Commit the analysis was taken at, recorded on the document for drift checks
+  Created_Time: admin.firestore.Timestamp;
+  Updated_Time: admin.firestore.Timestamp;
+}
+
+/** Job status as the status API returns it; section content stays on the server */
+export interface GenerationJobView {
+  id: string;
+  projectId: string;
+  mode: GenerationJobMode;
+  status: GenerationJobStatus;
+  stage: GenerationJobStage;
+  message: string;
+  repository: string;
+  documentName: string;
+  sections: Array<{ title: string; status: GenerationSectionStatus; error: string | null }>;
+  output: string;
+  error: string | null;
+  errorCode: string | null;
+  attempts: number;
+  documentId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GenerationRunner {
+  /** Send one prompt to the configured model and return its text */
+  generate: (prompt: string, maxOutputTokens: number) => Promise<string>;
+}
+
+const COLLECTION = 'GenerationJobs';
+
+// A run stops starting new sections after this long and requeues itself,
+// well inside the 540s function timeout
+const RUN_BUDGET_MS = 7 * 60 * 1000;
+// Running jobs that have not saved progress for this long lost their instance
+const STALLED_AFTER_MS = 12 * 60 * 1000;
+// Failed runs that are requeued without the user asking
+const MAX_AUTOMATIC_ATTEMPTS = 3;
+const SECTION_RETRIES = 2;
+const MAX_ITERATIVE_ROUNDS = 4;
+const MAX_JOB_FILES = 12;
+const TREE_PREVIEW_ITEMS = 100;
+const RELEVANT_CODE_CHUNKS = 6;
+const RELEVANT_CODE_CHARS = 6000;
+const ANALYSIS_CHARS = 10000;
+const FALLBACK_SECTIONS = ['Introduction', 'Getting Started', 'Core Features', 'Technical Details', 'Conclusion'];
+
+const LANGUAGES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript', py: 'python', java: 'java', go: 'go',
+  rs: 'rust', rb: 'ruby', php: 'php', cs: 'csharp', cpp: 'cpp', cc: 'cpp', c: 'c', h: 'c',
+  swift: 'swift', kt: 'kotlin', html: 'html', css: 'css', scss: 'css',
+  json: 'json', yml: 'yaml', yaml: 'yaml', sh: 'bash', sql: 'sql', md: 'markdown'
+};
+
+const FORMATTING_RULES = `**EDITOR FORMATTING RULES:**
+
+Generate content using proper TipTap HTML formatting:
+
+**Headings:** <h1> to <h5> only (NO <h6>)
+**Text:** <strong>, <em>, <u>, <mark>, <s>
+**Code:** Use code blocks only (NO inline <code> tags):
+<pre><code class="language-javascript" data-language="javascript">
+// Your code here
+</code></pre>
+
+**Mermaid Diagrams:**
+<pre><code class="language-mermaid" data-language="mermaid">
+graph TD
+    A --> B
+</code></pre>
+
+**CRITICAL Mermaid Rules** (Avoid syntax errors):
+- Subgraphs: NO quotes - use underscores (subgraph Client_Side NOT "Client-Side")
+- Node IDs: No spaces, use camelCase or underscores
+- Labels: Use square brackets [Text with spaces]
+- Example: subgraph Backend
+              Server[Spring Boot] --> DB[Database]
+          end
+
+**Lists:** <ul><li>, <ol><li>, or nested
+**Tables:** <table><thead><tr><th>, <tbody><tr><td>
+**Links:** <a href="url">text</a>
+**Quotes:** <blockquote><p>text</p></blockquote>`;
+
+const jobs = (db: admin.firestore.Firestore) => db.collection(COLLECTION);
+
+// Runners throw this when the user's usage quota is used up; such jobs wait for a manual resume
+export const quotaExceededError = (message: string): Error & { code: string } =>
+  Object.assign(new Error(message), { code: 'QUOTA_EXCEEDED' });
+
+const isQuotaExceeded = (error: unknown): boolean => (error as { code?: unknown } | null)?.code === 'QUOTA_EXCEEDED';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// The request body as sent; every field is checked before use
+interface GenerationJobBody {
+  mode?: unknown;
+  projectId?: unknown;
+  templateId?: unknown;
+  templatePrompt?: unknown;
+  repository?: unknown;
+  documentName?: unknown;
+  documentRole?: unknown;
+  documentType?: unknown;
+  documentCategory?: unknown;
+}
+
+/**
+ * Validate a job request body, returning an error message when it is unusable
+ */
+export const parseGenerationJobRequest = (body: GenerationJobBody | null | undefined): GenerationJobRequest | string => {
+  const { mode = 'sections', projectId, templateId, templatePrompt, repository, documentName, documentRole, documentType, documentCategory } = body || {};
+  if (mode !== 'sections' && mode !== 'iterative') {
+    return 'mode must be "sections" or "iterative"';
+  }
+  if (!nonEmpty(projectId)) {
+    return 'projectId is required';
+  }
+  if (!nonEmpty(documentName)) {
+    return 'documentName is required';
+  }
+  if (typeof templatePrompt !== 'string') {
+    return 'templatePrompt must be a string';
+  }
+  if (!isObject(repository) || !nonEmpty(repository.owner) || !nonEmpty(repository.repo)) {
+    return 'repository needs an owner and repo';
+  }
+
+  return {
+    mode,
+    projectId,
+    templateId: nonEmpty(templateId) ? templateId : null,
+    templatePrompt,
+    repository: { owner: repository.owner.trim(), repo: repository.repo.trim().replace(/\.git$/, '') },
+    documentName: documentName.trim(),
+    documentRole: nonEmpty(documentRole) ? documentRole.trim() : 'General',
+    documentType: nonEmpty(documentType) ? documentType.trim() : 'user-manual',
+    documentCategory: nonEmpty(documentCategory) ? documentCategory.trim() : 'General'
+  };
+};
+
+export const toGenerationJobView = (id: string, job: GenerationJobRecord): GenerationJobView => ({
+  id,
+  projectId: job.Project_Id,
+  mode: job.Mode,
+  status: job.Status,
+  stage: job.Stage,
+  message: job.Message,
+  repository: job.Repository,
+  documentName: job.DocumentName,
+  sections: (job.Sections || []).map((section) => ({ title: section.Title, status: section.Status, error: section.Error })),
+  output: job.Output,
+  error: job.Error,
+  errorCode: job.ErrorCode,
+  attempts: job.Attempts,
+  documentId: job.Document_Id,
+  createdAt: job.Created_Time.toDate().toISOString(),
+  updatedAt: job.Updated_Time.toDate().toISOString()
+});
+
+/**
+ * Create a queued job. The Firestore trigger picks it up from there.
+ */
+export const createGenerationJob = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  request: GenerationJobRequest
+): Promise<GenerationJobView> => {
+  const now = admin.firestore.Timestamp.now();
+  const ref = jobs(db).doc();
+  const job: GenerationJobRecord = {
+    User_Id: userId,
+    Project_Id: request.projectId,
+    Template_Id: request.templateId,
+    Mode: request.mode,
+    Status: 'queued',
+    Stage: 'queued',
+    Message: 'Waiting to start...',
+    Repository: `${request.repository.owner}/${request.repository.repo}`,
+    TemplatePrompt: request.templatePrompt,
+    DocumentName: request.documentName,
+    DocumentRole: request.documentRole,
+    DocumentType: request.documentType,
+    DocumentCategory: request.documentCategory,
+    Files: null,
+    Sections: null,
+    Output: '',
+    Error: null,
+    ErrorCode: null,
+    Attempts: 0,
+    Document_Id: null,
+    Created_Time: now,
+    Updated_Time: now
+  };
+  await ref.set(job);
+  return toGenerationJobView(ref.id, job);
+};
+
+/**
+ * Read a job for its owner. Returns null when it does not exist or belongs to someone else.
+ */
+export const getGenerationJob = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  jobId: string
+): Promise<GenerationJobView | null> => {
+  const snapshot = await jobs(db).doc(jobId).get();
+  const job = snapshot.data() as GenerationJobRecord | undefined;
+  if (!job || job.User_Id !== userId) {
+    return null;
+  }
+  return toGenerationJobView(snapshot.id, job);
+};
+
+/**
+ * The user's recent jobs for a project, newest first
+ */
+export const listGenerationJobs = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  projectId: string
+): Promise<GenerationJobView[]> => {
+  const snapshot = await jobs(db)
+    .where('Project_Id', '==', projectId)
+    .where('User_Id', '==', userId)
+    .get();
+  return snapshot.docs
+    .map((doc) => toGenerationJobView(doc.id, doc.data() as GenerationJobRecord))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, 20);
+};
+
+/**
+ * Requeue a failed job. Completed sections are kept; the failed one runs again.
+ */
+export const resumeGenerationJob = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  jobId: string
+): Promise<GenerationJobView | string | null> => {
+  const ref = jobs(db).doc(jobId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data() as GenerationJobRecord | undefined;
+    if (!job || job.User_Id !== userId) {
+      return null;
+    }
+    if (job.Status !== 'failed') {
+      return `Only failed jobs can be resumed; this one is ${job.Status}`;
+    }
+
+    const update = {
+      ...requeueFields(job, 'Resuming...'),
+      Attempts: 0
+    };
+    transaction.update(ref, update);
+    return toGenerationJobView(ref.id, { ...job, ...update });
+  });
+};
+
+const requeueFields = (job: GenerationJobRecord, message: string) => ({
+  Status: 'queued' as const,
+  Stage: 'queued' as const,
+  Message: message,
+  Error: null,
+  ErrorCode: null,
+  Sections: job.Sections && job.Sections.map((section) =>
+    section.Status === 'completed' ? section : { ...section, Status: 'pending' as const, Error: null }
+  ),
+  Updated_Time: admin.firestore.Timestamp.now()
+});
+
+// Triggers can deliver the same write twice; only one run may claim a queued job
+const claimJob = async (db: admin.firestore.Firestore, jobId: string): Promise<GenerationJobRecord | null> => {
+  const ref = jobs(db).doc(jobId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const job = snapshot.data() as GenerationJobRecord | undefined;
+    if (!job || job.Status !== 'queued') {
+      return null;
+    }
+    const update = { Status: 'running' as const, Updated_Time: admin.firestore.Timestamp.now() };
+    transaction.update(ref, update);
+    return { ...job, ...update };
+  });
+};
+
+// ============================================================================
+// Repository access
+// ============================================================================
+
+interface RepositoryReader {
+  tree: Array<{ path: string; type: 'file' | 'dir' }>;
+  readme: string;
+  readFile: (path: string) => Promise<string | null>;
+}
+
+const openRepository = async (db: admin.firestore.Firestore, userId: string, fullName: string): Promise<RepositoryReader> => {
+  const headers = githubHeaders(await readGitHubToken(db, userId));
+  const base = `https://api.github.com/repos/${fullName}`;
+
+  const repoResponse = await fetch(base, { headers });
+  if (!repoResponse.ok) {
+    throw new Error(`Could not open repository ${fullName}: GitHub answered ${repoResponse.status}`);
+  }
+  const repository = await repoResponse.json() as { default_branch: string };
+
+  const treeResponse = await fetch(`${base}/git/trees/${encodeURIComponent(repository.default_branch)}?recursive=1`, { headers });
+  if (!treeResponse.ok) {
+    throw new Error(`Could not read the structure of ${fullName}: GitHub answered ${treeResponse.status}`);
+  }
+  const treeData = await treeResponse.json() as { tree?: Array<{ path: string; type: string }> };
+  const tree = (treeData.tree || [])
+    .filter((item) => item.path.split('/').length <= 3)
+    .map((item) => ({ path: item.path, type: item.type === 'tree' ? 'dir' as const : 'file' as const }));
+
+  const readFile = async (path: string): Promise<string | null> => {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const response = await fetch(`${base}/contents/${encodedPath}`, { headers });
+    if (!response.ok) {
+      return null;
+    }
+    const file = await response.json() as { type?: string; content?: unknown } | unknown[];
+    if (Array.isArray(file) || file.type !== 'file' || typeof file.content !== 'string') {
+      return null;
+    }
+    return Buffer.from(file.content, 'base64').toString('utf-8');
+  };
+
+  const readmeEntry = tree.find((item) => item.type === 'file' && /^readme(\.(md|txt|rst))?$/i.test(item.path));
+  const readme = readmeEntry ? await readFile(readmeEntry.path) : null;
+
+  return { tree, readme: readme || '', readFile };
+};
+
+const buildDirectoryTree = (tree: RepositoryReader['tree']): string => {
+  const lines = tree
+    .slice(0, TREE_PREVIEW_ITEMS)
+    .sort((a, b) => {
+      if (a.type === 'dir' && b.type !== 'dir') return -1;
+      if (a.type !== 'dir' && b.type === 'dir') return 1;
+      return a.path.localeCompare(b.path);
+    })
+    .map((item) => `${'  '.repeat((item.path.match(/\//g) || []).length)}${item.type === 'dir' ? '📁' : '📄'} ${item.path}`);
+  if (tree.length > TREE_PREVIEW_ITEMS) {
+    lines.push(`... +${tree.length - TREE_PREVIEW_ITEMS} more`);
+  }
+  return lines.join('\n');
+};
+
+const languageOf = (path: string): string => LANGUAGES[path.split('.').pop()?.toLowerCase() || ''] || 'text';
+
+const fetchFiles = async (repository: RepositoryReader, paths: string[], maxChars: number): Promise<JobFile[]> => {
+  const files: JobFile[] = [];
+  for (const path of paths) {
+    const content = await repository.readFile(path).catch(() => null);
+    if (content) {
+      files.push({ path, content: content.substring(0, maxChars), language: languageOf(path) });
+    }
+  }
+  return files;
+};
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+const parseJson = (text: string): Record<string, unknown> | null => {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+};
+
+export const cleanHtml = (raw: string): string => {
+  let html = raw
+    .replace(/```html\n?/g, '')
+    .replace(/```\n?/g, '')
+    .replace(/<\/?html[^>]*>/gi, '')
+    .replace(/<\/?body[^>]*>/gi, '')
+    .trim();
+
+  if (html && !/<[a-z][\s\S]*>/i.test(html)) {
+    html = html
+      .split(/\n\n+/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+  }
+  return html;
+};
+
+const filesContext = (files: JobFile[]): string =>
+  files.map((file) => `**${file.path}** (${file.language}):\n\`\`\`${file.language}\n${file.content}\n\`\`\``).join('\n\n');
+
+const analysisContext = (job: GenerationJobRecord): string => (job.Analysis ? `${job.Analysis}\n\n` : '');
+
+const fileSelectionPrompt = (job: GenerationJobRecord, repository: RepositoryReader): string => `${job.TemplatePrompt}
+
+---
+
+**YOUR TASK:**
+Analyze this repository to create "${job.DocumentName}" for the role: ${job.DocumentRole}
+
+**REPOSITORY:**
+${job.Repository}
+
+**STRUCTURE:**
+${buildDirectoryTree(repository.tree)}
+
+**README:**
+${repository.readme.substring(0, 800) || 'None'}
+
+**INSTRUCTION:**
+Respond with JSON listing the TOP 5-8 most important files needed to create this document.
+Focus on core implementation files, main components, configuration files.
+
+Format: {"files": ["path1", "path2", "path3"]}
+
+Respond with JSON only:`;
+
+const iterativeFilePrompt = (job: GenerationJobRecord, repository: RepositoryReader, files: JobFile[]): string => `${job.TemplatePrompt}
+
+---
+
+**YOUR TASK:**
+Create a document titled "${job.DocumentName}" for the role: ${job.DocumentRole}
+
+**REPOSITORY:** ${job.Repository}
+
+**STRUCTURE:**
+${buildDirectoryTree(repository.tree)}
+
+**README:**
+${repository.readme.substring(0, 1000) || 'None'}
+
+**FILES YOU ALREADY HAVE:**
+${files.length > 0 ? files.map((file) => `- ${file.path}`).join('\n') : 'None yet'}
+
+**INSTRUCTION:**
+List the files you still need to examine to write this document according to the template.
+Files that are not in the structure above do not exist - do not request them.
+
+Format: {"needFiles": true, "files": ["path/to/file"], "reason": "why you need them"}
+When you have enough context: {"needFiles": false}
+
+Respond with JSON only:`;
+
+const planPrompt = (job: GenerationJobRecord): string => `${job.TemplatePrompt}
+
+**TASK:** Plan the sections for "${job.DocumentName}"
+
+Analyze the template and break it into 4-8 major sections that should be generated separately.
+Each section should be substantial enough to warrant its own generation.
+
+Respond with JSON: {"sections": ["Section 1 Name", "Section 2 Name", ...]}
+
+Respond with JSON only:`;
+
+const sectionPrompt = (job: GenerationJobRecord, sections: JobSection[], index: number, relevantCode: string): string => {
+  const sectionName = sections[index].Title;
+  const previous = sections.slice(0, index).filter((section) => section.Status === 'completed');
+  return `${job.TemplatePrompt}
+
+---
+
+${FORMATTING_RULES}
+
+---
+
+**REPOSITORY:** ${job.Repository}
+**DOCUMENT:** ${job.DocumentName}
+**ROLE:** ${job.DocumentRole}
+
+${analysisContext(job)}**KEY FILES:**
+${filesContext(job.Files || [])}
+${relevantCode}
+**YOUR TASK:**
+Generate ONLY the "${sectionName}" section of the document.
+
+**CONTEXT - ALL SECTIONS:**
+${sections.map((section, idx) => `${idx + 1}. ${section.Title}${idx < index ? ' ✅' : idx === index ? ' 👉 CURRENT' : ' ⏳'}`).join('\n')}
+
+**PREVIOUSLY GENERATED:**
+${previous.length > 0 ? previous.map((section) => `[${section.Title}]: ${section.Content.substring(0, 200)}...`).join('\n') : 'None - this is the first section'}
+
+**REQUIREMENTS:**
+- Generate ONLY the "${sectionName}" section
+- Follow the template's HTML format using TipTap-compatible tags
+- Use <h2> or <h3> for section headings (NOT <h1>)
+- NO inline <code> tags - use code blocks for all code snippets
+- Be comprehensive and detailed for THIS section
+- Include code examples, explanations, and specifics from the repository files
+- DO NOT regenerate previous sections
+- Respond with ONLY the HTML content for this section (no JSON, no explanations)
+
+Generate the "${sectionName}" section now:`;
+};
+
+const wholeDocumentPrompt = (job: GenerationJobRecord, relevantCode: string): string => `${job.TemplatePrompt}
+
+---
+
+${FORMATTING_RULES}
+
+---
+
+**YOUR TASK:**
+Create the complete document titled "${job.DocumentName}" for the role: ${job.DocumentRole}
+
+**REPOSITORY:** ${job.Repository}
+
+${analysisContext(job)}**KEY FILES:**
+${filesContext(job.Files || [])}
+${relevantCode}
+**REQUIREMENTS:**
+- STRICTLY FOLLOW the template format and structure provided at the top of this prompt
+- Start with a single <h1> title, then use <h2>-<h5> in order without skipping levels
+- Include ALL required sections from the template, based on the repository files above
+- NO inline <code> tags and NO <h6>
+- Respond with ONLY the HTML content (no JSON, no explanations)
+
+Generate the document now:`;
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run a queued job until it completes, fails, or hands over to the next run.
+ * Called by the Firestore trigger whenever a job becomes queued.
+ */
+export const runGenerationJob = async (
+  db: admin.firestore.Firestore,
+  jobId: string,
+  runner: GenerationRunner
+): Promise<void> => {
+  const claimed = await claimJob(db, jobId);
+  if (!claimed) {
+    return;
+  }
+
+  const ref = jobs(db).doc(jobId);
+  const startedAt = Date.now();
+  let job = claimed;
+
+  const save = async (update: Partial<GenerationJobRecord>) => {
+    job = { ...job, ...update, Updated_Time: admin.firestore.Timestamp.now() };
+    await ref.update({ ...update, Updated_Time: job.Updated_Time });
+  };
+
+  try {
+    let repository: RepositoryReader | null = null;
+
+    // Phase 1: the files the AI wants to read
+    if (!job.Files) {
+      await save({ Stage: 'structure', Message: 'Fetching repository structure...' });
+      repository = await openRepository(db, job.User_Id, job.Repository);
+      await save({ Stage: 'files', Message: `Found ${repository.tree.length} items, choosing key files...` });
+      const files = job.Mode === 'iterative'
+        ? await collectFilesIteratively(job, repository, runner, (message) => save({ Message: message }))
+        : await collectFiles(job, repository, runner);
+      await save({ Files: files, Message: `Collected ${files.length} files` });
+    }
+
+    // Phase 1b: the code index that relevant code is retrieved from; generation works without it
+    if (job.Code_Index_Id === undefined) {
+      await save({ Message: 'Indexing repository code...' });
+      await save({ Code_Index_Id: await prepareCodeIndex(db, job, (message) => save({ Message: message })) });
+    }
+
+    // Phase 1c: the static analysis the document is held to; generation works without it
+    if (job.Analysis === undefined) {
+      await save({ Message: 'Analyzing repository code...' });
+      await save(await prepareAnalysis(db, job));
+    }
+
+    // Phase 2: the sections to write
+    if (!job.Sections) {
+      let titles = [job.DocumentName];
+      if (job.Mode === 'sections') {
+        await save({ Stage: 'planning', Message: 'Planning document sections...' });
+        const plan = parseJson(await runner.generate(planPrompt(job), 512));
+        titles = Array.isArray(plan?.sections) && plan.sections.length > 0
+          ? plan.sections.filter(nonEmpty).slice(0, 10)
+          : FALLBACK_SECTIONS;
+      }
+      await save({ Sections: titles.map((title) => ({ Title: title, Status: 'pending', Content: '', Error: null })) });
+    }
+
+    // Phase 3: each section, saved as soon as it is written
+    const sections = job.Sections as JobSection[];
+    for (let index = 0; index < sections.length; index++) {
+      if (sections[index].Status === 'completed') {
+        continue;
+      }
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        await save({ ...requeueFields(job, `Continuing at section ${index + 1}/${sections.length}...`) });
+        logger.info(`⏭️ Generation job ${jobId} handed over at section ${index + 1}`);
+        return;
+      }
+
+      sections[index] = { ...sections[index], Status: 'running', Error: null };
+      await save({
+        Stage: 'generate',
+        Message: job.Mode === 'sections'
+          ? `Generating ${index + 1}/${sections.length}: ${sections[index].Title}`
+          : 'AI writing document content...',
+        Sections: sections
+      });
+
+      const relevantCode = await findRelevantCode(db, job, job.Mode === 'sections'
+        ? `${job.DocumentName}: ${sections[index].Title}`
+        : `${job.DocumentName} for ${job.DocumentRole}`);
+      const prompt = job.Mode === 'sections'
+        ? sectionPrompt(job, sections, index, relevantCode)
+        : wholeDocumentPrompt(job, relevantCode);
+      const content = cleanHtml(await generateWithRetries(runner, prompt));
+      sections[index] = { ...sections[index], Status: 'completed', Content: content };
+      await save({ Sections: sections, Output: combineSections(job, sections) });
+    }
+
+    // Phase 4: the document itself
+    await save({ Stage: 'finalize', Message: 'Creating the document...' });
+    const output = combineSections(job, sections);
+    const documentId = job.Document_Id || await createDocument(db, job, output);
+    await save({ Status: 'completed', Stage: 'done', Message: 'Document generation complete!', Output: output, Document_Id: documentId });
+    logger.info(`✅ Generation job ${jobId} created document ${documentId}`);
+  } catch (error) {
+    const quotaExceeded = isQuotaExceeded(error);
+    const errorMessage = error instanceof Error ? error.message : '';
+    const attempts = job.Attempts + 1;
+    const sections = job.Sections && job.Sections.map((section) =>
+      section.Status === 'running' ? { ...section, Status: 'failed' as const, Error: errorMessage || 'Failed' } : section
+    );
+    logger.error(`❌ Generation job ${jobId} failed (attempt ${attempts}):`, error);
+
+    // Quota errors only clear when the user's quota does, so they wait for a manual resume
+    if (!quotaExceeded && attempts < MAX_AUTOMATIC_ATTEMPTS) {
+      await save({ ...requeueFields({ ...job, Sections: sections }, `Retrying after an error (attempt ${attempts + 1})...`), Attempts: attempts });
+      return;
+    }
+    await save({
+      Status: 'failed',
+      Stage: 'error',
+      Message: errorMessage || 'Generation failed',
+      Error: errorMessage || 'Generation failed',
+      ErrorCode: quotaExceeded ? 'QUOTA_EXCEEDED' : null,
+      Sections: sections,
+      Attempts: attempts
+    });
+  }
+};
+
+const collectFiles = async (job: GenerationJobRecord, repository: RepositoryReader, runner: GenerationRunner): Promise<JobFile[]> => {
+  const selection = parseJson(await runner.generate(fileSelectionPrompt(job, repository), 512));
+  const paths: string[] = Array.isArray(selection?.files) ? selection.files.filter(nonEmpty) : [];
+  return fetchFiles(repository, paths.slice(0, MAX_JOB_FILES), 3000);
+};
+
+// The AI asks for files in rounds until it says it has enough context
+const collectFilesIteratively = async (
+  job: GenerationJobRecord,
+  repository: RepositoryReader,
+  runner: GenerationRunner,
+  report: (message: string) => Promise<void>
+): Promise<JobFile[]> => {
+  const files: JobFile[] = [];
+  const requested = new Set<string>();
+
+  for (let round = 0; round < MAX_ITERATIVE_ROUNDS && files.length < MAX_JOB_FILES; round++) {
+    const reply = parseJson(await runner.generate(iterativeFilePrompt(job, repository, files), 1024));
+    const paths: string[] = reply?.needFiles && Array.isArray(reply.files)
+      ? reply.files.filter((path: unknown) => nonEmpty(path) && !requested.has(path))
+      : [];
+    if (paths.length === 0) {
+      break;
+    }
+
+    const more = paths.length > 3 ? ` and ${paths.length - 3} more` : '';
+    await report(`AI examining: ${paths.slice(0, 3).join(', ')}${more}`);
+    paths.forEach((path) => requested.add(path));
+    files.push(...await fetchFiles(repository, paths.slice(0, MAX_JOB_FILES - files.length), 5000));
+  }
+  return files;
+};
+
+const prepareCodeIndex = async (
+  db: admin.firestore.Firestore,
+  job: GenerationJobRecord,
+  report: (message: string) => Promise<void>
+): Promise<string | null> => {
+  try {
+    const [owner, repo] = job.Repository.split('/');
+    const token = await readGitHubToken(db, job.User_Id);
+    const index = await indexRepository(db, { type: 'github', owner, repo, token }, {
+      report: (message) => { report(message).catch(() => undefined); }
+    });
+    // An index another run is still building can be searched at its previous commit
+    return index.revision ? index.id : null;
+  } catch (error) {
+    logger.warn(`⚠️ Code index unavailable for ${job.Repository}, generating without it:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+const prepareAnalysis = async (
+  db: admin.firestore.Firestore,
+  job: GenerationJobRecord
+): Promise<Pick<GenerationJobRecord, 'Analysis' | 'Source_Revision'>> => {
+  try {
+    const [owner, repo] = job.Repository.split('/');
+    const token = await readGitHubToken(db, job.User_Id);
+    const model = await analyzeRepository(db, { type: 'github', owner, repo, token });
+    return { Analysis: formatRepoModel(model, ANALYSIS_CHARS), Source_Revision: model.revision };
+  } catch (error) {
+    logger.warn(`⚠️ Static analysis unavailable for ${job.Repository}, generating without it:`, error instanceof Error ? error.message : error);
+    return { Analysis: null, Source_Revision: null };
+  }
+};
+
+// Code chunks closest to what a section is about, leaving out code the key files already show
+const findRelevantCode = async (db: admin.firestore.Firestore, job: GenerationJobRecord, query: string): Promise<string> => {
+  if (!job.Code_Index_Id) {
+    return '';
+  }
+  try {
+    const results = await searchCodeIndex(db, job.Code_Index_Id, query, { limit: RELEVANT_CODE_CHUNKS * 2 });
+    const blocks: string[] = [];
+    let chars = 0;
+    for (const result of results) {
+      const shown = (job.Files || []).some((file) => file.path === result.path && file.content.includes(result.content));
+      if (shown || blocks.length >= RELEVANT_CODE_CHUNKS || chars + result.content.length > RELEVANT_CODE_CHARS) {
+        continue;
+      }
+      const language = languageOf(result.path);
+      blocks.push(`**${result.path}** lines ${result.startLine}-${result.endLine} (${result.kind} ${result.symbol}):\n\`\`\`${language}\n${result.content}\n\`\`\``);
+      chars += result.content.length;
+    }
+    return blocks.length > 0 ? `\n**RELEVANT CODE FOR THIS SECTION:**\n${blocks.join('\n\n')}\n` : '';
+  } catch (error) {
+    logger.warn(`⚠️ Code search failed for job on ${job.Repository}:`, error instanceof Error ? error.message : error);
+    return '';
+  }
+};
+
+const generateWithRetries = async (runner: GenerationRunner, prompt: string): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const text = await runner.generate(prompt, 8192);
+      if (!text.trim()) {
+        throw new Error('The model returned an empty section');
+      }
+      return text;
+    } catch (error) {
+      if (isQuotaExceeded(error) || attempt >= SECTION_RETRIES) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000 * (attempt + 1)));
+    }
+  }
+};
+
+// Sectioned output gets the document title on top; an iterative draft brings its own
+const combineSections = (job: GenerationJobRecord, sections: JobSection[]): string => {
+  const written = sections.filter((section) => section.Status === 'completed').map((section) => section.Content);
+  if (job.Mode === 'iterative') {
+    const draft = written.join('\n\n');
+    return /^<h1[\s>]/i.test(draft) ? draft : `<h1>${job.DocumentName}</h1>\n${draft}`;
+  }
+  return `<h1>${job.DocumentName}</h1>\n${written.join('\n\n')}`;
+};
+
+const createDocument = async (db: admin.firestore.Firestore, job: GenerationJobRecord, content: string): Promise<string> => {
+  const ref = db.collection('Documents').doc();
+  const now = admin.firestore.Timestamp.now();
+  const batch = db.batch();
+  batch.set(ref, {
+    DocumentName: job.DocumentName,
+    DocumentType: job.DocumentType,
+    DocumentCategory: job.DocumentCategory,
+    Project_Id: job.Project_Id,
+    Template_Id: job.Template_Id,
+    User_Id: job.User_Id,
+    Source_Revision: job.Source_Revision || null,
+    Source_Repository: job.Source_Revision ? job.Repository : null,
+    ...buildContentWrite(batch, db, ref.id, content, undefined),
+    IsDraft: false,
+    EditedBy: job.User_Id,
+    Created_Time: now,
+    Updated_Time: now,
+    Hash: null,
+    version: 1
+  });
+  await batch.commit();
+
+  await addHistoryEntry(db, ref.id, content, {
+    Version: 1,
+    Edited_Time: now,
+    EditedBy: job.User_Id,
+    Channel: 'content'
+  });
+  return ref.id;
+};
+
+/**
+ * Requeue running jobs whose instance died without saving progress. Returns how many were picked up.
+ */
+export const recoverStalledJobs = async (db: admin.firestore.Firestore): Promise<number> => {
+  const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - STALLED_AFTER_MS);
+  const snapshot = await jobs(db).where('Status', '==', 'running').where('Updated_Time', '<', cutoff).get();
+
+  for (const doc of snapshot.docs) {
+    const job = doc.data() as GenerationJobRecord;
+    const attempts = job.Attempts + 1;
+    if (attempts < MAX_AUTOMATIC_ATTEMPTS) {
+      await doc.ref.update({ ...requeueFields(job, 'Resuming after an interrupted run...'), Attempts: attempts });
+    } else {
+      await doc.ref.update({
+        Status: 'failed',
+        Stage: 'error',
+        Message: 'Generation stopped responding',
+        Error: 'Generation stopped responding',
+        Attempts: attempts,
+        Updated_Time: admin.firestore.Timestamp.now()
+      });
+    }
+  }
+  return snapshot.size;
+};
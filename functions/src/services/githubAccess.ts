@@ -0,0 +1,41 @@
+/**
+ * GitHub Access
+ * Request headers for the GitHub API and the user's stored access token,
+ * shared by the services that read repositories on the user's behalf
+ */
+
+import * as admin from 'firebase-admin';
+
+export const GITHUB_HEADERS = {
+  'Accept': 'application/vnd.github.v3+json',
+  'User-Agent': 'Dotivra-Document-App'
+};
+
+// Tokens are stored base64-encoded as `token|timestamp` by the client's authService
+export const readGitHubToken = async (db: admin.firestore.Firestore, userId: string): Promise<string | null> => {
+  const user = await db.collection('Users').doc(userId).get();
+  const stored = user.data()?.githubAccessToken;
+  if (typeof stored !== 'string' || !stored) {
+    return null;
+  }
+  const [token] = Buffer.from(stored, 'base64').toString('utf-8').split('|');
+  return token || null;
+};
+
+export const githubHeaders = (token: string | null | undefined): Record<string, string> => {
+  return token ? { ...GITHUB_HEADERS, Authorization: `token ${token}` } : GITHUB_HEADERS;
+};
+
+// The GitHub login the user's stored token belongs to, as GitHub reports it rather than the profile claims it
+export const readGitHubLogin = async (db: admin.firestore.Firestore, userId: string): Promise<string | null> => {
+  const token = await readGitHubToken(db, userId);
+  if (!token) {
+    return null;
+  }
+  const response = await fetch('https://api.github.com/user', { headers: githubHeaders(token) });
+  if (!response.ok) {
+    return null;
+  }
+  const user = await response.json() as { login?: string };
+  return user.login || null;
+};
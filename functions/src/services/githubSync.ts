@@ -0,0 +1,612 @@
+/**
+ * GitHub Sync
+ * Keeps documents in step with Markdown files in the project's repository.
+ * Each synced document is mapped to a path such as docs/user-guide.md.
+ * Publishing commits the Markdown the client converted to a new branch and opens
+ * a pull request with the token the caller is given for the repository; edits
+ * that reach the file on the default branch any other way (or a pull request
+ * changed in review before it was merged) are handed back for the editor to
+ * preview as a diff and apply.
+ * Mappings are DocumentSync records. Each remembers the blob it was last in step
+ * with and the blob it published, so comparing blob SHAs is enough to tell a
+ * merged publish from an upstream edit.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import * as crypto from 'crypto';
+import { parseGitHubRepository } from './codeIndex';
+import { githubHeaders } from './githubAccess';
+
+export type SyncStatus = 'unpublished' | 'pending' | 'synced' | 'changed' | 'removed';
+
+export interface SyncPullRequest {
+  number: number;
+  url: string;
+  branch: string;
+}
+
+export interface DocumentSyncView {
+  documentId: string;
+  repository: string;
+  path: string;
+  status: SyncStatus;
+  syncedSha: string | null;
+  syncedRevision: string | null;
+  syncedAt: string | null;
+  upstreamSha: string | null;
+  pullRequest: SyncPullRequest | null;
+}
+
+export interface ProjectSync {
+  repository: string;
+  branch: string;
+  revision: string;
+  documents: DocumentSyncView[];
+}
+
+export interface UpstreamFile {
+  path: string;
+  sha: string;
+  revision: string;
+  markdown: string;
+}
+
+export interface PublishResult {
+  pullRequest: SyncPullRequest | null;
+  published: string[];
+  unchanged: string[];
+}
+
+/**
+ * Token the caller reaches a repository with: the GitHub App's installation token
+ * when the repository is in one of their own installations, otherwise their own
+ * GitHub token, or null when they have neither
+ */
+export type RepositoryTokenProvider = (owner: string, repo: string) => Promise<string | null>;
+
+interface SyncPullRequestRecord {
+  Number: number;
+  Url: string;
+  Branch: string;
+  Sha: string; // Blob the pull request writes
+}
+
+interface DocumentSyncRecord {
+  Project_Id: string;
+  Repository: string;
+  Path: string;
+  Synced_Sha: string | null;
+  Synced_Revision: string | null;
+  Synced_Time: admin.firestore.Timestamp | null;
+  Pull_Request: SyncPullRequestRecord | null;
+  Updated_Time: admin.firestore.Timestamp;
+}
+
+interface RepositoryRef {
+  owner: string;
+  repo: string;
+  token: string;
+  branch: string;
+}
+
+interface BranchFiles {
+  revision: string;
+  tree: string;
+  shas: Map<string, string>;
+}
+
+// The fields read from GitHub's REST responses
+interface GitHubObject {
+  sha: string;
+}
+
+interface GitHubRepository {
+  default_branch?: string;
+}
+
+interface GitHubRef {
+  object: GitHubObject;
+}
+
+interface GitHubTree extends GitHubObject {
+  truncated?: boolean;
+  tree?: Array<{ path: string; type: string; sha: string }>;
+}
+
+interface GitHubContent extends GitHubObject {
+  type: string;
+}
+
+interface GitHubBlob {
+  content?: string;
+  encoding?: string;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+}
+
+const MAX_PATH_LENGTH = 255;
+const MAX_PUBLISHED_FILES = 100;
+const MAX_MARKDOWN_BYTES = 1024 * 1024;
+
+const syncs = (db: admin.firestore.Firestore) => db.collection('DocumentSync');
+
+const syncError = (status: number, message: string): Error & { status: number } =>
+  Object.assign(new Error(message), { status });
+
+const shortSha = (sha: string): string => sha.substring(0, 7);
+
+const repositoryName = (repository: { owner: string; repo: string }): string => `${repository.owner}/${repository.repo}`;
+
+const githubApi = (repository: RepositoryRef): string => `https://api.github.com/repos/${repository.owner}/${repository.repo}`;
+
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+
+// The SHA git gives a blob with this content, so files compare without downloading them
+export const gitBlobSha = (content: string): string => {
+  const data = Buffer.from(content, 'utf-8');
+  return crypto.createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+};
+
+/**
+ * A repository-relative Markdown path, or null when the value is not one
+ */
+export const normalizeSyncPath = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const path = value.trim().replace(/^(\.\/)+/, '');
+  const segments = path.split('/');
+  if (!path || path.length > MAX_PATH_LENGTH || path.includes('\\') || !/\.(md|markdown)$/i.test(path) ||
+    segments.some((segment) => !segment || segment === '.' || segment === '..' || segment === '.git')) {
+    return null;
+  }
+  return path;
+};
+
+const toView = (documentId: string, record: DocumentSyncRecord, status: SyncStatus, upstreamSha: string | null): DocumentSyncView => ({
+  documentId,
+  repository: record.Repository,
+  path: record.Path,
+  status,
+  syncedSha: record.Synced_Sha,
+  syncedRevision: record.Synced_Revision,
+  syncedAt: record.Synced_Time ? record.Synced_Time.toDate().toISOString() : null,
+  upstreamSha,
+  pullRequest: record.Pull_Request
+    ? { number: record.Pull_Request.Number, url: record.Pull_Request.Url, branch: record.Pull_Request.Branch }
+    : null
+});
+
+// ============================================================================
+// GitHub
+// ============================================================================
+
+const githubRequest = async <T>(repository: RepositoryRef, path: string, what: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${githubApi(repository)}${path}`, {
+    ...init,
+    headers: { ...githubHeaders(repository.token), ...(init.body ? { 'Content-Type': 'application/json' } : {}) }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { message?: string } | null;
+    throw syncError(response.status === 404 || response.status === 403 ? 409 : 502,
+      `Could not ${what} in ${repositoryName(repository)}: GitHub answered ${response.status}${body?.message ? ` (${body.message})` : ''}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * The project's repository with the caller's token for it, on its default branch
+ */
+const openRepository = async (
+  db: admin.firestore.Firestore,
+  projectId: string,
+  tokens: RepositoryTokenProvider
+): Promise<RepositoryRef> => {
+  const project = (await db.collection('Projects').doc(projectId).get()).data();
+  const parsed = parseGitHubRepository(project?.GitHubRepo);
+  if (!parsed) {
+    throw syncError(409, 'Link a GitHub repository to the project before syncing documents');
+  }
+
+  const token = await tokens(parsed.owner, parsed.repo);
+  if (!token) {
+    throw syncError(409, `Connect your GitHub account or install the GitHub App on ${repositoryName(parsed)} to sync documents with it`);
+  }
+
+  const repository: RepositoryRef = { ...parsed, token, branch: '' };
+  const info = await githubRequest<GitHubRepository>(repository, '', 'read the repository');
+  return { ...repository, branch: info.default_branch || 'main' };
+};
+
+// Blob SHAs of `paths` at the head of the default branch; missing files are left out
+const readBranchFiles = async (repository: RepositoryRef, paths: string[]): Promise<BranchFiles> => {
+  const ref = await githubRequest<GitHubRef>(repository, `/git/ref/heads/${encodePath(repository.branch)}`, `read branch ${repository.branch}`);
+  const revision = ref.object.sha;
+  if (paths.length === 0) {
+    return { revision, tree: '', shas: new Map() };
+  }
+  const listing = await githubRequest<GitHubTree>(repository, `/git/trees/${revision}?recursive=1`, 'list files');
+
+  const wanted = new Set(paths);
+  const shas = new Map<string, string>();
+  for (const entry of listing.tree || []) {
+    if (entry.type === 'blob' && wanted.has(entry.path)) {
+      shas.set(entry.path, entry.sha);
+    }
+  }
+
+  // Very large trees come back truncated; look the remaining paths up one by one
+  if (listing.truncated) {
+    for (const path of paths.filter((candidate) => !shas.has(candidate))) {
+      const response = await fetch(`${githubApi(repository)}/contents/${encodePath(path)}?ref=${revision}`, {
+        headers: githubHeaders(repository.token)
+      });
+      if (response.ok) {
+        const file = await response.json() as GitHubContent;
+        if (file.type === 'file') shas.set(path, file.sha);
+      }
+    }
+  }
+
+  return { revision, tree: listing.sha, shas };
+};
+
+const readBlob = async (repository: RepositoryRef, sha: string): Promise<string> => {
+  const blob = await githubRequest<GitHubBlob>(repository, `/git/blobs/${sha}`, `read blob ${shortSha(sha)}`);
+  return Buffer.from(blob.content || '', blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+};
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Settle a record against the file on the default branch: a pull request whose
+ * blob reached the branch was merged as published, one that was closed some
+ * other way no longer counts. Returns the status and whether the record changed.
+ */
+const settleRecord = async (
+  repository: RepositoryRef,
+  record: DocumentSyncRecord,
+  upstreamSha: string | null,
+  revision: string,
+  pullStates: Map<number, Promise<GitHubPullRequest>>
+): Promise<{ status: SyncStatus; changed: boolean }> => {
+  let changed = false;
+  const pullRequest = record.Pull_Request;
+
+  if (pullRequest && upstreamSha === pullRequest.Sha) {
+    record.Synced_Sha = upstreamSha;
+    record.Synced_Revision = revision;
+    record.Synced_Time = admin.firestore.Timestamp.now();
+    record.Pull_Request = null;
+    changed = true;
+  } else if (pullRequest) {
+    if (!pullStates.has(pullRequest.Number)) {
+      pullStates.set(pullRequest.Number, githubRequest<GitHubPullRequest>(repository, `/pulls/${pullRequest.Number}`, `read pull request #${pullRequest.Number}`));
+    }
+    const state = await pullStates.get(pullRequest.Number)!;
+    if (state.state === 'closed') {
+      record.Pull_Request = null;
+      changed = true;
+    }
+  }
+
+  let status: SyncStatus;
+  if (upstreamSha && upstreamSha !== record.Synced_Sha) {
+    status = 'changed';
+  } else if (record.Pull_Request) {
+    status = 'pending';
+  } else if (upstreamSha) {
+    status = 'synced';
+  } else {
+    status = record.Synced_Sha ? 'removed' : 'unpublished';
+  }
+  return { status, changed };
+};
+
+// Mappings made for another repository start over with the current one
+const forRepository = (record: DocumentSyncRecord, repository: string): boolean => {
+  if (record.Repository === repository) {
+    return false;
+  }
+  record.Repository = repository;
+  record.Synced_Sha = null;
+  record.Synced_Revision = null;
+  record.Synced_Time = null;
+  record.Pull_Request = null;
+  return true;
+};
+
+const settleRecords = async (
+  repository: RepositoryRef,
+  entries: Array<{ ref: admin.firestore.DocumentReference; record: DocumentSyncRecord }>
+): Promise<{ files: BranchFiles; views: DocumentSyncView[] }> => {
+  const files = await readBranchFiles(repository, entries.map((entry) => entry.record.Path));
+  const pullStates = new Map<number, Promise<GitHubPullRequest>>();
+
+  const views: DocumentSyncView[] = [];
+  for (const { ref, record } of entries) {
+    const moved = forRepository(record, repositoryName(repository));
+    const upstreamSha = files.shas.get(record.Path) || null;
+    const { status, changed } = await settleRecord(repository, record, upstreamSha, files.revision, pullStates);
+    if (moved || changed) {
+      record.Updated_Time = admin.firestore.Timestamp.now();
+      await ref.set(record);
+    }
+    views.push(toView(ref.id, record, status, upstreamSha));
+  }
+  return { files, views };
+};
+
+/**
+ * Every mapped document of a project with its state against the default branch
+ */
+export const listProjectSync = async (
+  db: admin.firestore.Firestore,
+  projectId: string,
+  tokens: RepositoryTokenProvider
+): Promise<ProjectSync> => {
+  const repository = await openRepository(db, projectId, tokens);
+  const snapshot = await syncs(db).where('Project_Id', '==', projectId).get();
+  const { files, views } = await settleRecords(repository, snapshot.docs.map((doc) => ({
+    ref: doc.ref,
+    record: doc.data() as DocumentSyncRecord
+  })));
+  return { repository: repositoryName(repository), branch: repository.branch, revision: files.revision, documents: views };
+};
+
+/**
+ * One document's state, with the upstream Markdown when the file changed since
+ * the last sync. Null when the document is not mapped.
+ */
+export const getDocumentSync = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  tokens: RepositoryTokenProvider
+): Promise<{ sync: DocumentSyncView; upstream: UpstreamFile | null } | null> => {
+  const ref = syncs(db).doc(documentId);
+  const record = (await ref.get()).data() as DocumentSyncRecord | undefined;
+  if (!record) {
+    return null;
+  }
+
+  const repository = await openRepository(db, record.Project_Id, tokens);
+  const { files, views: [sync] } = await settleRecords(repository, [{ ref, record }]);
+  if (sync.status !== 'changed' || !sync.upstreamSha) {
+    return { sync, upstream: null };
+  }
+  return {
+    sync,
+    upstream: { path: sync.path, sha: sync.upstreamSha, revision: files.revision, markdown: await readBlob(repository, sync.upstreamSha) }
+  };
+};
+
+/**
+ * Record that the document took in the upstream file, once the editor applied it
+ */
+export const markDocumentPulled = async (
+  db: admin.firestore.Firestore,
+  documentId: string,
+  sha: string,
+  revision: string | null
+): Promise<DocumentSyncView | null> => {
+  const ref = syncs(db).doc(documentId);
+  const record = (await ref.get()).data() as DocumentSyncRecord | undefined;
+  if (!record) {
+    return null;
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const update = { Synced_Sha: sha, Synced_Revision: revision, Synced_Time: now, Updated_Time: now };
+  await ref.update(update);
+  return toView(documentId, { ...record, ...update }, record.Pull_Request ? 'pending' : 'synced', sha);
+};
+
+/**
+ * Forget a pull request closed without merging, so its documents stop showing
+ * it as pending before their next status check. Returns how many were released.
+ */
+export const releasePullRequest = async (
+  db: admin.firestore.Firestore,
+  repository: string,
+  number: number
+): Promise<number> => {
+  const snapshot = await syncs(db).where('Pull_Request.Number', '==', number).get();
+  const released = snapshot.docs.filter((doc) => (doc.data() as DocumentSyncRecord).Repository.toLowerCase() === repository.toLowerCase());
+  for (const doc of released) {
+    await doc.ref.update({ Pull_Request: null, Updated_Time: admin.firestore.Timestamp.now() });
+  }
+  return released.length;
+};
+
+// ============================================================================
+// Mappings
+// ============================================================================
+
+/**
+ * Map documents of a project to paths in its repository; a null path removes
+ * the mapping. Returns an error message when a mapping is unusable.
+ */
+export const setProjectMappings = async (
+  db: admin.firestore.Firestore,
+  projectId: string,
+  mappings: Array<{ documentId: string; path: string | null }>
+): Promise<string | null> => {
+  const project = (await db.collection('Projects').doc(projectId).get()).data();
+  const parsed = parseGitHubRepository(project?.GitHubRepo);
+  if (!parsed) {
+    return 'Link a GitHub repository to the project before syncing documents';
+  }
+
+  const documents = await db.collection('Documents').where('Project_Id', '==', projectId).get();
+  const documentIds = new Set(documents.docs.map((doc) => doc.id));
+  const existing = new Map((await syncs(db).where('Project_Id', '==', projectId).get()).docs
+    .map((doc) => [doc.id, doc.data() as DocumentSyncRecord]));
+
+  const paths = new Map<string, string>();
+  existing.forEach((record, documentId) => paths.set(documentId, record.Path));
+  for (const mapping of mappings) {
+    if (!documentIds.has(mapping.documentId)) {
+      return `Document ${mapping.documentId} is not part of this project`;
+    }
+    if (mapping.path === null) {
+      paths.delete(mapping.documentId);
+    } else {
+      paths.set(mapping.documentId, mapping.path);
+    }
+  }
+
+  const owners = new Map<string, string>();
+  for (const [documentId, path] of paths) {
+    const key = path.toLowerCase();
+    if (owners.has(key)) {
+      return `${path} is mapped to more than one document`;
+    }
+    owners.set(key, documentId);
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const batch = db.batch();
+  for (const { documentId, path } of mappings) {
+    const ref = syncs(db).doc(documentId);
+    const record = existing.get(documentId);
+    if (path === null) {
+      if (record) batch.delete(ref);
+    } else if (!record || record.Path !== path) {
+      const created: DocumentSyncRecord = {
+        Project_Id: projectId,
+        Repository: repositoryName(parsed),
+        Path: path,
+        Synced_Sha: null,
+        Synced_Revision: null,
+        Synced_Time: null,
+        Pull_Request: null,
+        Updated_Time: now
+      };
+      batch.set(ref, created);
+    }
+  }
+  await batch.commit();
+  return null;
+};
+
+// ============================================================================
+// Publishing
+// ============================================================================
+
+// Timestamped, with a random suffix so two publishes in the same second do not collide
+const branchName = (): string =>
+  `dotivra/docs-${new Date().toISOString().replace(/\D/g, '').substring(0, 14)}-${crypto.randomBytes(3).toString('hex')}`;
+
+/**
+ * Commit the Markdown of mapped documents to a new branch and open a pull
+ * request against the default branch. Files that already match are skipped;
+ * files edited upstream since the last sync must be pulled first.
+ */
+export const publishDocuments = async (
+  db: admin.firestore.Firestore,
+  projectId: string,
+  files: Array<{ documentId: string; markdown: string }>,
+  tokens: RepositoryTokenProvider,
+  options: { title?: string | null } = {}
+): Promise<PublishResult> => {
+  if (files.length === 0 || files.length > MAX_PUBLISHED_FILES) {
+    throw syncError(400, `Publish between 1 and ${MAX_PUBLISHED_FILES} documents at a time`);
+  }
+  const oversized = files.find((file) => Buffer.byteLength(file.markdown, 'utf-8') > MAX_MARKDOWN_BYTES);
+  if (oversized) {
+    throw syncError(400, `Document ${oversized.documentId} is too large to publish`);
+  }
+
+  const entries = await Promise.all(files.map(async (file) => {
+    const ref = syncs(db).doc(file.documentId);
+    const record = (await ref.get()).data() as DocumentSyncRecord | undefined;
+    if (!record || record.Project_Id !== projectId) {
+      throw syncError(400, `Document ${file.documentId} is not mapped to a file in the repository`);
+    }
+    return { ref, record, file, blob: gitBlobSha(file.markdown) };
+  }));
+
+  const repository = await openRepository(db, projectId, tokens);
+  const { files: head } = await settleRecords(repository, entries);
+
+  const conflicts = entries.filter(({ record, blob }) => {
+    const upstream = head.shas.get(record.Path);
+    return upstream && upstream !== record.Synced_Sha && upstream !== blob;
+  });
+  if (conflicts.length > 0) {
+    throw syncError(409, `${conflicts.map(({ record }) => record.Path).join(', ')} changed on ${repository.branch} since the last sync; ` +
+      'pull the changes into the document before publishing');
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const unchanged = entries.filter(({ record, blob }) => head.shas.get(record.Path) === blob);
+  for (const { ref, record, blob } of unchanged) {
+    if (record.Synced_Sha !== blob) {
+      await ref.update({ Synced_Sha: blob, Synced_Revision: head.revision, Synced_Time: now, Updated_Time: now });
+    }
+  }
+
+  const changed = entries.filter((entry) => !unchanged.includes(entry));
+  if (changed.length === 0) {
+    return { pullRequest: null, published: [], unchanged: unchanged.map(({ record }) => record.Path) };
+  }
+
+  const titles = new Map<string, string>();
+  for (const { file } of changed) {
+    const data = (await db.collection('Documents').doc(file.documentId).get()).data();
+    titles.set(file.documentId, data?.DocumentName || data?.Title || 'Untitled');
+  }
+
+  const tree = await githubRequest<GitHubObject>(repository, '/git/trees', 'write files', {
+    method: 'POST',
+    body: JSON.stringify({
+      base_tree: head.tree,
+      tree: changed.map(({ record, file }) => ({ path: record.Path, mode: '100644', type: 'blob', content: file.markdown }))
+    })
+  });
+  const title = options.title?.trim() ||
+    (changed.length === 1 ? `Update ${changed[0].record.Path}` : `Update ${changed.length} documentation files`);
+  const commit = await githubRequest<GitHubObject>(repository, '/git/commits', 'create a commit', {
+    method: 'POST',
+    body: JSON.stringify({ message: title, tree: tree.sha, parents: [head.revision] })
+  });
+
+  const branch = branchName();
+  await githubRequest<GitHubObject>(repository, '/git/refs', `create branch ${branch}`, {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: commit.sha })
+  });
+
+  const body = [
+    'Published from Dotivra.',
+    '',
+    '| Document | File |',
+    '| --- | --- |',
+    ...changed.map(({ record, file }) => `| ${titles.get(file.documentId)!.replace(/\|/g, '\\|')} | \`${record.Path}\` |`)
+  ].join('\n');
+  const pull = await githubRequest<GitHubPullRequest>(repository, '/pulls', 'open a pull request', {
+    method: 'POST',
+    body: JSON.stringify({ title, head: branch, base: repository.branch, body })
+  });
+
+  const batch = db.batch();
+  for (const { ref, blob } of changed) {
+    const pullRequest: SyncPullRequestRecord = { Number: pull.number, Url: pull.html_url, Branch: branch, Sha: blob };
+    batch.update(ref, { Pull_Request: pullRequest, Updated_Time: now });
+  }
+  await batch.commit();
+
+  logger.info(`📤 Published ${changed.length} documents to ${repositoryName(repository)}#${pull.number}`);
+  return {
+    pullRequest: { number: pull.number, url: pull.html_url, branch },
+    published: changed.map(({ record }) => record.Path),
+    unchanged: unchanged.map(({ record }) => record.Path)
+  };
+};
@@ -0,0 +1,342 @@
+/**
+ * GitHub Webhooks
+ * Verifies and records the GitHub App's webhook deliveries.
+ * Pushes to a repository's default branch move the head in its GitHubRepositories
+ * record. Clients watch that record to drop cached repository context, and a
+ * write to it checks the projects linked to the repository for drift (see
+ * docsDrift). Pull requests closed without merging release the documents a
+ * publish was waiting on (see githubSync). Installation events keep
+ * GitHubInstallations in step with the repositories the app can reach.
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+import * as crypto from 'crypto';
+import { codeIndexId, parseGitHubRepository } from './codeIndex';
+import { checkProjectDrift } from './docsDrift';
+import { releasePullRequest } from './githubSync';
+
+export interface InstallationRepository {
+  Id: number;
+  Name: string;
+  Full_Name: string;
+  Private: boolean;
+  Description: string | null;
+  Default_Branch: string;
+  Html_Url: string;
+}
+
+interface GitHubInstallationRecord {
+  Account_Login: string | null;
+  Account_Type: string | null;
+  Installer_Login: string | null; // Who installed the app, for installations on organizations
+  Account_Avatar_Url: string | null;
+  Repository_Selection: string | null;
+  Suspended: boolean;
+  Repositories: InstallationRepository[];
+  Created_Time: admin.firestore.Timestamp;
+  Updated_Time: admin.firestore.Timestamp;
+}
+
+export interface GitHubRepositoryRecord {
+  Repository: string;
+  Default_Branch: string;
+  Head_Revision: string;
+  Previous_Revision: string | null;
+  Installation_Id: number | null;
+  Pushed_Time: admin.firestore.Timestamp;
+}
+
+// The fields read from webhook payloads
+interface RepositoryPayload {
+  id: number;
+  name: string;
+  full_name: string;
+  private?: boolean;
+  description?: string | null;
+  default_branch?: string;
+  html_url?: string;
+}
+
+interface InstallationPayload {
+  id: number;
+  account?: { login?: string; type?: string; avatar_url?: string } | null;
+  repository_selection?: string;
+  suspended_at?: string | null;
+}
+
+export interface WebhookPayload {
+  action?: string;
+  ref?: string;
+  before?: string;
+  after?: string;
+  deleted?: boolean;
+  repository?: RepositoryPayload;
+  installation?: InstallationPayload;
+  sender?: { login?: string };
+  pull_request?: { number: number; merged?: boolean };
+  repositories?: RepositoryPayload[];
+  repositories_added?: RepositoryPayload[];
+  repositories_removed?: RepositoryPayload[];
+  repository_selection?: string;
+}
+
+/** Every repository an installation can reach, read with the installation's token */
+export type InstallationRepositoryLister = (installationId: number) => Promise<InstallationRepository[]>;
+
+const installations = (db: admin.firestore.Firestore) => db.collection('GitHubInstallations');
+const repositories = (db: admin.firestore.Firestore) => db.collection('GitHubRepositories');
+
+// Same IDs as CodeIndexes and CodeAnalyses use for GitHub repositories
+export const repositoryRecordId = (fullName: string): string => {
+  const [owner, repo] = fullName.split('/');
+  return codeIndexId({ type: 'github', owner, repo });
+};
+
+/**
+ * Whether `signature` (the X-Hub-Signature-256 header) is the HMAC of the raw
+ * request body under the webhook secret
+ */
+export const verifyWebhookSignature = (payload: Buffer, signature: unknown, secret: string): boolean => {
+  if (typeof signature !== 'string' || !signature.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Repositories as the installation payloads describe them, for when the API cannot be asked
+const fromPayload = (repository: RepositoryPayload): InstallationRepository => ({
+  Id: repository.id,
+  Name: repository.name,
+  Full_Name: repository.full_name,
+  Private: repository.private === true,
+  Description: repository.description ?? null,
+  Default_Branch: repository.default_branch || 'main',
+  Html_Url: repository.html_url || `https://github.com/${repository.full_name}`
+});
+
+// ============================================================================
+// Events
+// ============================================================================
+
+const recordPush = async (db: admin.firestore.Firestore, payload: WebhookPayload): Promise<string> => {
+  const repository = payload.repository;
+  const branch = repository?.default_branch;
+  if (!repository?.full_name || !branch || payload.ref !== `refs/heads/${branch}` || payload.deleted || !payload.after) {
+    return 'ignored: not a push to the default branch';
+  }
+
+  const record: GitHubRepositoryRecord = {
+    Repository: repository.full_name,
+    Default_Branch: branch,
+    Head_Revision: payload.after,
+    Previous_Revision: payload.before && !/^0+$/.test(payload.before) ? payload.before : null,
+    Installation_Id: payload.installation?.id ?? null,
+    Pushed_Time: admin.firestore.Timestamp.now()
+  };
+  await repositories(db).doc(repositoryRecordId(repository.full_name)).set(record);
+  return `recorded ${repository.full_name}@${String(payload.after).substring(0, 7)}`;
+};
+
+const handlePullRequest = async (db: admin.firestore.Firestore, payload: WebhookPayload): Promise<string> => {
+  const pullRequest = payload.pull_request;
+  const repository = payload.repository?.full_name;
+  if (payload.action !== 'closed' || !pullRequest || !repository) {
+    return `ignored: pull request ${payload.action}`;
+  }
+  // A merge arrives as a push too; the documents settle when their status is next read
+  if (pullRequest.merged) {
+    return `ignored: #${pullRequest.number} merged`;
+  }
+  const released = await releasePullRequest(db, repository, pullRequest.number);
+  return `released ${released} documents from #${pullRequest.number}`;
+};
+
+const handleInstallation = async (
+  db: admin.firestore.Firestore,
+  payload: WebhookPayload,
+  listRepositories: InstallationRepositoryLister
+): Promise<string> => {
+  const installation = payload.installation;
+  if (!installation?.id) {
+    return 'ignored: no installation';
+  }
+  const ref = installations(db).doc(String(installation.id));
+  const now = admin.firestore.Timestamp.now();
+
+  if (payload.action === 'deleted') {
+    await ref.delete();
+    return `removed installation ${installation.id}`;
+  }
+
+  const existing = (await ref.get()).data() as GitHubInstallationRecord | undefined;
+  const suspended = payload.action === 'suspend' || (payload.action !== 'unsuspend' && Boolean(installation.suspended_at));
+  // Suspended installations cannot read their repositories; keep the last known list
+  const reachable = suspended
+    ? existing?.Repositories || (payload.repositories || []).map(fromPayload)
+    : await listRepositories(installation.id);
+
+  const record: GitHubInstallationRecord = {
+    Account_Login: installation.account?.login ?? null,
+    Account_Type: installation.account?.type ?? null,
+    Installer_Login: existing ? existing.Installer_Login ?? null : payload.sender?.login ?? null,
+    Account_Avatar_Url: installation.account?.avatar_url ?? null,
+    Repository_Selection: installation.repository_selection ?? null,
+    Suspended: suspended,
+    Repositories: reachable,
+    Created_Time: existing?.Created_Time || now,
+    Updated_Time: now
+  };
+  await ref.set(record);
+  return `recorded installation ${installation.id} (${payload.action}, ${reachable.length} repositories)`;
+};
+
+const handleInstallationRepositories = async (
+  db: admin.firestore.Firestore,
+  payload: WebhookPayload,
+  listRepositories: InstallationRepositoryLister
+): Promise<string> => {
+  const installationId = payload.installation?.id;
+  if (!installationId) {
+    return 'ignored: no installation';
+  }
+  const ref = installations(db).doc(String(installationId));
+  const existing = (await ref.get()).data() as GitHubInstallationRecord | undefined;
+  if (!existing) {
+    return handleInstallation(db, { ...payload, action: 'created' }, listRepositories);
+  }
+
+  // Removals need no lookup; additions are read again for their branch and description
+  const removed = new Set((payload.repositories_removed || []).map((repository) => repository.id));
+  const reachable = (payload.repositories_added || []).length > 0
+    ? await listRepositories(installationId)
+    : existing.Repositories.filter((repository) => !removed.has(repository.Id));
+
+  await ref.update({
+    Repository_Selection: payload.repository_selection ?? existing.Repository_Selection,
+    Repositories: reachable,
+    Updated_Time: admin.firestore.Timestamp.now()
+  });
+  return `recorded installation ${installationId} (${reachable.length} repositories)`;
+};
+
+/**
+ * Apply one verified delivery. Returns what was done, for the log and the
+ * response GitHub shows in the app's delivery history.
+ */
+export const handleWebhookEvent = async (
+  db: admin.firestore.Firestore,
+  event: string,
+  payload: WebhookPayload,
+  listRepositories: InstallationRepositoryLister
+): Promise<string> => {
+  switch (event) {
+    case 'ping':
+      return 'pong';
+    case 'push':
+      return recordPush(db, payload);
+    case 'pull_request':
+      return handlePullRequest(db, payload);
+    case 'installation':
+      return handleInstallation(db, payload, listRepositories);
+    case 'installation_repositories':
+      return handleInstallationRepositories(db, payload, listRepositories);
+    default:
+      return `ignored: ${event} events are not handled`;
+  }
+};
+
+// ============================================================================
+// Linked projects
+// ============================================================================
+
+// The spellings a project's GitHubRepo field may use for a repository
+const linkSpellings = (fullName: string): string[] => {
+  const spellings = new Set<string>();
+  for (const name of [fullName, fullName.toLowerCase()]) {
+    for (const prefix of ['', 'https://github.com/', 'https://www.github.com/', 'http://github.com/']) {
+      for (const suffix of ['', '.git', '/']) {
+        spellings.add(`${prefix}${name}${suffix}`);
+      }
+    }
+  }
+  return Array.from(spellings);
+};
+
+/**
+ * IDs of the projects linked to a repository
+ */
+export const findLinkedProjects = async (db: admin.firestore.Firestore, fullName: string): Promise<string[]> => {
+  const spellings = linkSpellings(fullName);
+  const ids = new Set<string>();
+  // Firestore takes at most 30 values per `in` filter
+  for (let index = 0; index < spellings.length; index += 30) {
+    const snapshot = await db.collection('Projects').where('GitHubRepo', 'in', spellings.slice(index, index + 30)).get();
+    snapshot.docs.forEach((doc) => {
+      const linked = parseGitHubRepository(doc.data().GitHubRepo);
+      if (linked && `${linked.owner}/${linked.repo}`.toLowerCase() === fullName.toLowerCase()) {
+        ids.add(doc.id);
+      }
+    });
+  }
+  return Array.from(ids);
+};
+
+/**
+ * Check every project linked to a repository for drift after its head moved.
+ * One failing project does not stop the others.
+ */
+export const checkLinkedProjects = async (db: admin.firestore.Firestore, fullName: string): Promise<number> => {
+  const projectIds = await findLinkedProjects(db, fullName);
+  for (const projectId of projectIds) {
+    try {
+      const reports = await checkProjectDrift(db, projectId);
+      const drifted = reports.filter((report) => report.status === 'drifted').length;
+      logger.info(`🔎 ${fullName} push: ${drifted} of ${reports.length} documents in ${projectId} drifted`);
+    } catch (error) {
+      logger.error(`❌ Drift check of ${projectId} after a push to ${fullName} failed:`, error);
+    }
+  }
+  return projectIds.length;
+};
+
+/**
+ * Repositories a user reaches through recorded, active installations: every
+ * installation on their GitHub account or one they installed. The login must be
+ * the one GitHub verified for the user's token (see readGitHubLogin).
+ */
+export const listInstallationRepositories = async (
+  db: admin.firestore.Firestore,
+  githubLogin: string | null
+): Promise<Array<{ installationId: number; createdAt: string; repositories: InstallationRepository[] }>> => {
+  const login = githubLogin?.toLowerCase();
+  if (!login) {
+    return [];
+  }
+
+  const snapshot = await installations(db).get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, record: doc.data() as GitHubInstallationRecord }))
+    .filter(({ record }) => !record.Suspended && [record.Account_Login, record.Installer_Login]
+      .some((name) => name?.toLowerCase() === login))
+    .map(({ id, record }) => ({
+      installationId: Number(id),
+      createdAt: record.Created_Time.toDate().toISOString(),
+      repositories: record.Repositories || []
+    }));
+};
+
+// The caller's installation that includes owner/repo, or null when none does
+export const installationForRepository = async (
+  db: admin.firestore.Firestore,
+  githubLogin: string | null,
+  owner: string,
+  repo: string
+): Promise<number | null> => {
+  const fullName = `${owner}/${repo}`.toLowerCase();
+  const installation = (await listInstallationRepositories(db, githubLogin))
+    .find(({ repositories }) => repositories.some((repository) => repository.Full_Name.toLowerCase() === fullName));
+  return installation ? installation.installationId : null;
+};
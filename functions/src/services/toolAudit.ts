@@ -0,0 +1,141 @@
+/**
+ * Tool Audit Log
+ * Persists every tool execution to Firestore so any change can be traced
+ * back to the user, agent run and arguments that produced it
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import * as logger from 'firebase-functions/logger';
+
+export const TOOL_AUDIT_COLLECTION = 'ToolAudit';
+
+// Long string args (usually HTML content) are clipped to keep records well under the document size limit
+const MAX_ARG_LENGTH = 4000;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 500;
+
+export interface ToolAuditEntry {
+  tool: string;
+  documentId: string | null;
+  userId: string | null;
+  sessionId: string | null;
+  transactionId: string | null;
+  args: Record<string, unknown>;
+  beforeHash: string | null;
+  afterHash: string | null;
+  success: boolean;
+  operation: string;
+  summary: string;
+}
+
+export interface ToolAuditFilters {
+  documentId?: string;
+  userId?: string;
+  tool?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Same format as Documents.Hash so audit records can be matched against saved documents
+export const hashContent = (content: string | null | undefined): string | null => {
+  if (typeof content !== 'string') {
+    return null;
+  }
+  return 'sha256:' + crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+};
+
+const clipArgs = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.length > MAX_ARG_LENGTH ? `${value.slice(0, MAX_ARG_LENGTH)}… [${value.length - MAX_ARG_LENGTH} more chars]` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(clipArgs);
+  }
+  if (value && typeof value === 'object') {
+    const clipped: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      // Firestore rejects undefined values
+      if (item !== undefined) {
+        clipped[key] = clipArgs(item);
+      }
+    }
+    return clipped;
+  }
+  return value;
+};
+
+// Audit failures are logged but never fail the tool call itself
+export const recordToolAudit = async (firestore: admin.firestore.Firestore | null, entry: ToolAuditEntry): Promise<void> => {
+  if (!firestore) {
+    return;
+  }
+
+  try {
+    await firestore.collection(TOOL_AUDIT_COLLECTION).add({
+      Tool: entry.tool,
+      Document_Id: entry.documentId,
+      User_Id: entry.userId,
+      Session_Id: entry.sessionId,
+      Transaction_Id: entry.transactionId,
+      Args: clipArgs(entry.args || {}),
+      Before_Hash: entry.beforeHash,
+      After_Hash: entry.afterHash,
+      Changed: entry.beforeHash !== entry.afterHash,
+      Success: entry.success,
+      Operation: entry.operation,
+      Summary: entry.summary,
+      Created_Time: admin.firestore.Timestamp.now()
+    });
+  } catch (error) {
+    logger.error(`❌ Failed to write tool audit record for ${entry.tool}:`, error);
+  }
+};
+
+/**
+ * Query audit records, newest first.
+ * Firestore filters on one equality field (document, then user, then tool) plus the
+ * time range; any remaining filters are applied in memory so only three indexes are needed.
+ */
+export const queryToolAudit = async (firestore: admin.firestore.Firestore, filters: ToolAuditFilters): Promise<Record<string, unknown>[]> => {
+  const limit = Math.min(Math.max(filters.limit || DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+
+  let query: admin.firestore.Query = firestore.collection(TOOL_AUDIT_COLLECTION);
+  let indexedField: 'documentId' | 'userId' | 'tool' | null = null;
+
+  if (filters.documentId) {
+    query = query.where('Document_Id', '==', filters.documentId);
+    indexedField = 'documentId';
+  } else if (filters.userId) {
+    query = query.where('User_Id', '==', filters.userId);
+    indexedField = 'userId';
+  } else if (filters.tool) {
+    query = query.where('Tool', '==', filters.tool);
+    indexedField = 'tool';
+  }
+
+  if (filters.from) {
+    query = query.where('Created_Time', '>=', admin.firestore.Timestamp.fromDate(filters.from));
+  }
+  if (filters.to) {
+    query = query.where('Created_Time', '<=', admin.firestore.Timestamp.fromDate(filters.to));
+  }
+
+  // Over-fetch when some filters have to be applied in memory
+  const needsMemoryFilter = (filters.userId && indexedField !== 'userId') || (filters.tool && indexedField !== 'tool');
+  const snapshot = await query.orderBy('Created_Time', 'desc').limit(needsMemoryFilter ? MAX_QUERY_LIMIT : limit).get();
+
+  return snapshot.docs
+    .map((doc): Record<string, unknown> => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        Created_Time: data.Created_Time?.toDate?.()?.toISOString() || null
+      };
+    })
+    .filter((record) => !filters.userId || record.User_Id === filters.userId)
+    .filter((record) => !filters.tool || record.Tool === filters.tool)
+    .slice(0, limit);
+};
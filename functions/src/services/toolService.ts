@@ -5,7 +5,31 @@
 
 import * as admin from 'firebase-admin';
 import * as logger from 'firebase-functions/logger';
+import * as crypto from 'crypto';
 import { marked } from 'marked';
+import {
+  ToolSession,
+  createToolSession,
+  runInToolSession,
+  getToolSession
+} from './toolSession';
+import { recordToolAudit, hashContent } from './toolAudit';
+import { readDocumentContent, buildContentWrite, buildHistoryContent, readHistoryContent } from './documentChunks';
+import {
+  parseDocumentBlocks,
+  buildSectionTree,
+  resolveBlockTarget,
+  getBlockRange,
+  summarizeSection,
+  spliceBlocks,
+  findSectionEndIndex,
+  DocumentBlock,
+  BlockTarget
+} from './documentBlocks';
+import { codeIndexId, indexRepository, resolveRevision, searchCodeIndex } from './codeIndex';
+import { readGitHubToken } from './githubAccess';
+import { analyzeRepository } from './codeAnalysis';
+import { checkUsageQuota } from './usageService';
 
 // Firestore instance (Firebase Admin SDK)
 let firestore: admin.firestore.Firestore | null = null;
@@ -46,6 +70,20 @@ const getResultSummary = (toolName: string, result: any): string => {
       return `Replaced ${result.removed_length || 0} characters with ${result.inserted_length || 0} characters starting at position ${result.range?.before?.from ?? 'unknown'}`;
     case 'remove_document_content':
       return `Removed ${result.removed_length || 0} characters starting at position ${result.range?.before?.from ?? 'unknown'}`;
+    case 'get_document_outline':
+      return `Outlined ${result.blocks_count || 0} blocks in ${result.sections_count || 0} sections`;
+    case 'get_document_block':
+      return `Read block ${result.block?.id ?? 'unknown'} (${result.block?.path ?? 'no path'})`;
+    case 'insert_document_block':
+      return `Inserted ${result.inserted_length || 0} characters ${result.placement || 'after'} ${result.target?.path ?? 'block'}`;
+    case 'replace_document_block':
+      return `Replaced ${result.target?.path ?? 'block'} (${result.removed_length || 0} → ${result.inserted_length || 0} characters)`;
+    case 'remove_document_block':
+      return `Removed ${result.target?.path ?? 'block'} (${result.removed_length || 0} characters)`;
+    case 'analyze_repo_code':
+      return `Analyzed ${result.fileCount || 0} files at ${result.revision?.substring(0, 7) ?? 'unknown'}`;
+    case 'search_repo_code':
+      return `Found ${result.resultsCount || 0} code chunks for "${result.query}"`;
     default:
       return 'Operation completed';
   }
@@ -148,7 +186,8 @@ export const getAvailableTools = (): string[] => {
   return Object.keys(toolMap || {}).sort();
 };
 
-export const executeTool = async (toolName: string, parameters: Record<string, any>): Promise<any> => {
+// Runs in the given session, else the caller's session, else a fresh one with no document
+export const executeTool = async (toolName: string, parameters: Record<string, unknown>, toolSession?: ToolSession): Promise<any> => {
   const tool = toolMap[toolName];
   if (!tool) {
     return {
@@ -157,26 +196,63 @@ export const executeTool = async (toolName: string, parameters: Record<string, a
     };
   }
 
+  const ctx = toolSession || getToolSession() || createToolSession();
+  const beforeHash = ctx.documentId ? hashContent(ctx.content) : null;
+
+  let result: ToolResult;
   try {
-    return await tool(parameters);
-  } catch (err: any) {
-    return {
+    result = await runInToolSession(ctx, () => tool(parameters));
+  } catch (err) {
+    result = {
       success: false,
+      error: err instanceof Error ? err.message : undefined,
       html: `<div class="error-message">Sorry, something went wrong. Please try again with a different request.</div>`
     };
   }
+
+  await recordToolAudit(firestore, {
+    tool: toolName,
+    documentId: ctx.documentId,
+    userId: ctx.userId,
+    sessionId: ctx.id,
+    transactionId: ctx.transactionId,
+    args: parameters,
+    beforeHash,
+    afterHash: ctx.documentId ? hashContent(ctx.content) : null,
+    success: !!result?.success,
+    operation: result?.operation || toolName,
+    summary: result?.success ? getResultSummary(toolName, result) : (result?.error || 'Tool returned an error')
+  });
+
+  return result;
+};
+
+// Document state lives on the session of the request that is running the tool
+const session = (): ToolSession => {
+  const ctx = getToolSession();
+  if (!ctx) {
+    throw new Error('Document tools must run inside a tool session');
+  }
+  return ctx;
 };
 
-// Global document state
-let currentDocumentId: string | null = null;
-let currentDocumentContent: string = '';
+// Create a session for one request and load its document, if any
+export const openToolSession = async ({ documentId, userId }: { documentId?: string | null; userId?: string | null } = {}): Promise<ToolSession> => {
+  const ctx = createToolSession({ userId });
+  if (documentId) {
+    await runInToolSession(ctx, () => setCurrentDocument(documentId));
+  }
+  return ctx;
+};
 
-// Set current document from Firebase
+// Set the session's document from Firebase
 export const setCurrentDocument = async (documentId: string): Promise<any> => {
+  const ctx = session();
   try {
     if (!documentId) {
-      currentDocumentId = null;
-      currentDocumentContent = '';
+      ctx.documentId = null;
+      ctx.content = '';
+      ctx.version = null;
       return { success: true, content: '' };
     }
 
@@ -194,15 +270,16 @@ export const setCurrentDocument = async (documentId: string): Promise<any> => {
     }
 
     const docData = docSnap.data()!;
-    currentDocumentId = documentId;
-    currentDocumentContent = docData.Content || '';
+    ctx.documentId = documentId;
+    ctx.content = await readDocumentContent(firestore, documentId, docData);
+    ctx.version = docData.version || 0;
 
-    logger.info(`✅ Document loaded successfully: ${documentId} (${currentDocumentContent.length} chars)`);
+    logger.info(`✅ Document loaded successfully: ${documentId} (${ctx.content.length} chars)`);
 
     return {
       success: true,
       documentId,
-      content: currentDocumentContent,
+      content: ctx.content,
       documentName: docData.DocumentName
     };
   } catch (error: any) {
@@ -212,22 +289,25 @@ export const setCurrentDocument = async (documentId: string): Promise<any> => {
 };
 
 const refreshCurrentDocument = async (): Promise<void> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  // Inside a transaction the working copy is the source of truth
+  if (!ctx.documentId || !firestore || ctx.transactionId) {
     return;
   }
 
   try {
-    const docRef = firestore.collection('Documents').doc(currentDocumentId);
+    const docRef = firestore.collection('Documents').doc(ctx.documentId);
     const docSnap = await docRef.get();
 
     if (!docSnap.exists) {
       return;
     }
 
-    const latestContent = docSnap.data()?.Content || '';
-    if (latestContent !== currentDocumentContent) {
-      currentDocumentContent = latestContent;
-      logger.info(`♻️ Refreshed document cache for ${currentDocumentId} (${currentDocumentContent.length} chars)`);
+    const latestContent = await readDocumentContent(firestore, ctx.documentId, docSnap.data());
+    ctx.version = docSnap.data()?.version || 0;
+    if (latestContent !== ctx.content) {
+      ctx.content = latestContent;
+      logger.info(`♻️ Refreshed document cache for ${ctx.documentId} (${ctx.content.length} chars)`);
     }
   } catch (error) {
     logger.error('❌ Error refreshing document content:', error);
@@ -236,20 +316,58 @@ const refreshCurrentDocument = async (): Promise<void> => {
 
 // Sync document content back to Firebase
 const syncToFirebase = async (): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (ctx.transactionId) {
+    return { success: true, deferred: true };
+  }
+
+  if (!ctx.documentId || !firestore) {
     logger.info('ℹ️  No document context set - changes will not be persisted to Firebase');
     return { success: false, error: 'No document set or firestore not initialized' };
   }
 
+  const db = firestore;
   try {
-    const docRef = firestore.collection('Documents').doc(currentDocumentId);
-    await docRef.update({
-      Content: currentDocumentContent,
-      Updated_Time: admin.firestore.FieldValue.serverTimestamp()
+    const docRef = db.collection('Documents').doc(ctx.documentId);
+    let latest: admin.firestore.DocumentData | null = null;
+    let savedVersion = 0;
+    const documentId = ctx.documentId;
+
+    await db.runTransaction(async (t) => {
+      const docSnap = await t.get(docRef);
+      const docData = docSnap.data() || {};
+      // Someone saved since this session loaded the document; don't overwrite their edit
+      if (ctx.version !== null && (docData.version || 0) !== ctx.version) {
+        latest = docData;
+        return;
+      }
+
+      latest = null;
+      savedVersion = (docData.version || 0) + 1;
+      t.update(docRef, {
+        ...buildContentWrite(t, db, documentId, ctx.content, docData),
+        Hash: hashContent(ctx.content),
+        version: savedVersion,
+        Updated_Time: admin.firestore.FieldValue.serverTimestamp()
+      });
     });
 
-    logger.info(`💾 Synced to Firebase: ${currentDocumentId} (${currentDocumentContent.length} chars)`);
-    return { success: true };
+    if (latest) {
+      const latestData: admin.firestore.DocumentData = latest;
+      // Continue from the saved document so a retry applies to the latest content
+      ctx.content = await readDocumentContent(db, documentId, latestData);
+      ctx.version = latestData.version || 0;
+      logger.info(`⚠️ Sync rejected for ${ctx.documentId}: document changed since it was loaded`);
+      return {
+        success: false,
+        conflict: true,
+        html: `<div class="error-message">The document was changed by someone else while this edit was being made, so it wasn't saved. Please try again.</div>`
+      };
+    }
+
+    ctx.version = savedVersion;
+    logger.info(`💾 Synced to Firebase: ${ctx.documentId} (${ctx.content.length} chars, v${ctx.version})`);
+    return { success: true, version: ctx.version };
   } catch (error: any) {
     logger.error('❌ Firebase sync error:', error);
     return { success: false, error: error.message };
@@ -258,10 +376,11 @@ const syncToFirebase = async (): Promise<any> => {
 
 // Tool implementations
 export const get_document_content = async ({ documentId, reason }: any): Promise<any> => {
+  const ctx = session();
   try {
     logger.info(`📖 get_document_content called: ${reason || 'No reason provided'}`);
 
-    if (documentId && documentId !== currentDocumentId) {
+    if (documentId && documentId !== ctx.documentId) {
       await setCurrentDocument(documentId);
     } else {
       await refreshCurrentDocument();
@@ -271,12 +390,12 @@ export const get_document_content = async ({ documentId, reason }: any): Promise
       success: true,
       reason: reason || 'Getting document content',
       operation: 'get_content',
-      documentId: currentDocumentId,
-      content: currentDocumentContent,
-      length: currentDocumentContent.length
+      documentId: ctx.documentId,
+      content: ctx.content,
+      length: ctx.content.length
     };
 
-    logToolUsage('get_document_content', { documentId, reason }, result, currentDocumentId);
+    logToolUsage('get_document_content', { documentId, reason }, result, ctx.documentId);
     return result;
   } catch (error: any) {
     const result = {
@@ -284,17 +403,18 @@ export const get_document_content = async ({ documentId, reason }: any): Promise
       reason: reason || 'Getting document content',
       error: error.message
     };
-    logToolUsage('get_document_content', { documentId, reason }, result, currentDocumentId);
+    logToolUsage('get_document_content', { documentId, reason }, result, ctx.documentId);
     throw error;
   }
 };
 
 export const scan_document_content = async ({ reason }: any): Promise<any> => {
+  const ctx = session();
   await refreshCurrentDocument();
 
-  const lines = currentDocumentContent.split('\n');
-  const words = currentDocumentContent.split(/\s+/).filter(w => w.length > 0);
-  const characters = currentDocumentContent.length;
+  const lines = ctx.content.split('\n');
+  const words = ctx.content.split(/\s+/).filter(w => w.length > 0);
+  const characters = ctx.content.length;
 
   const headings = lines
     .filter(line => line.trim().startsWith('#'))
@@ -313,22 +433,23 @@ export const scan_document_content = async ({ reason }: any): Promise<any> => {
       total_characters: characters,
       headings_count: headings.length,
       headings: headings,
-      has_content: currentDocumentContent.length > 0
+      has_content: ctx.content.length > 0
     },
-    preview: currentDocumentContent.substring(0, 200) + (currentDocumentContent.length > 200 ? '...' : '')
+    preview: ctx.content.substring(0, 200) + (ctx.content.length > 200 ? '...' : '')
   };
 
-  logToolUsage('scan_document_content', { reason }, result, currentDocumentId);
+  logToolUsage('scan_document_content', { reason }, result, ctx.documentId);
   return result;
 };
 
 export const search_document_content = async ({ query, reason }: any): Promise<any> => {
+  const ctx = session();
   logger.info(`🔍 Searching document for query: "${query}"`);
   await refreshCurrentDocument();
 
   const matches = [];
   const lowerQuery = (query || '').toLowerCase();
-  const lowerContent = currentDocumentContent.toLowerCase();
+  const lowerContent = ctx.content.toLowerCase();
 
   let searchIndex = 0;
   let elementIndex = 0;
@@ -338,8 +459,8 @@ export const search_document_content = async ({ query, reason }: any): Promise<a
     if (matchIndex === -1) break;
 
     const contextStart = Math.max(0, matchIndex - 50);
-    const contextEnd = Math.min(currentDocumentContent.length, matchIndex + query.length + 50);
-    const context = currentDocumentContent.substring(contextStart, contextEnd);
+    const contextEnd = Math.min(ctx.content.length, matchIndex + query.length + 50);
+    const context = ctx.content.substring(contextStart, contextEnd);
 
     matches.push({
       element_index: elementIndex,
@@ -363,11 +484,12 @@ export const search_document_content = async ({ query, reason }: any): Promise<a
     total_matches: matches.length
   };
 
-  logToolUsage('search_document_content', { query, reason }, result, currentDocumentId);
+  logToolUsage('search_document_content', { query, reason }, result, ctx.documentId);
   return result;
 };
 
 export const append_document_content = async ({ content, reason }: any): Promise<any> => {
+  const ctx = session();
   if (typeof content !== 'string' || !content.trim().length) {
     return {
       success: false,
@@ -384,9 +506,9 @@ export const append_document_content = async ({ content, reason }: any): Promise
 
   await refreshCurrentDocument();
 
-  const startPosition = currentDocumentContent.length;
-  const paddedContent = applyBlockPadding(normalizedContent, currentDocumentContent.slice(Math.max(0, currentDocumentContent.length - 1)), '');
-  currentDocumentContent = currentDocumentContent + paddedContent;
+  const startPosition = ctx.content.length;
+  const paddedContent = applyBlockPadding(normalizedContent, ctx.content.slice(Math.max(0, ctx.content.length - 1)), '');
+  ctx.content = ctx.content + paddedContent;
   const appendedLength = paddedContent.length;
   const result = {
     success: true,
@@ -400,12 +522,13 @@ export const append_document_content = async ({ content, reason }: any): Promise
   insertedContent: paddedContent,
     operation: 'append_document_content'
   };
-  logToolUsage('append_document_content', { content, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('append_document_content', { content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 export const insert_document_content = async ({ position, content, reason }: any): Promise<any> => {
+  const ctx = session();
   if (typeof position !== 'number' || position < 0) {
     return {
       success: false,
@@ -428,19 +551,19 @@ export const insert_document_content = async ({ position, content, reason }: any
 
   await refreshCurrentDocument();
 
-  if (position > currentDocumentContent.length) {
+  if (position > ctx.content.length) {
     return {
       success: false,
       html: `<div class="error-message">Sorry, that insert position falls outside the current document. Please try again.</div>`
     };
   }
 
-  const safePosition = Math.max(0, Math.min(position, currentDocumentContent.length));
-  const beforeSnippet = currentDocumentContent.slice(Math.max(0, safePosition - 1), safePosition);
-  const afterSnippet = currentDocumentContent.slice(safePosition, safePosition + 1);
+  const safePosition = Math.max(0, Math.min(position, ctx.content.length));
+  const beforeSnippet = ctx.content.slice(Math.max(0, safePosition - 1), safePosition);
+  const afterSnippet = ctx.content.slice(safePosition, safePosition + 1);
   const paddedContent = applyBlockPadding(normalizedContent, beforeSnippet, afterSnippet);
   const insertedLength = paddedContent.length;
-  currentDocumentContent = currentDocumentContent.slice(0, safePosition) + paddedContent + currentDocumentContent.slice(safePosition);
+  ctx.content = ctx.content.slice(0, safePosition) + paddedContent + ctx.content.slice(safePosition);
   const result = {
     success: true,
     inserted_length: insertedLength,
@@ -454,12 +577,13 @@ export const insert_document_content = async ({ position, content, reason }: any
   insertedContent: paddedContent,
     operation: 'insert_document_content'
   };
-  logToolUsage('insert_document_content', { position, content, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('insert_document_content', { position, content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 export const insert_document_content_at_location = async ({ target, position, content, reason }: any): Promise<any> => {
+  const ctx = session();
   if (typeof target !== 'string' || !target.length) {
     return {
       success: false,
@@ -489,7 +613,7 @@ export const insert_document_content_at_location = async ({ target, position, co
   await refreshCurrentDocument();
 
   // Find the target in the document
-  const targetIndex = currentDocumentContent.indexOf(target);
+  const targetIndex = ctx.content.indexOf(target);
   if (targetIndex === -1) {
     return {
       success: false,
@@ -513,7 +637,7 @@ export const insert_document_content_at_location = async ({ target, position, co
         const currentLevel = parseInt(headingMatch[1]);
         
         // Find the next heading of equal or higher level (lower number)
-        const remainingContent = currentDocumentContent.slice(insertPosition);
+        const remainingContent = ctx.content.slice(insertPosition);
         const headingRegex = /<h([1-6])[^>]*>/gi;
         let match;
         let sectionEnd = insertPosition;
@@ -536,12 +660,12 @@ export const insert_document_content_at_location = async ({ target, position, co
   }
 
   // Insert the content
-  const safeInsertPosition = Math.max(0, Math.min(insertPosition, currentDocumentContent.length));
-  const beforeSnippet = currentDocumentContent.slice(Math.max(0, safeInsertPosition - 1), safeInsertPosition);
-  const afterSnippet = currentDocumentContent.slice(safeInsertPosition, safeInsertPosition + 1);
+  const safeInsertPosition = Math.max(0, Math.min(insertPosition, ctx.content.length));
+  const beforeSnippet = ctx.content.slice(Math.max(0, safeInsertPosition - 1), safeInsertPosition);
+  const afterSnippet = ctx.content.slice(safeInsertPosition, safeInsertPosition + 1);
   const paddedContent = applyBlockPadding(normalizedContent, beforeSnippet, afterSnippet);
   const insertedLength = paddedContent.length;
-  currentDocumentContent = currentDocumentContent.slice(0, safeInsertPosition) + paddedContent + currentDocumentContent.slice(safeInsertPosition);
+  ctx.content = ctx.content.slice(0, safeInsertPosition) + paddedContent + ctx.content.slice(safeInsertPosition);
 
   const result = {
     success: true,
@@ -557,12 +681,13 @@ export const insert_document_content_at_location = async ({ target, position, co
   insertedContent: paddedContent,
     operation: 'insert_document_content_at_location'
   };
-  logToolUsage('insert_document_content_at_location', { target, position, content, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('insert_document_content_at_location', { target, position, content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 export const replace_document_content = async ({ position, content, reason }: any): Promise<any> => {
+  const ctx = session();
   if (!position || typeof position !== 'object' || typeof position.from !== 'number' || typeof position.to !== 'number') {
     return {
       success: false,
@@ -583,9 +708,9 @@ export const replace_document_content = async ({ position, content, reason }: an
     };
   }
   await refreshCurrentDocument();
-  const safeFrom = Math.max(0, Math.min(position.from, currentDocumentContent.length));
-  const safeTo = Math.max(safeFrom, Math.min(position.to, currentDocumentContent.length));
-  const removedSegment = currentDocumentContent.slice(safeFrom, safeTo);
+  const safeFrom = Math.max(0, Math.min(position.from, ctx.content.length));
+  const safeTo = Math.max(safeFrom, Math.min(position.to, ctx.content.length));
+  const removedSegment = ctx.content.slice(safeFrom, safeTo);
 
   // Attempt element-aware inner replacement: if the replacement range is strictly inside
   // the inner HTML of a single block-level element, replace inner HTML only to preserve
@@ -597,11 +722,11 @@ export const replace_document_content = async ({ position, content, reason }: an
   let removedLength = safeTo - safeFrom;
 
   try {
-    const openTagStart = currentDocumentContent.lastIndexOf('<', safeFrom);
+    const openTagStart = ctx.content.lastIndexOf('<', safeFrom);
     if (openTagStart !== -1) {
-      const openTagEnd = currentDocumentContent.indexOf('>', openTagStart);
+      const openTagEnd = ctx.content.indexOf('>', openTagStart);
       if (openTagEnd !== -1 && openTagEnd < safeFrom) {
-        const openTagContent = currentDocumentContent.slice(openTagStart + 1, openTagEnd).trim();
+        const openTagContent = ctx.content.slice(openTagStart + 1, openTagEnd).trim();
         if (openTagContent && !openTagContent.startsWith('/')) {
           const tagNameMatch = openTagContent.match(/^([a-z0-9]+)/i);
           if (tagNameMatch) {
@@ -616,9 +741,9 @@ export const replace_document_content = async ({ position, content, reason }: an
                 // If the replacement range is fully inside the inner HTML (not touching outer tags),
                 // do inner replacement to preserve the outer element.
                 if (safeFrom >= innerStart && safeTo <= innerEnd) {
-                  const beforeOuter = currentDocumentContent.slice(0, innerStart);
-                  const afterOuter = currentDocumentContent.slice(innerEnd);
-                  currentDocumentContent = beforeOuter + normalizedContent + afterOuter;
+                  const beforeOuter = ctx.content.slice(0, innerStart);
+                  const afterOuter = ctx.content.slice(innerEnd);
+                  ctx.content = beforeOuter + normalizedContent + afterOuter;
                   appliedElementAware = true;
                   finalInsertedContent = normalizedContent;
                   insertedLength = normalizedContent.length;
@@ -636,11 +761,11 @@ export const replace_document_content = async ({ position, content, reason }: an
 
   if (!appliedElementAware) {
     // Fallback: preserve surrounding block context when inserting replacement content
-    const beforeSnippet = currentDocumentContent.slice(Math.max(0, safeFrom - 1), safeFrom);
-    const afterSnippet = currentDocumentContent.slice(safeTo, Math.min(currentDocumentContent.length, safeTo + 1));
+    const beforeSnippet = ctx.content.slice(Math.max(0, safeFrom - 1), safeFrom);
+    const afterSnippet = ctx.content.slice(safeTo, Math.min(ctx.content.length, safeTo + 1));
     const paddedContent = applyBlockPadding(normalizedContent, beforeSnippet, afterSnippet);
 
-    currentDocumentContent = currentDocumentContent.slice(0, safeFrom) + paddedContent + currentDocumentContent.slice(safeTo);
+    ctx.content = ctx.content.slice(0, safeFrom) + paddedContent + ctx.content.slice(safeTo);
     finalInsertedContent = paddedContent;
     insertedLength = paddedContent.length;
   }
@@ -658,13 +783,14 @@ export const replace_document_content = async ({ position, content, reason }: an
     removedContent: removedSegment,
     operation: 'replace_document_content'
   };
-  logToolUsage('replace_document_content', { position, content, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('replace_document_content', { position, content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 // Replace all occurrences of a target string with normalized content.
 export const replace_all_document_content = async ({ target, content, confirm, reason }: any): Promise<any> => {
+  const ctx = session();
   if (typeof target !== 'string' || !target.length) {
     return { success: false, html: `<div class="error-message">Missing target to replace.</div>` };
   }
@@ -675,7 +801,7 @@ export const replace_all_document_content = async ({ target, content, confirm, r
   await refreshCurrentDocument();
 
   // Count occurrences
-  const occurrences = currentDocumentContent.split(target).length - 1;
+  const occurrences = ctx.content.split(target).length - 1;
   if (occurrences === 0) {
     return { success: true, reason, operation: 'replace_all_document_content', replaced: 0, html: `<div class="tool-success">No matches for target found.</div>` };
   }
@@ -685,15 +811,15 @@ export const replace_all_document_content = async ({ target, content, confirm, r
   if (!confirm) {
     return {
       success: true,
-      preview: currentDocumentContent.indexOf(target),
+      preview: ctx.content.indexOf(target),
       matches: occurrences,
       message: `Found ${occurrences} matches for the target. Re-run with { confirm: true } to apply.`
     };
   }
 
-  const beforeLength = currentDocumentContent.length;
-  currentDocumentContent = currentDocumentContent.split(target).join(normalizedReplacement);
-  const afterLength = currentDocumentContent.length;
+  const beforeLength = ctx.content.length;
+  ctx.content = ctx.content.split(target).join(normalizedReplacement);
+  const afterLength = ctx.content.length;
   const replacedCount = occurrences;
   const result = {
     success: true,
@@ -704,13 +830,14 @@ export const replace_all_document_content = async ({ target, content, confirm, r
     operation: 'replace_all_document_content'
   };
 
-  logToolUsage('replace_all_document_content', { target, content, confirm, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('replace_all_document_content', { target, content, confirm, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 // Replace the entire block/section containing a position with normalized content
 export const replace_document_section = async ({ position, content, confirm, reason }: any): Promise<any> => {
+  const ctx = session();
   if (!position || typeof position !== 'object' || typeof position.from !== 'number') {
     return { success: false, html: `<div class="error-message">Missing or invalid position.</div>` };
   }
@@ -720,18 +847,18 @@ export const replace_document_section = async ({ position, content, confirm, rea
 
   await refreshCurrentDocument();
 
-  const safeFrom = Math.max(0, Math.min(position.from, currentDocumentContent.length));
+  const safeFrom = Math.max(0, Math.min(position.from, ctx.content.length));
 
   // Find nearest opening tag before safeFrom
-  const openTagStart = currentDocumentContent.lastIndexOf('<', safeFrom);
+  const openTagStart = ctx.content.lastIndexOf('<', safeFrom);
   if (openTagStart === -1) {
     return { success: false, html: `<div class="error-message">Could not locate enclosing section.</div>` };
   }
-  const openTagEnd = currentDocumentContent.indexOf('>', openTagStart);
+  const openTagEnd = ctx.content.indexOf('>', openTagStart);
   if (openTagEnd === -1) {
     return { success: false, html: `<div class="error-message">Malformed document near position.</div>` };
   }
-  const openTagContent = currentDocumentContent.slice(openTagStart + 1, openTagEnd).trim();
+  const openTagContent = ctx.content.slice(openTagStart + 1, openTagEnd).trim();
   if (!openTagContent || openTagContent.startsWith('/')) {
     return { success: false, html: `<div class="error-message">Could not determine outer tag.</div>` };
   }
@@ -745,7 +872,7 @@ export const replace_document_section = async ({ position, content, confirm, rea
     return { success: false, html: `<div class="error-message">Could not find matching closing tag for &lt;${tagName}&gt;.</div>` };
   }
   const outerStart = openTagStart;
-  const outerEnd = currentDocumentContent.indexOf('>', closeTagIndex) + 1;
+  const outerEnd = ctx.content.indexOf('>', closeTagIndex) + 1;
   if (outerEnd <= outerStart) {
     return { success: false, html: `<div class="error-message">Malformed closing tag.</div>` };
   }
@@ -763,9 +890,9 @@ export const replace_document_section = async ({ position, content, confirm, rea
     return { success: true, preview, message: 'Found section; re-run with { confirm: true } to apply.' };
   }
 
-  const before = currentDocumentContent.slice(0, outerStart);
-  const after = currentDocumentContent.slice(outerEnd);
-  currentDocumentContent = before + normalizedReplacement + after;
+  const before = ctx.content.slice(0, outerStart);
+  const after = ctx.content.slice(outerEnd);
+  ctx.content = before + normalizedReplacement + after;
 
   const result = {
     success: true,
@@ -774,12 +901,13 @@ export const replace_document_section = async ({ position, content, confirm, rea
     operation: 'replace_document_section'
   };
 
-  logToolUsage('replace_document_section', { position, content, confirm, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('replace_document_section', { position, content, confirm, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 export const remove_document_content = async ({ position, reason }: any): Promise<any> => {
+  const ctx = session();
   if (!position || typeof position !== 'object' || typeof position.from !== 'number' || typeof position.to !== 'number') {
     return {
       success: false,
@@ -787,10 +915,10 @@ export const remove_document_content = async ({ position, reason }: any): Promis
     };
   }
   await refreshCurrentDocument();
-  const safeFrom = Math.max(0, Math.min(position.from, currentDocumentContent.length));
-  const safeTo = Math.max(safeFrom, Math.min(position.to, currentDocumentContent.length));
-  const removedSegment = currentDocumentContent.slice(safeFrom, safeTo);
-  currentDocumentContent = currentDocumentContent.slice(0, safeFrom) + currentDocumentContent.slice(safeTo);
+  const safeFrom = Math.max(0, Math.min(position.from, ctx.content.length));
+  const safeTo = Math.max(safeFrom, Math.min(position.to, ctx.content.length));
+  const removedSegment = ctx.content.slice(safeFrom, safeTo);
+  ctx.content = ctx.content.slice(0, safeFrom) + ctx.content.slice(safeTo);
   const result = {
     success: true,
     html: `<div class="tool-success">Removed <b>${safeTo - safeFrom}</b> characters from your document.</div>`,
@@ -803,14 +931,15 @@ export const remove_document_content = async ({ position, reason }: any): Promis
     removed_length: safeTo - safeFrom,
     operation: 'remove_document_content'
   };
-  logToolUsage('remove_document_content', { position, reason }, result, currentDocumentId);
-  await syncToFirebase();
-  return result;
+  logToolUsage('remove_document_content', { position, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
 };
 
 // Summary field operations
 export const append_document_summary = async ({ content, reason }: any): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (!ctx.documentId || !firestore) {
     return {
       success: false,
       html: `<div class="error-message">Sorry, we couldn't find your document summary. Please try again.</div>`
@@ -822,7 +951,7 @@ export const append_document_summary = async ({ content, reason }: any): Promise
       html: `<div class="error-message">Sorry, no summary content was provided to append. Please try again.</div>`
     };
   }
-  const docRef = firestore.collection('Documents').doc(currentDocumentId);
+  const docRef = firestore.collection('Documents').doc(ctx.documentId);
   const docSnap = await docRef.get();
   let summary = '';
   if (docSnap.exists) {
@@ -840,13 +969,14 @@ export const append_document_summary = async ({ content, reason }: any): Promise
 };
 
 export const insert_document_summary = async ({ position, content, reason }: any): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (!ctx.documentId || !firestore) {
     return {
       success: false,
       html: `<div class="error-message">Sorry, we couldn't find your document summary. Please try again.</div>`
     };
   }
-  const docRef = firestore.collection('Documents').doc(currentDocumentId);
+  const docRef = firestore.collection('Documents').doc(ctx.documentId);
   const docSnap = await docRef.get();
   let summary = '';
   if (docSnap.exists) {
@@ -876,7 +1006,8 @@ export const insert_document_summary = async ({ position, content, reason }: any
 };
 
 export const replace_doument_summary = async ({ position, content, reason }: any): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (!ctx.documentId || !firestore) {
     return { success: false, html: `<div class="error-message">Sorry, we couldn't find your document summary. Please try again.</div>` };
   }
   if (!position || typeof position !== 'object' || typeof position.from !== 'number' || typeof position.to !== 'number') {
@@ -885,7 +1016,7 @@ export const replace_doument_summary = async ({ position, content, reason }: any
   if (typeof content !== 'string') {
     return { success: false, html: `<div class="error-message">Sorry, no summary content was provided to replace. Please try again.</div>` };
   }
-  const docRef = firestore.collection('Documents').doc(currentDocumentId);
+  const docRef = firestore.collection('Documents').doc(ctx.documentId);
   const docSnap = await docRef.get();
   const currentSummary = docSnap.exists ? (docSnap.data()?.Summary || '') : '';
   const { from, to } = position;
@@ -900,13 +1031,14 @@ export const replace_doument_summary = async ({ position, content, reason }: any
 };
 
 export const remove_document_summary = async ({ position, reason }: any): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (!ctx.documentId || !firestore) {
     return { success: false, html: `<div class="error-message">Sorry, we couldn't find your document summary. Please try again.</div>` };
   }
   if (!position || typeof position !== 'object' || typeof position.from !== 'number' || typeof position.to !== 'number') {
     return { success: false, html: `<div class="error-message">Missing or invalid position. Provide { position: { from, to } }.</div>` };
   }
-  const docRef = firestore.collection('Documents').doc(currentDocumentId);
+  const docRef = firestore.collection('Documents').doc(ctx.documentId);
   const docSnap = await docRef.get();
   const currentSummary = docSnap.exists ? (docSnap.data()?.Summary || '') : '';
   const { from, to } = position;
@@ -921,10 +1053,11 @@ export const remove_document_summary = async ({ position, reason }: any): Promis
 };
 
 export const search_document_summary = async ({ query, reason }: any): Promise<any> => {
-  if (!currentDocumentId || !firestore) {
+  const ctx = session();
+  if (!ctx.documentId || !firestore) {
     return { success: false, html: `<div class="error-message">Sorry, we couldn't access your document summary. Please try again.</div>` };
   }
-  const docRef = firestore.collection('Documents').doc(currentDocumentId);
+  const docRef = firestore.collection('Documents').doc(ctx.documentId);
   const docSnap = await docRef.get();
   const summary = docSnap.exists ? (docSnap.data()?.Summary || '') : '';
   
@@ -966,6 +1099,7 @@ export const search_document_summary = async ({ query, reason }: any): Promise<a
 };
 
 export const get_all_documents_metadata_within_project = async ({ documentId, reason }: any): Promise<any> => {
+  const ctx = session();
   logger.info(`📚 get_all_documents_metadata_within_project called for documentId: ${documentId}`);
 
   try {
@@ -973,7 +1107,7 @@ export const get_all_documents_metadata_within_project = async ({ documentId, re
       throw new Error('Firestore not initialized');
     }
 
-    const targetDocId = documentId || currentDocumentId;
+    const targetDocId = documentId || ctx.documentId;
     
     if (!targetDocId) {
       return {
@@ -1041,7 +1175,7 @@ export const get_all_documents_metadata_within_project = async ({ documentId, re
       documents
     };
 
-    logToolUsage('get_all_documents_metadata_within_project', { documentId, reason }, result, currentDocumentId);
+    logToolUsage('get_all_documents_metadata_within_project', { documentId, reason }, result, ctx.documentId);
     return result;
 
   } catch (error: any) {
@@ -1056,6 +1190,7 @@ export const get_all_documents_metadata_within_project = async ({ documentId, re
 };
 
 export const get_document_summary = async ({ documentId, reason }: any): Promise<any> => {
+  const ctx = session();
   logger.info(`📝 get_document_summary called for documentId: ${documentId}`);
 
   try {
@@ -1063,7 +1198,7 @@ export const get_document_summary = async ({ documentId, reason }: any): Promise
       throw new Error('Firestore not initialized');
     }
 
-    const targetDocumentId = documentId || currentDocumentId;
+    const targetDocumentId = documentId || ctx.documentId;
 
     const docRef = firestore.collection('Documents').doc(targetDocumentId);
     const docSnap = await docRef.get();
@@ -1101,7 +1236,7 @@ export const get_document_summary = async ({ documentId, reason }: any): Promise
       summaryLength: summary.length
     };
 
-    logToolUsage('get_document_summary', { documentId: targetDocumentId, reason }, result, currentDocumentId);
+    logToolUsage('get_document_summary', { documentId: targetDocumentId, reason }, result, ctx.documentId);
     return result;
 
   } catch (error: any) {
@@ -1115,14 +1250,698 @@ export const get_document_summary = async ({ documentId, reason }: any): Promise
   }
 };
 
+// ============================================================================
+// BLOCK-ADDRESSED TOOLS
+// Address content by block ID or heading path instead of character offsets
+// ============================================================================
+
+const describeBlock = (block: DocumentBlock) => ({
+  id: block.id,
+  type: block.type,
+  path: block.path,
+  level: block.level,
+  text: block.text.length > 200 ? `${block.text.slice(0, 200)}...` : block.text
+});
+
+// Arguments of the block tools; a block is addressed by blockId or by heading path
+interface BlockToolArgs extends BlockTarget {
+  scope?: 'block' | 'section';
+  placement?: string;
+  content?: unknown;
+  reason?: string;
+}
+
+const blockTargetError = (message: string) => ({
+  success: false,
+  error: message,
+  html: `<div class="error-message">Sorry, we couldn't find that part of your document. ${message}</div>`
+});
+
+// Locate the block that now starts at a given offset so callers can chain edits with fresh IDs
+const findBlockAt = (html: string, offset: number): DocumentBlock | null => {
+  const blocks = parseDocumentBlocks(html);
+  return blocks.find((b) => b.start >= offset) || null;
+};
+
+export const get_document_outline = async ({ reason }: BlockToolArgs): Promise<ToolResult> => {
+  const ctx = session();
+  await refreshCurrentDocument();
+
+  const blocks = parseDocumentBlocks(ctx.content);
+  const tree = buildSectionTree(blocks);
+  const sectionsCount = blocks.filter((b) => b.type === 'heading').length;
+
+  const result = {
+    success: true,
+    reason,
+    operation: 'get_document_outline',
+    documentId: ctx.documentId,
+    blocks_count: blocks.length,
+    sections_count: sectionsCount,
+    outline: summarizeSection(tree)
+  };
+
+  logToolUsage('get_document_outline', { reason }, result, ctx.documentId);
+  return result;
+};
+
+export const get_document_block = async ({ blockId, path, scope = 'block', reason }: BlockToolArgs): Promise<ToolResult> => {
+  const ctx = session();
+  await refreshCurrentDocument();
+
+  const blocks = parseDocumentBlocks(ctx.content);
+  const resolved = resolveBlockTarget(blocks, { blockId, path });
+  if (!resolved.success) {
+    return blockTargetError(resolved.error);
+  }
+
+  const range = getBlockRange(blocks, resolved.block, scope === 'section' ? 'section' : 'block');
+  const result = {
+    success: true,
+    reason,
+    operation: 'get_document_block',
+    block: describeBlock(resolved.block),
+    scope,
+    content: ctx.content.slice(range.from, range.to)
+  };
+
+  logToolUsage('get_document_block', { blockId, path, scope, reason }, result, ctx.documentId);
+  return result;
+};
+
+export const insert_document_block = async ({ blockId, path, placement = 'after', content, reason }: BlockToolArgs): Promise<ToolResult> => {
+  const ctx = session();
+  const allowedPlacements = ['before', 'after', 'section_start', 'section_end'];
+  if (!allowedPlacements.includes(placement)) {
+    return {
+      success: false,
+      html: `<div class="error-message">Placement must be one of: ${allowedPlacements.join(', ')}.</div>`
+    };
+  }
+  if (typeof content !== 'string' || !content.trim().length) {
+    return {
+      success: false,
+      html: `<div class="error-message">Sorry, no content was provided to insert. Please try again.</div>`
+    };
+  }
+  const normalizedContent = normalizeContentToHtml(content);
+  if (!normalizedContent.length) {
+    return {
+      success: false,
+      html: `<div class="error-message">Sorry, the provided content could not be converted to a valid format.</div>`
+    };
+  }
+
+  await refreshCurrentDocument();
+
+  const blocks = parseDocumentBlocks(ctx.content);
+  const resolved = resolveBlockTarget(blocks, { blockId, path });
+  if (!resolved.success) {
+    return blockTargetError(resolved.error);
+  }
+  const target = resolved.block;
+
+  if ((placement === 'section_start' || placement === 'section_end') && target.type !== 'heading') {
+    return {
+      success: false,
+      html: `<div class="error-message">Placement "${placement}" requires a heading target. Address the section heading instead.</div>`
+    };
+  }
+
+  let insertAt: number;
+  if (placement === 'before') {
+    insertAt = target.start;
+  } else if (placement === 'after') {
+    insertAt = getBlockRange(blocks, target, 'block').to;
+  } else if (placement === 'section_start') {
+    insertAt = getBlockRange(blocks, target, 'block').to;
+  } else {
+    const headingIndex = blocks.findIndex((b) => b.id === target.id);
+    const endIndex = findSectionEndIndex(blocks, headingIndex);
+    insertAt = endIndex < blocks.length ? blocks[endIndex].start : ctx.content.length;
+  }
+
+  const beforeLength = ctx.content.length;
+  ctx.content = spliceBlocks(ctx.content, insertAt, insertAt, normalizedContent);
+  const insertedLength = ctx.content.length - beforeLength;
+  const insertedStart = ctx.content.indexOf(normalizedContent, Math.max(0, insertAt - 1));
+  const insertedBlock = findBlockAt(ctx.content, insertedStart === -1 ? insertAt : insertedStart);
+
+  const result = {
+    success: true,
+    reason,
+    inserted_length: insertedLength,
+    placement,
+    target: { id: target.id, path: target.path },
+    block: insertedBlock ? describeBlock(insertedBlock) : null,
+    html: `<div class="tool-success">Inserted new content ${placement.replace('_', ' ')} <b>${target.path}</b>.</div>`,
+    position: { from: insertAt, to: insertAt + insertedLength },
+    range: {
+      before: { from: insertAt, to: insertAt },
+      after: { from: insertAt, to: insertAt + insertedLength }
+    },
+    insertedContent: normalizedContent,
+    operation: 'insert_document_block'
+  };
+
+  logToolUsage('insert_document_block', { blockId, path, placement, content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
+};
+
+export const replace_document_block = async ({ blockId, path, scope = 'block', content, reason }: BlockToolArgs): Promise<ToolResult> => {
+  const ctx = session();
+  if (typeof content !== 'string' || !content.trim().length) {
+    return {
+      success: false,
+      html: `<div class="error-message">Sorry, no content was provided to replace. Please try again.</div>`
+    };
+  }
+  const normalizedContent = normalizeContentToHtml(content);
+  if (!normalizedContent.length) {
+    return {
+      success: false,
+      html: `<div class="error-message">Sorry, the provided content could not be converted to a valid format.</div>`
+    };
+  }
+
+  await refreshCurrentDocument();
+
+  const blocks = parseDocumentBlocks(ctx.content);
+  const resolved = resolveBlockTarget(blocks, { blockId, path });
+  if (!resolved.success) {
+    return blockTargetError(resolved.error);
+  }
+  const target = resolved.block;
+  const range = getBlockRange(blocks, target, scope === 'section' ? 'section' : 'block');
+  const removedSegment = ctx.content.slice(range.from, range.to);
+
+  const beforeLength = ctx.content.length;
+  ctx.content = spliceBlocks(ctx.content, range.from, range.to, normalizedContent);
+  const afterTo = range.to + (ctx.content.length - beforeLength);
+  const replacement = findBlockAt(ctx.content, range.from);
+
+  const result = {
+    success: true,
+    reason,
+    scope,
+    removed_length: removedSegment.length,
+    inserted_length: normalizedContent.length,
+    target: { id: target.id, path: target.path },
+    block: replacement ? describeBlock(replacement) : null,
+    html: `<div class="tool-success">Replaced <b>${target.path}</b> with new content.</div>`,
+    position: { from: range.from, to: afterTo },
+    range: {
+      before: { from: range.from, to: range.to },
+      after: { from: range.from, to: afterTo }
+    },
+    insertedContent: normalizedContent,
+    removedContent: removedSegment,
+    operation: 'replace_document_block'
+  };
+
+  logToolUsage('replace_document_block', { blockId, path, scope, content, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
+};
+
+export const remove_document_block = async ({ blockId, path, scope = 'block', reason }: BlockToolArgs): Promise<ToolResult> => {
+  const ctx = session();
+  await refreshCurrentDocument();
+
+  const blocks = parseDocumentBlocks(ctx.content);
+  const resolved = resolveBlockTarget(blocks, { blockId, path });
+  if (!resolved.success) {
+    return blockTargetError(resolved.error);
+  }
+  const target = resolved.block;
+  const range = getBlockRange(blocks, target, scope === 'section' ? 'section' : 'block');
+  const removedSegment = ctx.content.slice(range.from, range.to);
+
+  ctx.content = spliceBlocks(ctx.content, range.from, range.to, '');
+
+  const result = {
+    success: true,
+    reason,
+    scope,
+    removed_length: removedSegment.length,
+    target: { id: target.id, path: target.path },
+    html: `<div class="tool-success">Removed <b>${target.path}</b> from your document.</div>`,
+    position: { from: range.from, to: range.from },
+    range: {
+      before: { from: range.from, to: range.to },
+      after: { from: range.from, to: range.from }
+    },
+    removedContent: removedSegment,
+    operation: 'remove_document_block'
+  };
+
+  logToolUsage('remove_document_block', { blockId, path, scope, reason }, result, ctx.documentId);
+  const synced = await syncToFirebase();
+  return synced.conflict ? synced : result;
+};
+
+// ============================================================================
+// TRANSACTIONAL TOOL BATCHES
+// Run several tools against a working copy, then persist once or discard
+// ============================================================================
+
+interface ToolOperation {
+  tool: string;
+  args?: Record<string, unknown>;
+}
+
+// What a tool returns; the rest of the shape depends on the tool
+export interface ToolResult {
+  success?: boolean;
+  html?: string;
+  error?: string;
+  operation?: string;
+  [key: string]: unknown;
+}
+
+// Returned by the transaction functions and sent as-is by /api/tools/batch
+export interface ToolBatchResult {
+  success: boolean;
+  transactionId?: string;
+  notFound?: boolean;
+  conflict?: boolean;
+  changed?: boolean;
+  version?: number;
+  results?: Array<{ tool: string; args: Record<string, unknown>; result: ToolResult }>;
+  html?: string;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// Shared by every function instance: the browser's begin, apply and commit arrive as separate requests
+interface ToolTransactionRecord {
+  Document_Id: string;
+  User_Id: string | null;
+  Base_Hash: string;
+  Base_Unbalanced: number;
+  // Working copy, stored like a DocumentHistory entry (large copies as chunk references)
+  Content: string;
+  Chunked?: boolean;
+  Chunk_Ids?: string[];
+  Content_Length?: number;
+  Operations: Array<{ tool: string; summary: string; timestamp: string }>;
+  Created_Time: admin.firestore.Timestamp;
+  Last_Activity: admin.firestore.Timestamp;
+  Expire_Time: admin.firestore.Timestamp;
+}
+
+type WorkingCopyField = 'Content' | 'Chunked' | 'Chunk_Ids' | 'Content_Length';
+
+interface LoadedTransaction {
+  id: string;
+  ref: admin.firestore.DocumentReference;
+  updateTime: admin.firestore.Timestamp;
+  record: ToolTransactionRecord;
+  workingContent: string;
+}
+
+const TOOL_TRANSACTIONS = 'ToolTransactions';
+const TRANSACTION_TTL_MS = 15 * 60 * 1000;
+
+// Summary tools write straight to Firestore, so they can't be deferred
+const NON_TRANSACTIONAL_TOOLS = new Set([
+  'append_document_summary',
+  'insert_document_summary',
+  'replace_doument_summary',
+  'remove_document_summary'
+]);
+
+const transactionBlockTags = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'ul', 'ol', 'li', 'div', 'table', 'blockquote', 'pre'];
+
+// Count open/close mismatches for block tags so commits can't introduce broken markup
+const countUnbalancedTags = (html: string): number => {
+  let unbalanced = 0;
+  for (const tag of transactionBlockTags) {
+    const opens = (html.match(new RegExp(`<${tag}\\b[^>]*>`, 'gi')) || []).length;
+    const closes = (html.match(new RegExp(`</${tag}>`, 'gi')) || []).length;
+    unbalanced += Math.abs(opens - closes);
+  }
+  return unbalanced;
+};
+
+const transactionsDb = (): admin.firestore.Firestore => {
+  if (!firestore) {
+    throw new Error('Firestore not initialized in toolService');
+  }
+  return firestore;
+};
+
+const expiresAt = (from: number) => admin.firestore.Timestamp.fromMillis(from + TRANSACTION_TTL_MS);
+
+// Abandoned transactions; a Firestore TTL policy on Expire_Time removes any this misses
+const purgeExpiredTransactions = async (db: admin.firestore.Firestore): Promise<void> => {
+  const expired = await db.collection(TOOL_TRANSACTIONS)
+    .where('Expire_Time', '<', admin.firestore.Timestamp.now())
+    .limit(50)
+    .get();
+  await Promise.all(expired.docs.map(async (doc) => {
+    await doc.ref.delete();
+    logger.info(`⌛ Discarded expired transaction ${doc.id} for ${doc.data().Document_Id}`);
+  }));
+};
+
+const loadTransaction = async (transactionId: string): Promise<LoadedTransaction | null> => {
+  if (!/^tx_[\w-]+$/.test(transactionId || '')) {
+    return null;
+  }
+  const db = transactionsDb();
+  const ref = db.collection(TOOL_TRANSACTIONS).doc(transactionId);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return null;
+  }
+  const record = snap.data() as ToolTransactionRecord;
+  if (record.Expire_Time.toMillis() < Date.now()) {
+    await ref.delete();
+    return null;
+  }
+  return {
+    id: transactionId,
+    ref,
+    updateTime: snap.updateTime!,
+    record,
+    workingContent: await readHistoryContent(db, record)
+  };
+};
+
+const transactionNotFound = (transactionId: string) => ({
+  success: false,
+  notFound: true,
+  transactionId,
+  error: 'Transaction not found or expired',
+  html: `<div class="error-message">Sorry, this editing session has expired. Please try again.</div>`
+});
+
+// Another request applied to or closed the transaction while this one was running
+const transactionBusy = (transactionId: string) => ({
+  success: false,
+  conflict: true,
+  transactionId,
+  error: 'Transaction changed by another request',
+  html: `<div class="error-message">Sorry, another edit to this batch was running at the same time. Please try again.</div>`
+});
+
+// gRPC FAILED_PRECONDITION (stale lastUpdateTime) or NOT_FOUND (deleted meanwhile)
+const isPreconditionFailure = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === 9 || code === 5;
+};
+
+export const beginToolTransaction = async (documentId: string, userId: string | null = null): Promise<ToolBatchResult> => {
+  if (!documentId) {
+    return {
+      success: false,
+      html: `<div class="error-message">Sorry, a document is required to start a batch of edits.</div>`
+    };
+  }
+
+  const db = transactionsDb();
+  await purgeExpiredTransactions(db);
+  const loaded = await openToolSession({ documentId, userId });
+
+  const now = Date.now();
+  const ref = db.collection(TOOL_TRANSACTIONS).doc(`tx_${crypto.randomUUID()}`);
+  const batch = db.batch();
+  const fields: Omit<ToolTransactionRecord, WorkingCopyField> = {
+    Document_Id: documentId,
+    User_Id: userId,
+    Base_Hash: hashContent(loaded.content),
+    Base_Unbalanced: countUnbalancedTags(loaded.content),
+    Operations: [],
+    Created_Time: admin.firestore.Timestamp.fromMillis(now),
+    Last_Activity: admin.firestore.Timestamp.fromMillis(now),
+    Expire_Time: expiresAt(now)
+  };
+  batch.set(ref, { ...fields, ...buildHistoryContent(batch, db, documentId, loaded.content) });
+  await batch.commit();
+
+  logger.info(`🧾 Transaction ${ref.id} started for ${documentId}`);
+  return { success: true, transactionId: ref.id, documentId, length: loaded.content.length };
+};
+
+// Apply operations to the working copy. A failing operation discards every change from this call.
+export const applyToolTransaction = async (transactionId: string, operations: ToolOperation[]): Promise<ToolBatchResult> => {
+  const tx = await loadTransaction(transactionId);
+  if (!tx) {
+    return transactionNotFound(transactionId);
+  }
+  const documentId = tx.record.Document_Id;
+
+  for (const op of operations) {
+    if (NON_TRANSACTIONAL_TOOLS.has(op?.tool)) {
+      return {
+        success: false,
+        transactionId,
+        tool: op.tool,
+        html: `<div class="error-message">The tool "${op.tool}" can't be used inside a batch of edits.</div>`
+      };
+    }
+    if (op?.args?.documentId && op.args.documentId !== documentId) {
+      return {
+        success: false,
+        transactionId,
+        tool: op.tool,
+        html: `<div class="error-message">A batch of edits can only change the document it was started on.</div>`
+      };
+    }
+  }
+
+  // Operations run against a throwaway session seeded from the working copy
+  const ctx = createToolSession({ documentId, userId: tx.record.User_Id, content: tx.workingContent });
+  ctx.transactionId = tx.id;
+
+  const results: ToolBatchResult['results'] = [];
+  let failedIndex = -1;
+
+  for (let i = 0; i < operations.length; i++) {
+    const { tool, args = {} } = operations[i];
+    const result = await executeTool(tool, args, ctx);
+    results.push({ tool, args, result });
+    if (!result?.success) {
+      failedIndex = i;
+      break;
+    }
+  }
+
+  const db = transactionsDb();
+  const now = Date.now();
+  const batch = db.batch();
+  const recorded = [
+    ...(tx.record.Operations || []),
+    ...results.map(({ tool, result }) => ({ tool, summary: getResultSummary(tool, result), timestamp: new Date().toISOString() }))
+  ];
+  const update: admin.firestore.DocumentData = {
+    Last_Activity: admin.firestore.Timestamp.fromMillis(now),
+    Expire_Time: expiresAt(now)
+  };
+  if (failedIndex === -1) {
+    Object.assign(update, {
+      Content: '',
+      Chunked: admin.firestore.FieldValue.delete(),
+      Chunk_Ids: admin.firestore.FieldValue.delete(),
+      Content_Length: admin.firestore.FieldValue.delete(),
+      ...buildHistoryContent(batch, db, documentId, ctx.content),
+      Operations: recorded
+    });
+  }
+  // Only if no other request wrote the transaction since it was loaded
+  batch.update(tx.ref, update, { lastUpdateTime: tx.updateTime });
+  try {
+    await batch.commit();
+  } catch (error) {
+    if (isPreconditionFailure(error)) {
+      return transactionBusy(transactionId);
+    }
+    throw error;
+  }
+
+  if (failedIndex !== -1) {
+    logger.info(`↩️ Transaction ${tx.id}: operation ${failedIndex + 1} (${operations[failedIndex].tool}) failed, batch discarded`);
+    return {
+      success: false,
+      transactionId,
+      failedIndex,
+      results,
+      html: results[failedIndex]?.result?.html || `<div class="error-message">Sorry, one of the edits failed, so none of them were applied.</div>`
+    };
+  }
+
+  return {
+    success: true,
+    transactionId,
+    results,
+    pending_operations: recorded.length,
+    length: ctx.content.length
+  };
+};
+
+// Validate the working copy and write it with a single DocumentHistory entry
+export const commitToolTransaction = async (transactionId: string, { editedBy }: { editedBy?: string } = {}): Promise<ToolBatchResult> => {
+  const tx = await loadTransaction(transactionId);
+  if (!tx) {
+    return transactionNotFound(transactionId);
+  }
+  const db = transactionsDb();
+  const { record, workingContent } = tx;
+  const operations = record.Operations || [];
+  const workingHash = hashContent(workingContent);
+
+  if (workingHash === record.Base_Hash) {
+    await tx.ref.delete();
+    logger.info(`🧾 Transaction ${tx.id} committed with no changes`);
+    return { success: true, transactionId, changed: false, operations: operations.length };
+  }
+
+  if (countUnbalancedTags(workingContent) > record.Base_Unbalanced) {
+    return {
+      success: false,
+      transactionId,
+      error: 'Validation failed: unbalanced block tags',
+      html: `<div class="error-message">Sorry, these edits would leave the document with broken formatting, so they weren't saved.</div>`
+    };
+  }
+
+  const docRef = db.collection('Documents').doc(record.Document_Id);
+  let conflict = false;
+  let closed = false;
+  let newVersion = 0;
+
+  await db.runTransaction(async (t) => {
+    const [docSnap, txSnap] = await t.getAll(docRef, tx.ref);
+    // Committed, rolled back or applied to by another request since it was loaded
+    if (!txSnap.exists || !txSnap.updateTime?.isEqual(tx.updateTime)) {
+      closed = true;
+      return;
+    }
+    if (!docSnap.exists) {
+      throw new Error(`Document ${record.Document_Id} not found in Firestore collection`);
+    }
+
+    const docData = docSnap.data() || {};
+    if (hashContent(await readDocumentContent(db, record.Document_Id, docData, t)) !== record.Base_Hash) {
+      conflict = true;
+      t.delete(tx.ref);
+      return;
+    }
+
+    newVersion = (docData.version || 0) + 1;
+    const author = editedBy || record.User_Id || 'ai-agent';
+    const contentWrite = buildContentWrite(t, db, record.Document_Id, workingContent, docData);
+
+    t.update(docRef, {
+      ...contentWrite,
+      Hash: workingHash,
+      Updated_Time: admin.firestore.FieldValue.serverTimestamp(),
+      version: newVersion,
+      EditedBy: author
+    });
+    t.set(db.collection('DocumentHistory').doc(), {
+      Document_Id: record.Document_Id,
+      // Chunks written for the document above are referenced, not written again
+      ...buildHistoryContent(t, db, record.Document_Id, workingContent, contentWrite),
+      Version: newVersion,
+      Edited_Time: admin.firestore.Timestamp.now(),
+      EditedBy: author,
+      Channel: 'content',
+      Operations: operations
+    });
+    t.delete(tx.ref);
+  });
+
+  if (closed) {
+    return transactionBusy(transactionId);
+  }
+
+  if (conflict) {
+    logger.info(`⚠️ Transaction ${tx.id} rejected: ${record.Document_Id} changed since it started`);
+    return {
+      success: false,
+      conflict: true,
+      transactionId,
+      html: `<div class="error-message">The document was changed by someone else while these edits were being made, so they weren't saved. Please try again.</div>`
+    };
+  }
+
+  await recordToolAudit(db, {
+    tool: 'commit_transaction',
+    documentId: record.Document_Id,
+    userId: record.User_Id,
+    sessionId: null,
+    transactionId: tx.id,
+    args: { editedBy: editedBy || null, operations: operations.map((op) => op.tool) },
+    beforeHash: record.Base_Hash,
+    afterHash: workingHash,
+    success: true,
+    operation: 'commit_transaction',
+    summary: `Committed ${operations.length} operations as version ${newVersion}`
+  });
+
+  logger.info(`💾 Transaction ${tx.id} committed ${operations.length} operations to ${record.Document_Id} (v${newVersion})`);
+  return {
+    success: true,
+    transactionId,
+    changed: true,
+    version: newVersion,
+    operations: operations.length,
+    length: workingContent.length
+  };
+};
+
+export const rollbackToolTransaction = async (transactionId: string): Promise<ToolBatchResult> => {
+  const ref = transactionsDb().collection(TOOL_TRANSACTIONS).doc(transactionId);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return transactionNotFound(transactionId);
+  }
+
+  await ref.delete();
+
+  const discarded = (snap.data() as ToolTransactionRecord).Operations?.length || 0;
+  logger.info(`↩️ Transaction ${transactionId} rolled back (${discarded} operations discarded)`);
+  return { success: true, transactionId, discarded };
+};
+
+// One-shot batch: begin, apply every operation, then commit or roll back
+export const executeToolBatch = async (
+  documentId: string,
+  operations: ToolOperation[],
+  options: { editedBy?: string; userId?: string | null } = {}
+): Promise<ToolBatchResult> => {
+  const begun = await beginToolTransaction(documentId, options.userId || null);
+  if (!begun.success) {
+    return begun;
+  }
+
+  const applied = await applyToolTransaction(begun.transactionId, operations);
+  if (!applied.success) {
+    await rollbackToolTransaction(begun.transactionId);
+    return { ...applied, committed: false };
+  }
+
+  const committed = await commitToolTransaction(begun.transactionId, options);
+  if (!committed.success) {
+    await rollbackToolTransaction(begun.transactionId);
+  }
+  return { ...committed, results: applied.results, committed: committed.success };
+};
+
 // Helper functions for testing
 export const setDocumentContent = (content: string): void => {
-  currentDocumentContent = content;
+  const ctx = session();
+  ctx.content = content;
 };
 
 export const resetDocument = (): void => {
-  currentDocumentId = null;
-  currentDocumentContent = '';
+  const ctx = session();
+  ctx.documentId = null;
+  ctx.content = '';
+  ctx.transactionId = null;
 };
 
 // Parse GitHub repository link to extract owner and repo
@@ -1287,6 +2106,82 @@ export const get_repo_structure = async ({ repoLink, branch = 'main', reason }:
 };
 
 // Tool: Get repository commits
+const ANALYSIS_SECTIONS = ['routes', 'cliCommands', 'envVars', 'functions', 'classes'] as const;
+const MAX_TOOL_ANALYSIS_ITEMS = 150;
+
+interface AnalyzeRepoCodeArgs {
+  repoLink: string;
+  branch?: unknown;
+  include?: unknown;
+  path?: unknown;
+  reason?: string;
+}
+
+export const analyze_repo_code = async ({ repoLink, branch, include, path, reason }: AnalyzeRepoCodeArgs): Promise<ToolResult> => {
+  logger.info(`🔬 analyze_repo_code called: ${repoLink} (branch: ${branch || 'default'})`);
+
+  try {
+    if (!firestore) {
+      throw new Error('Firestore is not initialized');
+    }
+
+    const { owner, repo } = parseGitHubRepo(repoLink);
+    const userId = getToolSession()?.userId;
+    const token = userId ? await readGitHubToken(firestore, userId) : null;
+    const model = await analyzeRepository(firestore, {
+      type: 'github',
+      owner,
+      repo,
+      ref: typeof branch === 'string' && branch.trim() ? branch.trim() : null,
+      token
+    });
+
+    const pathPrefix = typeof path === 'string' && path.trim() ? path.trim().replace(/^\/+/, '') : '';
+    const sections = Array.isArray(include) && include.length > 0
+      ? ANALYSIS_SECTIONS.filter((section) => include.includes(section))
+      : ANALYSIS_SECTIONS;
+    const inPath = (filePath: string) => !pathPrefix || filePath.startsWith(pathPrefix);
+
+    const lists: Record<string, unknown[]> = {};
+    const counts: Record<string, number> = {};
+    let listsCapped = false;
+    for (const section of sections) {
+      const items: unknown[] = section === 'envVars'
+        ? model.envVars.filter((item) => item.locations.some((location) => inPath(location.path)))
+        : (model[section] as Array<{ path: string }>).filter((item) => inPath(item.path));
+      counts[section] = items.length;
+      lists[section] = items.slice(0, MAX_TOOL_ANALYSIS_ITEMS);
+      listsCapped = listsCapped || items.length > MAX_TOOL_ANALYSIS_ITEMS;
+    }
+
+    const result = {
+      success: true,
+      reason,
+      operation: 'analyze_repo_code',
+      owner,
+      repo,
+      revision: model.revision,
+      languages: model.languages,
+      fileCount: model.fileCount,
+      counts,
+      ...lists,
+      // Capped by the analyzer or here; narrow with `path` or `include` to see the rest
+      truncated: model.truncated || listsCapped
+    };
+
+    logToolUsage('analyze_repo_code', { repoLink, branch, include, path, reason }, result);
+    return result;
+
+  } catch (error) {
+    logger.error('❌ Error analyzing repo code:', error);
+    return {
+      success: false,
+      reason,
+      error: error instanceof Error ? error.message : 'Failed to analyze repository code'
+    };
+  }
+};
+
 export const get_repo_commits = async ({ repoLink, branch = 'main', page = 1, per_page = 5, reason }: any): Promise<any> => {
   logger.info(`📜 get_repo_commits called: ${repoLink} (branch hint: ${branch || 'default'}, page: ${page})`);
 
@@ -1347,6 +2242,86 @@ export const get_repo_commits = async ({ repoLink, branch = 'main', page = 1, pe
   }
 };
 
+const MAX_TOOL_CHUNK_CHARS = 1500;
+
+interface SearchRepoCodeArgs {
+  repoLink: string;
+  query?: unknown;
+  limit?: number | string;
+  path?: unknown;
+  reason?: string;
+}
+
+// Tool: Semantic search over the repository's code index, indexing it first when needed
+export const search_repo_code = async ({ repoLink, query, limit = 8, path, reason }: SearchRepoCodeArgs): Promise<ToolResult> => {
+  logger.info(`🔎 search_repo_code called: ${repoLink} ("${query}")`);
+
+  try {
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new Error('query is required: describe the code you are looking for');
+    }
+    if (!firestore) {
+      throw new Error('Firestore is not initialized');
+    }
+
+    // Indexing embeds the whole repository, so it needs a signed-in caller within quota
+    // who can read the repository with their own GitHub token
+    const { owner, repo } = parseGitHubRepo(repoLink);
+    const userId = getToolSession()?.userId;
+    if (!userId) {
+      throw new Error('Sign in to search repository code');
+    }
+    const quota = await checkUsageQuota(firestore, { userId });
+    if (!quota.allowed) {
+      throw new Error(quota.message || 'Usage quota exceeded');
+    }
+    const token = await readGitHubToken(firestore, userId);
+    try {
+      await resolveRevision({ type: 'github', owner, repo, token });
+    } catch {
+      throw new Error(`Repository ${owner}/${repo} was not found or you don't have access to it`);
+    }
+    const index = await indexRepository(firestore, { type: 'github', owner, repo, token });
+    if (!index.revision) {
+      throw new Error(`The code index for ${owner}/${repo} is still being built. Try again in a few minutes.`);
+    }
+
+    const results = await searchCodeIndex(firestore, codeIndexId({ type: 'github', owner, repo }), query, {
+      limit: Math.min(Math.max(parseInt(String(limit), 10) || 8, 1), 20),
+      pathPrefix: typeof path === 'string' && path.trim() ? path.trim().replace(/^\/+/, '') : undefined
+    });
+
+    const result = {
+      success: true,
+      reason,
+      operation: 'search_repo_code',
+      owner,
+      repo,
+      revision: index.revision,
+      query,
+      resultsCount: results.length,
+      results: results.map((item) => ({
+        ...item,
+        content: item.content.length > MAX_TOOL_CHUNK_CHARS
+          ? `${item.content.substring(0, MAX_TOOL_CHUNK_CHARS)}\n... (truncated)`
+          : item.content
+      }))
+    };
+
+    logToolUsage('search_repo_code', { repoLink, query, limit, path, reason }, result);
+    return result;
+
+  } catch (error) {
+    logger.error('❌ Error searching repo code:', error);
+    return {
+      success: false,
+      reason,
+      error: error instanceof Error ? error.message : 'Failed to search repository code',
+      results: []
+    };
+  }
+};
+
 // Assign the toolMap now that all functions are declared
 toolMap = {
   'get_document_content': get_document_content,
@@ -1359,6 +2334,11 @@ toolMap = {
   'replace_all_document_content': replace_all_document_content,
   'replace_document_section': replace_document_section,
   'remove_document_content': remove_document_content,
+  'get_document_outline': get_document_outline,
+  'get_document_block': get_document_block,
+  'insert_document_block': insert_document_block,
+  'replace_document_block': replace_document_block,
+  'remove_document_block': remove_document_block,
   'append_document_summary': append_document_summary,
   'insert_document_summary': insert_document_summary,
   'replace_doument_summary': replace_doument_summary,
@@ -1367,17 +2347,20 @@ toolMap = {
   'get_all_documents_metadata_within_project': get_all_documents_metadata_within_project,
   'get_document_summary': get_document_summary,
   'get_repo_structure': get_repo_structure,
+  'analyze_repo_code': analyze_repo_code,
   'get_repo_commits': get_repo_commits,
+  'search_repo_code': search_repo_code,
 };
 
 // Helper to find matching closing tag index for a given tag name starting after a given index.
 // Returns the index of the '<' for the matching closing tag, or -1 if not found.
 const findMatchingClosingTag = (tagName: string, startIndex: number): number => {
+  const ctx = session();
   const regex = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'ig');
   regex.lastIndex = startIndex;
   let depth = 0;
   let match: RegExpExecArray | null;
-  while ((match = regex.exec(currentDocumentContent)) !== null) {
+  while ((match = regex.exec(ctx.content)) !== null) {
     const isClosing = match[1] === '/';
     if (!isClosing) {
       // Opening same tag
@@ -1391,7 +2374,7 @@ const findMatchingClosingTag = (tagName: string, startIndex: number): number =>
       depth -= 1;
     }
     // guard against runaway loops
-    if (regex.lastIndex > currentDocumentContent.length) break;
+    if (regex.lastIndex > ctx.content.length) break;
   }
   return -1;
 };
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * Tool Sessions
+ * Carries the document a tool call works on, so concurrent requests on the
+ * same function instance never share document state
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+
+export interface ToolSession {
+  id: string;
+  documentId: string | null;
+  userId: string | null;
+  content: string; // Working copy of the document content
+  version: number | null; // Documents.version the working copy is based on; stale syncs are rejected
+  transactionId: string | null; // Set while a transaction runs; Firestore writes are deferred
+}
+
+const sessionStorage = new AsyncLocalStorage<ToolSession>();
+
+export const createToolSession = ({
+  documentId = null,
+  userId = null,
+  content = ''
+}: { documentId?: string | null; userId?: string | null; content?: string } = {}): ToolSession => ({
+  id: `ses_${crypto.randomUUID()}`,
+  documentId,
+  userId,
+  content,
+  version: null,
+  transactionId: null
+});
+
+// Run fn with session as the active tool session for every await inside it
+export const runInToolSession = <T>(session: ToolSession, fn: () => Promise<T>): Promise<T> => {
+  return sessionStorage.run(session, fn);
+};
+
+export const getToolSession = (): ToolSession | undefined => {
+  return sessionStorage.getStore();
+};
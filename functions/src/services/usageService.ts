@@ -0,0 +1,311 @@
+/**
+ * Usage Accounting
+ * Attributes every generation to the user and project that triggered it,
+ * keeps monthly totals for quota checks and estimates cost per model
+ */
+
+import * as admin from 'firebase-admin';
+import * as logger from 'firebase-functions/logger';
+
+export const USAGE_LEDGER_COLLECTION = 'UsageLedger';
+export const USAGE_MONTHLY_COLLECTION = 'UsageMonthly';
+
+export type UsageFeature = 'generate' | 'agent' | 'template' | 'recommendations' | 'tools';
+
+export interface UsageEntry {
+  userId: string | null;
+  projectId: string | null;
+  documentId: string | null;
+  feature: UsageFeature;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  requests?: number;
+}
+
+export interface QuotaLimits {
+  tokens: number | null; // null = unlimited
+  requests: number | null;
+  cost: number | null; // USD
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  scope?: 'user' | 'project';
+  metric?: 'tokens' | 'requests' | 'cost';
+  limit?: number;
+  used?: number;
+  resetsAt: string;
+  message?: string;
+}
+
+// USD per 1M tokens. Self-hosted and mock models are free unless LLM_PRICING_JSON says otherwise.
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 }
+};
+
+const readPricing = (): Record<string, { input: number; output: number }> => {
+  if (!process.env.LLM_PRICING_JSON) {
+    return DEFAULT_PRICING;
+  }
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.LLM_PRICING_JSON) };
+  } catch (error) {
+    logger.error('⚠️ Invalid LLM_PRICING_JSON, using default pricing:', error);
+    return DEFAULT_PRICING;
+  }
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = readPricing()[model];
+  if (!price) {
+    return 0;
+  }
+  const cost = (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+};
+
+// Months are UTC so every instance agrees on when a quota resets
+export const currentMonth = (date = new Date()): string => date.toISOString().slice(0, 7);
+
+const monthStart = (month: string): Date => new Date(`${month}-01T00:00:00.000Z`);
+
+const nextMonthStart = (month: string): Date => {
+  const start = monthStart(month);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+};
+
+const monthlyDocId = (scope: 'user' | 'project', id: string, month: string): string => `${scope}_${id}_${month}`;
+
+const parseLimit = (value: unknown): number | null => {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+};
+
+// Defaults come from the environment; a Usage_Quota map on the user or project overrides them
+const defaultLimits = (scope: 'user' | 'project'): QuotaLimits => {
+  const prefix = scope === 'user' ? 'USAGE_USER' : 'USAGE_PROJECT';
+  return {
+    tokens: parseLimit(process.env[`${prefix}_MONTHLY_TOKENS`] ?? (scope === 'user' ? 2_000_000 : null)),
+    requests: parseLimit(process.env[`${prefix}_MONTHLY_REQUESTS`]),
+    cost: parseLimit(process.env[`${prefix}_MONTHLY_COST_USD`])
+  };
+};
+
+const readLimits = (scope: 'user' | 'project', data: admin.firestore.DocumentData | undefined): QuotaLimits => {
+  const defaults = defaultLimits(scope);
+  const override = data?.Usage_Quota || {};
+  return {
+    tokens: override.Tokens !== undefined ? parseLimit(override.Tokens) : defaults.tokens,
+    requests: override.Requests !== undefined ? parseLimit(override.Requests) : defaults.requests,
+    cost: override.Cost_USD !== undefined ? parseLimit(override.Cost_USD) : defaults.cost
+  };
+};
+
+const loadUserLimits = async (firestore: admin.firestore.Firestore, userId: string): Promise<QuotaLimits> => {
+  const snap = await firestore.collection('Users').doc(userId).get();
+  return readLimits('user', snap.data());
+};
+
+const loadProjectLimits = async (firestore: admin.firestore.Firestore, projectId: string): Promise<QuotaLimits> => {
+  const snapshot = await firestore.collection('Projects').where('Project_Id', '==', projectId).limit(1).get();
+  return readLimits('project', snapshot.empty ? undefined : snapshot.docs[0].data());
+};
+
+const readTotals = (data: admin.firestore.DocumentData | undefined) => ({
+  inputTokens: data?.Input_Tokens || 0,
+  outputTokens: data?.Output_Tokens || 0,
+  totalTokens: (data?.Input_Tokens || 0) + (data?.Output_Tokens || 0),
+  requests: data?.Requests || 0,
+  estimatedCost: data?.Estimated_Cost || 0
+});
+
+// Look up the project a document belongs to when only the document is known
+export const resolveUsageProjectId = async (
+  firestore: admin.firestore.Firestore,
+  { projectId, documentId }: { projectId?: string | null; documentId?: string | null }
+): Promise<string | null> => {
+  if (projectId) {
+    return projectId;
+  }
+  if (!documentId) {
+    return null;
+  }
+  try {
+    const snap = await firestore.collection('Documents').doc(documentId).get();
+    return snap.data()?.Project_Id || null;
+  } catch (error) {
+    logger.error(`⚠️ Could not resolve project for document ${documentId}:`, error);
+    return null;
+  }
+};
+
+const exceeded = (
+  limits: QuotaLimits,
+  totals: ReturnType<typeof readTotals>
+): Pick<QuotaCheck, 'metric' | 'limit' | 'used'> | null => {
+  if (limits.tokens !== null && totals.totalTokens >= limits.tokens) {
+    return { metric: 'tokens', limit: limits.tokens, used: totals.totalTokens };
+  }
+  if (limits.requests !== null && totals.requests >= limits.requests) {
+    return { metric: 'requests', limit: limits.requests, used: totals.requests };
+  }
+  if (limits.cost !== null && totals.estimatedCost >= limits.cost) {
+    return { metric: 'cost', limit: limits.cost, used: totals.estimatedCost };
+  }
+  return null;
+};
+
+const quotaMessage = (scope: 'user' | 'project', metric: string, limit: number, resetsAt: Date): string => {
+  const owner = scope === 'user' ? 'You have' : 'This project has';
+  const amount = metric === 'cost' ? `$${limit.toFixed(2)} of AI usage` : `${limit.toLocaleString('en-US')} AI ${metric}`;
+  const resets = resetsAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+  return `${owner} used the monthly limit of ${amount}. It resets on ${resets}.`;
+};
+
+/**
+ * Check the user's and project's monthly totals against their quotas.
+ * Quota lookups that fail let the request through rather than blocking generation.
+ */
+export const checkUsageQuota = async (
+  firestore: admin.firestore.Firestore,
+  { userId, projectId }: { userId?: string | null; projectId?: string | null }
+): Promise<QuotaCheck> => {
+  const month = currentMonth();
+  const resetsAt = nextMonthStart(month);
+  const monthly = firestore.collection(USAGE_MONTHLY_COLLECTION);
+
+  try {
+    const scopes: Array<{ scope: 'user' | 'project'; id: string; limits: Promise<QuotaLimits> }> = [];
+    if (userId) {
+      scopes.push({ scope: 'user', id: userId, limits: loadUserLimits(firestore, userId) });
+    }
+    if (projectId) {
+      scopes.push({ scope: 'project', id: projectId, limits: loadProjectLimits(firestore, projectId) });
+    }
+
+    for (const { scope, id, limits } of scopes) {
+      const totalsSnap = await monthly.doc(monthlyDocId(scope, id, month)).get();
+      const over = exceeded(await limits, readTotals(totalsSnap.data()));
+      if (over) {
+        return {
+          allowed: false,
+          scope,
+          ...over,
+          resetsAt: resetsAt.toISOString(),
+          message: quotaMessage(scope, over.metric as string, over.limit as number, resetsAt)
+        };
+      }
+    }
+  } catch (error) {
+    logger.error('⚠️ Usage quota check failed, allowing request:', error);
+  }
+
+  return { allowed: true, resetsAt: resetsAt.toISOString() };
+};
+
+// Usage failures are logged but never fail the generation itself
+export const recordUsage = async (firestore: admin.firestore.Firestore | null, entry: UsageEntry): Promise<void> => {
+  if (!firestore) {
+    return;
+  }
+
+  const month = currentMonth();
+  const inputTokens = Math.max(0, Math.round(entry.inputTokens || 0));
+  const outputTokens = Math.max(0, Math.round(entry.outputTokens || 0));
+  const requests = entry.requests ?? 1;
+  const estimatedCost = estimateCost(entry.model, inputTokens, outputTokens);
+  const now = admin.firestore.Timestamp.now();
+
+  const increment = (scope: 'user' | 'project', id: string) => ({
+    Scope: scope,
+    Scope_Id: id,
+    Month: month,
+    Input_Tokens: admin.firestore.FieldValue.increment(inputTokens),
+    Output_Tokens: admin.firestore.FieldValue.increment(outputTokens),
+    Requests: admin.firestore.FieldValue.increment(requests),
+    Estimated_Cost: admin.firestore.FieldValue.increment(estimatedCost),
+    Updated_Time: now
+  });
+
+  try {
+    const batch = firestore.batch();
+    batch.set(firestore.collection(USAGE_LEDGER_COLLECTION).doc(), {
+      User_Id: entry.userId,
+      Project_Id: entry.projectId,
+      Document_Id: entry.documentId,
+      Feature: entry.feature,
+      Provider: entry.provider,
+      Model: entry.model,
+      Input_Tokens: inputTokens,
+      Output_Tokens: outputTokens,
+      Requests: requests,
+      Estimated_Cost: estimatedCost,
+      Month: month,
+      Created_Time: now
+    });
+    if (entry.userId) {
+      batch.set(firestore.collection(USAGE_MONTHLY_COLLECTION).doc(monthlyDocId('user', entry.userId, month)), increment('user', entry.userId), { merge: true });
+    }
+    if (entry.projectId) {
+      batch.set(firestore.collection(USAGE_MONTHLY_COLLECTION).doc(monthlyDocId('project', entry.projectId, month)), increment('project', entry.projectId), { merge: true });
+    }
+    await batch.commit();
+  } catch (error) {
+    logger.error(`❌ Failed to record usage for ${entry.feature}:`, error);
+  }
+};
+
+/**
+ * Monthly usage for one user: totals, quota and a breakdown by feature and project
+ */
+export const getUserUsageSummary = async (
+  firestore: admin.firestore.Firestore,
+  userId: string,
+  month = currentMonth()
+): Promise<Record<string, unknown>> => {
+  const [totalsSnap, limits, ledgerSnap] = await Promise.all([
+    firestore.collection(USAGE_MONTHLY_COLLECTION).doc(monthlyDocId('user', userId, month)).get(),
+    loadUserLimits(firestore, userId),
+    firestore.collection(USAGE_LEDGER_COLLECTION)
+      .where('User_Id', '==', userId)
+      .where('Month', '==', month)
+      .get()
+  ]);
+
+  const byFeature: Record<string, ReturnType<typeof readTotals>> = {};
+  const byProject: Record<string, ReturnType<typeof readTotals>> = {};
+  const add = (bucket: Record<string, ReturnType<typeof readTotals>>, key: string, data: admin.firestore.DocumentData) => {
+    const current = bucket[key] || readTotals(undefined);
+    const totals = readTotals(data);
+    bucket[key] = {
+      inputTokens: current.inputTokens + totals.inputTokens,
+      outputTokens: current.outputTokens + totals.outputTokens,
+      totalTokens: current.totalTokens + totals.totalTokens,
+      requests: current.requests + totals.requests,
+      estimatedCost: Math.round((current.estimatedCost + totals.estimatedCost) * 1_000_000) / 1_000_000
+    };
+  };
+
+  for (const doc of ledgerSnap.docs) {
+    const data = doc.data();
+    add(byFeature, data.Feature || 'generate', data);
+    add(byProject, data.Project_Id || 'none', data);
+  }
+
+  return {
+    userId,
+    month,
+    resetsAt: nextMonthStart(month).toISOString(),
+    totals: readTotals(totalsSnap.data()),
+    quota: limits,
+    byFeature,
+    byProject
+  };
+};
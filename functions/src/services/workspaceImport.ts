@@ -0,0 +1,155 @@
+/**
+ * Workspace Import
+ * Creates a project with one document per page from a Confluence or Notion
+ * export the client has already converted to editor HTML. Pages arrive parent
+ * first; each keeps its parent as Parent_Id and its position as Sort_Order.
+ * Links between pages arrive as `import-page:{key}` hrefs and are rewritten to
+ * the new documents once every page has an ID.
+ */
+
+import * as admin from 'firebase-admin';
+import { addHistoryEntry, buildContentWrite } from './documentChunks';
+
+const MAX_IMPORTED_PAGES = 1000;
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  confluence: 'Confluence Page',
+  notion: 'Notion Page'
+};
+
+export interface ImportedPage {
+  key: string;
+  title: string;
+  parentKey: string | null;
+  html: string;
+}
+
+export interface WorkspaceImport {
+  source: string;
+  name: string;
+  description: string;
+  pages: ImportedPage[];
+}
+
+// The request body as sent; every field is checked before use
+interface WorkspaceImportBody {
+  source?: unknown;
+  name?: unknown;
+  description?: unknown;
+  pages?: unknown;
+}
+
+/**
+ * Validate an import request body, returning an error message when it is unusable
+ */
+export const parseWorkspaceImport = (body: WorkspaceImportBody | null | undefined): WorkspaceImport | string => {
+  const { source, name, description, pages } = body || {};
+  if (typeof source !== 'string' || !DOCUMENT_TYPES[source]) {
+    return 'source must be "confluence" or "notion"';
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  if (!Array.isArray(pages) || pages.length === 0) {
+    return 'pages must be a non-empty array';
+  }
+  if (pages.length > MAX_IMPORTED_PAGES) {
+    return `An import can hold at most ${MAX_IMPORTED_PAGES} pages`;
+  }
+
+  const keys = new Set<string>();
+  const imported: ImportedPage[] = [];
+  for (const page of pages as Array<Partial<ImportedPage> | null>) {
+    if (typeof page?.key !== 'string' || !page.key || keys.has(page.key)) {
+      return 'Every page needs a unique key';
+    }
+    if (typeof page.title !== 'string' || typeof page.html !== 'string') {
+      return `Page ${page.key} needs a title and html`;
+    }
+    if (page.parentKey != null && !keys.has(page.parentKey)) {
+      return `Page ${page.key} must come after its parent ${page.parentKey}`;
+    }
+    keys.add(page.key);
+    imported.push({
+      key: page.key,
+      title: page.title.trim() || 'Untitled',
+      parentKey: page.parentKey ?? null,
+      html: page.html
+    });
+  }
+
+  return {
+    source,
+    name: name.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : `Imported from ${source === 'confluence' ? 'Confluence' : 'Notion'}`,
+    pages: imported
+  };
+};
+
+// Links to pages outside the import keep their text
+const relinkPages = (html: string, documentIds: Map<string, string>): string =>
+  html.replace(/<a\b([^>]*?)\shref="import-page:([^"#]*)(#[^"]*)?"([^>]*)>([\s\S]*?)<\/a>/g, (_match, before, key, anchor, after, text) => {
+    const documentId = documentIds.get(key);
+    return documentId ? `<a${before} href="/document/${documentId}${anchor || ''}"${after}>${text}</a>` : text;
+  });
+
+/**
+ * Create the project and its documents. Returns the new project ID and document IDs by page key.
+ */
+export const importWorkspace = async (
+  db: admin.firestore.Firestore,
+  userId: string,
+  projectId: string,
+  workspace: WorkspaceImport
+): Promise<{ projectId: string; documentIds: Map<string, string> }> => {
+  await db.collection('Projects').doc(projectId).set({
+    Project_Id: projectId,
+    ProjectName: workspace.name,
+    User_Id: userId,
+    Description: workspace.description,
+    GitHubRepo: '',
+    Imported_From: workspace.source,
+    Created_Time: admin.firestore.Timestamp.now()
+  });
+
+  const refs = workspace.pages.map(() => db.collection('Documents').doc());
+  const documentIds = new Map(workspace.pages.map((page, index) => [page.key, refs[index].id]));
+  const siblingCounts = new Map<string | null, number>();
+
+  // One batch per page, since large pages add chunk writes
+  for (const [index, page] of workspace.pages.entries()) {
+    const content = relinkPages(page.html, documentIds) || '<p></p>';
+    const sortOrder = siblingCounts.get(page.parentKey) || 0;
+    siblingCounts.set(page.parentKey, sortOrder + 1);
+
+    const now = admin.firestore.Timestamp.now();
+    const batch = db.batch();
+    batch.set(refs[index], {
+      DocumentName: page.title,
+      DocumentType: DOCUMENT_TYPES[workspace.source],
+      DocumentCategory: 'General',
+      Project_Id: projectId,
+      Template_Id: null,
+      User_Id: userId,
+      Parent_Id: page.parentKey ? documentIds.get(page.parentKey) : null,
+      Sort_Order: sortOrder,
+      ...buildContentWrite(batch, db, refs[index].id, content, undefined),
+      IsDraft: false,
+      EditedBy: userId,
+      Created_Time: now,
+      Updated_Time: now,
+      Hash: null,
+      version: 1
+    });
+    await batch.commit();
+
+    await addHistoryEntry(db, refs[index].id, content, {
+      Version: 1,
+      Edited_Time: now,
+      EditedBy: userId,
+      Channel: 'content'
+    });
+  }
+
+  return { projectId, documentIds };
+};
@@ -0,0 +1,5 @@
+export function unfinished(value: string {
+  if (value) {
+    return `unterminated ${value
+export class
+const = => ;
@@ -0,0 +1,16 @@
+import { Command } from 'commander';
+
+const program = new Command();
+
+program
+  .name('docs')
+  .description('Documentation tools')
+  .option('-v, --verbose', 'Log more');
+
+program
+  .command('build <dir>')
+  .description('Build the site')
+  .option('-o, --out <path>', 'Output directory')
+  .action(() => {});
+
+program.parse();
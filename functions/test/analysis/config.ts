@@ -0,0 +1,12 @@
+export const config = {
+  port: Number(process.env.PORT || 8080),
+  apiUrl: process.env['API_URL'] ?? 'https://api.example.com',
+  timeout: process.env.TIMEOUT_MS || 5 * 60,
+  mode: import.meta.env.MODE,
+  publicKey: import.meta.env.VITE_PUBLIC_KEY
+};
+
+const { REGION = 'us-east-1', SECRET_TOKEN: secret } = process.env;
+
+// process.env.IN_A_COMMENT
+export const describe = () => `Region ${REGION} with ${secret ? 'a' : 'no'} secret`;
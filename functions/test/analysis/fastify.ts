@@ -0,0 +1,15 @@
+import Fastify from 'fastify';
+
+const fastify = Fastify({ logger: true });
+
+fastify.get('/items', async () => []);
+
+fastify.route({
+  method: 'PUT',
+  url: '/items/:id',
+  handler: updateItem
+});
+
+async function updateItem() {
+  return { updated: true };
+}
@@ -0,0 +1,21 @@
+const express = require('express');
+const { listUsers } = require('./handlers');
+
+const app = express();
+const router = express.Router();
+
+app.get('/api/health', (req, res) => {
+  res.json({ ok: true });
+});
+
+router.post('/users', listUsers);
+router.route('/users/:id')
+  .get(listUsers)
+  .delete((req, res) => res.sendStatus(204));
+
+app.use('/api', router);
+
+// app.get('/commented/out', handler);
+const docs = "app.get('/in/a/string', handler)";
+
+app.listen(process.env.PORT || 3000);
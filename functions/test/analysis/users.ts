@@ -0,0 +1,36 @@
+import { db } from './db';
+
+export interface User {
+  id: string;
+  name: string;
+}
+
+/** Loads one user */
+export async function loadUser(id: string): Promise<User | null> {
+  return db.find(id);
+}
+
+export const formatName = (user: User, options: { short?: boolean } = {}): string =>
+  options.short ? user.name.split(' ')[0] : user.name;
+
+function internalHelper(value: string) {
+  return value.trim();
+}
+
+export class UserStore extends BaseStore implements Store, Disposable {
+  private cache = new Map<string, User>();
+
+  constructor(private readonly prefix: string) {
+    super();
+  }
+
+  async get(id: string): Promise<User | undefined> {
+    return this.cache.get(id);
+  }
+
+  private evict(id: string) {
+    this.cache.delete(id);
+  }
+}
+
+export { internalHelper as normalize };
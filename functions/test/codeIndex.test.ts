@@ -0,0 +1,148 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { codeIndexId, CodeIndexSource, indexRepository, searchCodeIndex } from '../src/services/codeIndex';
+import { chunkSource } from '../src/services/codeChunks';
+import { initFirestore, search_repo_code } from '../src/services/toolService';
+import { createToolSession, runInToolSession } from '../src/services/toolSession';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+// A local repository stands in for the remote; it is cloned through file:// like any git source
+let repository: string;
+const fake = new FakeFirestore();
+const db = fake.asFirestore();
+
+const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+  cwd: repository,
+  encoding: 'utf8'
+}).trim();
+
+const writeFile = (filePath: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(repository, filePath)), { recursive: true });
+  fs.writeFileSync(path.join(repository, filePath), content);
+};
+
+const MATH = `export const add = (a: number, b: number): number => {
+  return a + b;
+};
+
+export class Calculator {
+  total = 0;
+
+  push(value: number) {
+    this.total = add(this.total, value);
+    return this;
+  }
+}
+`;
+
+const ROUTES = `import express from 'express';
+
+const app = express();
+
+app.get('/api/health', (req, res) => {
+  res.json({ ok: true });
+});
+
+export default app;
+`;
+
+const source = (): CodeIndexSource => ({ type: 'git', url: repository });
+const chunkDocs = () => fake.childrenOf(`CodeIndexes/${codeIndexId(source())}/Chunks`).map((doc) => doc.data()!);
+
+before(() => {
+  process.env.LLM_EMBEDDING_PROVIDER = 'mock';
+  repository = fs.mkdtempSync(path.join(os.tmpdir(), 'code-index-fixture-'));
+  git('init', '--quiet', '--initial-branch=main');
+  writeFile('src/math.ts', MATH);
+  writeFile('src/routes.ts', ROUTES);
+  writeFile('README.md', '# Fixture\n\nA repository for the code index tests.\n');
+  writeFile('node_modules/left-pad/index.js', 'module.exports = () => {};\n');
+  writeFile('dist/bundle.min.js', 'var a=1;\n');
+  git('add', '-A', '-f');
+  git('commit', '--quiet', '-m', 'Initial commit');
+});
+
+after(() => {
+  fs.rmSync(repository, { recursive: true, force: true });
+});
+
+test('chunks split a file into its top-level symbols', () => {
+  const chunks = chunkSource('src/math.ts', MATH);
+
+  assert.deepEqual(chunks.map((chunk) => [chunk.symbol, chunk.kind, chunk.startLine, chunk.endLine]), [
+    ['add', 'function', 1, 3],
+    ['Calculator', 'class', 5, 12]
+  ]);
+});
+
+test('a local checkout is indexed at its HEAD, skipping vendored and built files', async () => {
+  const view = await indexRepository(db, source());
+
+  assert.equal(view.status, 'ready');
+  assert.equal(view.revision, git('rev-parse', 'HEAD'));
+  assert.equal(view.fileCount, 3);
+  const symbols = chunkDocs().map((chunk) => `${chunk.Path}#${chunk.Symbol}`).sort();
+  assert.ok(symbols.includes('src/math.ts#add'));
+  assert.ok(symbols.includes('src/math.ts#Calculator'));
+  assert.ok(symbols.every((symbol) => !symbol.startsWith('node_modules/') && !symbol.startsWith('dist/')));
+  assert.equal(view.chunkCount, symbols.length);
+});
+
+test('an index that already covers HEAD is returned without fetching again', async () => {
+  const messages: string[] = [];
+  const view = await indexRepository(db, source(), { report: (message) => messages.push(message) });
+
+  assert.equal(view.status, 'ready');
+  assert.deepEqual(messages, []);
+});
+
+test('a new commit only embeds the chunks that changed', async () => {
+  writeFile('src/math.ts', MATH.replace('return a + b;', 'return b + a;'));
+  git('commit', '--quiet', '-am', 'Swap operands');
+  const before = chunkDocs().length;
+
+  const messages: string[] = [];
+  const view = await indexRepository(db, source(), { report: (message) => messages.push(message) });
+
+  assert.equal(view.revision, git('rev-parse', 'HEAD'));
+  assert.ok(messages.some((message) => /, 1 to embed$/.test(message)), messages.join('\n'));
+  assert.equal(chunkDocs().length, before);
+  assert.ok(chunkDocs().some((chunk) => String(chunk.Content).includes('return b + a;')));
+  assert.ok(chunkDocs().every((chunk) => !String(chunk.Content).includes('return a + b;')));
+});
+
+test('search ranks the chunk named in the query first', async () => {
+  const [first] = await searchCodeIndex(db, codeIndexId(source()), 'Calculator push value');
+
+  assert.equal(first.path, 'src/math.ts');
+  assert.equal(first.symbol, 'Calculator');
+});
+
+test('the search tool only indexes repositories a signed-in caller can open', async () => {
+  initFirestore(db);
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    requested.push(String(input));
+    return new Response('{"message":"Not Found"}', { status: 404 });
+  }) as typeof fetch;
+
+  try {
+    const anonymous = await search_repo_code({ repoLink: 'acme/private', query: 'auth' });
+    assert.equal(anonymous.success, false);
+    assert.match(String(anonymous.error), /Sign in/);
+    assert.deepEqual(requested, []);
+
+    const session = createToolSession({ userId: 'user-1' });
+    const denied = await runInToolSession(session, () => search_repo_code({ repoLink: 'acme/private', query: 'auth' }));
+    assert.equal(denied.success, false);
+    assert.match(String(denied.error), /don't have access/);
+    assert.equal(fake.documents.has(`CodeIndexes/${codeIndexId({ type: 'github', owner: 'acme', repo: 'private' })}`), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  buildSectionTree,
+  getBlockRange,
+  parseDocumentBlocks,
+  resolveBlockTarget,
+  spliceBlocks
+} from '../src/services/documentBlocks';
+
+const DOCUMENT = [
+  '<h1>Guide</h1>',
+  '<hr class="tiptap-divider">',
+  '<p>Welcome.</p>',
+  '<h2>2. Installation</h2>',
+  '<p>Install the CLI.</p>',
+  '<pre><code>npm install -g tool</code></pre>',
+  '<p>Then log in.</p>',
+  '<h3>Setup</h3>',
+  '<ul><li>One</li><li>Two <b>bold</b></li></ul>',
+  '<h2>Usage</h2>',
+  '<p>Run it.</p>'
+].join('\n');
+
+const resolve = (html: string, path: string) => {
+  const resolution = resolveBlockTarget(parseDocumentBlocks(html), { path });
+  assert.ok(resolution.success, resolution.error);
+  return resolution.block!;
+};
+
+test('top-level elements become typed blocks with heading paths', () => {
+  const blocks = parseDocumentBlocks(DOCUMENT);
+
+  assert.deepEqual(blocks.map((block) => [block.type, block.path]), [
+    ['heading', 'Guide'],
+    ['divider', 'Guide > divider 1'],
+    ['paragraph', 'Guide > paragraph 1'],
+    ['heading', 'Guide > 2. Installation'],
+    ['paragraph', 'Guide > 2. Installation > paragraph 1'],
+    ['code', 'Guide > 2. Installation > code 1'],
+    ['paragraph', 'Guide > 2. Installation > paragraph 2'],
+    ['heading', 'Guide > 2. Installation > Setup'],
+    ['list', 'Guide > 2. Installation > Setup > list 1'],
+    ['heading', 'Guide > Usage'],
+    ['paragraph', 'Guide > Usage > paragraph 1']
+  ]);
+  for (const block of blocks) {
+    assert.equal(DOCUMENT.slice(block.start, block.end), block.html);
+  }
+  assert.equal(blocks[8].text, 'One Two bold');
+});
+
+test('loose text, comments and unclosed trailing markup are tokenized without losing content', () => {
+  const html = 'Intro text\n<!-- note --><p>Body</p>\n<div><p>Unclosed';
+  const blocks = parseDocumentBlocks(html);
+
+  assert.deepEqual(blocks.map((block) => [block.type, block.html]), [
+    ['text', 'Intro text\n<!-- note -->'],
+    ['paragraph', '<p>Body</p>'],
+    ['other', '<div><p>Unclosed']
+  ]);
+});
+
+test('sections nest under their headings', () => {
+  const tree = buildSectionTree(parseDocumentBlocks(DOCUMENT));
+  const [guide] = tree.children;
+
+  assert.equal(guide.title, 'Guide');
+  assert.deepEqual(guide.children.map((section) => section.title), ['2. Installation', 'Usage']);
+  assert.deepEqual(guide.children[0].children.map((section) => section.path), [['Guide', '2. Installation', 'Setup']]);
+  assert.deepEqual(guide.children[0].blocks.map((block) => block.type), ['paragraph', 'code', 'paragraph']);
+});
+
+test('paths resolve by heading title, ignoring case and heading numbers', () => {
+  assert.equal(resolve(DOCUMENT, 'installation > paragraph 2').text, 'Then log in.');
+  assert.equal(resolve(DOCUMENT, 'Guide > Installation > Setup > list 1').type, 'list');
+  assert.equal(resolve(DOCUMENT, 'Usage').type, 'heading');
+  assert.equal(resolve(DOCUMENT, 'Installation > code block 1').text, 'npm install -g tool');
+});
+
+test('lookups that miss explain why', () => {
+  const blocks = parseDocumentBlocks(DOCUMENT);
+
+  assert.match(resolveBlockTarget(blocks, { path: 'Setup > Usage' }).error!, /Heading "Usage" was not found under "Setup"/);
+  assert.match(resolveBlockTarget(blocks, { path: 'Usage > paragraph 3' }).error!, /found 1 paragraph block/);
+  assert.match(resolveBlockTarget(blocks, { blockId: 'blk_missing' }).error!, /get_document_outline/);
+  assert.match(resolveBlockTarget(blocks, {}).error!, /Provide either blockId or path/);
+});
+
+test('a section range runs to the next heading of the same level, a heading block takes its divider', () => {
+  const blocks = parseDocumentBlocks(DOCUMENT);
+  const installation = resolve(DOCUMENT, 'Installation');
+  const section = getBlockRange(blocks, installation, 'section');
+  const guide = getBlockRange(blocks, blocks[0], 'block');
+
+  assert.ok(DOCUMENT.slice(section.from, section.to).includes('<h3>Setup</h3>'));
+  assert.ok(DOCUMENT.slice(section.to).startsWith('<h2>Usage</h2>'));
+  assert.equal(DOCUMENT.slice(guide.from, guide.to), '<h1>Guide</h1>\n<hr class="tiptap-divider">');
+});
+
+test('splicing keeps one newline between blocks', () => {
+  const html = '<p>A</p>\n<p>B</p>';
+  const b = resolve(html, 'paragraph 2');
+
+  assert.equal(spliceBlocks(html, b.start, b.end, '<p>C</p>'), '<p>A</p>\n<p>C</p>');
+  assert.equal(spliceBlocks(html, b.start, b.start, '<p>New</p>'), '<p>A</p>\n<p>New</p>\n<p>B</p>');
+  assert.equal(spliceBlocks(html, html.length, html.length, '<p>End</p>'), '<p>A</p>\n<p>B</p>\n<p>End</p>');
+  assert.equal(spliceBlocks(html, 0, b.start, ''), '<p>B</p>');
+});
+
+test('block IDs survive edits elsewhere, but an edited block gets a new ID', () => {
+  const before = parseDocumentBlocks(DOCUMENT);
+  const target = resolve(DOCUMENT, 'Installation > paragraph 1');
+  const edited = spliceBlocks(DOCUMENT, target.start, target.end, '<p>Install the CLI with npm.</p>');
+  const after = parseDocumentBlocks(edited);
+
+  const changed = before.filter((block, index) => block.id !== after[index].id);
+  assert.deepEqual(changed.map((block) => block.text), ['Install the CLI.']);
+  assert.equal(resolveBlockTarget(after, { blockId: target.id }).success, false);
+});
+
+test('repeated blocks get numbered IDs in document order', () => {
+  const blocks = parseDocumentBlocks('<p>Same</p>\n<p>Same</p>');
+
+  assert.equal(blocks[1].id, `${blocks[0].id}_2`);
+});
@@ -0,0 +1,87 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { generateLLM, getKeyRingSnapshots } from '../src/llm/llmClient';
+
+// Stands in for generativelanguage.googleapis.com; each API key answers as configured
+const behaviour = new Map<string, 'ok' | 'overloaded'>();
+const hits = new Map<string, number>();
+let server: http.Server;
+
+const startFakeGemini = (): Promise<string> => new Promise((resolve) => {
+  server = http.createServer((req, res) => {
+    const key = String(req.headers['x-goog-api-key'] || '');
+    hits.set(key, (hits.get(key) || 0) + 1);
+    req.resume();
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      if (!/^\/v1beta\/models\/[\w.-]+:generateContent$/.test(req.url || '')) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: { code: 404, message: `Unknown path ${req.url}`, status: 'NOT_FOUND' } }));
+        return;
+      }
+      if (behaviour.get(key) !== 'ok') {
+        res.statusCode = 503;
+        res.end(JSON.stringify({ error: { code: 503, message: 'The model is overloaded.', status: 'UNAVAILABLE' } }));
+        return;
+      }
+      res.end(JSON.stringify({
+        candidates: [{ content: { role: 'model', parts: [{ text: `answered by ${key}` }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 4, totalTokenCount: 7 }
+      }));
+    });
+  });
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const selection = { provider: 'gemini' as const, model: 'gemini-2.5-pro' };
+const ask = () => generateLLM(selection, { messages: [{ role: 'user', content: 'hello' }] });
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Snapshot rows carry hashed ids only; a ring lists its keys in configuration order
+const keyOrder = ['key-flaky', 'key-steady'];
+const breakerOf = (key: string) => {
+  const rows = getKeyRingSnapshots().filter((row) => row.provider === 'gemini');
+  return rows[keyOrder.indexOf(key)].breaker as { state: string; openCount: number };
+};
+
+before(async () => {
+  const baseUrl = await startFakeGemini();
+  process.env.GEMINI_API_BASE_URL = baseUrl;
+  process.env.VITE_GEMINI_API_KEY = keyOrder.join(',');
+  process.env.GEMINI_BREAKER_THRESHOLD = '2';
+  process.env.GEMINI_BREAKER_BASE_MS = '200';
+  behaviour.set('key-flaky', 'overloaded');
+  behaviour.set('key-steady', 'ok');
+});
+
+after(() => {
+  server.close();
+});
+
+test('a failing key trips its breaker and traffic moves to the healthy key', async () => {
+  for (let request = 0; request < 4; request++) {
+    const response = await ask();
+    assert.equal(response.text, 'answered by key-steady');
+    assert.equal(response.usage.totalTokens, 7);
+  }
+  assert.equal(hits.get('key-flaky'), 2, 'the breaker opens after two consecutive 503s');
+  assert.equal(breakerOf('key-flaky').state, 'open');
+
+  await ask();
+  assert.equal(hits.get('key-flaky'), 2, 'an open breaker sends nothing to the key');
+});
+
+test('after the cool-down one probe reaches the key and a success closes the breaker', async () => {
+  behaviour.set('key-flaky', 'ok');
+  await sleep(250);
+
+  const answers = new Set<string>();
+  for (let request = 0; request < 4; request++) {
+    answers.add((await ask()).text);
+  }
+
+  assert.ok(answers.has('answered by key-flaky'));
+  assert.equal(breakerOf('key-flaky').state, 'closed');
+});
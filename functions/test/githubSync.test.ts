@@ -0,0 +1,234 @@
+import { after, before, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  getDocumentSync,
+  gitBlobSha,
+  listProjectSync,
+  markDocumentPulled,
+  publishDocuments,
+  RepositoryTokenProvider,
+  setProjectMappings
+} from '../src/services/githubSync';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+// Just enough of GitHub's git data and pulls API for one repository, served through fetch
+class FakeGitHub {
+  blobs = new Map<string, string>();
+  trees = new Map<string, Map<string, string>>(); // tree sha -> path -> blob sha
+  commits = new Map<string, string>(); // commit sha -> tree sha
+  refs = new Map<string, string>();
+  pulls = new Map<number, { head: string; base: string; title: string; body: string; state: 'open' | 'closed' }>();
+  requests: string[] = [];
+  private counter = 0;
+
+  constructor(files: Record<string, string>) {
+    this.refs.set('main', this.commit(this.tree(new Map(), files)));
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}${String(++this.counter).padStart(40 - prefix.length, '0')}`;
+  }
+
+  private tree(base: Map<string, string>, files: Record<string, string>): string {
+    const entries = new Map(base);
+    for (const [path, content] of Object.entries(files)) {
+      const sha = gitBlobSha(content);
+      this.blobs.set(sha, content);
+      entries.set(path, sha);
+    }
+    const sha = this.id('e');
+    this.trees.set(sha, entries);
+    return sha;
+  }
+
+  private commit(tree: string): string {
+    const sha = this.id('c');
+    this.commits.set(sha, tree);
+    return sha;
+  }
+
+  filesAt(branch = 'main'): Map<string, string> {
+    return this.trees.get(this.commits.get(this.refs.get(branch)!)!)!;
+  }
+
+  read(path: string, branch = 'main'): string | undefined {
+    const sha = this.filesAt(branch).get(path);
+    return sha ? this.blobs.get(sha) : undefined;
+  }
+
+  // Someone commits straight to the default branch
+  push(files: Record<string, string>): void {
+    this.refs.set('main', this.commit(this.tree(this.filesAt(), files)));
+  }
+
+  merge(number: number): void {
+    const pull = this.pulls.get(number)!;
+    this.refs.set(pull.base, this.refs.get(pull.head)!);
+    pull.state = 'closed';
+  }
+
+  fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method || 'GET';
+    this.requests.push(`${method} ${url.pathname}`);
+    const headers = new Headers(init.headers);
+    if (headers.get('Authorization') !== 'token installation-token') {
+      return Response.json({ message: 'Bad credentials' }, { status: 401 });
+    }
+
+    const route = url.pathname.replace(/^\/repos\/octo\/docs/, '');
+    const body = init.body ? JSON.parse(String(init.body)) : {};
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && route === '') {
+      return Response.json({ default_branch: 'main' });
+    }
+    if (method === 'GET' && (match = route.match(/^\/git\/ref\/heads\/(.+)$/))) {
+      const sha = this.refs.get(decodeURIComponent(match[1]));
+      return sha ? Response.json({ object: { sha } }) : Response.json({ message: 'Not Found' }, { status: 404 });
+    }
+    if (method === 'GET' && (match = route.match(/^\/git\/trees\/(\w+)$/))) {
+      const tree = this.commits.get(match[1]) || match[1];
+      const entries = [...this.trees.get(tree)!].map(([path, sha]) => ({ path, type: 'blob', sha }));
+      return Response.json({ sha: tree, truncated: false, tree: entries });
+    }
+    if (method === 'GET' && (match = route.match(/^\/git\/blobs\/(\w+)$/))) {
+      return Response.json({ content: Buffer.from(this.blobs.get(match[1])!).toString('base64'), encoding: 'base64' });
+    }
+    if (method === 'GET' && (match = route.match(/^\/pulls\/(\d+)$/))) {
+      const number = Number(match[1]);
+      return Response.json({ number, html_url: `https://github.com/octo/docs/pull/${number}`, state: this.pulls.get(number)!.state });
+    }
+    if (method === 'POST' && route === '/git/trees') {
+      const files = Object.fromEntries((body.tree as Array<{ path: string; content: string }>).map((entry) => [entry.path, entry.content]));
+      return Response.json({ sha: this.tree(this.trees.get(body.base_tree)!, files) }, { status: 201 });
+    }
+    if (method === 'POST' && route === '/git/commits') {
+      return Response.json({ sha: this.commit(body.tree) }, { status: 201 });
+    }
+    if (method === 'POST' && route === '/git/refs') {
+      this.refs.set(String(body.ref).replace(/^refs\/heads\//, ''), body.sha);
+      return Response.json({ ref: body.ref, object: { sha: body.sha } }, { status: 201 });
+    }
+    if (method === 'POST' && route === '/pulls') {
+      const number = this.pulls.size + 1;
+      this.pulls.set(number, { head: body.head, base: body.base, title: body.title, body: body.body, state: 'open' });
+      return Response.json({ number, html_url: `https://github.com/octo/docs/pull/${number}`, state: 'open' }, { status: 201 });
+    }
+    return Response.json({ message: `Unexpected ${method} ${url.pathname}` }, { status: 500 });
+  };
+}
+
+const realFetch = globalThis.fetch;
+let github: FakeGitHub;
+let fake: FakeFirestore;
+
+const installed: RepositoryTokenProvider = async (owner, repo) => (`${owner}/${repo}` === 'octo/docs' ? 'installation-token' : null);
+const db = () => fake.asFirestore();
+
+const statuses = async () => Object.fromEntries(
+  (await listProjectSync(db(), 'project-1', installed)).documents.map((document) => [document.path, document.status])
+);
+
+before(() => {
+  globalThis.fetch = (input, init) => github.fetch(input, init);
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+});
+
+beforeEach(async () => {
+  github = new FakeGitHub({ 'docs/guide.md': '# Guide\n', 'README.md': '# Readme\n' });
+  fake = new FakeFirestore();
+  await fake.doc('Projects/project-1').set({ GitHubRepo: 'https://github.com/octo/docs', User_Id: 'user-1' });
+  await fake.doc('Documents/doc-guide').set({ Project_Id: 'project-1', DocumentName: 'User | Guide' });
+  await fake.doc('Documents/doc-api').set({ Project_Id: 'project-1', DocumentName: 'API' });
+  assert.equal(await setProjectMappings(db(), 'project-1', [
+    { documentId: 'doc-guide', path: 'docs/guide.md' },
+    { documentId: 'doc-api', path: 'docs/api.md' }
+  ]), null);
+});
+
+test('mappings reject documents of other projects and paths used twice', async () => {
+  await fake.doc('Documents/doc-other').set({ Project_Id: 'project-2' });
+
+  assert.equal(
+    await setProjectMappings(db(), 'project-1', [{ documentId: 'doc-other', path: 'docs/other.md' }]),
+    'Document doc-other is not part of this project'
+  );
+  assert.equal(
+    await setProjectMappings(db(), 'project-1', [{ documentId: 'doc-api', path: 'Docs/Guide.md' }]),
+    'docs/guide.md is mapped to more than one document'
+  );
+});
+
+test('status compares each mapped file with the default branch', async () => {
+  assert.deepEqual(await statuses(), { 'docs/guide.md': 'changed', 'docs/api.md': 'unpublished' });
+});
+
+test('publishing commits changed files to a new branch and opens a pull request', async () => {
+  await markDocumentPulled(db(), 'doc-guide', gitBlobSha('# Guide\n'), null);
+
+  const result = await publishDocuments(db(), 'project-1', [
+    { documentId: 'doc-guide', markdown: '# Guide\n' },
+    { documentId: 'doc-api', markdown: '# API\n' }
+  ], installed);
+
+  assert.deepEqual(result.published, ['docs/api.md']);
+  assert.deepEqual(result.unchanged, ['docs/guide.md']);
+  assert.equal(result.pullRequest?.number, 1);
+  const pull = github.pulls.get(1)!;
+  assert.equal(pull.base, 'main');
+  assert.equal(pull.head, result.pullRequest?.branch);
+  assert.match(pull.body, /\| API \| `docs\/api\.md` \|/);
+  assert.equal(github.read('docs/api.md', pull.head), '# API\n');
+  assert.equal(github.read('docs/api.md'), undefined, 'the default branch is untouched until the merge');
+  assert.deepEqual(await statuses(), { 'docs/guide.md': 'synced', 'docs/api.md': 'pending' });
+});
+
+test('a merged pull request settles its documents as synced', async () => {
+  const result = await publishDocuments(db(), 'project-1', [{ documentId: 'doc-api', markdown: '# API\n' }], installed);
+  github.merge(result.pullRequest!.number);
+
+  assert.equal((await statuses())['docs/api.md'], 'synced');
+  const record = (await fake.doc('DocumentSync/doc-api').get()).data()!;
+  assert.equal(record.Pull_Request, null);
+  assert.equal(record.Synced_Sha, gitBlobSha('# API\n'));
+});
+
+test('a pull request closed without merging stops counting as pending', async () => {
+  const result = await publishDocuments(db(), 'project-1', [{ documentId: 'doc-api', markdown: '# API\n' }], installed);
+  github.pulls.get(result.pullRequest!.number)!.state = 'closed';
+
+  assert.equal((await statuses())['docs/api.md'], 'unpublished');
+});
+
+test('an upstream edit is handed back to the editor, and blocks publishing until pulled', async () => {
+  await markDocumentPulled(db(), 'doc-guide', gitBlobSha('# Guide\n'), null);
+  github.push({ 'docs/guide.md': '# Guide\n\nEdited on GitHub.\n' });
+
+  const synced = await getDocumentSync(db(), 'doc-guide', installed);
+  assert.equal(synced?.sync.status, 'changed');
+  assert.equal(synced?.upstream?.markdown, '# Guide\n\nEdited on GitHub.\n');
+  assert.equal(synced?.upstream?.revision, github.refs.get('main'));
+
+  await assert.rejects(
+    publishDocuments(db(), 'project-1', [{ documentId: 'doc-guide', markdown: '# Guide\n\nEdited here.\n' }], installed),
+    (error: Error & { status?: number }) => error.status === 409 && /docs\/guide\.md changed on main/.test(error.message)
+  );
+
+  const pulled = await markDocumentPulled(db(), 'doc-guide', synced!.upstream!.sha, synced!.upstream!.revision);
+  assert.equal(pulled?.status, 'synced');
+  assert.equal((await statuses())['docs/guide.md'], 'synced');
+});
+
+test('a repository the caller has no token for cannot be synced', async () => {
+  await fake.doc('Projects/project-1').set({ GitHubRepo: 'octo/elsewhere', User_Id: 'user-1' });
+
+  await assert.rejects(
+    listProjectSync(db(), 'project-1', installed),
+    (error: Error & { status?: number }) => error.status === 409 && /install the GitHub App on octo\/elsewhere/.test(error.message)
+  );
+  assert.deepEqual(github.requests, []);
+});
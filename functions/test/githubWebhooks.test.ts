@@ -0,0 +1,82 @@
+import { beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'node:crypto';
+import {
+  handleWebhookEvent,
+  installationForRepository,
+  InstallationRepository,
+  listInstallationRepositories,
+  verifyWebhookSignature
+} from '../src/services/githubWebhooks';
+import { FakeFirestore } from './helpers/fakeFirestore';
+
+const repository = (fullName: string, id: number): InstallationRepository => ({
+  Id: id,
+  Name: fullName.split('/')[1],
+  Full_Name: fullName,
+  Private: true,
+  Description: null,
+  Default_Branch: 'main',
+  Html_Url: `https://github.com/${fullName}`
+});
+
+const orgRepositories = [repository('acme/api', 1), repository('acme/web', 2), repository('acme/secrets', 3)];
+const listRepositories = async () => orgRepositories;
+
+let fake: FakeFirestore;
+const db = () => fake.asFirestore();
+
+const names = (listed: Awaited<ReturnType<typeof listInstallationRepositories>>) =>
+  listed.flatMap((installation) => installation.repositories.map((repo) => repo.Full_Name));
+
+beforeEach(async () => {
+  fake = new FakeFirestore();
+  const result = await handleWebhookEvent(db(), 'installation', {
+    action: 'created',
+    installation: { id: 42, account: { login: 'acme', type: 'Organization' }, repository_selection: 'all' },
+    sender: { login: 'octocat' }
+  }, listRepositories);
+  assert.equal(result, 'recorded installation 42 (created, 3 repositories)');
+});
+
+test('only deliveries signed with the webhook secret verify', () => {
+  const body = Buffer.from('{"zen":"Keep it logically awesome."}');
+  const signature = `sha256=${crypto.createHmac('sha256', 'secret').update(body).digest('hex')}`;
+
+  assert.equal(verifyWebhookSignature(body, signature, 'secret'), true);
+  assert.equal(verifyWebhookSignature(body, signature, 'other-secret'), false);
+  assert.equal(verifyWebhookSignature(body, undefined, 'secret'), false);
+});
+
+test('the account and the user who installed the app see every repository', async () => {
+  for (const githubLogin of ['acme', 'OctoCat']) {
+    assert.deepEqual(names(await listInstallationRepositories(db(), githubLogin)),
+      ['acme/api', 'acme/web', 'acme/secrets']);
+  }
+});
+
+test('other users see none of the installation, whatever their projects link to', async () => {
+  await fake.doc('Projects/p1').set({ User_Id: 'user-2', GitHubRepo: 'https://github.com/acme/web' });
+
+  assert.deepEqual(await listInstallationRepositories(db(), 'someone'), []);
+  assert.deepEqual(await listInstallationRepositories(db(), null), []);
+});
+
+test('a repository resolves to an installation only for its owners', async () => {
+  assert.equal(await installationForRepository(db(), 'octocat', 'ACME', 'api'), 42);
+  assert.equal(await installationForRepository(db(), 'acme', 'acme', 'missing'), null);
+  assert.equal(await installationForRepository(db(), 'someone', 'acme', 'api'), null);
+  assert.equal(await installationForRepository(db(), null, 'acme', 'api'), null);
+});
+
+test('removed repositories and suspended installations drop out of the listing', async () => {
+  await handleWebhookEvent(db(), 'installation_repositories', {
+    action: 'removed',
+    installation: { id: 42 },
+    repositories_removed: [{ id: 3, name: 'secrets', full_name: 'acme/secrets' }]
+  }, listRepositories);
+  assert.deepEqual(names(await listInstallationRepositories(db(), 'acme')), ['acme/api', 'acme/web']);
+
+  await handleWebhookEvent(db(), 'installation', { action: 'suspend', installation: { id: 42, account: { login: 'acme' } } }, listRepositories);
+  assert.deepEqual(await listInstallationRepositories(db(), 'acme'), []);
+});
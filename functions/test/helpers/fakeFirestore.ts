@@ -0,0 +1,333 @@
+/**
+ * In-memory stand-in for the parts of the Admin SDK Firestore the services use:
+ * documents and subcollections, queries, batches, transactions, field
+ * transforms and lastUpdateTime preconditions.
+ */
+
+import * as admin from 'firebase-admin';
+
+type Data = Record<string, unknown>;
+
+interface StoredDocument {
+  data: Data;
+  updateTime: admin.firestore.Timestamp;
+}
+
+interface Transform {
+  methodName?: string;
+  operand?: number;
+  elements?: unknown[];
+}
+
+let clock = Date.now();
+const nextTime = () => admin.firestore.Timestamp.fromMillis(++clock);
+
+const isPlainObject = (value: unknown): value is Data =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+};
+
+const transformOf = (value: unknown): string | null => {
+  const name = (value as Transform | null)?.methodName;
+  return typeof name === 'string' && name.startsWith('FieldValue.') ? name : null;
+};
+
+const applyField = (target: Data, path: string[], value: unknown): void => {
+  const [head, ...rest] = path;
+  if (rest.length > 0) {
+    if (!isPlainObject(target[head])) target[head] = {};
+    applyField(target[head] as Data, rest, value);
+    return;
+  }
+  switch (transformOf(value)) {
+    case 'FieldValue.delete':
+      delete target[head];
+      return;
+    case 'FieldValue.serverTimestamp':
+      target[head] = admin.firestore.Timestamp.fromMillis(clock);
+      return;
+    case 'FieldValue.increment':
+      target[head] = (typeof target[head] === 'number' ? target[head] as number : 0) + ((value as Transform).operand || 0);
+      return;
+    case 'FieldValue.arrayUnion': {
+      const current = Array.isArray(target[head]) ? target[head] as unknown[] : [];
+      const added = ((value as Transform).elements || []).filter((item) => !current.includes(item));
+      target[head] = [...current, ...added];
+      return;
+    }
+    case 'FieldValue.arrayRemove': {
+      const removed = (value as Transform).elements || [];
+      target[head] = (Array.isArray(target[head]) ? target[head] as unknown[] : []).filter((item) => !removed.includes(item));
+      return;
+    }
+    default:
+      target[head] = isPlainObject(value) ? mergeInto({}, value) : clone(value);
+  }
+};
+
+// Nested maps in set() data replace fields one by one, with transforms applied
+const mergeInto = (target: Data, data: Data): Data => {
+  Object.entries(data).forEach(([key, value]) => applyField(target, [key], value));
+  return target;
+};
+
+const readField = (data: Data, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+
+const comparable = (value: unknown): unknown =>
+  value instanceof admin.firestore.Timestamp ? value.toMillis() : value;
+
+const compare = (a: unknown, b: unknown): number => {
+  const x = comparable(a) as number;
+  const y = comparable(b) as number;
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const matches = (value: unknown, op: string, expected: unknown): boolean => {
+  switch (op) {
+    case '==': return compare(value, expected) === 0 && value !== undefined;
+    case '!=': return value !== undefined && compare(value, expected) !== 0;
+    case '<': return value !== undefined && compare(value, expected) < 0;
+    case '<=': return value !== undefined && compare(value, expected) <= 0;
+    case '>': return value !== undefined && compare(value, expected) > 0;
+    case '>=': return value !== undefined && compare(value, expected) >= 0;
+    case 'in': return (expected as unknown[]).some((item) => compare(value, item) === 0);
+    case 'array-contains': return Array.isArray(value) && value.some((item) => compare(item, expected) === 0);
+    default: throw new Error(`Unsupported operator ${op}`);
+  }
+};
+
+class FirestoreError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+export class FakeSnapshot {
+  constructor(
+    public ref: FakeDocumentReference,
+    private stored: StoredDocument | undefined
+  ) {}
+
+  get id() { return this.ref.id; }
+  get exists() { return !!this.stored; }
+  get updateTime() { return this.stored?.updateTime; }
+  get createTime() { return this.stored?.updateTime; }
+  data(): Data | undefined { return this.stored ? clone(this.stored.data) : undefined; }
+  get(field: string): unknown { return this.stored ? readField(this.stored.data, field) : undefined; }
+}
+
+export class FakeDocumentReference {
+  constructor(public firestore: FakeFirestore, public path: string) {}
+
+  get id() { return this.path.split('/').pop()!; }
+  get parent() { return new FakeCollectionReference(this.firestore, this.path.split('/').slice(0, -1).join('/')); }
+  collection(name: string) { return new FakeCollectionReference(this.firestore, `${this.path}/${name}`); }
+
+  async get() { return this.firestore.snapshot(this); }
+  async set(data: Data, options?: { merge?: boolean }) { this.firestore.write({ type: 'set', ref: this, data, merge: options?.merge }); }
+  async create(data: Data) { this.firestore.write({ type: 'create', ref: this, data }); }
+  async update(data: Data, precondition?: { lastUpdateTime?: admin.firestore.Timestamp }) {
+    this.firestore.write({ type: 'update', ref: this, data, precondition });
+  }
+  async delete() { this.firestore.write({ type: 'delete', ref: this }); }
+  isEqual(other: FakeDocumentReference) { return other.path === this.path; }
+}
+
+export class FakeQuery {
+  constructor(
+    public firestore: FakeFirestore,
+    public path: string,
+    protected filters: Array<[string, string, unknown]> = [],
+    protected order: Array<[string, 'asc' | 'desc']> = [],
+    protected max?: number
+  ) {}
+
+  where(field: string, op: string, value: unknown) {
+    return new FakeQuery(this.firestore, this.path, [...this.filters, [field, op, value]], this.order, this.max);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc') {
+    return new FakeQuery(this.firestore, this.path, this.filters, [...this.order, [field, direction]], this.max);
+  }
+
+  limit(max: number) {
+    return new FakeQuery(this.firestore, this.path, this.filters, this.order, max);
+  }
+
+  // Snapshots keep every field; callers only read the ones they selected
+  select() {
+    return this;
+  }
+
+  async get() {
+    let docs = this.firestore.childrenOf(this.path)
+      .filter((snap) => this.filters.every(([field, op, value]) => {
+        const actual = field === '__name__' ? snap.id : snap.get(field);
+        return matches(actual, op, value);
+      }));
+    for (const [field, direction] of [...this.order].reverse()) {
+      docs = [...docs].sort((a, b) => compare(a.get(field), b.get(field)) * (direction === 'desc' ? -1 : 1));
+    }
+    if (this.max !== undefined) docs = docs.slice(0, this.max);
+    return { docs, empty: docs.length === 0, size: docs.length, forEach: (fn: (snap: FakeSnapshot) => void) => docs.forEach(fn) };
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  constructor(firestore: FakeFirestore, path: string) {
+    super(firestore, path);
+  }
+
+  get id() { return this.path.split('/').pop()!; }
+
+  doc(id?: string) {
+    return new FakeDocumentReference(this.firestore, `${this.path}/${id || `auto_${Math.random().toString(36).slice(2, 12)}`}`);
+  }
+
+  async add(data: Data) {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+type Write =
+  | { type: 'set'; ref: FakeDocumentReference; data: Data; merge?: boolean }
+  | { type: 'create'; ref: FakeDocumentReference; data: Data }
+  | { type: 'update'; ref: FakeDocumentReference; data: Data; precondition?: { lastUpdateTime?: admin.firestore.Timestamp } }
+  | { type: 'delete'; ref: FakeDocumentReference };
+
+class FakeWriteBatch {
+  protected writes: Write[] = [];
+
+  constructor(protected firestore: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }) {
+    this.writes.push({ type: 'set', ref, data, merge: options?.merge });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data) {
+    this.writes.push({ type: 'create', ref, data });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data, precondition?: { lastUpdateTime?: admin.firestore.Timestamp }) {
+    this.writes.push({ type: 'update', ref, data, precondition });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference) {
+    this.writes.push({ type: 'delete', ref });
+    return this;
+  }
+
+  async commit() {
+    this.firestore.writeAll(this.writes);
+    this.writes = [];
+  }
+}
+
+class FakeTransaction extends FakeWriteBatch {
+  async get(target: FakeDocumentReference | FakeQuery) {
+    return target instanceof FakeDocumentReference ? this.firestore.snapshot(target) : target.get();
+  }
+
+  async getAll(...refs: FakeDocumentReference[]) {
+    return refs.map((ref) => this.firestore.snapshot(ref));
+  }
+
+  async finish() {
+    await this.commit();
+  }
+}
+
+export class FakeFirestore {
+  documents = new Map<string, StoredDocument>();
+
+  collection(path: string) { return new FakeCollectionReference(this, path); }
+  doc(path: string) { return new FakeDocumentReference(this, path); }
+  batch() { return new FakeWriteBatch(this); }
+
+  async getAll(...refs: FakeDocumentReference[]) {
+    return refs.map((ref) => this.snapshot(ref));
+  }
+
+  async runTransaction<T>(fn: (t: FakeTransaction) => Promise<T>): Promise<T> {
+    const transaction = new FakeTransaction(this);
+    const result = await fn(transaction);
+    await transaction.finish();
+    return result;
+  }
+
+  async recursiveDelete(target: FakeCollectionReference | FakeDocumentReference) {
+    const prefix = `${target.path}/`;
+    for (const path of Array.from(this.documents.keys())) {
+      if (path === target.path || path.startsWith(prefix)) this.documents.delete(path);
+    }
+  }
+
+  snapshot(ref: FakeDocumentReference) {
+    return new FakeSnapshot(ref, this.documents.get(ref.path));
+  }
+
+  childrenOf(collectionPath: string): FakeSnapshot[] {
+    const depth = collectionPath.split('/').length + 1;
+    return Array.from(this.documents.keys())
+      .filter((path) => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .sort()
+      .map((path) => this.snapshot(new FakeDocumentReference(this, path)));
+  }
+
+  write(write: Write) {
+    this.writeAll([write]);
+  }
+
+  // All or nothing, like a committed batch
+  writeAll(writes: Write[]) {
+    const next = new Map(this.documents);
+    const time = nextTime();
+    for (const write of writes) {
+      const current = next.get(write.ref.path);
+      switch (write.type) {
+        case 'create':
+          if (current) throw new FirestoreError(6, `Document already exists: ${write.ref.path}`);
+          next.set(write.ref.path, { data: mergeInto({}, write.data), updateTime: time });
+          break;
+        case 'set':
+          next.set(write.ref.path, {
+            data: mergeInto(write.merge && current ? clone(current.data) : {}, write.data),
+            updateTime: time
+          });
+          break;
+        case 'update': {
+          if (!current) throw new FirestoreError(5, `No document to update: ${write.ref.path}`);
+          const expected = write.precondition?.lastUpdateTime;
+          if (expected && !expected.isEqual(current.updateTime)) {
+            throw new FirestoreError(9, `Stale lastUpdateTime for ${write.ref.path}`);
+          }
+          const data = clone(current.data);
+          Object.entries(write.data).forEach(([path, value]) => applyField(data, path.split('.'), value));
+          next.set(write.ref.path, { data, updateTime: time });
+          break;
+        }
+        case 'delete':
+          next.delete(write.ref.path);
+          break;
+      }
+    }
+    this.documents = next;
+  }
+
+  // The services take the Admin SDK type; this fake covers what they call
+  asFirestore(): admin.firestore.Firestore {
+    return this as unknown as admin.firestore.Firestore;
+  }
+}
@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createKeyRing, KeyRingOptions } from '../src/llm/keyRing';
+import { providerError } from '../src/llm/types';
+
+const createClock = (start = 10 * 60 * 1000) => {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+const ring = (keys: string[], options: KeyRingOptions = {}) => {
+  const clock = createClock();
+  return { clock, ring: createKeyRing('gemini', keys, { now: clock.now, ...options }) };
+};
+
+const overloaded = () => providerError('The model is overloaded', 503);
+
+test('keys are picked in proportion to their weights', () => {
+  const { ring: keys } = ring(['a', 'b'], { weights: [3, 1] });
+  const picks = Array.from({ length: 8 }, () => keys.pick()?.key);
+
+  assert.equal(picks.filter((key) => key === 'a').length, 6);
+  assert.equal(picks.filter((key) => key === 'b').length, 2);
+});
+
+test('a per-model RPM window holds requests for that model until the next minute', () => {
+  const { clock, ring: keys } = ring(['a'], { modelLimits: { 'gemini-2.5-pro': { RPM: 2 } } });
+
+  for (let request = 0; request < 2; request++) {
+    const state = keys.pick('gemini-2.5-pro');
+    assert.ok(state);
+    keys.markSuccess(state, 10, 'gemini-2.5-pro');
+  }
+  assert.equal(keys.pick('gemini-2.5-pro'), null);
+  assert.ok(keys.pick('gemini-2.5-flash'), 'other models keep their own window');
+
+  clock.advance(60 * 1000);
+  assert.ok(keys.pick('gemini-2.5-pro'));
+});
+
+test('the breaker opens after the threshold and lets one probe through once cooled down', () => {
+  const { clock, ring: keys } = ring(['a'], { breaker: { failureThreshold: 2, baseCooldownMs: 1000 } });
+
+  const first = keys.pick();
+  assert.ok(first);
+  assert.equal(keys.markFailure(first, overloaded()), true);
+  assert.equal(keys.pick(), first, 'one failure does not open the breaker');
+  keys.markFailure(first, overloaded());
+
+  assert.equal(keys.pick(), null);
+  assert.equal(keys.snapshot()[0].status, 'circuit-open');
+
+  clock.advance(1000);
+  const probe = keys.pick();
+  assert.equal(probe, first);
+  assert.equal(keys.pick(), null, 'only one probe runs at a time');
+  assert.equal(keys.snapshot()[0].status, 'probing');
+
+  keys.markSuccess(first, 5);
+  assert.deepEqual(
+    { state: first.breakerState, failures: first.consecutiveFailures, openCount: first.openCount },
+    { state: 'closed', failures: 0, openCount: 0 }
+  );
+});
+
+test('a failed probe opens the breaker again for twice as long', () => {
+  const { clock, ring: keys } = ring(['a'], { breaker: { failureThreshold: 1, baseCooldownMs: 1000, maxCooldownMs: 1500 } });
+
+  const state = keys.pick();
+  assert.ok(state);
+  keys.markFailure(state, overloaded());
+  clock.advance(1000);
+
+  assert.equal(keys.pick(), state);
+  keys.markFailure(state, overloaded());
+  assert.equal(state.openCount, 2);
+
+  clock.advance(1000);
+  assert.equal(keys.pick(), null, 'the cool-down doubled, capped at maxCooldownMs');
+  clock.advance(500);
+  assert.equal(keys.pick(), state);
+});
+
+test('a released probe frees the key for the next one', () => {
+  const { clock, ring: keys } = ring(['a'], { breaker: { failureThreshold: 1, baseCooldownMs: 1000 } });
+
+  const state = keys.pick();
+  assert.ok(state);
+  keys.markFailure(state, overloaded());
+  clock.advance(1000);
+
+  assert.equal(keys.pick(), state);
+  keys.release(state);
+  assert.equal(keys.pick(), state);
+});
+
+test('auth errors open the breaker at once and bad requests do not count', () => {
+  const { ring: keys } = ring(['a', 'b']);
+
+  const a = keys.pick();
+  assert.ok(a);
+  assert.equal(keys.markFailure(a, providerError('API key not valid', 400)), true);
+  assert.equal(a.breakerState, 'open');
+
+  const b = keys.pick();
+  assert.ok(b);
+  assert.notEqual(b, a);
+  assert.equal(keys.markFailure(b, providerError('Invalid JSON payload', 400)), false);
+  assert.equal(b.consecutiveFailures, 0);
+  assert.equal(b.breakerState, 'closed');
+});
+
+test('rate-limited keys cool down until the minute boundary', () => {
+  const { clock, ring: keys } = ring(['a']);
+
+  const state = keys.pick();
+  assert.ok(state);
+  clock.advance(15 * 1000);
+  keys.markFailure(state, providerError('Resource has been exhausted', 429));
+  assert.equal(keys.pick(), null);
+
+  clock.advance(45 * 1000);
+  assert.equal(keys.pick(), state);
+});
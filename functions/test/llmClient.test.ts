@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { embedLLM, generateLLM, streamLLM } from '../src/llm/llmClient';
+import { LLMStreamChunk, LLMToolDeclaration } from '../src/llm/types';
+
+const mock = { provider: 'mock' as const, model: 'mock-1' };
+
+const lookupTool: LLMToolDeclaration = {
+  name: 'lookup',
+  description: 'Look something up',
+  parameters: { type: 'OBJECT', properties: { query: { type: 'STRING' } } }
+};
+
+test('generate echoes the prompt with usage', async () => {
+  const response = await generateLLM(mock, { messages: [{ role: 'user', content: 'hello there' }] });
+
+  assert.equal(response.text, '[mock:mock-1] hello there');
+  assert.deepEqual(response.toolCalls, []);
+  assert.equal(response.provider, 'mock');
+  assert.ok((response.usage.totalTokens || 0) > 0);
+});
+
+test('a tool directive requests the offered tool, then its result is reported', async () => {
+  const first = await generateLLM(mock, {
+    messages: [{ role: 'user', content: 'mock:call lookup {"query":"routes"}' }],
+    tools: [lookupTool]
+  });
+  assert.equal(first.text, '');
+  assert.deepEqual(first.toolCalls, [{ id: 'call_1', name: 'lookup', args: { query: 'routes' } }]);
+
+  const second = await generateLLM(mock, {
+    messages: [
+      { role: 'user', content: 'mock:call lookup {"query":"routes"}' },
+      { role: 'assistant', content: '', toolCalls: first.toolCalls },
+      { role: 'tool', toolCallId: 'call_1', name: 'lookup', result: { found: 2 } }
+    ],
+    tools: [lookupTool]
+  });
+  assert.equal(second.text, '[mock:mock-1] Tool lookup returned {"found":2}');
+});
+
+test('tools that were not offered are not called', async () => {
+  const response = await generateLLM(mock, { messages: [{ role: 'user', content: 'mock:call lookup {}' }] });
+  assert.deepEqual(response.toolCalls, []);
+});
+
+test('stream yields the reply word by word and ends with usage', async () => {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of streamLLM(mock, { messages: [{ role: 'user', content: 'one two three' }] })) {
+    chunks.push(chunk);
+  }
+
+  const text = chunks.filter((chunk) => chunk.type === 'text').map((chunk) => (chunk as { text: string }).text);
+  assert.deepEqual(text, ['[mock:mock-1] ', 'one ', 'two ', 'three']);
+  assert.equal(chunks[chunks.length - 1].type, 'done');
+});
+
+test('a stream aborted by the caller fails with AbortError', async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  await assert.rejects(async () => {
+    for await (const chunk of streamLLM(mock, { messages: [{ role: 'user', content: 'never sent' }], signal: controller.signal })) {
+      assert.fail(`unexpected chunk ${chunk.type}`);
+    }
+  }, { name: 'AbortError' });
+});
+
+test('embeddings of texts sharing identifiers are closer than unrelated ones', async () => {
+  const [query, related, unrelated] = await embedLLM(
+    { provider: 'mock', model: 'mock-embedding-1' },
+    ['getUserProfile', 'function get_user_profile returns the user', 'render the PDF cover page'],
+    'query'
+  );
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+  assert.ok(cosine(query, related) > cosine(query, unrelated));
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { typescriptAnalyzer } from '../src/analysis/typescriptAnalyzer';
+
+// Each file in analysis/ is a small source file in the style the analyzer meets in real repositories
+const analyze = (file: string) => {
+  return typescriptAnalyzer.analyze(file, readFileSync(new URL(`./analysis/${file}`, import.meta.url), 'utf8'));
+};
+
+test('exported functions and classes keep their declared signatures', () => {
+  const facts = analyze('users.ts');
+
+  assert.deepEqual(facts.functions.map((fn) => [fn.name, fn.signature, fn.line]), [
+    ['loadUser', 'async function loadUser(id: string): Promise<User | null>', 9],
+    ['formatName', 'const formatName = (user: User, options: { short?: boolean } = {}): string', 13],
+    ['normalize', 'function internalHelper(value: string)', 16]
+  ]);
+  assert.deepEqual(facts.classes.map(({ name, extends: base, implements: interfaces, methods }) => ({ name, base, interfaces, methods })), [{
+    name: 'UserStore',
+    base: 'BaseStore',
+    interfaces: ['Store', 'Disposable'],
+    methods: ['constructor(private readonly prefix: string)', 'async get(id: string): Promise<User | undefined>']
+  }]);
+  assert.ok(facts.functions.every((fn) => fn.language === 'typescript'));
+});
+
+test('Express routes include routers, chained routes and mounts, but not comments or strings', () => {
+  const routes = analyze('server.js').routes;
+
+  assert.deepEqual(routes.map((route) => [route.method, route.route, route.handler, route.line]), [
+    ['GET', '/api/health', null, 7],
+    ['POST', '/users', 'listUsers', 11],
+    ['GET', '/users/:id', 'listUsers', 12],
+    ['DELETE', '/users/:id', null, 12],
+    ['USE', '/api', 'router', 16]
+  ]);
+  assert.ok(routes.every((route) => route.framework === 'express'));
+});
+
+test('Fastify shorthand and route objects are both found', () => {
+  assert.deepEqual(analyze('fastify.ts').routes.map((route) => [route.framework, route.method, route.route, route.handler]), [
+    ['fastify', 'GET', '/items', null],
+    ['fastify', 'PUT', '/items/:id', 'updateItem']
+  ]);
+});
+
+test('commander programs and package.json bins and scripts become CLI commands', () => {
+  assert.deepEqual(analyze('cli.ts').cliCommands.map(({ name, description, options, source }) => ({ name, description, options, source })), [
+    { name: 'docs', description: 'Documentation tools', options: ['-v, --verbose'], source: 'commander' },
+    { name: 'build <dir>', description: 'Build the site', options: ['-o, --out <path>'], source: 'commander' }
+  ]);
+  assert.deepEqual(analyze('package.json').cliCommands.map((command) => [command.source, command.name, command.description, command.line]), [
+    ['bin', 'docs-tool', 'Runs bin/docs.js', 3],
+    ['npm-script', 'npm run build', 'tsc -p .', 5],
+    ['npm-script', 'npm run test', 'node --test', 6]
+  ]);
+});
+
+test('environment variables keep literal fallbacks and skip Vite built-ins and comments', () => {
+  assert.deepEqual(analyze('config.ts').envVars, [
+    { name: 'PORT', defaultValue: '8080', line: 2 },
+    { name: 'API_URL', defaultValue: "'https://api.example.com'", line: 3 },
+    { name: 'TIMEOUT_MS', defaultValue: null, line: 4 },
+    { name: 'VITE_PUBLIC_KEY', defaultValue: null, line: 6 },
+    { name: 'REGION', defaultValue: "'us-east-1'", line: 9 },
+    { name: 'SECRET_TOKEN', defaultValue: null, line: 9 }
+  ]);
+  assert.deepEqual(analyze('server.js').envVars, [{ name: 'PORT', defaultValue: '3000', line: 21 }]);
+});
+
+test('files it cannot follow yield no facts instead of guesses', () => {
+  const empty = { functions: [], classes: [], routes: [], cliCommands: [], envVars: [] };
+
+  assert.deepEqual(analyze('broken.ts'), empty);
+  assert.deepEqual(typescriptAnalyzer.analyze('package.json', '{ "name": "half'), empty);
+});
+
+test('tests, declarations and other languages are not read', () => {
+  assert.equal(typescriptAnalyzer.languageOf('src/users.ts'), 'typescript');
+  assert.equal(typescriptAnalyzer.languageOf('server.mjs'), 'javascript');
+  assert.equal(typescriptAnalyzer.languageOf('package.json'), 'javascript');
+  assert.equal(typescriptAnalyzer.languageOf('src/users.test.ts'), null);
+  assert.equal(typescriptAnalyzer.languageOf('src/__tests__/users.ts'), null);
+  assert.equal(typescriptAnalyzer.languageOf('types/index.d.ts'), null);
+  assert.equal(typescriptAnalyzer.languageOf('main.py'), null);
+});
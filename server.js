@@ -12,6 +12,7 @@ import http from 'http';
 import crypto from 'crypto';
 import fetch from 'node-fetch';
 import { createBalancerFromEnv } from './server/gemini/balancer.js';
+import { createCollabRelay } from './server/collab/relay.js';
 
 // Simple retry helper for transient upstream errors (e.g., 503)
 async function fetchWithRetry(input, init, opts) {
@@ -56,6 +57,8 @@ import {
 	doc,
 	updateDoc,
 	deleteDoc,
+	runTransaction,
+	deleteField,
 	Timestamp
 } from 'firebase/firestore';
 
@@ -1187,6 +1190,7 @@ app.get('/api/documents/:documentId', async (req, res) => {
 		const document = {
 			id: docSnap.id,
 			...docSnap.data(),
+			Content: await readDocumentContent(docSnap.id, docSnap.data()),
 			Created_Time: docSnap.data().Created_Time?.toDate?.()?.toISOString() || new Date().toISOString(),
 			Updated_Time: docSnap.data().Updated_Time?.toDate?.()?.toISOString() || new Date().toISOString()
 		};
@@ -1210,24 +1214,47 @@ app.get('/api/documents/:documentId', async (req, res) => {
 app.put('/api/documents/:documentId', async (req, res) => {
 	try {
 		const documentId = req.params.documentId;
-		const updateData = req.body;
+		const { baseVersion, baseHash, ...updateData } = req.body;
+		const writeBase = { baseVersion, baseHash };
 
 		const docRef = doc(firestore, 'Documents', documentId);
-		const docSnap = await getDoc(docRef);
+		let docData;
+		let found = true;
+		let conflict = false;
+		let newVersion = 0;
+
+		await runTransaction(firestore, async (transaction) => {
+			const docSnap = await transaction.get(docRef);
+			if (!docSnap.exists()) {
+				found = false;
+				return;
+			}
 
-		if (!docSnap.exists()) {
-			return res.status(404).json({ error: 'Document not found' });
-		}
+			docData = docSnap.data();
+			if (updateData.Content !== undefined && isStaleWrite(docData, writeBase)) {
+				conflict = true;
+				return;
+			}
 
-		const docData = docSnap.data();
-		const currentVersion = docData?.version || 0;
-		const newVersion = currentVersion + 1;
+			newVersion = (docData?.version || 0) + 1;
 
-		// Add timestamp and version for update
-		updateData.Updated_Time = Timestamp.now();
-		updateData.version = newVersion;
+			// Add timestamp and version for update
+			updateData.Updated_Time = Timestamp.now();
+			updateData.version = newVersion;
+			if (updateData.Content !== undefined) {
+				updateData.Hash = hashJSON(updateData.Content);
+				Object.assign(updateData, inlineContentFields(updateData.Content));
+			}
+
+			transaction.update(docRef, updateData);
+		});
 
-		await updateDoc(docRef, updateData);
+		if (!found) {
+			return res.status(404).json({ error: 'Document not found' });
+		}
+		if (conflict) {
+			return res.status(409).json(buildConflictResponse(documentId, docData, await readDocumentContent(documentId, docData)));
+		}
 
 		// ✅ Save version to DocumentHistory if content changed
 		if (updateData.Content !== undefined) {
@@ -1492,6 +1519,52 @@ function hashJSON(obj) {
 	return "sha256:" + crypto.createHash("sha256").update(JSON.stringify(obj)).digest("hex");
 }
 
+// Optimistic concurrency: a save based on an older version or hash than the stored document is stale
+function isStaleWrite(docData, { baseVersion, baseHash } = {}) {
+	if (baseVersion !== undefined && baseVersion !== null && (docData?.version || 0) !== Number(baseVersion)) {
+		return true;
+	}
+	if (typeof baseHash === 'string' && baseHash) {
+		const currentHash = isChunkedDocument(docData) ? docData.Hash : hashJSON(docData?.Content || '');
+		if (currentHash !== baseHash) return true;
+	}
+	return false;
+}
+
+// Large documents keep their HTML in Documents/{id}/Chunks (see functions/src/services/documentChunks.ts)
+function isChunkedDocument(docData) {
+	return !!docData?.Chunked && Array.isArray(docData?.Chunks);
+}
+
+async function readDocumentContent(documentId, docData) {
+	if (!isChunkedDocument(docData)) {
+		return docData?.Content || '';
+	}
+	const chunks = await Promise.all(docData.Chunks.map((chunk) => getDoc(doc(firestore, 'Documents', documentId, 'Chunks', chunk.id))));
+	return chunks.map((chunkSnap) => chunkSnap.data()?.Html || '').join('');
+}
+
+// This server always stores content inline, which replaces any chunked content
+function inlineContentFields(content) {
+	return { Content: content, Chunked: deleteField(), Chunks: deleteField() };
+}
+
+// 409 body with the stored document so the client can offer a three-way merge
+function buildConflictResponse(documentId, docData, content = docData?.Content || '') {
+	return {
+		error: 'CONFLICT',
+		message: 'The document was changed since this edit started',
+		current: {
+			id: documentId,
+			version: docData?.version || 0,
+			Hash: hashJSON(content),
+			Content: content,
+			EditedBy: docData?.EditedBy || null,
+			Updated_Time: docData?.Updated_Time?.toDate?.()?.toISOString() || null
+		}
+	};
+}
+
 /* ------------------ Document APIs ------------------ */
 
 // ✅ Get all documents for a project
@@ -1526,27 +1599,44 @@ app.get("/api/document/editor/content/:docId", async (req, res) => {
 app.put("/api/document/editor/content/:docId", async (req, res) => {
 	try {
 		const { docId } = req.params;
-		const { content, isDraft, EditedBy } = req.body;
+		const { content, isDraft, EditedBy, baseVersion, baseHash } = req.body;
 
 		const docRef = doc(firestore, 'Documents', docId);
-		const docSnap = await getDoc(docRef);
-
-		if (!docSnap.exists()) {
-			return res.status(404).json({ error: 'NOT_FOUND' });
-		}
+		let docData;
+		let found = true;
+		let conflict = false;
+		let newVersion = 0;
+
+		await runTransaction(firestore, async (transaction) => {
+			const docSnap = await transaction.get(docRef);
+			if (!docSnap.exists()) {
+				found = false;
+				return;
+			}
 
-		const docData = docSnap.data();
-		const currentVersion = docData?.version || 0;
-		const newVersion = currentVersion + 1;
+			docData = docSnap.data();
+			if (isStaleWrite(docData, { baseVersion, baseHash })) {
+				conflict = true;
+				return;
+			}
 
-		await updateDoc(docRef, {
-			Content: content,
-			IsDraft: isDraft,
-			Updated_Time: Timestamp.now(),
-			Hash: hashJSON(content),
-			version: newVersion,
+			newVersion = (docData?.version || 0) + 1;
+			transaction.update(docRef, {
+				...inlineContentFields(content),
+				IsDraft: isDraft,
+				Updated_Time: Timestamp.now(),
+				Hash: hashJSON(content),
+				version: newVersion,
+			});
 		});
 
+		if (!found) {
+			return res.status(404).json({ error: 'NOT_FOUND' });
+		}
+		if (conflict) {
+			return res.status(409).json(buildConflictResponse(docId, docData, await readDocumentContent(docId, docData)));
+		}
+
 		// ✅ Save version to DocumentHistory
 		try {
 			await addDoc(collection(firestore, 'DocumentHistory'), {
@@ -2124,7 +2214,7 @@ wss.on("connection", (ws) => {
 						if (editIsSummary) {
 							updateData.Summary = editContent;
 						} else {
-							updateData.Content = editContent;
+							Object.assign(updateData, inlineContentFields(editContent));
 						}
 
 						await updateDoc(docRef, updateData);
@@ -2184,7 +2274,7 @@ wss.on("connection", (ws) => {
 						if (isSummary) {
 							updateData.Summary = content;
 						} else {
-							updateData.Content = content;
+							Object.assign(updateData, inlineContentFields(content));
 						}
 
 						await updateDoc(docRef, updateData);
@@ -2245,8 +2335,15 @@ wss.on("connection", (ws) => {
 	ws.send(JSON.stringify({ type: "connected" }));
 });
 
+// Collaborative editing relay (Yjs updates + presence) on /collab/<documentId>
+const collabRelay = createCollabRelay();
+
 // Handle WebSocket upgrade requests
 server.on("upgrade", (req, socket, head) => {
+	if (collabRelay.handles(req)) {
+		collabRelay.handleUpgrade(req, socket, head);
+		return;
+	}
 	wss.handleUpgrade(req, socket, head, (ws) => {
 		wss.emit("connection", ws, req);
 	});
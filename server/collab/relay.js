@@ -0,0 +1,128 @@
+// server/collab/relay.js - WebSocket relay for collaborative editing (Yjs updates + presence)
+// Clients connect to /collab/<documentId>. Each room keeps a merged Y.Doc so late joiners
+// can catch up; persistence stays with the clients (Firestore CollabUpdates).
+import * as Y from 'yjs';
+import {
+	Awareness,
+	applyAwarenessUpdate,
+	encodeAwarenessUpdate,
+	removeAwarenessStates,
+} from 'y-protocols/awareness';
+import { WebSocketServer } from 'ws';
+
+// Keep in sync with src/services/collabWebSocketProvider.ts
+const MESSAGE_SYNC_REQUEST = 0;
+const MESSAGE_SYNC_REPLY = 1;
+const MESSAGE_UPDATE = 2;
+const MESSAGE_AWARENESS = 3;
+
+// Rooms without clients are dropped after this long
+const ROOM_IDLE_MS = Number(process.env.COLLAB_ROOM_IDLE_MS || 5 * 60 * 1000);
+
+export const COLLAB_PATH_PREFIX = '/collab/';
+
+const frame = (type, payload) => {
+	const message = new Uint8Array(payload.length + 1);
+	message[0] = type;
+	message.set(payload, 1);
+	return message;
+};
+
+export function createCollabRelay() {
+	const wss = new WebSocketServer({ noServer: true });
+	// documentId -> { doc, awareness, clients: Map<WebSocket, Set<clientId>>, idleTimer }
+	const rooms = new Map();
+
+	const getRoom = (documentId) => {
+		let room = rooms.get(documentId);
+		if (!room) {
+			const doc = new Y.Doc();
+			room = { doc, awareness: new Awareness(doc), clients: new Map(), idleTimer: null };
+			// The relay has no presence of its own
+			room.awareness.setLocalState(null);
+			// Remember which awareness ids belong to each socket to clean up on disconnect
+			room.awareness.on('update', ({ added, updated }, origin) => {
+				const owned = room.clients.get(origin);
+				if (owned) [...added, ...updated].forEach((id) => owned.add(id));
+			});
+			rooms.set(documentId, room);
+		}
+		if (room.idleTimer) {
+			clearTimeout(room.idleTimer);
+			room.idleTimer = null;
+		}
+		return room;
+	};
+
+	const broadcast = (room, sender, message) => {
+		for (const client of room.clients.keys()) {
+			if (client !== sender && client.readyState === client.OPEN) {
+				client.send(message);
+			}
+		}
+	};
+
+	wss.on('connection', (ws, req) => {
+		const documentId = decodeURIComponent(req.url.slice(COLLAB_PATH_PREFIX.length).split('?')[0]);
+		if (!documentId) {
+			ws.close(1008, 'Missing document id');
+			return;
+		}
+
+		const room = getRoom(documentId);
+		room.clients.set(ws, new Set());
+
+		// Existing presence so the new client sees who is already here
+		const present = Array.from(room.awareness.getStates().keys());
+		if (present.length > 0) {
+			ws.send(frame(MESSAGE_AWARENESS, encodeAwarenessUpdate(room.awareness, present)));
+		}
+
+		ws.on('message', (data) => {
+			try {
+				const message = new Uint8Array(data);
+				const payload = message.subarray(1);
+				switch (message[0]) {
+					case MESSAGE_SYNC_REQUEST:
+						ws.send(frame(MESSAGE_SYNC_REPLY, Y.encodeStateAsUpdate(room.doc, payload)));
+						break;
+					case MESSAGE_UPDATE:
+						Y.applyUpdate(room.doc, payload, ws);
+						broadcast(room, ws, message);
+						break;
+					case MESSAGE_AWARENESS:
+						applyAwarenessUpdate(room.awareness, payload, ws);
+						broadcast(room, ws, message);
+						break;
+					default:
+						console.warn(`⚠️ Unknown collaboration message type ${message[0]} for ${documentId}`);
+				}
+			} catch (error) {
+				console.error('❌ Collaboration relay message error:', error);
+			}
+		});
+
+		ws.on('close', () => {
+			const clientIds = Array.from(room.clients.get(ws) || []);
+			room.clients.delete(ws);
+			if (clientIds.length > 0) {
+				removeAwarenessStates(room.awareness, clientIds, ws);
+				broadcast(room, ws, frame(MESSAGE_AWARENESS, encodeAwarenessUpdate(room.awareness, clientIds)));
+			}
+			if (room.clients.size === 0) {
+				room.idleTimer = setTimeout(() => {
+					room.awareness.destroy();
+					room.doc.destroy();
+					rooms.delete(documentId);
+				}, ROOM_IDLE_MS);
+			}
+		});
+	});
+
+	return {
+		handles: (req) => (req.url || '').startsWith(COLLAB_PATH_PREFIX),
+		handleUpgrade: (req, socket, head) => {
+			wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+		},
+	};
+}
@@ -0,0 +1,23 @@
+// server/collab/standalone.js - Run the collaboration relay without the rest of the API server
+import http from 'http';
+import { createCollabRelay } from './relay.js';
+
+const PORT = Number(process.env.COLLAB_RELAY_PORT || 1234);
+
+const relay = createCollabRelay();
+const server = http.createServer((req, res) => {
+	res.writeHead(200, { 'Content-Type': 'text/plain' });
+	res.end('Dotivra collaboration relay\n');
+});
+
+server.on('upgrade', (req, socket, head) => {
+	if (relay.handles(req)) {
+		relay.handleUpgrade(req, socket, head);
+	} else {
+		socket.destroy();
+	}
+});
+
+server.listen(PORT, () => {
+	console.log(`🤝 Collaboration relay listening on ws://localhost:${PORT}/collab`);
+});
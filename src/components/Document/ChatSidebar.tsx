@@ -350,9 +350,11 @@ export default function ChatSidebar({
             // Call recommendations API (fallback to Firebase Functions if primary 404)
             // Note: API_BASE_URL already includes /api, so we don't add it again
             const primaryUrl = buildApiUrl('api/gemini/recommendations');
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (user) headers.Authorization = `Bearer ${await user.getIdToken()}`;
             let response = await fetch(primaryUrl, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers,
                 body: JSON.stringify({
                     documentId,
                     content: documentData.Content
@@ -363,7 +365,7 @@ export default function ChatSidebar({
                 const fallbackUrl = `https://us-central1-dotivra.cloudfunctions.net/${endpoint}`;
                 response = await fetch(fallbackUrl, {
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
+                    headers,
                     body: JSON.stringify({ documentId, content: documentData.Content })
                 });
             }
@@ -885,6 +887,8 @@ From structure improvements to real-time content updates, I ensure your work rem
                 let activeStageMessageId: string | null = null;
                 const structuredStages: ChatMessageStage[] = [];
                 let hasDisplayedPlanningStage = false;
+                // Reasoning streamed from the server updates one card in place until the next stage starts
+                let streamingReasoning: { id: string; entry: ChatMessageStage; stageIndex: number } | null = null;
 
                 const stageFallbackText: Record<ChatMessageStage['stage'], string> = {
                     planning: 'I\'m mapping out the best approach for you.',
@@ -985,7 +989,7 @@ From structure improvements to real-time content updates, I ensure your work rem
                 // Create abort controller for this generation
                 abortControllerRef.current = new AbortController();
 
-                for await (const stage of aiService.executeAIAgent(
+                for await (const stage of aiService.streamAIAgent(
                     fullPrompt,
                     documentId,
                     recentHistory,
@@ -1000,6 +1004,18 @@ From structure improvements to real-time content updates, I ensure your work rem
                     }
 
 
+                    // Streaming reasoning text is already shown; just keep the card and its record current
+                    if (stage.streaming && streamingReasoning && activeStageMessageId === streamingReasoning.id) {
+                        const { id, entry, stageIndex } = streamingReasoning;
+                        entry.message = typeof stage.content === 'string' ? stage.content : entry.message;
+                        allStages[stageIndex] = { ...allStages[stageIndex], content: stage.content };
+                        setInternalMessages(prev => prev.map(msg =>
+                            msg.id === id ? { ...msg, content: [{ ...entry }] } : msg
+                        ));
+                        continue;
+                    }
+                    streamingReasoning = null;
+
                     // Collect all stages for HTML generation
                     allStages.push({
                         stage: stage.stage as any,
@@ -1069,6 +1085,13 @@ From structure improvements to real-time content updates, I ensure your work rem
                         case 'reasoning': {
                             finalizeActiveStageMessage();
                             addStageMessage('reasoning', stage.content);
+                            if (stage.streaming && activeStageMessageId) {
+                                streamingReasoning = {
+                                    id: activeStageMessageId,
+                                    entry: structuredStages[structuredStages.length - 1],
+                                    stageIndex: allStages.length - 1
+                                };
+                            }
                             break;
                         }
                         case 'toolUsed': {
@@ -1236,7 +1259,8 @@ From structure improvements to real-time content updates, I ensure your work rem
                                 to = Math.max(from, Math.min(to, docSize));
 
                                 // Apply highlight based on action type
-                                if (execution.tool === 'remove_document_content') {
+                                if (execution.tool === 'remove_document_content' ||
+                                    execution.tool === 'remove_document_block') {
                                     // For deletions, highlight the surrounding context in light red
                                     // Since content is removed, we highlight from the deletion point
                                     try {
@@ -1253,7 +1277,8 @@ From structure improvements to real-time content updates, I ensure your work rem
                                     }
                                 } else if (execution.tool === 'insert_document_content' ||
                                     execution.tool === 'append_document_content' ||
-                                    execution.tool === 'insert_document_content_at_location') {
+                                    execution.tool === 'insert_document_content_at_location' ||
+                                    execution.tool === 'insert_document_block') {
                                     // For additions, highlight in green
                                     try {
                                         editor.chain()
@@ -1263,7 +1288,8 @@ From structure improvements to real-time content updates, I ensure your work rem
                                     } catch (e) {
 
                                     }
-                                } else if (execution.tool === 'replace_document_content') {
+                                } else if (execution.tool === 'replace_document_content' ||
+                                    execution.tool === 'replace_document_block') {
                                     // For replacements, highlight in yellow
                                     try {
                                         editor.chain()
@@ -1903,9 +1929,12 @@ From structure improvements to real-time content updates, I ensure your work rem
                                         {
                                             const endpoint = 'api/tools/execute';
                                             const primary = buildApiUrl(endpoint);
+                                            // Attributes the revert to this user in the tool audit log
+                                            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+                                            if (user) headers.Authorization = `Bearer ${await user.getIdToken()}`;
                                             let tr = await fetch(primary, {
                                                 method: 'POST',
-                                                headers: { 'Content-Type': 'application/json' },
+                                                headers,
                                                 body: JSON.stringify({
                                                     tool: 'replace_document_content',
                                                     args: { position: { from: 0, to: toLen }, content: aiBeforeContent || '', reason: 'Revert AI change' },
@@ -1916,7 +1945,7 @@ From structure improvements to real-time content updates, I ensure your work rem
                                                 const fallback = `https://us-central1-dotivra.cloudfunctions.net/${endpoint}`;
                                                 tr = await fetch(fallback, {
                                                     method: 'POST',
-                                                    headers: { 'Content-Type': 'application/json' },
+                                                    headers,
                                                     body: JSON.stringify({
                                                         tool: 'replace_document_content',
                                                         args: { position: { from: 0, to: toLen }, content: aiBeforeContent || '', reason: 'Revert AI change' },
@@ -0,0 +1,59 @@
+import { Users } from "lucide-react";
+import { useCollaborators } from "@/hooks/useCollaboration";
+import type { CollaborationSession } from "@/services/collaborationService";
+
+interface CollaboratorPresenceProps {
+    session: CollaborationSession;
+}
+
+const MAX_AVATARS = 4;
+
+const initials = (name: string) =>
+    name
+        .split(/[\s@.]+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((part) => part[0]?.toUpperCase())
+        .join("") || "?";
+
+const STATUS_STYLES = {
+    connected: { dot: "bg-emerald-500", label: "Live" },
+    connecting: { dot: "bg-yellow-400", label: "Connecting" },
+    disconnected: { dot: "bg-red-500", label: "Offline, changes are kept locally" },
+};
+
+export default function CollaboratorPresence({ session }: CollaboratorPresenceProps) {
+    const { collaborators, status } = useCollaborators(session);
+    const statusStyle = STATUS_STYLES[status];
+    const hidden = collaborators.length - MAX_AVATARS;
+
+    return (
+        <div className="flex items-center gap-2 bg-white border border-gray-200 rounded-full shadow-sm pl-2 pr-3 py-1">
+            <span className={`w-2 h-2 rounded-full ${statusStyle.dot}`} title={statusStyle.label} />
+            {collaborators.length === 0 ? (
+                <span className="flex items-center gap-1 text-xs text-gray-500">
+                    <Users className="w-3.5 h-3.5" />
+                    Only you
+                </span>
+            ) : (
+                <div className="flex -space-x-2">
+                    {collaborators.slice(0, MAX_AVATARS).map((collaborator) => (
+                        <div
+                            key={collaborator.clientId}
+                            className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-[11px] font-semibold text-white"
+                            style={{ backgroundColor: collaborator.color }}
+                            title={collaborator.name}
+                        >
+                            {initials(collaborator.name)}
+                        </div>
+                    ))}
+                    {hidden > 0 && (
+                        <div className="w-7 h-7 rounded-full border-2 border-white bg-gray-200 flex items-center justify-center text-[11px] font-semibold text-gray-700">
+                            +{hidden}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { Plugin, PluginKey } from "prosemirror-state";
+import { Decoration, DecorationSet } from "prosemirror-view";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { AIChangesPreviewModal } from "./AIChangesPreviewModal";
+import { useAuth } from "@/context/AuthContext";
+import { aiService, type DriftReport, type DriftSection, type DriftCodeChange } from "@/services/aiService";
+import { generatePreviewWithHighlights } from "@/utils/previewGenerator";
+import { showError } from "@/utils/sweetAlert";
+
+interface DocsDriftPanelProps {
+    documentId: string;
+    editor: Editor | null;
+    // Patches are written against the editor's HTML, so every section has to be loaded
+    contentComplete: boolean;
+}
+
+type PatchPreview = {
+    section: DriftSection;
+    originalHtml: string;
+    previewHtml: string;
+    finalHtml: string;
+    removedHtml: string;
+    changes: ReturnType<typeof generatePreviewWithHighlights>["changes"];
+};
+
+const describeChange = (change: DriftCodeChange) =>
+    `${change.kind === "file" ? "File" : change.kind === "env" ? "Env" : change.kind === "cli" ? "Command" : change.kind[0].toUpperCase() + change.kind.slice(1)} ` +
+    `${change.name} ${change.change}${change.detail ? ` (${change.detail})` : ""}`;
+
+const sectionLabel = (section: DriftSection) => section.path || "Introduction";
+
+// Heading paths as the server builds them: titles of the enclosing headings joined by " > "
+const forEachHeading = (doc: Editor["state"]["doc"], visit: (path: string, pos: number, size: number) => void) => {
+    const stack: Array<{ level: number; title: string }> = [];
+    doc.forEach((node, offset) => {
+        if (node.type.name !== "heading") return;
+        const level = Number(node.attrs.level) || 1;
+        while (stack.length && stack[stack.length - 1].level >= level) {
+            stack.pop();
+        }
+        stack.push({ level, title: node.textContent.replace(/\s+/g, " ").trim() });
+        visit(stack.map((heading) => heading.title).join(" > "), offset, node.nodeSize);
+    });
+};
+
+/**
+ * Sections that commits since the document was generated or verified may have
+ * made wrong: flagged in the editor, listed here, and patched through the AI
+ * changes preview.
+ */
+export default function DocsDriftPanel({ documentId, editor, contentComplete }: DocsDriftPanelProps) {
+    const { user } = useAuth();
+    const [report, setReport] = useState<DriftReport | null>(null);
+    const [expanded, setExpanded] = useState(false);
+    const [checking, setChecking] = useState(false);
+    const [patchingPath, setPatchingPath] = useState<string | null>(null);
+    const [preview, setPreview] = useState<PatchPreview | null>(null);
+
+    const pluginKeyRef = useRef(new PluginKey(`docs-drift-${Math.random().toString(36).substring(2)}`));
+    const flaggedRef = useRef<Map<string, string>>(new Map());
+
+    const check = useCallback(async (force = false) => {
+        if (!user || !documentId) return;
+        setChecking(true);
+        try {
+            setReport(await aiService.checkDocumentDrift(user, documentId, force));
+        } catch (error) {
+            console.error("Error checking document for drift:", error);
+        } finally {
+            setChecking(false);
+        }
+    }, [user, documentId]);
+
+    useEffect(() => {
+        setReport(null);
+        setPreview(null);
+        check();
+    }, [check]);
+
+    // Flag the headings of affected sections in the editor
+    useEffect(() => {
+        if (!editor || editor.isDestroyed) return;
+        const key = pluginKeyRef.current;
+
+        editor.registerPlugin(new Plugin({
+            key,
+            props: {
+                decorations(state) {
+                    if (flaggedRef.current.size === 0) return DecorationSet.empty;
+                    const decorations: Decoration[] = [];
+                    forEachHeading(state.doc, (path, pos, size) => {
+                        const summary = flaggedRef.current.get(path);
+                        if (summary) {
+                            decorations.push(Decoration.node(pos, pos + size, { class: "docs-drift-flagged", title: summary }));
+                        }
+                    });
+                    return DecorationSet.create(state.doc, decorations);
+                },
+            },
+        }));
+
+        return () => {
+            if (!editor.isDestroyed) {
+                editor.unregisterPlugin(key);
+            }
+        };
+    }, [editor]);
+
+    useEffect(() => {
+        flaggedRef.current = new Map((report?.status === "drifted" ? report.sections : [])
+            .filter((section) => section.path)
+            .map((section) => [section.path, `May be out of date: ${section.changes.map(describeChange).join("; ")}`]));
+        if (editor && !editor.isDestroyed) {
+            // Redraw decorations without changing the document
+            editor.view.dispatch(editor.state.tr.setMeta(pluginKeyRef.current, true));
+        }
+    }, [report, editor]);
+
+    const goToSection = (section: DriftSection) => {
+        if (!editor) return;
+        let target = section.path ? -1 : 0;
+        forEachHeading(editor.state.doc, (path, pos) => {
+            if (target === -1 && path === section.path) target = pos;
+        });
+        if (target >= 0) {
+            editor.chain().focus().setTextSelection(target + 1).scrollIntoView().run();
+        }
+    };
+
+    const proposePatch = async (section: DriftSection) => {
+        if (!user || !editor) return;
+        setPatchingPath(section.path);
+        try {
+            const originalHtml = editor.getHTML();
+            const patch = await aiService.proposeDriftPatch(user, documentId, section.id, originalHtml);
+            const { previewHtml, finalHtml, removedHtml, changes } = generatePreviewWithHighlights(originalHtml, [{
+                tool: "replace_document_block",
+                args: { content: patch.proposedHtml },
+                result: {
+                    range: { before: { from: patch.from, to: patch.to } },
+                    insertedContent: patch.proposedHtml,
+                    removedContent: patch.originalHtml,
+                },
+                success: true,
+                timestamp: Date.now(),
+            }]);
+            setPreview({ section, originalHtml, previewHtml, finalHtml, removedHtml, changes });
+        } catch (error) {
+            showError("Update Failed", error instanceof Error ? error.message : "Could not propose an update");
+        } finally {
+            setPatchingPath(null);
+        }
+    };
+
+    const resolveSection = async (section: DriftSection) => {
+        if (!user) return;
+        try {
+            setReport(await aiService.resolveDriftSection(user, documentId, section.path));
+        } catch (error) {
+            showError("Update Failed", error instanceof Error ? error.message : "Could not mark the section as reviewed");
+        }
+    };
+
+    const acceptPatch = async () => {
+        if (!preview || !editor) return;
+        const { finalHtml, section } = preview;
+        setPreview(null);
+        // Goes through the editor's normal update and autosave
+        editor.commands.setContent(finalHtml);
+        await resolveSection(section);
+    };
+
+    const verify = async () => {
+        if (!user) return;
+        try {
+            setReport(await aiService.verifyDocument(user, documentId));
+            setExpanded(false);
+        } catch (error) {
+            showError("Verification Failed", error instanceof Error ? error.message : "Could not verify the document");
+        }
+    };
+
+    if (!report || report.status !== "drifted") return null;
+
+    return (
+        <>
+            <div className="fixed bottom-6 left-6 z-40 w-96 max-w-[calc(100vw-3rem)] bg-white border border-amber-300 rounded-lg shadow-lg text-sm">
+                <button
+                    type="button"
+                    onClick={() => setExpanded(!expanded)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-left text-amber-900 bg-amber-50 rounded-lg"
+                >
+                    <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600" />
+                    <span className="flex-1">
+                        {report.sections.length} section{report.sections.length !== 1 ? "s" : ""} may be out of date
+                    </span>
+                    {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+                </button>
+
+                {expanded && (
+                    <div className="border-t border-amber-200">
+                        <p className="px-3 py-2 text-xs text-gray-500">
+                            {report.repository} changed in {report.changedFiles} file{report.changedFiles !== 1 ? "s" : ""} since{" "}
+                            {report.baseRevision?.substring(0, 7)}
+                            {report.baseEstimated ? " (the last commit before this document was created)" : ""}.
+                        </p>
+                        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+                            {report.sections.map((section) => (
+                                <li key={section.path} className="px-3 py-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => goToSection(section)}
+                                        className="font-medium text-gray-900 hover:text-blue-600 text-left"
+                                    >
+                                        {sectionLabel(section)}
+                                    </button>
+                                    <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+                                        {section.changes.map((change, index) => (
+                                            <li key={index} className="truncate" title={describeChange(change)}>
+                                                {describeChange(change)}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <div className="mt-2 flex gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => proposePatch(section)}
+                                            disabled={!contentComplete || patchingPath !== null}
+                                            title={contentComplete ? undefined : "Wait until every section has loaded"}
+                                            className="inline-flex items-center gap-1 rounded-md bg-blue-600 px-2 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                                        >
+                                            {patchingPath === section.path
+                                                ? <Loader2 className="w-3 h-3 animate-spin" />
+                                                : <Sparkles className="w-3 h-3" />}
+                                            Propose update
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => resolveSection(section)}
+                                            className="rounded-md border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                                        >
+                                            Still accurate
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-gray-100">
+                            <button
+                                type="button"
+                                onClick={() => check(true)}
+                                disabled={checking}
+                                className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            >
+                                <RefreshCw className={`w-3 h-3 ${checking ? "animate-spin" : ""}`} />
+                                Check again
+                            </button>
+                            <button
+                                type="button"
+                                onClick={verify}
+                                className="inline-flex items-center gap-1 rounded-md border border-emerald-300 px-2 py-1 text-xs font-medium text-emerald-700 hover:bg-emerald-50"
+                            >
+                                <CheckCircle2 className="w-3 h-3" />
+                                Mark document as verified
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <AIChangesPreviewModal
+                isOpen={preview !== null}
+                onClose={() => setPreview(null)}
+                originalHtml={preview?.originalHtml || ""}
+                previewHtml={preview?.previewHtml || ""}
+                finalHtml={preview?.finalHtml || ""}
+                removedHtml={preview?.removedHtml}
+                changes={preview?.changes ?? { additions: 0, deletions: 0, totalChanges: 0 }}
+                onAccept={acceptPatch}
+                onReject={() => setPreview(null)}
+                onRegenerate={() => {
+                    const section = preview?.section;
+                    setPreview(null);
+                    if (section) proposePatch(section);
+                }}
+            />
+        </>
+    );
+}
@@ -78,10 +78,10 @@ export default function DocsHelp({ isOpen, onClose }: DocsHelpProps) {
                                     </h3>
                                     <div className="space-y-2 text-sm text-gray-700">
                                         <p>
-                                            <strong>Import Files:</strong> Click File → Import to import Markdown (.md), Microsoft Word (.docx, .doc), or Google Docs files into your document. You can choose to overwrite the entire content or append to the existing document.
+                                            <strong>Import Files:</strong> Click File → Import to import Markdown (.md) or Microsoft Word (.docx) files into your document. Google Docs can be imported after downloading them as .docx. You can choose to overwrite the entire content or append to the existing document.
                                         </p>
                                         <p>
-                                            <strong>Export:</strong> Click File → Export to save your document as Markdown (.md) or PDF (.pdf).
+                                            <strong>Export:</strong> Click File → Export to save your document as Markdown (.md), PDF (.pdf) or Word (.docx).
                                         </p>
                                         <p>
                                             <strong>Print:</strong> Use the Print button or press <kbd className="px-2 py-1 bg-gray-100 rounded border">Ctrl+P</kbd> to print your document.
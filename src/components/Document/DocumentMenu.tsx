@@ -1,7 +1,6 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { marked } from 'marked';
 import { Input } from "@/components/ui/input";
 import { addDividersAfterHeadings } from "@/utils/addDividersAfterHeadings";
 import {
@@ -18,6 +17,7 @@ import {
 	FileText,
 	X,
 	Download,
+	FileDown,
 	BookTemplate,
 	Wrench,
 	HelpCircle,
@@ -46,10 +46,14 @@ import {
 
 // Import document context
 import { useDocument } from "@/context/DocumentContext";
+import { useAuth } from "@/context/AuthContext";
 import { showNotification } from "@/services/documentService";
+import { API_ENDPOINTS } from "@/lib/apiConfig";
 
 // Import Mermaid export utilities
 import { processMermaidForExport } from "@/utils/mermaidExportUtils";
+import { convertDocxToHtml, convertHtmlToDocx } from "@/utils/docxConverter";
+import { convertHtmlToMarkdown, convertMarkdownToHtml } from "@/utils/markdownConverter";
 
 // NEW: ProseMirror bits for decorations
 import { Plugin, PluginKey, TextSelection } from "prosemirror-state";
@@ -75,8 +79,10 @@ export default function DocumentMenu({
 	versionCount = 0,
 	onToolbarToggle,
 	onNavigationPaneToggle,
+	documentId,
 }: DocumentMenuProps) {
 	const navigate = useNavigate();
+	const { user } = useAuth();
 	// Get context state for navigation pane
 	const { showNavigationPane, setShowNavigationPane: setContextNavigationPane } = useDocument();
 
@@ -476,8 +482,34 @@ export default function DocumentMenu({
 	};
 
 	const handleExportToPDF = async () => {
-		// Use the same print functionality as the print button
-		await handlePrint();
+		// Saved documents are rendered on the server; anything else goes through the print dialog
+		if (!documentId || !user) {
+			await handlePrint();
+			return;
+		}
+
+		try {
+			showNotification('Preparing PDF...', 'info');
+			const idToken = await user.getIdToken();
+			const response = await fetch(API_ENDPOINTS.documentPdfExport(documentId), {
+				headers: { Authorization: `Bearer ${idToken}` },
+			});
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(errorData.error || `PDF export failed (${response.status})`);
+			}
+
+			const url = URL.createObjectURL(await response.blob());
+			const a = document.createElement('a');
+			a.href = url;
+			a.download = `${documentTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`;
+			a.click();
+			URL.revokeObjectURL(url);
+		} catch (error) {
+			console.error("Error exporting PDF:", error);
+			showNotification('Server PDF export failed, opening the print dialog instead.', 'error');
+			await handlePrint();
+		}
 	};
 
 
@@ -667,18 +699,21 @@ export default function DocumentMenu({
 		const fileExtension = fileName.split('.').pop()?.toLowerCase();
 
 
-		// Only accept Markdown files
-		if (fileExtension !== 'md') {
-			alert('Please select a Markdown (.md) file');
+		// Only accept Markdown and Word files
+		if (fileExtension !== 'md' && fileExtension !== 'docx') {
+			alert('Please select a Markdown (.md) or Word (.docx) file');
 			return;
 		}
 
 		try {
-			// Handle Markdown files
-			const markdownContent = await file.text();
-
-			// Convert markdown to HTML
-			const htmlContent = await marked(markdownContent);
+			let htmlContent: string;
+			if (fileExtension === 'docx') {
+				// Convert Word document to HTML (headings, lists, tables, images, code)
+				htmlContent = await convertDocxToHtml(file);
+			} else {
+				// Convert markdown to HTML, including colors, task lists and Mermaid
+				htmlContent = convertMarkdownToHtml(await file.text());
+			}
 
 			// Check if there's existing content
 			const hasContent = editor && editor.getText().trim().length > 0;
@@ -749,7 +784,22 @@ export default function DocumentMenu({
 		setShowImportConfirm(false);
 	};
 
-	const handleExport = (format: 'md' | 'pdf') => {
+	const handleExportToDocx = async (content: string) => {
+		try {
+			const blob = await convertHtmlToDocx(content, documentTitle);
+			const url = URL.createObjectURL(blob);
+			const a = document.createElement('a');
+			a.href = url;
+			a.download = `${documentTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`;
+			a.click();
+			URL.revokeObjectURL(url);
+		} catch (error) {
+			console.error("Error exporting DOCX:", error);
+			showNotification('Error exporting Word document. Please try again.', 'error');
+		}
+	};
+
+	const handleExport = (format: 'md' | 'pdf' | 'docx') => {
 		if (format === 'pdf') {
 			handleExportToPDF();
 			return;
@@ -764,37 +814,13 @@ export default function DocumentMenu({
 			return;
 		}
 
-		const convertToMarkdown = (html: string): string => {
-			const tempDiv = document.createElement('div');
-			tempDiv.innerHTML = html;
-
-			// Basic HTML to Markdown conversion
-			const markdown = html
-				.replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n')
-				.replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n')
-				.replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n')
-				.replace(/<h4[^>]*>(.*?)<\/h4>/gi, '#### $1\n\n')
-				.replace(/<h5[^>]*>(.*?)<\/h5>/gi, '##### $1\n\n')
-				.replace(/<h6[^>]*>(.*?)<\/h6>/gi, '###### $1\n\n')
-				.replace(/<strong[^>]*>(.*?)<\/strong>/gi, '**$1**')
-				.replace(/<b[^>]*>(.*?)<\/b>/gi, '**$1**')
-				.replace(/<em[^>]*>(.*?)<\/em>/gi, '*$1*')
-				.replace(/<i[^>]*>(.*?)<\/i>/gi, '*$1*')
-				.replace(/<ul[^>]*>/gi, '')
-				.replace(/<\/ul>/gi, '\n')
-				.replace(/<ol[^>]*>/gi, '')
-				.replace(/<\/ol>/gi, '\n')
-				.replace(/<li[^>]*>(.*?)<\/li>/gi, '- $1\n')
-				.replace(/<p[^>]*>(.*?)<\/p>/gi, '$1\n\n')
-				.replace(/<br[^>]*>/gi, '\n')
-				.replace(/<[^>]*>/g, '')
-				.replace(/\n{3,}/g, '\n\n')
-				.trim();
-
-			return markdown;
-		};
+		if (format === 'docx') {
+			handleExportToDocx(contentToExport);
+			setShowImportOptions(false);
+			return;
+		}
 
-		const content = convertToMarkdown(contentToExport);
+		const content = convertHtmlToMarkdown(contentToExport);
 		const filename = `${documentTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.md`;
 		const mimeType = 'text/markdown';
 
@@ -895,12 +921,12 @@ export default function DocumentMenu({
 									<label className="flex items-center p-2 hover:bg-gray-100 rounded cursor-pointer">
 										<input
 											type="file"
-											accept=".md"
+											accept=".md,.docx"
 											onChange={handleImport}
 											className="hidden"
 										/>
 										<Upload className="w-4 h-4 mr-2" />
-										<span className="text-sm font-semibold">Import Markdown (.md)</span>
+										<span className="text-sm font-semibold">Import (.md, .docx)</span>
 									</label>
 
 									<div className="border-t border-gray-200 my-1"></div>
@@ -933,6 +959,18 @@ export default function DocumentMenu({
 										<Download className="w-4 h-4 mr-2" />
 										<span className="text-sm">PDF (.pdf)</span>
 									</Button>
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => {
+											handleExport('docx');
+											setShowImportOptions(false);
+										}}
+										className="w-full justify-start h-8 px-2 text-gray-700"
+									>
+										<FileDown className="w-4 h-4 mr-2" />
+										<span className="text-sm">Word (.docx)</span>
+									</Button>
 
 									<div className="border-t border-gray-200 my-1"></div>
 
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { generateHTML, generateJSON } from "@tiptap/core";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { GitPullRequestArrow, Loader2 } from "lucide-react";
+import DiffView from "./VersionHistory/DiffView";
+import { useAuth } from "@/context/AuthContext";
+import { githubClient, type DocumentSync, type UpstreamFile } from "@/lib/githubClient";
+import { convertMarkdownToHtml } from "@/utils/markdownConverter";
+import { showError } from "@/utils/sweetAlert";
+
+interface GitHubSyncPanelProps {
+    documentId: string;
+    editor: Editor | null;
+    // Pulling replaces the whole document, so every section has to be loaded
+    contentComplete: boolean;
+}
+
+type PullPreview = {
+    currentHtml: string;
+    upstreamHtml: string;
+};
+
+/**
+ * Offers edits made to the document's Markdown file on GitHub (including pull
+ * requests changed in review) as a diff against the editor content. Hunks can
+ * be kept as they are in the document before the rest is applied.
+ */
+export default function GitHubSyncPanel({ documentId, editor, contentComplete }: GitHubSyncPanelProps) {
+    const { user } = useAuth();
+    const [sync, setSync] = useState<DocumentSync | null>(null);
+    const [upstream, setUpstream] = useState<UpstreamFile | null>(null);
+    const [preview, setPreview] = useState<PullPreview | null>(null);
+    const [applying, setApplying] = useState(false);
+
+    const check = useCallback(async () => {
+        if (!user || !documentId) return;
+        try {
+            const result = await githubClient.getDocumentSync(user, documentId);
+            setSync(result.sync);
+            setUpstream(result.upstream);
+        } catch (error) {
+            // Unlinked repositories and missing app installations are reported in the project's sync dialog
+            console.error("Error checking GitHub sync:", error);
+        }
+    }, [user, documentId]);
+
+    useEffect(() => {
+        setSync(null);
+        setUpstream(null);
+        setPreview(null);
+        check();
+    }, [check]);
+
+    const openPreview = () => {
+        if (!editor || !upstream) return;
+        // Parsed through the editor's schema so only real differences show up in the diff
+        const extensions = editor.extensionManager.extensions;
+        const upstreamHtml = generateHTML(generateJSON(convertMarkdownToHtml(upstream.markdown), extensions), extensions);
+        setPreview({ currentHtml: editor.getHTML(), upstreamHtml });
+    };
+
+    const applyPull = async () => {
+        if (!user || !editor || !upstream || !preview) return;
+        setApplying(true);
+        try {
+            // Goes through the editor's normal update and autosave
+            editor.commands.setContent(preview.upstreamHtml);
+            setSync(await githubClient.markDocumentPulled(user, documentId, upstream));
+            setUpstream(null);
+            setPreview(null);
+        } catch (error) {
+            showError("Pull Failed", error instanceof Error ? error.message : "Could not record the pulled changes");
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    if (!sync || !upstream) return null;
+
+    return (
+        <>
+            <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 bg-white border border-blue-200 rounded-lg shadow-lg px-3 py-2 text-sm">
+                <GitPullRequestArrow className="w-4 h-4 shrink-0 text-blue-600" />
+                <span className="text-gray-700">
+                    <span className="font-mono text-xs">{sync.path}</span> changed on GitHub
+                    {sync.pullRequest ? ` while #${sync.pullRequest.number} is open` : ""}
+                </span>
+                <button
+                    type="button"
+                    onClick={openPreview}
+                    disabled={!contentComplete}
+                    title={contentComplete ? undefined : "Wait until every section has loaded"}
+                    className="rounded-md bg-blue-600 px-2 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                    Review changes
+                </button>
+            </div>
+
+            <Dialog open={preview !== null} onOpenChange={(open) => !open && setPreview(null)}>
+                <DialogContent className="sm:max-w-6xl max-h-[85vh] flex flex-col">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <GitPullRequestArrow className="w-5 h-5 text-blue-600" />
+                            Pull changes from GitHub
+                        </DialogTitle>
+                        <DialogDescription>
+                            {sync.repository}/{sync.path} at {upstream.revision.substring(0, 7)}. Select changes and restore
+                            them to keep the document's version; everything else is taken from GitHub.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {preview && (
+                        <div className="flex-1 overflow-y-auto">
+                            <DiffView
+                                beforeHtml={preview.currentHtml}
+                                afterHtml={preview.upstreamHtml}
+                                beforeLabel="This document"
+                                afterLabel="GitHub"
+                                onRestoreHunks={(content) => setPreview({ ...preview, upstreamHtml: content })}
+                            />
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setPreview(null)} disabled={applying}>
+                            Cancel
+                        </Button>
+                        <Button onClick={applyPull} disabled={applying}>
+                            {applying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Apply to document
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -1,5 +1,4 @@
 import { useState } from "react";
-import { marked } from 'marked';
 import {
     Dialog,
     DialogContent,
@@ -13,6 +12,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { FolderOpen, Upload } from "lucide-react";
 import { showError } from "@/utils/sweetAlert";
+import { convertMarkdownToHtml } from "@/utils/markdownConverter";
+import { convertDocxToHtml } from "@/utils/docxConverter";
 
 interface ImportModalProps {
     onImport: (content: string, title: string) => void;
@@ -29,14 +30,14 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
         const file = event.target.files?.[0];
         if (!file) return;
 
-        // Accept only Markdown files - removed Mermaid support
-        const allowedExtensions = ['.md'];
+        // Accept Markdown and Word files - removed Mermaid support
+        const allowedExtensions = ['.md', '.docx'];
         const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
 
         if (!allowedExtensions.includes(fileExtension)) {
             showError(
                 'Invalid File Type',
-                'Please select a Markdown (.md) file. Note: You can import from Google Docs or Microsoft Word by saving as Markdown first.'
+                'Please select a Markdown (.md) or Word (.docx) file. Note: You can import from Google Docs by downloading it as Microsoft Word (.docx) first.'
             );
             return;
         }
@@ -46,7 +47,7 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
         // Auto-suggest title from filename
         if (!documentTitle) {
             const suggestedTitle = file.name
-                .replace(/\.md$/i, '')
+                .replace(/\.(md|docx)$/i, '')
                 .replace(/[-_]/g, ' ');
             setDocumentTitle(suggestedTitle);
         }
@@ -59,17 +60,36 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
 
         setIsImporting(true);
 
+        const fileExtension = selectedFile.name.toLowerCase().substring(selectedFile.name.lastIndexOf('.'));
+        if (fileExtension === '.docx') {
+            try {
+                // Word documents are binary, so they skip the text reader below
+                const htmlContent = await convertDocxToHtml(selectedFile);
+                onImport(htmlContent, documentTitle.trim());
+
+                // Reset form and close modal
+                setDocumentTitle("");
+                setSelectedFile(null);
+                setIsOpen(false);
+            } catch (error) {
+                console.error('Error processing file:', error);
+                showError('Processing Failed', 'Failed to process Word document. Please check the file and try again.');
+            } finally {
+                setIsImporting(false);
+            }
+            return;
+        }
+
         try {
             const reader = new FileReader();
             reader.onload = async (e) => {
                 const fileContent = e.target?.result as string;
-                const fileExtension = selectedFile.name.toLowerCase().substring(selectedFile.name.lastIndexOf('.'));
 
                 try {
                     let htmlContent = '';
 
                     if (fileExtension === '.md') {
-                        // Convert Markdown to HTML using marked
+                        // Convert Markdown to HTML, including colors, task lists and Mermaid
                         let markdownContent = fileContent;
 
                         // Add horizontal line before H1 and H2 headings (except the first one)
@@ -77,17 +97,23 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
                         const lines = markdownContent.split('\n');
                         const processedLines: string[] = [];
                         let isFirstHeading = true;
+                        let inCodeFence = false;
 
                         for (let i = 0; i < lines.length; i++) {
                             const line = lines[i].trim();
 
+                            // Lines inside fenced code blocks are never headings
+                            if (/^(```|~~~)/.test(line)) {
+                                inCodeFence = !inCodeFence;
+                            }
+
                             // Check if line is H1 or H2
-                            const isH1 = /^#\s+/.test(line);
-                            const isH2 = /^##\s+/.test(line);
+                            const isH1 = !inCodeFence && /^#\s+/.test(line);
+                            const isH2 = !inCodeFence && /^##\s+/.test(line);
 
                             if ((isH1 || isH2) && !isFirstHeading) {
-                                // Add horizontal line before heading (but not if previous line already has one)
-                                const prevLine = processedLines[processedLines.length - 1];
+                                // Add horizontal line before heading (but not if the previous non-empty line already is one)
+                                const prevLine = [...processedLines].reverse().find((processed) => processed.trim() !== '');
                                 if (prevLine && prevLine.trim() !== '---') {
                                     processedLines.push('---');
                                     processedLines.push('');
@@ -102,7 +128,7 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
                         }
 
                         markdownContent = processedLines.join('\n');
-                        htmlContent = await marked(markdownContent);
+                        htmlContent = convertMarkdownToHtml(markdownContent);
                     }
 
                     if (htmlContent) {
@@ -149,9 +175,9 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
             </DialogTrigger>
             <DialogContent className="sm:max-w-[425px]" onPointerDownOutside={handleClose}>
                 <DialogHeader>
-                    <DialogTitle>Import as Markdown</DialogTitle>
+                    <DialogTitle>Import Document</DialogTitle>
                     <DialogDescription>
-                        Import a Markdown file (.md) to your project. You can export from Google Docs or Microsoft Word as Markdown. Enter a title for the document and select a file. Horizontal lines will be automatically added before H1 and H2 headings.
+                        Import a Markdown (.md) or Word (.docx) file to your project. Headings, lists, tables, images and code blocks are kept. Enter a title for the document and select a file. Horizontal lines will be automatically added before H1 and H2 headings in Markdown files.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -173,13 +199,13 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
                     {/* File Upload */}
                     <div className="grid gap-2">
                         <label htmlFor="file" className="text-sm font-medium">
-                            Markdown File (.md)
+                            File (.md, .docx)
                         </label>
                         <div className="relative">
                             <Input
                                 id="file"
                                 type="file"
-                                accept=".md"
+                                accept=".md,.docx"
                                 onChange={handleFileSelect}
                                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                                 disabled={isImporting}
@@ -198,8 +224,8 @@ export default function ImportModal({ onImport, trigger }: ImportModalProps) {
                                     ) : (
                                         <div className="flex flex-col items-center">
                                             <FolderOpen className="w-5 h-5 text-gray-400 mb-1" />
-                                            <span className="text-sm text-gray-600">Click to select Markdown file</span>
-                                            <span className="text-xs text-gray-500">.md files only</span>
+                                            <span className="text-sm text-gray-600">Click to select a Markdown or Word file</span>
+                                            <span className="text-xs text-gray-500">.md and .docx files</span>
                                         </div>
                                     )}
                                 </div>
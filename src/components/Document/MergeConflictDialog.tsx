@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+import { mergeHtml, resolveMerge, type MergeChoice, type MergeChunk } from "@/utils/htmlDiff";
+import type { SaveConflict } from "@/hooks/useDocumentSync";
+
+interface MergeConflictDialogProps {
+    conflict: SaveConflict | null;
+    onResolve: (content: string) => void;
+}
+
+const CHOICES: Array<{ key: MergeChoice; label: string }> = [
+    { key: "mine", label: "Keep yours" },
+    { key: "theirs", label: "Keep theirs" },
+    { key: "both", label: "Keep both" }
+];
+
+const blocksHtml = (chunk: MergeChunk, side: "base" | "mine" | "theirs") =>
+    chunk[side].map((block) => block.html).join("") || '<p class="text-gray-400 italic">(removed)</p>';
+
+/**
+ * Three-way merge of a rejected save: changes made on only one side are merged
+ * automatically, and each remaining conflict is resolved by picking a side.
+ */
+export default function MergeConflictDialog({ conflict, onResolve }: MergeConflictDialogProps) {
+    const [choices, setChoices] = useState<Map<number, MergeChoice>>(new Map());
+
+    const merge = useMemo(
+        () => (conflict ? mergeHtml(conflict.base, conflict.mine, conflict.theirs) : null),
+        [conflict]
+    );
+
+    // Choices refer to chunk ids of the current merge only
+    useEffect(() => {
+        setChoices(new Map());
+    }, [merge]);
+
+    if (!conflict || !merge) return null;
+
+    const setChoice = (chunkId: number, choice: MergeChoice) => {
+        setChoices((current) => new Map(current).set(chunkId, choice));
+    };
+
+    const columns: Array<{ side: "base" | "mine" | "theirs"; label: string }> = [
+        { side: "base", label: "Original" },
+        { side: "mine", label: "Yours" },
+        { side: "theirs", label: "Theirs" }
+    ];
+
+    return (
+        <Dialog open={true} onOpenChange={() => undefined}>
+            <DialogContent
+                className="sm:max-w-6xl max-h-[85vh] flex flex-col [&>button:last-child]:hidden"
+                onEscapeKeyDown={(event) => event.preventDefault()}
+                onPointerDownOutside={(event) => event.preventDefault()}
+            >
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <GitMerge className="w-5 h-5 text-orange-600" />
+                        Resolve Editing Conflict
+                    </DialogTitle>
+                    <DialogDescription>
+                        Someone saved this document (version {conflict.theirsVersion}) while you were editing.
+                        {merge.autoMerged > 0 && ` ${merge.autoMerged} change${merge.autoMerged === 1 ? " was" : "s were"} merged automatically.`}
+                        {merge.conflicts.length > 0
+                            ? ` Choose which version to keep for the ${merge.conflicts.length} conflicting section${merge.conflicts.length === 1 ? "" : "s"}.`
+                            : " There are no conflicting sections."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 overflow-auto space-y-4 py-2 version-diff">
+                    {merge.conflicts.map((chunk, index) => {
+                        const selected = choices.get(chunk.id) || "mine";
+                        return (
+                            <div key={chunk.id} className="border border-gray-200 rounded-lg">
+                                <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg">
+                                    <span className="text-xs font-medium text-gray-600">Conflict {index + 1}</span>
+                                    <div className="flex rounded-md border border-gray-200 overflow-hidden bg-white">
+                                        {CHOICES.map((choice, choiceIndex) => (
+                                            <button
+                                                key={choice.key}
+                                                onClick={() => setChoice(chunk.id, choice.key)}
+                                                className={`px-3 py-1 text-xs ${choiceIndex > 0 ? "border-l border-gray-200" : ""} ${
+                                                    selected === choice.key ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-50"
+                                                }`}
+                                            >
+                                                {choice.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-3 gap-x-4 px-3 py-2">
+                                    {columns.map((column) => (
+                                        <div key={column.side} className="min-w-0">
+                                            <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 pb-1">
+                                                {column.label}
+                                            </div>
+                                            <div
+                                                className={`prose prose-sm max-w-none ${
+                                                    column.side !== "base" && (selected === column.side || selected === "both")
+                                                        ? "ring-2 ring-blue-200 rounded-md px-2"
+                                                        : "px-2"
+                                                }`}
+                                                dangerouslySetInnerHTML={{ __html: blocksHtml(chunk, column.side) }}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="border-t border-gray-200"></div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <Button variant="outline" onClick={() => onResolve(conflict.theirs)}>
+                        Discard My Changes
+                    </Button>
+                    <Button
+                        onClick={() => onResolve(resolveMerge(merge, choices))}
+                        className="bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                        Save Merged Version
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
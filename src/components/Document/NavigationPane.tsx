@@ -1,13 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { X, ChevronRight, ChevronDown } from "lucide-react";
 import type { Editor } from "@tiptap/react";
 import scrollIntoView from "scroll-into-view-if-needed";
+import { useDocument } from "@/context/DocumentContext";
 interface HeadingNode {
     level: number;
     text: string;
     position: number;
     id: string;
+    chunkIndex?: number; // Set for headings in sections that aren't loaded yet
 }
 
 interface NavigationPaneProps {
@@ -17,8 +19,27 @@ interface NavigationPaneProps {
 }
 
 export default function NavigationPane({ editor, isOpen, onClose }: NavigationPaneProps) {
-    const [headings, setHeadings] = useState<HeadingNode[]>([]);
+    const [loadedHeadings, setLoadedHeadings] = useState<HeadingNode[]>([]);
     const [collapsedLevels, setCollapsedLevels] = useState<Set<string>>(new Set());
+    const { lazySections } = useDocument();
+
+    // Headings of sections still to be loaded come from the stored outline
+    const headings = useMemo(() => {
+        if (!lazySections) return loadedHeadings;
+        const pending: HeadingNode[] = [];
+        lazySections.outline.slice(lazySections.loadedCount).forEach((chunk, offset) => {
+            chunk.headings.forEach((heading, headingIndex) => {
+                pending.push({
+                    level: heading.level,
+                    text: heading.text || `Heading ${heading.level}`,
+                    position: -1,
+                    id: `pending-${chunk.id}-${headingIndex}`,
+                    chunkIndex: lazySections.loadedCount + offset,
+                });
+            });
+        });
+        return [...loadedHeadings, ...pending];
+    }, [loadedHeadings, lazySections]);
 
     // Extract headings from the document
     useEffect(() => {
@@ -44,7 +65,7 @@ export default function NavigationPane({ editor, isOpen, onClose }: NavigationPa
                 }
             });
 
-            setHeadings(newHeadings);
+            setLoadedHeadings(newHeadings);
         };
 
         extractHeadings();
@@ -67,6 +88,23 @@ export default function NavigationPane({ editor, isOpen, onClose }: NavigationPa
         };
     }, [editor, isOpen]);
 
+    // Load the section first, then find the heading by its text among the headings now in the editor
+    const handleNavigateToPendingHeading = async (heading: HeadingNode) => {
+        if (!editor || !lazySections || heading.chunkIndex === undefined) return;
+        await lazySections.loadThrough(heading.chunkIndex);
+
+        const matches: number[] = [];
+        editor.state.doc.descendants((node, pos) => {
+            if (node.type.name === "heading" && node.attrs.level === heading.level && node.textContent === heading.text) {
+                matches.push(pos);
+            }
+        });
+        // Earlier sections can repeat a heading; the loaded section is at the end
+        if (matches.length > 0) {
+            handleNavigateToHeading(matches[matches.length - 1]);
+        }
+    };
+
     const handleNavigateToHeading = (position: number) => {
         if (!editor) return;
 
@@ -187,8 +225,11 @@ export default function NavigationPane({ editor, isOpen, onClose }: NavigationPa
                         )}
                         {!hasChildren && <div className="w-6" />}
                         <button
-                            onClick={() => handleNavigateToHeading(heading.position)}
-                            className="flex-1 text-left py-2 px-2 text-sm truncate"
+                            onClick={() => heading.chunkIndex !== undefined
+                                ? handleNavigateToPendingHeading(heading)
+                                : handleNavigateToHeading(heading.position)}
+                            title={heading.chunkIndex !== undefined ? "Section not loaded yet" : undefined}
+                            className={`flex-1 text-left py-2 px-2 text-sm truncate ${heading.chunkIndex !== undefined ? "text-gray-400" : ""}`}
                             style={{
                                 fontSize: heading.level === 1 ? "14px" : heading.level === 2 ? "13px" : "12px",
                                 fontWeight: heading.level === 1 ? 600 : heading.level === 2 ? 500 : 400,
@@ -1,19 +1,31 @@
-import { EditorContext, useEditor } from "@tiptap/react";
+import { EditorContext, useEditor, type Editor } from "@tiptap/react";
 import DocumentContext from "../Document/DocumentContext";
 import ToolBar from "../Document/ToolBar";
 import { useMemo, useCallback, useState, useEffect, useRef } from "react";
 import { createTipTapConfig } from "../../config/tiptap-config";
 import { useLinkPreview } from '../../hooks/useLinkPreview';
 import LinkPreviewEditor from "../Document/LinkPreviewEditor";
+import { isChangeOrigin } from "@tiptap/extension-collaboration";
+import { prosemirrorToYDoc } from "@tiptap/y-tiptap";
+import { DOMParser as ProseMirrorDOMParser } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import * as Y from "yjs";
+import { COLLAB_FIELD, type CollaborationSession } from "../../services/collaborationService";
+
+export interface TiptapUpdateMeta {
+    // True when the change came from another collaborator rather than this editor
+    remote: boolean;
+}
 
 interface TiptapProps {
     initialContent?: string;
     editable?: boolean;
-    onUpdate?: (content: string) => void;
+    onUpdate?: (content: string, meta: TiptapUpdateMeta) => void;
     onEditorReady?: (editor: any) => void;
     className?: string;
     showToolbar?: boolean;
     forceUpdate?: boolean; // Force content update even if editor has content
+    collaboration?: CollaborationSession | null; // Shared Yjs document; replaces initialContent
 }
 
 const Tiptap = ({
@@ -24,8 +36,10 @@ const Tiptap = ({
     className = "",
     showToolbar = true,
     forceUpdate = false,
+    collaboration = null,
 }: TiptapProps) => {
     const [isReady, setIsReady] = useState(false);
+    const [isCollabReady, setIsCollabReady] = useState(false);
     const lastAppliedContentRef = useRef<string | null>(null);
 
     // Create editor configuration using the config file
@@ -37,13 +51,14 @@ const Tiptap = ({
             onCreate: () => {
                 setIsReady(true);
             },
-            onUpdate: ({ editor }: { editor: any }) => {
+            onUpdate: ({ editor, transaction }: { editor: Editor; transaction: Transaction }) => {
                 if (onUpdate) {
-                    onUpdate(editor.getHTML());
+                    onUpdate(editor.getHTML(), { remote: isChangeOrigin(transaction) });
                 }
             },
+            collaboration,
         }),
-        [initialContent, editable, onUpdate]
+        [initialContent, editable, onUpdate, collaboration]
     );
 
     const editor = useEditor(editorConfig);
@@ -153,11 +168,46 @@ const Tiptap = ({
         return handleDestroy;
     }, [handleDestroy]);
 
+    // Load the shared document once the editor schema is available
+    useEffect(() => {
+        if (!editor || !isReady || !collaboration) return;
+        let cancelled = false;
+
+        const toUpdate = (html: string) => {
+            const container = document.createElement('div');
+            container.innerHTML = html;
+            const node = ProseMirrorDOMParser.fromSchema(editor.schema).parse(container);
+            return Y.encodeStateAsUpdate(prosemirrorToYDoc(node, COLLAB_FIELD));
+        };
+
+        collaboration.connect({ toUpdate })
+            .then(({ externalContent }) => {
+                if (cancelled || editor.isDestroyed) return;
+                // Merge edits saved outside the editor (AI tools, restores) into the shared document
+                if (externalContent !== null) {
+                    editor.commands.setContent(externalContent);
+                }
+            })
+            .catch((error) => {
+                console.error('❌ Failed to load collaborative document:', error);
+            })
+            .finally(() => {
+                if (!cancelled) setIsCollabReady(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [editor, isReady, collaboration]);
+
     // Apply initialContent when it changes, suppress history + update.
     // BUT only apply on first load, not on subsequent context updates
     useEffect(() => {
         if (!editor) return;
 
+        // Collaborative documents are loaded from the shared Yjs state instead
+        if (collaboration) return;
+
         // Allow undefined or null to be skipped, but not empty string
         if (initialContent === undefined || initialContent === null) return;
 
@@ -238,7 +288,7 @@ const Tiptap = ({
             lastAppliedContentRef.current = initialContent;
         } else {
         }
-    }, [editor, initialContent, forceUpdate]);
+    }, [editor, initialContent, forceUpdate, collaboration]);
 
     // Call onEditorReady when editor is ready
     useEffect(() => {
@@ -248,7 +298,7 @@ const Tiptap = ({
     }, [editor, isReady, onEditorReady]);
 
     // Loading state
-    if (!editor || !isReady) {
+    if (!editor || !isReady || (collaboration && !isCollabReady)) {
         return (
             <div className={`tiptap-loading ${className}`}>
                 <div className="flex items-center justify-center min-h-96 bg-gray-50 rounded-lg">
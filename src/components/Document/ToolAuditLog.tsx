@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from "react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { API_ENDPOINTS } from "@/lib/apiConfig";
+import { useAuth } from "@/context/AuthContext";
+import { Clock, ShieldCheck, User, Bot, Search, RefreshCw, ChevronDown, ChevronRight } from "lucide-react";
+
+// Firebase ToolAudit structure
+interface ToolAuditRecord {
+    id: string;
+    Tool: string;
+    Document_Id: string | null;
+    User_Id: string | null;
+    Session_Id: string | null;
+    Transaction_Id: string | null;
+    Args: Record<string, unknown>;
+    Before_Hash: string | null;
+    After_Hash: string | null;
+    Changed: boolean;
+    Success: boolean;
+    Operation: string;
+    Summary: string;
+    Created_Time: string | null;
+}
+
+interface ToolAuditLogProps {
+    documentId?: string;
+}
+
+const shortHash = (hash: string | null) => (hash ? hash.replace('sha256:', '').slice(0, 8) : '—');
+
+const formatTime = (iso: string | null) => {
+    if (!iso) return 'Unknown time';
+    return new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    });
+};
+
+export default function ToolAuditLog({ documentId }: ToolAuditLogProps) {
+    const { user } = useAuth();
+    const [records, setRecords] = useState<ToolAuditRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [toolFilter, setToolFilter] = useState('');
+    const [userFilter, setUserFilter] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [textFilter, setTextFilter] = useState('');
+    const [changesOnly, setChangesOnly] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    // Fetch audit records; tool, user and time range are filtered server-side
+    useEffect(() => {
+        const fetchAuditLog = async () => {
+            if (!documentId || !user) {
+                setLoading(false);
+                return;
+            }
+
+            try {
+                setLoading(true);
+                setError(null);
+
+                const idToken = await user.getIdToken();
+                const response = await fetch(API_ENDPOINTS.toolAudit({
+                    documentId,
+                    tool: toolFilter || undefined,
+                    userId: userFilter.trim() || undefined,
+                    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+                    to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined,
+                    limit: '300'
+                }), {
+                    headers: { Authorization: `Bearer ${idToken}` }
+                });
+
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch audit log: ${response.status}`);
+                }
+
+                const data = await response.json();
+                setRecords(Array.isArray(data.records) ? data.records : []);
+            } catch (err) {
+                console.error('❌ Error fetching tool audit log:', err);
+                setError(err instanceof Error ? err.message : 'Failed to load audit log');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchAuditLog();
+    }, [user, documentId, toolFilter, userFilter, fromDate, toDate, refreshKey]);
+
+    const toolNames = useMemo(
+        () => Array.from(new Set(records.map(record => record.Tool))).sort(),
+        [records]
+    );
+
+    // Text search runs over the recorded args so a paragraph can be traced to the call that wrote it
+    const visibleRecords = useMemo(() => {
+        const needle = textFilter.trim().toLowerCase();
+        return records.filter(record => {
+            if (changesOnly && !record.Changed) return false;
+            if (!needle) return true;
+            return JSON.stringify(record.Args || {}).toLowerCase().includes(needle) ||
+                (record.Summary || '').toLowerCase().includes(needle);
+        });
+    }, [records, textFilter, changesOnly]);
+
+    return (
+        <div className="h-full flex flex-col bg-gray-50">
+            {/* Filters */}
+            <div className="p-4 border-b border-gray-200 bg-white flex flex-wrap items-end gap-3">
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-gray-500">Find text</label>
+                    <div className="relative">
+                        <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                        <Input
+                            value={textFilter}
+                            onChange={(e) => setTextFilter(e.target.value)}
+                            placeholder="Paste a sentence from the paragraph"
+                            className="pl-8 w-72"
+                        />
+                    </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-gray-500">Tool</label>
+                    <select
+                        value={toolFilter}
+                        onChange={(e) => setToolFilter(e.target.value)}
+                        className="h-9 rounded-md border border-gray-200 bg-white px-2 text-sm"
+                    >
+                        <option value="">All tools</option>
+                        {toolNames.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-gray-500">User ID</label>
+                    <Input
+                        value={userFilter}
+                        onChange={(e) => setUserFilter(e.target.value)}
+                        placeholder="Any user"
+                        className="w-44"
+                    />
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-gray-500">From</label>
+                    <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-xs font-medium text-gray-500">To</label>
+                    <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 h-9">
+                    <input
+                        type="checkbox"
+                        checked={changesOnly}
+                        onChange={(e) => setChangesOnly(e.target.checked)}
+                    />
+                    Changes only
+                </label>
+                <Button variant="outline" size="sm" className="h-9 ml-auto" onClick={() => setRefreshKey(key => key + 1)}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Refresh
+                </Button>
+            </div>
+
+            {/* Audit records */}
+            <ScrollArea className="flex-1 min-h-0">
+                <div className="p-6">
+                    {loading ? (
+                        <div className="text-center py-12">
+                            <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-blue-600 border-r-transparent"></div>
+                            <p className="mt-4 text-gray-600">Loading audit log...</p>
+                        </div>
+                    ) : error ? (
+                        <div className="text-center py-12 text-red-600">
+                            <p className="font-medium">Failed to load audit log</p>
+                            <p className="text-sm mt-1">{error}</p>
+                        </div>
+                    ) : visibleRecords.length === 0 ? (
+                        <div className="text-center py-16 text-gray-500">
+                            <ShieldCheck className="w-16 h-16 mx-auto mb-4 opacity-30" />
+                            <p className="text-lg font-medium">No tool activity found</p>
+                            <p className="text-sm mt-2">Tool calls that touch this document will appear here</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {visibleRecords.map(record => {
+                                const isExpanded = expandedId === record.id;
+                                return (
+                                    <Card
+                                        key={record.id}
+                                        className={`cursor-pointer transition-all duration-200 ${isExpanded ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200 hover:border-gray-300'}`}
+                                        onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                                    >
+                                        <CardContent className="p-4">
+                                            <div className="flex items-start justify-between gap-4">
+                                                <div className="flex items-center gap-2 min-w-0">
+                                                    {isExpanded ? <ChevronDown className="w-4 h-4 shrink-0 text-gray-400" /> : <ChevronRight className="w-4 h-4 shrink-0 text-gray-400" />}
+                                                    <span className="font-mono text-sm font-semibold text-gray-900 truncate">{record.Tool}</span>
+                                                    {record.Success ? (
+                                                        record.Changed && <Badge className="bg-emerald-600 text-white">Changed</Badge>
+                                                    ) : (
+                                                        <Badge className="bg-red-600 text-white">Failed</Badge>
+                                                    )}
+                                                    {record.Transaction_Id && (
+                                                        <Badge variant="outline" className="text-gray-600">Batch</Badge>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center gap-2 text-xs text-gray-500 shrink-0">
+                                                    <Clock className="w-3.5 h-3.5" />
+                                                    {formatTime(record.Created_Time)}
+                                                </div>
+                                            </div>
+
+                                            <p className="mt-2 text-sm text-gray-700">{record.Summary}</p>
+
+                                            <div className="mt-2 flex items-center gap-4 text-xs text-gray-500">
+                                                <span className="flex items-center gap-1">
+                                                    {record.User_Id ? <User className="w-3.5 h-3.5" /> : <Bot className="w-3.5 h-3.5" />}
+                                                    {record.User_Id || 'Unattributed'}
+                                                </span>
+                                                <span className="font-mono">
+                                                    {shortHash(record.Before_Hash)} → {shortHash(record.After_Hash)}
+                                                </span>
+                                            </div>
+
+                                            {isExpanded && (
+                                                <div className="mt-3 pt-3 border-t border-gray-100 space-y-2 text-xs">
+                                                    {record.Transaction_Id && (
+                                                        <p className="text-gray-500">Transaction: <span className="font-mono">{record.Transaction_Id}</span></p>
+                                                    )}
+                                                    {record.Session_Id && (
+                                                        <p className="text-gray-500">Session: <span className="font-mono">{record.Session_Id}</span></p>
+                                                    )}
+                                                    <pre className="bg-gray-50 border border-gray-200 rounded p-3 overflow-x-auto whitespace-pre-wrap break-words text-gray-800">
+                                                        {JSON.stringify(record.Args, null, 2)}
+                                                    </pre>
+                                                </div>
+                                            )}
+                                        </CardContent>
+                                    </Card>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
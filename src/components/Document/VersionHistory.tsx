@@ -3,7 +3,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { API_ENDPOINTS } from "@/lib/apiConfig";
 import { GitBranch, FileText } from "lucide-react";
 import VersionCard from "./VersionHistory/VersionCard";
-import ContentSection from "./VersionHistory/ContentSection";
+import ContentSection, { type ContentSectionView } from "./VersionHistory/ContentSection";
 
 interface VersionEntry {
     id: string;
@@ -31,15 +31,20 @@ interface VersionHistoryProps {
     documentId?: string;
     currentContent: string;
     onRestoreVersion?: (content: string) => void;
+    // Receives the current content with the selected hunks reverted to a version
+    onRestoreHunks?: (content: string) => void;
     onPreviewVersion?: (content: string) => void;
 }
 
 export default function VersionHistory({
     documentId,
+    currentContent,
     onRestoreVersion,
+    onRestoreHunks,
 }: VersionHistoryProps) {
     const [versions, setVersions] = useState<VersionEntry[]>([]);
     const [selectedVersion, setSelectedVersion] = useState<VersionEntry | null>(null);
+    const [view, setView] = useState<ContentSectionView>("content");
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -118,13 +123,25 @@ export default function VersionHistory({
         }
     };
 
+    const handleCompare = (version: VersionEntry) => {
+        setSelectedVersion(version);
+        setView("changes");
+    };
+
     return (
         <div className="h-full flex">
             <div className={`transition-all duration-300 ${
                 selectedVersion ? 'flex-[3]' : 'flex-1'
             } bg-white ${selectedVersion ? 'border-r border-gray-200' : ''}`}>
                 {selectedVersion ? (
-                    <ContentSection version={selectedVersion} />
+                    <ContentSection
+                        version={selectedVersion}
+                        versions={versions}
+                        currentContent={currentContent}
+                        view={view}
+                        onViewChange={setView}
+                        onRestoreHunks={onRestoreHunks}
+                    />
                 ) : (
                     <div className="h-full flex items-center justify-center text-gray-400">
                         <div className="text-center">
@@ -167,6 +184,7 @@ export default function VersionHistory({
                                         isSelected={selectedVersion?.id === version.id}
                                         onSelect={() => handleCardClick(version)}
                                         onRestore={() => handleRestore(version)}
+                                        onCompare={() => handleCompare(version)}
                                     />
                                 ))}
                             </div>
@@ -1,9 +1,17 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText } from "lucide-react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { FileText, GitCompare } from "lucide-react";
 import { useEditor, EditorContent } from '@tiptap/react';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { getTipTapExtensions } from '@/config/tiptap-config';
+import DiffView from "./DiffView";
 
 interface VersionEntry {
     id: string;
@@ -18,11 +26,33 @@ interface VersionEntry {
     };
 }
 
+export type ContentSectionView = "content" | "changes";
+
+const CURRENT_CONTENT = "current";
+
 interface ContentSectionProps {
     version: VersionEntry | null;
+    // Other snapshots and the live document, for the changes view
+    versions?: VersionEntry[];
+    currentContent?: string;
+    view?: ContentSectionView;
+    onViewChange?: (view: ContentSectionView) => void;
+    onRestoreHunks?: (content: string) => void;
 }
 
-export default function ContentSection({ version }: ContentSectionProps) {
+const versionLabel = (entry: VersionEntry, versions: VersionEntry[]) =>
+    `Version ${entry.version || versions.indexOf(entry) + 1}`;
+
+export default function ContentSection({
+    version,
+    versions = [],
+    currentContent,
+    view = "content",
+    onViewChange,
+    onRestoreHunks
+}: ContentSectionProps) {
+    const [compareWith, setCompareWith] = useState<string>(CURRENT_CONTENT);
+
     // Initialize read-only TipTap editor
     const editor = useEditor({
         extensions: getTipTapExtensions(),
@@ -37,6 +67,18 @@ export default function ContentSection({ version }: ContentSectionProps) {
         }
     }, [editor, version]);
 
+    // Default to the live document, or the previous snapshot when it is not available
+    useEffect(() => {
+        if (!version) return;
+        if (currentContent) {
+            setCompareWith(CURRENT_CONTENT);
+            return;
+        }
+        const index = versions.findIndex((v) => v.id === version.id);
+        const previous = versions[index + 1] || versions[index - 1];
+        setCompareWith(previous ? previous.id : CURRENT_CONTENT);
+    }, [version, currentContent, versions]);
+
     if (!version) {
         return (
             <Card className="h-full border-none shadow-none rounded-none">
@@ -51,17 +93,89 @@ export default function ContentSection({ version }: ContentSectionProps) {
         );
     }
 
+    const otherVersion = versions.find((v) => v.id === compareWith && v.id !== version.id);
+    const comparingCurrent = !otherVersion;
+
+    // Comparing with the live document shows what changed since this version, so hunks revert to it.
+    // Between two snapshots the older one is always on the left.
+    let diffProps: { beforeHtml: string; afterHtml: string; beforeLabel: string; afterLabel: string };
+    if (comparingCurrent) {
+        diffProps = {
+            beforeHtml: version.content,
+            afterHtml: currentContent || '',
+            beforeLabel: versionLabel(version, versions),
+            afterLabel: 'Current document',
+        };
+    } else {
+        const [older, newer] = otherVersion.timestamp <= version.timestamp ? [otherVersion, version] : [version, otherVersion];
+        diffProps = {
+            beforeHtml: older.content,
+            afterHtml: newer.content,
+            beforeLabel: versionLabel(older, versions),
+            afterLabel: versionLabel(newer, versions),
+        };
+    }
+
     return (
         <Card className="h-full border-none shadow-none rounded-none flex flex-col">
-            <CardContent className="flex-1 p-0 overflow-hidden">
-                <ScrollArea className="h-full">
-                    <div className="p-6">
-                        <EditorContent 
-                            editor={editor} 
-                            className="prose prose-sm max-w-none tiptap-readonly"
-                        />
+            {onViewChange && (
+                <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-gray-200">
+                    <div className="flex rounded-md border border-gray-200 overflow-hidden text-sm">
+                        <button
+                            onClick={() => onViewChange("content")}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 ${view === "content" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-50"}`}
+                        >
+                            <FileText className="w-4 h-4" />
+                            Content
+                        </button>
+                        <button
+                            onClick={() => onViewChange("changes")}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 border-l border-gray-200 ${view === "changes" ? "bg-blue-100 text-blue-700" : "text-gray-700 hover:bg-gray-50"}`}
+                        >
+                            <GitCompare className="w-4 h-4" />
+                            Changes
+                        </button>
                     </div>
-                </ScrollArea>
+                    {view === "changes" && (
+                        <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <span>Compare with</span>
+                            <Select value={comparingCurrent ? CURRENT_CONTENT : compareWith} onValueChange={setCompareWith}>
+                                <SelectTrigger size="sm" className="w-48">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={CURRENT_CONTENT} disabled={!currentContent}>
+                                        Current document
+                                    </SelectItem>
+                                    {versions
+                                        .filter((v) => v.id !== version.id)
+                                        .map((v) => (
+                                            <SelectItem key={v.id} value={v.id}>
+                                                {versionLabel(v, versions)}
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                </div>
+            )}
+            <CardContent className="flex-1 p-0 overflow-hidden">
+                {view === "changes" ? (
+                    <DiffView
+                        {...diffProps}
+                        onRestoreHunks={comparingCurrent && currentContent ? onRestoreHunks : undefined}
+                    />
+                ) : (
+                    <ScrollArea className="h-full">
+                        <div className="p-6">
+                            <EditorContent
+                                editor={editor}
+                                className="prose prose-sm max-w-none tiptap-readonly"
+                            />
+                        </div>
+                    </ScrollArea>
+                )}
             </CardContent>
         </Card>
     );
@@ -0,0 +1,168 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Columns2, Rows2, Undo2 } from "lucide-react";
+import { diffHtml, renderDiffEntry, restoreHunks, type DiffHunk } from "@/utils/htmlDiff";
+
+type DiffLayout = "side-by-side" | "inline";
+
+interface DiffViewProps {
+    beforeHtml: string;
+    afterHtml: string;
+    beforeLabel: string;
+    afterLabel: string;
+    // When set, hunks can be selected and reverted to the "before" side
+    onRestoreHunks?: (content: string) => void;
+}
+
+const describeHunk = (hunk: DiffHunk) => {
+    const parts: string[] = [];
+    if (hunk.modified) parts.push(`${hunk.modified} modified`);
+    if (hunk.added) parts.push(`${hunk.added} added`);
+    if (hunk.removed) parts.push(`${hunk.removed} removed`);
+    return parts.join(", ");
+};
+
+export default function DiffView({
+    beforeHtml,
+    afterHtml,
+    beforeLabel,
+    afterLabel,
+    onRestoreHunks
+}: DiffViewProps) {
+    const [layout, setLayout] = useState<DiffLayout>("side-by-side");
+    const [selectedHunks, setSelectedHunks] = useState<Set<number>>(new Set());
+
+    const diff = useMemo(() => diffHtml(beforeHtml, afterHtml), [beforeHtml, afterHtml]);
+
+    // Hunk ids are only meaningful for the diff they came from
+    useEffect(() => {
+        setSelectedHunks(new Set());
+    }, [diff]);
+
+    const toggleHunk = (id: number) => {
+        setSelectedHunks((current) => {
+            const next = new Set(current);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleRestoreSelected = () => {
+        if (onRestoreHunks && selectedHunks.size > 0) {
+            onRestoreHunks(restoreHunks(diff, selectedHunks));
+        }
+    };
+
+    const renderHunkHeader = (hunk: DiffHunk) => (
+        <label
+            className={`flex items-center gap-2 px-3 py-1.5 mt-4 mb-1 rounded-md text-xs font-medium border ${
+                selectedHunks.has(hunk.id)
+                    ? "bg-blue-50 border-blue-300 text-blue-800"
+                    : "bg-gray-50 border-gray-200 text-gray-600"
+            } ${onRestoreHunks ? "cursor-pointer" : ""}`}
+        >
+            {onRestoreHunks && (
+                <input
+                    type="checkbox"
+                    checked={selectedHunks.has(hunk.id)}
+                    onChange={() => toggleHunk(hunk.id)}
+                    className="rounded border-gray-300"
+                />
+            )}
+            <span>Change {hunk.id + 1}</span>
+            <span className="font-normal text-gray-500">{describeHunk(hunk)}</span>
+        </label>
+    );
+
+    const hunkStarts = new Map(diff.hunks.map((hunk) => [hunk.entries[0], hunk]));
+
+    return (
+        <div className="h-full flex flex-col">
+            {/* Toolbar */}
+            <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-gray-200 bg-white">
+                <div className="flex items-center gap-3 text-sm">
+                    <span className="text-emerald-600 font-medium">+{diff.stats.added}</span>
+                    <span className="text-red-600 font-medium">-{diff.stats.removed}</span>
+                    <span className="text-blue-600 font-medium">~{diff.stats.modified}</span>
+                    <span className="text-gray-500">
+                        {diff.hunks.length === 0 ? "No differences" : `${diff.hunks.length} change${diff.hunks.length === 1 ? "" : "s"}`}
+                    </span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border border-gray-200 overflow-hidden">
+                        <button
+                            onClick={() => setLayout("side-by-side")}
+                            className={`px-2 py-1.5 ${layout === "side-by-side" ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-50"}`}
+                            title="Side by side"
+                        >
+                            <Columns2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setLayout("inline")}
+                            className={`px-2 py-1.5 border-l border-gray-200 ${layout === "inline" ? "bg-blue-100 text-blue-700" : "text-gray-600 hover:bg-gray-50"}`}
+                            title="Inline"
+                        >
+                            <Rows2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {onRestoreHunks && (
+                        <Button
+                            size="sm"
+                            onClick={handleRestoreSelected}
+                            disabled={selectedHunks.size === 0}
+                            className="bg-blue-600 hover:bg-blue-700 text-white"
+                        >
+                            <Undo2 className="w-4 h-4 mr-1 text-white" />
+                            Restore Selected ({selectedHunks.size})
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {/* Diff body */}
+            <div className="flex-1 overflow-auto version-diff">
+                {layout === "side-by-side" ? (
+                    <div className="grid grid-cols-2 gap-x-6 px-6 py-4">
+                        <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 pb-2 border-b border-gray-200">{beforeLabel}</div>
+                        <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 pb-2 border-b border-gray-200">{afterLabel}</div>
+                        {diff.entries.map((entry, index) => {
+                            const hunk = hunkStarts.get(entry);
+                            return (
+                                <Fragment key={index}>
+                                    {hunk && <div className="col-span-2">{renderHunkHeader(hunk)}</div>}
+                                    <div
+                                        className="prose prose-sm max-w-none min-w-0"
+                                        dangerouslySetInnerHTML={{ __html: renderDiffEntry(entry, "before") }}
+                                    />
+                                    <div
+                                        className="prose prose-sm max-w-none min-w-0"
+                                        dangerouslySetInnerHTML={{ __html: renderDiffEntry(entry, "after") }}
+                                    />
+                                </Fragment>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <div className="px-6 py-4">
+                        <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 pb-2 border-b border-gray-200">
+                            {beforeLabel} → {afterLabel}
+                        </div>
+                        {diff.entries.map((entry, index) => {
+                            const hunk = hunkStarts.get(entry);
+                            return (
+                                <Fragment key={index}>
+                                    {hunk && renderHunkHeader(hunk)}
+                                    <div
+                                        className="prose prose-sm max-w-none"
+                                        dangerouslySetInnerHTML={{ __html: renderDiffEntry(entry, "inline") }}
+                                    />
+                                </Fragment>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
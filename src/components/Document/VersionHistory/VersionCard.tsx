@@ -4,7 +4,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import {
     Clock,
     RotateCcw,
-    FileText
+    FileText,
+    GitCompare
 } from "lucide-react";
 
 interface VersionEntry {
@@ -26,6 +27,7 @@ interface VersionCardProps {
     isSelected: boolean;
     onSelect: () => void;
     onRestore: () => void;
+    onCompare?: () => void;
 }
 
 export default function VersionCard({
@@ -33,7 +35,8 @@ export default function VersionCard({
     index,
     isSelected,
     onSelect,
-    onRestore
+    onRestore,
+    onCompare
 }: VersionCardProps) {
 
     const formatTime = (timestamp: number) => {
@@ -127,15 +130,28 @@ export default function VersionCard({
                         )}
                     </div>
 
-                    {/* Show Restore button when selected */}
+                    {/* Show Compare and Restore buttons when selected */}
                     {isSelected && (
-                        <div className="mt-4 pt-4 border-t border-gray-200 text-white">
+                        <div className="mt-4 pt-4 border-t border-gray-200 text-white flex gap-2">
+                            {onCompare && (
+                                <Button
+                                    variant="outline"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onCompare();
+                                    }}
+                                    className="flex-1 text-gray-700"
+                                >
+                                    <GitCompare className="w-4 h-4 mr-2" />
+                                    View Changes
+                                </Button>
+                            )}
                             <Button
                                 onClick={(e) => {
                                     e.stopPropagation();
                                     onRestore();
                                 }}
-                                className="w-full bg-blue-600 hover:bg-blue-700 "
+                                className="flex-1 bg-blue-600 hover:bg-blue-700 "
                             >
                                 <RotateCcw className="w-4 h-4 mr-2 text-white" />
                                 Restore This Version
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FileText, FolderOpen, Loader2, Upload } from "lucide-react";
+import { showError } from "@/utils/sweetAlert";
+import { useAuth } from "@/context/AuthContext";
+import { API_ENDPOINTS } from "@/lib/apiConfig";
+import { readWorkspaceExport, type ImportedWorkspace } from "@/utils/workspaceImport";
+
+interface WorkspaceImportModalProps {
+    onImported: (projectId: string) => void;
+    trigger?: React.ReactNode;
+}
+
+const SOURCE_NAMES: Record<ImportedWorkspace['source'], string> = {
+    confluence: 'Confluence',
+    notion: 'Notion',
+};
+
+const PREVIEW_PAGE_LIMIT = 12;
+
+export default function WorkspaceImportModal({ onImported, trigger }: WorkspaceImportModalProps) {
+    const { user } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [selectedFile, setSelectedFile] = useState<File | null>(null);
+    const [workspace, setWorkspace] = useState<ImportedWorkspace | null>(null);
+    const [projectName, setProjectName] = useState("");
+    const [progress, setProgress] = useState("");
+    const [isWorking, setIsWorking] = useState(false);
+
+    const reset = () => {
+        setSelectedFile(null);
+        setWorkspace(null);
+        setProjectName("");
+        setProgress("");
+    };
+
+    const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        if (!file.name.toLowerCase().endsWith('.zip')) {
+            showError(
+                'Invalid File Type',
+                'Please select the .zip file from a Confluence space export (XML) or a Notion export (Markdown & CSV).'
+            );
+            return;
+        }
+
+        setSelectedFile(file);
+        setWorkspace(null);
+    };
+
+    // Parsing uploads the export's images, so it only runs when the user asks for it
+    const handleRead = async () => {
+        if (!selectedFile) return;
+
+        setIsWorking(true);
+        try {
+            const result = await readWorkspaceExport(selectedFile, setProgress);
+            setWorkspace(result);
+            setProjectName(result.name);
+        } catch (error) {
+            console.error('Error reading export:', error);
+            showError('Import Failed', error instanceof Error ? error.message : 'Failed to read the export. Please check the file and try again.');
+        } finally {
+            setProgress("");
+            setIsWorking(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!workspace || !projectName.trim() || !user) return;
+
+        setIsWorking(true);
+        setProgress(`Creating ${workspace.pages.length} documents...`);
+        try {
+            const idToken = await user.getIdToken();
+            const response = await fetch(API_ENDPOINTS.projectImport(), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${idToken}`,
+                },
+                body: JSON.stringify({
+                    source: workspace.source,
+                    name: projectName.trim(),
+                    pages: workspace.pages,
+                }),
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to create project');
+            }
+
+            const result = await response.json();
+            reset();
+            setIsOpen(false);
+            onImported(result.projectId);
+        } catch (error) {
+            console.error('Error importing workspace:', error);
+            showError('Import Failed', error instanceof Error ? error.message : 'Failed to create the project. Please try again.');
+        } finally {
+            setProgress("");
+            setIsWorking(false);
+        }
+    };
+
+    const handleOpenChange = (open: boolean) => {
+        if (isWorking) return;
+        setIsOpen(open);
+        if (!open) reset();
+    };
+
+    const depthOf = (parentKey: string | null): number => {
+        let depth = 0;
+        let key = parentKey;
+        while (key && depth < 10) {
+            key = workspace?.pages.find((page) => page.key === key)?.parentKey || null;
+            depth++;
+        }
+        return depth;
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {trigger || (
+                    <Button variant="outline" size="sm">
+                        <FolderOpen className="w-4 h-4 mr-2" />
+                        Import Workspace
+                    </Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>Import from Confluence or Notion</DialogTitle>
+                    <DialogDescription>
+                        Create a project with one document per page. Page hierarchy, links between pages, images, code blocks and diagrams are kept; callouts become quotes.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!workspace ? (
+                    <div className="grid gap-2 py-4">
+                        <label htmlFor="workspace-file" className="text-sm font-medium">
+                            Export file (.zip)
+                        </label>
+                        <div className="relative">
+                            <Input
+                                id="workspace-file"
+                                type="file"
+                                accept=".zip"
+                                onChange={handleFileSelect}
+                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+                                disabled={isWorking}
+                            />
+                            <div className={`flex items-center justify-center w-full h-24 border-2 border-dashed rounded-lg transition-colors ${selectedFile
+                                ? 'border-green-300 bg-green-50'
+                                : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+                                } ${isWorking ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                                <div className="text-center">
+                                    {selectedFile ? (
+                                        <div className="flex flex-col items-center">
+                                            <Upload className="w-5 h-5 text-green-600 mb-1" />
+                                            <span className="text-sm text-green-700 font-medium">{selectedFile.name}</span>
+                                            <span className="text-xs text-green-600">Ready to read</span>
+                                        </div>
+                                    ) : (
+                                        <div className="flex flex-col items-center">
+                                            <FolderOpen className="w-5 h-5 text-gray-400 mb-1" />
+                                            <span className="text-sm text-gray-600">Click to select an export zip</span>
+                                            <span className="text-xs text-gray-500">Confluence space export (XML) or Notion Markdown & CSV</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="grid gap-4 py-4">
+                        <div className="grid gap-2">
+                            <label htmlFor="workspace-name" className="text-sm font-medium">
+                                Project Name
+                            </label>
+                            <Input
+                                id="workspace-name"
+                                value={projectName}
+                                onChange={(e) => setProjectName(e.target.value)}
+                                disabled={isWorking}
+                            />
+                        </div>
+                        <div className="grid gap-2">
+                            <span className="text-sm font-medium">
+                                {workspace.pages.length} page{workspace.pages.length === 1 ? '' : 's'} from {SOURCE_NAMES[workspace.source]}
+                            </span>
+                            <div className="max-h-48 overflow-auto rounded-lg border border-gray-200 bg-gray-50 p-2">
+                                {workspace.pages.slice(0, PREVIEW_PAGE_LIMIT).map((page) => (
+                                    <div
+                                        key={page.key}
+                                        className="flex items-center gap-2 py-0.5 text-sm text-gray-700"
+                                        style={{ paddingLeft: `${depthOf(page.parentKey) * 16}px` }}
+                                    >
+                                        <FileText className="w-3.5 h-3.5 shrink-0 text-gray-400" />
+                                        <span className="truncate">{page.title}</span>
+                                    </div>
+                                ))}
+                                {workspace.pages.length > PREVIEW_PAGE_LIMIT && (
+                                    <div className="pt-1 text-xs text-gray-500">
+                                        and {workspace.pages.length - PREVIEW_PAGE_LIMIT} more
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {progress && (
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="truncate">{progress}</span>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isWorking}>
+                        Cancel
+                    </Button>
+                    {workspace ? (
+                        <Button onClick={handleCreate} disabled={!projectName.trim() || isWorking || !user}>
+                            {isWorking ? "Creating..." : "Create Project"}
+                        </Button>
+                    ) : (
+                        <Button onClick={handleRead} disabled={!selectedFile || isWorking}>
+                            {isWorking ? "Reading..." : "Read Export"}
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
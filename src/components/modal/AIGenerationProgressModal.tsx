@@ -1,5 +1,6 @@
 import React from 'react';
 import { Loader2, CheckCircle2, Circle, AlertCircle } from 'lucide-react';
+import type { GenerationJob } from '@/services/aiService';
 
 interface GenerationStep {
   id: string;
@@ -15,18 +16,64 @@ interface AIGenerationProgressModalProps {
   currentStep?: string;
   onCancel?: () => void;
   estimatedSecondsRange?: [number, number];
+  // When set, steps come from the server-side job instead of the steps prop
+  job?: GenerationJob | null;
 }
 
+const JOB_STAGE_ORDER: GenerationJob['stage'][] = ['queued', 'structure', 'files', 'planning', 'generate', 'finalize', 'done'];
+
+// One step per job phase, plus one per planned section
+const stepsFromJob = (job: GenerationJob): GenerationStep[] => {
+  // A queued or failed job that already planned its sections is past the file phases
+  const stageIndex = JOB_STAGE_ORDER.indexOf(job.stage);
+  const reached = job.sections.length > 0
+    ? Math.max(stageIndex, JOB_STAGE_ORDER.indexOf('generate'))
+    : stageIndex === -1 ? JOB_STAGE_ORDER.indexOf('files') : stageIndex;
+  const failed = job.status === 'failed';
+  const phase = (id: GenerationJob['stage'], label: string): GenerationStep => {
+    const index = JOB_STAGE_ORDER.indexOf(id);
+    const status = index < reached || job.status === 'completed'
+      ? 'completed'
+      : index === reached ? (failed ? 'error' : 'in-progress') : 'pending';
+    return { id, label, status, details: index === reached ? job.message : undefined };
+  };
+
+  const steps = [
+    phase('structure', 'Fetching repository structure'),
+    phase('files', job.mode === 'iterative' ? 'AI examining code files' : 'Collecting key repository files'),
+  ];
+  if (job.mode === 'sections') {
+    steps.push(phase('planning', 'Planning document sections'));
+  }
+  if (job.sections.length > 0) {
+    job.sections.forEach((section, index) => {
+      steps.push({
+        id: `section-${index}`,
+        label: job.mode === 'sections' ? `Writing ${section.title}` : 'Writing documentation',
+        status: section.status === 'running' ? 'in-progress' : section.status === 'failed' ? 'error' : section.status,
+        details: section.error || (section.status === 'running' ? job.message : undefined),
+      });
+    });
+  } else {
+    steps.push(phase('generate', 'Writing documentation'));
+  }
+  steps.push(phase('finalize', 'Creating the document'));
+  return steps;
+};
+
 const AIGenerationProgressModal: React.FC<AIGenerationProgressModalProps> = ({
   isOpen,
   repositoryName,
   steps,
   currentStep,
   onCancel,
-  estimatedSecondsRange
+  estimatedSecondsRange,
+  job
 }) => {
   if (!isOpen) return null;
 
+  const visibleSteps = job ? stepsFromJob(job) : steps;
+
   const getStepIcon = (step: GenerationStep) => {
     switch (step.status) {
       case 'completed':
@@ -81,7 +128,7 @@ const AIGenerationProgressModal: React.FC<AIGenerationProgressModalProps> = ({
         {/* Progress Steps */}
         <div className="px-6 py-6 max-h-96 overflow-y-auto custom-scrollbar">
           <div className="space-y-4">
-            {steps.map((step) => (
+            {visibleSteps.map((step) => (
               <div key={step.id} className="flex items-start space-x-3">
                 {/* Step Icon */}
                 <div className="flex-shrink-0 mt-0.5">
@@ -107,6 +154,12 @@ const AIGenerationProgressModal: React.FC<AIGenerationProgressModalProps> = ({
                     </div>
                   )}
 
+                  {step.details && step.status === 'error' && (
+                    <div className="mt-1 text-xs text-red-500">
+                      {step.details}
+                    </div>
+                  )}
+
                   {/* Progress Bar for In-Progress Step */}
                   {step.status === 'in-progress' && (
                     <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5 overflow-hidden">
@@ -123,7 +176,9 @@ const AIGenerationProgressModal: React.FC<AIGenerationProgressModalProps> = ({
         <div className="px-6 py-4 bg-gray-50 border-t border-gray-200">
           <div className="flex items-center justify-between">
             <p className="text-xs text-gray-500">
-              This may take {estimatedSecondsRange ? `${estimatedSecondsRange[0]}–${estimatedSecondsRange[1]} seconds` : '85–135 seconds'} depending on repository size
+              {job
+                ? 'Generation runs on the server. You can close this tab; the document appears in the project when it is ready.'
+                : `This may take ${estimatedSecondsRange ? `${estimatedSecondsRange[0]}–${estimatedSecondsRange[1]} seconds` : '85–135 seconds'} depending on repository size`}
             </p>
             {onCancel && (
               <button
@@ -4,6 +4,8 @@ import { X, PencilLine, AlertCircle } from 'lucide-react';
 interface EditProjectFormData {
   name: string;
   description: string;
+  llmProvider?: string; // '' uses the server default
+  llmModel?: string;
 }
 
 interface EditProjectModalProps {
@@ -15,9 +17,19 @@ interface EditProjectModalProps {
 
 const DEFAULT_FORM_DATA: EditProjectFormData = {
   name: '',
-  description: ''
+  description: '',
+  llmProvider: '',
+  llmModel: ''
 };
 
+// Must match LLM_PROVIDER_NAMES in functions/src/llm/llmClient.ts
+const LLM_PROVIDER_OPTIONS = [
+  { value: '', label: 'Default (Gemini)', modelPlaceholder: 'gemini-2.5-pro' },
+  { value: 'gemini', label: 'Google Gemini', modelPlaceholder: 'gemini-2.5-pro' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible (OpenAI, Ollama, vLLM)', modelPlaceholder: 'llama3.1' },
+  { value: 'mock', label: 'Mock (offline testing)', modelPlaceholder: 'mock-1' }
+];
+
 const EditProjectModal: React.FC<EditProjectModalProps> = ({
   isOpen,
   onClose,
@@ -37,7 +49,9 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({
 
     setFormData({
       name: initialData?.name ?? DEFAULT_FORM_DATA.name,
-      description: initialData?.description ?? DEFAULT_FORM_DATA.description
+      description: initialData?.description ?? DEFAULT_FORM_DATA.description,
+      llmProvider: initialData?.llmProvider ?? DEFAULT_FORM_DATA.llmProvider,
+      llmModel: initialData?.llmModel ?? DEFAULT_FORM_DATA.llmModel
     });
     setUiState(prev => ({ ...prev, errors: {}, isSubmitting: false }));
   }, [isOpen, initialData]);
@@ -161,6 +175,35 @@ const EditProjectModal: React.FC<EditProjectModalProps> = ({
               )}
             </div>
 
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  AI Provider
+                </label>
+                <select
+                  value={formData.llmProvider}
+                  onChange={(event) => handleInputChange('llmProvider', event.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                >
+                  {LLM_PROVIDER_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={formData.llmModel}
+                  onChange={(event) => handleInputChange('llmModel', event.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder={LLM_PROVIDER_OPTIONS.find(option => option.value === formData.llmProvider)?.modelPlaceholder}
+                />
+              </div>
+            </div>
+
             {uiState.errors.submit && (
               <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
                 <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
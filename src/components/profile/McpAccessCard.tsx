@@ -0,0 +1,191 @@
+// src/components/profile/McpAccessCard.tsx - Access tokens for external MCP clients
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plug, Copy, Check, Trash2, Loader2 } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { API_ENDPOINTS } from '@/lib/apiConfig';
+import { showDeleteConfirm, showError } from '@/utils/sweetAlert';
+
+interface McpToken {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'Never';
+
+const McpAccessCard: React.FC = () => {
+  const { user: firebaseUser } = useAuth();
+  const [tokens, setTokens] = useState<McpToken[]>([]);
+  const [tokenName, setTokenName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const endpoint = API_ENDPOINTS.mcp();
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const idToken = await firebaseUser!.getIdToken();
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...(init.headers || {}), 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` }
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new Error(data?.error || `Request failed: ${response.status}`);
+    }
+    return data;
+  }, [firebaseUser]);
+
+  const loadTokens = useCallback(async () => {
+    if (!firebaseUser) return;
+    try {
+      setLoading(true);
+      const data = await authorizedFetch(API_ENDPOINTS.mcpTokens());
+      setTokens(data.tokens || []);
+    } catch (err) {
+      console.error('Failed to load MCP tokens:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [firebaseUser, authorizedFetch]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const data = await authorizedFetch(API_ENDPOINTS.mcpTokens(), {
+        method: 'POST',
+        body: JSON.stringify({ name: tokenName.trim() || 'MCP client' })
+      });
+      setNewToken(data.token);
+      setTokenName('');
+      await loadTokens();
+    } catch (err) {
+      showError('Token Not Created', err instanceof Error ? err.message : 'Failed to create access token');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: McpToken) => {
+    const result = await showDeleteConfirm(token.name);
+    if (!result.isConfirmed) return;
+    try {
+      await authorizedFetch(API_ENDPOINTS.mcpToken(token.id), { method: 'DELETE' });
+      setTokens((current) => current.filter((t) => t.id !== token.id));
+    } catch (err) {
+      showError('Token Not Revoked', err instanceof Error ? err.message : 'Failed to revoke access token');
+    }
+  };
+
+  const copy = async (value: string, key: string) => {
+    await navigator.clipboard.writeText(value);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-purple-600 rounded-lg flex items-center justify-center">
+            <Plug className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">MCP Access</h3>
+            <p className="text-sm text-gray-600">Connect IDE assistants and CLI agents to your projects and documents</p>
+          </div>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-2 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-xs text-gray-500">Streamable HTTP endpoint</p>
+              <p className="font-mono text-gray-900 truncate">{endpoint}</p>
+            </div>
+            <button
+              onClick={() => copy(endpoint, 'endpoint')}
+              className="text-gray-500 hover:text-gray-700 transition-colors"
+              title="Copy endpoint"
+            >
+              {copied === 'endpoint' ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Send the token as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>, or run the stdio
+            server with <span className="font-mono">DOTIVRA_MCP_TOKEN=&lt;token&gt; npm run mcp:stdio</span> in the functions folder.
+          </p>
+        </div>
+
+        {newToken && (
+          <div className="px-4 py-3 rounded-md mb-4 bg-green-50 border border-green-200">
+            <p className="text-sm text-green-800 mb-2">Copy your new token now. It won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-white border border-green-200 rounded px-2 py-1 break-all">{newToken}</code>
+              <button
+                onClick={() => copy(newToken, 'token')}
+                className="text-green-700 hover:text-green-900 transition-colors"
+                title="Copy token"
+              >
+                {copied === 'token' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 mb-4">
+          <input
+            type="text"
+            value={tokenName}
+            onChange={(e) => setTokenName(e.target.value)}
+            placeholder="Token name (e.g. VS Code)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={creating}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={creating || !firebaseUser}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            {creating ? <Loader2 className="w-4 h-4 animate-spin mx-auto text-white" /> : <span className="text-white">Create Token</span>}
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+          </div>
+        ) : tokens.length > 0 && (
+          <div className="divide-y divide-gray-100">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{token.name}</p>
+                  <p className="text-xs text-gray-500">
+                    <span className="font-mono">{token.prefix}…</span> · Created {formatDate(token.createdAt)} · Last used {formatDate(token.lastUsedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(token)}
+                  className="text-red-600 hover:text-red-800 transition-colors"
+                  title="Revoke token"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default McpAccessCard;
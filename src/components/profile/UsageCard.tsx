@@ -0,0 +1,162 @@
+// src/components/profile/UsageCard.tsx - Monthly AI usage, estimated cost and quota
+import React, { useEffect, useState } from 'react';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { API_ENDPOINTS } from '@/lib/apiConfig';
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+  estimatedCost: number;
+}
+
+interface UsageSummary {
+  month: string;
+  resetsAt: string;
+  totals: UsageTotals;
+  quota: { tokens: number | null; requests: number | null; cost: number | null };
+  byFeature: Record<string, UsageTotals>;
+}
+
+const FEATURE_LABELS: Record<string, string> = {
+  generate: 'AI generation',
+  agent: 'AI agent',
+  template: 'Template generation',
+  recommendations: 'Recommendations',
+  tools: 'Tools'
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US');
+const formatCost = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
+const UsageCard: React.FC = () => {
+  const { user: firebaseUser } = useAuth();
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!firebaseUser) return;
+
+    const loadUsage = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(API_ENDPOINTS.usage(), {
+          headers: { Authorization: `Bearer ${await firebaseUser.getIdToken()}` },
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.success) {
+          throw new Error(data?.error || `Failed to load usage: ${response.status}`);
+        }
+        setUsage(data.usage);
+      } catch (err) {
+        console.error('Failed to load usage:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load usage');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUsage();
+  }, [firebaseUser]);
+
+  const tokenLimit = usage?.quota.tokens ?? null;
+  const tokenPercent = usage && tokenLimit ? Math.min(100, (usage.totals.totalTokens / tokenLimit) * 100) : 0;
+  const features = usage ? Object.entries(usage.byFeature).sort(([, a], [, b]) => b.totalTokens - a.totalTokens) : [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200">
+      <div className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center">
+            <BarChart3 className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">AI Usage</h3>
+            <p className="text-sm text-gray-600">
+              {usage
+                ? `This month, resets on ${new Date(usage.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}`
+                : 'Tokens and estimated cost for this month'}
+            </p>
+          </div>
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="px-4 py-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {usage && !loading && (
+          <>
+            <div className="mb-4">
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-gray-900">{formatNumber(usage.totals.totalTokens)} tokens</span>
+                <span className="text-gray-600">
+                  {tokenLimit ? `of ${formatNumber(tokenLimit)}` : 'No monthly limit'}
+                </span>
+              </div>
+              {tokenLimit && (
+                <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${tokenPercent >= 90 ? 'bg-red-500' : tokenPercent >= 70 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                    style={{ width: `${tokenPercent}%` }}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Input tokens</p>
+                <p className="text-sm font-medium text-gray-900">{formatNumber(usage.totals.inputTokens)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Output tokens</p>
+                <p className="text-sm font-medium text-gray-900">{formatNumber(usage.totals.outputTokens)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Requests</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatNumber(usage.totals.requests)}
+                  {usage.quota.requests ? ` / ${formatNumber(usage.quota.requests)}` : ''}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Estimated cost</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatCost(usage.totals.estimatedCost)}
+                  {usage.quota.cost ? ` / ${formatCost(usage.quota.cost)}` : ''}
+                </p>
+              </div>
+            </div>
+
+            {features.length > 0 && (
+              <div className="divide-y divide-gray-100">
+                {features.map(([feature, totals]) => (
+                  <div key={feature} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-700">{FEATURE_LABELS[feature] || feature}</span>
+                    <span className="text-gray-500">
+                      {formatNumber(totals.totalTokens)} tokens · {formatCost(totals.estimatedCost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageCard;
@@ -4,3 +4,5 @@ export { default as RecentProjectsCard } from './RecentProjectsCard';
 export { default as DangerZoneCard } from './DangerZoneCard';
 export { default as GitHubConnectionCard } from './GitHubConnectionCard';
 export { default as APIKeyCard } from './APIKeyCard';
+export { default as UsageCard } from './UsageCard';
+export { default as McpAccessCard } from './McpAccessCard';
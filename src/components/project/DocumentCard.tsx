@@ -1,16 +1,19 @@
 // src/components/project/DocumentCard.tsx
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { FileText, Clock, MoreHorizontal, Edit, Trash2 } from 'lucide-react';
+import { FileText, Clock, MoreHorizontal, Edit, Trash2, AlertTriangle } from 'lucide-react';
 import type { Document } from '../../types';
+import type { DriftReport } from '../../services/aiService';
 
 interface DocumentCardProps {
   document: Document;
+  parentTitle?: string;
+  drift?: DriftReport;
   onEdit: (document: Document) => void;
   onDelete: (document: Document) => void;
 }
 
-const DocumentCard: React.FC<DocumentCardProps> = ({ document, onEdit, onDelete }) => {
+const DocumentCard: React.FC<DocumentCardProps> = ({ document, parentTitle, drift, onEdit, onDelete }) => {
   const [showDropdown, setShowDropdown] = useState(false);
   const navigate = useNavigate();
 
@@ -63,6 +66,17 @@ const DocumentCard: React.FC<DocumentCardProps> = ({ document, onEdit, onDelete
       <div className={`relative h-32 flex items-center justify-center ${getIconBgColor()} transition-colors border-b border-gray-200`}>
         <FileText className={`h-10 w-10 ${getIconColor()}`} />
 
+        {/* Sections that commits since the document was written may have made wrong */}
+        {drift?.status === 'drifted' && (
+          <div
+            className="absolute top-2 left-2 inline-flex items-center gap-1 rounded-md bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 ring-1 ring-amber-500/30"
+            title={`Code changed since ${drift.baseRevision?.substring(0, 7)}: ${drift.sections.map((section) => section.path || 'Introduction').join(', ')}`}
+          >
+            <AlertTriangle className="h-3 w-3" />
+            {drift.sections.length} section{drift.sections.length !== 1 ? 's' : ''} out of date
+          </div>
+        )}
+
         {/* Actions Dropdown - Top Right */}
         <div className="absolute top-2 right-2">
           <button
@@ -108,9 +122,14 @@ const DocumentCard: React.FC<DocumentCardProps> = ({ document, onEdit, onDelete
       {/* Compact Details Section - Google Docs style */}
       <div className="p-3">
         {/* Document Title - Smaller, truncated */}
-        <h3 className="font-medium text-sm text-gray-900 group-hover:text-blue-600 transition-colors truncate mb-2">
+        <h3 className={`font-medium text-sm text-gray-900 group-hover:text-blue-600 transition-colors truncate ${parentTitle ? 'mb-0.5' : 'mb-2'}`}>
           {document.Title || document.DocumentName}
         </h3>
+        {parentTitle && (
+          <p className="text-xs text-gray-500 truncate mb-2" title={`Under ${parentTitle}`}>
+            Under {parentTitle}
+          </p>
+        )}
 
         {/* Bottom Row: Badge and Date */}
         <div className="flex items-center justify-between gap-2">
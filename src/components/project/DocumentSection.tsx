@@ -3,11 +3,13 @@ import React, { useState } from 'react';
 import { FileText, Code, ChevronDown } from 'lucide-react';
 import DocumentCard from './DocumentCard';
 import type { Document } from '../../types';
+import type { DriftReport } from '../../services/aiService';
 
 interface DocumentSectionProps {
   title: string;
   category: 'user' | 'developer' | 'general';
   documents: Document[];
+  driftReports?: Record<string, DriftReport>;
   onAddDocument?: (category: 'user' | 'developer' | 'general') => void;
   onEditDocument: (document: Document) => void;
   onDeleteDocument: (document: Document) => void;
@@ -17,6 +19,7 @@ const DocumentSection: React.FC<DocumentSectionProps> = ({
   title,
   category,
   documents,
+  driftReports,
   onEditDocument,
   onDeleteDocument
 }) => {
@@ -35,6 +38,9 @@ const DocumentSection: React.FC<DocumentSectionProps> = ({
 
   const Icon = getSectionIcon();
 
+  // Titles of parent pages, shown on imported child pages
+  const titlesById = new Map(documents.map((document) => [document.id, document.Title || document.DocumentName]));
+
   return (
     <div className="mb-10">
       {/* Section Header */}
@@ -70,6 +76,8 @@ const DocumentSection: React.FC<DocumentSectionProps> = ({
               <DocumentCard
                 key={document.id}
                 document={document}
+                parentTitle={document.Parent_Id ? titlesById.get(document.Parent_Id) : undefined}
+                drift={document.id ? driftReports?.[document.id] : undefined}
                 onEdit={onEditDocument}
                 onDelete={onDeleteDocument}
               />
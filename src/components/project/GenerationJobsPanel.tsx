@@ -0,0 +1,60 @@
+// src/components/project/GenerationJobsPanel.tsx
+import React from 'react';
+import { AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import type { GenerationJob } from '../../services/aiService';
+
+interface GenerationJobsPanelProps {
+  jobs: GenerationJob[];
+  resumingJobId: string | null;
+  onResume: (job: GenerationJob) => void;
+}
+
+// Documents still being generated on the server, or whose generation gave up and can be resumed
+const GenerationJobsPanel: React.FC<GenerationJobsPanelProps> = ({ jobs, resumingJobId, onResume }) => {
+  if (jobs.length === 0) return null;
+
+  const progressOf = (job: GenerationJob) => {
+    const done = job.sections.filter((section) => section.status === 'completed').length;
+    return job.sections.length > 0 ? `${done}/${job.sections.length} sections` : null;
+  };
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-200 bg-white shadow-sm divide-y divide-gray-100">
+      {jobs.map((job) => {
+        const failed = job.status === 'failed';
+        const progress = progressOf(job);
+        return (
+          <div key={job.id} className="flex items-center gap-4 px-5 py-3">
+            {failed ? (
+              <AlertCircle className="w-5 h-5 shrink-0 text-red-500" />
+            ) : (
+              <Loader2 className="w-5 h-5 shrink-0 text-blue-500 animate-spin" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="text-sm font-medium text-gray-900 truncate">
+                {job.documentName}
+                <span className="ml-2 text-xs font-normal text-gray-500">from {job.repository}</span>
+              </div>
+              <div className={`text-xs truncate ${failed ? 'text-red-600' : 'text-gray-500'}`}>
+                {failed ? job.error || 'Generation failed' : job.message}
+                {progress && ` · ${progress}`}
+              </div>
+            </div>
+            {failed && (
+              <button
+                onClick={() => onResume(job)}
+                disabled={resumingJobId === job.id}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {resumingJobId === job.id ? 'Resuming...' : 'Resume'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GenerationJobsPanel;
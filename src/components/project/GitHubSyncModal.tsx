@@ -0,0 +1,284 @@
+// src/components/project/GitHubSyncModal.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Github, Loader2, ExternalLink, RefreshCw } from 'lucide-react';
+import type { Document } from '../../types';
+import { useAuth } from '@/context/AuthContext';
+import { API_ENDPOINTS } from '@/lib/apiConfig';
+import { githubClient, type DocumentSync, type ProjectSync, type SyncStatus } from '@/lib/githubClient';
+import { convertHtmlToMarkdown } from '@/utils/markdownConverter';
+import { showError, showSuccess } from '@/utils/sweetAlert';
+
+interface GitHubSyncModalProps {
+  isOpen: boolean;
+  projectId: string;
+  documents: Document[];
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, { label: string; className: string }> = {
+  unpublished: { label: 'Not published', className: 'bg-gray-100 text-gray-600' },
+  pending: { label: 'Pull request open', className: 'bg-blue-50 text-blue-700' },
+  synced: { label: 'In sync', className: 'bg-emerald-50 text-emerald-700' },
+  changed: { label: 'Changed on GitHub', className: 'bg-amber-50 text-amber-800' },
+  removed: { label: 'Deleted on GitHub', className: 'bg-red-50 text-red-700' }
+};
+
+const suggestPath = (document: Document): string => {
+  const slug = (document.Title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `docs/${slug || document.id}.md`;
+};
+
+/**
+ * Map documents to Markdown files in the project's repository and publish them
+ * as a pull request. Upstream changes are pulled from the document editor.
+ */
+const GitHubSyncModal: React.FC<GitHubSyncModalProps> = ({ isOpen, projectId, documents, onClose }) => {
+  const { user } = useAuth();
+  const [sync, setSync] = useState<ProjectSync | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [paths, setPaths] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState('');
+
+  const syncByDocument = new Map<string, DocumentSync>((sync?.documents || []).map((item) => [item.documentId, item]));
+
+  const loadSync = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const result = await githubClient.getProjectSync(user, projectId);
+      setSync(result);
+      setPaths(Object.fromEntries(result.documents.map((item) => [item.documentId, item.path])));
+    } catch (error) {
+      setSync(null);
+      setLoadError(error instanceof Error ? error.message : 'Failed to fetch the sync status');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, projectId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set());
+    setTitle('');
+    loadSync();
+  }, [isOpen, loadSync]);
+
+  if (!isOpen) return null;
+
+  const toggleSelected = (document: Document) => {
+    const id = document.id!;
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    if (!paths[id]?.trim()) {
+      setPaths((current) => ({ ...current, [id]: suggestPath(document) }));
+    }
+  };
+
+  // Rows whose path differs from the saved mapping; an empty path stops syncing
+  const changedMappings = (ids: Iterable<string>) => Array.from(ids)
+    .map((documentId) => ({ documentId, path: paths[documentId]?.trim() || null }))
+    .filter(({ documentId, path }) => (syncByDocument.get(documentId)?.path || null) !== path);
+
+  const saveMappings = async (ids: Iterable<string>) => {
+    const mappings = changedMappings(ids);
+    if (user && mappings.length > 0) {
+      await githubClient.saveSyncMappings(user, projectId, mappings);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveMappings(documents.map((document) => document.id!));
+      await loadSync();
+    } catch (error) {
+      showError('Save Failed', error instanceof Error ? error.message : 'Failed to save the file paths');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!user || selected.size === 0) return;
+    setSaving(true);
+    try {
+      setProgress('Saving file paths...');
+      await saveMappings(selected);
+
+      const published: Array<{ documentId: string; markdown: string }> = [];
+      for (const documentId of selected) {
+        setProgress(`Converting ${published.length + 1} of ${selected.size}...`);
+        // The project list may hold only the outline of large documents
+        const response = await fetch(API_ENDPOINTS.documentContent(documentId));
+        if (!response.ok) {
+          throw new Error('Failed to load a document to publish');
+        }
+        const data = await response.json();
+        published.push({ documentId, markdown: convertHtmlToMarkdown(data.Content || '') });
+      }
+
+      setProgress('Opening pull request...');
+      const result = await githubClient.publishDocuments(user, projectId, published, title.trim() || undefined);
+      if (result.pullRequest) {
+        showSuccess(
+          'Pull Request Opened',
+          `#${result.pullRequest.number} updates ${result.published.join(', ')}` +
+          `${result.unchanged.length > 0 ? `. Already up to date: ${result.unchanged.join(', ')}` : ''}.`
+        );
+        window.open(result.pullRequest.url, '_blank', 'noopener,noreferrer');
+      } else {
+        showSuccess('Nothing to Publish', 'The selected documents already match the files on GitHub.');
+      }
+      setSelected(new Set());
+      await loadSync();
+    } catch (error) {
+      showError('Publish Failed', error instanceof Error ? error.message : 'Failed to publish the documents');
+    } finally {
+      setSaving(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/30 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+              <Github className="h-5 w-5" />
+              Sync with GitHub
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {sync
+                ? `Documents are published to ${sync.repository} as pull requests against ${sync.branch}.`
+                : 'Map documents to Markdown files in the project repository.'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading && !sync ? (
+            <div className="flex items-center justify-center py-12 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Checking the repository...
+            </div>
+          ) : loadError ? (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+              <p>{loadError}</p>
+              <button
+                type="button"
+                onClick={loadSync}
+                className="mt-3 inline-flex items-center gap-1 text-xs font-medium text-amber-900 hover:underline"
+              >
+                <RefreshCw className="h-3 w-3" />
+                Try again
+              </button>
+            </div>
+          ) : documents.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500">This project has no documents yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {documents.map((document) => {
+                const id = document.id!;
+                const status = syncByDocument.get(id);
+                const badge = status ? STATUS_LABELS[status.status] : null;
+                return (
+                  <li key={id} className="flex items-center gap-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(id)}
+                      onChange={() => toggleSelected(document)}
+                      className="rounded border-gray-300"
+                      aria-label={`Publish ${document.Title}`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate text-sm font-medium text-gray-900">{document.Title}</span>
+                        {badge && (
+                          <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs ${badge.className}`}>
+                            {badge.label}
+                          </span>
+                        )}
+                        {status?.pullRequest && (
+                          <a
+                            href={status.pullRequest.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex shrink-0 items-center gap-0.5 text-xs text-blue-600 hover:underline"
+                          >
+                            #{status.pullRequest.number}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                      {status?.status === 'changed' && (
+                        <p className="mt-0.5 text-xs text-gray-500">Open the document to review and pull the changes.</p>
+                      )}
+                    </div>
+                    <input
+                      type="text"
+                      value={paths[id] || ''}
+                      onChange={(event) => setPaths((current) => ({ ...current, [id]: event.target.value }))}
+                      placeholder={suggestPath(document)}
+                      className="w-64 rounded-md border border-gray-300 px-2 py-1 font-mono text-xs focus:border-blue-500 focus:outline-none"
+                      aria-label={`File path for ${document.Title}`}
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {sync && (
+          <div className="flex items-center gap-3 border-t border-gray-200 p-4">
+            <input
+              type="text"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              placeholder="Pull request title (optional)"
+              className="min-w-0 flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            />
+            {progress && <span className="text-xs text-gray-500">{progress}</span>}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || changedMappings(documents.map((document) => document.id!)).length === 0}
+              className="px-4 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Save paths
+            </button>
+            <button
+              type="button"
+              onClick={handlePublish}
+              disabled={saving || selected.size === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-sm text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Publish {selected.size > 0 ? selected.size : ''} selected
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GitHubSyncModal;
@@ -1,6 +1,6 @@
 // src/components/project/ProjectHeader.tsx
 import React from 'react';
-import { FolderOpen, Plus, PencilLine, Trash2 } from 'lucide-react';
+import { FolderOpen, Plus, PencilLine, Trash2, Download, Loader2, Github } from 'lucide-react';
 import type { Project } from '../../types';
 
 interface ProjectHeaderProps {
@@ -9,6 +9,9 @@ interface ProjectHeaderProps {
   onAddDocument: () => void;
   onEditProject?: () => void;
   onDeleteProject?: () => void;
+  onExportSite?: () => void;
+  isExportingSite?: boolean;
+  onSyncGitHub?: () => void;
 }
 
 /**
@@ -49,7 +52,10 @@ const ProjectHeader: React.FC<ProjectHeaderProps> = ({
   onBackToDashboard: _onBackToDashboard,
   onAddDocument,
   onEditProject,
-  onDeleteProject
+  onDeleteProject,
+  onExportSite,
+  isExportingSite = false,
+  onSyncGitHub
 }) => {
 
 
@@ -114,6 +120,31 @@ const ProjectHeader: React.FC<ProjectHeaderProps> = ({
               </a>
             )}
 
+            {project.GitHubRepo && onSyncGitHub && (
+              <button
+                type="button"
+                onClick={onSyncGitHub}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium shadow-sm"
+                title="Publish documents to the repository as Markdown and pull changes back"
+              >
+                <Github className="h-4 w-4" />
+                <span className="hidden sm:inline">Sync</span>
+              </button>
+            )}
+
+            {onExportSite && (
+              <button
+                type="button"
+                onClick={onExportSite}
+                disabled={isExportingSite}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 bg-white text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium shadow-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                title="Download all documents as a static documentation site"
+              >
+                {isExportingSite ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                <span className="hidden sm:inline">{isExportingSite ? 'Exporting...' : 'Export Site'}</span>
+              </button>
+            )}
+
             <button
               onClick={onAddDocument}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-sm rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm"
@@ -2,3 +2,5 @@ export { default as ProjectHeader } from './ProjectHeader';
 export { default as DocumentSection } from './DocumentSection';
 export { default as DocumentCard } from './DocumentCard';
 export { default as AddDocumentModal } from './AddDocumentModal';
+export { default as GenerationJobsPanel } from './GenerationJobsPanel';
+export { default as GitHubSyncModal } from './GitHubSyncModal';
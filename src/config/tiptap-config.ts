@@ -27,9 +27,25 @@ import Mermaid from "@/lib/extensions/Mermaid";
 import { CodeBlockWithHighlight } from "@/lib/extensions/CodeBlockWithHighlight";
 import { BackspaceBehaviorFix } from "@/lib/extensions/BackspaceBehaviorFix";
 import MarkdownLinkPaste from "@/lib/extensions/MarkdownLinkPaste";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
+import type { CollaborationSession } from "@/services/collaborationService";
+import { COLLAB_FIELD } from "@/services/collaborationService";
+
+// Binds the editor to a shared Yjs document with live carets for other users
+const getCollaborationExtensions = (session: CollaborationSession) => [
+    Collaboration.configure({
+        document: session.ydoc,
+        field: COLLAB_FIELD,
+    }),
+    CollaborationCaret.configure({
+        provider: { awareness: session.awareness },
+        user: { name: session.user.name, color: session.user.color },
+    }),
+];
 
 // TipTap Editor Configuration
-export const getTipTapExtensions = () => [
+export const getTipTapExtensions = (options: { collaboration?: CollaborationSession | null } = {}) => [
     StarterKit.configure({
         heading: false, // we'll add Heading explicitly below
         paragraph: false, // we'll use our custom paragraph extension
@@ -44,6 +60,8 @@ export const getTipTapExtensions = () => [
             depth: 100, // Keep last 100 changes
             newGroupDelay: 500, // Group changes within 500ms
         },
+        // Collaboration brings its own undo manager that only undoes local changes
+        ...(options.collaboration ? { undoRedo: false as const } : {}),
     }),
     // Custom paragraph extension with basic indent limit to prevent overflow
     Paragraph.configure({
@@ -140,6 +158,7 @@ export const getTipTapExtensions = () => [
     Mermaid,
     // Custom backspace behavior fix for styling blocks
     BackspaceBehaviorFix,
+    ...(options.collaboration ? getCollaborationExtensions(options.collaboration) : []),
 ];
 
 // Editor Props Configuration
@@ -159,9 +178,13 @@ export const createTipTapConfig = (options: {
     onCreate?: () => void;
     onUpdate?: (editor: any) => void;
     extraClasses?: string;
+    collaboration?: CollaborationSession | null;
 }) => ({
-    extensions: getTipTapExtensions(),
-    content: options.content !== undefined ? options.content : "<p>Start writing your document...</p>",
+    extensions: getTipTapExtensions({ collaboration: options.collaboration }),
+    // With collaboration the shared Yjs document is the content source
+    content: options.collaboration
+        ? undefined
+        : options.content !== undefined ? options.content : "<p>Start writing your document...</p>",
     editable: options.editable !== false,
     // Performance optimizations
     enableInputRules: true,
@@ -1,6 +1,14 @@
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import { loadToolsPreferences } from '@/utils/documentToolsPreferences';
+import type { ChunkSummary } from '@/services/documentChunkService';
+
+// Sections of a chunked document; only the first loadedCount chunks are in the editor yet
+export interface LazySections {
+    outline: ChunkSummary[];
+    loadedCount: number;
+    loadThrough: (chunkIndex: number) => Promise<void>;
+}
 
 interface DocumentContextType {
     documentTitle: string;
@@ -27,6 +35,8 @@ interface DocumentContextType {
     setShowToolbar: (show: boolean) => void;
     showNavigationPane: boolean;
     setShowNavigationPane: (show: boolean) => void;
+    lazySections: LazySections | null;
+    setLazySections: (sections: LazySections | null) => void;
 }
 
 const DocumentContext = createContext<DocumentContextType | undefined>(undefined);
@@ -48,6 +58,7 @@ export function DocumentProvider({ children }: DocumentProviderProps) {
     const [chatSidebarOpen, setChatSidebarOpen] = useState<boolean>(false);
     const [showToolbar, setShowToolbar] = useState<boolean>(true);
     const [showNavigationPane, setShowNavigationPane] = useState<boolean>(true);
+    const [lazySections, setLazySections] = useState<LazySections | null>(null);
 
     // Load tool preferences from cookies on mount
     useEffect(() => {
@@ -91,6 +102,8 @@ export function DocumentProvider({ children }: DocumentProviderProps) {
         setShowToolbar,
         showNavigationPane,
         setShowNavigationPane,
+        lazySections,
+        setLazySections,
     };
 
     return (
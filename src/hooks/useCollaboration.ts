@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import type { User } from 'firebase/auth';
+import {
+  CollaborationSession,
+  getCollabTransport,
+  getCollabUserColor,
+  type CollabStatus,
+  type CollabUser,
+} from '@/services/collaborationService';
+
+/**
+ * Opens a collaboration session for the document while the editor is mounted.
+ * Returns null when collaboration is turned off or nobody is signed in, in
+ * which case the editor falls back to whole-document saves.
+ */
+export function useCollaboration(documentId: string | undefined, user: User | null) {
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const userId = user?.uid;
+
+  useEffect(() => {
+    const transport = getCollabTransport();
+    if (!documentId || !user || transport === 'off') {
+      setSession(null);
+      return;
+    }
+
+    const collabUser: CollabUser = {
+      id: user.uid,
+      name: user.displayName || user.email || 'Anonymous',
+      color: getCollabUserColor(user.uid),
+    };
+    const next = new CollaborationSession(documentId, collabUser, transport);
+    setSession(next);
+
+    return () => {
+      next.destroy();
+      setSession(null);
+    };
+    // The session only depends on who is editing which document
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [documentId, userId]);
+
+  return session;
+}
+
+export interface Collaborator extends CollabUser {
+  clientId: number;
+}
+
+/**
+ * Other people currently in the document, plus the session connection status.
+ */
+export function useCollaborators(session: CollaborationSession | null) {
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [status, setStatus] = useState<CollabStatus>('connecting');
+
+  useEffect(() => {
+    if (!session) {
+      setCollaborators([]);
+      return;
+    }
+
+    const refresh = () => {
+      const others: Collaborator[] = [];
+      session.awareness.getStates().forEach((state, clientId) => {
+        if (clientId !== session.ydoc.clientID && state.user) {
+          others.push({ clientId, ...state.user });
+        }
+      });
+      setCollaborators(others);
+    };
+
+    refresh();
+    setStatus(session.status);
+    session.awareness.on('change', refresh);
+    const unsubscribe = session.onStatus(setStatus);
+    return () => {
+      session.awareness.off('change', refresh);
+      unsubscribe();
+    };
+  }, [session]);
+
+  return { collaborators, status };
+}
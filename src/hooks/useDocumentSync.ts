@@ -1,9 +1,22 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { doc, onSnapshot, updateDoc, Timestamp, increment } from 'firebase/firestore';
+import { doc, onSnapshot, updateDoc, runTransaction, Timestamp, increment, type DocumentData } from 'firebase/firestore';
 import { db } from '@/config/firebase';
 import { API_ENDPOINTS } from '@/lib/apiConfig';
+import { claimExternalContent, hashContent } from '@/services/collaborationService';
+import { applyContentWrite, isChunkedDocument, prepareContent, readDocumentContent } from '@/services/documentChunkService';
 
-export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'error';
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'error' | 'conflict';
+
+/**
+ * A content save rejected because someone else saved first.
+ * base is the content both edits started from.
+ */
+export interface SaveConflict {
+  base: string;
+  mine: string;
+  theirs: string;
+  theirsVersion: number;
+}
 
 /**
  * SyncChannel Types:
@@ -21,21 +34,50 @@ interface UseDocumentSyncOptions {
   onUpdate?: (content: string) => void;
   debounceMs?: number;
   onVersionSaved?: () => void; // Callback when version is saved
+  // Content is shared through a collaboration session; only changes made outside
+  // the collaborative editor (AI tools, restores) are passed to onUpdate
+  collaborative?: boolean;
 }
 
-export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 2000, onVersionSaved }: UseDocumentSyncOptions) {
+// Same format as Documents.Hash written by the backend ("sha256:" + hex of the JSON string)
+const hashDocumentContent = async (content: string): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(content)));
+  return 'sha256:' + Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 2000, onVersionSaved, collaborative = false }: UseDocumentSyncOptions) {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isInitialLoadRef = useRef(true);
-  const lastSavedContentRef = useRef<string>('');
+  // Last content known to be saved, and its Documents.version: the base of local edits.
+  // Content is null while a chunked base hasn't been assembled; baseDataRef can assemble it.
+  const lastSavedContentRef = useRef<string | null>('');
+  const lastSavedHashRef = useRef<string | null>(null);
+  const baseDataRef = useRef<DocumentData | null>(null);
+  const baseVersionRef = useRef(0);
   const pendingSaveContentRef = useRef<string | null>(null);
+  const pendingSaveHashRef = useRef<string | null>(null);
+  const hasUnsavedChangesRef = useRef(false);
+  const conflictRef = useRef<SaveConflict | null>(null);
 
   const onUpdateRef = useRef(onUpdate);
+  const onVersionSavedRef = useRef(onVersionSaved);
+  const collaborativeRef = useRef(collaborative);
   
   useEffect(() => {
     onUpdateRef.current = onUpdate;
   }, [onUpdate]);
 
+  useEffect(() => {
+    onVersionSavedRef.current = onVersionSaved;
+  }, [onVersionSaved]);
+
+  useEffect(() => {
+    collaborativeRef.current = collaborative;
+  }, [collaborative]);
+
   useEffect(() => {
     if (!documentId) return;
     
@@ -48,11 +90,26 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
       (snapshot) => {
         if (snapshot.exists()) {
           const data = snapshot.data();
-          const content = channel === 'summary' ? (data.Summary || '') : (data.Content || '');
+          // Chunked documents (see documentChunkService) are compared by Hash and
+          // only assembled when their content is actually needed
+          const chunked = channel === 'content' && isChunkedDocument(data);
+          const content: string | null = channel === 'summary' ? (data.Summary || '') : chunked ? null : (data.Content || '');
+          const hash: string | null = chunked ? (data.Hash || null) : null;
+          const sameAs = (savedContent: string | null, savedHash: string | null) =>
+            content !== null ? content === savedContent : hash !== null && hash === savedHash;
+
+          const rememberSaved = (savedContent: string | null) => {
+            lastSavedContentRef.current = savedContent;
+            lastSavedHashRef.current = hash;
+            baseDataRef.current = chunked ? data : null;
+            baseVersionRef.current = data.version || 0;
+          };
           
           if (isInitialLoadRef.current) {
-            lastSavedContentRef.current = content;
-            if (onUpdateRef.current) {
+            rememberSaved(content);
+            // A collaborative editor loads from the shared document instead, and
+            // the editor loads chunked documents section by section itself
+            if (onUpdateRef.current && content !== null && !(collaborativeRef.current && channel === 'content')) {
               onUpdateRef.current(content);
             }
             isInitialLoadRef.current = false;
@@ -61,25 +118,66 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
           }
           
           // Check if this is our own save
-          if (pendingSaveContentRef.current !== null && pendingSaveContentRef.current === content) {
-            lastSavedContentRef.current = content;
+          if (pendingSaveContentRef.current !== null && sameAs(pendingSaveContentRef.current, pendingSaveHashRef.current)) {
+            rememberSaved(pendingSaveContentRef.current);
             pendingSaveContentRef.current = null;
             setSyncStatus('synced');
             return;
           }
           
-          // Check if content changed
-          if (content === lastSavedContentRef.current) {
+          // Check if content changed (other fields such as Summary or Title still bump the version)
+          if (sameAs(lastSavedContentRef.current, lastSavedHashRef.current)) {
+            rememberSaved(lastSavedContentRef.current);
             return;
           }
+
+          const applyExternalContent = (externalContent: string) => {
+            if (externalContent === lastSavedContentRef.current) {
+              rememberSaved(externalContent);
+              return;
+            }
+
+            // Unsaved local edits are not overwritten; their save will conflict and offer a merge
+            if (channel === 'content' && !collaborativeRef.current && (hasUnsavedChangesRef.current || conflictRef.current)) {
+              return;
+            }
           
-          // Real external update
-          lastSavedContentRef.current = content;
-          pendingSaveContentRef.current = null;
-          if (onUpdateRef.current) {
-            onUpdateRef.current(content);
+            // Real external update
+            rememberSaved(externalContent);
+            pendingSaveContentRef.current = null;
+
+            if (collaborativeRef.current && channel === 'content') {
+              // Collaborators' saves carry a matching hash and arrive through the shared document.
+              // Anything else is merged by exactly one connected editor.
+              if (data.Collab_Hash !== hashContent(externalContent)) {
+                claimExternalContent(documentId)
+                  .then((claimed) => {
+                    if (claimed !== null && onUpdateRef.current) {
+                      onUpdateRef.current(claimed);
+                    }
+                  })
+                  .catch((error) => console.error('❌ Failed to claim external content change:', error));
+              }
+              setSyncStatus('synced');
+              return;
+            }
+
+            if (onUpdateRef.current) {
+              onUpdateRef.current(externalContent);
+            }
+            setSyncStatus('synced');
+          };
+
+          if (content !== null) {
+            applyExternalContent(content);
+          } else {
+            readDocumentContent(documentId, data)
+              .then(applyExternalContent)
+              .catch((error) => {
+                console.error('❌ Failed to load changed document sections:', error);
+                setSyncStatus('error');
+              });
           }
-          setSyncStatus('synced');
         } else {
           console.error(`Document not found: ${documentId}`);
           setSyncStatus('error');
@@ -96,6 +194,71 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
     };
   }, [documentId, channel]);
 
+  /**
+   * Write Content only if nobody else saved different content since our base version.
+   * Returns the conflict instead of writing when the save is stale.
+   */
+  const saveContentIfCurrent = useCallback(async (docRef: ReturnType<typeof doc>, content: string): Promise<SaveConflict | null> => {
+    const [hash, prepared] = await Promise.all([hashDocumentContent(content), prepareContent(content)]);
+    pendingSaveHashRef.current = hash;
+    const baseVersion = baseVersionRef.current;
+    const baseData = baseDataRef.current;
+
+    const result = await runTransaction(db, async (transaction): Promise<{ conflict: SaveConflict } | { version: number }> => {
+      const snapshot = await transaction.get(docRef);
+      const data = snapshot.data() || {};
+      const version: number = data.version || 0;
+
+      if (version !== baseVersion) {
+        // Chunks never change, so reading them outside the transaction is safe
+        const theirs = await readDocumentContent(documentId, data);
+        const base = lastSavedContentRef.current ?? await readDocumentContent(documentId, baseData);
+        // A newer version with the same Content (summary or title edits) is not a conflict
+        if (theirs !== base && theirs !== content) {
+          return { conflict: { base, mine: content, theirs, theirsVersion: version } };
+        }
+      }
+
+      transaction.update(docRef, {
+        ...applyContentWrite(transaction, documentId, prepared, data),
+        Updated_Time: Timestamp.now(),
+        version: version + 1,
+        ...(hash ? { Hash: hash } : {}),
+      });
+      return { version: version + 1 };
+    });
+
+    if ('conflict' in result) {
+      return result.conflict;
+    }
+    lastSavedContentRef.current = content;
+    lastSavedHashRef.current = hash;
+    baseDataRef.current = null;
+    baseVersionRef.current = result.version;
+    return null;
+  }, [documentId]);
+
+  /**
+   * Write Content from the shared document. Collaborators merge through the shared
+   * document, so their saves skip the version check; Collab_Hash marks the Content
+   * as coming from it. Large content is chunked like any other save.
+   */
+  const saveCollaborativeContent = useCallback(async (docRef: ReturnType<typeof doc>, content: string): Promise<void> => {
+    const [hash, prepared] = await Promise.all([hashDocumentContent(content), prepareContent(content)]);
+    pendingSaveHashRef.current = hash;
+
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(docRef);
+      transaction.update(docRef, {
+        ...applyContentWrite(transaction, documentId, prepared, snapshot.data()),
+        Updated_Time: Timestamp.now(),
+        version: increment(1),
+        Collab_Hash: hashContent(content),
+        ...(hash ? { Hash: hash } : {}),
+      });
+    });
+  }, [documentId]);
+
   const sendUpdate = useCallback(async (content: string, immediate = false) => {
     if (!documentId) {
       return;
@@ -105,6 +268,12 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
       clearTimeout(debounceTimerRef.current);
     }
 
+    // Nothing is saved until the open conflict is resolved
+    if (conflictRef.current) {
+      return;
+    }
+
+    hasUnsavedChangesRef.current = true;
     // Set to pending when user is typing
     setSyncStatus('pending');
 
@@ -116,19 +285,26 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
         pendingSaveContentRef.current = content;
         
         const docRef = doc(db, 'Documents', documentId);
-        
-        const updateData: any = {
-          Updated_Time: Timestamp.now(),
-          version: increment(1), // Atomically increment version
-        };
-        
-        if (channel === 'summary') {
-          updateData.Summary = content;
+
+        if (channel === 'content' && !collaborativeRef.current) {
+          const stale = await saveContentIfCurrent(docRef, content);
+          if (stale) {
+            pendingSaveContentRef.current = null;
+            conflictRef.current = stale;
+            setConflict(stale);
+            setSyncStatus('conflict');
+            return;
+          }
+        } else if (channel === 'content') {
+          await saveCollaborativeContent(docRef, content);
         } else {
-          updateData.Content = content;
+          await updateDoc(docRef, {
+            Summary: content,
+            Updated_Time: Timestamp.now(),
+            version: increment(1), // Atomically increment version
+          });
         }
-        
-        await updateDoc(docRef, updateData);
+        hasUnsavedChangesRef.current = false;
         
         // Save version history to backend
         try {
@@ -151,9 +327,7 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
             const result = await response.json();
             
             // Notify parent component that version was saved
-            if (onVersionSaved) {
-              onVersionSaved();
-            }
+            onVersionSavedRef.current?.();
           }
         } catch (versionError) {
           // Don't fail the whole operation if version save fails
@@ -172,7 +346,34 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
     } else {
       debounceTimerRef.current = setTimeout(saveToFirestore, debounceMs);
     }
-  }, [documentId, channel, debounceMs]);
+  }, [documentId, channel, debounceMs, saveContentIfCurrent, saveCollaborativeContent]);
+
+  /**
+   * Close the open conflict with the merged content. Their version becomes the
+   * new base, so the merged save goes through unless someone saved again meanwhile.
+   */
+  const resolveConflict = useCallback(async (mergedContent: string) => {
+    const current = conflictRef.current;
+    if (!current) return;
+
+    conflictRef.current = null;
+    setConflict(null);
+    hasUnsavedChangesRef.current = false;
+    lastSavedContentRef.current = current.theirs;
+    lastSavedHashRef.current = null;
+    baseDataRef.current = null;
+    baseVersionRef.current = current.theirsVersion;
+
+    if (onUpdateRef.current) {
+      onUpdateRef.current(mergedContent);
+    }
+
+    if (mergedContent === current.theirs) {
+      setSyncStatus('synced');
+      return;
+    }
+    await sendUpdate(mergedContent, true);
+  }, [sendUpdate]);
 
   useEffect(() => {
     return () => {
@@ -185,5 +386,7 @@ export function useDocumentSync({ documentId, channel, onUpdate, debounceMs = 20
   return {
     syncStatus,
     sendUpdate,
+    conflict,
+    resolveConflict,
   };
 }
@@ -35,6 +35,8 @@ export const API_ENDPOINTS = {
     const url = buildApiUrl(`api/projects/${id}`);
     return userId ? `${url}?userId=${userId}` : url;
   },
+  projectSiteExport: (projectId: string) => buildApiUrl(`api/projects/${projectId}/export/site`),
+  projectImport: () => buildApiUrl('api/projects/import'),
   
   // Documents  
   documents: () => buildApiUrl('api/documents'),
@@ -43,6 +45,7 @@ export const API_ENDPOINTS = {
   projectDocuments: (projectId: string) => buildApiUrl(`api/documents/project/${projectId}`),
   documentHistory: (docId: string) => buildApiUrl(`api/document/editor/history/${docId}`), // ✅ Now deployed to production
   documentContent: (docId: string) => buildApiUrl(`api/document/editor/content/${docId}`),
+  documentPdfExport: (docId: string) => buildApiUrl(`api/documents/${docId}/export/pdf`),
   documentSummary: (docId: string) => buildApiUrl(`api/document/editor/summary/${docId}`),
   saveVersion: (docId: string) => buildApiUrl(`api/document/save-version/${docId}`),
   chatHistory: (docId: string) => buildApiUrl(`api/document/chat/history/${docId}`),
@@ -50,7 +53,47 @@ export const API_ENDPOINTS = {
   agentWorkflow: (docId: string) => buildApiUrl(`api/document/chat/agent/${docId}`),
   agentAction: (docId: string) => buildApiUrl(`api/document/chat/agent/action/${docId}`),
   projectDocumentList: (projectId: string) => buildApiUrl(`api/project/${projectId}/documents`),
+
+  // Tools
+  toolAudit: (filters: Record<string, string | undefined>) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return buildApiUrl(`api/tools/audit${query ? `?${query}` : ''}`);
+  },
   
+  // MCP (external clients)
+  mcp: () => buildApiUrl('api/mcp'),
+  mcpTokens: () => buildApiUrl('api/mcp/tokens'),
+  mcpToken: (tokenId: string) => buildApiUrl(`api/mcp/tokens/${tokenId}`),
+
+  // Usage
+  usage: () => buildApiUrl('api/usage'),
+
+  // Generation jobs
+  generationJobs: () => buildApiUrl('api/generation-jobs'),
+  projectGenerationJobs: (projectId: string) => buildApiUrl(`api/generation-jobs?projectId=${encodeURIComponent(projectId)}`),
+  generationJob: (jobId: string) => buildApiUrl(`api/generation-jobs/${jobId}`),
+  resumeGenerationJob: (jobId: string) => buildApiUrl(`api/generation-jobs/${jobId}/resume`),
+  codeAnalysis: () => buildApiUrl('api/code-analysis'),
+
+  // Docs drift
+  projectDrift: (projectId: string) => buildApiUrl(`api/docs-drift/projects/${projectId}`),
+  checkProjectDrift: (projectId: string) => buildApiUrl(`api/docs-drift/projects/${projectId}/check`),
+  checkDocumentDrift: (documentId: string) => buildApiUrl(`api/docs-drift/documents/${documentId}/check`),
+  verifyDocumentDrift: (documentId: string) => buildApiUrl(`api/docs-drift/documents/${documentId}/verify`),
+  resolveDocumentDrift: (documentId: string) => buildApiUrl(`api/docs-drift/documents/${documentId}/resolve`),
+  documentDriftPatch: (documentId: string) => buildApiUrl(`api/docs-drift/documents/${documentId}/patch`),
+
+  // GitHub sync
+  projectGitHubSync: (projectId: string) => buildApiUrl(`api/github-sync/projects/${projectId}`),
+  gitHubSyncMappings: (projectId: string) => buildApiUrl(`api/github-sync/projects/${projectId}/mappings`),
+  gitHubSyncPublish: (projectId: string) => buildApiUrl(`api/github-sync/projects/${projectId}/publish`),
+  documentGitHubSync: (documentId: string) => buildApiUrl(`api/github-sync/documents/${documentId}`),
+  documentGitHubSyncPulled: (documentId: string) => buildApiUrl(`api/github-sync/documents/${documentId}/pulled`),
+
   // Templates
   templates: () => buildApiUrl('api/templates'),
   template: (id: string) => buildApiUrl(`api/templates/${id}`),
@@ -142,7 +142,6 @@ export const Mermaid = Node.create<MermaidOptions>({
       mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
         'data-type': 'mermaid',
       }),
-      0,
     ]
   },
 
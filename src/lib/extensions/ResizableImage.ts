@@ -2,19 +2,20 @@ import Image from '@tiptap/extension-image'
 import { Plugin, PluginKey } from '@tiptap/pm/state'
 import { Decoration, DecorationSet } from '@tiptap/pm/view'
 import { NodeSelection } from '@tiptap/pm/state'
-import { processImageFile, MAX_IMAGE_SIZE_MB } from '@/services/imageCompressionService'
+import { uploadImageAsset, MAX_ASSET_SIZE_MB } from '@/services/assetService'
 
-// Helper function to check size and insert image
+// Helper function to upload the image to the asset store and insert it
 async function handleImageUpload(file: File, view: any, pos?: number) {
     const { schema } = view.state
 
     try {
-        // Process the image (size check + convert to Base64)
-        const result = await processImageFile(file)
+        // Upload to Cloud Storage (size check + dedupe by content hash)
+        const result = await uploadImageAsset(file)
         
-        // Insert the Base64 image
+        // Insert the image by reference instead of inlining it
         const node = schema.nodes.resizableImage.create({
-            src: result.dataUrl,
+            src: result.url,
+            assetId: result.assetId,
             alt: file.name.replace(/\.[^/.]+$/, ''),
             width: result.width > 800 ? 800 : null, // Cap initial width at 800px
             showBorder: true,
@@ -30,9 +31,9 @@ async function handleImageUpload(file: File, view: any, pos?: number) {
         import('sweetalert2').then(({ default: Swal }) => {
             Swal.fire({
                 icon: 'error',
-                title: 'Image Too Large',
+                title: 'Image Upload Failed',
                 text: error instanceof Error ? error.message : 'Unknown error',
-                footer: `Maximum image size: ${MAX_IMAGE_SIZE_MB}MB`,
+                footer: `Maximum image size: ${MAX_ASSET_SIZE_MB}MB`,
                 confirmButtonColor: '#3B82F6',
                 confirmButtonText: 'OK'
             });
@@ -54,6 +55,7 @@ declare module '@tiptap/core' {
              */
             setResizableImage: (options: {
                 src: string
+                assetId?: string
                 alt?: string
                 title?: string
                 width?: number
@@ -87,6 +89,19 @@ export const ResizableImage = Image.extend<ResizableImageOptions>({
             src: {
                 default: null,
             },
+            // Asset store id; the asset GC keeps images that are still referenced
+            assetId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-asset-id'),
+                renderHTML: attributes => {
+                    if (!attributes.assetId) {
+                        return {}
+                    }
+                    return {
+                        'data-asset-id': attributes.assetId,
+                    }
+                },
+            },
             alt: {
                 default: null,
             },
@@ -1,4 +1,6 @@
 import axios from 'axios';
+import type { User } from 'firebase/auth';
+import { API_ENDPOINTS } from './apiConfig';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -42,6 +44,47 @@ export interface Installation {
   created_at: Date;
 }
 
+export type SyncStatus = 'unpublished' | 'pending' | 'synced' | 'changed' | 'removed';
+
+export interface SyncPullRequest {
+  number: number;
+  url: string;
+  branch: string;
+}
+
+// A document mapped to a Markdown file in the project's repository
+export interface DocumentSync {
+  documentId: string;
+  repository: string;
+  path: string;
+  status: SyncStatus;
+  syncedSha: string | null;
+  syncedRevision: string | null;
+  syncedAt: string | null;
+  upstreamSha: string | null;
+  pullRequest: SyncPullRequest | null;
+}
+
+export interface ProjectSync {
+  repository: string;
+  branch: string;
+  revision: string;
+  documents: DocumentSync[];
+}
+
+export interface UpstreamFile {
+  path: string;
+  sha: string;
+  revision: string;
+  markdown: string;
+}
+
+export interface PublishResult {
+  pullRequest: SyncPullRequest | null;
+  published: string[];
+  unchanged: string[];
+}
+
 class GitHubClient {
   private getAuthHeaders() {
     // Get Firebase auth token
@@ -58,6 +101,19 @@ class GitHubClient {
     };
   }
 
+  // The sync endpoints authenticate with the signed-in user's Firebase ID token
+  private async getUserHeaders(user: User) {
+    return {
+      'Authorization': `Bearer ${await user.getIdToken()}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  private syncError(error: unknown, fallback: string): Error {
+    const message = axios.isAxiosError(error) ? error.response?.data?.error : null;
+    return new Error(typeof message === 'string' && message ? message : fallback);
+  }
+
   async getInstallUrl(): Promise<{ install_url: string; state: string }> {
     try {
       const response = await axios.get(`${API_BASE_URL}/api/github/install-url`, {
@@ -184,6 +240,82 @@ class GitHubClient {
     }
   }
 
+  async getProjectSync(user: User, projectId: string): Promise<ProjectSync> {
+    try {
+      const response = await axios.get(API_ENDPOINTS.projectGitHubSync(projectId), {
+        headers: await this.getUserHeaders(user),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching sync status:', error);
+      throw this.syncError(error, 'Failed to fetch the sync status');
+    }
+  }
+
+  // A null path stops syncing the document
+  async saveSyncMappings(
+    user: User,
+    projectId: string,
+    mappings: Array<{ documentId: string; path: string | null }>
+  ): Promise<void> {
+    try {
+      await axios.put(API_ENDPOINTS.gitHubSyncMappings(projectId), { mappings }, {
+        headers: await this.getUserHeaders(user),
+      });
+    } catch (error) {
+      console.error('Error saving sync mappings:', error);
+      throw this.syncError(error, 'Failed to save the file paths');
+    }
+  }
+
+  /**
+   * Commit the documents' Markdown to a new branch and open a pull request
+   * through the GitHub App installation on the project's repository
+   */
+  async publishDocuments(
+    user: User,
+    projectId: string,
+    documents: Array<{ documentId: string; markdown: string }>,
+    title?: string
+  ): Promise<PublishResult> {
+    try {
+      const response = await axios.post(API_ENDPOINTS.gitHubSyncPublish(projectId), { documents, title }, {
+        headers: await this.getUserHeaders(user),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error publishing documents:', error);
+      throw this.syncError(error, 'Failed to publish the documents');
+    }
+  }
+
+  // `upstream` is set when the file changed on the default branch since the last sync
+  async getDocumentSync(user: User, documentId: string): Promise<{ sync: DocumentSync | null; upstream: UpstreamFile | null }> {
+    try {
+      const response = await axios.get(API_ENDPOINTS.documentGitHubSync(documentId), {
+        headers: await this.getUserHeaders(user),
+      });
+      return { sync: response.data.sync, upstream: response.data.upstream };
+    } catch (error) {
+      console.error('Error fetching document sync:', error);
+      throw this.syncError(error, 'Failed to fetch the sync status');
+    }
+  }
+
+  async markDocumentPulled(user: User, documentId: string, upstream: UpstreamFile): Promise<DocumentSync> {
+    try {
+      const response = await axios.post(
+        API_ENDPOINTS.documentGitHubSyncPulled(documentId),
+        { sha: upstream.sha, revision: upstream.revision },
+        { headers: await this.getUserHeaders(user) }
+      );
+      return response.data.sync;
+    } catch (error) {
+      console.error('Error recording pull:', error);
+      throw this.syncError(error, 'Failed to record the pulled changes');
+    }
+  }
+
   // Helper method to get common file shortcuts for a repository
   getCommonFileShortcuts() {
     return [
@@ -10,7 +10,7 @@ import { FileText } from 'lucide-react';
 import type { LegacyTemplate, Template } from '../types';
 import { useFeedback } from '../components/AppLayout';
 import { showError } from '@/utils/sweetAlert';
-import { aiService } from '../services/aiService';
+import { aiService, type GenerationJob } from '../services/aiService';
 import { API_ENDPOINTS } from '@/lib/apiConfig';
 
 interface GenerationStep {
@@ -38,6 +38,7 @@ const AllTemplate: React.FC = () => {
   const [generationSteps, setGenerationSteps] = useState<GenerationStep[]>([]);
   const [currentGenerationStep, setCurrentGenerationStep] = useState<string>('parse');
   const [estimatedRange, setEstimatedRange] = useState<[number, number] | null>(null);
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
 
   // Fetch templates from API
   useEffect(() => {
@@ -212,8 +213,16 @@ const AllTemplate: React.FC = () => {
         }
       }
 
+      // Determine document category
+      let documentCategory = 'General';
+      if (documentRole.toLowerCase().includes('user')) {
+        documentCategory = 'User';
+      } else if (documentRole.toLowerCase().includes('developer') || documentRole.toLowerCase().includes('api')) {
+        documentCategory = 'Developer';
+      }
+
       // Generate AI content if GitHub repository is available
-      let content = template.TemplatePrompt || '';
+      const content = template.TemplatePrompt || '';
 
       if (repositoryUrl && user) {
         const repoMatch = repositoryUrl.match(/(?:https?:\/\/github\.com\/)?([^\/]+)\/([^\/\s]+)/);
@@ -288,97 +297,58 @@ const AllTemplate: React.FC = () => {
             // Ignore estimation errors - will use default "10-30s" from modal
           }
 
-          const steps: GenerationStep[] = [
+          // Initial steps; the job's own progress replaces them once it starts
+          setGenerationJob(null);
+          setGenerationSteps([
             { id: 'parse', label: 'Parsing repository information', status: 'completed', details: repoFullName },
-            { id: 'structure', label: 'Fetching repository structure', status: 'in-progress', details: 'Analyzing files and directories...' },
-            { id: 'analysis', label: 'AI analyzing codebase', status: 'pending', details: 'Understanding project structure...' },
-            { id: 'iteration', label: 'AI examining code files', status: 'pending', details: 'Reading relevant files...' },
-            { id: 'files', label: 'Processing repository files', status: 'pending', details: 'Gathering context...' },
-            { id: 'generate', label: 'Writing documentation', status: 'pending', details: 'AI creating content...' },
-            { id: 'done', label: 'Finalizing document', status: 'pending' }
-          ];
-          setGenerationSteps(steps);
-          setCurrentGenerationStep('structure');
-
-          // Progress callback for iterative AI
-          const handleProgress = (step: string, detail?: string) => {
-            setGenerationSteps(prev => prev.map(s => {
-              // Mark completed steps based on workflow
-              const completedSteps = ['parse'];
-
-              if (step === 'analysis' || step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                completedSteps.push('structure');
-              }
-              if (step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                completedSteps.push('analysis');
-              }
-              if (step === 'files' || step === 'generate' || step === 'done') {
-                completedSteps.push('iteration');
-              }
-              if (step === 'generate' || step === 'done') {
-                completedSteps.push('files');
-              }
-              if (step === 'done') {
-                completedSteps.push('generate');
-              }
-
-              // Mark completed
-              if (completedSteps.includes(s.id) && s.id !== step) {
-                return { ...s, status: 'completed' as const };
-              }
-
-              // Update current step
-              if (s.id === step) {
-                return {
-                  ...s,
-                  status: step === 'done' ? 'completed' as const : 'in-progress' as const,
-                  details: detail || s.details
-                };
-              }
-
-              // Map 'analysis' and 'files' to 'iteration' step
-              if ((step === 'analysis' || step === 'files') && s.id === 'iteration') {
-                return {
-                  ...s,
-                  status: 'in-progress' as const,
-                  details: detail || s.details
-                };
-              }
-
-              // Map final content generation to 'generate' step
-              if (step === 'init' && s.id === 'structure') {
-                return {
-                  ...s,
-                  status: 'in-progress' as const,
-                  details: detail || s.details
-                };
-              }
-
-              return s;
-            }));
-            setCurrentGenerationStep(step);
-          };
+            { id: 'queue', label: 'Starting generation on the server', status: 'in-progress', details: 'Queuing job...' }
+          ]);
+          setCurrentGenerationStep('queue');
 
+          let startedJobId: string | null = null;
           try {
-            // Generate content using section-by-section generation for better handling of long documents
-            content = await aiService.generateDocumentInSections(
+            // Section-by-section generation runs on the server, which creates the document when done
+            const job = await aiService.generateDocumentInSections(
               user,
-              template.TemplatePrompt || '',
-              { owner, repo, fullName: repoFullName },
-              documentRole,
-              documentName,
-              handleProgress
+              {
+                projectId: finalProjectId,
+                templateId: template.Template_Id || template.id || null,
+                templatePrompt: template.TemplatePrompt || '',
+                repository: { owner, repo },
+                documentName,
+                documentRole,
+                documentType: template.TemplateName || 'user-manual',
+                documentCategory,
+              },
+              (update) => {
+                startedJobId = update.id;
+                setGenerationJob(update);
+              }
             );
-            
 
             // Finalize
-            handleProgress('done', 'Document ready!');
             await new Promise(resolve => setTimeout(resolve, 500));
 
-            
+            setIsGenerating(false);
+            setSelectedTemplate(null);
+            navigate(`/document/${job.documentId}`);
+            return;
           } catch (aiError) {
             console.error('❌ AI generation failed:', aiError);
 
+            // A job that started keeps its finished sections and is resumed from the project page
+            if (startedJobId) {
+              await new Promise(resolve => setTimeout(resolve, 1500));
+              setIsGenerating(false);
+              setSelectedTemplate(null);
+              showError(
+                'Document Generation Failed',
+                `${aiError instanceof Error ? aiError.message : 'Unknown error'}. You can resume it from the project page.`
+              );
+              navigate(`/project/${finalProjectId}`);
+              return;
+            }
+
             // Update steps to show error
             setGenerationSteps(prev => prev.map(step =>
               step.status === 'in-progress'
@@ -398,14 +368,6 @@ const AllTemplate: React.FC = () => {
       // Get user ID
       const userId = user.uid;
 
-      // Determine document category
-      let documentCategory = 'General';
-      if (documentRole.toLowerCase().includes('user')) {
-        documentCategory = 'User';
-      } else if (documentRole.toLowerCase().includes('developer') || documentRole.toLowerCase().includes('api')) {
-        documentCategory = 'Developer';
-      }
-
       // Create document with consistent field names matching backend expectations
       const createDocRes = await fetch(API_ENDPOINTS.documents(), {
         method: 'POST',
@@ -575,6 +537,7 @@ const AllTemplate: React.FC = () => {
         repositoryName={generationRepository}
         steps={generationSteps}
         currentStep={currentGenerationStep}
+        job={generationJob}
         estimatedSecondsRange={estimatedRange ?? undefined}
       />
     </div>
@@ -10,7 +10,7 @@ import { API_ENDPOINTS } from '../lib/apiConfig';
 import type { Template } from '../types';
 import { getUserDisplayInfo } from '../utils/user';
 import { useAuth } from '../context/AuthContext';
-import { aiService } from '../services/aiService';
+import { aiService, type GenerationJob } from '../services/aiService';
 import { useFeedback } from '../components/AppLayout';
 import { showSuccess, showError } from '@/utils/sweetAlert';
 
@@ -35,6 +35,7 @@ const Dashboard: React.FC = () => {
   const [generationRepository, setGenerationRepository] = useState('');
   const [generationSteps, setGenerationSteps] = useState<GenerationStep[]>([]);
   const [currentGenerationStep, setCurrentGenerationStep] = useState<string>('');
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
 
   // Clean up any Mermaid error elements that appear on the dashboard
   useEffect(() => {
@@ -134,7 +135,7 @@ const Dashboard: React.FC = () => {
       }
 
       // Generate AI content if GitHub repository is available
-      let documentContent = data.template.TemplatePrompt || `<h1>${data.documentName}</h1><p>Role: ${data.documentRole}</p><p>This document was created using the ${data.template.TemplateName} template.</p>`;
+      const documentContent = data.template.TemplatePrompt || `<h1>${data.documentName}</h1><p>Role: ${data.documentRole}</p><p>This document was created using the ${data.template.TemplateName} template.</p>`;
 
       // Determine repository URL - either from modal selection or from existing project
       let repositoryUrl = data.selectedRepo;
@@ -165,80 +166,60 @@ const Dashboard: React.FC = () => {
             setGenerationRepository(repoFullName);
             setIsGenerating(true);
 
-            // Initialize generation steps
-            const steps: GenerationStep[] = [
+            // Initialize generation steps; the job's own progress replaces them once it starts
+            setGenerationJob(null);
+            setGenerationSteps([
               { id: 'parse', label: 'Parsing repository information', status: 'completed', details: `Repository: ${repoFullName}` },
-              { id: 'structure', label: 'Fetching repository structure', status: 'in-progress', details: 'Analyzing files and directories...' },
-              { id: 'analysis', label: 'AI analyzing codebase', status: 'pending', details: 'Understanding project structure...' },
-              { id: 'iteration', label: 'AI examining code files', status: 'pending', details: 'Reading relevant files...' },
-              { id: 'files', label: 'Processing repository files', status: 'pending', details: 'Gathering context...' },
-              { id: 'generate', label: 'Writing documentation', status: 'pending', details: 'AI creating content...' },
-              { id: 'done', label: 'Finalizing document', status: 'pending' }
-            ];
-            setGenerationSteps(steps);
-            setCurrentGenerationStep('structure');
-
-            // Progress callback for iterative AI
-            const handleProgress = (step: string, detail?: string) => {
-              setGenerationSteps(prev => prev.map(s => {
-                // Mark completed steps based on workflow
-                const completedSteps = ['parse'];
-
-                if (step === 'analysis' || step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('structure');
-                }
-                if (step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('analysis');
-                }
-                if (step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('iteration');
-                }
-                if (step === 'generate' || step === 'done') {
-                  completedSteps.push('files');
-                }
-                if (step === 'done') {
-                  completedSteps.push('generate');
-                }
-
-                // Mark completed
-                if (completedSteps.includes(s.id) && s.id !== step) {
-                  return { ...s, status: 'completed' as const };
-                }
-
-                // Update current step
-                if (s.id === step) {
-                  return {
-                    ...s,
-                    status: step === 'done' ? 'completed' as const : 'in-progress' as const,
-                    details: detail || s.details
-                  };
-                }
-
-                return s;
-              }));
-              setCurrentGenerationStep(step);
-            };
+              { id: 'queue', label: 'Starting generation on the server', status: 'in-progress', details: 'Queuing job...' }
+            ]);
+            setCurrentGenerationStep('queue');
 
+            let startedJobId: string | null = null;
             try {
-              // Generate content using NEW iterative AI method
-              documentContent = await aiService.generateDocumentFromTemplateAndRepoIterative(
+              // The server generates the document and creates it, even if this tab closes
+              const job = await aiService.generateDocumentFromTemplateAndRepoIterative(
                 user,
-                data.template.TemplatePrompt || '',
-                { owner, repo, fullName: repoFullName },
-                data.documentRole,
-                data.documentName,
-                handleProgress // Pass progress callback
+                {
+                  projectId: finalProjectId,
+                  templateId: data.template.id || data.template.Template_Id || null,
+                  templatePrompt: data.template.TemplatePrompt || '',
+                  repository: { owner, repo },
+                  documentName: data.documentName.trim(),
+                  documentRole: data.documentRole,
+                  documentType: data.template.TemplateName || 'user-manual',
+                  documentCategory,
+                },
+                (update) => {
+                  startedJobId = update.id;
+                  setGenerationJob(update);
+                }
               );
-              
 
-              // Finalize
-              handleProgress('done', 'Document ready!');
+              // Wait a bit to show completion
               await new Promise(resolve => setTimeout(resolve, 500));
 
-              
+              setIsTemplateModalOpen(false);
+              setSelectedTemplate(null);
+              setIsGenerating(false);
+              navigate(`/document/${job.documentId}`);
+              return;
             } catch (aiError) {
               console.error('❌ AI generation failed:', aiError);
 
+              // A job that started keeps its finished sections and is resumed from the project page
+              if (startedJobId) {
+                await new Promise(resolve => setTimeout(resolve, 1500));
+                setIsTemplateModalOpen(false);
+                setSelectedTemplate(null);
+                setIsGenerating(false);
+                showError(
+                  'Document Generation Failed',
+                  `${aiError instanceof Error ? aiError.message : 'Unknown error'}. You can resume it from the project page.`
+                );
+                navigate(`/project/${finalProjectId}`);
+                return;
+              }
+
               // Update steps to show error
               setGenerationSteps(prev => prev.map(step =>
                 step.status === 'in-progress'
@@ -451,6 +432,7 @@ const Dashboard: React.FC = () => {
         repositoryName={generationRepository}
         steps={generationSteps}
         currentStep={currentGenerationStep}
+        job={generationJob}
         onCancel={() => {
           setIsGenerating(false);
           setGenerationSteps([]);
@@ -0,0 +1,26 @@
+import DocumentLayout from "./DocumentLayout";
+import ToolAuditLog from "@/components/Document/ToolAuditLog";
+import { useParams } from "react-router-dom";
+import { useDocument } from "@/context/DocumentContext";
+
+/**
+ * DocumentAudit Component
+ *
+ * Shows every AI tool call recorded against this document (ToolAudit collection),
+ * so changes can be traced back to the user or agent run that made them.
+ */
+export default function DocumentAudit() {
+    const { documentId: urlDocId } = useParams<{ documentId: string }>();
+    const { documentId: contextDocId } = useDocument();
+
+    // Use URL documentId first, fallback to context
+    const documentId = urlDocId || contextDocId;
+
+    return (
+        <DocumentLayout showDocumentMenu={false}>
+            <div className="h-full">
+                <ToolAuditLog documentId={documentId} />
+            </div>
+        </DocumentLayout>
+    );
+}
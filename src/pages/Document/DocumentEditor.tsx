@@ -1,5 +1,6 @@
 import DocumentLayout from "./DocumentLayout";
-import TipTap from "@/components/Document/TipTap";
+import TipTap, { type TiptapUpdateMeta } from "@/components/Document/TipTap";
+import type { Editor } from "@tiptap/react";
 import AIActionContainer from "@/components/Document/AIActionContainer";
 import { useDocument } from "@/context/DocumentContext";
 import { useRef, useEffect, useState, useCallback } from "react";
@@ -8,7 +9,13 @@ import { API_ENDPOINTS } from "@/lib/apiConfig";
 import { fetchDocument } from "@/services/apiService";
 import { useAuth } from '@/context/AuthContext';
 import { useDocumentSync } from "@/hooks/useDocumentSync";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import CollaboratorPresence from "@/components/Document/CollaboratorPresence";
+import MergeConflictDialog from "@/components/Document/MergeConflictDialog";
 import DocumentSizeIndicator from '@/components/Document/DocumentSizeIndicator';
+import DocsDriftPanel from "@/components/Document/DocsDriftPanel";
+import GitHubSyncPanel from "@/components/Document/GitHubSyncPanel";
+import { isChunkedDocument, loadChunks, type ChunkSummary } from "@/services/documentChunkService";
 
 import { EnhancedAIContentWriter } from '@/utils/enhancedAIContentWriter';
 import type { ContentPosition } from '@/utils/enhancedAIContentWriter';
@@ -40,11 +47,24 @@ export default function DocumentEditor() {
         setDocumentId,
         setProjectId,
         setRepositoryInfo,
+        repositoryInfo,
         onOpenChat,
         showToolbar,
+        setLazySections,
     } = useDocument();
     const documentContainerRef = useRef<HTMLDivElement>(null);
     const latestContentRef = useRef<string>("");
+    const editorRef = useRef<Editor | null>(null);
+
+    // Chunked documents load section by section; the outline is null once everything is in the editor
+    const [chunkOutline, setChunkOutline] = useState<ChunkSummary[] | null>(null);
+    const [loadedChunkCount, setLoadedChunkCount] = useState(0);
+    const chunkOutlineRef = useRef<ChunkSummary[] | null>(null);
+    const loadedChunkCountRef = useRef(0);
+    const chunkLoadQueueRef = useRef<Promise<void>>(Promise.resolve());
+    // Collaboration starts once the document is known not to be chunked:
+    // the shared Yjs state of a very large document doesn't fit in Firestore
+    const [isChunkedStorage, setIsChunkedStorage] = useState<boolean | null>(null);
     const autoSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     // AI Editing State
@@ -119,16 +139,29 @@ export default function DocumentEditor() {
         }
     };
 
+    const setChunkOutlineState = useCallback((outline: ChunkSummary[] | null, loadedCount: number) => {
+        chunkOutlineRef.current = outline;
+        loadedChunkCountRef.current = loadedCount;
+        setChunkOutline(outline);
+        setLoadedChunkCount(loadedCount);
+    }, []);
+
+    // Real-time collaborative editing session (null when collaboration is off)
+    const collaboration = useCollaboration(isChunkedStorage === false ? documentId : undefined, user);
+
     // WebSocket sync hook for editor content (separate channel from summary)
-    const { syncStatus, sendUpdate } = useDocumentSync({
+    const { syncStatus, sendUpdate, conflict, resolveConflict } = useDocumentSync({
         documentId: documentId || '',
         channel: 'content', // Use 'content' channel
+        collaborative: !!collaboration,
         onUpdate: (content) => {
             // Received update from another client
             // Only update if content is different to prevent re-render loops
             if (content !== documentContentRef.current) {
                 setDocumentContent(content);
                 latestContentRef.current = content;
+                // The update carries the whole document, so no sections are left to load
+                setChunkOutlineState(null, 0);
 
                 // Update editor content if editor is available
                 if (currentEditor && !currentEditor.isDestroyed) {
@@ -164,6 +197,8 @@ export default function DocumentEditor() {
             setDocumentTitle("Loading...");
             latestContentRef.current = "";
             documentContentRef.current = "";
+            setChunkOutlineState(null, 0);
+            setIsChunkedStorage(null);
 
             // Check if we have document data passed through navigation state (from document creation or version restore)
             const navigationState = location.state as { documentData?: any, skipFetch?: boolean } | null;
@@ -171,6 +206,7 @@ export default function DocumentEditor() {
             // If skipFetch flag is set, use existing content from context (e.g., from version restore)
             if (navigationState?.skipFetch) {
                 setDocumentId(documentId);
+                setIsChunkedStorage(false);
 
                 // Clear any pending autosave and sync the ref with context content
                 if (autoSaveTimeoutRef.current) {
@@ -189,6 +225,8 @@ export default function DocumentEditor() {
                 setDocumentTitle(documentData.Title || documentData.DocumentName || "Untitled Document");
                 const content = documentData.Content || "";
                 setDocumentContent(content);
+                // Navigation state always carries the whole content
+                setIsChunkedStorage(isChunkedDocument(documentData));
 
                 // Clear any pending autosave and sync the ref with loaded content
                 if (autoSaveTimeoutRef.current) {
@@ -240,12 +278,21 @@ export default function DocumentEditor() {
             setIsLoadingDocument(true);
             try {
                 // Use the improved fetchDocument function with fallback logic
-                const documentData = await fetchDocument(documentId);
+                const documentData = await fetchDocument(documentId, { lazyChunks: true });
 
                 if (documentData && documentData.id) {
                     setDocumentId(documentId);
                     setDocumentTitle(documentData.Title || documentData.DocumentName || "Untitled Document");
-                    const content = documentData.Content || "";
+                    let content = documentData.Content || "";
+
+                    // Large documents open with their first section; the rest loads on demand
+                    const chunked = isChunkedDocument(documentData) && (documentData.Chunks?.length || 0) > 0;
+                    if (chunked) {
+                        const outline = documentData.Chunks!;
+                        [content] = await loadChunks(documentId, [outline[0].id]);
+                        setChunkOutlineState(outline.length > 1 ? outline : null, 1);
+                    }
+                    setIsChunkedStorage(chunked);
 
                     // Clear any pending autosave and sync the ref with loaded content
                     if (autoSaveTimeoutRef.current) {
@@ -318,7 +365,7 @@ export default function DocumentEditor() {
     const isInitialLoadingRef = useRef(true);
 
     // Optimized onUpdate: avoid re-rendering via context on each keystroke
-    const handleDocumentUpdateOptimized = useCallback((content: string) => {
+    const handleDocumentUpdateOptimized = useCallback((content: string, meta?: TiptapUpdateMeta) => {
         latestContentRef.current = content;
         documentContentRef.current = content;
 
@@ -327,15 +374,85 @@ export default function DocumentEditor() {
             return;
         }
 
+        // Collaborators' edits are saved by their own editors
+        if (meta?.remote) {
+            return;
+        }
+
         // Use useDocumentSync hook to save with Firestore real-time sync
         if (documentId) {
-            sendUpdate(content);
+            const outline = chunkOutlineRef.current;
+            if (outline && loadedChunkCountRef.current < outline.length) {
+                // Sections not loaded into the editor yet are saved unchanged after the loaded ones
+                const pendingIds = outline.slice(loadedChunkCountRef.current).map((chunk) => chunk.id);
+                loadChunks(documentId, pendingIds)
+                    .then((pending) => sendUpdate(content + pending.join("")))
+                    .catch((error) => console.error('❌ Failed to load remaining sections for save:', error));
+            } else {
+                sendUpdate(content);
+            }
             setIsSaving(true);
             setTimeout(() => setIsSaving(false), 1000);
         } else {
         }
     }, [documentId, sendUpdate, syncStatus]);
 
+    // Append stored sections up to chunkIndex to the editor. Loads run one at a
+    // time so sections are never appended twice or out of order.
+    const loadSectionsThrough = useCallback((chunkIndex: number) => {
+        const run = async () => {
+            const outline = chunkOutlineRef.current;
+            const editor = editorRef.current;
+            if (!documentId || !outline || !editor || editor.isDestroyed || chunkIndex < loadedChunkCountRef.current) return;
+
+            const targetCount = Math.min(chunkIndex + 1, outline.length);
+            const pending = outline.slice(loadedChunkCountRef.current, targetCount);
+            const html = (await loadChunks(documentId, pending.map((chunk) => chunk.id))).join("");
+            // The document may have been replaced or switched while loading
+            if (chunkOutlineRef.current !== outline || editor.isDestroyed) return;
+
+            // Stored content isn't an edit: no save and no undo step
+            editor.chain()
+                .command(({ tr }) => {
+                    tr.setMeta('preventUpdate', true);
+                    tr.setMeta('addToHistory', false);
+                    return true;
+                })
+                .insertContentAt(editor.state.doc.content.size, html)
+                .run();
+            setChunkOutlineState(targetCount < outline.length ? outline : null, targetCount);
+        };
+
+        const next = chunkLoadQueueRef.current.then(run).catch((error) => {
+            console.error('❌ Failed to load document sections:', error);
+        });
+        chunkLoadQueueRef.current = next;
+        return next;
+    }, [documentId, setChunkOutlineState]);
+
+    // Load the next section when the reader scrolls to the end of what's loaded
+    useEffect(() => {
+        const sentinel = currentEditorLocal?.isDestroyed ? null : currentEditorLocal?.view?.dom?.lastElementChild;
+        if (!chunkOutline || !sentinel) return;
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                loadSectionsThrough(loadedChunkCountRef.current);
+            }
+        }, { rootMargin: '800px 0px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [chunkOutline, loadedChunkCount, currentEditorLocal, loadSectionsThrough]);
+
+    // Share the section outline with the NavigationPane
+    useEffect(() => {
+        setLazySections(chunkOutline ? { outline: chunkOutline, loadedCount: loadedChunkCount, loadThrough: loadSectionsThrough } : null);
+    }, [chunkOutline, loadedChunkCount, loadSectionsThrough, setLazySections]);
+
+    useEffect(() => {
+        return () => setLazySections(null);
+    }, [setLazySections]);
+
     // Cleanup pending autosave on unmount
     useEffect(() => {
         return () => {
@@ -395,6 +512,7 @@ export default function DocumentEditor() {
     }, [setDocumentContent, documentId]);
 
     const handleEditorReady = useCallback((editor: any) => {
+        editorRef.current = editor;
         setCurrentEditor(editor);
         setCurrentEditorLocal(editor);
 
@@ -659,14 +777,33 @@ export default function DocumentEditor() {
             {/* Main Editor Area - Full Width */}
             <div ref={documentContainerRef} className="w-full h-full relative">
                 <TipTap
-                    key={documentId || 'no-doc'} // Force re-mount when document changes
+                    key={`${documentId || 'no-doc'}${collaboration ? ':collab' : ''}`} // Force re-mount when document or collaboration changes
                     initialContent={effectiveContent}
                     onUpdate={handleDocumentUpdateOptimized}
                     onEditorReady={handleEditorReady}
                     showToolbar={showToolbar}
                     className=""
+                    collaboration={collaboration}
                 />
 
+                {/* Sections of a large document that aren't loaded yet */}
+                {chunkOutline && (
+                    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 bg-white border border-gray-200 shadow-sm rounded-full px-3 py-1.5 text-xs text-gray-500">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400"></div>
+                        <span>Loading more sections ({loadedChunkCount} of {chunkOutline.length})...</span>
+                    </div>
+                )}
+
+                {/* Three-way merge when a save was rejected as stale */}
+                <MergeConflictDialog conflict={conflict} onResolve={resolveConflict} />
+
+                {/* Collaborators currently in this document */}
+                {collaboration && (
+                    <div className="fixed bottom-20 right-6 z-40">
+                        <CollaboratorPresence session={collaboration} />
+                    </div>
+                )}
+
                 {/* Save Status Indicator */}
                 {isSaving && (
                     <div className="fixed top-20 right-6 bg-blue-100 text-blue-800 px-3 py-2 rounded-lg shadow-lg z-50 flex items-center space-x-2">
@@ -675,6 +812,16 @@ export default function DocumentEditor() {
                     </div>
                 )}
 
+                {/* Sections that newer commits in the linked repository may have made stale */}
+                {documentId && repositoryInfo && (
+                    <DocsDriftPanel documentId={documentId} editor={currentEditor} contentComplete={!chunkOutline} />
+                )}
+
+                {/* Edits made to the document's Markdown file on GitHub */}
+                {documentId && repositoryInfo && (
+                    <GitHubSyncPanel documentId={documentId} editor={currentEditor} contentComplete={!chunkOutline} />
+                )}
+
                 {/* Document Size Indicator */}
                 <div className="fixed bottom-6 right-6 z-40">
                     <DocumentSizeIndicator content={effectiveContent} />
@@ -2,7 +2,7 @@ import DocumentLayout from "./DocumentLayout";
 import VersionHistory from "@/components/Document/VersionHistory";
 import { useParams } from "react-router-dom";
 import { useDocument } from "@/context/DocumentContext";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { API_ENDPOINTS } from "@/lib/apiConfig";
 import { useAuth } from "@/context/AuthContext";
 
@@ -21,10 +21,31 @@ export default function DocumentHistory() {
     const { documentContent, documentId: contextDocId } = useDocument();
     const { user } = useAuth();
     const [isRestoring, setIsRestoring] = useState(false);
+    const [savedContent, setSavedContent] = useState<string | null>(null);
 
     // Use URL documentId first, fallback to context
     const documentId = urlDocId || contextDocId;
 
+    // Diffs and partial restores are based on the saved document, not on a possibly stale editor state
+    useEffect(() => {
+        if (!documentId) return;
+
+        const fetchSavedContent = async () => {
+            try {
+                const response = await fetch(API_ENDPOINTS.document(documentId));
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch document: ${response.status}`);
+                }
+                const data = await response.json();
+                setSavedContent(data.Content ?? '');
+            } catch (error) {
+                console.error('❌ Error fetching current document content:', error);
+            }
+        };
+
+        fetchSavedContent();
+    }, [documentId]);
+
     const handleRestoreVersion = async (content: string) => {
         if (!documentId) {
             console.error('No document ID available for restore');
@@ -59,6 +80,9 @@ export default function DocumentHistory() {
         }
     };
 
+    // Selected hunks are already merged into the current content by the diff view
+    const handleRestoreHunks = (content: string) => handleRestoreVersion(content);
+
     const handlePreviewVersion = (_content: string) => {
         // Could implement preview functionality
     };
@@ -78,8 +102,9 @@ export default function DocumentHistory() {
                 )}
                 <VersionHistory
                     documentId={documentId}
-                    currentContent={documentContent || ""}
+                    currentContent={savedContent ?? documentContent ?? ""}
                     onRestoreVersion={handleRestoreVersion}
+                    onRestoreHunks={handleRestoreHunks}
                     onPreviewVersion={handlePreviewVersion}
                 />
             </div>
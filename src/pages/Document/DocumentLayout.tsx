@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
     History,
+    ShieldCheck,
     Cloud,
     CloudUpload,
     CloudOff,
+    GitMerge,
     FileText,
     Sparkles,
     AlignJustify
@@ -22,7 +24,7 @@ import { FirestoreService } from "../../../firestoreService";
 interface DocumentLayoutProps {
     children: ReactNode;
     showDocumentMenu?: boolean;
-    syncStatus?: 'synced' | 'syncing' | 'pending' | 'error';
+    syncStatus?: 'synced' | 'syncing' | 'pending' | 'error' | 'conflict';
     versionCount?: number; // Number of versions in history
 }
 
@@ -62,7 +64,8 @@ export default function DocumentLayout({
         return path.includes('/document/editor') ||
             (path.includes('/document/') &&
                 !path.includes('/project') &&
-                !path.includes('/history'));
+                !path.includes('/history') &&
+                !path.includes('/audit'));
     };
 
     // Helper function to check if we should show sync status
@@ -71,7 +74,8 @@ export default function DocumentLayout({
         return path.includes('/document/editor') ||
             (path.includes('/document/') &&
                 !path.includes('/project') &&
-                !path.includes('/history'));
+                !path.includes('/history') &&
+                !path.includes('/audit'));
     };
 
     // Helper function to check if title editing is allowed (only on editor tab)
@@ -80,13 +84,14 @@ export default function DocumentLayout({
         // Allow title editing on:
         // 1. /document/editor
         // 2. /document/:documentId (main document editor route)
-        // Exclude history and project pages
+        // Exclude history, audit and project pages
         const isEditor = path === '/document/editor' || path.endsWith('/document/editor');
         const isDocumentWithId = /\/document\/[a-zA-Z0-9\-_]+$/.test(path);
         const isHistory = path.includes('/history');
+        const isAudit = path.includes('/audit');
         const isProject = path.includes('/project');
 
-        const allowed = isEditor || (isDocumentWithId && !isHistory && !isProject);
+        const allowed = isEditor || (isDocumentWithId && !isHistory && !isAudit && !isProject);
         return allowed;
     };
 
@@ -99,9 +104,11 @@ export default function DocumentLayout({
         const path = location.pathname;
         switch (tabName) {
             case 'editor':
-                return path.includes('/document/editor') || (path.includes('/document/') && !path.includes('/history'));
+                return path.includes('/document/editor') || (path.includes('/document/') && !path.includes('/history') && !path.includes('/audit'));
             case 'history':
                 return path.includes('/history');
+            case 'audit':
+                return path.includes('/audit');
             default:
                 return false;
         }
@@ -163,6 +170,11 @@ export default function DocumentLayout({
                     navigate(`${basePath}/history`);
                 }
                 break;
+            case 'audit':
+                if (documentId) {
+                    navigate(`${basePath}/audit/${documentId}`);
+                }
+                break;
             default:
                 if (documentId) {
                     navigate(`${basePath}/${documentId}`);
@@ -256,6 +268,12 @@ export default function DocumentLayout({
                                             <span>Error</span>
                                         </>
                                     )}
+                                    {syncStatus === 'conflict' && (
+                                        <>
+                                            <GitMerge className="w-4 h-4 text-orange-600" />
+                                            <span className="text-orange-600">Conflict</span>
+                                        </>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -287,6 +305,17 @@ export default function DocumentLayout({
                             <History className="w-4 h-4 mr-2" />
                             History
                         </Button>
+
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className={getTabButtonClasses("audit")}
+                            onClick={() => handleTabChange("audit")}
+                            disabled={!documentId}
+                        >
+                            <ShieldCheck className="w-4 h-4 mr-2" />
+                            Audit
+                        </Button>
                     </div>
                 </div>
             </div>
@@ -321,8 +350,8 @@ export default function DocumentLayout({
                     }
                 >
                     {/* Navigation Pane Column - 15% width - Conditionally Rendered */}
-                    {/* Only show NavigationPane on editor pages, not on history tab */}
-                    {showNavigationPane && !isTabActive('history') && (
+                    {/* Only show NavigationPane on editor pages, not on history or audit tabs */}
+                    {showNavigationPane && !isTabActive('history') && !isTabActive('audit') && (
                         <div className="w-[15%] min-w-[200px] border-r border-gray-200 bg-gray-50/50 relative">
                             <NavigationPane
                                 editor={currentEditor}
@@ -350,8 +379,8 @@ export default function DocumentLayout({
                     )}
 
                     {/* Expand button - Top left when collapsed (chatbar style) */}
-                    {/* Only show expand button on editor pages, not on history tab */}
-                    {!showNavigationPane && !isTabActive('history') && (
+                    {/* Only show expand button on editor pages, not on history or audit tabs */}
+                    {!showNavigationPane && !isTabActive('history') && !isTabActive('audit') && (
                         <button
                             onClick={() => {
                                 const newValue = !showNavigationPane;
@@ -1,7 +1,7 @@
 // src/pages/Profile.tsx - Main profile page with real user data
 import React, { useState } from 'react';
 import Header from '../components/header/Header';
-import { ProfileInfoCard, DangerZoneCard } from '../components/profile';
+import { ProfileInfoCard, DangerZoneCard, UsageCard, McpAccessCard } from '../components/profile';
 import GitHubConnectionCard from '../components/profile/GitHubConnectionCard';
 import { useAuth } from '../context/AuthContext';
 import { getUserDisplayInfo } from '../utils/user';
@@ -187,6 +187,12 @@ const Profile: React.FC = () => {
           setGithubConnected(connected);
         }} />
 
+        {/* MCP Access */}
+        <McpAccessCard />
+
+        {/* AI Usage */}
+        <UsageCard />
+
         {/* Danger Zone */}
         <DangerZoneCard onDeleteAccount={handleDeleteAccount} />
       </div>
@@ -1,15 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import Header from '../components/header/Header';
 import ProjectHeader from '../components/project/ProjectHeader';
 import DocumentSection from '../components/project/DocumentSection';
+import GenerationJobsPanel from '../components/project/GenerationJobsPanel';
+import GitHubSyncModal from '../components/project/GitHubSyncModal';
 import AddDocumentModal from '../components/project/AddDocumentModal';
 import EditProjectModal from '@/components/modal/EditProject';
 import AIGenerationProgressModal from '@/components/modal/AIGenerationProgressModal';
 import ConfirmDeleteDialog from '@/components/modal/ConfirmDeleteDialog';
 import { API_ENDPOINTS } from '../lib/apiConfig';
-import { aiService } from '../services/aiService';
+import { aiService, type DriftReport, type GenerationJob } from '../services/aiService';
 import { showSuccess, showError } from '@/utils/sweetAlert';
 import type { Document, Template, Project } from '../types';
 
@@ -28,6 +30,16 @@ type CreateDocumentPayload = {
   githubRepo?: string;
 };
 
+// Imported pages follow their parent page, in their original order
+const orderByHierarchy = (docs: Document[]): Document[] => {
+  const ids = new Set(docs.map(doc => doc.id));
+  const childrenOf = (parentId: string | null) => docs
+    .filter(doc => (doc.Parent_Id && ids.has(doc.Parent_Id) ? doc.Parent_Id : null) === parentId)
+    .sort((a, b) => (parentId ? (a.Sort_Order ?? 0) - (b.Sort_Order ?? 0) : 0));
+  const visit = (doc: Document): Document[] => [doc, ...childrenOf(doc.id!).flatMap(visit)];
+  return childrenOf(null).flatMap(visit);
+};
+
 const ProjectOverview: React.FC = () => {
   const navigate = useNavigate();
   const { projectId } = useParams<{ projectId: string }>();
@@ -49,17 +61,31 @@ const ProjectOverview: React.FC = () => {
   const [deleteProjectDialogOpen, setDeleteProjectDialogOpen] = useState(false);
   const [isDeletingProject, setIsDeletingProject] = useState(false);
 
+  // Docs site export state
+  const [isExportingSite, setIsExportingSite] = useState(false);
+
+  const [isGitHubSyncOpen, setIsGitHubSyncOpen] = useState(false);
+
   // AI Generation Progress Modal State
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationRepository, setGenerationRepository] = useState('');
   const [generationSteps, setGenerationSteps] = useState<GenerationStep[]>([]);
   const [currentGenerationStep, setCurrentGenerationStep] = useState<string>('');
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
+
+  // Server-side generation jobs that are still running or can be resumed
+  const [pendingJobs, setPendingJobs] = useState<GenerationJob[]>([]);
+  const [resumingJobId, setResumingJobId] = useState<string | null>(null);
+  const activeJobIds = useRef<Set<string>>(new Set());
+
+  // Drift reports by document ID, for documents the repository's newer commits may have made stale
+  const [driftReports, setDriftReports] = useState<Record<string, DriftReport>>({});
 
   // Get project data from URL parameter
   const currentProjectId = projectId; // Keep as string, don't parse as integer
 
   // Load project data and documents from API - extracted as separate function for reusability
-  const loadProjectAndDocuments = async () => {
+  const loadProjectAndDocuments = useCallback(async () => {
     if (!currentProjectId) {
       setError('No project ID provided');
       setLoading(false);
@@ -119,11 +145,13 @@ const ProjectOverview: React.FC = () => {
             Created_Time: doc.CreatedAt || doc.Created_Time,
             Updated_Time: doc.UpdatedAt || doc.Updated_Time,
             IsDraft: doc.IsDraft !== undefined ? doc.IsDraft : true,
-            EditedBy: doc.EditedBy || doc.UserId || doc.User_Id
+            EditedBy: doc.EditedBy || doc.UserId || doc.User_Id,
+            Parent_Id: doc.Parent_Id || null,
+            Sort_Order: doc.Sort_Order
           };
         });
 
-        setDocuments(transformedDocuments);
+        setDocuments(orderByHierarchy(transformedDocuments));
       } else {
         const errorText = await documentsResponse.text();
         console.error('❌ Failed to load documents:', documentsResponse.status, errorText);
@@ -136,11 +164,72 @@ const ProjectOverview: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentProjectId]);
 
   useEffect(() => {
     loadProjectAndDocuments();
-  }, [currentProjectId]);
+  }, [loadProjectAndDocuments]);
+
+  const hasActiveJobs = pendingJobs.some(job => job.status === 'queued' || job.status === 'running');
+
+  // Jobs keep running when the tab closes, so pick them up again here and
+  // reload the documents once one of them finishes
+  useEffect(() => {
+    if (!user || !currentProjectId) return;
+    let cancelled = false;
+
+    const loadJobs = async () => {
+      try {
+        const jobs = await aiService.listGenerationJobs(user, currentProjectId);
+        if (cancelled) return;
+        const finished = jobs.some(job => job.status === 'completed' && activeJobIds.current.has(job.id));
+        activeJobIds.current = new Set(jobs.filter(job => job.status === 'queued' || job.status === 'running').map(job => job.id));
+        setPendingJobs(jobs.filter(job => job.status !== 'completed'));
+        if (finished) {
+          loadProjectAndDocuments();
+        }
+      } catch (err) {
+        console.error('Error loading generation jobs:', err);
+      }
+    };
+
+    loadJobs();
+    const interval = hasActiveJobs ? setInterval(loadJobs, 5000) : undefined;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [user, currentProjectId, hasActiveJobs, isGenerating, loadProjectAndDocuments]);
+
+  // Compare the documents with the repository's latest commit whenever they are (re)loaded
+  useEffect(() => {
+    if (!user || !currentProjectId || !project?.GitHubRepo) return;
+    let cancelled = false;
+
+    aiService.checkProjectDrift(user, currentProjectId)
+      .then((reports) => {
+        if (cancelled) return;
+        setDriftReports(Object.fromEntries(reports.map((report) => [report.documentId, report])));
+      })
+      .catch((err) => console.error('Error checking documents for drift:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, currentProjectId, project?.GitHubRepo, documents]);
+
+  const handleResumeJob = async (job: GenerationJob) => {
+    if (!user) return;
+    setResumingJobId(job.id);
+    try {
+      const resumed = await aiService.resumeGenerationJob(user, job.id);
+      setPendingJobs(prev => prev.map(item => item.id === resumed.id ? resumed : item));
+    } catch (err) {
+      showError('Failed to Resume Generation', err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setResumingJobId(null);
+    }
+  };
 
   // Filter documents by category
   const userDocs: Document[] = documents.filter(doc => doc.DocumentCategory === 'User');
@@ -244,6 +333,43 @@ const ProjectOverview: React.FC = () => {
     }
   };
 
+  const handleExportSite = async () => {
+    if (!project || !user) return;
+
+    setIsExportingSite(true);
+
+    try {
+      const projectId = (project.id || project.Project_Id) as string;
+      const idToken = await user.getIdToken();
+      const response = await fetch(API_ENDPOINTS.projectSiteExport(projectId), {
+        headers: { Authorization: `Bearer ${idToken}` },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to export documentation site');
+      }
+
+      const fileName = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || 'docs-site.zip';
+      const url = URL.createObjectURL(await response.blob());
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('❌ Error exporting docs site:', error);
+      showError(
+        'Export Failed',
+        `Failed to export documentation site: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      setIsExportingSite(false);
+    }
+  };
+
   const handleEditDocument = (document: Document) => {
     navigate(`/document/${document.id}`);
   };
@@ -325,7 +451,7 @@ const ProjectOverview: React.FC = () => {
       const documentCategory = category === 'user' ? 'User' : category === 'developer' ? 'Developer' : 'General';
 
       // Initialize content with template
-      let documentContent = template.TemplatePrompt || '';
+      const documentContent = template.TemplatePrompt || '';
 
       // Get repository URL from project or use provided githubRepo
       let repositoryUrl = githubRepo || project.GitHubRepo || null;
@@ -343,87 +469,57 @@ const ProjectOverview: React.FC = () => {
             setGenerationRepository(repoFullName);
             setIsGenerating(true);
 
-            // Initialize generation steps
-            const steps: GenerationStep[] = [
+            // Initialize generation steps; the job's own progress replaces them once it starts
+            setGenerationJob(null);
+            setGenerationSteps([
               { id: 'parse', label: 'Parsing repository information', status: 'completed', details: `Repository: ${repoFullName}` },
-              { id: 'structure', label: 'Fetching repository structure', status: 'in-progress', details: 'Analyzing files and directories...' },
-              { id: 'analysis', label: 'AI analyzing codebase', status: 'pending', details: 'Understanding project structure...' },
-              { id: 'iteration', label: 'AI examining code files', status: 'pending', details: 'Reading relevant files...' },
-              { id: 'files', label: 'Processing repository files', status: 'pending', details: 'Gathering context...' },
-              { id: 'generate', label: 'Writing documentation', status: 'pending', details: 'AI creating content...' },
-              { id: 'done', label: 'Finalizing document', status: 'pending' }
-            ];
-            setGenerationSteps(steps);
-            setCurrentGenerationStep('structure');
-
-            // Progress callback for iterative AI
-            const handleProgress = (step: string, detail?: string) => {
-              setGenerationSteps(prev => prev.map(s => {
-                // Mark completed steps based on workflow
-                const completedSteps = ['parse'];
-
-                if (step === 'analysis' || step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('structure');
-                }
-                if (step === 'iteration' || step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('analysis');
-                }
-                if (step === 'files' || step === 'generate' || step === 'done') {
-                  completedSteps.push('iteration');
-                }
-                if (step === 'generate' || step === 'done') {
-                  completedSteps.push('files');
-                }
-                if (step === 'done') {
-                  completedSteps.push('generate');
-                }
-
-                // Mark completed
-                if (completedSteps.includes(s.id) && s.id !== step) {
-                  return { ...s, status: 'completed' as const };
-                }
-
-                // Update current step
-                if (s.id === step) {
-                  return {
-                    ...s,
-                    status: step === 'done' ? 'completed' as const : 'in-progress' as const,
-                    details: detail || s.details
-                  };
-                }
-
-                return s;
-              }));
-              setCurrentGenerationStep(step);
-            };
+              { id: 'queue', label: 'Starting generation on the server', status: 'in-progress', details: 'Queuing job...' }
+            ]);
+            setCurrentGenerationStep('queue');
 
+            let startedJobId: string | null = null;
             try {
-              // Call iterative AI generation
-              documentContent = await aiService.generateDocumentFromTemplateAndRepoIterative(
+              // The server generates the document and creates it, even if this tab closes
+              const job = await aiService.generateDocumentFromTemplateAndRepoIterative(
                 user,
-                template.TemplatePrompt || '',
-                { owner, repo, fullName: repoFullName },
-                role,
-                name,
-                handleProgress
+                {
+                  projectId: String(projectId),
+                  templateId: template.id || template.Template_Id || null,
+                  templatePrompt: template.TemplatePrompt || '',
+                  repository: { owner, repo },
+                  documentName: name,
+                  documentRole: role,
+                  documentType: 'user-manual',
+                  documentCategory,
+                },
+                (update) => {
+                  startedJobId = update.id;
+                  setGenerationJob(update);
+                }
               );
 
-              setGenerationSteps(prev => prev.map(s =>
-                s.id === 'generate'
-                  ? { ...s, status: 'completed' as const, details: 'AI content ready' }
-                  : s
-              ));
-              setGenerationSteps(prev => prev.map(s =>
-                s.id === 'done'
-                  ? { ...s, status: 'completed' as const, details: 'Document ready!' }
-                  : s
-              ));
-
               // Wait a bit to show completion
               await new Promise(resolve => setTimeout(resolve, 800));
+
+              setShowAddModal(false);
+              setIsGenerating(false);
+              navigate(`/document/${job.documentId}`);
+              return;
             } catch (aiError) {
               console.error('❌ AI generation failed:', aiError);
 
+              // A job that started keeps its finished sections and is resumed from the job list
+              if (startedJobId) {
+                await new Promise(resolve => setTimeout(resolve, 1500));
+                setShowAddModal(false);
+                setIsGenerating(false);
+                showError(
+                  'Document Generation Failed',
+                  `${aiError instanceof Error ? aiError.message : 'Unknown error'}. You can resume it from this page.`
+                );
+                return;
+              }
+
               // Update steps to show error
               setGenerationSteps(prev => prev.map(step =>
                 step.status === 'in-progress'
@@ -505,13 +601,23 @@ const ProjectOverview: React.FC = () => {
         onAddDocument={handleAddDocumentClick}
         onEditProject={handleEditProject}
         onDeleteProject={handleDeleteProject}
+        onExportSite={handleExportSite}
+        isExportingSite={isExportingSite}
+        onSyncGitHub={() => setIsGitHubSyncOpen(true)}
       />
 
       <div className="max-w-7xl mx-auto px-6 py-10">
+        <GenerationJobsPanel
+          jobs={pendingJobs}
+          resumingJobId={resumingJobId}
+          onResume={handleResumeJob}
+        />
+
         <DocumentSection
           title="Users"
           category="user"
           documents={userDocs}
+          driftReports={driftReports}
           onEditDocument={handleEditDocument}
           onDeleteDocument={handleDeleteDocument}
         />
@@ -520,6 +626,7 @@ const ProjectOverview: React.FC = () => {
           title="Developers"
           category="developer"
           documents={devDocs}
+          driftReports={driftReports}
           onEditDocument={handleEditDocument}
           onDeleteDocument={handleDeleteDocument}
         />
@@ -528,6 +635,7 @@ const ProjectOverview: React.FC = () => {
           title="General"
           category="general"
           documents={generalDocs}
+          driftReports={driftReports}
           onEditDocument={handleEditDocument}
           onDeleteDocument={handleDeleteDocument}
         />
@@ -540,11 +648,22 @@ const ProjectOverview: React.FC = () => {
         projectGithubRepo={project?.GitHubRepo || undefined}
       />
 
+      {currentProjectId && (
+        <GitHubSyncModal
+          isOpen={isGitHubSyncOpen}
+          projectId={currentProjectId}
+          documents={documents}
+          onClose={() => setIsGitHubSyncOpen(false)}
+        />
+      )}
+
       <EditProjectModal
         isOpen={editedProjectModalOpen}
         initialData={project ? {
           name: project.ProjectName,
-          description: project.Description
+          description: project.Description,
+          llmProvider: project.LLM_Provider || '',
+          llmModel: project.LLM_Model || ''
         } : undefined}
         onClose={() => setEditedProjectModalOpen(false)}
         onSubmit={async (updatedProject) => {
@@ -559,6 +678,8 @@ const ProjectOverview: React.FC = () => {
               body: JSON.stringify({
                 ProjectName: updatedProject.name,
                 Description: updatedProject.description,
+                LLM_Provider: updatedProject.llmProvider || null,
+                LLM_Model: updatedProject.llmModel?.trim() || null,
               }),
             });
 
@@ -585,6 +706,7 @@ const ProjectOverview: React.FC = () => {
         repositoryName={generationRepository}
         steps={generationSteps}
         currentStep={currentGenerationStep}
+        job={generationJob}
       />
 
       <ConfirmDeleteDialog
@@ -5,13 +5,14 @@ import type { Project } from '../types';
 import AddProjectModal from '../components/modal/addProject';
 import EditProjectModal from '../components/modal/EditProject';
 import { API_ENDPOINTS } from '../lib/apiConfig';
-import { Plus, Search } from 'lucide-react';
+import { FolderInput, Plus, Search } from 'lucide-react';
 import Header from '../components/header/Header';
 import { useAuth } from '../context/AuthContext';
 import { getUserDisplayInfo } from '../utils/user';
 import { useFeedback } from '../components/AppLayout';
 import { showError, showSuccess } from '@/utils/sweetAlert';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import WorkspaceImportModal from '@/components/Document/WorkspaceImportModal';
 
 const Projects: React.FC = () => {
   const navigate = useNavigate();
@@ -115,7 +116,7 @@ const Projects: React.FC = () => {
     setIsEditModalOpen(true);
   };
 
-  const handleEditSubmit = async (data: { name: string; description: string }) => {
+  const handleEditSubmit = async (data: { name: string; description: string; llmProvider?: string; llmModel?: string }) => {
     if (!projectToEdit || !projectToEdit.id) return;
 
     try {
@@ -127,6 +128,8 @@ const Projects: React.FC = () => {
         body: JSON.stringify({
           ProjectName: data.name,
           Description: data.description,
+          LLM_Provider: data.llmProvider || null,
+          LLM_Model: data.llmModel?.trim() || null,
         }),
       });
 
@@ -199,7 +202,16 @@ const Projects: React.FC = () => {
                 className="w-full pl-11 pr-3 py-2 border border-gray-300 rounded-full text-sm focus:outline-none focus:border-blue-600 focus:ring-2 focus:ring-blue-100 bg-white shadow-sm"
               />
             </div>
-            <div className="flex justify-end">
+            <div className="flex justify-end gap-3">
+              <WorkspaceImportModal
+                onImported={(projectId) => navigate(`/project/${projectId}`)}
+                trigger={
+                  <button className="px-4 py-2 border border-gray-300 bg-white text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2">
+                    <FolderInput className="w-4 h-4" />
+                    <span>Import</span>
+                  </button>
+                }
+              />
               <button
                 onClick={handleNewProject}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
@@ -330,7 +342,9 @@ const Projects: React.FC = () => {
         isOpen={isEditModalOpen}
         initialData={projectToEdit ? {
           name: projectToEdit.ProjectName,
-          description: projectToEdit.Description
+          description: projectToEdit.Description,
+          llmProvider: projectToEdit.LLM_Provider || '',
+          llmModel: projectToEdit.LLM_Model || ''
         } : undefined}
         onClose={() => {
           setIsEditModalOpen(false);
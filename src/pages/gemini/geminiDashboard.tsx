@@ -104,6 +104,7 @@ export default function GeminiDashboard() {
     }
 
     const limits = data?.limits;
+    const modelLimits = Object.entries(data?.modelLimits || {});
     const keys = data?.keys || [];
 
     // Authentication UI
@@ -187,12 +188,29 @@ export default function GeminiDashboard() {
                 </div>
             </div>
 
+            {(data?.breaker || modelLimits.length > 0) && (
+                <div className="mb-6 text-sm text-gray-600 space-y-1">
+                    {data?.breaker && (
+                        <div>
+                            Circuit breaker opens after {data.breaker.failureThreshold} consecutive 429/5xx errors,
+                            cooling down from {msToTime(data.breaker.baseCooldownMs)} up to {msToTime(data.breaker.maxCooldownMs)}.
+                        </div>
+                    )}
+                    {modelLimits.map(([model, limit]) => (
+                        <div key={model}>
+                            <span className="font-mono">{model}</span>: {limit.RPM ?? '-'} req/min, {limit.TPM ?? '-'} tokens/min per key
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <div className="overflow-x-auto">
                 <table className="w-full text-left border-collapse">
                     <thead>
                         <tr className="bg-gray-100">
                             <th className="p-2 border">Key</th>
                             <th className="p-2 border">Status</th>
+                            <th className="p-2 border">Breaker</th>
                             <th className="p-2 border">RPM (used)</th>
                             <th className="p-2 border">RPD (used)</th>
                             <th className="p-2 border">TPM (used)</th>
@@ -203,7 +221,7 @@ export default function GeminiDashboard() {
                     <tbody>
                         {keys.length === 0 && (
                             <tr>
-                                <td colSpan={7} className="p-4 text-center text-gray-500">No keys configured</td>
+                                <td colSpan={8} className="p-4 text-center text-gray-500">No keys configured</td>
                             </tr>
                         )}
                         {keys.map((k) => {
@@ -222,18 +240,40 @@ export default function GeminiDashboard() {
                             if (status === 'available') {
                                 statusDisplay = 'Available';
                                 statusClass = 'text-green-600 font-medium';
-                            } else if (status.includes('limit')) {
+                            } else if (status.includes('limit') || status.includes('exhausted') || status === 'circuit-open' || status === 'cooldown') {
                                 statusDisplay = status.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
                                 statusClass = 'text-red-600 font-medium';
                             } else if (status === 'ok') {
                                 statusDisplay = 'Available';
                                 statusClass = 'text-green-600 font-medium';
+                            } else if (status === 'half-open' || status === 'probing') {
+                                statusDisplay = status === 'probing' ? 'Probing' : 'Half Open';
+                                statusClass = 'text-yellow-600 font-medium';
                             }
 
+                            const breaker = k.breaker;
+                            const breakerClass = breaker?.state === 'open'
+                                ? 'text-red-600'
+                                : breaker?.state === 'half-open' ? 'text-yellow-600' : 'text-gray-600';
+
                             return (
                                 <tr key={k.id}>
                                     <td className="p-2 border font-mono">{k.idShort}</td>
-                                    <td className={`p-2 border ${statusClass}`}>{statusDisplay}</td>
+                                    <td className="p-2 border">
+                                        <div className={statusClass}>{statusDisplay}</div>
+                                        {k.statusReason && <div className="text-xs text-gray-500 break-words">{k.statusReason}</div>}
+                                    </td>
+                                    <td className={`p-2 border ${breakerClass}`}>
+                                        {breaker ? (
+                                            <>
+                                                <div className="capitalize">{breaker.state}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {breaker.consecutiveFailures} failures
+                                                    {breaker.state === 'open' && ` · retry in ${msToTime(breaker.retryInMs)}`}
+                                                </div>
+                                            </>
+                                        ) : '-'}
+                                    </td>
                                     <td className="p-2 border">{rpmUsed} / {limits?.RPM ?? '-'}</td>
                                     <td className="p-2 border">{rpdUsed} / {limits?.RPD ?? '-'}</td>
                                     <td className="p-2 border">{tpmUsed} / {limits?.TPM ?? '-'}</td>
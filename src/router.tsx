@@ -10,6 +10,7 @@ import ProjectView from "./pages/ProjectOverview";
 import DocumentProject from "@/pages/Document/DocumentProject";
 import DocumentProjectList from "@/pages/Document/DocumentProjectList";
 import DocumentHistory from "@/pages/Document/DocumentHistory";
+import DocumentAudit from "@/pages/Document/DocumentAudit";
 import { DocumentProvider } from "./context/DocumentContext";
 import Profile from "./pages/Profile";
 import ProtectedRoute from "./components/ProtectedRoute";
@@ -110,6 +111,10 @@ const router = createBrowserRouter([
         path: "/document/history/:documentId",
         element: <ProtectedDocumentWrapper><DocumentHistory /></ProtectedDocumentWrapper>,
       },
+      {
+        path: "/document/audit/:documentId",
+        element: <ProtectedDocumentWrapper><DocumentAudit /></ProtectedDocumentWrapper>,
+      },
       // Redirect old /editor path to new document editor
       {
         path: "/editor",
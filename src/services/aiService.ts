@@ -1,13 +1,147 @@
 // src/services/aiService.ts
 import { repositoryContextService } from './repositoryContextService';
 import { FirestoreService } from '../../firestoreService';
+import { authService } from './authService';
 import type { User } from 'firebase/auth';
-import { buildApiUrl } from '@/lib/apiConfig';
+import { buildApiUrl, API_ENDPOINTS } from '@/lib/apiConfig';
 
 const GENERATE_API = buildApiUrl('api/gemini/generate');
 const TOOLS_EXECUTE_API = buildApiUrl('api/tools/execute');
+const TOOLS_BATCH_API = buildApiUrl('api/tools/batch');
+const AGENT_STREAM_API = buildApiUrl('api/ai-agent/stream');
 const FUNCTIONS_BASE = 'https://us-central1-dotivra.cloudfunctions.net';
 
+// Mirrors AgentStreamEvent in functions/src/gemini/agentStream.ts
+type AgentStreamEvent =
+    | { type: 'start'; transactionId: string | null; provider: string; model: string }
+    | { type: 'reasoning' | 'text'; text: string }
+    | { type: 'tool_call'; id: string; tool: string; args: Record<string, unknown> }
+    | { type: 'tool_result'; id: string; tool: string; success: boolean; result: unknown; error?: string }
+    | { type: 'answer'; text: string }
+    | { type: 'done'; toolsUsed: number; changed: boolean; version?: number }
+    | { type: 'stopped'; message: string }
+    | { type: 'error'; message: string; conflict?: boolean };
+
+// A stage of a streamed agent run, in the shape the chat sidebar renders
+type AgentToolExecution = { tool: string; args: unknown; result: unknown; success: boolean; timestamp: number };
+type AgentStreamStage = { stage: string; content: unknown; thought?: string; toolExecutions?: AgentToolExecution[]; streaming?: boolean };
+
+// The server verifies the ID token and attributes the call (audit log, usage) to its user
+const authJsonHeaders = async (): Promise<Record<string, string>> => {
+    const idToken = await authService.getCurrentUser()?.getIdToken();
+    return idToken
+        ? { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` }
+        : { 'Content-Type': 'application/json' };
+};
+
+// The server answers 429 with code QUOTA_EXCEEDED when a monthly usage quota is used up.
+// Its message is shown as-is, so callers must not swallow these errors into fallbacks.
+const QUOTA_ERROR_NAME = 'UsageQuotaError';
+
+const toResponseError = async (response: Response, fallback: string): Promise<Error> => {
+    const data = await response.json().catch(() => null);
+    const error = new Error(data?.error || `${fallback}: ${response.status}`);
+    if (response.status === 429 && data?.code === 'QUOTA_EXCEEDED') {
+        error.name = QUOTA_ERROR_NAME;
+    }
+    return error;
+};
+
+const isQuotaError = (error: unknown): boolean => error instanceof Error && error.name === QUOTA_ERROR_NAME;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const MAX_JOB_POLL_ERRORS = 5;
+
+export type GenerationJobMode = 'sections' | 'iterative';
+
+export interface GenerationJobRequest {
+    mode: GenerationJobMode;
+    projectId: string;
+    templateId: string | null;
+    templatePrompt: string;
+    repository: { owner: string; repo: string };
+    documentName: string;
+    documentRole: string;
+    documentType: string;
+    documentCategory: string;
+}
+
+// Mirrors GenerationJobView in functions/src/services/generationJobs.ts
+export interface GenerationJob {
+    id: string;
+    projectId: string;
+    mode: GenerationJobMode;
+    status: 'queued' | 'running' | 'completed' | 'failed';
+    stage: 'queued' | 'structure' | 'files' | 'planning' | 'generate' | 'finalize' | 'done' | 'error';
+    message: string;
+    repository: string;
+    documentName: string;
+    sections: Array<{ title: string; status: 'pending' | 'running' | 'completed' | 'failed'; error: string | null }>;
+    output: string;
+    error: string | null;
+    errorCode: string | null;
+    attempts: number;
+    documentId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Mirrors RepoModel in functions/src/analysis/types.ts
+export interface CodeAnalysis {
+    repository: string;
+    revision: string;
+    languages: string[];
+    fileCount: number;
+    functions: Array<{ name: string; signature: string; path: string; line: number }>;
+    classes: Array<{ name: string; extends: string | null; implements: string[]; methods: string[]; path: string; line: number }>;
+    routes: Array<{ method: string; route: string; handler: string | null; framework: string; path: string; line: number }>;
+    cliCommands: Array<{ name: string; description: string | null; options: string[]; source: string; path: string; line: number }>;
+    envVars: Array<{ name: string; defaultValue: string | null; locations: Array<{ path: string; line: number }> }>;
+    truncated: boolean;
+    analyzedAt: string;
+}
+
+// Mirrors the report types in functions/src/services/docsDrift.ts
+export interface DriftCodeChange {
+    kind: 'file' | 'function' | 'class' | 'route' | 'cli' | 'env';
+    change: 'added' | 'removed' | 'changed' | 'renamed';
+    name: string;
+    previousName: string | null;
+    path: string | null;
+    detail: string | null;
+}
+
+export interface DriftSection {
+    id: string | null;
+    title: string | null;
+    path: string;
+    level: number;
+    changes: DriftCodeChange[];
+}
+
+export interface DriftReport {
+    documentId: string;
+    repository: string | null;
+    status: 'current' | 'drifted' | 'unknown';
+    baseRevision: string | null;
+    headRevision: string | null;
+    baseEstimated: boolean;
+    changedFiles: number;
+    sections: DriftSection[];
+    error: string | null;
+    checkedAt: string;
+}
+
+export interface DriftSectionPatch {
+    sectionId: string | null;
+    path: string;
+    from: number;
+    to: number;
+    originalHtml: string;
+    proposedHtml: string;
+    changes: DriftCodeChange[];
+}
+
 class AIService {
     private defaultModel = 'gemini-2.5-pro';
 
@@ -50,6 +184,34 @@ class AIService {
                 return null;
             }
         };
+
+        // Edits run inside a server-side transaction so a failed or cancelled run
+        // never leaves the document half-edited
+        let transactionId: string | null = null;
+        let transactionCommitted = false;
+
+        const callToolBatch = async (body: Record<string, unknown>) => {
+            const response = await fetch(TOOLS_BATCH_API, {
+                method: 'POST',
+                headers: await authJsonHeaders(),
+                body: JSON.stringify(body)
+            });
+            const data = await response.json().catch(() => null);
+            return { ok: response.ok, status: response.status, data };
+        };
+
+        const rollbackTransaction = async () => {
+            if (!transactionId || transactionCommitted) {
+                return;
+            }
+            const id = transactionId;
+            transactionId = null;
+            try {
+                await callToolBatch({ action: 'rollback', transactionId: id });
+            } catch (err) {
+                console.error('Failed to roll back agent edits:', err);
+            }
+        };
         
         try {
             // Build system prompt with tool descriptions and stage format
@@ -141,6 +303,26 @@ You will be invoked multiple times. Progress strictly in this order without repe
 	- Purpose: Delete a character range and audit the removed snippet.
 	- Usage: \`{"tool":"remove_document_content","args":{"position":{"from":500,"to":620},"reason":"Removing redundant bullet list"},"description":"Clearing the redundant list..."}\`
 	- Signature: \`{position:{from,to}, reason}\` → \`{success, removed_length, html}\`
+- **get_document_outline**
+	- Purpose: List the document as heading sections and blocks, each with a stable \`id\` and heading \`path\`.
+	- Usage: \`{"tool":"get_document_outline","args":{"reason":"Mapping sections before editing"},"description":"Mapping out your document's sections..."}\`
+	- Signature: \`{reason}\` → \`{success, outline, blocks_count, sections_count}\`
+- **get_document_block**
+	- Purpose: Read one block, or a whole section when \`scope\` is \`"section"\`, by block ID or heading path.
+	- Usage: \`{"tool":"get_document_block","args":{"path":"Installation > paragraph 3","reason":"Reading the paragraph to revise"},"description":"Reading that paragraph..."}\`
+	- Signature: \`{blockId? | path?, scope?, reason}\` → \`{success, block, content}\`
+- **insert_document_block**
+	- Purpose: Insert content \`before\`/\`after\` a block, or at \`section_start\`/\`section_end\` of a heading's section.
+	- Usage: \`{"tool":"insert_document_block","args":{"path":"Installation","placement":"section_end","content":"<p>Run the migrations.</p>","reason":"Adding a final installation step"},"description":"Adding a step to the installation section..."}\`
+	- Signature: \`{blockId? | path?, placement, content, reason}\` → \`{success, block, inserted_length, html}\`
+- **replace_document_block**
+	- Purpose: Replace a whole block, or a heading plus its section when \`scope\` is \`"section"\`.
+	- Usage: \`{"tool":"replace_document_block","args":{"blockId":"blk_3f2a9c01de","content":"<p>Revised copy...</p>","reason":"Refreshing the introduction"},"description":"Rewriting the introduction..."}\`
+	- Signature: \`{blockId? | path?, scope?, content, reason}\` → \`{success, block, removed_length, inserted_length, html}\`
+- **remove_document_block**
+	- Purpose: Remove a whole block, or a heading plus its section when \`scope\` is \`"section"\`.
+	- Usage: \`{"tool":"remove_document_block","args":{"path":"Troubleshooting > list 2","reason":"Removing a duplicate list"},"description":"Removing the duplicate list..."}\`
+	- Signature: \`{blockId? | path?, scope?, reason}\` → \`{success, removed_length, html}\`
 - **append_document_summary**
 	- Purpose: Add text to the Firestore summary associated with the active document.
 	- Usage: \`{"tool":"append_document_summary","args":{"content":"Added deployment checklist.","reason":"Logging updates in the summary"},"description":"Updating the summary with your notes..."}\`
@@ -177,10 +359,18 @@ You will be invoked multiple times. Progress strictly in this order without repe
 	- Purpose: Inspect the repository tree to understand file layout before editing.
 	- Usage: \`{"tool":"get_repo_structure","args":{"repoLink":"{{REPOLINK}}","reason":"Understanding repository structure before editing"},"description":"Reviewing the repository structure..."}\`
 	- Signature: \`{repoLink, branch?, reason}\` → \`{success, tree, totalItems}\`
+- **analyze_repo_code**
+	- Purpose: Get the exported functions (with signatures), classes, HTTP routes, CLI commands and environment variables extracted from the code. Treat these lists as ground truth for API references, usage and configuration.
+	- Usage: \`{"tool":"analyze_repo_code","args":{"repoLink":"{{REPOLINK}}","include":["routes","envVars"],"reason":"Checking the documented API against the code"},"description":"Analyzing the repository code..."}\`
+	- Signature: \`{repoLink, branch?, include?, path?, reason}\` → \`{success, routes, cliCommands, envVars, functions, classes, counts, revision, truncated}\`
 - **get_repo_commits**
 	- Purpose: Review recent repository commits for additional context on ongoing work.
 	- Usage: \`{"tool":"get_repo_commits","args":{"repoLink":"{{REPOLINK}}","per_page":5,"reason":"Reviewing the latest work"},"description":"Checking recent repository updates..."}\`
 	- Signature: \`{repoLink, branch?, page?, per_page?, reason}\` → \`{success, commits, commitsCount}\`
+- **search_repo_code**
+	- Purpose: Find the code behind a topic (functions, classes, routes, exported types) when writing or checking a section about it.
+	- Usage: \`{"tool":"search_repo_code","args":{"repoLink":"{{REPOLINK}}","query":"how requests are authenticated","limit":5,"reason":"Finding the code this section describes"},"description":"Searching the repository code..."}\`
+	- Signature: \`{repoLink, query, limit?, path?, reason}\` → \`{success, results: [{path, symbol, kind, startLine, endLine, content, score}], revision}\`
 
 All tool names and argument keys are case-sensitive — do not invent new ones.
 
@@ -189,6 +379,7 @@ When \`{{REPOLINK}}\` is available and you plan to modify a document, first call
 1. \`get_repo_structure\` with reason “Understanding repository structure before editing”.
 2. \`get_repo_commits\` with reason “Reviewing the latest work”.
 Reference the returned structure/commits in later reasoning unless the repo link changes.
+- When writing or checking API references, routes, CLI usage or configuration, call \`analyze_repo_code\` and use its signatures, routes, commands and environment variables exactly; do not document ones it does not list.
 - If the document already contains a "Repository Structure Overview" section, refresh that existing section instead of creating a new heading when updating repository details.
 
 ## Freshness Validation
@@ -204,6 +395,12 @@ Reference the returned structure/commits in later reasoning unless the repo link
 ## Context Checks for Rewrites or Improvements
 Before improving or rewriting content, ensure you understand the surrounding context. Use scanning/search tools or summaries if needed. If context is missing, ask the user for clarification instead of guessing.
 
+## Block-Addressed Editing (Preferred)
+- Prefer \`get_document_outline\` plus the \`*_document_block\` tools over character offsets. They edit whole blocks and never split tags.
+- Address blocks by the \`id\` or \`path\` returned by the latest outline. Paths count blocks of one type within a section body, e.g. \`"Installation > paragraph 3"\`.
+- Every edit result returns the affected \`block\` with a fresh \`id\`. Call \`get_document_outline\` again after several edits instead of reusing stale IDs.
+- Fall back to the position-based tools only for edits smaller than a block, such as one word inside a paragraph.
+
 ## Section-Based Insertion Workflow
 1. \`search_document_content\` to locate the referenced heading.
 2. Find the section boundary (usually the next heading of equal or higher level).
@@ -476,6 +673,21 @@ For \`remove_document_content\` and \`replace_document_content\`:
             let stageHistory: string[] = []; // Track stages we've been through
             let lastToolResult: any = null; // Track last tool execution result
 
+            let runFailed = false;
+
+            if (documentId) {
+                try {
+                    const begun = await callToolBatch({ action: 'begin', documentId });
+                    if (begun.ok && begun.data?.success) {
+                        transactionId = begun.data.transactionId;
+                    } else {
+                        console.warn(`⚠️ Could not start edit transaction (${begun.status}), tools will save individually`);
+                    }
+                } catch (err) {
+                    console.warn('⚠️ Could not start edit transaction, tools will save individually:', err);
+                }
+            }
+
             // Don't yield the initial "Starting..." message - keep it
             // yield { stage: 'planning', content: 'Starting AI agent execution...' };
 
@@ -510,10 +722,11 @@ For \`remove_document_content\` and \`replace_document_content\`:
                 // Call Gemini API
                 const response = await fetch(GENERATE_API, {
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
+                    headers: await authJsonHeaders(),
                     body: JSON.stringify({
                         prompt: iterationPrompt,
                         model: 'gemini-2.5-pro',
+                        documentId, // lets the server use the project's LLM provider
                         generationConfig: {
                             temperature: 0.3,
                             maxOutputTokens: maxTokens
@@ -523,7 +736,7 @@ For \`remove_document_content\` and \`replace_document_content\`:
                 });
 
                 if (!response.ok) {
-                    throw new Error(`Gemini API failed: ${response.status}`);
+                    throw await toResponseError(response, 'Gemini API failed');
                 }
 
                 const data = await response.json();
@@ -614,6 +827,7 @@ For \`remove_document_content\` and \`replace_document_content\`:
                     console.error('Raw response:', aiResponse);
 
                     if (retryCount >= maxRetries) {
+                        runFailed = true;
                         yield { 
                             stage: 'error', 
                             content: 'Failed to get valid JSON response after 3 attempts. Please try again.' 
@@ -721,16 +935,26 @@ For \`remove_document_content\` and \`replace_document_content\`:
 
                         const sanitizedArgs = sanitizeArgs(toolData.args);
 
-                        let toolResponse = await fetch(TOOLS_EXECUTE_API, {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({
-                                tool: toolData.tool,
-                                args: sanitizedArgs,
-                                documentId: documentId
+                        let toolResponse = transactionId
+                            ? await fetch(TOOLS_BATCH_API, {
+                                method: 'POST',
+                                headers: await authJsonHeaders(),
+                                body: JSON.stringify({
+                                    action: 'apply',
+                                    transactionId,
+                                    operations: [{ tool: toolData.tool, args: sanitizedArgs }]
+                                })
                             })
-                        });
-                        if (toolResponse.status === 404) {
+                            : await fetch(TOOLS_EXECUTE_API, {
+                                method: 'POST',
+                                headers: await authJsonHeaders(),
+                                body: JSON.stringify({
+                                    tool: toolData.tool,
+                                    args: sanitizedArgs,
+                                    documentId: documentId
+                                })
+                            });
+                        if (toolResponse.status === 404 && !transactionId) {
                             const endpoint = 'api/tools/execute';
                             const fallbackUrl = `${FUNCTIONS_BASE}/${endpoint}`;
                             toolResponse = await fetch(fallbackUrl, {
@@ -754,7 +978,11 @@ For \`remove_document_content\` and \`replace_document_content\`:
                                 result: null
                             };
                         } else {
-                            const toolData_response = await toolResponse.json();
+                            const responseBody = await toolResponse.json();
+                            // Batch responses wrap each tool result; unwrap the single operation we sent
+                            const toolData_response = transactionId
+                                ? (responseBody?.results?.[0]?.result ?? responseBody)
+                                : responseBody;
                             toolResult = {
                                 success: true,
                                 tool: toolData.tool,
@@ -825,6 +1053,22 @@ For \`remove_document_content\` and \`replace_document_content\`:
                 };
             }
 
+            if (transactionId && runFailed) {
+                await rollbackTransaction();
+            } else if (transactionId) {
+                const committed = await callToolBatch({ action: 'commit', transactionId });
+                if (!committed.ok || !committed.data?.success) {
+                    yield {
+                        stage: 'error',
+                        content: committed.status === 409
+                            ? 'The document was changed while the assistant was editing it, so its changes were not saved. Please try again.'
+                            : 'Failed to save the document changes. Please try again.'
+                    };
+                    return;
+                }
+                transactionCommitted = true;
+            }
+
             yield { stage: 'done', content: null };
 
         } catch (error) {
@@ -842,6 +1086,152 @@ For \`remove_document_content\` and \`replace_document_content\`:
                 stage: 'error', 
                 content: error instanceof Error ? error.message : 'Unknown error'
             };
+        } finally {
+            // Covers errors, user cancellation and the caller abandoning the generator
+            await rollbackTransaction();
+        }
+    }
+
+    /**
+     * AI Agent over Server-Sent Events - the agent loop runs on the server and
+     * reasoning, tool calls, tool results and the answer arrive as they happen.
+     * Yields the same stages as executeAIAgent; reasoning stages marked `streaming`
+     * carry the text so far and replace the previous one.
+     * Aborting the signal closes the connection, which stops the server-side loop.
+     */
+    async *streamAIAgent(
+        prompt: string,
+        documentId?: string,
+        conversationHistory?: Array<{role: string; content: string}>,
+        selectedText?: string,
+        signal?: AbortSignal
+    ): AsyncGenerator<AgentStreamStage> {
+        const toolExecutions: AgentToolExecution[] = [];
+        const pendingArgs = new Map<string, unknown>();
+        let reasoningText = '';
+
+        try {
+            const response = await fetch(AGENT_STREAM_API, {
+                method: 'POST',
+                headers: { ...await authJsonHeaders(), Accept: 'text/event-stream' },
+                body: JSON.stringify({
+                    prompt,
+                    documentId,
+                    history: (conversationHistory || []).slice(-6),
+                    selectedText
+                }),
+                signal
+            });
+
+            // Servers without the streaming route still support the polling agent
+            if (response.status === 404) {
+                yield* this.executeAIAgent(prompt, documentId, conversationHistory, selectedText, signal);
+                return;
+            }
+
+            if (!response.ok || !response.body) {
+                throw await toResponseError(response, 'AI Agent stream failed');
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                // Events are separated by a blank line; keep any partial event for the next read
+                let boundary = buffer.indexOf('\n\n');
+                while (boundary !== -1) {
+                    const rawEvent = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary + 2);
+                    boundary = buffer.indexOf('\n\n');
+
+                    const data = rawEvent
+                        .split('\n')
+                        .filter(line => line.startsWith('data:'))
+                        .map(line => line.slice(5).trimStart())
+                        .join('\n');
+                    if (!data) continue; // keep-alive comment
+
+                    let event: AgentStreamEvent;
+                    try {
+                        event = JSON.parse(data);
+                    } catch {
+                        console.warn('⚠️ Ignoring malformed agent stream event:', data);
+                        continue;
+                    }
+
+                    switch (event.type) {
+                        case 'reasoning':
+                        case 'text':
+                            reasoningText += event.text || '';
+                            yield { stage: 'reasoning', content: reasoningText, streaming: true };
+                            break;
+                        case 'tool_call':
+                            reasoningText = '';
+                            pendingArgs.set(event.id, event.args);
+                            yield {
+                                stage: 'toolUsed',
+                                content: { tool: event.tool, args: event.args, description: `Running ${event.tool}...` }
+                            };
+                            break;
+                        case 'tool_result': {
+                            const toolResult = {
+                                success: !!event.success,
+                                tool: event.tool,
+                                result: event.result,
+                                error: event.error
+                            };
+                            toolExecutions.push({
+                                tool: event.tool,
+                                args: pendingArgs.get(event.id) ?? {},
+                                result: event.result,
+                                success: !!event.success,
+                                timestamp: Date.now()
+                            });
+                            pendingArgs.delete(event.id);
+                            yield { stage: 'toolResult', content: toolResult, toolExecutions: [...toolExecutions] };
+                            break;
+                        }
+                        case 'answer':
+                            yield {
+                                stage: 'summary',
+                                content: event.text || 'All done.',
+                                toolExecutions: [...toolExecutions]
+                            };
+                            break;
+                        case 'done':
+                            yield { stage: 'done', content: null, toolExecutions: [...toolExecutions] };
+                            return;
+                        case 'stopped':
+                            yield { stage: 'stopped', content: event.message };
+                            return;
+                        case 'error':
+                            yield { stage: 'error', content: event.message };
+                            return;
+                    }
+                }
+            }
+
+            // The connection ended without a terminal event
+            yield { stage: 'error', content: 'The connection to the assistant was lost. Please try again.' };
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                yield {
+                    stage: 'stopped',
+                    content: 'Generation stopped by user.'
+                };
+                return;
+            }
+
+            console.error('AI Agent stream error:', error);
+            yield {
+                stage: 'error',
+                content: error instanceof Error ? error.message : 'Unknown error'
+            };
         }
     }
 
@@ -850,7 +1240,7 @@ For \`remove_document_content\` and \`replace_document_content\`:
             const fullPrompt = context ? `Context: ${context}\n\nRequest: ${prompt}` : prompt;
             const resp = await fetch(GENERATE_API, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: await authJsonHeaders(),
                     body: JSON.stringify({
                         prompt: fullPrompt,
                         model: this.defaultModel,
@@ -1123,632 +1513,176 @@ Analyze the request, leverage the repository knowledge, and provide a comprehens
         }
     }
 
-    /**
-     * ITERATIVE AI GENERATION - AI requests files it needs
-     * Generate document from template and repository with iterative file requests
-     */
-    async generateDocumentFromTemplateAndRepoIterative(
-        user: User,
-        templatePrompt: string,
-        repositoryInfo: { owner: string; repo: string; fullName: string },
-        documentRole: string,
-        documentName: string,
-        onProgress?: (step: string, detail?: string) => void
-    ): Promise<string> {
-        try {
-            onProgress?.('init', 'Starting iterative AI generation...');
-            // Step 1: Get repository structure
-            onProgress?.('structure', 'Fetching repository structure...');
-            const repoContext = await repositoryContextService.getRepositoryContext(
-                user,
-                repositoryInfo.owner,
-                repositoryInfo.repo
-            );
-
-            if (!repoContext) {
-                throw new Error('Could not fetch repository context');
-            }
-
-            const directoryTree = this.buildDirectoryTree(repoContext.structure);
-            onProgress?.('structure', `Found ${repoContext.structure.length} items`);
-
-            // Step 2: Initial AI request
-            onProgress?.('analysis', 'AI analyzing repository...');
-            const initialPrompt = `${templatePrompt}
-
----
-
-**EDITOR FORMATTING GUIDELINES:**
-
-You are generating content for a TipTap rich text editor. Follow these HTML formatting rules:
-
-**Headings:** Use <h1> to <h5> (H6 not supported)
-- <h1>Main Title</h1> - Use ONLY for document title or project name (ONCE per document)
-- <h2>Section</h2> - Major sections (Overview, Installation, Usage, API Reference, etc.)
-- <h3>Subsection</h3> - Subsections within a section (Installation Steps, Configuration, Examples)
-- <h4>Detail</h4> - Detailed subsections (Step 1, Option A, Specific feature)
-- <h5>Minor Detail</h5> - Minor details or sub-items
-
-**Heading Hierarchy Rules:**
-1. Start with H1 for the main document title (e.g., "User Manual", "API Documentation", "Project Overview")
-2. Use H2 for major sections that divide the document (e.g., "Overview", "Getting Started", "Features")
-3. Use H3 for subsections under H2 (e.g., under "Installation": "Prerequisites", "Steps", "Troubleshooting")
-4. Use H4 for detailed items under H3 (e.g., under "Steps": "Step 1: Download", "Step 2: Configure")
-5. Never skip levels (e.g., don't go from H2 to H4 without H3)
-6. Keep heading hierarchy logical and consistent throughout the document
-
-**Heading Examples:**
-<h1>Project User Manual</h1>
-<h2>Overview</h2>
-<p>This manual covers...</p>
-<h2>Installation</h2>
-<h3>Prerequisites</h3>
-<p>Before installing...</p>
-<h3>Installation Steps</h3>
-<h4>Step 1: Download</h4>
-<p>Download from...</p>
-<h4>Step 2: Install</h4>
-<p>Run the installer...</p>
-<h2>Usage</h2>
-<h3>Basic Usage</h3>
-<p>To use the application...</p>
-<h3>Advanced Features</h3>
-<h4>Feature A</h4>
-<p>Description...</p>
-<h4>Feature B</h4>
-<p>Description...</p>
-
-**Text Formatting:**
-- <strong>Bold</strong>
-- <em>Italic</em>
-- <u>Underline</u>
-- <mark>Highlight</mark>
-- <s>Strikethrough</s>
-
-**Lists:**
-- Unordered: <ul><li>Item</li></ul>
-- Ordered: <ol><li>Step</li></ol>
-- Nested lists supported
-
-**Code Blocks:** (NO inline <code> tags - only code blocks!)
-<pre><code class="language-javascript" data-language="javascript">
-function example() {
-  return "Use language-specific code blocks";
-}
-</code></pre>
-
-**Supported Languages:** javascript, typescript, python, java, cpp, c, csharp, html, css, json, yaml, bash, sql, go, rust, php, ruby, swift, kotlin, markdown, mermaid, plaintext
-
-**Mermaid Diagrams:** (Use as code blocks, not separate elements)
-<pre><code class="language-mermaid" data-language="mermaid">
-graph TD
-    A[Start] --> B[Process]
-    B --> C[End]
-</code></pre>
-
-**CRITICAL: Mermaid Syntax Rules** (Follow these to avoid syntax errors)
-1. **Subgraphs**: NO quotes in titles - Use underscores or camelCase
-   - ✅ CORRECT: subgraph ClientSide or subgraph Client_Side
-   - ❌ WRONG: subgraph "Client-Side" (causes syntax error)
-2. **Node Labels**: Use square brackets for text with spaces/symbols
-   - Example: A[User Input] or B[REST API JSON]
-3. **Arrows**: Use --> for directed edges, --- for undirected
-4. **Special Characters**: Avoid quotes, use underscores or camelCase for IDs
-5. **Indentation**: Use consistent 4-space indentation inside subgraphs
-6. **Example with subgraph**:
-<pre><code class="language-mermaid" data-language="mermaid">
-graph TD
-    subgraph ClientSide
-        User[User] --> Frontend[Frontend Angular]
-    end
-    subgraph ServerSide
-        Backend[Spring Boot] --> DB[H2 Database]
-    end
-    Frontend --> Backend
-</code></pre>
-
-**Tables:**
-<table>
-  <thead><tr><th>Header</th></tr></thead>
-  <tbody><tr><td>Data</td></tr></tbody>
-</table>
-
-**Links:** <a href="url">text</a>
-
-**Blockquotes:** <blockquote><p>Quote text</p></blockquote>
-
-**IMPORTANT:**
-- Use semantic HTML tags
-- NO inline <code> tags (use code blocks instead)
-- NO <h6> headings (use <h5> for smallest heading)
-- Include proper whitespace and structure
-- Use language-specific syntax for code blocks
-
----
-
-**YOUR TASK:**
-Create a document titled "${documentName}" for the role: ${documentRole}
-
-**REPOSITORY INFORMATION:**
-- Repository: ${repositoryInfo.fullName}
-- Directory Structure:
-${directoryTree}
-- README Preview:
-${repoContext.readme?.substring(0, 1000) || 'None'}
-
-**WORKFLOW - FOLLOW THESE STEPS:**
-
-**STEP 1 (Current Step):** Analyze the repository structure and README above. Then respond with JSON listing the specific files you need to examine to create the document according to the template requirements:
-Format: {"needFiles": true, "files": ["path/to/file1", "path/to/file2"], "reason": "brief explanation of why you need these files"}
-
-**STEP 2 (After receiving files):** You will receive the content of the files you requested. Review them and either:
-- Request MORE files if needed: {"needFiles": true, "files": ["path1", "path2"], "reason": "why"}
-- OR generate the final document: {"needFiles": false, "content": "YOUR_HTML_CONTENT"}
-
-**WHEN GENERATING THE FINAL DOCUMENT:**
-- STRICTLY FOLLOW the template format and structure provided at the top of this prompt
-- The template itself contains all requirements for code examples, validation logic, diagrams, etc.
-- You MUST respond with VALID JSON: {"needFiles": false, "content": "HTML_CONTENT_HERE"}
-- The "content" field MUST be a string containing complete HTML as specified in the template
-- Follow ALL formatting requirements from the template (HTML tags, structure, sections, etc.)
-- DO NOT add explanatory text like "Here is the document:" - just provide the JSON with HTML content
-- DO NOT deviate from the template's required format
-
-**IMPORTANT - Handle Length Constraints:**
-- If the document is too long for one response, you can split it into parts
-- Generate the document section by section if needed
-- For very comprehensive documents, focus on completing major sections first
-- Use the full token limit (8192) to generate as much quality content as possible
-
-**Start now - which files do you need? Respond with JSON only:**`;
-
-            let iteration = 0;
-            const maxIter = 10; // Increased from 5 to 10 iterations
-            let content = '';
-            const provided: string[] = [];
-
-            while (iteration < maxIter) {
-                iteration++;
-                // More descriptive progress messages
-                if (iteration === 1) {
-                    onProgress?.('analysis', 'AI analyzing repository structure...');
-                } else {
-                    onProgress?.('iteration', `AI processing files and generating content...`);
-                }
-
-                let prompt = '';
-                if (iteration === 1) {
-                    prompt = initialPrompt;
-                } else {
-                    const fileContents = await this.getFileContents(user, repositoryInfo, provided);
-                    // Update progress with file count
-                    onProgress?.('files', `Processing ${provided.length} files from repository...`);
-                    
-                    prompt = `**REMINDER: Follow the template format provided in the initial prompt**
-
-You requested these files from the repository. Here they are:
-
-${fileContents}
-
-**EDITOR FORMATTING REMINDER:**
-Use TipTap-compatible HTML:
-- Headings: <h1> to <h5> (NO <h6>)
-- Code blocks ONLY (NO inline <code> tags):
-  <pre><code class="language-python" data-language="python">code here</code></pre>
-- Mermaid diagrams as code blocks:
-  <pre><code class="language-mermaid" data-language="mermaid">graph TD...</code></pre>
-- **MERMAID SYNTAX**: NO quotes in subgraphs (use underscores: subgraph Client_Side)
-- Text formatting: <strong>, <em>, <u>, <mark>, <s>
-- Lists: <ul><li>, <ol><li>
-- Tables: <table><thead><tr><th>, <tbody><tr><td>
-- Links: <a href="url">text</a>
-
-**CRITICAL INSTRUCTIONS:**
-- Files marked with ❌ NOT FOUND do not exist - DO NOT request them again
-- Work with successfully fetched files (marked with ✅)
-- You must create the document following the EXACT template format from the beginning of our conversation
-- The template specifies the required HTML structure, sections, and format
-
-**YOUR NEXT STEP:**
-
-Option 1 - Need more files?
-{"needFiles": true, "files": ["path/to/file"], "reason": "why you need it"}
-
-Option 2 - Ready to generate the document?
-{"needFiles": false, "content": "COMPLETE_HTML_CONTENT"}
-
-**REQUIREMENTS FOR THE DOCUMENT:**
-- Follow the template's HTML structure EXACTLY as specified
-- Use TipTap-compatible HTML tags (NO inline <code>, NO <h6>)
-- The template itself defines all content requirements (code examples, validation logic, etc.)
-- Include ALL required sections from the template
-- For code: <pre><code class="language-X" data-language="X">code</code></pre>
-- For diagrams: <pre><code class="language-mermaid" data-language="mermaid">graph</code></pre>
-- DO NOT add explanatory text - just provide the JSON with HTML content
-- The content must be based on the repository files you've examined
-- Example format: {"needFiles": false, "content": "<html><body><h1>Project User Manual</h1>...</body></html>"}
-
-**Respond with JSON only:**`;
-                }
-                const res = await fetch(GENERATE_API, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ prompt, model: this.defaultModel, generationConfig: { maxOutputTokens: 8192 } }),
-                });
-                if (!res.ok) {
-                    const err = await res.json().catch(() => ({}));
-                    throw new Error(err?.error || `Generate failed: ${res.status}`);
-                }
-                const payload = await res.json();
-                const text = String(payload.text || '');
-                let parsed: any;
-                try {
-                    const match = text.match(/\{[\s\S]*\}/);
-                    if (match) {
-                        parsed = JSON.parse(match[0]);
-                    } else {
-                        parsed = null;
-                    }
-                } catch (parseError) {
-                    content = this.cleanHTMLContent(text);
-                    break;
-                }
-
-                if (!parsed) {
-                    content = this.cleanHTMLContent(text);
-                    break;
-                }
-
-                if (parsed.needFiles && parsed.files?.length > 0) {
-                    // Show what AI is looking for
-                    const filePreview = parsed.files.slice(0, 3).join(', ');
-                    const moreCount = parsed.files.length > 3 ? ` and ${parsed.files.length - 3} more` : '';
-                    onProgress?.('files', `AI examining: ${filePreview}${moreCount}`);
-                    
-                    // Clear and set new files to fetch
-                    provided.length = 0;
-                    provided.push(...parsed.files);
-                } else if (parsed.needFiles === false && parsed.content) {
-                    onProgress?.('generate', 'AI writing document content...');
-                    content = parsed.content;
-                    break;
-                } else {
-                    content = text;
-                    break;
-                }
-            }
-
-            if (!content) {
-                onProgress?.('generate', 'Finalizing with template content...');
-                content = this.generateFallbackContent(templatePrompt, repositoryInfo, documentName, documentRole);
-            } else {
-            }
-
-            onProgress?.('done', 'Complete!');
-            return this.cleanHTMLContent(content);
-
-        } catch (error) {
-            console.error('❌ Iterative error:', error);
-            onProgress?.('error', error instanceof Error ? error.message : 'Failed');
-            throw error;
+    private async jobRequest<T>(user: User, url: string, init: RequestInit = {}, fallback = 'Generation job request failed'): Promise<T> {
+        const idToken = await user.getIdToken();
+        const res = await fetch(url, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${idToken}`,
+            },
+        });
+        if (!res.ok) {
+            throw await toResponseError(res, fallback);
         }
+        return res.json();
     }
 
     /**
-     * Generate document content in sections to handle token limits
-     * This method generates the document part by part, allowing for longer documents
-     * Each section gets its own 8192 token budget, enabling unlimited document length
+     * Queue a server-side generation job. The server collects repository files,
+     * writes the document section by section and creates it when done.
      */
-    async generateDocumentInSections(
-        user: User,
-        templatePrompt: string,
-        repositoryInfo: { owner: string; repo: string; fullName: string },
-        documentRole: string,
-        documentName: string,
-        onProgress?: (stage: string, message?: string) => void
-    ): Promise<string> {
-        try {
-            onProgress?.('init', 'Preparing iterative generation...');
-
-            // PHASE 1: Collect repository files using existing iterative method
-            onProgress?.('files', 'Collecting repository files...');
-            
-            const repoContext = await repositoryContextService.getRepositoryContext(
-                user,
-                repositoryInfo.owner,
-                repositoryInfo.repo
-            );
-
-            if (!repoContext) {
-                throw new Error('Failed to fetch repository context');
-            }
-
-            const directoryTree = this.buildDirectoryTree(repoContext.structure);
-
-            // Collect all relevant files first
-            const collectedFiles: { path: string; content: string; language: string }[] = [];
-            const requestedFiles: string[] = [];
-
-            const filePrompt = `${templatePrompt}
-
----
-
-**YOUR TASK:**
-Analyze this repository to create "${documentName}" for the role: ${documentRole}
-
-**REPOSITORY:**
-${repositoryInfo.fullName}
-
-**STRUCTURE:**
-${directoryTree}
-
-**README:**
-${repoContext.readme?.substring(0, 800) || 'None'}
-
-**INSTRUCTION:**
-Respond with JSON listing the TOP 5-8 most important files needed to create this document.
-Focus on core implementation files, main components, configuration files.
-
-Format: {"files": ["path1", "path2", "path3"]}
+    async startGenerationJob(user: User, request: GenerationJobRequest): Promise<GenerationJob> {
+        const data = await this.jobRequest<{ job: GenerationJob }>(user, API_ENDPOINTS.generationJobs(), {
+            method: 'POST',
+            body: JSON.stringify(request),
+        });
+        return data.job;
+    }
 
-Respond with JSON only:`;
-            const fileRes = await fetch(GENERATE_API, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ 
-                    prompt: filePrompt, 
-                    model: this.defaultModel, 
-                    generationConfig: { maxOutputTokens: 512 } 
-                }),
-            });
+    async getGenerationJob(user: User, jobId: string): Promise<GenerationJob> {
+        const data = await this.jobRequest<{ job: GenerationJob }>(user, API_ENDPOINTS.generationJob(jobId));
+        return data.job;
+    }
 
-            if (fileRes.ok) {
-                const fileData = await fileRes.json();
-                const fileText = String(fileData.text || '');
-                try {
-                    const match = fileText.match(/\{[\s\S]*\}/);
-                    if (match) {
-                        const parsed = JSON.parse(match[0]);
-                        if (parsed.files && Array.isArray(parsed.files)) {
-                            requestedFiles.push(...parsed.files);
-                        }
-                    }
-                } catch (e) {
-                }
-            }
+    async listGenerationJobs(user: User, projectId: string): Promise<GenerationJob[]> {
+        const data = await this.jobRequest<{ jobs?: GenerationJob[] }>(user, API_ENDPOINTS.projectGenerationJobs(projectId));
+        return data.jobs || [];
+    }
 
-            // Fetch the requested files
-            if (requestedFiles.length > 0) {
-                onProgress?.('files', `Fetching ${requestedFiles.length} key files...`);
-                for (const path of requestedFiles) {
-                    try {
-                        const file = await repositoryContextService.getFileWithContext(
-                            user,
-                            repositoryInfo.owner,
-                            repositoryInfo.repo,
-                            path
-                        );
-                        if (file?.content) {
-                            collectedFiles.push({
-                                path,
-                                content: file.content.substring(0, 3000), // Limit to 3000 chars per file
-                                language: file.language || 'text'
-                            });
-                        }
-                    } catch (error) {
-                    }
-                }
-            }
-            // PHASE 2: Plan document sections
-            onProgress?.('planning', 'Planning document sections...');
+    /**
+     * Static analysis of a repository's exported functions, classes, routes, CLI
+     * commands and environment variables, with the prompt block built from it
+     */
+    async getCodeAnalysis(user: User, repository: string): Promise<{ analysis: CodeAnalysis; summary: string }> {
+        const data = await this.jobRequest<{ analysis: CodeAnalysis; summary?: string }>(user, API_ENDPOINTS.codeAnalysis(), {
+            method: 'POST',
+            body: JSON.stringify({ repository }),
+        }, 'Code analysis failed');
+        return { analysis: data.analysis, summary: data.summary || '' };
+    }
 
-            const planPrompt = `${templatePrompt}
+    /**
+     * Check a project's documents against the latest commit of its repository.
+     * Reports are reused on the server while nothing changed.
+     */
+    async checkProjectDrift(user: User, projectId: string, force = false): Promise<DriftReport[]> {
+        const data = await this.jobRequest<{ reports?: DriftReport[] }>(user, API_ENDPOINTS.checkProjectDrift(projectId), {
+            method: 'POST',
+            body: JSON.stringify({ force }),
+        }, 'Drift check failed');
+        return data.reports || [];
+    }
 
-**TASK:** Plan the sections for "${documentName}"
+    async checkDocumentDrift(user: User, documentId: string, force = false): Promise<DriftReport | null> {
+        const data = await this.jobRequest<{ report?: DriftReport | null }>(user, API_ENDPOINTS.checkDocumentDrift(documentId), {
+            method: 'POST',
+            body: JSON.stringify({ force }),
+        }, 'Drift check failed');
+        return data.report || null;
+    }
 
-Analyze the template and break it into 4-8 major sections that should be generated separately.
-Each section should be substantial enough to warrant its own generation.
+    /**
+     * Record that the document matches the repository at the last checked commit
+     */
+    async verifyDocument(user: User, documentId: string): Promise<DriftReport> {
+        const data = await this.jobRequest<{ report: DriftReport }>(user, API_ENDPOINTS.verifyDocumentDrift(documentId), {
+            method: 'POST',
+            body: JSON.stringify({}),
+        }, 'Failed to verify the document');
+        return data.report;
+    }
 
-Respond with JSON: {"sections": ["Section 1 Name", "Section 2 Name", ...]}
+    async resolveDriftSection(user: User, documentId: string, path: string): Promise<DriftReport> {
+        const data = await this.jobRequest<{ report: DriftReport }>(user, API_ENDPOINTS.resolveDocumentDrift(documentId), {
+            method: 'POST',
+            body: JSON.stringify({ path }),
+        }, 'Failed to resolve the section');
+        return data.report;
+    }
 
-Respond with JSON only:`;
+    /**
+     * AI rewrite of a flagged section. `content` is the editor's HTML, so the
+     * returned range lines up with unsaved edits.
+     */
+    async proposeDriftPatch(user: User, documentId: string, sectionId: string | null, content: string): Promise<DriftSectionPatch> {
+        const data = await this.jobRequest<{ patch: DriftSectionPatch }>(user, API_ENDPOINTS.documentDriftPatch(documentId), {
+            method: 'POST',
+            body: JSON.stringify({ sectionId, content }),
+        }, 'Failed to propose an update');
+        return data.patch;
+    }
 
-            const planRes = await fetch(GENERATE_API, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ 
-                    prompt: planPrompt, 
-                    model: this.defaultModel, 
-                    generationConfig: { maxOutputTokens: 512 } 
-                }),
-            });
+    /**
+     * Requeue a failed job; it continues at the first section that is not done
+     */
+    async resumeGenerationJob(user: User, jobId: string): Promise<GenerationJob> {
+        const data = await this.jobRequest<{ job: GenerationJob }>(user, API_ENDPOINTS.resumeGenerationJob(jobId), { method: 'POST' });
+        return data.job;
+    }
 
-            let sections: string[] = [];
-            if (planRes.ok) {
-                const planData = await planRes.json();
-                const planText = String(planData.text || '');
-                try {
-                    const match = planText.match(/\{[\s\S]*\}/);
-                    if (match) {
-                        const parsed = JSON.parse(match[0]);
-                        if (parsed.sections && Array.isArray(parsed.sections)) {
-                            sections = parsed.sections;
-                        }
-                    }
-                } catch (e) {
+    /**
+     * Poll a job until it completes or fails. The server retries failed runs on its
+     * own, so a failed status here means it gave up; the job can still be resumed.
+     */
+    async waitForGenerationJob(user: User, jobId: string, onUpdate?: (job: GenerationJob) => void): Promise<GenerationJob> {
+        let pollErrors = 0;
+        while (true) {
+            let job: GenerationJob;
+            try {
+                job = await this.getGenerationJob(user, jobId);
+                pollErrors = 0;
+            } catch (error) {
+                // The job keeps running server-side; only give up on a lasting outage
+                if (++pollErrors > MAX_JOB_POLL_ERRORS) {
+                    throw error;
                 }
+                await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+                continue;
             }
 
-            // Fallback sections if planning failed
-            if (sections.length === 0) {
-                sections = ['Introduction', 'Getting Started', 'Core Features', 'Technical Details', 'Conclusion'];
+            onUpdate?.(job);
+            if (job.status === 'completed') {
+                return job;
             }
-            // PHASE 3: Generate each section with full 8192 token budget
-            const generatedSections: string[] = [];
-            const filesContext = collectedFiles.map(f => 
-                `**${f.path}** (${f.language}):\n\`\`\`${f.language}\n${f.content}\n\`\`\``
-            ).join('\n\n');
-
-            for (let i = 0; i < sections.length; i++) {
-                const sectionName = sections[i];
-                onProgress?.('generate', `Generating ${i + 1}/${sections.length}: ${sectionName}`);
-                const sectionPrompt = `${templatePrompt}
-
----
-
-**EDITOR FORMATTING RULES:**
-
-Generate content using proper TipTap HTML formatting:
-
-**Headings:** <h1> to <h5> only (NO <h6>)
-**Text:** <strong>, <em>, <u>, <mark>, <s>
-**Code:** Use code blocks only (NO inline <code> tags):
-<pre><code class="language-javascript" data-language="javascript">
-// Your code here
-</code></pre>
-
-**Mermaid Diagrams:**
-<pre><code class="language-mermaid" data-language="mermaid">
-graph TD
-    A --> B
-</code></pre>
-
-**CRITICAL Mermaid Rules** (Avoid syntax errors):
-- Subgraphs: NO quotes - use underscores (subgraph Client_Side NOT "Client-Side")
-- Node IDs: No spaces, use camelCase or underscores
-- Labels: Use square brackets [Text with spaces]
-- Example: subgraph Backend
-              Server[Spring Boot] --> DB[Database]
-          end
-
-**Lists:** <ul><li>, <ol><li>, or nested
-**Tables:** <table><thead><tr><th>, <tbody><tr><td>
-**Links:** <a href="url">text</a>
-**Quotes:** <blockquote><p>text</p></blockquote>
-
----
-
-**REPOSITORY:** ${repositoryInfo.fullName}
-**DOCUMENT:** ${documentName}
-**ROLE:** ${documentRole}
-
-**KEY FILES:**
-${filesContext}
-
-**YOUR TASK:**
-Generate ONLY the "${sectionName}" section of the document.
-
-**CONTEXT - ALL SECTIONS:**
-${sections.map((s, idx) => `${idx + 1}. ${s}${idx < i ? ' ✅' : idx === i ? ' 👉 CURRENT' : ' ⏳'}`).join('\n')}
-
-**PREVIOUSLY GENERATED:**
-${generatedSections.length > 0 ? generatedSections.map((content, idx) => `[${sections[idx]}]: ${content.substring(0, 200)}...`).join('\n') : 'None - this is the first section'}
-
-**REQUIREMENTS:**
-- Generate ONLY the "${sectionName}" section
-- Follow the template's HTML format using TipTap-compatible tags
-- Use <h2> or <h3> for section headings (NOT <h1>)
-- For code: use <pre><code class="language-X" data-language="X">
-- For diagrams: use <pre><code class="language-mermaid" data-language="mermaid">
-- NO inline <code> tags - use code blocks for all code snippets
-- Be comprehensive and detailed for THIS section
-- Include code examples, explanations, and specifics from the repository files
-- Use your FULL 8192 token budget for quality content
-- DO NOT regenerate previous sections
-- Respond with ONLY the HTML content for this section (no JSON, no explanations)
-
-Generate the "${sectionName}" section now:`;
-
-                const sectionRes = await fetch(GENERATE_API, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ 
-                        prompt: sectionPrompt, 
-                        model: this.defaultModel, 
-                        generationConfig: { maxOutputTokens: 8192 } 
-                    }),
-                });
-
-                if (!sectionRes.ok) {
-                    continue;
+            if (job.status === 'failed') {
+                const error = new Error(job.error || 'Document generation failed');
+                if (job.errorCode === 'QUOTA_EXCEEDED') {
+                    error.name = QUOTA_ERROR_NAME;
                 }
-
-                const sectionData = await sectionRes.json();
-                const sectionContent = String(sectionData.text || '');
-                
-                // Clean the section content
-                const cleaned = this.cleanHTMLContent(sectionContent);
-                generatedSections.push(cleaned);
+                throw error;
             }
-
-            // PHASE 4: Combine all sections
-            onProgress?.('finalize', 'Combining all sections...');
-
-            const finalDocument = `<h1>${documentName}</h1>
-${generatedSections.join('\n\n')}`;
-            onProgress?.('done', 'Document generation complete!');
-
-            return finalDocument;
-
-        } catch (error) {
-            console.error('❌ Section generation error:', error);
-            onProgress?.('error', error instanceof Error ? error.message : 'Failed');
-            throw error;
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
         }
     }
 
-    private buildDirectoryTree(structure: any[]): string {
-        const tree: string[] = [];
-        const sorted = structure.slice(0, 100).sort((a, b) => {
-            if (a.type === 'dir' && b.type !== 'dir') return -1;
-            if (a.type !== 'dir' && b.type === 'dir') return 1;
-            return a.path.localeCompare(b.path);
-        });
-        for (const item of sorted) {
-            tree.push(`${'  '.repeat((item.path.match(/\//g) || []).length)}${item.type === 'dir' ? '📁' : '📄'} ${item.path}`);
-        }
-        if (structure.length > 100) tree.push(`... +${structure.length - 100} more`);
-        return tree.join('\n');
+    /**
+     * ITERATIVE AI GENERATION - AI requests files it needs, then writes the whole document.
+     * Runs as a server-side job; resolves with the completed job and its new document.
+     */
+    async generateDocumentFromTemplateAndRepoIterative(
+        user: User,
+        request: Omit<GenerationJobRequest, 'mode'>,
+        onUpdate?: (job: GenerationJob) => void
+    ): Promise<GenerationJob> {
+        const job = await this.startGenerationJob(user, { ...request, mode: 'iterative' });
+        onUpdate?.(job);
+        return this.waitForGenerationJob(user, job.id, onUpdate);
     }
 
-    private async getFileContents(user: User, repoInfo: { owner: string; repo: string }, paths: string[]): Promise<string> {
-        const contents: string[] = [];
-        const successFiles: string[] = [];
-        const failedFiles: string[] = [];
-        for (const path of paths) {
-            try {
-                const file = await repositoryContextService.getFileWithContext(user, repoInfo.owner, repoInfo.repo, path);
-                if (file?.content) {
-                    const truncated = file.content.length > 5000;
-                    const contentToShow = file.content.substring(0, 5000);
-                    contents.push(`**${path}** ${truncated ? `(${file.content.length} chars, showing first 5000)` : `(${file.content.length} chars)`}\n\`\`\`${file.language || 'text'}\n${contentToShow}\n\`\`\``);
-                    successFiles.push(path);
-                } else {
-                    contents.push(`**${path}**: ⚠️ File exists but has no content`);
-                    failedFiles.push(path);
-                }
-            } catch (error) {
-                const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-                contents.push(`**${path}**: ❌ NOT FOUND (${errorMsg})`);
-                failedFiles.push(path);
-            }
-        }
-        if (successFiles.length > 0) {
-        }
-        if (failedFiles.length > 0) {
-        }
-        
-        // Add summary at the beginning
-        const summary = `**FILE FETCH SUMMARY:**
-- ✅ Successfully fetched: ${successFiles.length} files
-- ❌ Failed/Not found: ${failedFiles.length} files
-${failedFiles.length > 0 ? `\n**Files that don't exist:** ${failedFiles.join(', ')}` : ''}
-
----
-
-`;
-        
-        return summary + contents.join('\n\n');
+    /**
+     * Generate document content in sections to handle token limits.
+     * Each section gets its own 8192 token budget and is saved on the job as soon
+     * as it is written, so a failed or interrupted job resumes at the next section.
+     */
+    async generateDocumentInSections(
+        user: User,
+        request: Omit<GenerationJobRequest, 'mode'>,
+        onUpdate?: (job: GenerationJob) => void
+    ): Promise<GenerationJob> {
+        const job = await this.startGenerationJob(user, { ...request, mode: 'sections' });
+        onUpdate?.(job);
+        return this.waitForGenerationJob(user, job.id, onUpdate);
     }
 
     /**
@@ -1778,6 +1712,14 @@ ${failedFiles.length > 0 ? `\n**Files that don't exist:** ${failedFiles.join(',
             // Format repository context for AI
             const contextFormatted = repositoryContextService.formatContextForAI(repoContext);
 
+            // The static analysis is the ground truth for APIs; generation works without it
+            const staticAnalysis = await this.getCodeAnalysis(user, repositoryInfo.fullName)
+                .then((result) => result.summary)
+                .catch((error) => {
+                    console.warn('⚠️ Static analysis unavailable, generating without it:', error);
+                    return '';
+                });
+
             // Build comprehensive prompt for Gemini
             const aiPrompt = `You are a technical documentation expert tasked with creating comprehensive, professional documentation for a software project.
 
@@ -1794,7 +1736,10 @@ ${templatePrompt}
 
 ## REPOSITORY CONTEXT
 ${contextFormatted}
-
+${staticAnalysis ? `
+## STATIC ANALYSIS
+${staticAnalysis}
+` : ''}
 ## OUTPUT REQUIREMENTS
 1. Generate the documentation in **clean HTML format** suitable for a rich text editor
 2. Use semantic HTML5 tags: <h1>, <h2>, <h3>, <p>, <ul>, <ol>, <li>, <strong>, <em>, <code>, <pre>
@@ -1832,12 +1777,11 @@ Now generate the complete ${documentName} document following these guidelines:`;
             // Generate content using Gemini
             const res = await fetch(GENERATE_API, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ prompt: aiPrompt, model: this.defaultModel, generationConfig: { maxOutputTokens: 4096 } }),
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await user.getIdToken()}` },
+                body: JSON.stringify({ prompt: aiPrompt, model: this.defaultModel, generationConfig: { maxOutputTokens: 4096 }, feature: 'template' }),
             });
             if (!res.ok) {
-                const err = await res.json().catch(() => ({}));
-                throw new Error(err?.error || `Generate failed: ${res.status}`);
+                throw await toResponseError(res, 'Generate failed');
             }
             const payload = await res.json();
             let htmlContent = String(payload.text || '');
@@ -1848,6 +1792,9 @@ Now generate the complete ${documentName} document following these guidelines:`;
 
         } catch (error) {
             console.error('❌ Error generating document from template and repo:', error);
+            if (isQuotaError(error)) {
+                throw error;
+            }
             
             // Fallback to basic template-based content
             return this.generateFallbackContent(templatePrompt, repositoryInfo, documentName, documentRole);
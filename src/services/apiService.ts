@@ -9,9 +9,11 @@ import type { Document, Project } from '@/types';
 /**
  * Fetch a single document by ID
  */
-export const fetchDocument = async (documentId: string): Promise<Document> => {
+export const fetchDocument = async (documentId: string, { lazyChunks = false }: { lazyChunks?: boolean } = {}): Promise<Document> => {
   try {
-    const response = await fetch(API_ENDPOINTS.document(documentId));
+    // With lazyChunks a chunked document comes back with its Chunks outline and empty Content
+    const url = API_ENDPOINTS.document(documentId) + (lazyChunks ? '?chunks=lazy' : '');
+    const response = await fetch(url);
     if (!response.ok) {
       if (response.status === 404) {
         // Import mock data dynamically to avoid circular dependencies
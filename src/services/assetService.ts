@@ -0,0 +1,87 @@
+/**
+ * Asset Service
+ * Uploads editor images to Cloud Storage (assets/{assetId}) and records them in
+ * the Assets collection. Documents reference images by data-asset-id instead of
+ * inlining them as data URIs. Asset ids are SHA-256 content hashes, matching the
+ * server-side migration, so an image is stored once however often it is used.
+ */
+
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { auth, db, storage } from '@/config/firebase';
+import { getImageDimensions } from './imageCompressionService';
+
+export interface UploadedAsset {
+  assetId: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export const MAX_ASSET_SIZE_MB = 10;
+export const MAX_ASSET_SIZE_BYTES = MAX_ASSET_SIZE_MB * 1024 * 1024;
+
+const assetIdFor = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `img_${hex.slice(0, 32)}`;
+};
+
+const readDimensions = async (file: File) => {
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    return await getImageDimensions(objectUrl);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Upload an image file, reusing the stored asset when the same image was uploaded before
+ */
+export async function uploadImageAsset(file: File): Promise<UploadedAsset> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Only image files can be inserted.');
+  }
+  if (file.size > MAX_ASSET_SIZE_BYTES) {
+    const sizeMB = (file.size / (1024 * 1024)).toFixed(2);
+    throw new Error(`Image size (${sizeMB}MB) exceeds the maximum limit of ${MAX_ASSET_SIZE_MB}MB. Please use a smaller image.`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const assetId = await assetIdFor(bytes);
+  const assetRef = doc(db, 'Assets', assetId);
+  const [dimensions, existing] = await Promise.all([readDimensions(file), getDoc(assetRef)]);
+
+  if (existing.exists() && existing.data().Url) {
+    return { assetId, url: existing.data().Url, ...dimensions };
+  }
+
+  const storagePath = `assets/${assetId}`;
+  const storageRef = ref(storage, storagePath);
+  try {
+    await uploadBytes(storageRef, bytes, {
+      contentType: file.type,
+      cacheControl: 'public, max-age=31536000, immutable',
+    });
+  } catch (error) {
+    // Stored objects cannot be replaced; an earlier upload may have stopped before its Assets record was written
+    const storedUrl = await getDownloadURL(storageRef).catch(() => null);
+    if (!storedUrl) throw error;
+  }
+  const url = await getDownloadURL(storageRef);
+
+  await setDoc(assetRef, {
+    Storage_Path: storagePath,
+    Url: url,
+    Content_Type: file.type,
+    Size: file.size,
+    Width: dimensions.width,
+    Height: dimensions.height,
+    Created_By: auth.currentUser?.uid || null,
+    Source: 'upload',
+    Created_Time: serverTimestamp(),
+  });
+
+  return { assetId, url, ...dimensions };
+}
@@ -0,0 +1,307 @@
+/**
+ * Firestore Collaboration Provider
+ * Persists incremental Yjs updates under Documents/{id}/CollabUpdates and
+ * compacts them into Documents/{id}/CollabState/snapshot. In live mode it also
+ * streams other clients' updates and presence (Documents/{id}/CollabPresence).
+ * Works against the Firestore emulator when VITE_FIRESTORE_EMULATOR_HOST is set.
+ */
+
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import {
+  Bytes,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  addDoc,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import type { CollabConnectOptions, CollabConnectResult } from './collaborationService';
+import { readDocumentContent } from './documentChunkService';
+
+interface FirestoreCollabOptions {
+  // Stream remote updates and presence; off when a WebSocket relay carries them
+  live: boolean;
+  userId: string;
+  // Updates applied by another transport, which must not be written again
+  isRemoteOrigin?: (origin: unknown) => boolean;
+}
+
+// Updates are batched so fast typing produces a handful of writes per second at most
+const UPDATE_FLUSH_MS = 300;
+const PRESENCE_FLUSH_MS = 250;
+// Presence documents left behind by closed tabs are ignored after this long
+const PRESENCE_TIMEOUT_MS = 30_000;
+// Compaction merges the log into the snapshot once it grows past this many entries
+const COMPACT_THRESHOLD = 200;
+// Firestore transactions allow 500 writes; keep room for the snapshot write
+const COMPACT_BATCH_LIMIT = 400;
+
+/**
+ * FNV-1a hash of the document HTML. Saves from the collaborative editor store it
+ * as Documents.Collab_Hash, so a mismatch means Content was written elsewhere.
+ */
+export const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Take ownership of an external Content change so only one connected editor
+ * merges it into the shared document. Returns the content to apply, or null
+ * when there is nothing to merge or another client already claimed it.
+ */
+export const claimExternalContent = async (documentId: string): Promise<string | null> => {
+  const docRef = doc(db, 'Documents', documentId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data();
+    const content = await readDocumentContent(documentId, data);
+    const hash = hashContent(content);
+    if (!content || data.Collab_Hash === hash) return null;
+
+    transaction.update(docRef, { Collab_Hash: hash });
+    return content;
+  });
+};
+
+export class FirestoreCollabProvider {
+  private pendingUpdates: Uint8Array[] = [];
+  private updateTimer: ReturnType<typeof setTimeout> | null = null;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: Unsubscribe[] = [];
+  private knownUpdateIds = new Set<string>();
+  private destroyed = false;
+  private ydoc: Y.Doc;
+  private awareness: Awareness;
+  private documentId: string;
+  private options: FirestoreCollabOptions;
+
+  constructor(ydoc: Y.Doc, awareness: Awareness, documentId: string, options: FirestoreCollabOptions) {
+    this.ydoc = ydoc;
+    this.awareness = awareness;
+    this.documentId = documentId;
+    this.options = options;
+  }
+
+  private get updatesRef() {
+    return collection(db, 'Documents', this.documentId, 'CollabUpdates');
+  }
+
+  private get stateRef() {
+    return doc(db, 'Documents', this.documentId, 'CollabState', 'snapshot');
+  }
+
+  private get presenceRef() {
+    return doc(db, 'Documents', this.documentId, 'CollabPresence', String(this.ydoc.clientID));
+  }
+
+  async connect({ toUpdate }: CollabConnectOptions): Promise<CollabConnectResult> {
+    const [stateSnap, updatesSnap] = await Promise.all([getDoc(this.stateRef), getDocs(this.updatesRef)]);
+
+    if (stateSnap.exists()) {
+      Y.applyUpdate(this.ydoc, stateSnap.data().State.toUint8Array(), this);
+    }
+    updatesSnap.docs.forEach((updateDoc) => {
+      this.knownUpdateIds.add(updateDoc.id);
+      Y.applyUpdate(this.ydoc, updateDoc.data().Update.toUint8Array(), this);
+    });
+
+    let externalContent: string | null = null;
+    if (!stateSnap.exists() && updatesSnap.empty) {
+      await this.seed(toUpdate);
+    } else {
+      externalContent = await claimExternalContent(this.documentId);
+    }
+
+    if (updatesSnap.size > COMPACT_THRESHOLD) {
+      this.compact(updatesSnap.docs.slice(0, COMPACT_BATCH_LIMIT).map((updateDoc) => updateDoc.id)).catch((error) => {
+        console.error('❌ Failed to compact collaboration updates:', error);
+      });
+    }
+
+    if (this.destroyed) return { externalContent };
+
+    this.ydoc.on('update', this.handleDocUpdate);
+    if (this.options.live) {
+      this.listen();
+      this.awareness.on('update', this.handleAwarenessUpdate);
+      this.schedulePresence();
+    }
+    return { externalContent };
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.ydoc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.presenceTimer) clearTimeout(this.presenceTimer);
+    if (this.updateTimer) clearTimeout(this.updateTimer);
+
+    // Last edits must still be persisted after the editor closes
+    this.flushUpdates();
+    if (this.options.live) {
+      deleteDoc(this.presenceRef).catch(() => undefined);
+    }
+  }
+
+  /**
+   * The first client to open a document converts its HTML into the initial Yjs
+   * state. The transaction makes sure concurrent openers agree on one seed.
+   */
+  private async seed(toUpdate: (html: string) => Uint8Array) {
+    const documentRef = doc(db, 'Documents', this.documentId);
+    const state = await runTransaction(db, async (transaction) => {
+      const [snapshot, documentSnap] = await Promise.all([transaction.get(this.stateRef), transaction.get(documentRef)]);
+      if (snapshot.exists()) {
+        return snapshot.data().State.toUint8Array() as Uint8Array;
+      }
+      const content = documentSnap.exists() ? await readDocumentContent(this.documentId, documentSnap.data()) : '';
+      if (!content) return null;
+
+      const update = toUpdate(content);
+      transaction.set(this.stateRef, {
+        State: Bytes.fromUint8Array(update),
+        Seeded_By: this.options.userId,
+        Created_Time: serverTimestamp(),
+        Updated_Time: serverTimestamp(),
+      });
+      // The seed already contains this content, so it is not external
+      transaction.update(documentRef, { Collab_Hash: hashContent(content) });
+      return update;
+    });
+    if (state) {
+      Y.applyUpdate(this.ydoc, state, this);
+    }
+  }
+
+  /**
+   * Fold logged updates into the snapshot. The current snapshot is merged rather
+   * than replaced, and only updates already applied locally are deleted, so a
+   * concurrent compaction by another client cannot drop edits.
+   */
+  private async compact(updateIds: string[]) {
+    const localState = Y.encodeStateAsUpdate(this.ydoc);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(this.stateRef);
+      const merged = snapshot.exists()
+        ? Y.mergeUpdates([snapshot.data().State.toUint8Array(), localState])
+        : localState;
+      transaction.set(this.stateRef, {
+        State: Bytes.fromUint8Array(merged),
+        Updated_Time: serverTimestamp(),
+      }, { merge: true });
+      updateIds.forEach((id) => transaction.delete(doc(this.updatesRef, id)));
+    });
+  }
+
+  private listen() {
+    this.unsubscribers.push(onSnapshot(
+      this.updatesRef,
+      (snapshot) => {
+        snapshot.docChanges().forEach((change) => {
+          if (change.type !== 'added' || this.knownUpdateIds.has(change.doc.id)) return;
+          this.knownUpdateIds.add(change.doc.id);
+          const data = change.doc.data();
+          if (data.Client_Id === this.ydoc.clientID) return;
+          Y.applyUpdate(this.ydoc, data.Update.toUint8Array(), this);
+        });
+      },
+      (error) => console.error('❌ Collaboration update listener error:', error)
+    ));
+
+    this.unsubscribers.push(onSnapshot(
+      collection(db, 'Documents', this.documentId, 'CollabPresence'),
+      (snapshot) => {
+        snapshot.docChanges().forEach((change) => {
+          const clientId = Number(change.doc.id);
+          if (clientId === this.ydoc.clientID) return;
+          if (change.type === 'removed') {
+            removeAwarenessStates(this.awareness, [clientId], this);
+            return;
+          }
+          const data = change.doc.data();
+          const updatedAt = data.Updated_Time?.toMillis?.();
+          if (updatedAt && Date.now() - updatedAt > PRESENCE_TIMEOUT_MS) return;
+          applyAwarenessUpdate(this.awareness, data.Update.toUint8Array(), this);
+        });
+      },
+      (error) => console.error('❌ Collaboration presence listener error:', error)
+    ));
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    // Only local edits are persisted; remote ones were written by their author
+    if (origin === this || this.options.isRemoteOrigin?.(origin)) return;
+    this.pendingUpdates.push(update);
+    if (!this.updateTimer) {
+      this.updateTimer = setTimeout(() => this.flushUpdates(), UPDATE_FLUSH_MS);
+    }
+  };
+
+  private flushUpdates() {
+    this.updateTimer = null;
+    if (this.pendingUpdates.length === 0) return;
+
+    const update = Y.mergeUpdates(this.pendingUpdates);
+    this.pendingUpdates = [];
+    addDoc(this.updatesRef, {
+      Update: Bytes.fromUint8Array(update),
+      Client_Id: this.ydoc.clientID,
+      User_Id: this.options.userId,
+      Created_Time: serverTimestamp(),
+    })
+      .then((ref) => this.knownUpdateIds.add(ref.id))
+      .catch((error) => {
+        console.error('❌ Failed to persist collaboration update:', error);
+        // Keep the update so the next flush retries it
+        this.pendingUpdates.unshift(update);
+      });
+  }
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === this) return;
+    const changed = [...added, ...updated, ...removed];
+    if (changed.includes(this.ydoc.clientID)) {
+      this.schedulePresence();
+    }
+  };
+
+  private schedulePresence() {
+    if (this.presenceTimer || this.destroyed) return;
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      if (this.destroyed) return;
+      const update = encodeAwarenessUpdate(this.awareness, [this.ydoc.clientID]);
+      setDoc(this.presenceRef, {
+        Update: Bytes.fromUint8Array(update),
+        User_Id: this.options.userId,
+        Updated_Time: serverTimestamp(),
+      }).catch((error) => console.error('❌ Failed to publish presence:', error));
+    }, PRESENCE_FLUSH_MS);
+  }
+}
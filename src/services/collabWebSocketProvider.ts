@@ -0,0 +1,147 @@
+/**
+ * WebSocket Collaboration Provider
+ * Live Yjs updates and presence through the local relay in server/collab/relay.js.
+ * Messages are binary: one type byte followed by the Yjs or awareness payload.
+ */
+
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import type { CollabStatus } from './collaborationService';
+
+// Keep in sync with server/collab/relay.js
+const MESSAGE_SYNC_REQUEST = 0; // client → relay: state vector
+const MESSAGE_SYNC_REPLY = 1; // relay → client: updates the client is missing
+const MESSAGE_UPDATE = 2;
+const MESSAGE_AWARENESS = 3;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+const frame = (type: number, payload: Uint8Array): Uint8Array => {
+  const message = new Uint8Array(payload.length + 1);
+  message[0] = type;
+  message.set(payload, 1);
+  return message;
+};
+
+export class WebSocketCollabProvider {
+  private socket: WebSocket | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusListener: ((status: CollabStatus) => void) | null = null;
+  private destroyed = false;
+  private ydoc: Y.Doc;
+  private awareness: Awareness;
+  private documentId: string;
+  private url: string;
+
+  constructor(ydoc: Y.Doc, awareness: Awareness, documentId: string, url: string) {
+    this.ydoc = ydoc;
+    this.awareness = awareness;
+    this.documentId = documentId;
+    this.url = url;
+  }
+
+  onStatus(listener: (status: CollabStatus) => void) {
+    this.statusListener = listener;
+  }
+
+  connect() {
+    if (this.destroyed || this.socket) return;
+    this.ydoc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+    this.open();
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.ydoc.off('update', this.handleDocUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      // Tell the others this client left instead of waiting for the presence timeout
+      removeAwarenessStates(this.awareness, [this.ydoc.clientID], 'window unload');
+      this.send(MESSAGE_AWARENESS, encodeAwarenessUpdate(this.awareness, [this.ydoc.clientID]));
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open() {
+    this.statusListener?.('connecting');
+    const socket = new WebSocket(`${this.url.replace(/\/$/, '')}/${encodeURIComponent(this.documentId)}`);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.statusListener?.('connected');
+      this.send(MESSAGE_SYNC_REQUEST, Y.encodeStateVector(this.ydoc));
+      // Edits made while disconnected reach the relay through the full state
+      this.send(MESSAGE_UPDATE, Y.encodeStateAsUpdate(this.ydoc));
+      if (this.awareness.getLocalState()) {
+        this.send(MESSAGE_AWARENESS, encodeAwarenessUpdate(this.awareness, [this.ydoc.clientID]));
+      }
+    };
+
+    socket.onmessage = (event) => {
+      const message = new Uint8Array(event.data as ArrayBuffer);
+      const payload = message.subarray(1);
+      switch (message[0]) {
+        case MESSAGE_SYNC_REPLY:
+        case MESSAGE_UPDATE:
+          Y.applyUpdate(this.ydoc, payload, this);
+          break;
+        case MESSAGE_AWARENESS:
+          applyAwarenessUpdate(this.awareness, payload, this);
+          break;
+      }
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.destroyed) return;
+      this.statusListener?.('disconnected');
+
+      // Remote cursors are stale once the relay is gone
+      const others = Array.from(this.awareness.getStates().keys()).filter((id) => id !== this.ydoc.clientID);
+      removeAwarenessStates(this.awareness, others, this);
+
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+      this.reconnectAttempts++;
+      this.reconnectTimer = setTimeout(() => this.open(), delay);
+    };
+
+    socket.onerror = (error) => {
+      console.error('❌ Collaboration relay error:', error);
+    };
+  }
+
+  private send(type: number, payload: Uint8Array) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(frame(type, payload));
+    }
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== this) {
+      this.send(MESSAGE_UPDATE, update);
+    }
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === this) return;
+    const changed = [...added, ...updated, ...removed];
+    this.send(MESSAGE_AWARENESS, encodeAwarenessUpdate(this.awareness, changed));
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Collaboration Service
+ * Shared Yjs document, presence and transport selection for real-time editing.
+ * Incremental updates are always persisted to Firestore; live fan-out goes
+ * through Firestore listeners or a WebSocket relay (see server/collab/relay.js).
+ */
+
+import * as Y from 'yjs';
+import { Awareness, removeAwarenessStates } from 'y-protocols/awareness';
+import { FirestoreCollabProvider } from './collabFirestoreProvider';
+import { WebSocketCollabProvider } from './collabWebSocketProvider';
+
+export { hashContent, claimExternalContent } from './collabFirestoreProvider';
+
+export type CollabTransport = 'firestore' | 'websocket' | 'off';
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CollabConnectOptions {
+  // Converts document HTML into a Yjs update using the editor schema
+  toUpdate: (html: string) => Uint8Array;
+}
+
+export interface CollabConnectResult {
+  // Content written to Documents.Content outside the collaborative editor (AI tools, restores)
+  externalContent: string | null;
+}
+
+// Yjs XML fragment the TipTap Collaboration extension binds to
+export const COLLAB_FIELD = 'default';
+
+const COLLAB_COLORS = ['#2563eb', '#059669', '#d97706', '#dc2626', '#7c3aed', '#db2777', '#0891b2', '#65a30d'];
+
+export const getCollabTransport = (): CollabTransport => {
+  const value = (import.meta.env.VITE_COLLAB_TRANSPORT || 'firestore').toLowerCase();
+  return value === 'websocket' || value === 'off' ? value : 'firestore';
+};
+
+export const getCollabRelayUrl = (): string =>
+  import.meta.env.VITE_COLLAB_WS_URL || 'ws://localhost:3001/collab';
+
+export const getCollabUserColor = (userId: string): string => {
+  let sum = 0;
+  for (let i = 0; i < userId.length; i++) sum += userId.charCodeAt(i);
+  return COLLAB_COLORS[sum % COLLAB_COLORS.length];
+};
+
+/**
+ * One editing session on a document: the Yjs doc, presence and the providers
+ * for the configured transport.
+ */
+export class CollaborationSession {
+  readonly ydoc = new Y.Doc();
+  readonly awareness = new Awareness(this.ydoc);
+  readonly documentId: string;
+  readonly user: CollabUser;
+  readonly transport: Exclude<CollabTransport, 'off'>;
+  status: CollabStatus = 'connecting';
+
+  private persistence: FirestoreCollabProvider;
+  private relay: WebSocketCollabProvider | null = null;
+  private statusListeners = new Set<(status: CollabStatus) => void>();
+  private destroyed = false;
+
+  constructor(documentId: string, user: CollabUser, transport: Exclude<CollabTransport, 'off'>) {
+    this.documentId = documentId;
+    this.user = user;
+    this.transport = transport;
+    this.awareness.setLocalStateField('user', { id: user.id, name: user.name, color: user.color });
+
+    // Firestore always persists; it also carries live updates and presence unless the relay does
+    this.persistence = new FirestoreCollabProvider(this.ydoc, this.awareness, documentId, {
+      live: transport === 'firestore',
+      userId: user.id,
+      isRemoteOrigin: (origin) => origin !== null && origin === this.relay,
+    });
+    if (transport === 'websocket') {
+      this.relay = new WebSocketCollabProvider(this.ydoc, this.awareness, documentId, getCollabRelayUrl());
+      this.relay.onStatus((status) => this.setStatus(status));
+    }
+  }
+
+  async connect(options: CollabConnectOptions): Promise<CollabConnectResult> {
+    const result = await this.persistence.connect(options);
+    if (this.destroyed) return result;
+
+    if (this.relay) {
+      this.relay.connect();
+    } else {
+      this.setStatus('connected');
+    }
+    return result;
+  }
+
+  onStatus(listener: (status: CollabStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    removeAwarenessStates(this.awareness, [this.ydoc.clientID], 'session destroyed');
+    this.relay?.destroy();
+    this.persistence.destroy();
+    this.awareness.destroy();
+    this.ydoc.destroy();
+    this.statusListeners.clear();
+  }
+
+  private setStatus(status: CollabStatus) {
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Document Chunk Service
+ * Client side of chunked document storage (see functions/src/services/documentChunks.ts).
+ * Large documents keep their HTML in content-addressed chunks under
+ * Documents/{id}/Chunks, listed in order on Documents.Chunks, so the editor can
+ * load sections on demand. Chunks never change, so loaded chunks are cached for
+ * the lifetime of the page.
+ */
+
+import { deleteField, doc, getDoc, serverTimestamp, type DocumentData, type Transaction } from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+// Keep in sync with functions/src/services/documentChunks.ts so both writers produce the same chunks
+export const CHUNKED_STORAGE_THRESHOLD = 200_000;
+const CHUNK_MIN_CHARS = 8_000;
+const CHUNK_TARGET_CHARS = 64_000;
+
+export interface ChunkHeading {
+  level: number;
+  text: string;
+}
+
+export interface ChunkSummary {
+  id: string;
+  size: number;
+  headings: ChunkHeading[];
+}
+
+export interface DocumentChunk extends ChunkSummary {
+  html: string;
+}
+
+// Content to save, split ahead of the transaction because chunk ids are hashed asynchronously
+export interface PreparedContent {
+  html: string;
+  chunks: DocumentChunk[] | null;
+}
+
+const TOKEN_REGEX = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>/g;
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const chunkCache = new Map<string, string>();
+const cacheKey = (documentId: string, chunkId: string) => `${documentId}/${chunkId}`;
+
+export const isChunkedDocument = (data: DocumentData | null | undefined): boolean =>
+  !!data?.Chunked && Array.isArray(data?.Chunks);
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, '\'')
+  .replace(/&amp;/g, '&');
+
+const extractText = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Start offsets and tags of top-level elements, same scan as the server's documentBlocks
+const scanTopLevelStarts = (html: string): Array<{ tag: string; start: number; end: number }> => {
+  const blocks: Array<{ tag: string; start: number; end: number }> = [];
+  const stack: string[] = [];
+  let blockStart = -1;
+  let blockTag = '';
+  let match: RegExpExecArray | null;
+
+  TOKEN_REGEX.lastIndex = 0;
+  while ((match = TOKEN_REGEX.exec(html)) !== null) {
+    if (match[0].startsWith('<!--')) continue;
+
+    const isClosing = match[1] === '/';
+    const tag = match[2].toLowerCase();
+    const selfClosing = match[3] === '/' || VOID_TAGS.has(tag);
+
+    if (stack.length === 0 && !isClosing) {
+      if (selfClosing) {
+        blocks.push({ tag, start: match.index, end: TOKEN_REGEX.lastIndex });
+        continue;
+      }
+      blockStart = match.index;
+      blockTag = tag;
+      stack.push(tag);
+      continue;
+    }
+
+    if (selfClosing && !isClosing) continue;
+    if (!isClosing) {
+      stack.push(tag);
+      continue;
+    }
+
+    const openIndex = stack.lastIndexOf(tag);
+    if (openIndex === -1) continue;
+    stack.length = openIndex;
+
+    if (stack.length === 0 && blockStart !== -1) {
+      blocks.push({ tag: blockTag, start: blockStart, end: TOKEN_REGEX.lastIndex });
+      blockStart = -1;
+    }
+  }
+
+  if (blockStart !== -1) {
+    blocks.push({ tag: blockTag, start: blockStart, end: html.length });
+  }
+  return blocks;
+};
+
+/**
+ * Split HTML at top-level h1/h2 sections, merging small sections and splitting
+ * long ones. Joining the chunks' html gives back the input exactly.
+ */
+export async function splitIntoChunks(html: string): Promise<DocumentChunk[]> {
+  const blocks = scanTopLevelStarts(html);
+  const boundaries = [0];
+  blocks.forEach((block, index) => {
+    if (index === 0) return;
+    const length = block.start - boundaries[boundaries.length - 1];
+    const startsSection = block.tag === 'h1' || block.tag === 'h2';
+    if ((startsSection && length >= CHUNK_MIN_CHARS) || length >= CHUNK_TARGET_CHARS) {
+      boundaries.push(block.start);
+    }
+  });
+
+  return Promise.all(boundaries.map(async (start, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1] : html.length;
+    const chunkHtml = html.slice(start, end);
+    const headings = blocks
+      .filter((block) => block.start >= start && block.start < end && /^h[1-3]$/.test(block.tag))
+      .map((block) => ({ level: Number(block.tag[1]), text: extractText(html.slice(block.start, block.end)) }));
+    return { id: `c_${(await sha256Hex(chunkHtml)).slice(0, 24)}`, size: chunkHtml.length, headings, html: chunkHtml };
+  }));
+}
+
+/**
+ * HTML of the given chunks, in order. Chunks already loaded are not fetched again.
+ */
+export async function loadChunks(documentId: string, chunkIds: string[]): Promise<string[]> {
+  return Promise.all(chunkIds.map(async (chunkId) => {
+    const key = cacheKey(documentId, chunkId);
+    const cached = chunkCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const snapshot = await getDoc(doc(db, 'Documents', documentId, 'Chunks', chunkId));
+    if (!snapshot.exists()) {
+      throw new Error(`Chunk ${chunkId} of document ${documentId} is missing`);
+    }
+    const html: string = snapshot.data().Html || '';
+    chunkCache.set(key, html);
+    return html;
+  }));
+}
+
+/**
+ * Full HTML of a document whether it is stored inline or chunked
+ */
+export async function readDocumentContent(documentId: string, data: DocumentData | null | undefined): Promise<string> {
+  if (!isChunkedDocument(data)) {
+    return data?.Content || '';
+  }
+  const html = await loadChunks(documentId, data!.Chunks.map((chunk: ChunkSummary) => chunk.id));
+  return html.join('');
+}
+
+export async function prepareContent(html: string): Promise<PreparedContent> {
+  const canChunk = html.length > CHUNKED_STORAGE_THRESHOLD && !!globalThis.crypto?.subtle;
+  return { html, chunks: canChunk ? await splitIntoChunks(html) : null };
+}
+
+/**
+ * Fields to write to Documents for prepared content, adding the chunks the
+ * document doesn't have yet to the transaction. Call after all transaction reads.
+ */
+export function applyContentWrite(
+  transaction: Transaction,
+  documentId: string,
+  prepared: PreparedContent,
+  currentData: DocumentData | null | undefined
+): DocumentData {
+  const wasChunked = isChunkedDocument(currentData);
+  if (!prepared.chunks) {
+    return wasChunked
+      ? { Content: prepared.html, Chunked: deleteField(), Chunks: deleteField() }
+      : { Content: prepared.html };
+  }
+
+  const existingIds = new Set<string>(wasChunked ? currentData!.Chunks.map((chunk: ChunkSummary) => chunk.id) : []);
+  prepared.chunks.forEach((chunk) => {
+    chunkCache.set(cacheKey(documentId, chunk.id), chunk.html);
+    if (existingIds.has(chunk.id)) return;
+    existingIds.add(chunk.id);
+    transaction.set(doc(db, 'Documents', documentId, 'Chunks', chunk.id), {
+      Html: chunk.html,
+      Size: chunk.size,
+      Created_Time: serverTimestamp(),
+    });
+  });
+
+  return {
+    Content: '',
+    Chunked: true,
+    Chunks: prepared.chunks.map(({ id, size, headings }) => ({ id, size, headings })),
+  };
+}
@@ -7,9 +7,20 @@ const API_BASE = buildApiUrl('api/gemini');
 // Session storage
 const SESSION_KEY = 'gemini_dashboard_session';
 
+export type GeminiBreakerState = {
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  openCount: number;
+  openUntil: number;
+  retryInMs: number;
+  probeInFlight: boolean;
+  lastError: string | null;
+};
+
 export type GeminiKeyUsage = {
   id: string;
   idShort: string;
+  weight?: number;
   cooldownUntil?: number;
   minuteWindowStart?: number;
   dayWindowStart?: number;
@@ -20,6 +31,9 @@ export type GeminiKeyUsage = {
   totalRequests?: number;
   totalTokens?: number;
   status?: string;
+  statusReason?: string | null;
+  breaker?: GeminiBreakerState;
+  models?: Record<string, { rpmUsed: number; tpmUsed: number }>;
   // Firebase fields
   RPD?: number;
   RPM?: number;
@@ -35,6 +49,8 @@ export type GeminiDashboard = {
   rrIndex?: number;
   keys: GeminiKeyUsage[];
   limits: { RPM: number; RPD: number; TPM: number };
+  modelLimits?: Record<string, { RPM?: number; TPM?: number }>;
+  breaker?: { failureThreshold: number; baseCooldownMs: number; maxCooldownMs: number };
   lastPersistAt?: number;
   lastSyncedAt?: string;
 };
@@ -49,9 +49,9 @@ export async function processImageFile(
 }
 
 /**
- * Get image dimensions from data URL
+ * Get image dimensions from a data or object URL
  */
-function getImageDimensions(dataUrl: string): Promise<{ width: number; height: number }> {
+export function getImageDimensions(dataUrl: string): Promise<{ width: number; height: number }> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.onload = () => resolve({ width: img.width, height: img.height });
@@ -1,6 +1,8 @@
 // Repository Context Service for AI Integration
 import { githubRepoService } from './githubRepoService';
 import type { User } from 'firebase/auth';
+import { doc, onSnapshot, type Unsubscribe } from 'firebase/firestore';
+import { db } from '@/config/firebase';
 
 export interface RepositoryContext {
   repository: {
@@ -25,8 +27,13 @@ export interface RepositoryFile {
   lastModified?: string;
 }
 
+// Same IDs the functions backend gives GitHubRepositories records
+const repositoryRecordId = (owner: string, repo: string) =>
+  `${owner}__${repo}`.toLowerCase().replace(/[^a-z0-9_.-]/g, '_');
+
 class RepositoryContextService {
   private contextCache = new Map<string, RepositoryContext>();
+  private headWatchers = new Map<string, Unsubscribe>();
   private readonly MAX_FILE_SIZE = 100000; // 100KB limit per file
   private readonly MAX_FILES = 20; // Maximum files to include in context
   
@@ -72,6 +79,7 @@ class RepositoryContextService {
 
       // Cache the context
       this.contextCache.set(cacheKey, context);
+      this.watchRepositoryHead(owner, repo);
       
       return context;
     } catch (error) {
@@ -274,11 +282,50 @@ class RepositoryContextService {
     }
   }
 
+  /**
+   * Drop the cached context when the GitHub webhook records a push to the
+   * repository's default branch
+   */
+  private watchRepositoryHead(owner: string, repo: string): void {
+    const cacheKey = `${owner}/${repo}`;
+    if (this.headWatchers.has(cacheKey)) return;
+
+    let headRevision: string | null | undefined;
+    const unsubscribe = onSnapshot(
+      doc(db, 'GitHubRepositories', repositoryRecordId(owner, repo)),
+      (snapshot) => {
+        const revision = snapshot.data()?.Head_Revision ?? null;
+        // The first snapshot is the head the context was read at
+        if (headRevision !== undefined && revision !== headRevision) {
+          this.invalidateRepository(owner, repo);
+        }
+        headRevision = revision;
+      },
+      (error) => {
+        console.warn(`Not watching ${cacheKey} for pushes:`, error);
+        this.headWatchers.delete(cacheKey);
+      }
+    );
+    this.headWatchers.set(cacheKey, unsubscribe);
+  }
+
+  /**
+   * Forget the cached context of one repository
+   */
+  invalidateRepository(owner: string, repo: string): void {
+    const cacheKey = `${owner}/${repo}`;
+    this.contextCache.delete(cacheKey);
+    this.headWatchers.get(cacheKey)?.();
+    this.headWatchers.delete(cacheKey);
+  }
+
   /**
    * Clear context cache
    */
   clearCache(): void {
     this.contextCache.clear();
+    this.headWatchers.forEach((unsubscribe) => unsubscribe());
+    this.headWatchers.clear();
   }
 
   /**
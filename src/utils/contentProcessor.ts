@@ -2,65 +2,13 @@
  * Content Processor - Converts Markdown and HTML to TipTap-compatible HTML
  */
 
+import { convertMarkdownToHtml } from './markdownConverter';
+
 /**
  * Converts markdown to HTML with proper TipTap formatting
  */
 export function markdownToHTML(markdown: string): string {
-  let html = markdown;
-
-  // Headers
-  html = html.replace(/^### (.*$)/gm, '<h3>$1</h3>');
-  html = html.replace(/^## (.*$)/gm, '<h2>$1</h2>');
-  html = html.replace(/^# (.*$)/gm, '<h1>$1</h1>');
-
-  // Bold and Italic
-  html = html.replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em>$1</em></strong>');
-  html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-  html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-  // Code blocks (must come before inline code)
-  html = html.replace(/```(\w+)?\n([\s\S]*?)```/g, (_match, lang, code) => {
-    const language = lang || 'plaintext';
-    const trimmedCode = code.trim();
-    return `<pre><code class="language-${language}">${trimmedCode}</code></pre>`;
-  });
-  
-  // Inline code (backticks) - must come after code blocks
-  html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-
-  // Links
-  html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-  // Lists - Unordered
-  html = html.replace(/^\s*[-*+]\s+(.*)$/gm, '<li>$1</li>');
-  html = html.replace(/(<li>.*<\/li>)/s, '<ul>$1</ul>');
-
-  // Lists - Ordered
-  html = html.replace(/^\s*\d+\.\s+(.*)$/gm, '<li>$1</li>');
-  html = html.replace(/(<li>.*<\/li>)/s, function(match) {
-    // Only convert to <ol> if it wasn't already wrapped in <ul>
-    if (!match.includes('<ul>')) {
-      return '<ol>' + match + '</ol>';
-    }
-    return match;
-  });
-
-  // Tables
-  html = processMarkdownTables(html);
-
-  // Blockquotes
-  html = html.replace(/^>\s+(.*)$/gm, '<blockquote><p>$1</p></blockquote>');
-
-  // Line breaks and paragraphs
-  html = html.replace(/\n\n+/g, '</p><p>');
-  html = html.replace(/\n/g, '<br>');
-
-  // Wrap in paragraph if not already wrapped
-  if (!html.startsWith('<')) {
-    html = '<p>' + html + '</p>';
-  }
-
-  return html;
+  return convertMarkdownToHtml(markdown);
 }
 
 /**
@@ -0,0 +1,694 @@
+/**
+ * DOCX Converter - Word import and export for editor content
+ * Import runs the .docx through mammoth and restores what mammoth drops: table
+ * cell shading (TableCellWithBackgroundColor) and code blocks. Embedded images
+ * are moved to the asset store. Export writes WordprocessingML directly, using
+ * the styles the import maps back (heading 1-6, Quote, Source Code, Inline Code),
+ * so an exported document imports with the same structure. Mermaid diagrams are
+ * rendered by processMermaidForExport and embedded as PNG images.
+ */
+
+import JSZip from 'jszip';
+import { processMermaidForExport } from './mermaidExportUtils';
+import { uploadImageAsset } from '@/services/assetService';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PICTURE_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+
+const PAGE_CONTENT_WIDTH_TWIPS = 9360; // Letter with 1" margins
+const MAX_IMAGE_WIDTH_PX = 624; // Same 6.5" at 96 dpi
+const EMU_PER_PX = 9525;
+
+// Styles written by the export, plus the common names Word, Google Docs and pandoc use for the same things
+const IMPORT_STYLE_MAP = [
+    "p[style-name='Title'] => h1:fresh",
+    "p[style-name='Subtitle'] => h2:fresh",
+    "p[style-name='Quote'] => blockquote > p:fresh",
+    "p[style-name='Intense Quote'] => blockquote > p:fresh",
+    "p[style-name='Source Code'] => pre:separator('\\n')",
+    "p[style-name='Code'] => pre:separator('\\n')",
+    "p[style-name='HTML Preformatted'] => pre:separator('\\n')",
+    "r[style-name='Inline Code'] => code",
+    "r[style-name='Verbatim Char'] => code",
+    "r[style-name='HTML Code'] => code",
+    'u => u',
+];
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const childElements = (parent: Element, localName: string): Element[] =>
+    Array.from(parent.children).filter((child) => child.namespaceURI === WORD_NS && child.localName === localName);
+
+/**
+ * Background color of every table cell mammoth outputs, in document order.
+ * Vertically merged continuation cells are skipped the same way mammoth folds
+ * them into a rowspan, so the list lines up with the td/th elements it produces.
+ */
+const readCellShading = async (arrayBuffer: ArrayBuffer): Promise<Array<string | null>> => {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) return [];
+
+    const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+    const continued = new Set<Element>();
+    Array.from(xml.getElementsByTagNameNS(WORD_NS, 'tbl')).forEach((table) => {
+        const startedColumns = new Set<number>();
+        childElements(table, 'tr').forEach((row) => {
+            let column = 0;
+            childElements(row, 'tc').forEach((cell) => {
+                const properties = childElements(cell, 'tcPr')[0];
+                const vMerge = properties ? childElements(properties, 'vMerge')[0] : undefined;
+                const gridSpan = properties ? childElements(properties, 'gridSpan')[0] : undefined;
+                const mergeValue = vMerge?.getAttribute('w:val');
+
+                if (vMerge && (!mergeValue || mergeValue === 'continue') && startedColumns.has(column)) {
+                    continued.add(cell);
+                } else {
+                    startedColumns.add(column);
+                }
+                column += parseInt(gridSpan?.getAttribute('w:val') || '1', 10) || 1;
+            });
+        });
+    });
+
+    return Array.from(xml.getElementsByTagNameNS(WORD_NS, 'tc'))
+        .filter((cell) => !continued.has(cell))
+        .map((cell) => {
+            const properties = childElements(cell, 'tcPr')[0];
+            const shading = properties ? childElements(properties, 'shd')[0] : undefined;
+            const fill = shading?.getAttribute('w:fill') || '';
+            return /^[0-9a-f]{6}$/i.test(fill) ? `#${fill.toLowerCase()}` : null;
+        });
+};
+
+/**
+ * Convert a Word document to editor HTML. Images are uploaded to the asset
+ * store; if the upload fails they are kept inline as data URIs.
+ */
+export async function convertDocxToHtml(file: File): Promise<string> {
+    const { default: mammoth } = await import('mammoth');
+    const arrayBuffer = await file.arrayBuffer();
+
+    const convertImage = mammoth.images.imgElement(async (image) => {
+        try {
+            const extension = image.contentType.split('/')[1] || 'png';
+            const buffer = await image.readAsArrayBuffer();
+            const asset = await uploadImageAsset(new File([buffer], `imported-image.${extension}`, { type: image.contentType }));
+            const attributes = { src: asset.url, 'data-asset-id': asset.assetId };
+            return attributes;
+        } catch (error) {
+            console.warn('⚠️ Keeping imported image inline, upload failed:', error);
+            return { src: `data:${image.contentType};base64,${await image.readAsBase64String()}` };
+        }
+    });
+
+    const [result, cellShading] = await Promise.all([
+        mammoth.convertToHtml({ arrayBuffer }, { styleMap: IMPORT_STYLE_MAP, convertImage }),
+        readCellShading(arrayBuffer).catch((error) => {
+            console.warn('⚠️ Could not read table cell colors from DOCX:', error);
+            return [] as Array<string | null>;
+        }),
+    ]);
+    result.messages.forEach((message) => console.warn(`⚠️ DOCX import: ${message.message}`));
+
+    const doc = new DOMParser().parseFromString(result.value, 'text/html');
+
+    const cells = Array.from(doc.querySelectorAll<HTMLTableCellElement>('td, th'));
+    if (cells.length === cellShading.length) {
+        cells.forEach((cell, index) => {
+            const color = cellShading[index];
+            if (color) cell.style.backgroundColor = color;
+        });
+    }
+
+    // Code blocks arrive as bare <pre> text; blank lines were exported as a single space
+    doc.querySelectorAll('pre').forEach((pre) => {
+        const code = doc.createElement('code');
+        code.textContent = (pre.textContent || '').replace(/^ $/gm, '');
+        pre.replaceChildren(code);
+    });
+
+    return doc.body.innerHTML;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+interface RunFormat {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    link?: boolean;
+    superscript?: boolean;
+    subscript?: boolean;
+    color?: string;
+    highlight?: string;
+}
+
+interface ParagraphFormat {
+    style?: string;
+    align?: string;
+    list?: { numId: number; level: number };
+    indentLevel?: number; // Later paragraphs of a list item, indented under its bullet
+    marker?: string; // Task list checkbox
+}
+
+interface WordImage {
+    data: Blob;
+    extension: string;
+    width: number;
+    height: number;
+}
+
+interface ExportContext {
+    relationships: string[];
+    media: Array<{ path: string; data: Blob }>;
+    lists: Array<{ ordered: boolean; level: number; start: number }>;
+    nextId: number; // Shared by relationship and drawing ids
+    listDepth: number;
+}
+
+const INLINE_TAGS = new Set([
+    'a', 'abbr', 'b', 'br', 'code', 'del', 'em', 'i', 'img', 'input', 'kbd', 'label',
+    'mark', 's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'u',
+]);
+
+const WORD_IMAGE_TYPES: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpeg',
+    'image/gif': 'gif',
+};
+
+const ALIGNMENTS: Record<string, string> = {
+    left: 'left',
+    center: 'center',
+    right: 'right',
+    justify: 'both',
+};
+
+// XML 1.0 allows no control characters other than tab and line breaks
+const isXmlCharacter = (char: string) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) => Array.from(value).filter(isXmlCharacter).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * CSS hex or rgb() color as the RRGGBB form Word uses
+ */
+const toHexColor = (value: string | null | undefined): string | null => {
+    const color = (value || '').trim().toLowerCase();
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map((digit) => digit + digit).join('') : hex[1];
+        return digits.toUpperCase();
+    }
+    const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)$/);
+    if (!rgb || rgb[4] === '0') return null;
+    return [rgb[1], rgb[2], rgb[3]]
+        .map((channel) => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+};
+
+const addRelationship = (ctx: ExportContext, type: string, target: string, external = false): string => {
+    const id = `rId${ctx.nextId++}`;
+    ctx.relationships.push(
+        `<Relationship Id="${id}" Type="${RELATIONSHIP_NS}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`
+    );
+    return id;
+};
+
+const runProperties = (format: RunFormat): string => {
+    // Order follows the CT_RPr sequence
+    const properties = [
+        format.link ? '<w:rStyle w:val="Hyperlink"/>' : format.code ? '<w:rStyle w:val="InlineCode"/>' : '',
+        format.bold ? '<w:b/>' : '',
+        format.italic ? '<w:i/>' : '',
+        format.strike ? '<w:strike/>' : '',
+        format.color ? `<w:color w:val="${format.color}"/>` : '',
+        format.underline ? '<w:u w:val="single"/>' : '',
+        format.highlight ? `<w:shd w:val="clear" w:color="auto" w:fill="${format.highlight}"/>` : '',
+        format.superscript ? '<w:vertAlign w:val="superscript"/>' : format.subscript ? '<w:vertAlign w:val="subscript"/>' : '',
+    ].join('');
+    return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+};
+
+const textRun = (text: string, format: RunFormat): string => {
+    const content = text
+        .split('\t')
+        .map((part) => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ''))
+        .join('<w:tab/>');
+    return `<w:r>${runProperties(format)}${content}</w:r>`;
+};
+
+const paragraphXml = (runs: string, paragraph: ParagraphFormat): string => {
+    // Order follows the CT_PPr sequence
+    const properties = [
+        paragraph.style ? `<w:pStyle w:val="${paragraph.style}"/>` : '',
+        paragraph.list ? `<w:numPr><w:ilvl w:val="${paragraph.list.level}"/><w:numId w:val="${paragraph.list.numId}"/></w:numPr>` : '',
+        paragraph.indentLevel !== undefined ? `<w:ind w:left="${(paragraph.indentLevel + 1) * 720}"/>` : '',
+        paragraph.align ? `<w:jc w:val="${paragraph.align}"/>` : '',
+    ].join('');
+    const marker = paragraph.marker ? textRun(paragraph.marker, {}) : '';
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${marker}${runs}</w:p>`;
+};
+
+const loadImageElement = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+});
+
+const rasterize = (image: HTMLImageElement, width: number, height: number, scale = 1) => new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Image could not be converted to PNG'))), 'image/png');
+});
+
+// Word only reliably displays PNG, JPEG and GIF; anything else is converted to PNG
+const toWordImage = async (blob: Blob): Promise<WordImage> => {
+    const url = URL.createObjectURL(blob);
+    try {
+        const image = await loadImageElement(url);
+        const width = image.naturalWidth || 300;
+        const height = image.naturalHeight || 150;
+        const extension = WORD_IMAGE_TYPES[blob.type];
+        if (extension) {
+            return { data: blob, extension, width, height };
+        }
+        return { data: await rasterize(image, width, height), extension: 'png', width, height };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const diagramImage = async (svg: SVGSVGElement): Promise<WordImage> => {
+    const viewBox = (svg.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+    const width = Math.ceil(viewBox[2] || parseFloat(svg.getAttribute('width') || '') || 600);
+    const height = Math.ceil(viewBox[3] || parseFloat(svg.getAttribute('height') || '') || 400);
+
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.style.removeProperty('max-width');
+    const source = new XMLSerializer().serializeToString(clone);
+
+    const image = await loadImageElement(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`);
+    // Rendered at twice the size so diagrams stay sharp when zoomed
+    return { data: await rasterize(image, width, height, 2), extension: 'png', width, height };
+};
+
+const drawingRun = (ctx: ExportContext, image: WordImage, displayWidth: number, description: string): string => {
+    const width = Math.min(displayWidth, MAX_IMAGE_WIDTH_PX);
+    const cx = Math.round(width * EMU_PER_PX);
+    const cy = Math.round(((width * image.height) / image.width) * EMU_PER_PX);
+    const id = ctx.nextId++;
+    const fileName = `image${id}.${image.extension}`;
+    ctx.media.push({ path: `word/media/${fileName}`, data: image.data });
+    const relationshipId = addRelationship(ctx, 'image', `media/${fileName}`);
+
+    return '<w:r><w:drawing>'
+        + '<wp:inline distT="0" distB="0" distL="0" distR="0">'
+        + `<wp:extent cx="${cx}" cy="${cy}"/>`
+        + `<wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(description)}"/>`
+        + '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>'
+        + `<a:graphic><a:graphicData uri="${PICTURE_NS}"><pic:pic>`
+        + `<pic:nvPicPr><pic:cNvPr id="${id}" name="${fileName}"/><pic:cNvPicPr/></pic:nvPicPr>`
+        + `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+        + '</pic:pic></a:graphicData></a:graphic>'
+        + '</wp:inline></w:drawing></w:r>';
+};
+
+const imageRun = async (image: HTMLImageElement, ctx: ExportContext): Promise<string> => {
+    const alt = image.getAttribute('alt') || '';
+    try {
+        const response = await fetch(image.getAttribute('src') || '');
+        if (!response.ok) {
+            throw new Error(`Image request failed with ${response.status}`);
+        }
+        const picture = await toWordImage(await response.blob());
+        const width = parseInt(image.getAttribute('width') || '', 10) || picture.width;
+        return drawingRun(ctx, picture, width, alt);
+    } catch (error) {
+        console.warn('⚠️ Could not embed image in DOCX export:', error);
+        return textRun(alt ? `[Image: ${alt}]` : '[Image]', { italic: true });
+    }
+};
+
+const inlineRuns = async (nodes: Node[], format: RunFormat, ctx: ExportContext): Promise<string> => {
+    const runs = await Promise.all(nodes.map(async (node): Promise<string> => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            const text = (node.textContent || '').replace(/\s+/g, ' ');
+            return text ? textRun(text, format) : '';
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+        const element = node as HTMLElement;
+        const tag = element.tagName.toLowerCase();
+        if (tag === 'br') return '<w:r><w:br/></w:r>';
+        if (tag === 'img') return imageRun(element as HTMLImageElement, ctx);
+        if (tag === 'input') return '';
+
+        const next: RunFormat = { ...format };
+        if (tag === 'strong' || tag === 'b') next.bold = true;
+        if (tag === 'em' || tag === 'i') next.italic = true;
+        if (tag === 'u') next.underline = true;
+        if (tag === 's' || tag === 'strike' || tag === 'del') next.strike = true;
+        if (tag === 'code' || tag === 'kbd') next.code = true;
+        if (tag === 'sup') next.superscript = true;
+        if (tag === 'sub') next.subscript = true;
+        if (tag === 'mark') next.highlight = toHexColor(element.style.backgroundColor || element.getAttribute('data-color')) || 'FEF08A';
+        const color = toHexColor(element.style.color);
+        if (color) next.color = color;
+
+        const href = tag === 'a' ? element.getAttribute('href') || '' : '';
+        const linked = /^(https?:|mailto:)/i.test(href);
+        if (linked) next.link = true;
+
+        const runs = await inlineRuns(Array.from(element.childNodes), next, ctx);
+        if (!linked || !runs) return runs;
+        return `<w:hyperlink r:id="${addRelationship(ctx, 'hyperlink', href, true)}" w:history="1">${runs}</w:hyperlink>`;
+    }));
+    return runs.join('');
+};
+
+const codeXml = (pre: HTMLElement, paragraph: ParagraphFormat): string => {
+    const lines = (pre.textContent || '').replace(/\n$/, '').split('\n');
+    const format: ParagraphFormat = { style: 'SourceCode', indentLevel: paragraph.list?.level ?? paragraph.indentLevel };
+    // One paragraph per line; mammoth drops empty paragraphs, so blank lines keep a space
+    return lines.map((line) => paragraphXml(textRun(line || ' ', {}), format)).join('');
+};
+
+const listXml = async (list: HTMLElement, ctx: ExportContext, format: RunFormat): Promise<string> => {
+    const ordered = list.tagName === 'OL';
+    const level = Math.min(ctx.listDepth, 8);
+    ctx.lists.push({ ordered, level, start: parseInt(list.getAttribute('start') || '1', 10) || 1 });
+    const numId = ctx.lists.length;
+    const taskList = list.getAttribute('data-type') === 'taskList';
+
+    ctx.listDepth++;
+    try {
+        const items: string[] = [];
+        for (const item of Array.from(list.children)) {
+            if (item.tagName !== 'LI') continue;
+            const marker = taskList ? (item.getAttribute('data-checked') === 'true' ? '☑ ' : '☐ ') : undefined;
+            items.push(await blocksFor(item, ctx, { list: { numId, level }, marker }, format));
+        }
+        return items.join('');
+    } finally {
+        ctx.listDepth--;
+    }
+};
+
+const tableXml = async (table: HTMLTableElement, ctx: ExportContext): Promise<string> => {
+    const rows = Array.from(table.rows).filter((row) => row.closest('table') === table);
+
+    // Lay cells out on the grid; rowspans become vMerge continuation cells in the rows below
+    type Slot = { cell?: HTMLTableCellElement; colSpan: number; merge?: 'restart' | 'continue' };
+    const pending: Array<{ rows: number; colSpan: number } | undefined> = [];
+    const layout: Slot[][] = rows.map((row) => {
+        const slots: Slot[] = [];
+        let column = 0;
+        const fillMerged = () => {
+            let merged = pending[column];
+            while (merged && merged.rows > 0) {
+                merged.rows--;
+                slots.push({ colSpan: merged.colSpan, merge: 'continue' });
+                column += merged.colSpan;
+                merged = pending[column];
+            }
+        };
+
+        Array.from(row.cells).forEach((cell) => {
+            fillMerged();
+            const colSpan = Math.max(1, cell.colSpan || 1);
+            const rowSpan = Math.max(1, cell.rowSpan || 1);
+            slots.push({ cell, colSpan, merge: rowSpan > 1 ? 'restart' : undefined });
+            pending[column] = rowSpan > 1 ? { rows: rowSpan - 1, colSpan } : undefined;
+            column += colSpan;
+        });
+        fillMerged();
+        return slots;
+    });
+
+    const columnCount = Math.max(1, ...layout.map((slots) => slots.reduce((sum, slot) => sum + slot.colSpan, 0)));
+    const columnWidth = Math.floor(PAGE_CONTENT_WIDTH_TWIPS / columnCount);
+
+    // Lists inside cells start over at the first level
+    const listDepth = ctx.listDepth;
+    ctx.listDepth = 0;
+    try {
+        const rowXml: string[] = [];
+        let headerRows = 0;
+        for (const slots of layout) {
+            const cells = slots.filter((slot) => slot.cell);
+            // Leading rows of header cells repeat on each page and are bolded by the table style
+            const headerRow = rowXml.length === headerRows && cells.length > 0 && cells.every((slot) => slot.cell!.tagName === 'TH');
+            if (headerRow) headerRows++;
+            const cellXml: string[] = [];
+            for (const slot of slots) {
+                const fill = slot.cell ? toHexColor(slot.cell.style.backgroundColor) : null;
+                const properties = [
+                    `<w:tcW w:w="${columnWidth * slot.colSpan}" w:type="dxa"/>`,
+                    slot.colSpan > 1 ? `<w:gridSpan w:val="${slot.colSpan}"/>` : '',
+                    slot.merge === 'restart' ? '<w:vMerge w:val="restart"/>' : slot.merge === 'continue' ? '<w:vMerge/>' : '',
+                    fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : '',
+                ].join('');
+                let content = slot.cell ? await blocksFor(slot.cell, ctx, {}, {}) : '';
+                // A cell must end with a paragraph
+                if (!content.endsWith('</w:p>')) content += '<w:p/>';
+                cellXml.push(`<w:tc><w:tcPr>${properties}</w:tcPr>${content}</w:tc>`);
+            }
+            rowXml.push(`<w:tr>${headerRow ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cellXml.join('')}</w:tr>`);
+        }
+
+        return '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/>'
+            + `<w:tblW w:w="${columnWidth * columnCount}" w:type="dxa"/>`
+            + `<w:tblLook w:val="${headerRows ? '04A0' : '0480'}" w:firstRow="${headerRows ? 1 : 0}" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/>`
+            + `</w:tblPr><w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columnCount)}</w:tblGrid>`
+            + `${rowXml.join('')}</w:tbl>`;
+    } finally {
+        ctx.listDepth = listDepth;
+    }
+};
+
+const blockFor = async (element: HTMLElement, ctx: ExportContext, paragraph: ParagraphFormat, format: RunFormat): Promise<string> => {
+    const tag = element.tagName.toLowerCase();
+    const align = ALIGNMENTS[element.style.textAlign];
+    const own = align ? { ...paragraph, align } : paragraph;
+
+    if (/^h[1-6]$/.test(tag)) {
+        return paragraphXml(await inlineRuns(Array.from(element.childNodes), format, ctx), { ...own, style: `Heading${tag[1]}` });
+    }
+
+    switch (tag) {
+        case 'p':
+            return paragraphXml(await inlineRuns(Array.from(element.childNodes), format, ctx), own);
+        case 'ul':
+        case 'ol':
+            return listXml(element, ctx, format);
+        case 'blockquote':
+            return blocksFor(element, ctx, { ...own, style: 'Quote' }, format);
+        case 'pre':
+            return codeXml(element, paragraph);
+        case 'table':
+            return tableXml(element as HTMLTableElement, ctx);
+        case 'hr':
+            return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr></w:pPr></w:p>';
+        case 'colgroup':
+        case 'script':
+        case 'style':
+            return '';
+    }
+
+    const svg = element.classList.contains('mermaid-diagram-export') ? element.querySelector('svg') : null;
+    if (svg) {
+        try {
+            const image = await diagramImage(svg);
+            return paragraphXml(drawingRun(ctx, image, image.width, 'Mermaid diagram'), { ...paragraph, align: 'center' });
+        } catch (error) {
+            console.warn('⚠️ Could not convert Mermaid diagram to an image, exporting its source:', error);
+            const source = document.createElement('pre');
+            source.textContent = element.getAttribute('data-chart') || '';
+            return codeXml(source, paragraph);
+        }
+    }
+
+    // Wrappers (code block wrappers, task item bodies, ...) contribute their children
+    return blocksFor(element, ctx, paragraph, format);
+};
+
+// Checkbox labels of task items and other empty inline elements don't make a paragraph
+const hasInlineContent = (node: Node): boolean => {
+    if ((node.textContent || '').trim()) return true;
+    if (node.nodeType !== Node.ELEMENT_NODE) return false;
+    const element = node as Element;
+    return ['BR', 'IMG'].includes(element.tagName) || !!element.querySelector('img');
+};
+
+const blocksFor = async (parent: Element, ctx: ExportContext, paragraph: ParagraphFormat, format: RunFormat): Promise<string> => {
+    const blocks: string[] = [];
+    let inline: Node[] = [];
+    let current = paragraph;
+
+    // Only the first paragraph of a list item carries its bullet
+    const take = (): ParagraphFormat => {
+        const taken = current;
+        if (current.list) {
+            current = { style: current.style, indentLevel: current.list.level };
+        }
+        return taken;
+    };
+
+    const flush = async () => {
+        const nodes = inline;
+        inline = [];
+        if (nodes.some(hasInlineContent)) {
+            blocks.push(paragraphXml(await inlineRuns(nodes, format, ctx), take()));
+        }
+    };
+
+    for (const child of Array.from(parent.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE || (child.nodeType === Node.ELEMENT_NODE && INLINE_TAGS.has(child.nodeName.toLowerCase()))) {
+            inline.push(child);
+            continue;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) continue;
+
+        await flush();
+        const tag = child.nodeName.toLowerCase();
+        blocks.push(await blockFor(child as HTMLElement, ctx, tag === 'ul' || tag === 'ol' ? current : take(), format));
+    }
+    await flush();
+
+    return blocks.join('');
+};
+
+const stylesXml = (): string => {
+    const headingSizes = [40, 32, 28, 24, 22, 22];
+    const headings = headingSizes.map((size, index) => `<w:style w:type="paragraph" w:styleId="Heading${index + 1}">`
+        + `<w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>`
+        + `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${index < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>`
+        + `<w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + `<w:styles xmlns:w="${WORD_NS}">`
+        + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>'
+        + '<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>'
+        + '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+        + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+        + headings
+        + '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>'
+        + '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/></w:pPr>'
+        + '<w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>'
+        + '<w:style w:type="paragraph" w:styleId="SourceCode"><w:name w:val="Source Code"/><w:basedOn w:val="Normal"/>'
+        + '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>'
+        + '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>'
+        + '<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/>'
+        + '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:rPr></w:style>'
+        + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>'
+        + '<w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>'
+        + '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/>'
+        + '<w:pPr><w:spacing w:after="0"/></w:pPr><w:tblPr><w:tblBorders>'
+        + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`).join('')
+        + '</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr>'
+        + '<w:tblStylePr w:type="firstRow"><w:rPr><w:b/></w:rPr></w:tblStylePr></w:style>'
+        + '</w:styles>';
+};
+
+const numberingXml = (lists: ExportContext['lists']): string => {
+    const bullets = ['•', '◦', '▪'];
+    const orderedFormats = ['decimal', 'lowerLetter', 'lowerRoman'];
+    const abstractNum = (abstractId: number, ordered: boolean) => `<w:abstractNum w:abstractNumId="${abstractId}"><w:multiLevelType w:val="hybridMultilevel"/>`
+        + Array.from({ length: 9 }, (_, level) => `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>`
+            + `<w:numFmt w:val="${ordered ? orderedFormats[level % 3] : 'bullet'}"/>`
+            + `<w:lvlText w:val="${ordered ? `%${level + 1}.` : bullets[level % 3]}"/><w:lvlJc w:val="left"/>`
+            + `<w:pPr><w:ind w:left="${(level + 1) * 720}" w:hanging="360"/></w:pPr></w:lvl>`).join('')
+        + '</w:abstractNum>';
+
+    // Every list gets its own num so ordered lists restart their numbering
+    const nums = lists.map((list, index) => `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>`
+        + (list.ordered ? `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride>` : '')
+        + '</w:num>').join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + `<w:numbering xmlns:w="${WORD_NS}">${abstractNum(0, false)}${abstractNum(1, true)}${nums}</w:numbering>`;
+};
+
+/**
+ * Convert editor HTML to a .docx file
+ */
+export async function convertHtmlToDocx(html: string, title: string): Promise<Blob> {
+    const rendered = await processMermaidForExport(html);
+    const doc = new DOMParser().parseFromString(rendered, 'text/html');
+
+    const ctx: ExportContext = { relationships: [], media: [], lists: [], nextId: 10, listDepth: 0 };
+    const body = (await blocksFor(doc.body, ctx, {}, {})) || '<w:p/>';
+
+    const documentXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + `<w:document xmlns:w="${WORD_NS}" xmlns:r="${RELATIONSHIP_NS}"`
+        + ' xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"'
+        + ` xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="${PICTURE_NS}">`
+        + `<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>`
+        + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>'
+        + '</w:sectPr></w:body></w:document>';
+
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + Object.entries(WORD_IMAGE_TYPES).map(([type, extension]) => `<Default Extension="${extension}" ContentType="${type}"/>`).join('')
+        + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+        + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+        + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+        + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+        + '</Types>');
+    zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="word/document.xml"/>`
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+        + '</Relationships>');
+    zip.file('docProps/core.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+        + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+        + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+        + `<dc:title>${escapeXml(title)}</dc:title>`
+        + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>`
+        + '</cp:coreProperties>');
+    zip.file('word/document.xml', documentXml);
+    zip.file('word/styles.xml', stylesXml());
+    zip.file('word/numbering.xml', numberingXml(ctx.lists));
+    zip.file('word/_rels/document.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>`
+        + `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/numbering" Target="numbering.xml"/>`
+        + ctx.relationships.join('')
+        + '</Relationships>');
+    ctx.media.forEach((media) => zip.file(media.path, media.data));
+
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+}
@@ -0,0 +1,572 @@
+/**
+ * HTML Diff - Block-aware comparison of two document snapshots
+ * Top-level blocks (paragraphs, headings, lists, tables, code blocks) are matched
+ * first; modified blocks are then diffed at word, list item, table cell or code
+ * line level. Consecutive changes are grouped into hunks that can be restored
+ * individually. The same block matching drives the three-way merge used when a
+ * save conflicts with someone else's.
+ */
+
+export type DiffOp = 'equal' | 'added' | 'removed' | 'modified';
+
+export type DiffSide = 'inline' | 'before' | 'after';
+
+export interface DiffBlock {
+    tag: string;
+    html: string;
+    text: string;
+    element: Element | null;
+}
+
+export interface DiffEntry {
+    op: DiffOp;
+    before?: DiffBlock;
+    after?: DiffBlock;
+    hunkId?: number;
+}
+
+export interface DiffHunk {
+    id: number;
+    entries: DiffEntry[];
+    added: number;
+    removed: number;
+    modified: number;
+}
+
+export interface HtmlDiffResult {
+    entries: DiffEntry[];
+    hunks: DiffHunk[];
+    stats: {
+        added: number;
+        removed: number;
+        modified: number;
+    };
+}
+
+export type MergeResolution = 'equal' | 'mine' | 'theirs' | 'same' | 'conflict';
+
+export type MergeChoice = 'mine' | 'theirs' | 'both';
+
+export interface MergeChunk {
+    id: number;
+    resolution: MergeResolution;
+    base: DiffBlock[];
+    mine: DiffBlock[];
+    theirs: DiffBlock[];
+}
+
+export interface HtmlMergeResult {
+    chunks: MergeChunk[];
+    conflicts: MergeChunk[];
+    // Non-conflicting changes taken from either side
+    autoMerged: number;
+}
+
+interface SequenceEntry<T> {
+    op: DiffOp;
+    before?: T;
+    after?: T;
+}
+
+// Blocks below this similarity are shown as a removal plus an addition instead of a modification
+const MODIFIED_SIMILARITY_THRESHOLD = 0.35;
+
+// Keeps the LCS table bounded for very large documents; beyond this, the middle is treated as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+const normalizeWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[A-Za-z0-9_]+|[^\sA-Za-z0-9_]/g) || [];
+
+/**
+ * Longest-common-subsequence diff over any sequence. When `canPair` is given,
+ * removed and added items between two matches are paired into modifications.
+ */
+function diffSequence<T>(
+    before: T[],
+    after: T[],
+    key: (item: T) => string,
+    canPair?: (a: T, b: T) => boolean
+): SequenceEntry<T>[] {
+    const beforeKeys = before.map(key);
+    const afterKeys = after.map(key);
+
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && beforeKeys[prefix] === afterKeys[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix &&
+        suffix < after.length - prefix &&
+        beforeKeys[before.length - 1 - suffix] === afterKeys[after.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const entries: SequenceEntry<T>[] = [];
+    for (let i = 0; i < prefix; i++) {
+        entries.push({ op: 'equal', before: before[i], after: after[i] });
+    }
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const aKeys = beforeKeys.slice(prefix, before.length - suffix);
+    const bKeys = afterKeys.slice(prefix, after.length - suffix);
+    const middle: SequenceEntry<T>[] = [];
+
+    if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+        a.forEach((item) => middle.push({ op: 'removed', before: item }));
+        b.forEach((item) => middle.push({ op: 'added', after: item }));
+    } else {
+        const width = b.length + 1;
+        const table = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                table[i * width + j] = aKeys[i] === bKeys[j]
+                    ? table[(i + 1) * width + j + 1] + 1
+                    : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && aKeys[i] === bKeys[j]) {
+                middle.push({ op: 'equal', before: a[i++], after: b[j++] });
+            } else if (i < a.length && (j >= b.length || table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+                // Removals come first so a replacement reads old → new
+                middle.push({ op: 'removed', before: a[i++] });
+            } else {
+                middle.push({ op: 'added', after: b[j++] });
+            }
+        }
+    }
+
+    entries.push(...(canPair ? pairModifications(middle, canPair) : middle));
+
+    for (let i = before.length - suffix; i < before.length; i++) {
+        entries.push({ op: 'equal', before: before[i], after: after[i - before.length + after.length] });
+    }
+    return entries;
+}
+
+// Pairs removed and added items within each run of changes, keeping document order
+function pairModifications<T>(entries: SequenceEntry<T>[], canPair: (a: T, b: T) => boolean): SequenceEntry<T>[] {
+    const result: SequenceEntry<T>[] = [];
+    let index = 0;
+
+    while (index < entries.length) {
+        if (entries[index].op === 'equal') {
+            result.push(entries[index++]);
+            continue;
+        }
+
+        const removed: T[] = [];
+        const added: T[] = [];
+        while (index < entries.length && entries[index].op !== 'equal') {
+            const entry = entries[index++];
+            if (entry.op === 'removed') removed.push(entry.before as T);
+            else added.push(entry.after as T);
+        }
+
+        // Greedy, monotonic pairing so the output order stays consistent on both sides
+        const pairOf = new Map<number, number>();
+        let nextAdded = 0;
+        removed.forEach((item, r) => {
+            for (let k = nextAdded; k < added.length; k++) {
+                if (canPair(item, added[k])) {
+                    pairOf.set(r, k);
+                    nextAdded = k + 1;
+                    return;
+                }
+            }
+        });
+        const pairedAdded = new Set(pairOf.values());
+
+        let r = 0;
+        let k = 0;
+        while (r < removed.length || k < added.length) {
+            if (r < removed.length && pairOf.get(r) === k) {
+                result.push({ op: 'modified', before: removed[r++], after: added[k++] });
+            } else if (r < removed.length && !pairOf.has(r)) {
+                result.push({ op: 'removed', before: removed[r++] });
+            } else if (k < added.length && !pairedAdded.has(k)) {
+                result.push({ op: 'added', after: added[k++] });
+            } else {
+                // Not reachable with monotonic pairs; keeps the loop finite regardless
+                if (r < removed.length) result.push({ op: 'removed', before: removed[r++] });
+                else result.push({ op: 'added', after: added[k++] });
+            }
+        }
+    }
+
+    return result;
+}
+
+const similarity = (a: string, b: string): number => {
+    if (!a && !b) return 1;
+    const aWords = tokenizeWords(a).filter((token) => token.trim());
+    const bWords = tokenizeWords(b).filter((token) => token.trim());
+    if (aWords.length === 0 || bWords.length === 0) return 0;
+
+    const counts = new Map<string, number>();
+    aWords.forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+    let shared = 0;
+    bWords.forEach((word) => {
+        const count = counts.get(word) || 0;
+        if (count > 0) {
+            shared++;
+            counts.set(word, count - 1);
+        }
+    });
+    return (2 * shared) / (aWords.length + bWords.length);
+};
+
+const toBlock = (node: Node): DiffBlock | null => {
+    if (node.nodeType === Node.TEXT_NODE) {
+        const text = normalizeWhitespace(node.textContent || '');
+        return text ? { tag: 'p', html: `<p>${escapeHtml(text)}</p>`, text, element: null } : null;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    return {
+        tag: element.tagName.toLowerCase(),
+        html: element.outerHTML,
+        text: normalizeWhitespace(element.textContent || ''),
+        element
+    };
+};
+
+/**
+ * Split an HTML document into its top-level blocks
+ */
+export function parseBlocks(html: string): DiffBlock[] {
+    if (!html) return [];
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    return Array.from(doc.body.childNodes)
+        .map(toBlock)
+        .filter((block): block is DiffBlock => block !== null);
+}
+
+const blockKey = (block: DiffBlock) => normalizeWhitespace(block.html);
+
+const canPairBlocks = (a: DiffBlock, b: DiffBlock) => {
+    if (a.tag !== b.tag) return false;
+    // Structural blocks are always compared in place so their rows, items or lines get highlighted
+    if (['table', 'ul', 'ol', 'pre'].includes(a.tag)) return true;
+    return similarity(a.text, b.text) >= MODIFIED_SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Compare two HTML documents block by block
+ */
+export function diffHtml(beforeHtml: string, afterHtml: string): HtmlDiffResult {
+    const entries: DiffEntry[] = diffSequence(parseBlocks(beforeHtml), parseBlocks(afterHtml), blockKey, canPairBlocks);
+    const hunks: DiffHunk[] = [];
+    const stats = { added: 0, removed: 0, modified: 0 };
+
+    let current: DiffHunk | null = null;
+    for (const entry of entries) {
+        if (entry.op === 'equal') {
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = { id: hunks.length, entries: [], added: 0, removed: 0, modified: 0 };
+            hunks.push(current);
+        }
+        entry.hunkId = current.id;
+        current.entries.push(entry);
+        current[entry.op]++;
+        stats[entry.op]++;
+    }
+
+    return { entries, hunks, stats };
+}
+
+/**
+ * Rebuild the "after" document with the selected hunks reverted to the "before" side
+ */
+export function restoreHunks(result: HtmlDiffResult, hunkIds: Iterable<number>): string {
+    const selected = new Set(hunkIds);
+    return result.entries
+        .map((entry) => {
+            const block = entry.hunkId !== undefined && selected.has(entry.hunkId) ? entry.before : entry.after;
+            return block?.html || '';
+        })
+        .join('');
+}
+
+// ----- Three-way merge -----
+
+interface IndexedBlock {
+    index: number;
+    block: DiffBlock;
+}
+
+const indexBlocks = (blocks: DiffBlock[]): IndexedBlock[] => blocks.map((block, index) => ({ index, block }));
+
+// Base block index → index of the identical block on the other side
+const matchBlocks = (base: DiffBlock[], other: DiffBlock[]): Map<number, number> => {
+    const matches = new Map<number, number>();
+    diffSequence(indexBlocks(base), indexBlocks(other), (item) => blockKey(item.block)).forEach((entry) => {
+        if (entry.op === 'equal' && entry.before && entry.after) {
+            matches.set(entry.before.index, entry.after.index);
+        }
+    });
+    return matches;
+};
+
+const sameBlocks = (a: DiffBlock[], b: DiffBlock[]) =>
+    a.length === b.length && a.every((block, index) => blockKey(block) === blockKey(b[index]));
+
+/**
+ * Merge two edits of the same base document (diff3 over top-level blocks).
+ * Blocks unchanged on both sides anchor the merge; between anchors a change
+ * made on only one side is taken automatically and changes on both sides
+ * become conflicts.
+ */
+export function mergeHtml(baseHtml: string, mineHtml: string, theirsHtml: string): HtmlMergeResult {
+    const base = parseBlocks(baseHtml);
+    const mine = parseBlocks(mineHtml);
+    const theirs = parseBlocks(theirsHtml);
+    const mineMatches = matchBlocks(base, mine);
+    const theirsMatches = matchBlocks(base, theirs);
+
+    const chunks: MergeChunk[] = [];
+    const pushChunk = (resolution: MergeResolution, b: DiffBlock[], m: DiffBlock[], t: DiffBlock[]) => {
+        chunks.push({ id: chunks.length, resolution, base: b, mine: m, theirs: t });
+    };
+
+    let b = 0;
+    let m = 0;
+    let t = 0;
+    while (true) {
+        // Next base block kept, in order, by both sides
+        let anchor = b;
+        while (
+            anchor < base.length &&
+            !((mineMatches.get(anchor) ?? -1) >= m && (theirsMatches.get(anchor) ?? -1) >= t)
+        ) {
+            anchor++;
+        }
+        const mineEnd = anchor < base.length ? (mineMatches.get(anchor) as number) : mine.length;
+        const theirsEnd = anchor < base.length ? (theirsMatches.get(anchor) as number) : theirs.length;
+
+        const baseSlice = base.slice(b, anchor);
+        const mineSlice = mine.slice(m, mineEnd);
+        const theirsSlice = theirs.slice(t, theirsEnd);
+        if (baseSlice.length || mineSlice.length || theirsSlice.length) {
+            const mineChanged = !sameBlocks(baseSlice, mineSlice);
+            const theirsChanged = !sameBlocks(baseSlice, theirsSlice);
+            const resolution: MergeResolution = !mineChanged
+                ? 'theirs'
+                : !theirsChanged
+                    ? 'mine'
+                    : sameBlocks(mineSlice, theirsSlice) ? 'same' : 'conflict';
+            pushChunk(resolution, baseSlice, mineSlice, theirsSlice);
+        }
+
+        if (anchor >= base.length) break;
+        pushChunk('equal', [base[anchor]], [mine[mineEnd]], [theirs[theirsEnd]]);
+        b = anchor + 1;
+        m = mineEnd + 1;
+        t = theirsEnd + 1;
+    }
+
+    return {
+        chunks,
+        conflicts: chunks.filter((chunk) => chunk.resolution === 'conflict'),
+        autoMerged: chunks.filter((chunk) => chunk.resolution === 'mine' || chunk.resolution === 'theirs').length
+    };
+}
+
+/**
+ * Build the merged document, resolving each conflict with the chosen side (mine by default)
+ */
+export function resolveMerge(result: HtmlMergeResult, choices: Map<number, MergeChoice>): string {
+    return result.chunks
+        .map((chunk) => {
+            let blocks: DiffBlock[];
+            switch (chunk.resolution) {
+                case 'theirs':
+                    blocks = chunk.theirs;
+                    break;
+                case 'conflict': {
+                    const choice = choices.get(chunk.id) || 'mine';
+                    blocks = choice === 'both'
+                        ? [...chunk.mine, ...chunk.theirs]
+                        : choice === 'theirs' ? chunk.theirs : chunk.mine;
+                    break;
+                }
+                default:
+                    blocks = chunk.mine;
+            }
+            return blocks.map((block) => block.html).join('');
+        })
+        .join('');
+}
+
+// ----- Rendering -----
+
+const withClass = (element: Element, className: string, innerHtml?: string): string => {
+    const shell = element.cloneNode(innerHtml === undefined) as Element;
+    if (innerHtml !== undefined) shell.innerHTML = innerHtml;
+    shell.classList.add(className);
+    return shell.outerHTML;
+};
+
+const wrapBlock = (block: DiffBlock, className: string, innerHtml?: string): string => {
+    if (!block.element) {
+        return `<p class="${className}">${innerHtml ?? escapeHtml(block.text)}</p>`;
+    }
+    return withClass(block.element, className, innerHtml);
+};
+
+const renderWordDiff = (before: string, after: string, side: DiffSide): string => {
+    // Consecutive tokens with the same op are merged into one run
+    const runs: { op: DiffOp; text: string }[] = [];
+    for (const entry of diffSequence(tokenizeWords(before), tokenizeWords(after), (token) => token)) {
+        if ((entry.op === 'removed' && side === 'after') || (entry.op === 'added' && side === 'before')) continue;
+        const text = (entry.op === 'removed' ? entry.before : entry.after) as string;
+        const last = runs[runs.length - 1];
+        if (last && last.op === entry.op) last.text += text;
+        else runs.push({ op: entry.op, text });
+    }
+
+    return runs
+        .map(({ op, text }) => {
+            if (op === 'removed') return `<del class="diff-del">${escapeHtml(text)}</del>`;
+            if (op === 'added') return `<ins class="diff-ins">${escapeHtml(text)}</ins>`;
+            return escapeHtml(text);
+        })
+        .join('');
+};
+
+const childElements = (element: Element | null, selector: string): Element[] =>
+    element ? Array.from(element.querySelectorAll(selector)).filter((child) => child.closest(element.tagName) === element) : [];
+
+const elementText = (element: Element) => normalizeWhitespace(element.textContent || '');
+
+const renderCellDiff = (before: Element, after: Element, side: DiffSide): string => {
+    const rowEntries = diffSequence(
+        Array.from(before.children),
+        Array.from(after.children),
+        (cell) => normalizeWhitespace(cell.outerHTML),
+        (a, b) => a.tagName === b.tagName
+    );
+    return rowEntries
+        .map((entry) => renderChild(entry, side, (a, b) => renderWordDiff(elementText(a), elementText(b), side), 'diff-cell'))
+        .join('');
+};
+
+function renderChild(
+    entry: SequenceEntry<Element>,
+    side: DiffSide,
+    renderModified: (before: Element, after: Element) => string,
+    prefix: string
+): string {
+    switch (entry.op) {
+        case 'equal':
+            return (entry.after as Element).outerHTML;
+        case 'added':
+            return side === 'before' ? '' : withClass(entry.after as Element, `${prefix}-added`);
+        case 'removed':
+            return side === 'after' ? '' : withClass(entry.before as Element, `${prefix}-removed`);
+        default: {
+            const base = (side === 'before' ? entry.before : entry.after) as Element;
+            return withClass(base, `${prefix}-modified`, renderModified(entry.before as Element, entry.after as Element));
+        }
+    }
+}
+
+const renderTableDiff = (before: DiffBlock, after: DiffBlock, side: DiffSide): string => {
+    const rows = diffSequence(
+        childElements(before.element, 'tr'),
+        childElements(after.element, 'tr'),
+        (row) => normalizeWhitespace(row.outerHTML),
+        (a, b) => a.children.length === b.children.length || similarity(elementText(a), elementText(b)) >= MODIFIED_SIMILARITY_THRESHOLD
+    );
+    const body = rows.map((entry) => renderChild(entry, side, (a, b) => renderCellDiff(a, b, side), 'diff-row')).join('');
+    const base = side === 'before' ? before : after;
+    return wrapBlock(base, 'diff-block-modified', `<tbody>${body}</tbody>`);
+};
+
+const renderListDiff = (before: DiffBlock, after: DiffBlock, side: DiffSide): string => {
+    const items = diffSequence(
+        Array.from(before.element?.children || []),
+        Array.from(after.element?.children || []),
+        (item) => normalizeWhitespace(item.outerHTML),
+        (a, b) => similarity(elementText(a), elementText(b)) >= MODIFIED_SIMILARITY_THRESHOLD
+    );
+    const body = items
+        .map((entry) => renderChild(entry, side, (a, b) => `<p>${renderWordDiff(elementText(a), elementText(b), side)}</p>`, 'diff-item'))
+        .join('');
+    const base = side === 'before' ? before : after;
+    return wrapBlock(base, 'diff-block-modified', body);
+};
+
+const renderCodeDiff = (before: DiffBlock, after: DiffBlock, side: DiffSide): string => {
+    const beforeLines = (before.element?.textContent || '').split('\n');
+    const afterLines = (after.element?.textContent || '').split('\n');
+    const lines = diffSequence(beforeLines, afterLines, (line) => line)
+        .map((entry) => {
+            if (entry.op === 'equal') return `<span class="diff-line">${escapeHtml(entry.after as string)}</span>`;
+            if (entry.op === 'removed') {
+                return side === 'after' ? null : `<span class="diff-line diff-line-removed">${escapeHtml(entry.before as string)}</span>`;
+            }
+            return side === 'before' ? null : `<span class="diff-line diff-line-added">${escapeHtml(entry.after as string)}</span>`;
+        })
+        .filter((line): line is string => line !== null)
+        .join('\n');
+
+    const base = side === 'before' ? before : after;
+    const code = base.element?.querySelector('code');
+    const codeHtml = code ? withClass(code, 'diff-code', lines) : `<code class="diff-code">${lines}</code>`;
+    return wrapBlock(base, 'diff-block-modified', codeHtml);
+};
+
+const renderModifiedBlock = (before: DiffBlock, after: DiffBlock, side: DiffSide): string => {
+    if (!before.element || !after.element) {
+        return wrapBlock(side === 'before' ? before : after, 'diff-block-modified', renderWordDiff(before.text, after.text, side));
+    }
+    switch (after.tag) {
+        case 'table':
+            return renderTableDiff(before, after, side);
+        case 'ul':
+        case 'ol':
+            return renderListDiff(before, after, side);
+        case 'pre':
+            return renderCodeDiff(before, after, side);
+        default:
+            // Headings, paragraphs, quotes and other leaf blocks get a word-level diff of their text
+            return wrapBlock(side === 'before' ? before : after, 'diff-block-modified', renderWordDiff(before.text, after.text, side));
+    }
+};
+
+/**
+ * Render one diff entry. `inline` shows both sides merged; `before` and `after`
+ * render a single column for the side-by-side view (empty string when the block
+ * does not exist on that side).
+ */
+export function renderDiffEntry(entry: DiffEntry, side: DiffSide): string {
+    switch (entry.op) {
+        case 'equal':
+            return (entry.after as DiffBlock).html;
+        case 'added':
+            return side === 'before' ? '' : wrapBlock(entry.after as DiffBlock, 'diff-block-added');
+        case 'removed':
+            return side === 'after' ? '' : wrapBlock(entry.before as DiffBlock, 'diff-block-removed');
+        default:
+            return renderModifiedBlock(entry.before as DiffBlock, entry.after as DiffBlock, side);
+    }
+}
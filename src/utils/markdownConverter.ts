@@ -0,0 +1,633 @@
+/**
+ * Markdown Converter - lossless Markdown import and export for editor content
+ *
+ * The dialect is GitHub Flavored Markdown plus attribute lists for what GFM
+ * cannot hold. An attribute list is `{key=value key="quoted value" flag}`:
+ *
+ *   Text color, highlight, size, font, underline  [text]{color=#dc2626 highlight=#fef08a size=18px font=Georgia underline}
+ *   Heading alignment and indent                  ## Title {align=center indent=1}
+ *   Paragraph alignment and indent                a last line of `{: align=right indent=2}`
+ *   Image width, border and asset id              ![alt](src "title"){width=320 border=false asset=a1b2}
+ *   Table cell background and column width        | text {bg=#fee2e2 width=120} |
+ *   Code block language                           ```typescript
+ *   Mermaid diagram, non-default theme            ```mermaid {theme=dark}
+ *   Code block in the mermaid language            ```mermaid {code}
+ *
+ * Empty paragraphs, tables GFM cannot express (merged cells, several blocks in
+ * a cell, header columns) and adjacent emphasis that would run together are
+ * written as raw HTML, which import passes through. Literal brackets and braces
+ * in text are always escaped, so attribute lists are never read from text.
+ * Exporting an imported export gives back the same Markdown.
+ */
+
+import { Marked, type Token, type Tokens, type TokenizerAndRendererExtension } from 'marked';
+
+type AttributeValue = string | true;
+type AttributeList = Array<[string, AttributeValue]>;
+
+interface AttributesToken {
+    type: 'attributes';
+    raw: string;
+    block: boolean; // `{: ...}` on a line of its own
+    attributes: Map<string, AttributeValue>;
+}
+
+interface StyledTextToken {
+    type: 'styledText';
+    raw: string;
+    attributes: Map<string, AttributeValue>;
+    tokens: Token[];
+}
+
+const TEXT_STYLE_KEYS = ['color', 'highlight', 'size', 'font', 'underline'];
+const BLOCK_KEYS = ['align', 'indent'];
+const IMAGE_KEYS = ['width', 'border', 'asset'];
+const CELL_KEYS = ['bg', 'width'];
+const ALIGNMENTS = ['left', 'center', 'right', 'justify'];
+
+// ============================================================================
+// ATTRIBUTE LISTS
+// ============================================================================
+
+const ATTRIBUTE_LIST_BODY = String.raw`(?:"(?:\\.|[^"\\\n])*"|[^{}"\n])*`;
+const ATTRIBUTE_PATTERN = /([A-Za-z][\w-]*)(?:=(?:"((?:\\.|[^"\\])*)"|([^\s"]+)))?/g;
+
+const parseAttributeList = (source: string): Map<string, AttributeValue> => {
+    const attributes = new Map<string, AttributeValue>();
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+        const quoted = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : undefined;
+        attributes.set(match[1], quoted ?? match[3] ?? true);
+    }
+    return attributes;
+};
+
+const formatAttributeList = (attributes: AttributeList): string => attributes
+    .map(([key, value]) => {
+        if (value === true) return key;
+        return /^[^\s"{}\\]+$/.test(value) ? `${key}=${value}` : `${key}="${value.replace(/["\\]/g, '\\$&')}"`;
+    })
+    .join(' ');
+
+const onlyKeys = (attributes: Map<string, AttributeValue>, keys: string[]): boolean =>
+    attributes.size > 0 && Array.from(attributes.keys()).every((key) => keys.includes(key));
+
+const stringValue = (value: AttributeValue | undefined): string | null => (typeof value === 'string' && value ? value : null);
+
+// Style attributes as written, since the DOM would normalize colors to rgb()
+const parseStyle = (style: string | null): Map<string, string> => {
+    const declarations = new Map<string, string>();
+    (style || '').split(';').forEach((declaration) => {
+        const colon = declaration.indexOf(':');
+        if (colon > 0) {
+            declarations.set(declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim());
+        }
+    });
+    return declarations;
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const escapeMarkdownText = (text: string): string => text
+    .replace(/[\\`*[\]{}<>~|]/g, '\\$&')
+    .replace(/(^|[^A-Za-z0-9])_|_(?=$|[^A-Za-z0-9])/g, (match) => match.replace('_', '\\_'))
+    .replace(/&(?=#?[A-Za-z0-9]+;)/g, '&amp;');
+
+// Lines that would start a block (heading, list, quote, setext underline) are escaped
+const escapeLineStarts = (markdown: string): string => markdown
+    .replace(/^([ \t]*)([#+=>-])/gm, '$1\\$2')
+    .replace(/^([ \t]*\d+)([.)])/gm, '$1\\$2');
+
+const escapeHtmlAttribute = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === 1;
+
+const INLINE_TAGS = ['strong', 'b', 'em', 'i', 's', 'del', 'strike', 'code', 'a', 'span', 'mark', 'u', 'br'];
+
+const isInlineNode = (node: Node): boolean => !isElement(node) || INLINE_TAGS.includes(node.tagName.toLowerCase());
+
+const codeSpan = (code: string): string => {
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = /^`|`$/.test(code) || /^ .* $/.test(code) ? ' ' : '';
+    return `${fence}${padding}${code}${padding}${fence}`;
+};
+
+// Destinations with spaces or parentheses are written in angle brackets so the URL stays as it was
+const formatUrl = (url: string): string => (/[\s()<>]/.test(url)
+    ? `<${url.replace(/[<>\n]/g, (character) => encodeURIComponent(character))}>`
+    : url);
+
+interface InlineContext {
+    html: boolean; // Hard breaks as <br>, for headings and table cells
+}
+
+// Bracketed span attributes of a run of nested span/mark/u elements
+const textStyleAttributes = (element: HTMLElement): AttributeList => {
+    const attributes: AttributeList = [];
+    const tag = element.tagName.toLowerCase();
+    const style = parseStyle(element.getAttribute('style'));
+    if (tag === 'mark') {
+        attributes.push(['highlight', element.getAttribute('data-color') || true]);
+    } else if (tag === 'u') {
+        attributes.push(['underline', true]);
+    } else {
+        if (style.get('color')) attributes.push(['color', style.get('color')!]);
+        if (style.get('font-size')) attributes.push(['size', style.get('font-size')!]);
+        if (style.get('font-family')) attributes.push(['font', style.get('font-family')!.replace(/^["']|["']$/g, '')]);
+    }
+    return attributes;
+};
+
+const isTextStyleElement = (node: Node): node is HTMLElement =>
+    isElement(node) && ['span', 'mark', 'u'].includes(node.tagName.toLowerCase());
+
+// Whitespace stays outside the delimiters, where emphasis can open and close
+const wrapEmphasis = (delimiter: string, inner: string): string => {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(inner)!;
+    if (!match[2]) return inner;
+    return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+};
+
+const inlineNodeMarkdown = (node: Node, context: InlineContext): string => {
+    if (node.nodeType === 3) {
+        return escapeMarkdownText((node.textContent || '').replace(/\n/g, ' '));
+    }
+    if (!isElement(node)) return '';
+
+    const tag = node.tagName.toLowerCase();
+    switch (tag) {
+        case 'br':
+            return context.html ? '<br>' : '\\\n';
+        case 'strong':
+        case 'b':
+            return wrapEmphasis('**', inlineMarkdown(node.childNodes, context));
+        case 'em':
+        case 'i':
+            return wrapEmphasis('*', inlineMarkdown(node.childNodes, context));
+        case 's':
+        case 'del':
+        case 'strike':
+            return wrapEmphasis('~~', inlineMarkdown(node.childNodes, context));
+        case 'code':
+            return codeSpan(node.textContent || '');
+        case 'a': {
+            const href = node.getAttribute('href') || '';
+            return `[${inlineMarkdown(node.childNodes, context)}](${formatUrl(href)})`;
+        }
+        case 'img':
+            return imageMarkdown(node);
+        case 'span':
+        case 'mark':
+        case 'u': {
+            // Nested text style elements become one bracketed span
+            const attributes = textStyleAttributes(node);
+            let content: HTMLElement = node;
+            while (content.childNodes.length === 1 && isTextStyleElement(content.firstChild!)) {
+                content = content.firstChild as HTMLElement;
+                attributes.push(...textStyleAttributes(content));
+            }
+            const inner = inlineMarkdown(content.childNodes, context);
+            return attributes.length && inner ? `[${inner}]{${formatAttributeList(attributes)}}` : inner;
+        }
+        default:
+            return inlineMarkdown(node.childNodes, context);
+    }
+};
+
+const EMPHASIS_TAGS: Record<string, string> = { strong: 'strong', b: 'strong', em: 'em', i: 'em', s: 's', del: 's', strike: 's' };
+
+const inlineMarkdown = (nodes: ArrayLike<Node>, context: InlineContext): string => {
+    let markdown = '';
+    Array.from(nodes).forEach((node) => {
+        let piece = inlineNodeMarkdown(node, context);
+        // Delimiters of neighbouring emphasis would merge (**a***b*), so the second one is written as HTML
+        if (isElement(node) && EMPHASIS_TAGS[node.tagName.toLowerCase()] && /[*~]$/.test(markdown) && /^[*~]/.test(piece)) {
+            const tag = EMPHASIS_TAGS[node.tagName.toLowerCase()];
+            piece = `<${tag}>${inlineMarkdown(node.childNodes, context)}</${tag}>`;
+        }
+        markdown += piece;
+    });
+    return markdown;
+};
+
+const blockAttributes = (element: HTMLElement): AttributeList => {
+    const attributes: AttributeList = [];
+    const align = parseStyle(element.getAttribute('style')).get('text-align');
+    if (align && ALIGNMENTS.includes(align) && align !== 'left') attributes.push(['align', align]);
+    const indent = parseInt(element.getAttribute('data-indent') || '0', 10);
+    if (indent > 0) attributes.push(['indent', String(indent)]);
+    return attributes;
+};
+
+const imageMarkdown = (image: HTMLElement): string => {
+    const alt = escapeMarkdownText(image.getAttribute('alt') || '');
+    const title = image.getAttribute('title');
+    const destination = `${formatUrl(image.getAttribute('src') || '')}${title ? ` "${title.replace(/["\\]/g, '\\$&')}"` : ''}`;
+    const attributes: AttributeList = [];
+    const width = parseInt(image.getAttribute('width') || parseStyle(image.getAttribute('style')).get('width') || '', 10);
+    if (width > 0) attributes.push(['width', String(width)]);
+    if (image.getAttribute('data-border') === 'false') attributes.push(['border', 'false']);
+    if (image.getAttribute('data-asset-id')) attributes.push(['asset', image.getAttribute('data-asset-id')!]);
+    return `![${alt}](${destination})${attributes.length ? `{${formatAttributeList(attributes)}}` : ''}`;
+};
+
+const codeFence = (code: string): string => {
+    const longestRun = Math.max(0, ...(code.match(/^`{3,}/gm) || []).map((run) => run.length));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+};
+
+const codeBlockMarkdown = (pre: HTMLElement): string => {
+    const code = pre.querySelector('code') || pre;
+    const classLanguage = /(?:^|\s)language-(\S+)/.exec(`${pre.className} ${code.className}`)?.[1];
+    const language = pre.getAttribute('data-language') || code.getAttribute('data-language') || classLanguage || 'plaintext';
+    const text = (code.textContent || '').replace(/\n$/, '');
+    const info = language === 'plaintext' ? '' : language === 'mermaid' ? 'mermaid {code}' : language;
+    const fence = codeFence(text);
+    return `${fence}${info}\n${text}\n${fence}`;
+};
+
+const mermaidMarkdown = (diagram: HTMLElement): string => {
+    const chart = (diagram.getAttribute('data-chart') || '').replace(/\n$/, '');
+    const theme = diagram.getAttribute('data-theme');
+    const fence = codeFence(chart);
+    return `${fence}mermaid${theme && theme !== 'default' ? ` {theme=${theme}}` : ''}\n${chart}\n${fence}`;
+};
+
+const indentLines = (markdown: string, indent: string): string =>
+    markdown.split('\n').map((line) => (line ? indent + line : line)).join('\n');
+
+// Adjacent lists alternate markers, otherwise Markdown would join them into one
+const listMarkdown = (list: HTMLElement, alternateMarker: boolean): string => {
+    const isTaskList = list.getAttribute('data-type') === 'taskList';
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    const start = parseInt(list.getAttribute('start') || '1', 10) || 1;
+    let loose = false;
+
+    const items = Array.from(list.children)
+        .filter((child) => child.tagName.toLowerCase() === 'li')
+        .map((item, index) => {
+            const checked = item.getAttribute('data-checked') === 'true' || item.getAttribute('data-checked') === '';
+            const marker = ordered
+                ? `${start + index}${alternateMarker ? ')' : '.'} `
+                : `${alternateMarker ? '*' : '-'} ${isTaskList ? `[${checked ? 'x' : ' '}] ` : ''}`;
+            const width = ordered ? marker.length : 2;
+            const contentNodes = isTaskList
+                ? Array.from(item.childNodes).flatMap((child) => (isElement(child) && child.tagName.toLowerCase() === 'div' ? Array.from(child.childNodes) : isElement(child) && child.tagName.toLowerCase() === 'label' ? [] : [child]))
+                : Array.from(item.childNodes);
+
+            const blocks = blockNodesMarkdown(contentNodes);
+            // A paragraph directly followed by a nested list stays tight; other blocks need a blank line
+            let body = '';
+            blocks.forEach((block, blockIndex) => {
+                if (blockIndex > 0) {
+                    const tight = blocks[blockIndex - 1].kind === 'paragraph' && block.kind === 'list';
+                    if (!tight) loose = true;
+                    body += tight ? '\n' : '\n\n';
+                }
+                body += block.markdown;
+            });
+            const [firstLine, ...rest] = body.split('\n');
+            const continuation = rest.length ? `\n${indentLines(rest.join('\n'), ' '.repeat(width))}` : '';
+            return `${marker}${firstLine}`.trimEnd() + continuation;
+        });
+
+    return items.join(loose ? '\n\n' : '\n');
+};
+
+// Column widths are kept on the header row and apply to the whole column
+const tableCellAttributes = (cell: HTMLElement, header: boolean): AttributeList => {
+    const attributes: AttributeList = [];
+    const background = parseStyle(cell.getAttribute('style')).get('background-color');
+    if (background) attributes.push(['bg', background]);
+    const width = cell.getAttribute('colwidth');
+    if (header && width && /^\d+$/.test(width)) attributes.push(['width', width]);
+    return attributes;
+};
+
+// A cell holds one plain paragraph, or inline content directly as an imported GFM cell does
+const cellContent = (cell: Element): ArrayLike<Node> | null => {
+    const nodes = Array.from(cell.childNodes).filter((node) => node.nodeType !== 3 || (node.textContent || '').trim());
+    if (nodes.every(isInlineNode)) return nodes;
+    const [paragraph] = nodes;
+    return nodes.length === 1 && paragraph.nodeName.toLowerCase() === 'p' && blockAttributes(paragraph as HTMLElement).length === 0
+        ? paragraph.childNodes
+        : null;
+};
+
+// GFM tables need a single header row, no merged cells and at most one paragraph per cell
+const tableMarkdown = (table: HTMLElement): string => {
+    const rows = Array.from(table.querySelectorAll('tr'));
+    const columns = rows[0]?.children.length || 0;
+    const fitsGfm = rows.length > 0 && columns > 0 && rows.every((row, rowIndex) => row.children.length === columns
+        && Array.from(row.children).every((cell) => cell.tagName.toLowerCase() === (rowIndex === 0 ? 'th' : 'td')
+            && (cell.getAttribute('colspan') || '1') === '1'
+            && (cell.getAttribute('rowspan') || '1') === '1'
+            && cellContent(cell) !== null));
+    if (!fitsGfm) {
+        return table.outerHTML;
+    }
+
+    const cellMarkdown = (cell: HTMLElement): string => {
+        const text = inlineMarkdown(cellContent(cell)!, { html: true }).trim();
+        const attributes = tableCellAttributes(cell, cell.tagName.toLowerCase() === 'th');
+        return [text, attributes.length ? `{${formatAttributeList(attributes)}}` : ''].filter(Boolean).join(' ') || ' ';
+    };
+    const rowMarkdown = (row: Element): string => `| ${Array.from(row.children).map((cell) => cellMarkdown(cell as HTMLElement)).join(' | ')} |`;
+
+    return [
+        rowMarkdown(rows[0]),
+        `|${' --- |'.repeat(columns)}`,
+        ...rows.slice(1).map(rowMarkdown),
+    ].join('\n');
+};
+
+type BlockKind = 'paragraph' | 'list' | 'other';
+
+interface MarkdownBlock {
+    kind: BlockKind;
+    markdown: string;
+}
+
+const blockNodesMarkdown = (nodes: ArrayLike<Node>): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let previousList: string | null = null;
+    let alternateMarker = false;
+    let inline: Node[] = [];
+
+    // Inline content outside a block element (loose list items, stray text) becomes a paragraph
+    const flushInline = () => {
+        const markdown = escapeLineStarts(inlineMarkdown(inline, { html: false }).trim());
+        inline = [];
+        if (markdown) blocks.push({ kind: 'paragraph', markdown });
+    };
+
+    Array.from(nodes).forEach((node) => {
+        if (!isElement(node) || INLINE_TAGS.includes(node.tagName.toLowerCase())) {
+            inline.push(node);
+            return;
+        }
+        flushInline();
+
+        const tag = node.tagName.toLowerCase();
+        const listKind = tag === 'ol' ? 'ol' : tag === 'ul' ? 'ul' : null;
+        alternateMarker = listKind !== null && previousList === listKind ? !alternateMarker : false;
+        previousList = listKind;
+
+        if (/^h[1-6]$/.test(tag)) {
+            const attributes = blockAttributes(node);
+            const text = inlineMarkdown(node.childNodes, { html: true }).trim();
+            blocks.push({ kind: 'other', markdown: `${'#'.repeat(Number(tag[1]))}${text ? ` ${text}` : ''}${attributes.length ? ` {${formatAttributeList(attributes)}}` : ''}` });
+        } else if (tag === 'p') {
+            const text = escapeLineStarts(inlineMarkdown(node.childNodes, { html: false }).trim());
+            const attributes = blockAttributes(node);
+            blocks.push(text
+                ? { kind: 'paragraph', markdown: `${text}${attributes.length ? `\n{: ${formatAttributeList(attributes)}}` : ''}` }
+                : { kind: 'other', markdown: '<p></p>' });
+        } else if (listKind) {
+            blocks.push({ kind: 'list', markdown: listMarkdown(node, alternateMarker) });
+        } else if (tag === 'blockquote') {
+            const inner = blockNodesMarkdown(node.childNodes).map((block) => block.markdown).join('\n\n');
+            blocks.push({ kind: 'other', markdown: inner.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n') });
+        } else if (tag === 'pre') {
+            blocks.push({ kind: 'other', markdown: codeBlockMarkdown(node) });
+        } else if (tag === 'div' && node.getAttribute('data-type') === 'mermaid') {
+            blocks.push({ kind: 'other', markdown: mermaidMarkdown(node) });
+        } else if (tag === 'hr') {
+            blocks.push({ kind: 'other', markdown: '---' });
+        } else if (tag === 'img') {
+            blocks.push({ kind: 'other', markdown: imageMarkdown(node) });
+        } else if (tag === 'table') {
+            blocks.push({ kind: 'other', markdown: tableMarkdown(node) });
+        } else {
+            blocks.push(...blockNodesMarkdown(node.childNodes));
+        }
+    });
+    flushInline();
+    return blocks;
+};
+
+/**
+ * Convert editor HTML to Markdown in the dialect described above
+ */
+export const convertHtmlToMarkdown = (html: string): string => {
+    const document = new DOMParser().parseFromString(html, 'text/html');
+    const blocks = blockNodesMarkdown(document.body.childNodes);
+    // The editor keeps an empty paragraph after a trailing table or code block and adds it back on import
+    while (blocks.length && blocks[blocks.length - 1].markdown === '<p></p>') {
+        blocks.pop();
+    }
+    const markdown = blocks.map((block) => block.markdown).join('\n\n');
+    return markdown ? `${markdown}\n` : '';
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+// Position of the matching closing bracket, skipping escapes and nested brackets
+const findClosingBracket = (source: string, open: number): number => {
+    let depth = 0;
+    for (let index = open; index < source.length; index++) {
+        const character = source[index];
+        if (character === '\\') {
+            index++;
+        } else if (character === '[') {
+            depth++;
+        } else if (character === ']' && --depth === 0) {
+            return index;
+        } else if (character === '\n' && source[index + 1] === '\n') {
+            return -1;
+        }
+    }
+    return -1;
+};
+
+const STYLED_TEXT_ATTRIBUTES = new RegExp(String.raw`^\{(${ATTRIBUTE_LIST_BODY})\}`);
+
+const styledTextExtension: TokenizerAndRendererExtension = {
+    name: 'styledText',
+    level: 'inline',
+    start: (source) => {
+        const index = source.search(/(?<!\\)\[/);
+        return index < 0 ? undefined : index;
+    },
+    tokenizer(source) {
+        if (source[0] !== '[') return undefined;
+        const close = findClosingBracket(source, 0);
+        const match = close > 0 ? STYLED_TEXT_ATTRIBUTES.exec(source.slice(close + 1)) : null;
+        const attributes = match ? parseAttributeList(match[1]) : null;
+        if (!match || !attributes || !onlyKeys(attributes, TEXT_STYLE_KEYS)) return undefined;
+        return {
+            type: 'styledText',
+            raw: source.slice(0, close + 1 + match[0].length),
+            attributes,
+            tokens: this.lexer.inlineTokens(source.slice(1, close)),
+        };
+    },
+    renderer(token) {
+        const { attributes, tokens } = token as unknown as StyledTextToken;
+        let html = this.parser.parseInline(tokens);
+        if (attributes.has('underline')) {
+            html = `<u>${html}</u>`;
+        }
+        const styles = [
+            stringValue(attributes.get('color')) && `color: ${stringValue(attributes.get('color'))}`,
+            stringValue(attributes.get('size')) && `font-size: ${stringValue(attributes.get('size'))}`,
+            stringValue(attributes.get('font')) && `font-family: ${stringValue(attributes.get('font'))}`,
+        ].filter(Boolean);
+        if (styles.length) {
+            html = `<span style="${escapeHtmlAttribute(styles.join('; '))}">${html}</span>`;
+        }
+        if (attributes.has('highlight')) {
+            const color = stringValue(attributes.get('highlight'));
+            html = color
+                ? `<mark data-color="${escapeHtmlAttribute(color)}" style="${escapeHtmlAttribute(`background-color: ${color}; color: inherit`)}">${html}</mark>`
+                : `<mark>${html}</mark>`;
+        }
+        return html;
+    },
+};
+
+const TRAILING_ATTRIBUTES = new RegExp(String.raw`^([ \t]*\n[ \t]*\{:|[ \t]+\{|\{)\s*(${ATTRIBUTE_LIST_BODY})\}[ \t]*$`);
+
+// A trailing attribute list of a heading, paragraph or table cell; the block renderers consume it
+const attributesExtension: TokenizerAndRendererExtension = {
+    name: 'attributes',
+    level: 'inline',
+    start: (source) => {
+        const index = source.search(new RegExp(String.raw`(?:[ \t]*\n[ \t]*\{:|[ \t]+\{|(?<=\))\{)\s*${ATTRIBUTE_LIST_BODY}\}[ \t]*$`));
+        return index < 0 ? undefined : index;
+    },
+    tokenizer(source) {
+        const match = TRAILING_ATTRIBUTES.exec(source);
+        if (!match) return undefined;
+        return {
+            type: 'attributes',
+            raw: match[0],
+            block: match[1].includes(':'),
+            attributes: parseAttributeList(match[2]),
+        };
+    },
+    // Only reached when no block took the attributes, so they are shown as written
+    renderer(token) {
+        return escapeHtmlAttribute(token.raw);
+    },
+};
+
+const takeAttributes = (tokens: Token[] | undefined, block: boolean, keys: string[]): { attributes: Map<string, AttributeValue>; tokens: Token[] } => {
+    const all = tokens || [];
+    const last = all[all.length - 1] as unknown as AttributesToken | undefined;
+    if (last?.type === 'attributes' && last.block === block && onlyKeys(last.attributes, keys)) {
+        return { attributes: last.attributes, tokens: all.slice(0, -1) };
+    }
+    return { attributes: new Map(), tokens: all };
+};
+
+const blockHtmlAttributes = (attributes: Map<string, AttributeValue>): string => {
+    const align = stringValue(attributes.get('align'));
+    const indent = parseInt(stringValue(attributes.get('indent')) || '0', 10);
+    const styles = [
+        align && ALIGNMENTS.includes(align) ? `text-align: ${align}` : '',
+        indent > 0 ? `margin-left: ${indent * 2}rem` : '',
+    ].filter(Boolean);
+    return `${indent > 0 ? ` data-indent="${indent}"` : ''}${styles.length ? ` style="${styles.join('; ')}"` : ''}`;
+};
+
+const imageHtml = (image: Tokens.Image, attributes: Map<string, AttributeValue>): string => {
+    const width = parseInt(stringValue(attributes.get('width')) || '', 10);
+    const asset = stringValue(attributes.get('asset'));
+    return `<img src="${escapeHtmlAttribute(image.href)}" alt="${escapeHtmlAttribute(image.text)}"`
+        + `${image.title ? ` title="${escapeHtmlAttribute(image.title)}"` : ''}`
+        + `${width > 0 ? ` width="${width}"` : ''}`
+        + `${attributes.get('border') === 'false' ? ' data-border="false"' : ''}`
+        + `${asset ? ` data-asset-id="${escapeHtmlAttribute(asset)}"` : ''}>`;
+};
+
+const escapeCode = (code: string): string => code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const markdownDialect = new Marked({ gfm: true });
+
+markdownDialect.use({
+    extensions: [styledTextExtension, attributesExtension],
+    renderer: {
+        heading({ tokens, depth }) {
+            const taken = takeAttributes(tokens, false, BLOCK_KEYS);
+            return `<h${depth}${blockHtmlAttributes(taken.attributes)}>${this.parser.parseInline(taken.tokens)}</h${depth}>\n`;
+        },
+        paragraph({ tokens }) {
+            // Images are blocks in the editor and are not wrapped in a paragraph
+            const image = takeAttributes(tokens, false, IMAGE_KEYS);
+            if (image.tokens.length === 1 && image.tokens[0].type === 'image') {
+                return `${imageHtml(image.tokens[0] as Tokens.Image, image.attributes)}\n`;
+            }
+            const taken = takeAttributes(tokens, true, BLOCK_KEYS);
+            return `<p${blockHtmlAttributes(taken.attributes)}>${this.parser.parseInline(taken.tokens)}</p>\n`;
+        },
+        // Text of tight list items; only wrapped in a paragraph when it carries attributes
+        text(token) {
+            if (!('tokens' in token) || !token.tokens) {
+                return 'escaped' in token && token.escaped ? token.text : escapeCode(token.text);
+            }
+            const taken = takeAttributes(token.tokens, true, BLOCK_KEYS);
+            const html = this.parser.parseInline(taken.tokens);
+            return taken.attributes.size ? `<p${blockHtmlAttributes(taken.attributes)}>${html}</p>` : html;
+        },
+        image(token) {
+            return imageHtml(token, new Map());
+        },
+        // The href is kept as written, where the default renderer would percent-encode it
+        link({ href, title, tokens }) {
+            return `<a href="${escapeHtmlAttribute(href)}"${title ? ` title="${escapeHtmlAttribute(title)}"` : ''}>${this.parser.parseInline(tokens)}</a>`;
+        },
+        code({ text, lang }) {
+            const [, language = '', info = ''] = /^(\S*)\s*(?:\{(.*)\})?/.exec((lang || '').trim()) || [];
+            const attributes = parseAttributeList(info);
+            if (language === 'mermaid' && !attributes.has('code')) {
+                const theme = stringValue(attributes.get('theme')) || 'default';
+                return `<div data-type="mermaid" data-chart="${escapeHtmlAttribute(text)}" data-theme="${escapeHtmlAttribute(theme)}"></div>\n`;
+            }
+            const name = escapeHtmlAttribute(language || 'plaintext');
+            return `<pre data-language="${name}" class="language-${name}"><code class="language-${name}">${escapeCode(text)}</code></pre>\n`;
+        },
+        list(token) {
+            const body = token.items.map((item) => this.listitem(item)).join('');
+            if (token.items.some((item) => item.task)) {
+                return `<ul data-type="taskList">${body}</ul>\n`;
+            }
+            if (token.ordered) {
+                return `<ol${token.start !== '' && token.start !== 1 ? ` start="${token.start}"` : ''}>${body}</ol>\n`;
+            }
+            return `<ul>${body}</ul>\n`;
+        },
+        listitem(item) {
+            const body = this.parser.parse(item.tokens, !!item.loose);
+            return item.task
+                ? `<li data-type="taskItem" data-checked="${item.checked ? 'true' : 'false'}">${body}</li>\n`
+                : `<li>${body}</li>\n`;
+        },
+        table(token) {
+            const widths = token.header.map((cell) => stringValue(takeAttributes(cell.tokens, false, CELL_KEYS).attributes.get('width')));
+            const row = (cells: Tokens.TableCell[]) => `<tr>${cells.map((cell, index) => {
+                const tag = cell.header ? 'th' : 'td';
+                const taken = takeAttributes(cell.tokens, false, CELL_KEYS);
+                const background = stringValue(taken.attributes.get('bg'));
+                const width = widths[index];
+                const attributes = `${background ? ` style="${escapeHtmlAttribute(`background-color: ${background}`)}"` : ''}${width && /^\d+$/.test(width) ? ` colwidth="${width}"` : ''}`;
+                return `<${tag}${attributes}>${this.parser.parseInline(taken.tokens)}</${tag}>`;
+            }).join('')}</tr>\n`;
+            return `<table>\n<thead>\n${row(token.header)}</thead>\n<tbody>${token.rows.map(row).join('')}</tbody>\n</table>\n`;
+        },
+    },
+});
+
+/**
+ * Convert Markdown in the dialect described above (or plain GFM) to editor HTML
+ */
+export const convertMarkdownToHtml = (markdown: string): string =>
+    (markdownDialect.parse(markdown.replace(/\r\n?/g, '\n'), { async: false }) as string).trim();
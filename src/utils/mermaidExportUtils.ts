@@ -17,8 +17,8 @@ export async function processMermaidForExport(htmlContent: string): Promise<stri
     const parser = new DOMParser();
     const doc = parser.parseFromString(htmlContent, 'text/html');
     
-    // Find all code blocks that might contain Mermaid
-    const codeBlocks = doc.querySelectorAll('pre code.language-mermaid, pre[data-language="mermaid"]');
+    // Find all code blocks that might contain Mermaid, and the editor's Mermaid nodes
+    const codeBlocks = doc.querySelectorAll('pre code.language-mermaid, pre[data-language="mermaid"], div[data-type="mermaid"]');
     // Process each Mermaid code block
     for (let i = 0; i < codeBlocks.length; i++) {
         const codeBlock = codeBlocks[i];
@@ -31,6 +31,11 @@ export async function processMermaidForExport(htmlContent: string): Promise<stri
             if (codeBlock.tagName === 'CODE' && codeBlock.parentElement?.tagName === 'PRE') {
                 mermaidCode = codeBlock.textContent || '';
             }
+
+            // Mermaid nodes keep their source in data-chart
+            if (codeBlock.tagName === 'DIV') {
+                mermaidCode = codeBlock.getAttribute('data-chart') || '';
+            }
             
             if (!mermaidCode.trim()) {
                 continue;
@@ -54,9 +59,11 @@ export async function processMermaidForExport(htmlContent: string): Promise<stri
                 break-inside: avoid;
             `;
             svgContainer.innerHTML = svg;
+            // Source kept for exporters that can't embed the SVG
+            svgContainer.setAttribute('data-chart', mermaidCode);
             
             // Find the pre element (either the code block itself or its parent)
-            let preElement = codeBlock.tagName === 'PRE' 
+            const preElement = codeBlock.tagName === 'PRE' || codeBlock.tagName === 'DIV'
                 ? codeBlock 
                 : codeBlock.parentElement;
             
@@ -88,7 +95,7 @@ export async function processMermaidForExport(htmlContent: string): Promise<stri
             `;
             errorDiv.textContent = `⚠️ Mermaid Diagram Error: ${error instanceof Error ? error.message : 'Failed to render'}`;
             
-            let preElement = codeBlock.tagName === 'PRE' 
+            const preElement = codeBlock.tagName === 'PRE' || codeBlock.tagName === 'DIV'
                 ? codeBlock 
                 : codeBlock.parentElement;
             
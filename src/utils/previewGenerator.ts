@@ -208,7 +208,8 @@ export function generatePreviewWithHighlights(
         switch (tool) {
             case 'append_document_content':
             case 'insert_document_content':
-            case 'insert_document_content_at_location': {
+            case 'insert_document_content_at_location':
+            case 'insert_document_block': {
                 const insertedContent: string = metadata.insertedContent ?? args?.content ?? '';
                 if (!insertedContent) {
                     break;
@@ -230,7 +231,8 @@ export function generatePreviewWithHighlights(
                 }
                 break;
             }
-            case 'replace_document_content': {
+            case 'replace_document_content':
+            case 'replace_document_block': {
                 const removeFrom = metadata.range?.before?.from ?? args?.position?.from ?? 0;
                 const removeTo = metadata.range?.before?.to ?? args?.position?.to ?? removeFrom;
                 const removedContent = metadata.removedContent ?? workingContent.slice(clamp(removeFrom, 0, workingContent.length), clamp(removeTo, 0, workingContent.length));
@@ -266,7 +268,8 @@ export function generatePreviewWithHighlights(
                 }
                 break;
             }
-            case 'remove_document_content': {
+            case 'remove_document_content':
+            case 'remove_document_block': {
                 const removeFrom = metadata.range?.before?.from ?? args?.position?.from ?? 0;
                 const removeTo = metadata.range?.before?.to ?? args?.position?.to ?? removeFrom;
                 const removedContent = metadata.removedContent ?? workingContent.slice(clamp(removeFrom, 0, workingContent.length), clamp(removeTo, 0, workingContent.length));
@@ -335,7 +338,10 @@ function isContentModifyingTool(tool: string): boolean {
         'insert_document_content',
         'insert_document_content_at_location',
         'replace_document_content',
-        'remove_document_content'
+        'remove_document_content',
+        'insert_document_block',
+        'replace_document_block',
+        'remove_document_block'
     ];
     return modifyingTools.includes(tool);
 }
@@ -0,0 +1,702 @@
+/**
+ * Workspace Import - reads Confluence and Notion exports into pages for a new project
+ *
+ * Confluence: a space export zip (entities.xml with pages in storage format and
+ * attachments/{pageId}/{attachmentId}/{version}). Notion: a "Markdown & CSV"
+ * export zip, optionally wrapped in an outer zip of parts.
+ *
+ * Pages come back parent-first with their hierarchy. Links between pages are
+ * written as `import-page:{key}` hrefs, which the server replaces with the new
+ * document URLs once every page has an ID. Macros and callouts become the
+ * nearest editor nodes (callouts as blockquotes) and images are uploaded as assets.
+ */
+
+import JSZip from 'jszip';
+import { uploadImageAsset } from '@/services/assetService';
+import { convertMarkdownToHtml } from './markdownConverter';
+
+export type WorkspaceSource = 'confluence' | 'notion';
+
+export interface ImportedPage {
+    key: string;
+    title: string;
+    parentKey: string | null;
+    html: string;
+}
+
+export interface ImportedWorkspace {
+    source: WorkspaceSource;
+    name: string;
+    pages: ImportedPage[];
+}
+
+export type WorkspaceImportProgress = (message: string) => void;
+
+export const IMPORT_LINK_PREFIX = 'import-page:';
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+};
+
+// Confluence table cell highlight names, matching its editor palette
+const CONFLUENCE_CELL_COLORS: Record<string, string> = {
+    grey: '#f4f5f7',
+    red: '#ffebe6',
+    yellow: '#fffae6',
+    green: '#e3fcef',
+    blue: '#deebff',
+    purple: '#eae6ff',
+    teal: '#e6fcff',
+};
+
+const CONFLUENCE_CALLOUTS: Record<string, string> = {
+    info: 'ℹ️ Info',
+    note: '📝 Note',
+    warning: '⚠️ Warning',
+    tip: '💡 Tip',
+    panel: '',
+};
+
+// Macros that only make sense inside Confluence (navigation, page trees)
+const DROPPED_MACROS = ['toc', 'toc-zone', 'children', 'pagetree', 'anchor', 'recently-updated', 'contentbylabel', 'livesearch', 'excerpt-include', 'include'];
+
+interface PageMeta {
+    key: string;
+    title: string;
+    parentKey: string | null;
+    order: number | null;
+}
+
+type Archive = Map<string, JSZip.JSZipObject>;
+
+interface UploadedImage {
+    src: string;
+    assetId?: string;
+}
+
+const escapeHtml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const tagName = (element: Element): string => element.tagName.toLowerCase();
+
+const childByTag = (element: Element, name: string): Element | undefined =>
+    Array.from(element.children).find((child) => tagName(child) === name);
+
+// First descendant with one of the tag names; CSS selectors can't be relied on for ac:/ri: names
+const descendantByTag = (element: Element, ...names: string[]): Element | undefined =>
+    Array.from(element.getElementsByTagName('*')).find((child) => names.includes(tagName(child)));
+
+const unwrap = (element: Element) => element.replaceWith(...Array.from(element.childNodes));
+
+const fileExtension = (path: string): string => (path.split('.').pop() || '').toLowerCase();
+
+// Siblings ordered by position, then title, with parents before their children
+const orderPages = (pages: PageMeta[]): PageMeta[] => {
+    const keys = new Set(pages.map((page) => page.key));
+    const children = new Map<string | null, PageMeta[]>();
+    pages.forEach((page) => {
+        const parentKey = page.parentKey && keys.has(page.parentKey) ? page.parentKey : null;
+        const siblings = children.get(parentKey) || [];
+        siblings.push({ ...page, parentKey });
+        children.set(parentKey, siblings);
+    });
+
+    const ordered: PageMeta[] = [];
+    const visit = (parentKey: string | null) => {
+        (children.get(parentKey) || [])
+            .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.title.localeCompare(b.title))
+            .forEach((page) => {
+                ordered.push(page);
+                visit(page.key);
+            });
+    };
+    visit(null);
+    return ordered;
+};
+
+const uploadArchiveImage = async (entry: JSZip.JSZipObject, fileName: string): Promise<UploadedImage | null> => {
+    const type = IMAGE_TYPES[fileExtension(fileName)];
+    if (!type) return null;
+
+    const data = await entry.async('uint8array');
+    try {
+        const asset = await uploadImageAsset(new File([data], fileName, { type }));
+        return { src: asset.url, assetId: asset.assetId };
+    } catch (error) {
+        console.warn(`⚠️ Keeping imported image ${fileName} inline, upload failed:`, error);
+        return { src: `data:${type};base64,${await entry.async('base64')}` };
+    }
+};
+
+const applyImage = (image: HTMLImageElement, uploaded: UploadedImage) => {
+    image.setAttribute('src', uploaded.src);
+    if (uploaded.assetId) {
+        image.setAttribute('data-asset-id', uploaded.assetId);
+    }
+};
+
+const pageLink = (doc: Document, key: string, anchor: string | null, content: Node[] | string): HTMLAnchorElement => {
+    const link = doc.createElement('a');
+    link.setAttribute('href', `${IMPORT_LINK_PREFIX}${key}${anchor ? `#${anchor}` : ''}`);
+    if (typeof content === 'string') {
+        link.textContent = content;
+    } else {
+        link.append(...content);
+    }
+    return link;
+};
+
+// Text outside a block (callout and toggle bodies) is wrapped in paragraphs for the editor
+const wrapLooseText = (container: Element) => {
+    const doc = container.ownerDocument;
+    let paragraph: HTMLParagraphElement | null = null;
+    Array.from(container.childNodes).forEach((node) => {
+        const isBlock = node.nodeType === 1 && /^(p|h[1-6]|ul|ol|pre|blockquote|table|div|hr|img)$/.test(tagName(node as Element));
+        if (isBlock || (node.nodeType === 3 && !node.textContent?.trim() && !paragraph)) {
+            paragraph = null;
+            return;
+        }
+        if (!paragraph) {
+            paragraph = doc.createElement('p');
+            node.before(paragraph);
+        }
+        paragraph.append(node);
+    });
+    container.querySelectorAll(':scope > p').forEach((p) => {
+        if (!p.textContent?.trim() && !p.querySelector('img')) p.remove();
+    });
+};
+
+const calloutBlock = (doc: Document, label: string, body: Node[]): HTMLQuoteElement => {
+    const quote = doc.createElement('blockquote');
+    if (label) {
+        const heading = doc.createElement('p');
+        const strong = doc.createElement('strong');
+        strong.textContent = label;
+        heading.append(strong);
+        quote.append(heading);
+    }
+    quote.append(...body);
+    wrapLooseText(quote);
+    return quote;
+};
+
+const codeBlock = (doc: Document, code: string, language: string): HTMLPreElement => {
+    const pre = doc.createElement('pre');
+    pre.setAttribute('data-language', language || 'plaintext');
+    const element = doc.createElement('code');
+    element.textContent = code.replace(/\n$/, '');
+    pre.append(element);
+    return pre;
+};
+
+const mermaidBlock = (doc: Document, chart: string): HTMLDivElement => {
+    const diagram = doc.createElement('div');
+    diagram.setAttribute('data-type', 'mermaid');
+    diagram.setAttribute('data-chart', chart.trim());
+    return diagram;
+};
+
+// ============================================================================
+// CONFLUENCE
+// ============================================================================
+
+interface ConfluenceObject {
+    id: string;
+    element: Element;
+}
+
+// Direct <property name="..."> children of an entities.xml object
+const confluenceProperty = (object: Element, name: string): Element | undefined =>
+    Array.from(object.children).find((child) => child.tagName === 'property' && child.getAttribute('name') === name);
+
+const confluenceText = (object: Element, name: string): string => confluenceProperty(object, name)?.textContent?.trim() || '';
+
+const confluenceReference = (object: Element, name: string): string | null =>
+    confluenceProperty(object, name)?.querySelector('id')?.textContent?.trim() || null;
+
+const confluenceObjects = (entities: Document, className: string): ConfluenceObject[] =>
+    Array.from(entities.documentElement.children)
+        .filter((object) => object.tagName === 'object' && object.getAttribute('class') === className)
+        .map((element) => ({ id: Array.from(element.children).find((child) => child.tagName === 'id')?.textContent?.trim() || '', element }))
+        .filter((object) => object.id);
+
+// Historical versions and trashed pages are left out
+const isCurrentConfluenceContent = (object: Element): boolean => {
+    const status = confluenceText(object, 'contentStatus');
+    return !confluenceProperty(object, 'originalVersion') && (!status || status === 'current');
+};
+
+// Storage format is XHTML with ac:/ri: elements, self-closing tags and CDATA; the HTML parser needs neither
+const parseStorageFormat = (storage: string): Document => {
+    const html = storage
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, text: string) => escapeHtml(text))
+        .replace(/<((?:ac|ri):[\w-]+)([^<>]*?)\/>/g, '<$1$2></$1>');
+    return new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+};
+
+interface ConfluenceContext {
+    pageKeysByTitle: Map<string, string>;
+    images: Map<string, UploadedImage>; // By attachment file name
+}
+
+const macroParameter = (macro: Element, name: string): string =>
+    Array.from(macro.children).find((child) => tagName(child) === 'ac:parameter' && child.getAttribute('ac:name') === name)?.textContent?.trim() || '';
+
+const convertConfluenceMacro = (macro: Element, doc: Document) => {
+    const name = (macro.getAttribute('ac:name') || '').toLowerCase();
+    const richBody = childByTag(macro, 'ac:rich-text-body');
+    const plainBody = childByTag(macro, 'ac:plain-text-body')?.textContent || '';
+    const body = richBody ? Array.from(richBody.childNodes) : [];
+
+    if (DROPPED_MACROS.includes(name)) {
+        macro.remove();
+    } else if (name.includes('mermaid')) {
+        macro.replaceWith(mermaidBlock(doc, plainBody || richBody?.textContent || ''));
+    } else if (name === 'code' || name === 'noformat') {
+        const language = macroParameter(macro, 'language').toLowerCase();
+        macro.replaceWith(codeBlock(doc, plainBody, language && language !== 'none' ? language : 'plaintext'));
+    } else if (name in CONFLUENCE_CALLOUTS) {
+        const title = macroParameter(macro, 'title');
+        const label = [CONFLUENCE_CALLOUTS[name], title].filter(Boolean).join(': ');
+        macro.replaceWith(calloutBlock(doc, label, body));
+    } else if (name === 'expand') {
+        macro.replaceWith(calloutBlock(doc, macroParameter(macro, 'title') || 'Details', body));
+    } else if (name === 'status' || name === 'jira') {
+        const code = doc.createElement('code');
+        code.textContent = macroParameter(macro, name === 'status' ? 'title' : 'key') || name;
+        macro.replaceWith(code);
+    } else if (richBody) {
+        macro.replaceWith(...body);
+    } else if (plainBody) {
+        macro.replaceWith(codeBlock(doc, plainBody, 'plaintext'));
+    } else {
+        macro.remove();
+    }
+};
+
+const convertConfluenceLink = (link: Element, doc: Document, context: ConfluenceContext) => {
+    const target = descendantByTag(link, 'ri:page', 'ri:attachment', 'ri:url', 'ri:user');
+    const body = descendantByTag(link, 'ac:plain-text-link-body', 'ac:link-body');
+    const anchor = link.getAttribute('ac:anchor');
+    const text = body?.textContent?.trim() || '';
+
+    if (target && tagName(target) === 'ri:page') {
+        const title = target.getAttribute('ri:content-title') || '';
+        const key = context.pageKeysByTitle.get(title);
+        if (key) {
+            link.replaceWith(pageLink(doc, key, anchor, body && tagName(body) === 'ac:link-body' ? Array.from(body.childNodes) : text || title));
+            return;
+        }
+        link.replaceWith(text || title);
+    } else if (target && tagName(target) === 'ri:url') {
+        const anchorElement = doc.createElement('a');
+        anchorElement.setAttribute('href', target.getAttribute('ri:value') || '');
+        anchorElement.textContent = text || target.getAttribute('ri:value') || '';
+        link.replaceWith(anchorElement);
+    } else if (target && tagName(target) === 'ri:user') {
+        link.replaceWith(text || '@user');
+    } else if (target && tagName(target) === 'ri:attachment') {
+        link.replaceWith(text || target.getAttribute('ri:filename') || '');
+    } else if (anchor) {
+        const anchorElement = doc.createElement('a');
+        anchorElement.setAttribute('href', `#${anchor}`);
+        anchorElement.textContent = text || anchor;
+        link.replaceWith(anchorElement);
+    } else {
+        link.replaceWith(text);
+    }
+};
+
+const convertConfluenceImage = (imageMacro: Element, doc: Document, context: ConfluenceContext) => {
+    const attachment = descendantByTag(imageMacro, 'ri:attachment');
+    const url = descendantByTag(imageMacro, 'ri:url');
+    const uploaded = attachment ? context.images.get(attachment.getAttribute('ri:filename') || '') : undefined;
+    const src = uploaded?.src || url?.getAttribute('ri:value');
+    if (!src) {
+        imageMacro.remove();
+        return;
+    }
+
+    const image = doc.createElement('img');
+    applyImage(image, { src, assetId: uploaded?.assetId });
+    image.setAttribute('alt', imageMacro.getAttribute('ac:alt') || attachment?.getAttribute('ri:filename') || '');
+    const title = imageMacro.getAttribute('ac:title');
+    if (title) image.setAttribute('title', title);
+    const width = parseInt(imageMacro.getAttribute('ac:width') || '', 10);
+    if (width > 0) image.setAttribute('width', String(width));
+    imageMacro.replaceWith(image);
+};
+
+const convertConfluenceTaskList = (taskList: Element, doc: Document) => {
+    const list = doc.createElement('ul');
+    list.setAttribute('data-type', 'taskList');
+    Array.from(taskList.children).filter((task) => tagName(task) === 'ac:task').forEach((task) => {
+        const item = doc.createElement('li');
+        item.setAttribute('data-type', 'taskItem');
+        item.setAttribute('data-checked', childByTag(task, 'ac:task-status')?.textContent?.trim() === 'complete' ? 'true' : 'false');
+        const paragraph = doc.createElement('p');
+        paragraph.append(...Array.from(childByTag(task, 'ac:task-body')?.childNodes || []));
+        item.append(paragraph);
+        list.append(item);
+    });
+    taskList.replaceWith(list);
+};
+
+const convertConfluencePage = (doc: Document, context: ConfluenceContext): string => {
+
+    // Deepest first, so macros nested in a macro body are converted before it is moved
+    Array.from(doc.body.querySelectorAll('*')).reverse().forEach((element) => {
+        if (!element.isConnected) return;
+        const tag = tagName(element);
+        if (tag === 'ac:structured-macro' || tag === 'ac:macro') {
+            convertConfluenceMacro(element, doc);
+        } else if (tag === 'ac:link') {
+            convertConfluenceLink(element, doc, context);
+        } else if (tag === 'ac:image') {
+            convertConfluenceImage(element, doc, context);
+        } else if (tag === 'ac:task-list') {
+            convertConfluenceTaskList(element, doc);
+        } else if (tag === 'ac:emoticon') {
+            element.replaceWith(element.getAttribute('ac:emoji-fallback') || '');
+        } else if (tag === 'ac:placeholder') {
+            element.remove();
+        } else if (tag === 'time') {
+            element.replaceWith(element.getAttribute('datetime') || element.textContent || '');
+        }
+    });
+
+    // Layout sections, inline comment markers and anything else Confluence-specific keep only their content
+    Array.from(doc.body.querySelectorAll('*'))
+        .filter((element) => /^(ac|ri):/.test(tagName(element)))
+        .reverse()
+        .forEach(unwrap);
+
+    doc.body.querySelectorAll('td[data-highlight-colour], th[data-highlight-colour]').forEach((cell) => {
+        const color = cell.getAttribute('data-highlight-colour') || '';
+        const background = CONFLUENCE_CELL_COLORS[color.toLowerCase()] || (/^#[0-9a-f]{3,8}$/i.test(color) ? color : null);
+        if (background) (cell as HTMLElement).style.backgroundColor = background;
+        cell.removeAttribute('data-highlight-colour');
+    });
+
+    // Plain <pre> blocks need a <code> child to become code blocks
+    doc.body.querySelectorAll('pre').forEach((pre) => {
+        if (!pre.querySelector('code')) {
+            pre.replaceWith(codeBlock(doc, pre.textContent || '', 'plaintext'));
+        }
+    });
+
+    return doc.body.innerHTML.trim();
+};
+
+const readConfluenceExport = async (archive: Archive, fileName: string, onProgress: WorkspaceImportProgress): Promise<ImportedWorkspace> => {
+    const entitiesPath = Array.from(archive.keys()).find((path) => /(^|\/)entities\.xml$/.test(path))!;
+    const basePath = entitiesPath.replace(/entities\.xml$/, '');
+    onProgress('Reading Confluence pages...');
+    const entities = new DOMParser().parseFromString(await archive.get(entitiesPath)!.async('string'), 'application/xml');
+    if (entities.querySelector('parsererror')) {
+        throw new Error('entities.xml in this export could not be read.');
+    }
+
+    const bodies = new Map<string, string>();
+    confluenceObjects(entities, 'BodyContent').forEach(({ element }) => {
+        const contentId = confluenceReference(element, 'content');
+        if (contentId) bodies.set(contentId, confluenceText(element, 'body'));
+    });
+
+    const pageObjects = confluenceObjects(entities, 'Page').filter(({ element }) => isCurrentConfluenceContent(element));
+    if (pageObjects.length === 0) {
+        throw new Error('No pages were found in this Confluence export.');
+    }
+    const pages = orderPages(pageObjects.map(({ id, element }) => {
+        const position = confluenceText(element, 'position');
+        return {
+            key: id,
+            title: confluenceText(element, 'title') || 'Untitled',
+            parentKey: confluenceReference(element, 'parent'),
+            order: position && !Number.isNaN(Number(position)) ? Number(position) : null,
+        };
+    }));
+    const pageIds = new Set(pages.map((page) => page.key));
+
+    // Latest version of each attachment, keyed by page then file name
+    const attachments = new Map<string, Map<string, { id: string; version: number }>>();
+    confluenceObjects(entities, 'Attachment').filter(({ element }) => isCurrentConfluenceContent(element)).forEach(({ id, element }) => {
+        const pageId = confluenceReference(element, 'containerContent') || confluenceReference(element, 'content');
+        const title = confluenceText(element, 'title') || confluenceText(element, 'fileName');
+        if (!pageId || !pageIds.has(pageId) || !title) return;
+        const version = Number(confluenceText(element, 'version')) || 1;
+        const pageAttachments = attachments.get(pageId) || new Map();
+        if ((pageAttachments.get(title)?.version || 0) < version) {
+            pageAttachments.set(title, { id, version });
+        }
+        attachments.set(pageId, pageAttachments);
+    });
+
+    const pageKeysByTitle = new Map(pages.map((page) => [page.title, page.key]));
+    const imported: ImportedPage[] = [];
+    for (const [index, page] of pages.entries()) {
+        onProgress(`Converting page ${index + 1} of ${pages.length}: ${page.title}`);
+        const doc = parseStorageFormat(bodies.get(page.key) || '');
+
+        // Images are uploaded before conversion, which is synchronous
+        const images = new Map<string, UploadedImage>();
+        const referenced = new Set(Array.from(doc.getElementsByTagName('ac:image')).map((image) => descendantByTag(image, 'ri:attachment')?.getAttribute('ri:filename') || ''));
+        for (const filename of referenced) {
+            const attachment = attachments.get(page.key)?.get(filename);
+            const entry = attachment && (archive.get(`${basePath}attachments/${page.key}/${attachment.id}/${attachment.version}`)
+                || Array.from(archive.entries()).find(([path]) => path.startsWith(`${basePath}attachments/${page.key}/${attachment.id}/`))?.[1]);
+            const uploaded = entry ? await uploadArchiveImage(entry, filename) : null;
+            if (uploaded) images.set(filename, uploaded);
+        }
+
+        imported.push({
+            key: page.key,
+            title: page.title,
+            parentKey: page.parentKey,
+            html: convertConfluencePage(doc, { pageKeysByTitle, images }),
+        });
+    }
+
+    const spaceName = confluenceObjects(entities, 'Space').map(({ element }) => confluenceText(element, 'name')).find(Boolean);
+    return { source: 'confluence', name: spaceName || fileName.replace(/\.zip$/i, ''), pages: imported };
+};
+
+// ============================================================================
+// NOTION
+// ============================================================================
+
+const NOTION_ID = /\s+([0-9a-f]{32})$/i;
+
+const notionTitle = (stem: string): string => stem.replace(NOTION_ID, '').trim() || 'Untitled';
+
+const safeDecode = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+// Archive path of a relative link in a page at pageDirectory
+const resolveArchivePath = (pageDirectory: string, href: string): string => {
+    const parts = pageDirectory ? pageDirectory.split('/') : [];
+    safeDecode(href.split('#')[0]).split('/').forEach((part) => {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+};
+
+const directoryOf = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+const stemOf = (path: string): string => path.replace(/\.(md|csv)$/i, '').replace(/_all$/, '');
+
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let index = 0; index < text.length; index++) {
+        const character = text[index];
+        if (quoted) {
+            if (character === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (character === '"') {
+                quoted = false;
+            } else {
+                field += character;
+            }
+        } else if (character === '"') {
+            quoted = true;
+        } else if (character === ',') {
+            row.push(field);
+            field = '';
+        } else if (character === '\n' || character === '\r') {
+            if (character === '\r' && text[index + 1] === '\n') index++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += character;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+interface NotionContext {
+    archive: Archive;
+    pageKeysByPath: Map<string, string>; // Archive path without extension or _all suffix
+    pageKeysById: Map<string, string>; // Notion page id
+    images: Map<string, UploadedImage | null>; // By archive path, shared across pages
+}
+
+// Database rows link to their pages by title, the way the database shows them
+const databaseTable = (csv: string, rowKeysByTitle: Map<string, string>): string => {
+    const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+    if (!header) return '';
+    const cell = (tag: string, text: string, linkKey?: string) => `<${tag}><p>${linkKey ? `<a href="${IMPORT_LINK_PREFIX}${linkKey}">${escapeHtml(text)}</a>` : escapeHtml(text)}</p></${tag}>`;
+    return `<table><tbody><tr>${header.map((title) => cell('th', title)).join('')}</tr>${rows
+        .map((row) => `<tr>${header.map((_title, index) => cell('td', row[index] || '', index === 0 ? rowKeysByTitle.get(row[0]) : undefined)).join('')}</tr>`)
+        .join('')}</tbody></table>`;
+};
+
+const convertNotionHtml = async (html: string, pagePath: string, title: string, context: NotionContext): Promise<string> => {
+    const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+    const pageDirectory = directoryOf(pagePath);
+
+    // The page title is exported as the first heading
+    const firstHeading = doc.body.firstElementChild;
+    if (firstHeading && tagName(firstHeading) === 'h1' && firstHeading.textContent?.trim() === title) {
+        firstHeading.remove();
+    }
+
+    doc.body.querySelectorAll('aside').forEach((aside) => {
+        aside.replaceWith(calloutBlock(doc, '', Array.from(aside.childNodes)));
+    });
+    doc.body.querySelectorAll('details').forEach((details) => {
+        const summary = childByTag(details, 'summary');
+        const label = summary?.textContent?.trim() || 'Details';
+        summary?.remove();
+        details.replaceWith(calloutBlock(doc, label, Array.from(details.childNodes)));
+    });
+
+    for (const image of Array.from(doc.body.querySelectorAll('img'))) {
+        const src = image.getAttribute('src') || '';
+        if (/^[a-z][a-z0-9+.-]*:/i.test(src)) continue;
+        const path = resolveArchivePath(pageDirectory, src);
+        if (!context.images.has(path)) {
+            const entry = context.archive.get(path);
+            context.images.set(path, entry ? await uploadArchiveImage(entry, path.split('/').pop() || 'image') : null);
+        }
+        const uploaded = context.images.get(path);
+        if (uploaded) {
+            applyImage(image, uploaded);
+        } else {
+            image.remove();
+        }
+    }
+
+    doc.body.querySelectorAll('a[href]').forEach((link) => {
+        const href = link.getAttribute('href') || '';
+        const notionId = /notion\.so\/.*?([0-9a-f]{32})(?:[?#]|$)/i.exec(href)?.[1];
+        const anchor = href.includes('#') ? href.split('#').pop() || null : null;
+        const key = notionId
+            ? context.pageKeysById.get(notionId.toLowerCase())
+            : !/^[a-z][a-z0-9+.-]*:|^#/i.test(href) ? context.pageKeysByPath.get(stemOf(resolveArchivePath(pageDirectory, href))) : undefined;
+        if (key) {
+            link.replaceWith(pageLink(doc, key, notionId ? null : anchor, Array.from(link.childNodes)));
+        }
+    });
+
+    return doc.body.innerHTML.trim();
+};
+
+const readNotionExport = async (archive: Archive, fileName: string, onProgress: WorkspaceImportProgress): Promise<ImportedWorkspace> => {
+    const paths = Array.from(archive.keys());
+    const pagePaths = paths
+        .filter((path) => /\.md$/i.test(path) || /\.csv$/i.test(path))
+        // Newer exports write every database twice; the _all file has every row
+        .filter((path) => !/\.csv$/i.test(path) || /_all\.csv$/i.test(path) || !archive.has(path.replace(/\.csv$/i, '_all.csv')));
+    if (pagePaths.length === 0) {
+        throw new Error('No pages were found in this Notion export.');
+    }
+
+    onProgress('Reading Notion pages...');
+    const sources = new Map<string, string>();
+    for (const path of pagePaths) {
+        sources.set(path, await archive.get(path)!.async('string'));
+    }
+
+    // Keys are numbers; paths hold spaces and punctuation that don't belong in link placeholders
+    const keysByStem = new Map(pagePaths.map((path, index) => [stemOf(path), String(index + 1)]));
+    const pathsByKey = new Map(pagePaths.map((path) => [keysByStem.get(stemOf(path))!, path]));
+    const pages = orderPages(pagePaths.map((path) => {
+        const stem = stemOf(path);
+        const heading = /\.md$/i.test(path) ? /^#\s+(.+)$/.exec(sources.get(path)!.split('\n').find((line) => line.trim()) || '')?.[1]?.trim() : null;
+        return {
+            key: keysByStem.get(stem)!,
+            title: heading || notionTitle(stem.split('/').pop() || ''),
+            parentKey: keysByStem.get(directoryOf(stem)) || null,
+            order: null,
+        };
+    }));
+
+    const context: NotionContext = {
+        archive,
+        pageKeysByPath: keysByStem,
+        pageKeysById: new Map(Array.from(keysByStem.entries())
+            .map(([stem, key]) => [NOTION_ID.exec(stem.split('/').pop() || '')?.[1]?.toLowerCase(), key] as const)
+            .filter((entry): entry is readonly [string, string] => !!entry[0])),
+        images: new Map(),
+    };
+
+    const imported: ImportedPage[] = [];
+    for (const [index, page] of pages.entries()) {
+        onProgress(`Converting page ${index + 1} of ${pages.length}: ${page.title}`);
+        const path = pathsByKey.get(page.key)!;
+        const source = sources.get(path)!;
+        const html = /\.csv$/i.test(path)
+            ? databaseTable(source, new Map(pages.filter((row) => row.parentKey === page.key).map((row) => [row.title, row.key])))
+            : await convertNotionHtml(convertMarkdownToHtml(source), path, page.title, context);
+        imported.push({ key: page.key, title: page.title, parentKey: page.parentKey, html });
+    }
+
+    const roots = imported.filter((page) => !page.parentKey);
+    return {
+        source: 'notion',
+        name: roots.length === 1 ? roots[0].title : fileName.replace(/\.zip$/i, ''),
+        pages: imported,
+    };
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+// Notion splits large exports into part zips inside an outer zip
+const readArchive = async (data: ArrayBuffer | Uint8Array, depth = 0): Promise<Archive> => {
+    const zip = await JSZip.loadAsync(data);
+    const archive: Archive = new Map();
+    for (const entry of Object.values(zip.files)) {
+        if (entry.dir || entry.name.startsWith('__MACOSX/')) continue;
+        if (depth === 0 && /\.zip$/i.test(entry.name)) {
+            const inner = await readArchive(await entry.async('uint8array'), depth + 1);
+            inner.forEach((innerEntry, path) => archive.set(path, innerEntry));
+        } else {
+            archive.set(entry.name, entry);
+        }
+    }
+    return archive;
+};
+
+/**
+ * Read a Confluence space export or Notion export zip into pages, uploading images as assets
+ */
+export async function readWorkspaceExport(file: File, onProgress: WorkspaceImportProgress = () => {}): Promise<ImportedWorkspace> {
+    onProgress('Opening export...');
+    const archive = await readArchive(await file.arrayBuffer());
+
+    if (Array.from(archive.keys()).some((path) => /(^|\/)entities\.xml$/.test(path))) {
+        return readConfluenceExport(archive, file.name, onProgress);
+    }
+    if (Array.from(archive.keys()).some((path) => /\.(md|csv)$/i.test(path))) {
+        return readNotionExport(archive, file.name, onProgress);
+    }
+    throw new Error('This zip is not a Confluence space export (entities.xml) or a Notion Markdown & CSV export.');
+}
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { diffHtml, renderDiffEntry, restoreHunks } from '../src/utils/htmlDiff';
+
+// The diff parses HTML with the browser's DOMParser and checks node types against Node
+const { window } = new JSDOM();
+globalThis.DOMParser = window.DOMParser;
+globalThis.Node = window.Node;
+
+const BEFORE = [
+  '<h1>Guide</h1>',
+  '<p>Install the command line tool with npm.</p>',
+  '<p>Then log in with your account.</p>',
+  '<h2>Usage</h2>',
+  '<p>Run it from the project root.</p>'
+].join('');
+
+const ops = (before: string, after: string) => diffHtml(before, after).entries.map((entry) => entry.op);
+
+test('identical documents have no hunks', () => {
+  const result = diffHtml(BEFORE, BEFORE);
+
+  assert.deepEqual(result.hunks, []);
+  assert.deepEqual(result.stats, { added: 0, removed: 0, modified: 0 });
+});
+
+test('an inserted block is reported as added', () => {
+  const after = BEFORE.replace('<h2>Usage</h2>', '<p>Restart your shell.</p><h2>Usage</h2>');
+  const result = diffHtml(BEFORE, after);
+
+  assert.deepEqual(ops(BEFORE, after), ['equal', 'equal', 'equal', 'added', 'equal', 'equal']);
+  assert.deepEqual(result.stats, { added: 1, removed: 0, modified: 0 });
+  assert.equal(renderDiffEntry(result.hunks[0].entries[0], 'before'), '');
+  assert.equal(renderDiffEntry(result.hunks[0].entries[0], 'after'), '<p class="diff-block-added">Restart your shell.</p>');
+});
+
+test('a deleted block is reported as removed', () => {
+  const after = BEFORE.replace('<p>Then log in with your account.</p>', '');
+  const result = diffHtml(BEFORE, after);
+
+  assert.deepEqual(ops(BEFORE, after), ['equal', 'equal', 'removed', 'equal', 'equal']);
+  assert.deepEqual(result.stats, { added: 0, removed: 1, modified: 0 });
+  assert.equal(renderDiffEntry(result.hunks[0].entries[0], 'after'), '');
+});
+
+test('a reworded block is a modification with a word-level diff', () => {
+  const after = BEFORE.replace('with npm.', 'with pnpm.');
+  const [hunk] = diffHtml(BEFORE, after).hunks;
+
+  assert.equal(hunk.modified, 1);
+  assert.equal(
+    renderDiffEntry(hunk.entries[0], 'inline'),
+    '<p class="diff-block-modified">Install the command line tool with <del class="diff-del">npm</del><ins class="diff-ins">pnpm</ins>.</p>'
+  );
+});
+
+test('a rewritten block is shown as a removal and an addition', () => {
+  const after = BEFORE.replace('Then log in with your account.', 'Sign-in is automatic.');
+
+  assert.deepEqual(ops(BEFORE, after), ['equal', 'equal', 'removed', 'added', 'equal', 'equal']);
+});
+
+test('list items are diffed in place', () => {
+  const before = '<ul><li>Alpha</li><li>Beta</li></ul>';
+  const after = '<ul><li>Alpha</li><li>Beta</li><li>Gamma</li></ul>';
+  const [entry] = diffHtml(before, after).entries;
+
+  assert.equal(entry.op, 'modified');
+  assert.equal(
+    renderDiffEntry(entry, 'after'),
+    '<ul class="diff-block-modified"><li>Alpha</li><li>Beta</li><li class="diff-item-added">Gamma</li></ul>'
+  );
+});
+
+test('restoring selected hunks reverts only those changes', () => {
+  const after = BEFORE
+    .replace('with npm.', 'with pnpm.')
+    .replace('<h2>Usage</h2>', '<p>Restart your shell.</p><h2>Usage</h2>')
+    .replace('<p>Run it from the project root.</p>', '');
+  const result = diffHtml(BEFORE, after);
+
+  assert.equal(result.hunks.length, 3);
+  assert.equal(restoreHunks(result, []), after);
+  assert.equal(restoreHunks(result, result.hunks.map((hunk) => hunk.id)), BEFORE);
+  assert.equal(
+    restoreHunks(result, [result.hunks[1].id]),
+    BEFORE.replace('with npm.', 'with pnpm.').replace('<p>Run it from the project root.</p>', '')
+  );
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { JSDOM } from 'jsdom';
+import { convertHtmlToMarkdown, convertMarkdownToHtml } from '../src/utils/markdownConverter';
+
+// The converter parses HTML with the browser's DOMParser
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+// Each <name>.html holds editor output for one or more extensions of getTipTapExtensions,
+// and <name>.md the Markdown it must export to
+const corpus = new URL('./markdown/', import.meta.url);
+const cases = readdirSync(corpus)
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => file.slice(0, -'.html'.length));
+
+const read = (file: string) => readFileSync(new URL(file, corpus), 'utf8');
+
+for (const name of cases) {
+  test(`${name}: exports to the golden Markdown`, () => {
+    assert.equal(convertHtmlToMarkdown(read(`${name}.html`)), read(`${name}.md`));
+  });
+
+  test(`${name}: importing the export and exporting again gives the same Markdown`, () => {
+    const markdown = read(`${name}.md`);
+    assert.equal(convertHtmlToMarkdown(convertMarkdownToHtml(markdown)), markdown);
+  });
+}
+
+test('imported GFM table cells keep their text', () => {
+  const markdown = '| a | b |\n| --- | --- |\n| 1 | **2** |\n';
+  const html = convertMarkdownToHtml(markdown);
+
+  assert.match(html, /<td>1<\/td>/);
+  assert.equal(convertHtmlToMarkdown(html), markdown);
+});